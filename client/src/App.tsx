@@ -23,6 +23,7 @@ import { BusinessCapabilityMapPage } from "@/pages/BusinessCapabilityMapPage";
 import ObjectLakePage from "@/pages/ObjectLakePage";
 import LoginPage from "@/pages/LoginPage";
 import RegisterPage from "@/pages/RegisterPage";
+import OrganizationMembersPage from "@/pages/OrganizationMembersPage";
 import { useAuth } from "@/hooks/useAuth";
 
 function RedirectToConfiguration() {
@@ -82,6 +83,7 @@ function AuthenticatedRoutes() {
         <Route path="/object-lake" component={ObjectLakePage} />
         <Route path="/enhanced-config" component={RedirectToConfiguration} />
         <Route path="/color-themes" component={ColorThemePage} />
+        <Route path="/organization/members" component={OrganizationMembersPage} />
         <Route component={NotFound} />
       </Switch>
     </AppLayout>
@@ -0,0 +1,134 @@
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuditLog } from "@/hooks/useAuditLog";
+import { cn } from "@/lib/utils";
+import { auditEntityLabels, auditEntityName, changedAuditFields, type AuditAction } from "@shared/audit";
+import type { AuditLogEntry, AuditLogFilter } from "@/types/audit";
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30",
+  update: "bg-sky-500/10 text-sky-600 border-sky-500/30",
+  delete: "bg-destructive/10 text-destructive border-destructive/30",
+  restore: "bg-violet-500/10 text-violet-600 border-violet-500/30",
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Changed",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+// Updates with more changed fields than this collapse the rest into a count
+const MAX_VISIBLE_FIELDS = 6;
+
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  if (typeof value === "boolean") {
+    return value ? "yes" : "no";
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+}
+
+function ActivityItem({ entry }: { entry: AuditLogEntry }) {
+  const name = auditEntityName(entry.before, entry.after);
+  const changes = entry.action === "update" || entry.action === "restore" ? changedAuditFields(entry.before, entry.after) : [];
+  const hidden = changes.length - MAX_VISIBLE_FIELDS;
+
+  return (
+    <li className="rounded-md border border-border/60 bg-background/70 p-3 text-xs" data-testid={`activity-entry-${entry.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className={cn("text-[10px]", ACTION_STYLES[entry.action])}>
+          {ACTION_LABELS[entry.action]}
+        </Badge>
+        <span className="text-muted-foreground">{auditEntityLabels[entry.entityType] ?? entry.entityType}</span>
+        <span className="font-medium text-foreground">{name ?? `#${entry.entityId}`}</span>
+      </div>
+      <div className="mt-1 text-[11px] text-muted-foreground" title={new Date(entry.createdAt).toLocaleString()}>
+        {entry.actorName ?? "System"} · {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+      </div>
+      {changes.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {changes.slice(0, MAX_VISIBLE_FIELDS).map((change) => (
+            <li key={change.field} className="grid grid-cols-[minmax(0,7rem)_1fr] gap-2">
+              <span className="truncate text-muted-foreground">{fieldLabel(change.field)}</span>
+              <span className="min-w-0 break-words">
+                <span className="text-destructive/80 line-through">{formatValue(change.before)}</span>
+                <span className="mx-1 text-muted-foreground">→</span>
+                <span className="text-emerald-600">{formatValue(change.after)}</span>
+              </span>
+            </li>
+          ))}
+          {hidden > 0 && <li className="text-muted-foreground">and {hidden} more field{hidden === 1 ? "" : "s"}</li>}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+interface ActivityFeedProps {
+  filter: AuditLogFilter;
+  enabled?: boolean;
+  className?: string;
+}
+
+/** Newest-first list of audit log entries with the fields each update changed. */
+export default function ActivityFeed({ filter, enabled = true, className }: ActivityFeedProps) {
+  const { entries, total, isLoading, isError, hasMore, loadMore, isLoadingMore } = useAuditLog(filter, enabled);
+
+  if (isLoading) {
+    return (
+      <div className={cn("flex items-center justify-center py-8 text-muted-foreground", className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className={cn("py-6 text-center text-sm text-destructive", className)}>Activity could not be loaded.</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className={cn("py-6 text-center text-muted-foreground", className)}>
+        <History className="mx-auto mb-2 h-8 w-8 opacity-50" />
+        <p className="text-sm">No recorded changes yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="text-[11px] text-muted-foreground">
+        {total} change{total === 1 ? "" : "s"} recorded
+      </p>
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <ActivityItem key={entry.id} entry={entry} />
+        ))}
+      </ul>
+      {hasMore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full text-xs"
+          disabled={isLoadingMore}
+          onClick={() => loadMore()}
+          data-testid="button-activity-load-more"
+        >
+          {isLoadingMore ? <Loader2 className="h-3 w-3 animate-spin" /> : "Load older changes"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useLocation } from "wouter";
-import { Home, Layers3, Server, Settings, BarChart3, Building2, Database, PanelLeftClose, PanelLeftOpen, LogOut, User } from "lucide-react";
+import { Home, Layers3, Server, Settings, BarChart3, Building2, Database, PanelLeftClose, PanelLeftOpen, LogOut, MonitorSmartphone, User, Users } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -70,7 +70,7 @@ const NAV_ITEMS: NavItem[] = [
 
 export function AppSidebar({ onNavigate, collapsed = false, onToggleCollapse }: AppSidebarProps) {
   const [location, setLocation] = useLocation();
-  const { user, organization, logout } = useAuth();
+  const { user, organization, logout, logoutAllDevices } = useAuth();
 
   const handleNavigate = (href: string) => {
     setLocation(href);
@@ -86,6 +86,15 @@ export function AppSidebar({ onNavigate, collapsed = false, onToggleCollapse }:
     }
   };
 
+  const handleLogoutAllDevices = async () => {
+    try {
+      await logoutAllDevices();
+      setLocation("/auth/login");
+    } catch (error) {
+      console.error("Logout of all devices failed:", error);
+    }
+  };
+
   return (
     <TooltipProvider delayDuration={100}>
       <div
@@ -242,10 +251,18 @@ export function AppSidebar({ onNavigate, collapsed = false, onToggleCollapse }:
                         </div>
                       </DropdownMenuLabel>
                       <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => handleNavigate("/organization/members")} className="cursor-pointer">
+                        <Users className="mr-2 h-4 w-4" />
+                        <span>Members</span>
+                      </DropdownMenuItem>
                       <DropdownMenuItem onClick={handleLogout} className="text-destructive focus:text-destructive cursor-pointer">
                         <LogOut className="mr-2 h-4 w-4" />
                         <span>Log out</span>
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleLogoutAllDevices} className="text-destructive focus:text-destructive cursor-pointer">
+                        <MonitorSmartphone className="mr-2 h-4 w-4" />
+                        <span>Log out all devices</span>
+                      </DropdownMenuItem>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TooltipTrigger>
@@ -284,10 +301,18 @@ export function AppSidebar({ onNavigate, collapsed = false, onToggleCollapse }:
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleNavigate("/organization/members")} className="cursor-pointer">
+                    <Users className="mr-2 h-4 w-4" />
+                    <span>Members</span>
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleLogout} className="text-destructive focus:text-destructive cursor-pointer">
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>Log out</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleLogoutAllDevices} className="text-destructive focus:text-destructive cursor-pointer">
+                    <MonitorSmartphone className="mr-2 h-4 w-4" />
+                    <span>Log out all devices</span>
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
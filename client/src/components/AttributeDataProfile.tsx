@@ -0,0 +1,70 @@
+import { AlertTriangle, BarChart3 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { findProfileMismatches, readDataProfile } from "@shared/dataProfile";
+
+interface AttributeDataProfileProps {
+  attribute: {
+    nullable?: boolean | null;
+    isPrimaryKey?: boolean | null;
+    length?: number | null;
+    commonProperties?: Record<string, unknown> | null;
+  };
+  /** The attribute is the only primary key column of its object. */
+  soleKey?: boolean;
+}
+
+const percent = (ratio: number) => `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.01 ? 2 : 1)}%`;
+
+/** Source data statistics stored on a synced attribute, with any declaration the data contradicts. */
+export default function AttributeDataProfile({ attribute, soleKey = false }: AttributeDataProfileProps) {
+  const profile = readDataProfile(attribute.commonProperties);
+  if (!profile) return null;
+
+  const mismatches = findProfileMismatches(attribute, profile, { soleKey });
+  const hasRange = profile.min !== undefined && profile.max !== undefined;
+
+  return (
+    <div className="mt-2 space-y-1 border-t border-border pt-2 text-xs text-muted-foreground" data-testid="attribute-data-profile">
+      <div className="flex items-center gap-1 font-medium text-foreground">
+        <BarChart3 className="h-3 w-3" />
+        Source data
+        {profile.sampleSize !== undefined && (
+          <span className="font-normal text-muted-foreground">
+            ({profile.sampleSize.toLocaleString()} row{profile.sampleSize === 1 ? "" : "s"} sampled)
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-x-3">
+        <div>Nulls: {profile.nullCount.toLocaleString()} ({percent(profile.nullRatio)})</div>
+        <div>Distinct: {profile.distinctCount.toLocaleString()}</div>
+        {hasRange && (
+          <div className="col-span-2 truncate" title={`${profile.min} – ${profile.max}`}>
+            Range: {String(profile.min)} – {String(profile.max)}
+          </div>
+        )}
+        {profile.maxLength !== undefined && <div>Max length: {profile.maxLength}</div>}
+        {profile.pattern && (
+          <div className="truncate" title={profile.pattern}>
+            Format: <span className="font-mono">{profile.pattern}</span>
+            {profile.patternRatio !== undefined && profile.patternRatio < 1 ? ` (${percent(profile.patternRatio)})` : ""}
+          </div>
+        )}
+      </div>
+      {profile.topValues && profile.topValues.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {profile.topValues.map((entry) => (
+            <Badge key={entry.value} variant="outline" className="px-1.5 py-0 text-[10px] font-normal">
+              {entry.value} × {entry.count.toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {mismatches.map((mismatch) => (
+        <div key={mismatch.kind} className="flex items-start gap-1 text-amber-700" data-testid={`profile-mismatch-${mismatch.kind}`}>
+          <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+          {mismatch.message}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -43,6 +43,14 @@ import { ResponsiveContainer, Treemap, Tooltip as RechartsTooltip, RadarChart, R
 import type { TooltipProps } from "recharts";
 import { colord } from "colord";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CapabilityModelTraceabilityPanel,
+  CapabilityTraceabilityHeatmap,
+  type CapabilityHeatmapEntry,
+  type HeatmapMetric,
+  type TraceabilityModelOption,
+} from "@/components/CapabilityTraceability";
 
 interface BusinessCapability {
   id: number;
@@ -510,6 +518,9 @@ export const BusinessCapabilityMap: React.FC = () => {
   const [domains, setDomains] = useState<DataDomainSummary[]>([]);
   const [dataAreas, setDataAreas] = useState<DataAreaSummary[]>([]);
   const [systems, setSystems] = useState<SystemSummary[]>([]);
+  const [modelOptions, setModelOptions] = useState<TraceabilityModelOption[]>([]);
+  const [traceabilityHeatmap, setTraceabilityHeatmap] = useState<CapabilityHeatmapEntry[]>([]);
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>("readiness");
   const [capabilityDetailTab, setCapabilityDetailTab] = useState<"insights" | "admin">("insights");
   const [isSavingCapability, setIsSavingCapability] = useState(false);
   const [isCreatingCapability, setIsCreatingCapability] = useState(false);
@@ -562,6 +573,8 @@ export const BusinessCapabilityMap: React.FC = () => {
   const infographicExportRef = useRef<HTMLDivElement | null>(null);
   const infographicScrollContainerRef = useRef<HTMLDivElement | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEditCapabilities = can("catalog:edit");
 
   useEffect(() => {
     fetchCapabilityTree();
@@ -572,6 +585,10 @@ export const BusinessCapabilityMap: React.FC = () => {
     loadCapabilitySystemsMap();
   }, []);
 
+  useEffect(() => {
+    loadTraceabilityHeatmap();
+  }, []);
+
   useEffect(() => {
     if (selectedCapability) {
       loadCapabilityMappings(selectedCapability.id);
@@ -705,27 +722,57 @@ export const BusinessCapabilityMap: React.FC = () => {
     }
   }, [toast]);
 
+  const loadTraceabilityHeatmap = useCallback(async () => {
+    try {
+      const response = await fetch("/api/capabilities/traceability/heatmap");
+      if (!response.ok) throw new Error("Failed to load capability traceability");
+      setTraceabilityHeatmap(await response.json());
+    } catch (error) {
+      console.error("Error loading capability traceability:", error);
+      toast({
+        title: "Warning",
+        description: "Unable to load capability-to-model traceability.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
   const loadReferenceData = async () => {
     try {
-      const [domainsResponse, areasResponse, systemsResponse] = await Promise.all([
+      const [domainsResponse, areasResponse, systemsResponse, modelsResponse] = await Promise.all([
         fetch("/api/domains"),
         fetch("/api/areas"),
         fetch("/api/systems"),
+        fetch("/api/models"),
       ]);
 
       if (!domainsResponse.ok) throw new Error("Failed to load data domains");
       if (!areasResponse.ok) throw new Error("Failed to load data areas");
       if (!systemsResponse.ok) throw new Error("Failed to load systems");
+      if (!modelsResponse.ok) throw new Error("Failed to load data models");
 
-      const [domainsData, areasData, systemsData] = await Promise.all([
+      const [domainsData, areasData, systemsData, modelsData] = await Promise.all([
         domainsResponse.json(),
         areasResponse.json(),
         systemsResponse.json(),
+        modelsResponse.json(),
       ]);
 
       setDomains(domainsData);
       setDataAreas(areasData);
       setSystems(systemsData);
+
+      // /api/models lists layers; capability mappings point at the parent data model
+      const parentModels = new Map<number, string>();
+      (modelsData as Array<{ id: number; dataModelId?: number | null; name: string }>).forEach((layer) => {
+        const parentId = layer.dataModelId ?? layer.id;
+        if (!parentModels.has(parentId)) {
+          parentModels.set(parentId, layer.name);
+        }
+      });
+      setModelOptions(
+        Array.from(parentModels, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+      );
     } catch (error) {
       console.error("Error loading reference data:", error);
       toast({
@@ -1714,6 +1761,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                     <TabsTrigger value="treemap">Portfolio</TabsTrigger>
                     <TabsTrigger value="radar">Balance</TabsTrigger>
                     <TabsTrigger value="roadmap">Roadmap</TabsTrigger>
+                    <TabsTrigger value="traceability">Traceability</TabsTrigger>
                   </TabsList>
 
                   <TabsList className="sm:hidden mb-4">
@@ -1721,6 +1769,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                     <TabsTrigger value="treemap">Portfolio</TabsTrigger>
                     <TabsTrigger value="radar">Balance</TabsTrigger>
                     <TabsTrigger value="roadmap">Roadmap</TabsTrigger>
+                    <TabsTrigger value="traceability">Traceability</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="infographic">
@@ -1890,6 +1939,16 @@ export const BusinessCapabilityMap: React.FC = () => {
                       </div>
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="traceability">
+                    <CapabilityTraceabilityHeatmap
+                      entries={traceabilityHeatmap}
+                      metric={heatmapMetric}
+                      onMetricChange={setHeatmapMetric}
+                      selectedCapabilityId={selectedCapability?.id}
+                      onSelect={handleSelectCapability}
+                    />
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
@@ -1917,6 +1976,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                       <TabsTrigger value="domain">Domain</TabsTrigger>
                       <TabsTrigger value="data_area">Data Area</TabsTrigger>
                       <TabsTrigger value="system">System</TabsTrigger>
+                      <TabsTrigger value="models">Models</TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="insights">
@@ -1973,7 +2033,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                               <Button
                                 size="sm"
                                 onClick={handleSaveCapability}
-                                disabled={isSavingCapability}
+                                disabled={isSavingCapability || !canEditCapabilities}
                               >
                                 {isSavingCapability ? (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -1986,7 +2046,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                                 size="sm"
                                 variant="destructive"
                                 onClick={handleDeleteCapability}
-                                disabled={isDeletingCapability}
+                                disabled={isDeletingCapability || !canEditCapabilities}
                               >
                                 {isDeletingCapability ? (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -2107,7 +2167,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                             <Button
                               size="sm"
                               onClick={handleCreateCapability}
-                              disabled={isCreatingCapability}
+                              disabled={isCreatingCapability || !canEditCapabilities}
                             >
                               {isCreatingCapability ? (
                                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -2255,7 +2315,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                               <Button
                                 size="sm"
                                 onClick={handleAddDomainMapping}
-                                disabled={isCreatingDomainMapping}
+                                disabled={isCreatingDomainMapping || !canEditCapabilities}
                               >
                                 {isCreatingDomainMapping ? (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -2341,7 +2401,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                               <Button
                                 size="sm"
                                 onClick={handleAddDataAreaMapping}
-                                disabled={isCreatingAreaMapping}
+                                disabled={isCreatingAreaMapping || !canEditCapabilities}
                               >
                                 {isCreatingAreaMapping ? (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -2452,7 +2512,7 @@ export const BusinessCapabilityMap: React.FC = () => {
                               <Button
                                 size="sm"
                                 onClick={handleAddDomainMapping}
-                                disabled={isCreatingDomainMapping}
+                                disabled={isCreatingDomainMapping || !canEditCapabilities}
                               >
                                 {isCreatingDomainMapping ? (
                                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -2528,6 +2588,16 @@ export const BusinessCapabilityMap: React.FC = () => {
                       </div>
                       </div>
                     </TabsContent>
+
+                    <TabsContent value="models">
+                      <CapabilityModelTraceabilityPanel
+                        capabilityId={selectedCapability.id}
+                        canEdit={canEditCapabilities}
+                        models={modelOptions}
+                        systems={sortedSystems}
+                        onChanged={loadTraceabilityHeatmap}
+                      />
+                    </TabsContent>
                   </Tabs>
                 ) : (
                   <p className="text-muted-foreground">
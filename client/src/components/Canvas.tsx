@@ -28,6 +28,11 @@ import { Label } from "@/components/ui/label";
 import { useModelerStore } from "@/store/modelerStore";
 import { DataModel } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { newRequestId, recordCommand, requestIdHeaders, useCommandHistory } from "@/hooks/useCommandHistory";
+import { useAuth } from "@/hooks/useAuth";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import { useModelComments } from "@/hooks/useModelComments";
+import { mergeCollaborationChange, type CollaborationChange } from "@shared/collaboration";
 import DataObjectNode from "./nodes/DataObjectNode";
 import RelationshipEdge from "./edges/RelationshipEdge";
 import OrthogonalRelationshipEdge from "./edges/OrthogonalRelationshipEdge";
@@ -46,8 +51,11 @@ import LayerNavigator from "./LayerNavigator";
 import SearchFilterPanel from "./Canvas/SearchFilterPanel";
 import AutoLayoutManager from "./Canvas/AutoLayoutManager";
 import LoadingOverlay from "./LoadingOverlay";
+import CollaborationOverlay from "./Canvas/CollaborationOverlay";
+import ReviewPanel from "./Canvas/ReviewPanel";
 import { updateDynamicColors } from "@/utils/colorUtils";
 import type { ModelLayer, CanvasNode } from "@/types/modeler";
+import type { CommentFocus } from "@/types/comments";
 
 const isManyToManyRelationship = (type?: string | null): boolean =>
   type === "N:M" || type === "M:N";
@@ -73,6 +81,55 @@ const buildRelationshipEdgeStyle = (type?: string | null, isAttribute = false) =
   ...(isAttribute ? { strokeDasharray: "5,5" } : {}),
 });
 
+// Server relationship edges carry their cardinality and attribute ids; derive handles and styling from them
+const toFlowEdge = (edge: any) => {
+  const edgeData = edge.data ?? {};
+  const relationshipType = edgeData.relationshipType ?? edge.label ?? "1:N";
+  const isAttributeRelationship = edgeData.isAttributeRelationship ?? (
+    edgeData.sourceAttributeId != null && edgeData.targetAttributeId != null
+  );
+
+  const derivedSourceHandle = isAttributeRelationship && edgeData.sourceAttributeId
+    ? `attr-${edgeData.sourceAttributeId}-source`
+    : undefined;
+  const derivedTargetHandle = isAttributeRelationship && edgeData.targetAttributeId
+    ? `attr-${edgeData.targetAttributeId}-target`
+    : undefined;
+
+  // DEBUG: Log edge handle IDs
+  console.log(`🔗 Processing edge ${edge.id}:`, {
+    sourceNode: edge.source,
+    targetNode: edge.target,
+    isAttributeRelationship,
+    sourceAttributeId: edgeData.sourceAttributeId,
+    targetAttributeId: edgeData.targetAttributeId,
+    derivedSourceHandle,
+    derivedTargetHandle,
+    finalSourceHandle: isAttributeRelationship ? edge.sourceHandle ?? derivedSourceHandle : edge.sourceHandle,
+    finalTargetHandle: isAttributeRelationship ? edge.targetHandle ?? derivedTargetHandle : edge.targetHandle
+  });
+
+  return {
+    ...edge,
+    sourceHandle: isAttributeRelationship ? edge.sourceHandle ?? derivedSourceHandle : edge.sourceHandle,
+    targetHandle: isAttributeRelationship ? edge.targetHandle ?? derivedTargetHandle : edge.targetHandle,
+    animated: edge.animated ?? isManyToManyRelationship(relationshipType),
+    style: edge.style ?? buildRelationshipEdgeStyle(relationshipType, isAttributeRelationship),
+    labelStyle: edge.labelStyle ?? { fontSize: isAttributeRelationship ? 10 : 12, fontWeight: "bold" },
+    data: {
+      ...edgeData,
+      relationshipType,
+      sourceAttributeId: edgeData.sourceAttributeId ?? null,
+      targetAttributeId: edgeData.targetAttributeId ?? null,
+      relationshipLevel: edgeData.relationshipLevel ?? (isAttributeRelationship ? "attribute" : "object"),
+      isAttributeRelationship,
+    },
+  };
+};
+
+// Cursor positions are sent to other sessions at most this often
+const CURSOR_THROTTLE_MS = 50;
+
 // Define nodeTypes outside component to avoid recreation warning
 const nodeTypes: NodeTypes = {
   dataObject: DataObjectNode,
@@ -96,10 +153,11 @@ function CanvasComponent() {
     addEdge: storeAddEdge, 
     setNodes: setStoreNodes,
     setEdges: setStoreEdges,
+    applyRemoteChange,
+    setCommentCounts,
     selectNode, 
     selectEdge, 
     selectObject,
-    saveToHistory,
     currentModel,
     setCurrentModel,
     allModels,
@@ -107,16 +165,14 @@ function CanvasComponent() {
     requireModelBeforeAction,
     currentLayer,
     getCurrentLayerModel: storeGetCurrentLayerModel,
-    history,
-    undo,
-    redo,
-    clearHistory,
     copyNodes,
     getCopiedNodes,
     clearCopiedNodes
   } = useModelerStore();
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEditModels = can("models:edit");
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const nodesRef = useRef<Node[]>([]);
@@ -183,14 +239,22 @@ function CanvasComponent() {
 
   // Mutation for deleting objects
   const deleteObjectMutation = useMutation({
-    mutationFn: async (objectId: number) => {
+    mutationFn: async ({ objectId, name, layerId }: { objectId: number; name: string; layerId?: number }) => {
+      const requestId = newRequestId();
       const response = await fetch(`/api/objects/${objectId}`, {
         method: 'DELETE',
+        headers: requestIdHeaders(requestId),
       });
       
       if (!response.ok) {
         throw new Error(`Failed to delete object: ${response.status}`);
       }
+
+      recordCommand(layerId, {
+        action: 'node_deleted',
+        label: `Deleted ${name}`,
+        requestIds: [requestId],
+      });
       
       // Handle 204 No Content response - no JSON to parse
       if (response.status === 204) {
@@ -334,11 +398,13 @@ function CanvasComponent() {
       targetHandle?: string | null;
     }) => {
       setSaveStatus('saving'); // Show saving indicator
+      const requestId = newRequestId();
       
       const response = await fetch('/api/relationships', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...requestIdHeaders(requestId),
         },
         body: JSON.stringify(relationshipData),
       });
@@ -348,7 +414,14 @@ function CanvasComponent() {
         throw new Error(`Failed to save relationship: ${response.status} ${errorText}`);
       }
       
-      return response.json();
+      const relationship = await response.json();
+      const isAttributeRelationship = Boolean(relationshipData.sourceAttributeId && relationshipData.targetAttributeId);
+      recordCommand(relationshipData.modelId, {
+        action: 'edge_added',
+        label: `Added ${relationshipData.type} ${isAttributeRelationship ? 'attribute ' : ''}relationship`,
+        requestIds: [requestId],
+      });
+      return relationship;
     },
     onSuccess: () => {
       setSaveStatus('saved');
@@ -418,6 +491,9 @@ function CanvasComponent() {
     return resolved;
   }, [storeGetCurrentLayerModel, currentModel, currentLayer, allModels]);
 
+  // Undo/redo replays recorded commands on the server for this user and layer
+  const { undo, redo } = useCommandHistory(currentLayerModel?.id);
+
   // Load canvas data when model or layer changes
   const { data: canvasData, isLoading } = useQuery({
     queryKey: ["/api/models", currentLayerModel?.id, "canvas", currentLayer],
@@ -465,8 +541,14 @@ function CanvasComponent() {
     }
   }, [isLoading, isDataLoading, currentLayer]);
 
-  // Update local state when canvas data loads and manage history properly
+  // Canvas snapshots rewritten in the query cache by remote changes; local state is already merged
+  const remoteSnapshotsRef = useRef(new WeakSet<object>());
+
+  // Update local state when canvas data loads
   useEffect(() => {
+    if (canvasData && remoteSnapshotsRef.current.has(canvasData)) {
+      return;
+    }
     if (canvasData && canvasData.nodes && canvasData.edges) {
       console.log('📥 Loading canvas data:', canvasData.nodes.length, 'nodes,', canvasData.edges.length, 'edges');
       
@@ -504,56 +586,10 @@ function CanvasComponent() {
       
       setIsDataLoading(true);
       
-      // Clear history first to prevent conflicts with new data
-      clearHistory();
-      
       const processedNodes = canvasData.nodes;
       const processedEdges = (canvasData.edges ?? [])
         .filter((edge: any) => Boolean(edge))
-        .map((edge: any) => {
-          const edgeData = edge.data ?? {};
-          const relationshipType = edgeData.relationshipType ?? edge.label ?? "1:N";
-          const isAttributeRelationship = edgeData.isAttributeRelationship ?? (
-            edgeData.sourceAttributeId != null && edgeData.targetAttributeId != null
-          );
-
-          const derivedSourceHandle = isAttributeRelationship && edgeData.sourceAttributeId
-            ? `attr-${edgeData.sourceAttributeId}-source`
-            : undefined;
-          const derivedTargetHandle = isAttributeRelationship && edgeData.targetAttributeId
-            ? `attr-${edgeData.targetAttributeId}-target`
-            : undefined;
-
-          // DEBUG: Log edge handle IDs
-          console.log(`🔗 Processing edge ${edge.id}:`, {
-            sourceNode: edge.source,
-            targetNode: edge.target,
-            isAttributeRelationship,
-            sourceAttributeId: edgeData.sourceAttributeId,
-            targetAttributeId: edgeData.targetAttributeId,
-            derivedSourceHandle,
-            derivedTargetHandle,
-            finalSourceHandle: isAttributeRelationship ? edge.sourceHandle ?? derivedSourceHandle : edge.sourceHandle,
-            finalTargetHandle: isAttributeRelationship ? edge.targetHandle ?? derivedTargetHandle : edge.targetHandle
-          });
-
-          return {
-            ...edge,
-            sourceHandle: isAttributeRelationship ? edge.sourceHandle ?? derivedSourceHandle : edge.sourceHandle,
-            targetHandle: isAttributeRelationship ? edge.targetHandle ?? derivedTargetHandle : edge.targetHandle,
-            animated: edge.animated ?? isManyToManyRelationship(relationshipType),
-            style: edge.style ?? buildRelationshipEdgeStyle(relationshipType, isAttributeRelationship),
-            labelStyle: edge.labelStyle ?? { fontSize: isAttributeRelationship ? 10 : 12, fontWeight: "bold" },
-            data: {
-              ...edgeData,
-              relationshipType,
-              sourceAttributeId: edgeData.sourceAttributeId ?? null,
-              targetAttributeId: edgeData.targetAttributeId ?? null,
-              relationshipLevel: edgeData.relationshipLevel ?? (isAttributeRelationship ? "attribute" : "object"),
-              isAttributeRelationship,
-            },
-          };
-        });
+        .map(toFlowEdge);
 
       setNodes(processedNodes);
       setEdges(processedEdges);
@@ -562,11 +598,8 @@ function CanvasComponent() {
       setStoreNodes(processedNodes);
       setStoreEdges(processedEdges);
       
-      // Initialize history with current state after data is loaded
       if (canvasData.nodes.length > 0) {
         setTimeout(() => {
-          saveToHistory('initial', 'Initial canvas state', 
-            `Loaded model with ${processedNodes.length} objects and ${processedEdges.length} relationships`);
           setIsDataLoading(false);
           
           // Fit view after data loads with some delay to ensure React Flow is ready
@@ -582,14 +615,78 @@ function CanvasComponent() {
         setIsDataLoading(false);
       }
     }
-  }, [canvasData, setNodes, setEdges, setStoreNodes, setStoreEdges, fitView, saveToHistory, clearHistory]);
+  }, [canvasData, setNodes, setEdges, setStoreNodes, setStoreEdges, fitView]);
+
+  const canvasQueryKey = useMemo(
+    () => ["/api/models", currentLayerModel?.id, "canvas", currentLayer],
+    [currentLayerModel?.id, currentLayer]
+  );
+
+  // Merge changes other sessions made to this layer without refetching the canvas
+  const handleRemoteChange = useCallback((change: CollaborationChange) => {
+    if (change.kind === "layer.changed") {
+      queryClient.invalidateQueries({ queryKey: canvasQueryKey });
+      return;
+    }
+    const flowChange: CollaborationChange =
+      change.kind === "edge.upsert" ? { ...change, edge: toFlowEdge(change.edge) } : change;
+
+    queryClient.setQueryData(canvasQueryKey, (existing: any) => {
+      if (!existing || !Array.isArray(existing.nodes) || !Array.isArray(existing.edges)) {
+        return existing;
+      }
+      const merged = mergeCollaborationChange(existing.nodes, existing.edges, change);
+      const next = { ...existing, nodes: merged.nodes, edges: merged.edges };
+      remoteSnapshotsRef.current.add(next);
+      return next;
+    });
+    setNodes((current) => mergeCollaborationChange(current, [], flowChange).nodes);
+    setEdges((current) => mergeCollaborationChange(nodesRef.current, current, flowChange).edges);
+    applyRemoteChange(flowChange);
+  }, [queryClient, canvasQueryKey, setNodes, setEdges, applyRemoteChange]);
+
+  const { peers, sendCursor, sendSelection } = useCollaboration(currentLayerModel?.id, handleRemoteChange);
+
+  // Review comments: node and edge badges read the open thread counts from the store
+  const { openCounts: openCommentCounts } = useModelComments(currentLayerModel?.id);
+  const openCommentTotal = useMemo(
+    () => Object.values(openCommentCounts).reduce((total, count) => total + count, 0),
+    [openCommentCounts]
+  );
+  const [showReviewPanel, setShowReviewPanel] = useState(false);
+  const [reviewFocus, setReviewFocus] = useState<CommentFocus | null>(null);
 
-  // Clear history when model changes to prevent cross-model interference
   useEffect(() => {
-    if (currentModel?.id) {
-      clearHistory();
+    setCommentCounts(openCommentCounts);
+  }, [openCommentCounts, setCommentCounts]);
+
+  useEffect(() => {
+    const handleOpenComments = (event: Event) => {
+      setReviewFocus((event as CustomEvent<CommentFocus>).detail);
+      setShowReviewPanel(true);
+    };
+
+    window.addEventListener('open-comments', handleOpenComments);
+
+    return () => {
+      window.removeEventListener('open-comments', handleOpenComments);
+    };
+  }, []);
+
+  const lastCursorSentRef = useRef(0);
+  const handleCollaborationMouseMove = useCallback((event: React.MouseEvent) => {
+    const now = Date.now();
+    if (now - lastCursorSentRef.current < CURSOR_THROTTLE_MS) {
+      return;
     }
-  }, [currentModel?.id, clearHistory]);
+    lastCursorSentRef.current = now;
+    sendCursor(screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+  }, [sendCursor, screenToFlowPosition]);
+
+  const selectedNodeKey = nodes.filter((node) => node.selected).map((node) => node.id).join(",");
+  useEffect(() => {
+    sendSelection(selectedNodeKey ? selectedNodeKey.split(",") : []);
+  }, [selectedNodeKey, sendSelection]);
 
   // Handle mobile touch drop events
   useEffect(() => {
@@ -679,11 +776,13 @@ function CanvasComponent() {
             
             // Show saving indicator
             setSaveStatus('saving');
+            const requestId = newRequestId();
             
             fetch(`/api/models/${targetModelId}/objects`, {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
+                ...requestIdHeaders(requestId),
               },
               body: JSON.stringify({
                 objectId: object.id,
@@ -739,8 +838,11 @@ function CanvasComponent() {
               });
               
               // Save to history
-              saveToHistory('object_added', `Added "${object.name}" to canvas`, 
-                `Added object "${object.name}" to canvas via + button`);
+              recordCommand(targetModelId, {
+                action: 'object_added',
+                label: `Added "${object.name}" to canvas`,
+                requestIds: [requestId],
+              });
               
               // Select the new object and update properties panel
               selectNode(newNode.id);
@@ -852,12 +954,15 @@ function CanvasComponent() {
           if (targetModelId) {
             // Show saving indicator
             setSaveStatus('saving');
+            // One request id for every object, so the whole area undoes as one step
+            const requestId = newRequestId();
             
             const savePromises = newNodes.map(async (node: any) => {
               const response = await fetch(`/api/models/${targetModelId}/objects`, {
                 method: 'POST',
                 headers: {
                   'Content-Type': 'application/json',
+                  ...requestIdHeaders(requestId),
                 },
                 body: JSON.stringify({
                   objectId: parseInt(node.id),
@@ -917,8 +1022,11 @@ function CanvasComponent() {
               });
               
               // Save to history
-              saveToHistory('area_added', `Added data area "${area.name}" to canvas`, 
-                `Touch-dragged data area "${area.name}" with ${newNodes.length} objects to canvas`);
+              recordCommand(targetModelId, {
+                action: 'area_added',
+                label: `Added data area "${area.name}" to canvas`,
+                requestIds: [requestId],
+              });
               
               toast({
                 title: "Data Area Added",
@@ -962,7 +1070,7 @@ function CanvasComponent() {
         reactFlowWrapper.current.removeEventListener('touchDrop', handleTouchDrop as EventListener);
       }
     };
-  }, [nodes, currentLayerModel, currentModel, currentLayer, setNodes, screenToFlowPosition, queryClient, saveToHistory, toast, requireModelBeforeAction]);
+  }, [nodes, currentLayerModel, currentModel, currentLayer, setNodes, screenToFlowPosition, queryClient, toast, requireModelBeforeAction]);
 
   // Handle Add Object - ONLY allowed in Conceptual layer
   const handleAddObject = useCallback(() => {
@@ -1032,6 +1140,7 @@ function CanvasComponent() {
     setNodes((nds) => [...nds, ...newNodes]);
 
     // Save pasted nodes to the database
+    const requestId = newRequestId();
     try {
       const savePromises = newNodes.map(async (node) => {
         const position = {
@@ -1043,6 +1152,7 @@ function CanvasComponent() {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...requestIdHeaders(requestId),
           },
           body: JSON.stringify({
             objectId: node.data.objectId,
@@ -1081,8 +1191,11 @@ function CanvasComponent() {
       );
 
       // Save to history
-      saveToHistory('node_added', `Pasted ${newNodes.length} node${newNodes.length > 1 ? 's' : ''}`,
-        `Pasted ${newNodes.length} object${newNodes.length > 1 ? 's' : ''} to ${currentLayer} layer`);
+      recordCommand(targetModelId, {
+        action: 'node_added',
+        label: `Pasted ${newNodes.length} node${newNodes.length > 1 ? 's' : ''}`,
+        requestIds: [requestId],
+      });
 
       // Invalidate canvas query to refresh data
       queryClient.invalidateQueries({
@@ -1104,7 +1217,7 @@ function CanvasComponent() {
         variant: "destructive"
       });
     }
-  }, [currentModel, currentLayerModel, currentLayer, getViewport, setNodes, saveToHistory, queryClient, toast, requireModelBeforeAction]);
+  }, [currentModel, currentLayerModel, currentLayer, getViewport, setNodes, queryClient, toast, requireModelBeforeAction]);
 
   // Handle gesture events
   useEffect(() => {
@@ -1222,39 +1335,53 @@ function CanvasComponent() {
       return isPositionChange;
     });
     
-    // Track history for position changes when dragging is complete
-    if (positionChanges.length > 0 && currentModel?.id && !isDataLoading) {
-      setTimeout(() => {
-        setNodes(currentNodes => {
-          setEdges(currentEdges => {
-            // Only save to history if we have a valid model and nodes, and we're not loading data
-            if (currentNodes.length > 0 && history.length > 0 && !isDataLoading) {
-              saveToHistory('node_moved', `Moved ${positionChanges.length} object(s)`, 
-                `Updated positions on canvas`);
-            }
-            return currentEdges;
-          });
-          return currentNodes;
-        });
-      }, 200); // Slightly longer delay to avoid conflicts
-    }
     if (positionChanges.length > 0) {
       queuePositionSave('nodes_change');
     }
   }, [
     onNodesChange,
     queuePositionSave,
-    currentModel?.id,
-    currentLayerModel?.id,
-    currentLayer,
-    saveToHistory,
-    setNodes,
-    setEdges,
-    isDataLoading,
-    history.length,
-    isDataLoading
   ]);
 
+  // Where each dragged node started, so the move can be recorded with both ends
+  const dragStartPositionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
+
+  const handleNodeDragStart = useCallback((_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+    dragStartPositionsRef.current = new Map(
+      draggedNodes.map((node) => [node.id, { x: node.position.x, y: node.position.y }])
+    );
+  }, []);
+
+  const handleNodeDragStop = useCallback((_event: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
+    const startPositions = dragStartPositionsRef.current;
+    dragStartPositionsRef.current = new Map();
+    if (isDataLoading) {
+      return;
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const positions = draggedNodes.flatMap((node) => {
+      const from = startPositions.get(node.id);
+      const modelObjectId = node.data?.modelObjectId;
+      if (!from || typeof modelObjectId !== 'number' || modelObjectId <= 0) {
+        return [];
+      }
+      return [{
+        modelObjectId,
+        from: { x: round(from.x), y: round(from.y) },
+        to: { x: round(node.position.x), y: round(node.position.y) },
+      }];
+    });
+
+    if (positions.length > 0) {
+      recordCommand(currentLayerModel?.id, {
+        action: 'node_moved',
+        label: `Moved ${positions.length} object(s)`,
+        positions,
+      });
+    }
+  }, [currentLayerModel?.id, isDataLoading]);
+
   // Cleanup timeout on unmount and force save if needed
   useEffect(() => {
     return () => {
@@ -1524,14 +1651,6 @@ function CanvasComponent() {
     setEdges((eds) => addEdge(newEdge, eds));
     storeAddEdge(newEdge);
     
-    // Save to history with descriptive message (only if not loading data)
-    if (!isDataLoading) {
-      setTimeout(() => {
-        saveToHistory('edge_added', `Added ${relationshipType} relationship`, 
-          `Connected ${pendingConnection.source} to ${pendingConnection.target}`);
-      }, 100);
-    }
-
     // Get the actual objectId from the node data, not the node ID
     const sourceNode = nodes.find(n => n.id === pendingConnection.source);
     const targetNode = nodes.find(n => n.id === pendingConnection.target);
@@ -1580,7 +1699,7 @@ function CanvasComponent() {
     setPendingConnection(null);
     setShowConnectionDialog(false);
     setRelationshipType('1:N');
-  }, [pendingConnection, relationshipType, storeAddEdge, saveToHistory, setEdges, currentModel?.id, currentLayerModel?.id, saveRelationshipMutation, nodes, isDataLoading]);
+  }, [pendingConnection, relationshipType, storeAddEdge, setEdges, currentModel?.id, currentLayerModel?.id, saveRelationshipMutation, nodes]);
 
   const createAttributeRelationship = useCallback((relationshipData: {
     sourceAttributeId: number;
@@ -1614,14 +1733,6 @@ function CanvasComponent() {
     setEdges((eds) => addEdge(newEdge, eds));
     storeAddEdge(newEdge);
     
-    // Save to history with descriptive message
-    if (!isDataLoading) {
-      setTimeout(() => {
-        saveToHistory('edge_added', `Added ${relationshipData.type} attribute relationship`, 
-          `Connected attributes between ${attributeConnection.sourceNode.name} and ${attributeConnection.targetNode.name}`);
-      }, 100);
-    }
-
     // Get the actual objectId from the node data, not the node ID
     const sourceNode = nodes.find(n => n.id === attributeConnection.sourceNode.id);
     const targetNode = nodes.find(n => n.id === attributeConnection.targetNode.id);
@@ -1669,7 +1780,7 @@ function CanvasComponent() {
     // Reset attribute connection state
     setAttributeConnection(null);
     setShowAttributeRelationshipModal(false);
-  }, [attributeConnection, storeAddEdge, saveToHistory, setEdges, currentModel?.id, currentLayerModel?.id, saveRelationshipMutation, nodes, isDataLoading]);
+  }, [attributeConnection, storeAddEdge, setEdges, currentModel?.id, currentLayerModel?.id, saveRelationshipMutation, nodes]);
 
   const onNodeClick = useCallback(
     (event: React.MouseEvent, node: Node) => {
@@ -1722,6 +1833,7 @@ function CanvasComponent() {
     try {
       // Extract relationship ID from edge data if available
       const relationshipId = editingEdge.data?.relationshipId;
+      const requestId = newRequestId();
       
       if (relationshipId) {
         // Update in database first
@@ -1729,6 +1841,7 @@ function CanvasComponent() {
           method: 'PUT',
           headers: {
             'Content-Type': 'application/json',
+            ...requestIdHeaders(requestId),
           },
           body: JSON.stringify({
             type: relationshipType,
@@ -1762,8 +1875,13 @@ function CanvasComponent() {
       );
       
       // Save to history
-      saveToHistory('relationship_updated', `Updated relationship to ${relationshipType}`, 
-        `Changed relationship type to ${relationshipType}`);
+      if (relationshipId) {
+        recordCommand(currentLayerModel?.id, {
+          action: 'relationship_updated',
+          label: `Updated relationship to ${relationshipType}`,
+          requestIds: [requestId],
+        });
+      }
       
       // Invalidate canvas data to refresh
       if (currentLayerModel?.id) {
@@ -1788,7 +1906,7 @@ function CanvasComponent() {
         variant: "destructive"
       });
     }
-  }, [editingEdge, setEdges, saveToHistory, currentLayerModel, currentLayer, queryClient, toast]);
+  }, [editingEdge, setEdges, currentLayerModel, currentLayer, queryClient, toast]);
 
   const handleDeleteRelationship = useCallback(async () => {
     if (!editingEdge) return;
@@ -1796,11 +1914,13 @@ function CanvasComponent() {
     try {
       // Extract relationship ID from edge data if available
       const relationshipId = editingEdge.data?.relationshipId;
+      const requestId = newRequestId();
       
       if (relationshipId) {
         // Delete from database first
         const response = await fetch(`/api/relationships/${relationshipId}`, {
           method: 'DELETE',
+          headers: requestIdHeaders(requestId),
         });
         
         if (!response.ok) {
@@ -1815,8 +1935,13 @@ function CanvasComponent() {
       selectEdge(null);
       
       // Save to history
-      saveToHistory('relationship_deleted', 'Deleted relationship', 
-        `Removed relationship between objects`);
+      if (relationshipId) {
+        recordCommand(currentLayerModel?.id, {
+          action: 'relationship_deleted',
+          label: 'Deleted relationship',
+          requestIds: [requestId],
+        });
+      }
       
       // Invalidate canvas data to refresh
       if (currentLayerModel?.id) {
@@ -1841,7 +1966,7 @@ function CanvasComponent() {
       setEditingEdge(null);
       setShowEditRelationshipModal(false);
     }
-  }, [editingEdge, setEdges, selectEdge, saveToHistory, currentLayerModel, currentLayer, queryClient, toast]);
+  }, [editingEdge, setEdges, selectEdge, currentLayerModel, currentLayer, queryClient, toast]);
 
   // Enhanced onEdgesChange handler with auto-save for edge modifications
   const handleEdgesChange = useCallback(async (changes: any[]) => {
@@ -1850,6 +1975,8 @@ function CanvasComponent() {
     // Auto-save edge deletions to database
     const deletedEdges = changes.filter(change => change.type === 'remove');
     if (deletedEdges.length > 0 && currentModel?.id) {
+      const requestId = newRequestId();
+      let deletedCount = 0;
       for (const change of deletedEdges) {
         try {
           // Find the edge to get its relationship ID
@@ -1860,13 +1987,11 @@ function CanvasComponent() {
             // Delete from database
             const response = await fetch(`/api/relationships/${relationshipId}`, {
               method: 'DELETE',
+              headers: requestIdHeaders(requestId),
             });
             
             if (response.ok) {
-              // Save to history
-              saveToHistory('relationship_deleted', 'Deleted relationship', 
-                `Removed relationship between objects`);
-              
+              deletedCount++;
               toast({
                 title: "Relationship Deleted",
                 description: "The relationship has been removed successfully.",
@@ -1884,6 +2009,15 @@ function CanvasComponent() {
           console.error('Error deleting relationship:', error);
         }
       }
+
+      // Save to history
+      if (deletedCount > 0) {
+        recordCommand(currentLayerModel?.id, {
+          action: 'relationship_deleted',
+          label: deletedCount === 1 ? 'Deleted relationship' : `Deleted ${deletedCount} relationships`,
+          requestIds: [requestId],
+        });
+      }
       
       // Invalidate canvas data to refresh
       if (currentLayerModel?.id) {
@@ -1892,7 +2026,7 @@ function CanvasComponent() {
         });
       }
     }
-  }, [onEdgesChange, currentModel?.id, edges, saveToHistory, toast, currentLayerModel, currentLayer, queryClient]);
+  }, [onEdgesChange, currentModel?.id, edges, toast, currentLayerModel, currentLayer, queryClient]);
 
   // Handle edge reconnection (when user drags edge source/target to a different node)
   const onReconnect = useCallback(async (oldEdge: Edge, newConnection: Connection) => {
@@ -1933,10 +2067,12 @@ function CanvasComponent() {
       }
 
       // Update relationship in database
+      const requestId = newRequestId();
       const response = await fetch(`/api/relationships/${relationshipId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...requestIdHeaders(requestId),
         },
         body: JSON.stringify({
           sourceModelObjectId: sourceNode.data.modelObjectId,
@@ -1966,8 +2102,11 @@ function CanvasComponent() {
       );
 
       // Save to history
-      saveToHistory('relationship_reconnected', 'Reconnected relationship', 
-        `Changed relationship connection from ${oldEdge.source} → ${oldEdge.target} to ${newConnection.source} → ${newConnection.target}`);
+      recordCommand(currentLayerModel?.id, {
+        action: 'relationship_reconnected',
+        label: 'Reconnected relationship',
+        requestIds: [requestId],
+      });
 
       // Invalidate canvas data to refresh
       if (currentLayerModel?.id) {
@@ -1989,7 +2128,7 @@ function CanvasComponent() {
         variant: "destructive"
       });
     }
-  }, [currentModel, nodes, setEdges, saveToHistory, currentLayerModel, currentLayer, queryClient, toast]);
+  }, [currentModel, nodes, setEdges, currentLayerModel, currentLayer, queryClient, toast]);
 
   const onPaneClick = useCallback(() => {
     selectNode(null);
@@ -2111,11 +2250,13 @@ function CanvasComponent() {
           
           // Show saving indicator
           setSaveStatus('saving');
+          const requestId = newRequestId();
           
           fetch(`/api/models/${targetModelId}/objects`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              ...requestIdHeaders(requestId),
             },
             body: JSON.stringify({
               objectId: object.id,
@@ -2171,8 +2312,11 @@ function CanvasComponent() {
               });
               
               // Save to history
-              saveToHistory('node_added', `Added ${object.name} to canvas`, 
-                `Dragged ${object.name} from sidebar to canvas`);
+              recordCommand(targetModelId, {
+                action: 'node_added',
+                label: `Added ${object.name} to canvas`,
+                requestIds: [requestId],
+              });
               
               if (result?.alreadyExists) {
                 toast({
@@ -2285,6 +2429,7 @@ function CanvasComponent() {
         if (targetModelId) {
           // Show saving indicator
           setSaveStatus('saving');
+          const requestId = newRequestId();
           
           Promise.all(nodesToAdd.map(async (node: any) => {
             const objectId = node.data.objectId;
@@ -2294,6 +2439,7 @@ function CanvasComponent() {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
+                ...requestIdHeaders(requestId),
               },
                 body: JSON.stringify({
                   objectId: objectId,
@@ -2352,8 +2498,11 @@ function CanvasComponent() {
             });
             
             // Save to history
-            saveToHistory('area_added', `Added ${area.name} data area to canvas`, 
-              `Dragged data area "${area.name}" with ${nodesToAdd.length} objects to canvas`);
+            recordCommand(targetModelId, {
+              action: 'area_added',
+              label: `Added ${area.name} data area to canvas`,
+              requestIds: [requestId],
+            });
             
             toast({
               title: "✓ Data Area Added Successfully",
@@ -2386,28 +2535,26 @@ function CanvasComponent() {
     } catch (error) {
       console.error('Failed to parse drop data:', error);
     }
-  }, [setNodes, screenToFlowPosition, saveToHistory, toast, requireModelBeforeAction]);
+  }, [setNodes, screenToFlowPosition, toast, requireModelBeforeAction]);
 
   // Node deletion handler
   const onNodeDelete = useCallback((nodeId: string) => {
     const node = nodes.find(n => n.id === nodeId);
-    if (!node) return;
+    if (!node || !canEditModels) return;
 
     // Remove from local state first
     setNodes((nds) => nds.filter(n => n.id !== nodeId));
     setEdges((eds) => eds.filter(e => e.source !== nodeId && e.target !== nodeId));
     
-    // Save to history
-    setTimeout(() => {
-      saveToHistory('node_deleted', `Deleted ${node.data.name}`, 
-        `Removed ${node.data.name} from canvas`);
-    }, 100);
-
-    // Delete from database
+    // Delete from database; the mutation records the undo step
     if (node.data.objectId) {
-      deleteObjectMutation.mutate(node.data.objectId);
+      deleteObjectMutation.mutate({
+        objectId: node.data.objectId,
+        name: node.data.name,
+        layerId: currentLayerModel?.id,
+      });
     }
-  }, [nodes, setNodes, setEdges, saveToHistory, deleteObjectMutation]);
+  }, [nodes, setNodes, setEdges, deleteObjectMutation, canEditModels, currentLayerModel?.id]);
 
   // Keyboard handler for delete key and custom delete events
   useEffect(() => {
@@ -2458,6 +2605,11 @@ function CanvasComponent() {
         onToggleSearch={() => setShowSearchPanel(true)}
         showAutoLayout={showAutoLayout}
         onToggleAutoLayout={() => setShowAutoLayout(!showAutoLayout)}
+        onToggleReview={() => {
+          setReviewFocus(null);
+          setShowReviewPanel(!showReviewPanel);
+        }}
+        openCommentCount={openCommentTotal}
       />
 
       {/* Mobile Layer Switcher - visible only on small screens */}
@@ -2500,6 +2652,8 @@ function CanvasComponent() {
             nodes={nodes}
             edges={edges}
             onNodesChange={handleNodesChange}
+            onNodeDragStart={handleNodeDragStart}
+            onNodeDragStop={handleNodeDragStop}
             onEdgesChange={handleEdgesChange}
             onConnect={onConnect}
             onReconnect={onReconnect}
@@ -2509,11 +2663,15 @@ function CanvasComponent() {
             onPaneClick={onPaneClick}
             onDragOver={onDragOver}
             onDrop={onDrop}
+            onMouseMove={handleCollaborationMouseMove}
+            onMouseLeave={() => sendCursor(null)}
             nodeTypes={nodeTypes}
             edgeTypes={edgeTypes}
             fitView
             attributionPosition="bottom-left"
             connectionMode={connectionMode === 'connection' ? "loose" : "strict" as any}
+            nodesConnectable={canEditModels}
+            deleteKeyCode={canEditModels ? "Backspace" : null}
             snapToGrid={true}
             snapGrid={[15, 15]}
             connectionLineType={"step" as any}
@@ -2605,6 +2763,8 @@ function CanvasComponent() {
           
           {nodes.length > 5 && <MiniMapOverlay />}
           
+          <CollaborationOverlay peers={peers} nodes={nodes} />
+
           {/* Undo/Redo Timeline */}
           <div className="absolute bottom-4 left-4 z-10">
             <UndoRedoTimeline />
@@ -2617,10 +2777,26 @@ function CanvasComponent() {
               edges={edges}
               setNodes={setNodes}
               onLayoutApplied={() => {
-                // Save layout changes to history
-                setTimeout(() => {
-                  saveToHistory('layout_applied', 'Applied auto layout', 'Canvas layout reorganized');
-                }, 300);
+                // `nodes` still holds the positions from before the layout; nodesRef has the new ones
+                const before = new Map(nodes.map((node) => [node.id, node.position]));
+                const positions = nodesRef.current.flatMap((node) => {
+                  const from = before.get(node.id);
+                  const modelObjectId = node.data?.modelObjectId;
+                  if (!from || typeof modelObjectId !== 'number' || modelObjectId <= 0) {
+                    return [];
+                  }
+                  return [{
+                    modelObjectId,
+                    from: { x: Math.round(from.x * 100) / 100, y: Math.round(from.y * 100) / 100 },
+                    to: { x: Math.round(node.position.x * 100) / 100, y: Math.round(node.position.y * 100) / 100 },
+                  }];
+                });
+                queuePositionSave('layout_applied');
+                recordCommand(currentLayerModel?.id, {
+                  action: 'layout_applied',
+                  label: 'Applied auto layout',
+                  positions,
+                });
               }}
             />
           )}
@@ -2633,6 +2809,19 @@ function CanvasComponent() {
         onClose={() => setShowSearchPanel(false)}
       />
 
+      {/* Review comments on the layer and its objects, attributes and relationships */}
+      {showReviewPanel && (
+        <ReviewPanel
+          layerId={currentLayerModel?.id}
+          nodes={nodes}
+          edges={edges}
+          focus={reviewFocus}
+          onFocusChange={setReviewFocus}
+          canComment={can("models:comment")}
+          onClose={() => setShowReviewPanel(false)}
+        />
+      )}
+
       {/* AI Suggestions Panel */}
       <div className="absolute top-20 right-4 z-10">
         <AISuggestionsPanel 
@@ -0,0 +1,86 @@
+import { useViewport, type Node } from 'reactflow';
+import { MousePointer2 } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { CollaborationPeer } from "@shared/collaboration";
+
+interface CollaborationOverlayProps {
+  peers: CollaborationPeer[];
+  nodes: Node[];
+}
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join("");
+
+/**
+ * Presence of the other sessions on the layer: avatars in the corner, their
+ * cursors, and an outline around the objects they have selected.
+ */
+export default function CollaborationOverlay({ peers, nodes }: CollaborationOverlayProps) {
+  const { x, y, zoom } = useViewport();
+  if (peers.length === 0) {
+    return null;
+  }
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  return (
+    <>
+      <div className="pointer-events-none absolute inset-0 z-[5] overflow-hidden">
+        {peers.map((peer) =>
+          peer.selection.map((nodeId) => {
+            const node = nodesById.get(nodeId);
+            if (!node?.width || !node.height) return null;
+            return (
+              <div
+                key={`${peer.clientId}-${nodeId}`}
+                className="absolute rounded-md border-2"
+                style={{
+                  borderColor: peer.color,
+                  left: node.position.x * zoom + x - 4,
+                  top: node.position.y * zoom + y - 4,
+                  width: node.width * zoom + 8,
+                  height: node.height * zoom + 8,
+                }}
+              />
+            );
+          })
+        )}
+        {peers.map((peer) =>
+          peer.cursor ? (
+            <div
+              key={peer.clientId}
+              className="absolute flex items-start gap-1 transition-transform duration-75"
+              style={{ transform: `translate(${peer.cursor.x * zoom + x}px, ${peer.cursor.y * zoom + y}px)` }}
+            >
+              <MousePointer2 className="h-4 w-4" style={{ color: peer.color, fill: peer.color }} />
+              <span className="rounded px-1.5 py-0.5 text-[11px] font-medium text-white" style={{ backgroundColor: peer.color }}>
+                {peer.name}
+              </span>
+            </div>
+          ) : null
+        )}
+      </div>
+
+      <div className="absolute left-1/2 top-4 z-10 flex -translate-x-1/2 -space-x-2" data-testid="collaboration-presence">
+        {peers.map((peer) => (
+          <Tooltip key={peer.clientId}>
+            <TooltipTrigger asChild>
+              <div
+                className="flex h-8 w-8 items-center justify-center rounded-full border-2 border-background text-xs font-semibold text-white shadow"
+                style={{ backgroundColor: peer.color }}
+              >
+                {initials(peer.name) || "?"}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>{peer.name} is editing this layer</TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import { MessageSquare, MessageSquarePlus } from "lucide-react";
+import type { CommentTargetType } from "@shared/comments";
+import { openCommentsFor } from "@/hooks/useModelComments";
+import { cn } from "@/lib/utils";
+
+interface CommentBadgeProps {
+  targetType: CommentTargetType;
+  targetId: number | null | undefined;
+  /** Open threads on the item; the badge hides at zero unless `showWhenEmpty`. */
+  count: number;
+  /** Show an "add comment" button when there is nothing to count yet (e.g. on the selected item). */
+  showWhenEmpty?: boolean;
+  className?: string;
+}
+
+export default function CommentBadge({ targetType, targetId, count, showWhenEmpty = false, className }: CommentBadgeProps) {
+  if (targetId === null || targetId === undefined || (count === 0 && !showWhenEmpty)) {
+    return null;
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        "nodrag nopan inline-flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-[10px] font-semibold leading-none shadow-sm transition-colors",
+        count > 0
+          ? "bg-amber-400 text-amber-950 hover:bg-amber-300"
+          : "bg-white/80 text-muted-foreground hover:bg-white hover:text-foreground",
+        className,
+      )}
+      title={count > 0 ? `${count} open comment thread${count === 1 ? "" : "s"}` : "Add a comment"}
+      data-testid={`comment-badge-${targetType}-${targetId}`}
+      onClick={(event) => {
+        event.stopPropagation();
+        openCommentsFor(targetType, targetId);
+      }}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      {count > 0 ? <MessageSquare className="h-3 w-3" /> : <MessageSquarePlus className="h-3 w-3" />}
+      {count > 0 && count}
+    </button>
+  );
+}
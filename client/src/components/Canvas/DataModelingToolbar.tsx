@@ -16,7 +16,8 @@ import {
   RotateCcw,
   Lightbulb,
   Search,
-  Layers
+  Layers,
+  MessageSquare
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { 
@@ -42,6 +43,8 @@ interface DataModelingToolbarProps {
   onToggleSearch?: () => void;
   showAutoLayout?: boolean;
   onToggleAutoLayout?: () => void;
+  onToggleReview?: () => void;
+  openCommentCount?: number;
 }
 
 export default function DataModelingToolbar({
@@ -54,7 +57,9 @@ export default function DataModelingToolbar({
   onToggleAISuggestions,
   onToggleSearch,
   showAutoLayout,
-  onToggleAutoLayout
+  onToggleAutoLayout,
+  onToggleReview,
+  openCommentCount = 0
 }: DataModelingToolbarProps) {
   const { getNodes, getEdges, fitView } = useReactFlow();
   const { 
@@ -184,6 +189,26 @@ export default function DataModelingToolbar({
                   </Button>
                 )}
 
+                {onToggleReview && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      onToggleReview();
+                      setIsToolboxOpen(false);
+                    }}
+                    className="w-full justify-start touch-target touch-button"
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Review Comments
+                    {openCommentCount > 0 && (
+                      <Badge variant="secondary" className="ml-auto text-xs">
+                        {openCommentCount}
+                      </Badge>
+                    )}
+                  </Button>
+                )}
+
               </div>
             </div>
 
@@ -0,0 +1,387 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useReactFlow, type Edge, type Node } from "reactflow";
+import { AtSign, CheckCircle2, Loader2, MessageSquare, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useModelComments } from "@/hooks/useModelComments";
+import { useModelerStore } from "@/store/modelerStore";
+import { cn } from "@/lib/utils";
+import {
+  commentTargetKey,
+  mentionHandlesFor,
+  preferredMentionHandle,
+  type MentionCandidate,
+} from "@shared/comments";
+import type { CommentFocus, CommentThread, ModelCommentEntry } from "@/types/comments";
+
+interface ReviewPanelProps {
+  layerId: number | undefined;
+  nodes: Node[];
+  edges: Edge[];
+  focus: CommentFocus | null;
+  onFocusChange: (focus: CommentFocus | null) => void;
+  canComment: boolean;
+  onClose: () => void;
+}
+
+type ThreadFilter = "open" | "resolved" | "mentions";
+
+const MENTION_SPLIT = /(@[A-Za-z0-9_+-]+(?:\.[A-Za-z0-9_+-]+)*(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?)/g;
+
+/** Human label for what a thread is anchored to, looked up on the canvas; removed items keep their type. */
+function describeTarget(focus: CommentFocus, nodes: Node[], edges: Edge[]): { label: string; missing: boolean } {
+  const { targetType, targetId } = focus;
+  if (targetType === "layer" || targetId === null) {
+    return { label: "Whole layer", missing: false };
+  }
+  if (targetType === "object") {
+    const node = nodes.find((entry) => entry.data?.modelObjectId === targetId);
+    return node ? { label: node.data.name, missing: false } : { label: "Removed object", missing: true };
+  }
+  if (targetType === "attribute") {
+    for (const node of nodes) {
+      const attribute = (node.data?.attributes ?? []).find((entry: { id: number }) => entry.id === targetId);
+      if (attribute) {
+        return { label: `${node.data.name}.${attribute.name}`, missing: false };
+      }
+    }
+    return { label: "Removed attribute", missing: true };
+  }
+  const edge = edges.find((entry) => entry.data?.relationshipId === targetId);
+  if (!edge) {
+    return { label: "Removed relationship", missing: true };
+  }
+  const nameOf = (id: string) => nodes.find((node) => node.id === id)?.data?.name ?? "?";
+  return { label: `${nameOf(edge.source)} → ${nameOf(edge.target)}`, missing: false };
+}
+
+function CommentBody({ body, members }: { body: string; members: MentionCandidate[] }) {
+  const parts = body.split(MENTION_SPLIT);
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm">
+      {parts.map((part, index) => {
+        const handle = part.startsWith("@") ? part.slice(1).toLowerCase() : null;
+        const isMention = handle !== null && members.some((member) => mentionHandlesFor(member).includes(handle));
+        return isMention ? (
+          <span key={index} className="rounded bg-primary/10 px-0.5 font-medium text-primary">
+            {part}
+          </span>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        );
+      })}
+    </p>
+  );
+}
+
+function CommentComposer({
+  members,
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+}: {
+  members: MentionCandidate[];
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (body: string) => Promise<unknown>;
+}) {
+  const [body, setBody] = useState("");
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    try {
+      await onSubmit(body);
+      setBody("");
+    } catch {
+      // The mutation's caller reports the error; keep the draft so nothing is lost
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(event) => setBody(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+            event.preventDefault();
+            void submit();
+          }
+        }}
+        placeholder={placeholder}
+        className="min-h-[64px] text-sm"
+      />
+      <div className="flex items-center justify-between">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={members.length === 0}>
+              <AtSign className="mr-1 h-3 w-3" />
+              Mention
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-64 overflow-y-auto">
+            <DropdownMenuLabel className="text-xs">Organization members</DropdownMenuLabel>
+            {members.map((member) => (
+              <DropdownMenuItem
+                key={member.userId}
+                onClick={() => {
+                  const handle = preferredMentionHandle(member, members);
+                  setBody((current) => `${current}${current && !/\s$/.test(current) ? " " : ""}@${handle} `);
+                }}
+              >
+                <span className="truncate">{member.name || member.email}</span>
+                <span className="ml-2 truncate text-xs text-muted-foreground">{member.email}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" className="h-7" disabled={!body.trim() || isSubmitting} onClick={() => void submit()}>
+          {isSubmitting && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Review threads of the current layer. Threads hang off the layer itself or
+ * off an object, attribute or relationship; the panel lists them by status and
+ * can narrow down to one item when opened from its comment badge.
+ */
+export default function ReviewPanel({
+  layerId,
+  nodes,
+  edges,
+  focus,
+  onFocusChange,
+  canComment,
+  onClose,
+}: ReviewPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { fitView } = useReactFlow();
+  const { selectNode, selectEdge, selectAttribute } = useModelerStore();
+  const { threads, isLoading, createThread, reply, setStatus } = useModelComments(layerId);
+  const [filter, setFilter] = useState<ThreadFilter>("open");
+
+  const { data: members = [] } = useQuery<MentionCandidate[]>({
+    queryKey: ["/api/organization/members"],
+  });
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const focusKey = focus ? commentTargetKey(focus.targetType, focus.targetId) : null;
+  const focusLabel = focus ? describeTarget(focus, nodes, edges).label : null;
+
+  const visibleThreads = useMemo(
+    () =>
+      threads.filter((thread) => {
+        if (focusKey && thread.targetKey !== focusKey) return false;
+        if (filter === "mentions") {
+          return thread.comments.some((comment) => comment.mentions.some((mention) => mention.userId === user?.id));
+        }
+        return thread.status === filter;
+      }),
+    [threads, focusKey, filter, user?.id],
+  );
+
+  const openCount = threads.filter((thread) => thread.status === "open" && (!focusKey || thread.targetKey === focusKey)).length;
+
+  const revealTarget = (thread: CommentThread) => {
+    if (thread.targetType === "object" || thread.targetType === "attribute") {
+      const node = nodes.find((entry) =>
+        thread.targetType === "object"
+          ? entry.data?.modelObjectId === thread.targetId
+          : (entry.data?.attributes ?? []).some((attribute: { id: number }) => attribute.id === thread.targetId),
+      );
+      if (!node) return;
+      if (thread.targetType === "object") {
+        selectNode(node.id);
+      } else {
+        selectAttribute(thread.targetId);
+      }
+      fitView({ nodes: [{ id: node.id }], duration: 500, maxZoom: 1.2 });
+    } else if (thread.targetType === "relationship") {
+      const edge = edges.find((entry) => entry.data?.relationshipId === thread.targetId);
+      if (!edge) return;
+      selectEdge(edge.id);
+      fitView({ nodes: [{ id: edge.source }, { id: edge.target }], duration: 500, maxZoom: 1.2 });
+    }
+  };
+
+  const renderComment = (comment: ModelCommentEntry) => (
+    <div key={comment.id} className="space-y-0.5">
+      <div className="flex items-baseline justify-between gap-2 text-xs">
+        <span className="font-medium">{comment.authorName}</span>
+        <span className="text-muted-foreground">{new Date(comment.createdAt).toLocaleString()}</span>
+      </div>
+      <CommentBody body={comment.body} members={members} />
+    </div>
+  );
+
+  return (
+    <div
+      className="absolute right-4 top-4 z-20 flex max-h-[calc(100%-2rem)] w-96 max-w-[90vw] flex-col rounded-xl border border-border bg-card/95 shadow-strong backdrop-blur-md"
+      data-testid="review-panel"
+    >
+      <div className="flex items-center justify-between border-b border-border px-4 py-3">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          <h3 className="text-sm font-semibold">Review</h3>
+          <Badge variant="secondary" className="text-xs">
+            {openCount} open
+          </Badge>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} title="Close review panel">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-3 border-b border-border px-4 py-3">
+        {focus && (
+          <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-2 py-1.5 text-xs">
+            <span className="truncate">
+              Comments on <span className="font-medium">{focusLabel}</span>
+            </span>
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onFocusChange(null)}>
+              All threads
+            </Button>
+          </div>
+        )}
+        {canComment && layerId && (
+          <CommentComposer
+            members={members}
+            placeholder={`Start a thread on ${focus ? focusLabel : "this layer"}; @mention people to ask them`}
+            submitLabel="Comment"
+            isSubmitting={createThread.isPending}
+            onSubmit={(body) =>
+              createThread
+                .mutateAsync({
+                  targetType: focus?.targetType ?? "layer",
+                  targetId: focus?.targetId ?? null,
+                  body,
+                })
+                .then(() => setFilter("open"))
+                .catch((error) => {
+                  showError("Failed to add comment")(error);
+                  throw error;
+                })
+            }
+          />
+        )}
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as ThreadFilter)}>
+          <TabsList className="grid h-8 w-full grid-cols-3">
+            <TabsTrigger value="open" className="text-xs">Open</TabsTrigger>
+            <TabsTrigger value="resolved" className="text-xs">Resolved</TabsTrigger>
+            <TabsTrigger value="mentions" className="text-xs">Mentions me</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-3 p-4">
+          {isLoading && (
+            <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Loading comments...
+            </div>
+          )}
+          {!isLoading && visibleThreads.length === 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {filter === "open" ? "No open threads" : filter === "resolved" ? "No resolved threads" : "Nobody mentioned you here"}
+            </p>
+          )}
+          {visibleThreads.map((thread) => {
+            const target = describeTarget(thread, nodes, edges);
+            const isOpen = thread.status === "open";
+            return (
+              <div
+                key={thread.id}
+                className={cn("space-y-2 rounded-lg border border-border p-3", !isOpen && "opacity-80")}
+                data-testid={`comment-thread-${thread.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    className={cn(
+                      "truncate text-left text-xs font-medium text-primary hover:underline",
+                      target.missing && "text-muted-foreground line-through hover:no-underline",
+                    )}
+                    onClick={() => revealTarget(thread)}
+                    disabled={target.missing}
+                    title={target.missing ? "This item no longer exists on the layer" : "Show on canvas"}
+                  >
+                    <span className="capitalize">{thread.targetType}</span>: {target.label}
+                  </button>
+                  {canComment && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 shrink-0 px-2 text-xs"
+                      disabled={setStatus.isPending}
+                      onClick={() =>
+                        setStatus.mutate(
+                          { threadId: thread.id, status: isOpen ? "resolved" : "open" },
+                          { onError: showError("Failed to update thread") },
+                        )
+                      }
+                    >
+                      {isOpen ? <CheckCircle2 className="mr-1 h-3 w-3" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                      {isOpen ? "Resolve" : "Reopen"}
+                    </Button>
+                  )}
+                </div>
+
+                <div className="space-y-2">{thread.comments.map(renderComment)}</div>
+
+                {!isOpen && thread.resolvedByName && (
+                  <p className="text-xs text-muted-foreground">
+                    Resolved by {thread.resolvedByName}
+                    {thread.resolvedAt ? ` on ${new Date(thread.resolvedAt).toLocaleDateString()}` : ""}
+                  </p>
+                )}
+
+                {canComment && isOpen && (
+                  <CommentComposer
+                    members={members}
+                    placeholder="Reply..."
+                    submitLabel="Reply"
+                    isSubmitting={reply.isPending && reply.variables?.threadId === thread.id}
+                    onSubmit={(body) =>
+                      reply.mutateAsync({ threadId: thread.id, body }).catch((error) => {
+                        showError("Failed to reply")(error);
+                        throw error;
+                      })
+                    }
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { ZoomIn, ZoomOut, Maximize, Undo, Redo } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useModelerStore } from "@/store/modelerStore";
+import { useCommandHistory } from "@/hooks/useCommandHistory";
 
 interface CanvasControlsProps {
   onZoomIn: () => void;
@@ -15,7 +16,8 @@ export default function CanvasControls({
   onFitView,
   zoomLevel
 }: CanvasControlsProps) {
-  const { undo, redo, canUndo, canRedo } = useModelerStore();
+  const layerId = useModelerStore((state) => state.getCurrentLayerModel()?.id);
+  const { undo, redo, canUndo, canRedo } = useCommandHistory(layerId);
 
   return (
     <div className="absolute bottom-4 left-4 flex flex-col gap-2 bg-card/95 dark:bg-card/95 backdrop-blur-md rounded-xl border border-border p-3 shadow-strong animate-fade-in">
@@ -65,9 +67,9 @@ export default function CanvasControls({
           variant="ghost"
           size="sm"
           onClick={undo}
-          disabled={!canUndo()}
+          disabled={!canUndo}
           className={`h-9 w-9 p-0 touch-target transition-all duration-200 ${
-            canUndo() 
+            canUndo 
               ? 'hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-950 dark:hover:text-blue-300 hover:scale-105' 
               : 'opacity-50 cursor-not-allowed'
           }`}
@@ -80,9 +82,9 @@ export default function CanvasControls({
           variant="ghost"
           size="sm"
           onClick={redo}
-          disabled={!canRedo()}
+          disabled={!canRedo}
           className={`h-9 w-9 p-0 touch-target transition-all duration-200 ${
-            canRedo() 
+            canRedo 
               ? 'hover:bg-green-50 hover:text-green-600 dark:hover:bg-green-950 dark:hover:text-green-300 hover:scale-105' 
               : 'opacity-50 cursor-not-allowed'
           }`}
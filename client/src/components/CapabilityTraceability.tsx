@@ -0,0 +1,683 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Loader2, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+export interface TraceabilityModelOption {
+  /** Parent data model id shared by all layers. */
+  id: number;
+  name: string;
+}
+
+export interface TraceabilitySystemOption {
+  id: number;
+  name: string;
+}
+
+interface CapabilityModelMapping {
+  id: number;
+  capabilityId: number;
+  modelId: number;
+  modelName: string | null;
+  lifecycleStatus: string | null;
+  alignmentRating: string | null;
+  businessValueScore: number | null;
+  readinessScore: number | null;
+  riskLevel: string | null;
+  dataSteward: string | null;
+  authoritativeSource: boolean | null;
+}
+
+interface CapabilityModelSystemMapping {
+  id: number;
+  capabilityId: number;
+  modelId: number;
+  systemId: number;
+  modelName: string | null;
+  systemName: string | null;
+  relationshipType: string | null;
+  systemRole: string | null;
+  deploymentStatus: string | null;
+  heatmapScore: number | null;
+  riskScore: number | null;
+  slaHours: number | null;
+  isPrimary: boolean | null;
+}
+
+export type CapabilityCoverage = "no_model" | "no_authoritative_model" | "covered";
+
+export interface CapabilityHeatmapEntry {
+  capabilityId: number;
+  name: string;
+  code: string;
+  level: number;
+  parentId: number | null;
+  criticality: string | null;
+  coverage: CapabilityCoverage;
+  modelCount: number;
+  authoritativeModelCount: number;
+  systemCount: number;
+  averageReadiness: number | null;
+  averageBusinessValue: number | null;
+  highestRisk: "low" | "medium" | "high" | "critical" | null;
+  averageHeatmapScore: number | null;
+  minimumSlaHours: number | null;
+}
+
+export type HeatmapMetric = "readiness" | "risk";
+
+const SCORE_OPTIONS = ["1", "2", "3", "4", "5"];
+
+const riskTone: Record<string, string> = {
+  low: "bg-emerald-100 text-emerald-800 border-emerald-200",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  high: "bg-orange-100 text-orange-800 border-orange-200",
+  critical: "bg-red-100 text-red-800 border-red-200",
+};
+
+const coverageLabels: Record<CapabilityCoverage, string> = {
+  no_model: "No model",
+  no_authoritative_model: "No authoritative model",
+  covered: "Authoritative model",
+};
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? fallbackMessage);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+}
+
+const emptyModelForm = {
+  modelId: "",
+  readinessScore: "3",
+  businessValueScore: "3",
+  riskLevel: "medium",
+  lifecycleStatus: "planned",
+  dataSteward: "",
+  authoritativeSource: false,
+};
+
+const emptyTripleForm = {
+  modelId: "",
+  systemId: "",
+  systemRole: "primary",
+  deploymentStatus: "planning",
+  heatmapScore: "3",
+  slaHours: "",
+  isPrimary: false,
+};
+
+interface CapabilityModelTraceabilityPanelProps {
+  capabilityId: number;
+  canEdit: boolean;
+  models: TraceabilityModelOption[];
+  systems: TraceabilitySystemOption[];
+  /** Called after a mapping was added or removed so aggregate views can refresh. */
+  onChanged?: () => void;
+}
+
+export const CapabilityModelTraceabilityPanel: React.FC<CapabilityModelTraceabilityPanelProps> = ({
+  capabilityId,
+  canEdit,
+  models,
+  systems,
+  onChanged,
+}) => {
+  const { toast } = useToast();
+  const [modelMappings, setModelMappings] = useState<CapabilityModelMapping[]>([]);
+  const [tripleMappings, setTripleMappings] = useState<CapabilityModelSystemMapping[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<"model" | "triple" | null>(null);
+  const [modelForm, setModelForm] = useState(emptyModelForm);
+  const [tripleForm, setTripleForm] = useState(emptyTripleForm);
+
+  const loadMappings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [modelData, tripleData] = await Promise.all([
+        requestJson<CapabilityModelMapping[]>(
+          `/api/capabilities/${capabilityId}/model-mappings`,
+          {},
+          "Failed to load model mappings",
+        ),
+        requestJson<CapabilityModelSystemMapping[]>(
+          `/api/capabilities/${capabilityId}/model-system-mappings`,
+          {},
+          "Failed to load model system mappings",
+        ),
+      ]);
+      setModelMappings(modelData);
+      setTripleMappings(tripleData);
+    } catch (error) {
+      console.error("Error loading capability traceability:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load capability traceability",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [capabilityId, toast]);
+
+  useEffect(() => {
+    setModelForm(emptyModelForm);
+    setTripleForm(emptyTripleForm);
+    loadMappings();
+  }, [loadMappings]);
+
+  // Triples only make sense for models already linked to the capability
+  const linkedModels = useMemo(() => {
+    const linked = new Set(modelMappings.map((mapping) => mapping.modelId));
+    return models.filter((model) => linked.has(model.id));
+  }, [modelMappings, models]);
+
+  const runMutation = async (kind: "model" | "triple", action: () => Promise<unknown>, successTitle: string) => {
+    setSaving(kind);
+    try {
+      await action();
+      toast({ title: successTitle });
+      await loadMappings();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error updating capability traceability:", error);
+      toast({
+        title: "Update failed",
+        description: error instanceof Error ? error.message : "Failed to update capability traceability",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleAddModelMapping = () => {
+    if (!modelForm.modelId) {
+      toast({ title: "Select a model", description: "Choose a data model before adding the link.", variant: "destructive" });
+      return;
+    }
+    runMutation(
+      "model",
+      async () => {
+        await requestJson(
+          `/api/capabilities/${capabilityId}/model-mappings`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              modelId: Number(modelForm.modelId),
+              readinessScore: Number(modelForm.readinessScore),
+              businessValueScore: Number(modelForm.businessValueScore),
+              riskLevel: modelForm.riskLevel,
+              lifecycleStatus: modelForm.lifecycleStatus,
+              dataSteward: modelForm.dataSteward.trim() || null,
+              authoritativeSource: modelForm.authoritativeSource,
+            }),
+          },
+          "Failed to link data model",
+        );
+        setModelForm(emptyModelForm);
+      },
+      "Data model linked",
+    );
+  };
+
+  const handleToggleAuthoritative = (mapping: CapabilityModelMapping) => {
+    runMutation(
+      "model",
+      () =>
+        requestJson(
+          `/api/capability-model-mappings/${mapping.id}`,
+          { method: "PATCH", body: JSON.stringify({ authoritativeSource: !mapping.authoritativeSource }) },
+          "Failed to update model mapping",
+        ),
+      mapping.authoritativeSource ? "Authoritative flag removed" : "Marked as authoritative",
+    );
+  };
+
+  const handleAddTriple = () => {
+    if (!tripleForm.modelId || !tripleForm.systemId) {
+      toast({ title: "Select a model and system", description: "Both are required for a trace.", variant: "destructive" });
+      return;
+    }
+    runMutation(
+      "triple",
+      async () => {
+        await requestJson(
+          `/api/capabilities/${capabilityId}/model-system-mappings`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              modelId: Number(tripleForm.modelId),
+              systemId: Number(tripleForm.systemId),
+              systemRole: tripleForm.systemRole,
+              deploymentStatus: tripleForm.deploymentStatus,
+              heatmapScore: Number(tripleForm.heatmapScore),
+              slaHours: tripleForm.slaHours ? Number(tripleForm.slaHours) : null,
+              isPrimary: tripleForm.isPrimary,
+            }),
+          },
+          "Failed to link system",
+        );
+        setTripleForm(emptyTripleForm);
+      },
+      "System trace added",
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-lg border p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold">Linked data models</h4>
+          <Button size="sm" onClick={handleAddModelMapping} disabled={saving !== null || !canEdit}>
+            {saving === "model" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Link model
+          </Button>
+        </div>
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-1 md:col-span-3">
+            <Label htmlFor="trace-model">Data model</Label>
+            <Select value={modelForm.modelId} onValueChange={(value) => setModelForm((prev) => ({ ...prev, modelId: value }))}>
+              <SelectTrigger id="trace-model">
+                <SelectValue placeholder="Select data model" />
+              </SelectTrigger>
+              <SelectContent className="max-h-64">
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={String(model.id)}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trace-readiness">Readiness (1-5)</Label>
+            <Select value={modelForm.readinessScore} onValueChange={(value) => setModelForm((prev) => ({ ...prev, readinessScore: value }))}>
+              <SelectTrigger id="trace-readiness">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCORE_OPTIONS.map((score) => (
+                  <SelectItem key={score} value={score}>{score}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trace-value">Business value (1-5)</Label>
+            <Select value={modelForm.businessValueScore} onValueChange={(value) => setModelForm((prev) => ({ ...prev, businessValueScore: value }))}>
+              <SelectTrigger id="trace-value">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCORE_OPTIONS.map((score) => (
+                  <SelectItem key={score} value={score}>{score}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trace-risk">Risk</Label>
+            <Select value={modelForm.riskLevel} onValueChange={(value) => setModelForm((prev) => ({ ...prev, riskLevel: value }))}>
+              <SelectTrigger id="trace-risk">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="trace-lifecycle">Lifecycle</Label>
+            <Select value={modelForm.lifecycleStatus} onValueChange={(value) => setModelForm((prev) => ({ ...prev, lifecycleStatus: value }))}>
+              <SelectTrigger id="trace-lifecycle">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="planned">Planned</SelectItem>
+                <SelectItem value="in_progress">In progress</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="sunset">Sunset</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="trace-steward">Data steward</Label>
+            <Input
+              id="trace-steward"
+              value={modelForm.dataSteward}
+              onChange={(event) => setModelForm((prev) => ({ ...prev, dataSteward: event.target.value }))}
+              placeholder="Who owns this data?"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm md:col-span-3">
+            <Checkbox
+              checked={modelForm.authoritativeSource}
+              onCheckedChange={(checked) => setModelForm((prev) => ({ ...prev, authoritativeSource: checked === true }))}
+            />
+            Authoritative model for this capability
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading linked models…
+          </div>
+        ) : modelMappings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No data models are linked to this capability yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {modelMappings.map((mapping) => (
+              <div key={mapping.id} className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-xs">
+                <span className="font-medium">{mapping.modelName ?? `Model ${mapping.modelId}`}</span>
+                {mapping.authoritativeSource && (
+                  <Badge variant="outline" className="bg-emerald-100 text-emerald-800 border-emerald-200">
+                    <ShieldCheck className="mr-1 h-3 w-3" />
+                    Authoritative
+                  </Badge>
+                )}
+                <Badge variant="outline">Readiness {mapping.readinessScore ?? "–"}/5</Badge>
+                <Badge variant="outline">Value {mapping.businessValueScore ?? "–"}/5</Badge>
+                <Badge variant="outline" className={riskTone[mapping.riskLevel ?? "medium"]}>
+                  {mapping.riskLevel ?? "medium"} risk
+                </Badge>
+                {mapping.dataSteward && <span className="text-muted-foreground">Steward: {mapping.dataSteward}</span>}
+                <div className="ml-auto flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={saving !== null || !canEdit}
+                    onClick={() => handleToggleAuthoritative(mapping)}
+                  >
+                    {mapping.authoritativeSource ? "Unset authoritative" : "Set authoritative"}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={saving !== null || !canEdit}
+                    onClick={() =>
+                      runMutation(
+                        "model",
+                        () => requestJson(`/api/capability-model-mappings/${mapping.id}`, { method: "DELETE" }, "Failed to remove model link"),
+                        "Data model unlinked",
+                      )
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4 rounded-lg border p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold">Model → system traces</h4>
+          <Button size="sm" onClick={handleAddTriple} disabled={saving !== null || !canEdit || linkedModels.length === 0}>
+            {saving === "triple" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add trace
+          </Button>
+        </div>
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="triple-model">Linked model</Label>
+            <Select value={tripleForm.modelId} onValueChange={(value) => setTripleForm((prev) => ({ ...prev, modelId: value }))}>
+              <SelectTrigger id="triple-model">
+                <SelectValue placeholder={linkedModels.length ? "Select model" : "Link a model first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {linkedModels.map((model) => (
+                  <SelectItem key={model.id} value={String(model.id)}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triple-system">System</Label>
+            <Select value={tripleForm.systemId} onValueChange={(value) => setTripleForm((prev) => ({ ...prev, systemId: value }))}>
+              <SelectTrigger id="triple-system">
+                <SelectValue placeholder="Select system" />
+              </SelectTrigger>
+              <SelectContent className="max-h-64">
+                {systems.map((system) => (
+                  <SelectItem key={system.id} value={String(system.id)}>
+                    {system.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triple-role">System role</Label>
+            <Select value={tripleForm.systemRole} onValueChange={(value) => setTripleForm((prev) => ({ ...prev, systemRole: value }))}>
+              <SelectTrigger id="triple-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="primary">Primary</SelectItem>
+                <SelectItem value="secondary">Secondary</SelectItem>
+                <SelectItem value="consumer">Consumer</SelectItem>
+                <SelectItem value="supporting">Supporting</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triple-deployment">Deployment</Label>
+            <Select value={tripleForm.deploymentStatus} onValueChange={(value) => setTripleForm((prev) => ({ ...prev, deploymentStatus: value }))}>
+              <SelectTrigger id="triple-deployment">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="planning">Planning</SelectItem>
+                <SelectItem value="pilot">Pilot</SelectItem>
+                <SelectItem value="production">Production</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triple-heat">Heatmap score (1-5)</Label>
+            <Select value={tripleForm.heatmapScore} onValueChange={(value) => setTripleForm((prev) => ({ ...prev, heatmapScore: value }))}>
+              <SelectTrigger id="triple-heat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCORE_OPTIONS.map((score) => (
+                  <SelectItem key={score} value={score}>{score}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triple-sla">SLA (hours)</Label>
+            <Input
+              id="triple-sla"
+              type="number"
+              min={0}
+              value={tripleForm.slaHours}
+              onChange={(event) => setTripleForm((prev) => ({ ...prev, slaHours: event.target.value }))}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm md:col-span-3">
+            <Checkbox
+              checked={tripleForm.isPrimary}
+              onCheckedChange={(checked) => setTripleForm((prev) => ({ ...prev, isPrimary: checked === true }))}
+            />
+            Primary system for this model
+          </label>
+        </div>
+
+        {tripleMappings.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No model → system traces recorded.</p>
+        ) : (
+          <div className="space-y-2">
+            {tripleMappings.map((mapping) => (
+              <div key={mapping.id} className="flex flex-wrap items-center gap-2 rounded-md border p-2 text-xs">
+                <span className="font-medium">{mapping.modelName ?? `Model ${mapping.modelId}`}</span>
+                <span className="text-muted-foreground">→</span>
+                <span className="font-medium">{mapping.systemName ?? `System ${mapping.systemId}`}</span>
+                {mapping.isPrimary && <Badge variant="secondary">Primary</Badge>}
+                {mapping.systemRole && <Badge variant="outline">{mapping.systemRole}</Badge>}
+                {mapping.deploymentStatus && <Badge variant="outline">{mapping.deploymentStatus}</Badge>}
+                {mapping.heatmapScore != null && <Badge variant="outline">Heat {mapping.heatmapScore}/5</Badge>}
+                {mapping.slaHours != null && <span className="text-muted-foreground">SLA {mapping.slaHours}h</span>}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="ml-auto"
+                  disabled={saving !== null || !canEdit}
+                  onClick={() =>
+                    runMutation(
+                      "triple",
+                      () => requestJson(`/api/capability-model-system-mappings/${mapping.id}`, { method: "DELETE" }, "Failed to remove trace"),
+                      "System trace removed",
+                    )
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Readiness 1 (red) → 5 (green); capabilities without a model stay neutral grey
+const readinessColor = (score: number | null) => {
+  if (score === null) return "#e5e7eb";
+  const hue = ((Math.min(Math.max(score, 1), 5) - 1) / 4) * 120;
+  return `hsl(${hue}, 70%, 80%)`;
+};
+
+const riskColors: Record<string, string> = {
+  low: "#bbf7d0",
+  medium: "#fef08a",
+  high: "#fed7aa",
+  critical: "#fecaca",
+};
+
+interface CapabilityTraceabilityHeatmapProps {
+  entries: CapabilityHeatmapEntry[];
+  metric: HeatmapMetric;
+  onMetricChange: (metric: HeatmapMetric) => void;
+  selectedCapabilityId?: number;
+  onSelect: (capabilityId: number) => void;
+}
+
+export const CapabilityTraceabilityHeatmap: React.FC<CapabilityTraceabilityHeatmapProps> = ({
+  entries,
+  metric,
+  onMetricChange,
+  selectedCapabilityId,
+  onSelect,
+}) => {
+  const gaps = entries.filter((entry) => entry.coverage !== "covered").length;
+  const sorted = useMemo(
+    () => [...entries].sort((a, b) => a.level - b.level || a.name.localeCompare(b.name)),
+    [entries],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <span>
+            {gaps} of {entries.length} capabilities lack an authoritative model
+          </span>
+        </div>
+        <Select value={metric} onValueChange={(value) => onMetricChange(value as HeatmapMetric)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="readiness">Colour by readiness</SelectItem>
+            <SelectItem value="risk">Colour by risk</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+        {sorted.map((entry) => {
+          const background =
+            entry.coverage === "no_model"
+              ? "#f3f4f6"
+              : metric === "readiness"
+                ? readinessColor(entry.averageReadiness)
+                : riskColors[entry.highestRisk ?? "medium"];
+          return (
+            <Tooltip key={entry.capabilityId}>
+              <TooltipTrigger asChild>
+                <button
+                  type="button"
+                  onClick={() => onSelect(entry.capabilityId)}
+                  style={{ backgroundColor: background }}
+                  className={cn(
+                    "min-h-[72px] rounded-md border p-2 text-left text-xs text-gray-900 transition hover:ring-2 hover:ring-primary/40",
+                    entry.coverage !== "covered" && "border-2 border-dashed border-red-400",
+                    selectedCapabilityId === entry.capabilityId && "ring-2 ring-primary",
+                  )}
+                >
+                  <div className="font-medium leading-tight">{entry.name}</div>
+                  <div className="mt-1 text-[10px] text-gray-700">
+                    {entry.modelCount} model{entry.modelCount === 1 ? "" : "s"} · {entry.systemCount} system
+                    {entry.systemCount === 1 ? "" : "s"}
+                  </div>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <div className="space-y-1 text-xs">
+                  <p className="font-semibold">{entry.name} ({entry.code})</p>
+                  <p>{coverageLabels[entry.coverage]}</p>
+                  <p>Readiness: {entry.averageReadiness ?? "–"} / 5</p>
+                  <p>Business value: {entry.averageBusinessValue ?? "–"} / 5</p>
+                  <p>Highest risk: {entry.highestRisk ?? "–"}</p>
+                  {entry.minimumSlaHours != null && <p>Tightest SLA: {entry.minimumSlaHours}h</p>}
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[11px] text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm border-2 border-dashed border-red-400" />
+          No authoritative model
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm bg-gray-100 border" />
+          No model linked
+        </span>
+        {metric === "readiness" ? (
+          <span>Red (1) → green (5) average readiness</span>
+        ) : (
+          <span>Green (low) → red (critical) highest risk</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -32,8 +32,14 @@ import {
   Wand2,
   Server
 } from "lucide-react";
+import AttributeDataProfile from "@/components/AttributeDataProfile";
+import ActivityFeed from "@/components/ActivityFeed";
+import ConflictResolutionDialog, { type ConflictField } from "@/components/modals/ConflictResolutionDialog";
+import { VersionConflictError, ifMatchHeader, throwIfVersionConflict } from "@/lib/concurrency";
 import { useModelerStore } from "@/store/modelerStore";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { newRequestId, recordCommand, requestIdHeaders } from "@/hooks/useCommandHistory";
 import type { DataObject, Attribute } from "@shared/schema";
 
 interface EnhancedPropertiesPanelProps {
@@ -58,6 +64,34 @@ interface AttributeFormData {
   description: string;
 }
 
+type EditConflict =
+  | { kind: "object"; mine: ObjectFormData; theirs: Record<string, any>; version: string | null }
+  | { kind: "attribute"; id: number; mine: AttributeFormData; theirs: Record<string, any>; version: string | null };
+
+interface ObjectFormData {
+  name: string;
+  description: string;
+  objectType: string;
+  domainId: number | null;
+  dataAreaId: number | null;
+  sourceSystemId: number | null;
+  targetSystemId: number | null;
+}
+
+const attributeConflictFields: ConflictField[] = [
+  { key: "name", label: "Name" },
+  { key: "conceptualType", label: "Conceptual type" },
+  { key: "logicalType", label: "Logical type" },
+  { key: "physicalType", label: "Physical type" },
+  { key: "length", label: "Length" },
+  { key: "precision", label: "Precision" },
+  { key: "scale", label: "Scale" },
+  { key: "nullable", label: "Nullable" },
+  { key: "isPrimaryKey", label: "Primary key" },
+  { key: "isForeignKey", label: "Foreign key" },
+  { key: "description", label: "Description" },
+];
+
 const dataTypes = {
   conceptual: [
     "Text", "Number", "Date", "Boolean", "Currency", "Percentage", 
@@ -74,12 +108,18 @@ const dataTypes = {
 };
 
 export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false, onToggleCollapse, onSaveCanvas, canvasSaveStatus = 'idle' }: EnhancedPropertiesPanelProps) {
-  const { selectedObjectId, requireModelBeforeAction } = useModelerStore();
+  const { selectedObjectId, requireModelBeforeAction, getCurrentLayerModel } = useModelerStore();
+  const layerId = getCurrentLayerModel()?.id;
   const [activeTab, setActiveTab] = useState("properties");
   const [isAddingAttribute, setIsAddingAttribute] = useState(false);
   const [editingAttributeId, setEditingAttributeId] = useState<number | null>(null);
+  // updatedAt of the attribute when editing started, sent as If-Match
+  const [editingAttributeVersion, setEditingAttributeVersion] = useState<string | null>(null);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(["basic", "domain", "system", "attributes"]));
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEditModels = can("models:edit");
+  const canViewAudit = can("audit:view");
   const queryClient = useQueryClient();
 
 
@@ -238,6 +278,8 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
     enabled: !!selectedObjectId
   });
 
+  const primaryKeyCount = attributes.filter((attribute: Attribute) => attribute.isPrimaryKey).length;
+
   // Fetch domains for LOV
   const { data: domains = [] } = useQuery({
     queryKey: ["/api/domains"],
@@ -267,15 +309,17 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
 
   // State for editing object properties
   const [isEditingObject, setIsEditingObject] = useState(false);
-  const [objectForm, setObjectForm] = useState({
+  const [objectForm, setObjectForm] = useState<ObjectFormData>({
     name: "",
     description: "",
     objectType: "entity",
-    domainId: null as number | null,
-    dataAreaId: null as number | null,
-    sourceSystemId: null as number | null,
-    targetSystemId: null as number | null,
+    domainId: null,
+    dataAreaId: null,
+    sourceSystemId: null,
+    targetSystemId: null,
   });
+  // Set when a save was rejected because someone else saved the same row first
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
 
   // Update object form when selectedObject changes
   useEffect(() => {
@@ -294,13 +338,16 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
 
   // Update object mutation
   const updateObjectMutation = useMutation({
-    mutationFn: async (data: typeof objectForm) => {
+    mutationFn: async ({ data, version }: { data: ObjectFormData; version: string | null }) => {
+      const requestId = newRequestId();
       const response = await fetch(`/api/objects/${selectedObjectId}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...ifMatchHeader(version), ...requestIdHeaders(requestId) },
         body: JSON.stringify(data)
       });
+      await throwIfVersionConflict(response);
       if (!response.ok) throw new Error("Failed to update object");
+      recordCommand(layerId, { action: "object_updated", label: `Updated ${data.name}`, requestIds: [requestId] });
       return response.json();
     },
     onSuccess: () => {
@@ -308,11 +355,16 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
         title: "Success",
         description: "Object updated successfully"
       });
+      setConflict(null);
       setIsEditingObject(false);
       queryClient.invalidateQueries({ queryKey: ["/api/objects", selectedObjectId] });
       queryClient.invalidateQueries({ queryKey: ["/api/models"] });
     },
-    onError: () => {
+    onError: (error, variables) => {
+      if (error instanceof VersionConflictError) {
+        setConflict({ kind: "object", mine: variables.data, theirs: error.current, version: error.currentVersion });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update object",
@@ -322,7 +374,7 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
   });
 
   const handleSaveObject = () => {
-    updateObjectMutation.mutate(objectForm);
+    updateObjectMutation.mutate({ data: objectForm, version: selectedObject?.updatedAt ?? null });
   };
 
   const handleCancelEdit = () => {
@@ -343,9 +395,10 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
   // Add attribute mutation
   const addAttributeMutation = useMutation({
     mutationFn: async (data: AttributeFormData) => {
+      const requestId = newRequestId();
       const response = await fetch(`/api/objects/${selectedObjectId}/attributes`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...requestIdHeaders(requestId) },
         body: JSON.stringify({
           ...data,
           objectId: selectedObjectId,
@@ -353,6 +406,7 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
         })
       });
       if (!response.ok) throw new Error("Failed to add attribute");
+      recordCommand(layerId, { action: "attribute_added", label: `Added attribute ${data.name}`, requestIds: [requestId] });
       return response.json();
     },
     onSuccess: () => {
@@ -368,21 +422,29 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
 
   // Update attribute mutation
   const updateAttributeMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<AttributeFormData> }) => {
+    mutationFn: async ({ id, data, version }: { id: number; data: AttributeFormData; version: string | null }) => {
+      const requestId = newRequestId();
       const response = await fetch(`/api/attributes/${id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...ifMatchHeader(version), ...requestIdHeaders(requestId) },
         body: JSON.stringify(data)
       });
+      await throwIfVersionConflict(response);
       if (!response.ok) throw new Error("Failed to update attribute");
+      recordCommand(layerId, { action: "attribute_updated", label: `Updated attribute ${data.name}`, requestIds: [requestId] });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/objects", selectedObjectId, "attributes"] });
+      setConflict(null);
       setEditingAttributeId(null);
       toast({ title: "Attribute updated successfully" });
     },
-    onError: () => {
+    onError: (error, variables) => {
+      if (error instanceof VersionConflictError) {
+        setConflict({ kind: "attribute", id: variables.id, mine: variables.data, theirs: error.current, version: error.currentVersion });
+        return;
+      }
       toast({ title: "Failed to update attribute", variant: "destructive" });
     }
   });
@@ -390,10 +452,14 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
   // Delete attribute mutation
   const deleteAttributeMutation = useMutation({
     mutationFn: async (attributeId: number) => {
+      const requestId = newRequestId();
       const response = await fetch(`/api/attributes/${attributeId}`, {
-        method: "DELETE"
+        method: "DELETE",
+        headers: requestIdHeaders(requestId)
       });
       if (!response.ok) throw new Error("Failed to delete attribute");
+      const name = attributes.find((attribute: any) => attribute.id === attributeId)?.name;
+      recordCommand(layerId, { action: "attribute_deleted", label: name ? `Deleted attribute ${name}` : "Deleted attribute", requestIds: [requestId] });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/objects", selectedObjectId, "attributes"] });
@@ -423,7 +489,8 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
     if (editingAttributeId) {
       updateAttributeMutation.mutate({
         id: editingAttributeId,
-        data: attributeForm
+        data: attributeForm,
+        version: editingAttributeVersion
       });
     } else {
       addAttributeMutation.mutate(attributeForm);
@@ -445,6 +512,7 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
       description: attribute.description || ""
     });
     setEditingAttributeId(attribute.id);
+    setEditingAttributeVersion(attribute.updatedAt ? String(attribute.updatedAt) : null);
     setIsAddingAttribute(true);
   };
 
@@ -454,6 +522,42 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
     setAttributeForm(initialAttributeForm);
   };
 
+  const nameById = (items: { id: number; name: string }[]) => (value: unknown) =>
+    value == null ? "—" : items.find((item) => item.id === value)?.name ?? `#${value}`;
+
+  const objectConflictFields: ConflictField[] = [
+    { key: "name", label: "Name" },
+    { key: "description", label: "Description" },
+    { key: "objectType", label: "Type" },
+    { key: "domainId", label: "Domain", format: nameById(domains) },
+    { key: "dataAreaId", label: "Data area", format: nameById(dataAreas) },
+    { key: "sourceSystemId", label: "Source system", format: nameById(systems) },
+    { key: "targetSystemId", label: "Target system", format: nameById(systems) },
+  ];
+
+  const handleKeepMine = () => {
+    if (!conflict) return;
+    // Expect their version now, so a third change in the meantime is caught again
+    if (conflict.kind === "object") {
+      updateObjectMutation.mutate({ data: conflict.mine, version: conflict.version });
+    } else {
+      updateAttributeMutation.mutate({ id: conflict.id, data: conflict.mine, version: conflict.version });
+    }
+  };
+
+  const handleUseTheirs = () => {
+    if (!conflict) return;
+    if (conflict.kind === "object") {
+      setIsEditingObject(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/objects", selectedObjectId] });
+    } else {
+      handleCancelAttributeEdit();
+      queryClient.invalidateQueries({ queryKey: ["/api/objects", selectedObjectId, "attributes"] });
+    }
+    setConflict(null);
+    toast({ title: "Loaded the saved version", description: "Your unsaved changes were discarded." });
+  };
+
   const handleAddDataObject = () => {
     if (!requireModelBeforeAction("Select a data model before adding a data object.")) {
       return;
@@ -636,13 +740,18 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
 
       <div className="flex-1 min-h-0">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
-          <TabsList className="grid w-full grid-cols-2 px-4 pt-4">
+          <TabsList className="grid w-full grid-cols-3 px-4 pt-4">
             <TabsTrigger value="properties" className="text-xs" data-testid="tab-properties">
               Properties
             </TabsTrigger>
             <TabsTrigger value="attributes" className="text-xs" data-testid="tab-attributes">
               Attributes ({attributes.length})
             </TabsTrigger>
+            {canViewAudit && (
+              <TabsTrigger value="activity" className="text-xs" data-testid="tab-activity">
+                Activity
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="properties" className="flex-1 min-h-0 overflow-hidden px-4 pb-4 pt-2">
@@ -989,6 +1098,10 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
                                 <div>Description: {attribute.description}</div>
                               )}
                             </div>
+                            <AttributeDataProfile
+                              attribute={attribute}
+                              soleKey={attribute.isPrimaryKey === true && primaryKeyCount === 1}
+                            />
                           </div>
                           
                           <div className="flex items-center space-x-1 ml-2">
@@ -996,6 +1109,7 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
                               variant="ghost"
                               size="sm"
                               onClick={() => handleEditAttribute(attribute)}
+                              disabled={!canEditModels}
                               className="h-6 w-6 p-0"
                               data-testid={`button-edit-attribute-${attribute.id}`}
                             >
@@ -1005,6 +1119,7 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
                               variant="ghost"
                               size="sm"
                               onClick={() => deleteAttributeMutation.mutate(attribute.id)}
+                              disabled={!canEditModels || deleteAttributeMutation.isPending}
                               className="h-6 w-6 p-0 text-destructive hover:text-destructive"
                               data-testid={`button-delete-attribute-${attribute.id}`}
                             >
@@ -1025,6 +1140,17 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
               </div>
             </div>
           </TabsContent>
+
+          {canViewAudit && (
+            <TabsContent value="activity" className="flex-1 min-h-0 overflow-hidden px-4 pb-4 pt-2">
+              <div className="h-full min-h-0 pr-3 overflow-y-auto">
+                <ActivityFeed
+                  filter={{ modelObjectId: selectedObjectId ?? undefined }}
+                  enabled={activeTab === "activity" && !!selectedObjectId}
+                />
+              </div>
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -1239,6 +1365,22 @@ export default function EnhancedPropertiesPanel({ onClose, isCollapsed = false,
           </div>
         </DialogContent>
       </Dialog>
+
+      <ConflictResolutionDialog
+        open={conflict !== null}
+        subject={
+          conflict?.kind === "attribute"
+            ? `Attribute ${conflict.theirs.name ?? conflict.mine.name}`
+            : `Object ${conflict?.theirs.name ?? selectedObject?.name ?? ""}`
+        }
+        fields={conflict?.kind === "attribute" ? attributeConflictFields : objectConflictFields}
+        mine={conflict?.mine ?? {}}
+        theirs={conflict?.theirs ?? {}}
+        isSaving={updateObjectMutation.isPending || updateAttributeMutation.isPending}
+        onKeepMine={handleKeepMine}
+        onUseTheirs={handleUseTheirs}
+        onCancel={() => setConflict(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -512,7 +512,7 @@ export function ModelingAgentPanel({ open, onOpenChange }: ModelingAgentPanelPro
                   id="sqlPlatforms"
                   value={formState.sqlPlatforms}
                   onChange={handleInputChange("sqlPlatforms")}
-                  placeholder="Comma separated list (e.g. postgres, mysql)"
+                  placeholder="Comma separated list (postgres, sqlserver, mysql, oracle, snowflake, databricks)"
                 />
               </div>
 
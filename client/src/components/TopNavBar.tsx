@@ -1,8 +1,11 @@
 import React, { useEffect, useState } from "react";
-import { Undo, Redo, ZoomIn, ZoomOut, Maximize, Download, Menu, ArrowLeft, PanelLeftClose, PanelLeftOpen, LogOut, Save } from "lucide-react";
+import { Undo, Redo, ZoomIn, ZoomOut, Maximize, Download, Menu, ArrowLeft, PanelLeftClose, PanelLeftOpen, LogOut, Save, Upload, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useModelerStore } from "@/store/modelerStore";
+import { useCommandHistory } from "@/hooks/useCommandHistory";
 import AddDataModelModal from "@/components/modals/AddDataModelModal";
+import ImportDbmlModal from "@/components/modals/ImportDbmlModal";
+import StarSchemaModal from "@/components/modals/StarSchemaModal";
 import LayerNavigator from "@/components/LayerNavigator";
 
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -19,13 +22,13 @@ export default function TopNavBar({ onSaveCanvas, canvasSaveStatus = 'idle' }: T
   const {
     currentModel,
     setShowExportModal,
-    undo,
-    redo,
-    canUndo,
-    canRedo,
+    getCurrentLayerModel,
   } = useModelerStore();
+  const { undo, redo, canUndo, canRedo } = useCommandHistory(getCurrentLayerModel()?.id);
   
   const [showAddModelModal, setShowAddModelModal] = useState(false);
+  const [showImportDbmlModal, setShowImportDbmlModal] = useState(false);
+  const [showStarSchemaModal, setShowStarSchemaModal] = useState(false);
   const [location, setLocation] = useLocation();
   const isModelerRoute = location.startsWith("/modeler");
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -199,7 +202,7 @@ export default function TopNavBar({ onSaveCanvas, canvasSaveStatus = 'idle' }: T
                 variant="ghost"
                 size="sm"
                 onClick={undo}
-                disabled={!canUndo()}
+                disabled={!canUndo}
                 className="h-9 w-9 p-0"
               >
                 <Undo className="h-4 w-4" />
@@ -216,7 +219,7 @@ export default function TopNavBar({ onSaveCanvas, canvasSaveStatus = 'idle' }: T
                 variant="ghost"
                 size="sm"
                 onClick={redo}
-                disabled={!canRedo()}
+                disabled={!canRedo}
                 className="h-9 w-9 p-0"
               >
                 <Redo className="h-4 w-4" />
@@ -299,6 +302,45 @@ export default function TopNavBar({ onSaveCanvas, canvasSaveStatus = 'idle' }: T
           </Tooltip>
         )}
 
+        {isModelerRoute && currentModel && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => setShowImportDbmlModal(true)}
+                variant="outline"
+                size="sm"
+                className="font-medium touch-target"
+              >
+                <Upload className="w-4 h-4 mr-1 lg:mr-2" />
+                <span className="hidden sm:inline">Import</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Import DBML into a layer of this model</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
+        {isModelerRoute && currentModel && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => setShowStarSchemaModal(true)}
+                variant="outline"
+                size="sm"
+                className="font-medium touch-target"
+                data-testid="button-open-star-schema"
+              >
+                <Sparkles className="w-4 h-4 mr-1 lg:mr-2" />
+                <span className="hidden sm:inline">Star schema</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Generate a star schema from a logical layer</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         {isModelerRoute && (
           <Tooltip>
             <TooltipTrigger asChild>
@@ -350,6 +392,20 @@ export default function TopNavBar({ onSaveCanvas, canvasSaveStatus = 'idle' }: T
             onOpenChange={setShowAddModelModal}
           />
         )}
+
+        {isModelerRoute && (
+          <ImportDbmlModal
+            open={showImportDbmlModal}
+            onOpenChange={setShowImportDbmlModal}
+          />
+        )}
+
+        {isModelerRoute && (
+          <StarSchemaModal
+            open={showStarSchemaModal}
+            onOpenChange={setShowStarSchemaModal}
+          />
+        )}
       </header>
     </TooltipProvider>
   );
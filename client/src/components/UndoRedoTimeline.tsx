@@ -3,55 +3,36 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Undo2, Redo2, History, Clock, Move, Link, Plus, Trash2 } from "lucide-react";
+import { Undo2, Redo2, History, Clock, Move, Link, Plus, Trash2, Pencil, Loader2 } from "lucide-react";
 import { useModelerStore } from "@/store/modelerStore";
-
-interface HistoryEntry {
-  id: string;
-  timestamp: Date;
-  action: 'node_moved' | 'node_added' | 'node_deleted' | 'edge_added' | 'edge_deleted' | 'initial';
-  description: string;
-  nodeCount: number;
-  edgeCount: number;
-  preview?: string;
-}
+import { useCommandHistory } from "@/hooks/useCommandHistory";
 
 export default function UndoRedoTimeline() {
-  const { 
-    history, 
-    historyIndex, 
-    undo, 
-    redo, 
-    canUndo, 
-    canRedo 
-  } = useModelerStore();
-  
+  const layerId = useModelerStore((state) => state.getCurrentLayerModel()?.id);
+  const { commands, appliedCount, undo, redo, canUndo, canRedo, isReplaying, travelTo } = useCommandHistory(layerId);
+
   const [showTimeline, setShowTimeline] = useState(false);
 
   const getActionIcon = (action: string) => {
-    switch (action) {
-      case 'node_moved': return <Move className="h-3 w-3" />;
-      case 'node_added': return <Plus className="h-3 w-3" />;
-      case 'node_deleted': return <Trash2 className="h-3 w-3" />;
-      case 'edge_added': return <Link className="h-3 w-3" />;
-      case 'edge_deleted': return <Trash2 className="h-3 w-3" />;
-      default: return <Clock className="h-3 w-3" />;
-    }
+    if (action.endsWith('_moved') || action === 'layout_applied') return <Move className="h-3 w-3" />;
+    if (action.endsWith('_added') || action.endsWith('_created')) return <Plus className="h-3 w-3" />;
+    if (action.endsWith('_deleted')) return <Trash2 className="h-3 w-3" />;
+    if (action.startsWith('relationship') || action.startsWith('edge')) return <Link className="h-3 w-3" />;
+    if (action.endsWith('_updated')) return <Pencil className="h-3 w-3" />;
+    return <Clock className="h-3 w-3" />;
   };
 
   const getActionColor = (action: string) => {
-    switch (action) {
-      case 'node_moved': return 'bg-blue-100 text-blue-800';
-      case 'node_added': return 'bg-green-100 text-green-800';
-      case 'node_deleted': return 'bg-red-100 text-red-800';
-      case 'edge_added': return 'bg-purple-100 text-purple-800';
-      case 'edge_deleted': return 'bg-orange-100 text-orange-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
+    if (action.endsWith('_moved') || action === 'layout_applied') return 'bg-blue-100 text-blue-800';
+    if (action.endsWith('_added') || action.endsWith('_created')) return 'bg-green-100 text-green-800';
+    if (action.endsWith('_deleted')) return 'bg-red-100 text-red-800';
+    if (action.startsWith('relationship') || action.startsWith('edge')) return 'bg-purple-100 text-purple-800';
+    if (action.endsWith('_updated')) return 'bg-amber-100 text-amber-800';
+    return 'bg-gray-100 text-gray-800';
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  const formatTime = (value: string) => {
+    return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
   };
 
   return (
@@ -82,7 +63,7 @@ export default function UndoRedoTimeline() {
           onClick={() => setShowTimeline(!showTimeline)}
           title="Show/Hide Timeline"
         >
-          <History className="h-4 w-4" />
+          {isReplaying ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
         </Button>
       </div>
 
@@ -94,59 +75,47 @@ export default function UndoRedoTimeline() {
               <History className="h-4 w-4" />
               <span>Change Timeline</span>
               <Badge variant="secondary" className="text-xs">
-                {history.length} changes
+                {commands.length} changes
               </Badge>
             </CardTitle>
           </CardHeader>
           <CardContent className="p-0">
             <ScrollArea className="h-64">
               <div className="p-3 space-y-2">
-                {history.length === 0 ? (
+                {commands.length === 0 ? (
                   <div className="text-center text-sm text-muted-foreground py-4">
                     No changes yet
                   </div>
                 ) : (
-                  history.map((entry, index) => (
+                  commands.map((command, index) => (
                     <div
-                      key={entry.id}
+                      key={command.id}
                       className={`p-2 rounded-md border transition-all cursor-pointer hover:bg-muted ${
-                        index === historyIndex 
-                          ? 'border-primary bg-primary/5' 
-                          : index < historyIndex 
-                            ? 'border-border bg-background opacity-60' 
+                        index === appliedCount - 1
+                          ? 'border-primary bg-primary/5'
+                          : command.status === 'applied'
+                            ? 'border-border bg-background opacity-60'
                             : 'border-border bg-background opacity-40'
                       }`}
-                      onClick={() => {
-                        // Navigate to this history state
-                        const diff = index - historyIndex;
-                        if (diff > 0) {
-                          for (let i = 0; i < diff; i++) redo();
-                        } else if (diff < 0) {
-                          for (let i = 0; i < Math.abs(diff); i++) undo();
-                        }
-                      }}
+                      onClick={() => travelTo(command.id)}
+                      data-testid={`history-command-${command.id}`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-2">
-                          <Badge className={`h-5 w-5 rounded-full p-0 flex items-center justify-center ${getActionColor(entry.action)}`}>
-                            {getActionIcon(entry.action)}
+                          <Badge className={`h-5 w-5 rounded-full p-0 flex items-center justify-center ${getActionColor(command.action)}`}>
+                            {getActionIcon(command.action)}
                           </Badge>
                           <div>
-                            <div className="text-xs font-medium">{entry.description}</div>
+                            <div className="text-xs font-medium">{command.label}</div>
                             <div className="text-xs text-muted-foreground">
-                              {formatTime(entry.timestamp)}
+                              {formatTime(command.createdAt)}
                             </div>
                           </div>
                         </div>
-                        <div className="text-xs text-muted-foreground">
-                          {entry.nodeCount}N {entry.edgeCount}E
-                        </div>
+                        {command.status === 'undone' && (
+                          <div className="text-xs text-muted-foreground">undone</div>
+                        )}
                       </div>
-                      {entry.preview && (
-                        <div className="mt-1 text-xs text-muted-foreground bg-muted p-1 rounded">
-                          {entry.preview}
-                        </div>
-                      )}
                     </div>
                   ))
                 )}
@@ -157,4 +126,4 @@ export default function UndoRedoTimeline() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -10,6 +10,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Link2, Database, Zap, Plus, GripVertical, X } from 'lucide-react';
+import { useModelerStore } from '@/store/modelerStore';
+import CommentBadge from '@/components/Canvas/CommentBadge';
 
 interface RelationshipEdgeData {
   relationshipType?: '1:1' | '1:N' | 'N:M';
@@ -197,6 +199,9 @@ function OrthogonalRelationshipEdge({
   const [draggedWaypoint, setDraggedWaypoint] = useState<number | null>(null);
   const [hoveredSegment, setHoveredSegment] = useState<number | null>(null);
   const { setEdges } = useReactFlow();
+  const commentCount = useModelerStore((state) =>
+    data?.relationshipId ? state.commentCounts[`relationship:${data.relationshipId}`] ?? 0 : 0
+  );
   const dragStartPos = useRef<{ x: number; y: number } | null>(null);
   
   // Get viewport transform for coordinate conversion
@@ -503,6 +508,24 @@ function OrthogonalRelationshipEdge({
           );
         })}
       </g>
+
+      {/* Review comments on the relationship */}
+      {(commentCount > 0 || selected) && (
+        <EdgeLabelRenderer>
+          <div
+            className="absolute"
+            style={{ transform: `translate(-50%, -150%) translate(${labelX}px, ${labelY}px)`, pointerEvents: 'all' }}
+          >
+            <CommentBadge
+              targetType="relationship"
+              targetId={data?.relationshipId}
+              count={commentCount}
+              showWhenEmpty={selected}
+              className="border border-border"
+            />
+          </div>
+        </EdgeLabelRenderer>
+      )}
     </>
   );
 }
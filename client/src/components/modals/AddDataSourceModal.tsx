@@ -7,9 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Upload, FileText, Database, Server } from "lucide-react";
+import type { DdlParseIssue } from "@/types/modeler";
 
 export default function AddDataSourceModal() {
   const { showAddSourceModal, setShowAddSourceModal } = useModelerStore();
@@ -24,6 +26,9 @@ export default function AddDataSourceModal() {
     fileType: "csv" as "csv" | "excel" | "parquet" | "sqlite" | "ddl"
   });
   const [uploadFile, setUploadFile] = useState<File | null>(null);
+  // CSV files are always profiled; DDL scripts carry no data
+  const [profileUpload, setProfileUpload] = useState(true);
+  const canProfileUpload = formData.fileType === "excel" || formData.fileType === "parquet" || formData.fileType === "sqlite";
 
   const mutation = useMutation({
     mutationFn: async (data: any) => {
@@ -57,6 +62,9 @@ export default function AddDataSourceModal() {
       // Handle file upload
       const formDataToSend = new FormData();
       formDataToSend.append("file", uploadFile);
+      if (canProfileUpload) {
+        formDataToSend.append("profile", String(profileUpload));
+      }
       
       try {
         const uploadEndpoint = `/api/upload/${formData.fileType}`;
@@ -69,7 +77,17 @@ export default function AddDataSourceModal() {
           throw new Error(`Upload failed: ${uploadResponse.statusText}`);
         }
         
-        const metadata = await uploadResponse.json();
+        const payload = await uploadResponse.json();
+        // DDL uploads also report the statements the parser had to skip
+        const metadata = formData.fileType === "ddl" ? payload.tables : payload;
+        const unparsedStatements: DdlParseIssue[] = formData.fileType === "ddl" ? payload.unparsedStatements ?? [] : [];
+        if (unparsedStatements.length > 0) {
+          const [first] = unparsedStatements;
+          toast({
+            title: `${unparsedStatements.length} statement${unparsedStatements.length === 1 ? "" : "s"} skipped`,
+            description: `Line ${first.line}: ${first.reason}`,
+          });
+        }
         
         // Create data source with metadata
         const dataToSend = {
@@ -78,7 +96,8 @@ export default function AddDataSourceModal() {
           connectionString: null,
           configuration: {
             fileType: formData.fileType,
-            metadata: metadata
+            metadata: metadata,
+            ...(unparsedStatements.length > 0 ? { unparsedStatements } : {}),
           },
         };
         
@@ -205,6 +224,19 @@ export default function AddDataSourceModal() {
                   )}
                 </div>
               </div>
+
+              {canProfileUpload && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="profileUpload"
+                    checked={profileUpload}
+                    onCheckedChange={(checked) => setProfileUpload(checked === true)}
+                  />
+                  <Label htmlFor="profileUpload" className="text-sm font-normal text-muted-foreground">
+                    Profile column data (nulls, distinct values, ranges and formats)
+                  </Label>
+                </div>
+              )}
             </div>
           )}
           
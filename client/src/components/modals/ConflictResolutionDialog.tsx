@@ -0,0 +1,108 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+
+export interface ConflictField {
+  key: string;
+  label: string;
+  format?: (value: unknown) => string;
+}
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  /** What was being saved, e.g. "Object Customer". */
+  subject: string;
+  fields: ConflictField[];
+  mine: Record<string, any>;
+  theirs: Record<string, any>;
+  isSaving?: boolean;
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+  onCancel: () => void;
+}
+
+const formatValue = (field: ConflictField, value: unknown): string => {
+  if (field.format) return field.format(value);
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+// Values compare loosely so an empty form field matches a null column
+const sameValue = (a: unknown, b: unknown) => (a ?? "") === (b ?? "") || String(a ?? "") === String(b ?? "");
+
+export default function ConflictResolutionDialog({
+  open,
+  subject,
+  fields,
+  mine,
+  theirs,
+  isSaving = false,
+  onKeepMine,
+  onUseTheirs,
+  onCancel,
+}: ConflictResolutionDialogProps) {
+  const changed = fields.filter((field) => !sameValue(mine[field.key], theirs[field.key]));
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Someone else changed this first</DialogTitle>
+          <DialogDescription>
+            {subject} was saved by another session after you started editing. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-80 rounded-md border">
+          <table className="w-full text-sm" data-testid="conflict-fields">
+            <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 font-medium">Field</th>
+                <th className="px-3 py-2 font-medium">Mine</th>
+                <th className="px-3 py-2 font-medium">Theirs (saved)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => {
+                const differs = changed.includes(field);
+                return (
+                  <tr key={field.key} className={cn("border-t", differs && "bg-amber-50 dark:bg-amber-950/30")}>
+                    <td className="px-3 py-1.5 font-medium">{field.label}</td>
+                    <td className={cn("px-3 py-1.5", differs && "font-medium")}>{formatValue(field, mine[field.key])}</td>
+                    <td className={cn("px-3 py-1.5", differs && "font-medium")}>{formatValue(field, theirs[field.key])}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </ScrollArea>
+        {changed.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            The fields shown are identical; the other change touched something else on this item.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel} disabled={isSaving}>
+            Keep editing
+          </Button>
+          <Button variant="outline" onClick={onUseTheirs} disabled={isSaving} data-testid="button-conflict-use-theirs">
+            Use theirs
+          </Button>
+          <Button onClick={onKeepMine} disabled={isSaving} data-testid="button-conflict-keep-mine">
+            {isSaving ? "Saving..." : "Overwrite with mine"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useModelerStore } from "@/store/modelerStore";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -10,6 +10,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { DataModelLayer, System } from "@shared/schema";
 import { Download, Settings, FileText, Image, FileImage, Palette } from "lucide-react";
 import { pdfExportService } from "@/services/pdfExportService";
 import { svgExportService } from "@/services/svgExportService";
@@ -23,8 +24,17 @@ export default function ExportModal() {
   const { toast } = useToast();
   
   const [options, setOptions] = useState({
-    format: "json" as "json" | "sql_ddl" | "quicksql" | "png" | "pdf" | "svg" | "pdf_report" | "pdf_diagram" | "csv" | "md" | "yaml" | "excel",
+    format: "json" as "json" | "sql_ddl" | "migration_sql" | "quicksql" | "png" | "pdf" | "svg" | "pdf_report" | "pdf_diagram" | "csv" | "md" | "yaml" | "excel" | "dbt" | "dbml" | "mermaid" | "plantuml" | "json_schema" | "avro" | "protobuf",
     layer: "all" as "all" | "conceptual" | "logical" | "physical",
+    sqlDialect: "generic" as "generic" | "postgres" | "sqlserver" | "mysql" | "oracle" | "snowflake" | "databricks",
+    // "layer:<id>" or "system:<id>" the migration script starts from
+    migrationBaseline: "",
+    allowDrop: false,
+    // Source name the dbt scaffold declares tables under; blank uses the target system
+    dbtSourceName: "",
+    // Namespace and field naming shared by the JSON Schema, Avro and Protobuf contracts
+    contractNamespace: "",
+    contractFieldCase: "preserve" as "preserve" | "camel" | "snake",
     includePrimaryKeys: true,
     includeForeignKeys: true,
     includeConstraints: true,
@@ -47,6 +57,23 @@ export default function ExportModal() {
   const [isExporting, setIsExporting] = useState(false);
   const [showTemplateSelector, setShowTemplateSelector] = useState(false);
 
+  const isMigration = options.format === "migration_sql";
+  const isContract = options.format === "json_schema" || options.format === "avro" || options.format === "protobuf";
+
+  const { data: allModels = [] } = useQuery<DataModelLayer[]>({
+    queryKey: ["/api/models"],
+    enabled: showExportModal && isMigration,
+  });
+
+  const { data: systems = [] } = useQuery<System[]>({
+    queryKey: ["/api/systems"],
+    enabled: showExportModal && isMigration,
+  });
+
+  const baselineLayers = allModels.filter(
+    (model) => model.layer === "physical" && model.id !== currentModel?.id
+  );
+
   const mutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/export", data),
     onSuccess: async (response: Response) => {
@@ -76,6 +103,15 @@ export default function ExportModal() {
       return;
     }
     
+    if (isMigration && !options.migrationBaseline) {
+      toast({
+        title: "Error",
+        description: "Select a baseline layer or system to compare against",
+        variant: "destructive"
+      });
+      return;
+    }
+
     console.log('Starting export...', { 
       model: currentModel.name, 
       format: options.format, 
@@ -92,9 +128,16 @@ export default function ExportModal() {
     } else {
           console.log('Using server-side export...');
           // Handle text-based exports (JSON, SQL, etc.)
+      const [baselineKind, baselineId] = options.migrationBaseline.split(":");
       mutation.mutate({
         modelId: currentModel.id,
-        options
+        options: {
+          ...options,
+          ...(isMigration && {
+            baseLayerId: baselineKind === "layer" ? Number(baselineId) : undefined,
+            baseSystemId: baselineKind === "system" ? Number(baselineId) : undefined,
+          }),
+        }
       });
         }
     } catch (error) {
@@ -397,18 +440,29 @@ export default function ExportModal() {
     }
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
+    if (options.format === "dbt") {
+      await downloadDbtArchive();
+      return;
+    }
+
     const blob = new Blob([exportResult], { type: "text/plain" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     
     let extension: string = options.format;
     if (options.format === "sql_ddl") extension = "sql";
+    else if (options.format === "migration_sql") extension = "sql";
     else if (options.format === "quicksql") extension = "sql";
     else if (options.format === "csv") extension = "csv";
     else if (options.format === "excel") extension = "xlsx";
     else if (options.format === "md") extension = "md";
     else if (options.format === "yaml") extension = "yaml";
+    else if (options.format === "mermaid") extension = "mmd";
+    else if (options.format === "plantuml") extension = "puml";
+    else if (options.format === "json_schema") extension = "schema.json";
+    else if (options.format === "avro") extension = "avsc";
+    else if (options.format === "protobuf") extension = "proto";
     
     a.href = url;
     a.download = `${currentModel?.name || "model"}.${extension}`;
@@ -418,6 +472,29 @@ export default function ExportModal() {
     URL.revokeObjectURL(url);
   };
 
+  // The preview is text; the download is the zipped project from a separate endpoint
+  const downloadDbtArchive = async () => {
+    try {
+      const response = await apiRequest("POST", "/api/export/dbt", { modelId: currentModel?.id, options });
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${currentModel?.name || "model"}_dbt.zip`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to download dbt project: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive"
+      });
+    }
+  };
+
   const resetModal = () => {
     setExportResult("");
     setIsExporting(false);
@@ -514,6 +591,12 @@ export default function ExportModal() {
                       SQL DDL
                     </div>
                   </SelectItem>
+                  <SelectItem value="migration_sql">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      SQL Migration (ALTER + Rollback)
+                    </div>
+                  </SelectItem>
                   <SelectItem value="quicksql">
                     <div className="flex items-center">
                       <FileText className="w-4 h-4 mr-2" />
@@ -562,6 +645,48 @@ export default function ExportModal() {
                       YAML Data
                     </div>
                   </SelectItem>
+                  <SelectItem value="dbt">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      dbt Project (zip)
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="dbml">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      DBML (dbdiagram.io)
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="mermaid">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      Mermaid ER Diagram
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="plantuml">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      PlantUML Entities
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="json_schema">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      JSON Schema
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="avro">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      Avro Schema
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="protobuf">
+                    <div className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      Protobuf (proto3)
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
 
@@ -569,6 +694,98 @@ export default function ExportModal() {
             {/* Hide text-based options for image formats */}
             {!["png", "pdf", "svg"].includes(options.format) && (
               <>
+                {(options.format === "sql_ddl" || isMigration) && (
+                  <div>
+                    <Label htmlFor="sqlDialect">SQL Dialect</Label>
+                    <Select value={options.sqlDialect} onValueChange={(value: any) => setOptions({ ...options, sqlDialect: value })}>
+                      <SelectTrigger id="sqlDialect">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="generic">Generic SQL</SelectItem>
+                        <SelectItem value="postgres">PostgreSQL</SelectItem>
+                        <SelectItem value="sqlserver">SQL Server</SelectItem>
+                        <SelectItem value="mysql">MySQL</SelectItem>
+                        <SelectItem value="oracle">Oracle</SelectItem>
+                        <SelectItem value="snowflake">Snowflake</SelectItem>
+                        <SelectItem value="databricks">Databricks (Delta)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {options.format === "dbt" && (
+                  <div>
+                    <Label htmlFor="dbtSourceName">Source Name</Label>
+                    <Input
+                      id="dbtSourceName"
+                      value={options.dbtSourceName}
+                      onChange={(e) => setOptions({ ...options, dbtSourceName: e.target.value })}
+                      placeholder="Defaults to the target system name"
+                    />
+                  </div>
+                )}
+
+                {isContract && (
+                  <>
+                    <div>
+                      <Label htmlFor="contractNamespace">Namespace</Label>
+                      <Input
+                        id="contractNamespace"
+                        value={options.contractNamespace}
+                        onChange={(e) => setOptions({ ...options, contractNamespace: e.target.value })}
+                        placeholder="e.g. com.acme.sales (defaults to the model name)"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="contractFieldCase">Field Names</Label>
+                      <Select value={options.contractFieldCase} onValueChange={(value: any) => setOptions({ ...options, contractFieldCase: value })}>
+                        <SelectTrigger id="contractFieldCase">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="preserve">As modeled</SelectItem>
+                          <SelectItem value="camel">camelCase</SelectItem>
+                          <SelectItem value="snake">snake_case</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
+                {isMigration && (
+                  <>
+                    <div>
+                      <Label htmlFor="migrationBaseline">Compare Against</Label>
+                      <Select value={options.migrationBaseline} onValueChange={(value) => setOptions({ ...options, migrationBaseline: value })}>
+                        <SelectTrigger id="migrationBaseline">
+                          <SelectValue placeholder="Select baseline layer or system" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {baselineLayers.map((layer) => (
+                            <SelectItem key={`layer:${layer.id}`} value={`layer:${layer.id}`}>
+                              Layer: {layer.name}
+                            </SelectItem>
+                          ))}
+                          {systems.map((system) => (
+                            <SelectItem key={`system:${system.id}`} value={`system:${system.id}`}>
+                              Live system: {system.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="allowDrop"
+                        checked={options.allowDrop}
+                        onCheckedChange={(checked) => setOptions({ ...options, allowDrop: !!checked })}
+                      />
+                      <Label htmlFor="allowDrop">Include DROP statements</Label>
+                    </div>
+                  </>
+                )}
+
                 <div>
                   <Label htmlFor="layer">Layer</Label>
                   <Select value={options.layer} onValueChange={(value: any) => setOptions({ ...options, layer: value })}>
@@ -788,7 +1005,7 @@ export default function ExportModal() {
               </Button>
               <Button onClick={handleDownload}>
                 <Download className="h-4 w-4 mr-2" />
-                Download
+                {options.format === "dbt" ? "Download zip" : "Download"}
               </Button>
             </div>
           </div>
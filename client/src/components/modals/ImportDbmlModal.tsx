@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useModelerStore } from "@/store/modelerStore";
+import type { DataModelLayer } from "@shared/schema";
+
+interface ImportDbmlModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DbmlImportResponse {
+  objectsCreated: number;
+  attributesCreated: number;
+  relationshipsCreated: number;
+  issues: { line: number; reason: string }[];
+  warnings: string[];
+}
+
+const MODELING_LAYERS = ["conceptual", "logical", "physical"];
+
+export default function ImportDbmlModal({ open, onOpenChange }: ImportDbmlModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentModel, getCurrentLayerModel } = useModelerStore();
+  const [dbml, setDbml] = useState("");
+  const [layerId, setLayerId] = useState("");
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const { data: allLayers = [] } = useQuery<DataModelLayer[]>({
+    queryKey: ["/api/models"],
+    enabled: open,
+  });
+
+  // Layers of the open model, so the import lands next to what is on the canvas
+  const currentLayerId = getCurrentLayerModel()?.id ?? currentModel?.id;
+  const family = allLayers.find((layer) => layer.id === currentLayerId)?.dataModelId;
+  const layers = allLayers.filter((layer) => layer.dataModelId === family && MODELING_LAYERS.includes(layer.layer));
+
+  useEffect(() => {
+    if (open && !layerId && currentLayerId) setLayerId(String(currentLayerId));
+  }, [open, layerId, currentLayerId]);
+
+  const close = () => {
+    setDbml("");
+    setLayerId("");
+    setMessages([]);
+    onOpenChange(false);
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) setDbml(await file.text());
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<DbmlImportResponse> => {
+      const response = await apiRequest("POST", `/api/models/${layerId}/import/dbml`, { dbml });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+
+      toast({
+        title: "DBML imported",
+        description: `${result.objectsCreated} table${result.objectsCreated === 1 ? "" : "s"} and ${
+          result.relationshipsCreated
+        } relationship${result.relationshipsCreated === 1 ? "" : "s"} added.`,
+      });
+
+      const notes = [...result.issues.map((issue) => `Line ${issue.line}: ${issue.reason}`), ...result.warnings];
+      // Keep the dialog open when there is something to read
+      if (notes.length > 0) {
+        setMessages(notes);
+      } else {
+        close();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "DBML import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import DBML</DialogTitle>
+          <DialogDescription>
+            Adds the tables, columns and refs of a DBML document to a layer of this model. Tables that already exist in
+            the layer are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Layer</Label>
+            <Select value={layerId} onValueChange={setLayerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a layer" />
+              </SelectTrigger>
+              <SelectContent>
+                {layers.map((layer) => (
+                  <SelectItem key={layer.id} value={String(layer.id)}>
+                    {layer.name} ({layer.layer})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dbml-file">DBML file</Label>
+            <Input
+              id="dbml-file"
+              type="file"
+              accept=".dbml,.txt,text/plain"
+              onChange={(event) => loadFile(event.target.files?.[0])}
+              data-testid="input-dbml-file"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dbml-text">Or paste DBML</Label>
+            <Textarea
+              id="dbml-text"
+              value={dbml}
+              onChange={(event) => setDbml(event.target.value)}
+              placeholder={"Table users {\n  id integer [pk]\n}"}
+              className="h-64 font-mono text-xs"
+              data-testid="input-dbml-text"
+            />
+          </div>
+
+          {messages.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800" data-testid="dbml-import-warnings">
+              <div className="mb-1 font-medium">Imported with {messages.length} warning{messages.length === 1 ? "" : "s"}</div>
+              <ul className="list-disc space-y-0.5 pl-4">
+                {messages.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {messages.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={!dbml.trim() || !layerId || mutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-import-dbml"
+          >
+            <FileCode className="h-4 w-4" />
+            {mutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileJson } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useModelerStore } from "@/store/modelerStore";
+import type { DataModel, System } from "@shared/schema";
+
+interface ImportDbtModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DbtImportResponse {
+  model: { conceptual: DataModel };
+  projectName: string;
+  objectsCreated: number;
+  objectsUpdated: number;
+  relationshipsCreated: number;
+  warnings: string[];
+}
+
+const NO_TARGET = "none";
+
+export default function ImportDbtModal({ open, onOpenChange }: ImportDbtModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { setCurrentModel } = useModelerStore();
+  const [name, setName] = useState("");
+  const [targetSystemId, setTargetSystemId] = useState(NO_TARGET);
+  const [includePackages, setIncludePackages] = useState(false);
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [catalog, setCatalog] = useState<File | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const { data: systems = [] } = useQuery<System[]>({
+    queryKey: ["/api/systems"],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setName("");
+    setTargetSystemId(NO_TARGET);
+    setIncludePackages(false);
+    setManifest(null);
+    setCatalog(null);
+    setWarnings([]);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const mutation = useMutation({
+    mutationFn: async (): Promise<DbtImportResponse> => {
+      const body = new FormData();
+      body.append("manifest", manifest!);
+      if (catalog) body.append("catalog", catalog);
+      if (name.trim()) body.append("name", name.trim());
+      if (targetSystemId !== NO_TARGET) body.append("targetSystemId", targetSystemId);
+      body.append("includePackages", String(includePackages));
+
+      const response = await fetch("/api/models/import/dbt", { method: "POST", body });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || response.statusText);
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/objects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/domains"] });
+      setCurrentModel(result.model.conceptual);
+
+      const objectCount = result.objectsCreated + result.objectsUpdated;
+      toast({
+        title: `Imported ${result.projectName}`,
+        description: `${objectCount} object${objectCount === 1 ? "" : "s"} and ${result.relationshipsCreated} relationship${
+          result.relationshipsCreated === 1 ? "" : "s"
+        } from dbt.`,
+      });
+
+      // Keep the dialog open when there is something to read
+      if (result.warnings.length > 0) {
+        setWarnings(result.warnings);
+      } else {
+        close();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "dbt import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import dbt project</DialogTitle>
+          <DialogDescription>
+            Creates a model with all layers from <code>manifest.json</code>. Add <code>catalog.json</code> from{" "}
+            <code>dbt docs generate</code> to bring in column types.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="dbt-manifest">Manifest (required)</Label>
+            <Input
+              id="dbt-manifest"
+              type="file"
+              accept=".json,application/json"
+              onChange={(event) => setManifest(event.target.files?.[0] ?? null)}
+              data-testid="input-dbt-manifest"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dbt-catalog">Catalog (optional)</Label>
+            <Input
+              id="dbt-catalog"
+              type="file"
+              accept=".json,application/json"
+              onChange={(event) => setCatalog(event.target.files?.[0] ?? null)}
+              data-testid="input-dbt-catalog"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dbt-model-name">Model name</Label>
+            <Input
+              id="dbt-model-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Defaults to the dbt project name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Target system</Label>
+            <Select value={targetSystemId} onValueChange={setTargetSystemId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TARGET}>None</SelectItem>
+                {systems.map((system) => (
+                  <SelectItem key={system.id} value={String(system.id)}>
+                    {system.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="dbt-include-packages"
+              checked={includePackages}
+              onCheckedChange={(checked) => setIncludePackages(checked === true)}
+            />
+            <Label htmlFor="dbt-include-packages" className="font-normal">
+              Include models from installed packages
+            </Label>
+          </div>
+
+          {warnings.length > 0 && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800" data-testid="dbt-import-warnings">
+              <div className="mb-1 font-medium">Imported with {warnings.length} warning{warnings.length === 1 ? "" : "s"}</div>
+              <ul className="list-disc space-y-0.5 pl-4">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {warnings.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button
+            onClick={() => mutation.mutate()}
+            disabled={!manifest || mutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-import-dbt"
+          >
+            <FileJson className="h-4 w-4" />
+            {mutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
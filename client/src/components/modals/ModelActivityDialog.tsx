@@ -0,0 +1,26 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ActivityFeed from "@/components/ActivityFeed";
+
+interface ModelActivityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Model family id; activity covers every layer, object, attribute and relationship in it. */
+  dataModelId: number;
+  modelName: string;
+}
+
+export default function ModelActivityDialog({ open, onOpenChange, dataModelId, modelName }: ModelActivityDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Activity · {modelName}</DialogTitle>
+          <DialogDescription>Who created, changed or deleted parts of this model, newest first.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto pr-3">
+          <ActivityFeed filter={{ dataModelId }} enabled={open} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, ArrowRight, CheckCircle2, Clock, Loader2, Send, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { cn } from "@/lib/utils";
+import type { LifecycleAssignment, LifecyclePhase, ModelLifecycleState } from "@/types/lifecycle";
+
+export const LIFECYCLE_MODELS_KEY = ["/api/lifecycle/models"];
+const LIFECYCLE_PHASES_KEY = ["/api/lifecycle/phases"];
+
+const STATUS_LABELS: Record<string, string> = {
+  in_progress: "In progress",
+  in_review: "Awaiting approval",
+  completed: "Completed",
+  returned: "Returned",
+};
+
+const APPROVAL_STYLES: Record<string, string> = {
+  approved: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30",
+  pending: "bg-amber-500/10 text-amber-600 border-amber-500/30",
+  rejected: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+export function lifecycleStatusLabel(status: string | null | undefined): string {
+  return (status && STATUS_LABELS[status]) || "Not started";
+}
+
+export function LifecycleApprovalBadge({ assignment }: { assignment: LifecycleAssignment }) {
+  if (!assignment.phase?.requiresApproval || !assignment.approvalStatus) {
+    return null;
+  }
+  return (
+    <Badge variant="outline" className={cn("text-[11px] capitalize", APPROVAL_STYLES[assignment.approvalStatus])}>
+      {assignment.approvalStatus === "pending" ? "Approval pending" : assignment.approvalStatus}
+    </Badge>
+  );
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? fallbackMessage);
+  }
+  return (await response.json()) as T;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+interface ModelLifecycleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Any layer of the model; lifecycle progress is shared by the whole model family. */
+  modelId: number;
+  modelName: string;
+}
+
+export default function ModelLifecycleDialog({ open, onOpenChange, modelId, modelName }: ModelLifecycleDialogProps) {
+  const { can, user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState("");
+
+  const lifecycleKey = [`/api/models/${modelId}/lifecycle`];
+  const canEdit = can("models:edit");
+  const canApprove = can("models:approve");
+
+  const { data: phases = [] } = useQuery<LifecyclePhase[]>({
+    queryKey: LIFECYCLE_PHASES_KEY,
+    enabled: open,
+  });
+
+  const { data: lifecycle, isLoading } = useQuery<ModelLifecycleState>({
+    queryKey: lifecycleKey,
+    enabled: open,
+  });
+
+  const lifecycleMutation = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body: Record<string, unknown> }) =>
+      await requestJson<ModelLifecycleState>(
+        `/api/models/${modelId}/lifecycle/${path}`,
+        { method: "POST", body: JSON.stringify({ ...body, notes: notes.trim() || null }) },
+        "Failed to update lifecycle",
+      ),
+    onSuccess: (state) => {
+      setNotes("");
+      queryClient.setQueryData(lifecycleKey, state);
+      queryClient.invalidateQueries({ queryKey: LIFECYCLE_MODELS_KEY });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Lifecycle update failed",
+        description: error?.message ?? "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = lifecycle?.current ?? null;
+  const nextPhase = lifecycle?.nextPhase ?? null;
+  const awaitingDecision = current?.status === "in_review";
+  const requestedByMe = current?.approvalRequestedBy != null && current.approvalRequestedBy === user?.id;
+  const canRequestApproval =
+    Boolean(current?.phase?.requiresApproval) && !awaitingDecision && current?.approvalStatus !== "approved";
+  const busy = lifecycleMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lifecycle · {modelName}</DialogTitle>
+          <DialogDescription>
+            Move the model through governance phases. Phases that require approval must be signed off by a steward before the model can advance.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !lifecycle ? (
+          <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading lifecycle…
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ol className="flex flex-wrap items-center gap-2">
+              {phases.map((phase, index) => {
+                const isCurrent = current?.phaseId === phase.id;
+                const isDone = lifecycle.history.some(
+                  (assignment) => assignment.phaseId === phase.id && assignment.status === "completed",
+                );
+                return (
+                  <li key={phase.id} className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "text-xs",
+                        isCurrent && "border-primary bg-primary/10 text-primary",
+                        !isCurrent && isDone && "bg-emerald-500/10 text-emerald-600 border-emerald-500/30",
+                      )}
+                    >
+                      {phase.name}
+                    </Badge>
+                    {index < phases.length - 1 && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+                  </li>
+                );
+              })}
+            </ol>
+
+            {current ? (
+              <div className="rounded-lg border border-border/60 p-4 space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{current.phase?.name ?? `Phase ${current.phaseId}`}</span>
+                  <Badge variant="secondary" className="text-[11px]">{lifecycleStatusLabel(current.status)}</Badge>
+                  <LifecycleApprovalBadge assignment={current} />
+                  {current.isOverdue && (
+                    <Badge variant="outline" className="text-[11px] bg-destructive/10 text-destructive border-destructive/30">
+                      Review overdue
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                  <span>Started {formatDate(current.startedAt)}</span>
+                  <span className={cn("flex items-center gap-1", current.isOverdue && "text-destructive")}>
+                    <Clock className="h-3 w-3" />
+                    Review by {formatDate(current.nextReviewAt)}
+                  </span>
+                  {current.approvedBy && <span>Approved by {current.approvedBy}</span>}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This model has not entered the lifecycle yet.</p>
+            )}
+
+            {lifecycle.blockedReason && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{lifecycle.blockedReason}</AlertDescription>
+              </Alert>
+            )}
+
+            {(canEdit || canApprove) && (
+              <div className="space-y-2">
+                <Label htmlFor="lifecycle-notes">Notes</Label>
+                <Textarea
+                  id="lifecycle-notes"
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                  placeholder="Optional context for reviewers"
+                  rows={2}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {canEdit && canRequestApproval && (
+                <Button
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => lifecycleMutation.mutate({ path: "approval-request", body: {} })}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  Request approval
+                </Button>
+              )}
+              {canApprove && awaitingDecision && !requestedByMe && (
+                <>
+                  <Button
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => lifecycleMutation.mutate({ path: "approval", body: { decision: "rejected" } })}
+                  >
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Reject
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    disabled={busy}
+                    onClick={() => lifecycleMutation.mutate({ path: "approval", body: { decision: "approved" } })}
+                  >
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Approve
+                  </Button>
+                </>
+              )}
+              {canEdit && nextPhase && (
+                <Button
+                  disabled={busy || Boolean(lifecycle.blockedReason)}
+                  onClick={() => lifecycleMutation.mutate({ path: "transition", body: {} })}
+                >
+                  {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+                  {current ? `Advance to ${nextPhase.name}` : `Start in ${nextPhase.name}`}
+                </Button>
+              )}
+            </div>
+
+            {lifecycle.history.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-foreground/80">History</div>
+                <ScrollArea className="max-h-48 rounded-md border border-border/60">
+                  <ul className="divide-y divide-border/60 text-xs">
+                    {[...lifecycle.history].reverse().map((assignment) => (
+                      <li key={assignment.id} className="space-y-1 p-3">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium text-foreground">{assignment.phase?.name ?? `Phase ${assignment.phaseId}`}</span>
+                          <span className="text-muted-foreground">{lifecycleStatusLabel(assignment.status)}</span>
+                          <LifecycleApprovalBadge assignment={assignment} />
+                          <span className="ml-auto text-muted-foreground">
+                            {formatDate(assignment.startedAt)} – {formatDate(assignment.completedAt)}
+                          </span>
+                        </div>
+                        {assignment.notes && (
+                          <p className="whitespace-pre-line text-muted-foreground">{assignment.notes}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Sparkles } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useModelerStore } from "@/store/modelerStore";
+import type { DataModelLayer } from "@shared/schema";
+
+interface StarSchemaModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type StarRole = "fact" | "dimension" | "exclude";
+
+interface StarColumn {
+  name: string;
+  physicalType: string;
+  nullable: boolean;
+  role: string;
+}
+
+interface StarTable {
+  name: string;
+  role: "fact" | "dimension";
+  sourceObjectId: number;
+  sourceName: string;
+  reason: string;
+  columns: StarColumn[];
+}
+
+interface StarSchemaPreview {
+  tables: StarTable[];
+  relationships: { factTable: string; column: string; dimensionTable: string; dimensionColumn: string }[];
+  warnings: string[];
+}
+
+interface StarSchemaCreateResponse {
+  layer: DataModelLayer;
+  objectsCreated: number;
+  relationshipsCreated: number;
+}
+
+const COLUMN_ROLE_LABELS: Record<string, string> = {
+  surrogate_key: "SK",
+  business_key: "BK",
+  dimension_key: "FK",
+  degenerate: "DD",
+  measure: "measure",
+  scd: "SCD2",
+};
+
+export default function StarSchemaModal({ open, onOpenChange }: StarSchemaModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentModel, getCurrentLayerModel } = useModelerStore();
+  const [layerId, setLayerId] = useState("");
+  const [name, setName] = useState("");
+  const [scdType2, setScdType2] = useState(true);
+  const [roles, setRoles] = useState<Record<number, StarRole>>({});
+  // Objects seen in any preview, so excluded ones can be brought back
+  const [sourceNames, setSourceNames] = useState<Record<number, string>>({});
+
+  const { data: allLayers = [] } = useQuery<DataModelLayer[]>({
+    queryKey: ["/api/models"],
+    enabled: open,
+  });
+
+  const currentLayerId = getCurrentLayerModel()?.id ?? currentModel?.id;
+  const family = allLayers.find((layer) => layer.id === currentLayerId)?.dataModelId;
+  const logicalLayers = allLayers.filter((layer) => layer.dataModelId === family && layer.layer === "logical");
+
+  useEffect(() => {
+    if (open && !layerId && logicalLayers.length > 0) setLayerId(String(logicalLayers[0].id));
+  }, [open, layerId, logicalLayers]);
+
+  const close = () => {
+    setLayerId("");
+    setName("");
+    setScdType2(true);
+    setRoles({});
+    setSourceNames({});
+    onOpenChange(false);
+  };
+
+  const { data: preview, isFetching: isPreviewing, error: previewError } = useQuery<StarSchemaPreview>({
+    queryKey: ["/api/models", layerId, "star-schema/preview", roles, scdType2],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `/api/models/${layerId}/star-schema/preview`, { roles, scdType2 });
+      return response.json();
+    },
+    enabled: open && Boolean(layerId),
+  });
+
+  useEffect(() => {
+    if (!preview) return;
+    setSourceNames((current) => {
+      const next = { ...current };
+      preview.tables.forEach((table) => {
+        next[table.sourceObjectId] = table.sourceName;
+      });
+      return next;
+    });
+  }, [preview]);
+
+  const excluded = Object.keys(roles)
+    .map(Number)
+    .filter((id) => roles[id] === "exclude");
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<StarSchemaCreateResponse> => {
+      const response = await apiRequest("POST", `/api/models/${layerId}/star-schema`, {
+        roles,
+        scdType2,
+        ...(name.trim() ? { name: name.trim() } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      toast({
+        title: "Star schema created",
+        description: `${result.layer.name}: ${result.objectsCreated} table${result.objectsCreated === 1 ? "" : "s"} and ${
+          result.relationshipsCreated
+        } relationship${result.relationshipsCreated === 1 ? "" : "s"}.`,
+      });
+      close();
+    },
+    onError: (error) => {
+      toast({
+        title: "Star schema generation failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setRole = (sourceObjectId: number, role: StarRole) => setRoles((current) => ({ ...current, [sourceObjectId]: role }));
+
+  const roleSelect = (sourceObjectId: number, value: StarRole) => (
+    <Select value={value} onValueChange={(next) => setRole(sourceObjectId, next as StarRole)}>
+      <SelectTrigger className="h-7 w-32 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="fact">Fact</SelectItem>
+        <SelectItem value="dimension">Dimension</SelectItem>
+        <SelectItem value="exclude">Exclude</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate star schema</DialogTitle>
+          <DialogDescription>
+            Proposes fact and dimension tables from the relationships and numeric attributes of a logical layer, and
+            creates them as a new physical layer. The logical layer is not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Logical layer</Label>
+              <Select
+                value={layerId}
+                onValueChange={(value) => {
+                  setLayerId(value);
+                  setRoles({});
+                  setSourceNames({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a logical layer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {logicalLayers.map((layer) => (
+                    <SelectItem key={layer.id} value={String(layer.id)}>
+                      {layer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="star-schema-name">New physical layer name</Label>
+              <Input
+                id="star-schema-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Defaults to “<layer> (star schema)”"
+                data-testid="input-star-schema-name"
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="star-schema-scd2" checked={scdType2} onCheckedChange={(checked) => setScdType2(checked === true)} />
+            <label htmlFor="star-schema-scd2" className="text-sm text-muted-foreground">
+              Track dimension history (SCD type 2: valid_from, valid_to, is_current)
+            </label>
+          </div>
+
+          <ScrollArea className="h-80 rounded-md border">
+            <div className="space-y-3 p-3" data-testid="star-schema-preview">
+              {previewError ? (
+                <p className="text-sm text-destructive">{(previewError as Error).message}</p>
+              ) : !preview ? (
+                <p className="text-sm text-muted-foreground">{isPreviewing ? "Building preview..." : "Select a logical layer."}</p>
+              ) : (
+                preview.tables.map((table) => (
+                  <div key={table.name} className="rounded-md border p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="font-mono text-sm font-medium">{table.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          from {table.sourceName} · {table.reason}
+                        </div>
+                      </div>
+                      {roleSelect(table.sourceObjectId, table.role)}
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {table.columns.map((column) => (
+                        <Badge key={column.name} variant="outline" className="font-mono text-[11px] font-normal">
+                          {column.name} {column.physicalType}
+                          {COLUMN_ROLE_LABELS[column.role] ? ` · ${COLUMN_ROLE_LABELS[column.role]}` : ""}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+              {excluded.map((id) => (
+                <div key={id} className="flex items-center justify-between rounded-md border border-dashed p-2 text-sm text-muted-foreground">
+                  <span>{sourceNames[id] ?? `Object ${id}`} (excluded)</span>
+                  {roleSelect(id, "exclude")}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {preview && preview.warnings.length > 0 && (
+            <ul className="list-disc space-y-0.5 rounded-md border border-amber-200 bg-amber-50 p-3 pl-7 text-xs text-amber-800">
+              {preview.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!preview || preview.tables.length === 0 || isPreviewing || createMutation.isPending}
+            className="flex items-center gap-2"
+            data-testid="button-create-star-schema"
+          >
+            <Sparkles className="h-4 w-4" />
+            {createMutation.isPending ? "Creating..." : "Create physical layer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,10 +7,12 @@ import { useModelerStore } from "@/store/modelerStore";
 import { CanvasNode } from "@/types/modeler";
 import { getSystemColor, getNewItemColor, getSystemHeaderColor, getSystemBorderColor, getDomainColor, getAreaColor } from "@/utils/colorUtils";
 import { useIsMobile } from "@/hooks/use-mobile";
+import CommentBadge from "@/components/Canvas/CommentBadge";
 
 function DataObjectNode({ data, selected }: NodeProps<CanvasNode["data"]>) {
   const { currentLayer, selectNode, selectAttribute, selectedAttributeId } = useModelerStore();
   const isMobile = useIsMobile();
+  const commentCounts = useModelerStore((state) => state.commentCounts);
   
   // DEBUG: Log what data the node receives
   React.useEffect(() => {
@@ -274,6 +276,12 @@ function DataObjectNode({ data, selected }: NodeProps<CanvasNode["data"]>) {
             {isNewObject && <Sparkles className="w-3 h-3 text-white" />}
           </div>
           <div className="flex items-center space-x-2">
+            <CommentBadge
+              targetType="object"
+              targetId={data.modelObjectId}
+              count={commentCounts[`object:${data.modelObjectId}`] ?? 0}
+              showWhenEmpty={selected}
+            />
             {primarySystem && (
               <Badge variant="secondary" className="text-xs bg-white/30 text-white border-white/40">
                 {primarySystem}
@@ -385,11 +393,19 @@ function DataObjectNode({ data, selected }: NodeProps<CanvasNode["data"]>) {
                     {attr.name}
                   </span>
                 </div>
-                {getTypeDisplayName(attr) && (
-                  <span className="text-muted-foreground text-xs">
-                    {getTypeDisplayName(attr)}
-                  </span>
-                )}
+                <div className="flex items-center gap-1.5">
+                  <CommentBadge
+                    targetType="attribute"
+                    targetId={attr.id}
+                    count={commentCounts[`attribute:${attr.id}`] ?? 0}
+                    showWhenEmpty={selectedAttributeId === attr.id}
+                  />
+                  {getTypeDisplayName(attr) && (
+                    <span className="text-muted-foreground text-xs">
+                      {getTypeDisplayName(attr)}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
           );
@@ -1,10 +1,13 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
 import type { ReactNode } from "react";
-import { clearAuthToken, getAuthToken, setAuthToken } from "@/lib/authToken";
+import type { Permission } from "@shared/permissions";
+import { clearAuthToken, getAuthToken, setAuthToken, setRefreshToken } from "@/lib/authToken";
+import { SESSION_EXPIRED_EVENT, SESSION_REFRESHED_EVENT } from "@/lib/fetchWithAuth";
 import {
   fetchProfile,
   login as loginRequest,
   logout as logoutRequest,
+  logoutAllDevices as logoutAllDevicesRequest,
   registerAccount,
   type AuthProfileResponse,
   type AuthResponse,
@@ -17,11 +20,16 @@ interface AuthContextValue {
   user: AuthResponse["user"] | null;
   organization: AuthResponse["organization"] | null;
   roles: string[];
+  permissions: Permission[];
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** Whether the signed-in user's roles grant `permission`. The server enforces the same rules. */
+  can: (permission: Permission) => boolean;
   login: (payload: LoginPayload) => Promise<void>;
   register: (payload: RegisterPayload) => Promise<void>;
   logout: () => Promise<void>;
+  /** Revoke every session of the user, then sign out locally. */
+  logoutAllDevices: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
 
@@ -30,6 +38,7 @@ interface AuthState {
   user: AuthResponse["user"] | null;
   organization: AuthResponse["organization"] | null;
   roles: string[];
+  permissions: Permission[];
   isLoading: boolean;
 }
 
@@ -40,14 +49,16 @@ const initialState: AuthState = {
   user: null,
   organization: null,
   roles: [],
+  permissions: [],
   isLoading: true,
 };
 
-function mapProfile(response: AuthProfileResponse): Pick<AuthState, "user" | "organization" | "roles"> {
+function mapProfile(response: AuthProfileResponse): Pick<AuthState, "user" | "organization" | "roles" | "permissions"> {
   return {
     user: response.user,
     organization: response.organization,
     roles: response.roles ?? [],
+    permissions: response.permissions ?? [],
   };
 }
 
@@ -78,13 +89,33 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
     void initialize();
   }, []);
 
+  // fetchWithAuth renews the access token in the background; keep roles in step and sign out when it gives up
+  useEffect(() => {
+    const handleRefreshed = (event: Event) => {
+      const response = (event as CustomEvent<AuthResponse>).detail;
+      setState((prev) => ({ ...prev, token: response.token, ...mapProfile(response) }));
+    };
+    const handleExpired = () => {
+      setState({ ...initialState, isLoading: false });
+    };
+
+    window.addEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => {
+      window.removeEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    };
+  }, []);
+
   const applyAuthResponse = (response: AuthResponse) => {
     setAuthToken(response.token);
+    setRefreshToken(response.refreshToken);
     setState({
       token: response.token,
       user: response.user,
       organization: response.organization,
       roles: response.roles ?? [],
+      permissions: response.permissions ?? [],
       isLoading: false,
     });
   };
@@ -111,10 +142,17 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
       user: null,
       organization: null,
       roles: [],
+      permissions: [],
       isLoading: false,
     });
   };
 
+  const logoutAllDevices = async () => {
+    await logoutAllDevicesRequest();
+    clearAuthToken();
+    setState({ ...initialState, isLoading: false });
+  };
+
   const refreshProfile = async () => {
     const existingToken = getAuthToken();
     if (!existingToken) {
@@ -135,13 +173,16 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
     user: state.user,
     organization: state.organization,
     roles: state.roles,
+    permissions: state.permissions,
     isAuthenticated: Boolean(state.token && state.user && state.organization),
     isLoading: state.isLoading,
+    can: (permission: Permission) => state.permissions.includes(permission),
     login,
     register,
     logout,
+    logoutAllDevices,
     refreshProfile,
-  }), [state.token, state.user, state.organization, state.roles, state.isLoading]);
+  }), [state.token, state.user, state.organization, state.roles, state.permissions, state.isLoading]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
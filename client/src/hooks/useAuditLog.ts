@@ -0,0 +1,47 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import type { AuditLogFilter, AuditLogPage } from "@/types/audit";
+
+const PAGE_SIZE = 25;
+
+export const auditLogKey = (filter: AuditLogFilter) => ["/api/audit-log", filter];
+
+async function fetchAuditPage(filter: AuditLogFilter, page: number): Promise<AuditLogPage> {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  const response = await fetch(`/api/audit-log?${params.toString()}`, { credentials: "include" });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? "Failed to load activity");
+  }
+  return (await response.json()) as AuditLogPage;
+}
+
+/** Audit log entries matching `filter`, newest first, loaded a page at a time. */
+export function useAuditLog(filter: AuditLogFilter, enabled = true) {
+  const query = useInfiniteQuery({
+    queryKey: auditLogKey(filter),
+    queryFn: ({ pageParam }) => fetchAuditPage(filter, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.meta.hasMore ? lastPage.meta.page + 1 : undefined),
+    enabled,
+    // Every save adds entries; reload whenever the activity view is shown again
+    staleTime: 0,
+  });
+
+  const entries = query.data?.pages.flatMap((page) => page.entries) ?? [];
+  const total = query.data?.pages[0]?.total ?? 0;
+
+  return {
+    entries,
+    total,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+  };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import type { CollaborationChange, CollaborationPeer, CollaborationPoint } from "@shared/collaboration";
+import { collaborationClient } from "@/lib/collaboration";
+
+const sendCursor = (cursor: CollaborationPoint | null) => collaborationClient.sendCursor(cursor);
+const sendSelection = (nodeIds: string[]) => collaborationClient.sendSelection(nodeIds);
+
+/**
+ * Join the collaboration room for a model layer while the component is
+ * mounted. Returns the other sessions on the layer; changes the server
+ * announces for it are handed to `onRemoteChange`.
+ */
+export function useCollaboration(layerId: number | null | undefined, onRemoteChange: (change: CollaborationChange) => void) {
+  const [peers, setPeers] = useState<CollaborationPeer[]>([]);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    if (!layerId) return;
+
+    const unsubscribe = collaborationClient.subscribe((message) => {
+      switch (message.type) {
+        case "welcome":
+          setPeers(message.layerId === layerId ? message.peers : []);
+          break;
+        case "peer.joined":
+          setPeers((current) => [...current.filter((peer) => peer.clientId !== message.peer.clientId), message.peer]);
+          break;
+        case "peer.left":
+          setPeers((current) => current.filter((peer) => peer.clientId !== message.clientId));
+          break;
+        case "cursor":
+          setPeers((current) =>
+            current.map((peer) => (peer.clientId === message.clientId ? { ...peer, cursor: message.cursor } : peer)),
+          );
+          break;
+        case "selection":
+          setPeers((current) =>
+            current.map((peer) => (peer.clientId === message.clientId ? { ...peer, selection: message.nodeIds } : peer)),
+          );
+          break;
+        case "change":
+          onRemoteChangeRef.current(message.change);
+          break;
+        case "error":
+          console.warn("[COLLAB]", message.message);
+          break;
+      }
+    });
+    collaborationClient.join(layerId);
+
+    return () => {
+      unsubscribe();
+      collaborationClient.leave(layerId);
+      setPeers([]);
+    };
+  }, [layerId]);
+
+  return { peers, sendCursor, sendSelection };
+}
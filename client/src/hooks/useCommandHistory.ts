@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryClient as appQueryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { HistoryCommand, RecordCommandInput } from "@/types/history";
+
+export const historyKey = (layerId: number | undefined) => ["/api/models", layerId, "history"];
+
+/** Id to send as X-Request-Id on a write, so the server can file it under the command recorded afterwards. */
+export function newRequestId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `req-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export const requestIdHeaders = (requestId: string): Record<string, string> => ({ "X-Request-Id": requestId });
+
+/**
+ * Record a finished action as one undoable command. Failing to record only
+ * costs the undo step, so errors are logged rather than surfaced.
+ */
+export async function recordCommand(layerId: number | null | undefined, input: RecordCommandInput): Promise<void> {
+  if (!layerId) {
+    return;
+  }
+  try {
+    const response = await fetch(`/api/models/${layerId}/history`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ requestIds: [], positions: [], ...input }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to record history: ${response.status}`);
+    }
+    await appQueryClient.invalidateQueries({ queryKey: historyKey(layerId) });
+  } catch (error) {
+    console.warn("[HISTORY] Could not record command", input.action, error);
+  }
+}
+
+async function replay(layerId: number, direction: "undo" | "redo"): Promise<HistoryCommand> {
+  const response = await fetch(`/api/models/${layerId}/history/${direction}`, { method: "POST" });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? `Failed to ${direction}`);
+  }
+  return (await response.json()) as HistoryCommand;
+}
+
+/**
+ * The signed-in user's undo/redo timeline for a layer, kept on the server so it
+ * survives reloads. Undo and redo revert or reapply the persisted changes.
+ */
+export function useCommandHistory(layerId: number | null | undefined) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const activeLayerId = layerId ?? undefined;
+
+  const { data: commands = [], isLoading } = useQuery<HistoryCommand[]>({
+    queryKey: historyKey(activeLayerId),
+    enabled: !!activeLayerId,
+  });
+
+  const onReplayed = async () => {
+    // Replayed writes change objects, attributes and relationships shown all over the layer
+    await queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/objects"] });
+  };
+
+  const onReplayFailed = (error: Error, direction: "undo" | "redo") => {
+    toast({
+      title: direction === "undo" ? "Could not undo" : "Could not redo",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const undoMutation = useMutation({
+    mutationFn: () => replay(activeLayerId!, "undo"),
+    onSuccess: onReplayed,
+    onError: (error: Error) => onReplayFailed(error, "undo"),
+  });
+
+  const redoMutation = useMutation({
+    mutationFn: () => replay(activeLayerId!, "redo"),
+    onSuccess: onReplayed,
+    onError: (error: Error) => onReplayFailed(error, "redo"),
+  });
+
+  const appliedCount = commands.filter((command) => command.status === "applied").length;
+  const isReplaying = undoMutation.isPending || redoMutation.isPending;
+  const canUndo = !!activeLayerId && appliedCount > 0 && !isReplaying;
+  const canRedo = !!activeLayerId && appliedCount < commands.length && !isReplaying;
+
+  const undo = () => {
+    if (canUndo) {
+      undoMutation.mutate();
+    }
+  };
+
+  const redo = () => {
+    if (canRedo) {
+      redoMutation.mutate();
+    }
+  };
+
+  /** Undo or redo step by step until `commandId` is the latest applied command. */
+  const travelTo = async (commandId: number) => {
+    const target = commands.findIndex((command) => command.id === commandId);
+    if (target < 0 || isReplaying) {
+      return;
+    }
+    try {
+      for (let index = appliedCount - 1; index > target; index--) {
+        await undoMutation.mutateAsync();
+      }
+      for (let index = appliedCount; index <= target; index++) {
+        await redoMutation.mutateAsync();
+      }
+    } catch {
+      // Already reported by the mutation
+    }
+  };
+
+  return { commands, isLoading, appliedCount, canUndo, canRedo, isReplaying, undo, redo, travelTo };
+}
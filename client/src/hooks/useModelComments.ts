@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { CommentTargetType, CommentThreadStatus } from "@shared/comments";
+import type { CommentThread } from "@/types/comments";
+
+export const commentThreadsKey = (layerId: number | undefined) => ["/api/models", layerId, "comments"];
+
+async function sendJson<T>(url: string, method: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? fallbackMessage);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Review threads of a layer (open and resolved), the number of open threads per
+ * commented item, and the mutations to start, answer and resolve threads.
+ */
+export function useModelComments(layerId: number | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = commentThreadsKey(layerId);
+
+  const { data: threads = [], isLoading } = useQuery<CommentThread[]>({
+    queryKey,
+    enabled: !!layerId,
+    // Other reviewers add threads too; refresh when the canvas or panel mounts again
+    staleTime: 30_000,
+  });
+
+  const openCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    threads.forEach((thread) => {
+      if (thread.status === "open") {
+        counts[thread.targetKey] = (counts[thread.targetKey] ?? 0) + 1;
+      }
+    });
+    return counts;
+  }, [threads]);
+
+  // Answers carry the whole thread back, so the cache is patched instead of refetched
+  const storeThread = (thread: CommentThread) => {
+    queryClient.setQueryData<CommentThread[]>(queryKey, (current = []) => {
+      const others = current.filter((entry) => entry.id !== thread.id);
+      return [thread, ...others];
+    });
+  };
+
+  const createThread = useMutation({
+    mutationFn: async (input: { targetType: CommentTargetType; targetId: number | null; body: string }) =>
+      await sendJson<CommentThread>(`/api/models/${layerId}/comments`, "POST", input, "Failed to add comment"),
+    onSuccess: storeThread,
+  });
+
+  const reply = useMutation({
+    mutationFn: async ({ threadId, body }: { threadId: number; body: string }) =>
+      await sendJson<CommentThread>(`/api/comments/threads/${threadId}/replies`, "POST", { body }, "Failed to reply"),
+    onSuccess: storeThread,
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({ threadId, status }: { threadId: number; status: CommentThreadStatus }) =>
+      await sendJson<CommentThread>(`/api/comments/threads/${threadId}`, "PATCH", { status }, "Failed to update thread"),
+    onSuccess: storeThread,
+  });
+
+  return { threads, isLoading, openCounts, createThread, reply, setStatus };
+}
+
+/** Ask the canvas to open the review panel on one item; nodes and edges use this from inside React Flow. */
+export function openCommentsFor(targetType: CommentTargetType, targetId: number | null) {
+  window.dispatchEvent(new CustomEvent("open-comments", { detail: { targetType, targetId } }));
+}
@@ -1,4 +1,5 @@
 const STORAGE_KEY = "auth.token";
+const REFRESH_STORAGE_KEY = "auth.refreshToken";
 
 let inMemoryToken: string | null = null;
 
@@ -14,6 +15,12 @@ export function getAuthToken(): string | null {
   return stored;
 }
 
+/** Drop the cached access token so the next read picks up one stored by another tab. */
+export function reloadAuthToken(): string | null {
+  inMemoryToken = null;
+  return getAuthToken();
+}
+
 export function setAuthToken(token: string | null): void {
   inMemoryToken = token;
   if (typeof window === "undefined") {
@@ -26,6 +33,26 @@ export function setAuthToken(token: string | null): void {
   }
 }
 
+// Read from storage every time so tabs pick up tokens rotated by another tab
+export function getRefreshToken(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return window.localStorage.getItem(REFRESH_STORAGE_KEY);
+}
+
+export function setRefreshToken(token: string | null): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  if (token) {
+    window.localStorage.setItem(REFRESH_STORAGE_KEY, token);
+  } else {
+    window.localStorage.removeItem(REFRESH_STORAGE_KEY);
+  }
+}
+
 export function clearAuthToken(): void {
   setAuthToken(null);
+  setRefreshToken(null);
 }
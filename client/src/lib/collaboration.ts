@@ -0,0 +1,126 @@
+import {
+  COLLABORATION_PATH,
+  type CollaborationClientMessage,
+  type CollaborationPoint,
+  type CollaborationServerMessage,
+} from "@shared/collaboration";
+import { getAuthToken } from "./authToken";
+
+type Listener = (message: CollaborationServerMessage) => void;
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * One WebSocket per tab, shared by every canvas component. The socket is only
+ * open while a layer is joined, and reconnects (re-joining the layer) with
+ * backoff when the connection drops.
+ */
+class CollaborationClient {
+  private socket: WebSocket | null = null;
+  private layerId: number | null = null;
+  private currentClientId: string | null = null;
+  private listeners = new Set<Listener>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  join(layerId: number): void {
+    if (this.layerId === layerId) return;
+    this.layerId = layerId;
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.send({ type: "join", layerId });
+    } else {
+      this.connect();
+    }
+  }
+
+  leave(layerId: number): void {
+    if (this.layerId !== layerId) return;
+    this.layerId = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.currentClientId = null;
+    socket?.close();
+  }
+
+  /** Id the server gave this tab's socket; sent with REST writes so the server does not echo them back. */
+  get clientId(): string | null {
+    return this.currentClientId;
+  }
+
+  sendCursor(cursor: CollaborationPoint | null): void {
+    this.send({ type: "cursor", cursor });
+  }
+
+  sendSelection(nodeIds: string[]): void {
+    this.send({ type: "selection", nodeIds });
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private send(message: CollaborationClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private connect(): void {
+    if (typeof window === "undefined" || this.layerId === null) return;
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) return;
+
+    const token = getAuthToken();
+    if (!token) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(
+      `${protocol}//${window.location.host}${COLLABORATION_PATH}?token=${encodeURIComponent(token)}`,
+    );
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      if (this.layerId !== null) {
+        this.send({ type: "join", layerId: this.layerId });
+      }
+    };
+    socket.onmessage = (event) => {
+      let message: CollaborationServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type === "welcome") {
+        this.currentClientId = message.clientId;
+      }
+      this.listeners.forEach((listener) => listener(message));
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.currentClientId = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.layerId === null || this.reconnectTimer) return;
+    // The access token is read again on reconnect, so a refreshed session picks up where it left off
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts += 1;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+}
+
+export const collaborationClient = new CollaborationClient();
@@ -0,0 +1,32 @@
+/**
+ * Client side of the optimistic concurrency checks on model edits: send the
+ * `updatedAt` of the row being edited as `If-Match`, and turn a 409 response
+ * into a VersionConflictError carrying the row as it is stored now.
+ */
+
+export class VersionConflictError<T = Record<string, any>> extends Error {
+  constructor(
+    message: string,
+    readonly current: T,
+    /** Send this as the expected version to overwrite their change with ours. */
+    readonly currentVersion: string | null,
+  ) {
+    super(message);
+    this.name = "VersionConflictError";
+  }
+}
+
+export function ifMatchHeader(version: string | null | undefined): Record<string, string> {
+  return version ? { "If-Match": `"${version}"` } : {};
+}
+
+/** Throw a VersionConflictError for a 409 with the current row; otherwise leave the response to the caller. */
+export async function throwIfVersionConflict(response: Response): Promise<void> {
+  if (response.status !== 409) {
+    return;
+  }
+  const body = await response.json().catch(() => null);
+  if (body && body.current) {
+    throw new VersionConflictError(body.message ?? "This item was changed by someone else", body.current, body.currentVersion ?? null);
+  }
+}
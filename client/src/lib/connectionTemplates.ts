@@ -260,6 +260,7 @@ const CONNECTION_TEMPLATE_MAP: TemplateMap = {
 		defaults: {
 			type: "api",
 			baseUrl: "",
+			specUrl: "",
 			authType: "apiKey",
 			apiKey: "",
 		},
@@ -270,6 +271,11 @@ const CONNECTION_TEMPLATE_MAP: TemplateMap = {
 				placeholder: "https://api.company.com/v1",
 				required: true,
 			},
+			{
+				key: "specUrl",
+				label: "OpenAPI / JSON Schema URL",
+				placeholder: "https://api.company.com/v1/openapi.json",
+			},
 			{
 				key: "authType",
 				label: "Auth Type",
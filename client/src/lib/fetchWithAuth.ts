@@ -1,9 +1,85 @@
-import { getAuthToken } from "./authToken";
+import {
+  clearAuthToken,
+  getAuthToken,
+  getRefreshToken,
+  reloadAuthToken,
+  setAuthToken,
+  setRefreshToken,
+} from "./authToken";
+import { COLLABORATION_CLIENT_HEADER } from "@shared/collaboration";
+import { collaborationClient } from "./collaboration";
+
+/** Dispatched on `window` with the refresh response after the access token was renewed. */
+export const SESSION_REFRESHED_EVENT = "auth:session-refreshed";
+/** Dispatched on `window` when the session could not be renewed and the user must sign in again. */
+export const SESSION_EXPIRED_EVENT = "auth:session-expired";
+
+// Requests that must not trigger a refresh-and-retry on 401
+const AUTH_ENDPOINTS = new Set(["/api/auth/login", "/api/auth/register", "/api/auth/refresh"]);
+// Web Lock shared by every tab of the app so only one of them spends the refresh token at a time
+const REFRESH_LOCK_NAME = "auth.refresh";
 
 if (typeof window !== "undefined") {
   const originalFetch = window.fetch.bind(window);
 
-  window.fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+  // Concurrent 401s in this tab share one refresh; the Web Lock serializes refreshes across tabs
+  let pendingRefresh: Promise<boolean> | null = null;
+
+  const refreshSession = async (staleRefreshToken: string | null): Promise<boolean> => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+    // Another tab rotated the token while this one waited for the lock
+    if (refreshToken !== staleRefreshToken) {
+      return Boolean(reloadAuthToken());
+    }
+
+    try {
+      const response = await originalFetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        clearAuthToken();
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+        return false;
+      }
+
+      const payload = await response.json();
+      setAuthToken(payload.token);
+      setRefreshToken(payload.refreshToken);
+      window.dispatchEvent(new CustomEvent(SESSION_REFRESHED_EVENT, { detail: payload }));
+      return true;
+    } catch (error) {
+      // Network failure: keep the tokens so a later request can retry the refresh
+      return false;
+    }
+  };
+
+  const refreshAcrossTabs = (staleRefreshToken: string | null): Promise<boolean> => {
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      return refreshSession(staleRefreshToken);
+    }
+    return navigator.locks.request(REFRESH_LOCK_NAME, () => refreshSession(staleRefreshToken));
+  };
+
+  const withAuthHeader = (requestInit: RequestInit): RequestInit => {
+    const token = getAuthToken();
+    if (!token) {
+      return requestInit;
+    }
+    // Merge auth header with existing headers
+    const headers = new Headers(requestInit.headers);
+    headers.set("Authorization", `Bearer ${token}`);
+    if (collaborationClient.clientId) {
+      headers.set(COLLABORATION_CLIENT_HEADER, collaborationClient.clientId);
+    }
+    return { ...requestInit, headers };
+  };
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     // Handle both direct URL and Request object inputs
     let url: string;
     let requestInit: RequestInit = init || {};
@@ -25,17 +101,20 @@ if (typeof window !== "undefined") {
     const requestUrl = new URL(url, window.location.origin);
 
     // Only add auth header for same-origin API requests
-    if (requestUrl.origin === window.location.origin && requestUrl.pathname.startsWith("/api")) {
-      const token = getAuthToken();
-      
-      if (token) {
-        // Merge auth header with existing headers
-        const headers = new Headers(requestInit.headers);
-        headers.set("Authorization", `Bearer ${token}`);
-        requestInit.headers = headers;
-      }
+    if (requestUrl.origin !== window.location.origin || !requestUrl.pathname.startsWith("/api")) {
+      return originalFetch(url, requestInit);
+    }
+
+    const response = await originalFetch(url, withAuthHeader(requestInit));
+    const staleRefreshToken = getRefreshToken();
+    if (response.status !== 401 || AUTH_ENDPOINTS.has(requestUrl.pathname) || !staleRefreshToken) {
+      return response;
     }
 
-    return originalFetch(url, requestInit);
+    pendingRefresh ??= refreshAcrossTabs(staleRefreshToken).finally(() => {
+      pendingRefresh = null;
+    });
+    const refreshed = await pendingRefresh;
+    return refreshed ? originalFetch(url, withAuthHeader(requestInit)) : response;
   };
 }
@@ -12,9 +12,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import ColorConfiguration from "@/components/ColorConfiguration";
 
 export default function ConfigurationPage() {
+  const { can } = useAuth();
+  const canEditCatalog = can("catalog:edit");
+  const canEditConfig = can("config:edit");
   const [selectedTab, setSelectedTab] = useState("systems");
   const [editingDomain, setEditingDomain] = useState<any>(null);
   const [isAddingDomain, setIsAddingDomain] = useState(false);
@@ -331,7 +335,7 @@ export default function ConfigurationPage() {
         <TabsContent value="domains" className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-semibold">Domain Configuration</h2>
-            <Button onClick={() => setIsAddingDomain(true)}>
+            <Button onClick={() => setIsAddingDomain(true)} disabled={!canEditCatalog}>
               <Plus className="h-4 w-4 mr-2" />
               Add Domain
             </Button>
@@ -354,6 +358,7 @@ export default function ConfigurationPage() {
                         variant="ghost" 
                         size="sm"
                         onClick={() => setEditingDomain(domain)}
+                        disabled={!canEditCatalog}
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
@@ -361,6 +366,7 @@ export default function ConfigurationPage() {
                         variant="ghost" 
                         size="sm"
                         onClick={() => handleDeleteDomain(domain.id)}
+                        disabled={!canEditCatalog}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -382,6 +388,7 @@ export default function ConfigurationPage() {
                           setEditingArea(null);
                           setIsAddingArea(true);
                         }}
+                        disabled={!canEditCatalog}
                       >
                         <Plus className="h-4 w-4 mr-2" />
                         Add Area
@@ -412,6 +419,7 @@ export default function ConfigurationPage() {
                                   setEditingArea(area);
                                   setIsAddingArea(true);
                                 }}
+                                disabled={!canEditCatalog}
                                 className="h-8 w-8"
                               >
                                 <Edit className="h-4 w-4" />
@@ -420,6 +428,7 @@ export default function ConfigurationPage() {
                                 variant="ghost"
                                 size="icon"
                                 onClick={() => handleDeleteArea(area.id)}
+                                disabled={!canEditCatalog}
                                 className="h-8 w-8"
                               >
                                 <Trash2 className="h-4 w-4" />
@@ -484,7 +493,7 @@ export default function ConfigurationPage() {
                     autoClassify
                   });
                 }}
-                disabled={savingConfig === "domain-rules"}
+                disabled={savingConfig === "domain-rules" || !canEditConfig}
               >
                 {savingConfig === "domain-rules" ? "Saving..." : "Save Domain Rules"}
               </Button>
@@ -559,7 +568,7 @@ export default function ConfigurationPage() {
                     maxTokens: aiConfig.maxTokens,
                     enabled: aiConfig.enableOpenai
                   })}
-                  disabled={savingConfig === "openai"}
+                  disabled={savingConfig === "openai" || !canEditConfig}
                 >
                   {savingConfig === "openai" ? "Saving..." : "Save OpenAI Settings"}
                 </Button>
@@ -630,7 +639,7 @@ export default function ConfigurationPage() {
                     relationshipSuggestions: aiConfig.relationshipSuggestions,
                     normalizationSuggestions: aiConfig.normalizationSuggestions
                   })}
-                  disabled={savingConfig === "suggestions"}
+                  disabled={savingConfig === "suggestions" || !canEditConfig}
                 >
                   {savingConfig === "suggestions" ? "Saving..." : "Save Suggestion Settings"}
                 </Button>
@@ -701,7 +710,7 @@ export default function ConfigurationPage() {
                   namePatterns: aiConfig.namePatterns,
                   analysisTimeout: aiConfig.analysisTimeout
                 })}
-                disabled={savingConfig === "patterns"}
+                disabled={savingConfig === "patterns" || !canEditConfig}
               >
                 {savingConfig === "patterns" ? "Saving..." : "Save Analysis Patterns"}
               </Button>
@@ -743,7 +752,7 @@ export default function ConfigurationPage() {
                     maxConnections: connectionConfig.maxConnections,
                     timeout: connectionConfig.timeout
                   })}
-                  disabled={savingConfig === "database"}
+                  disabled={savingConfig === "database" || !canEditConfig}
                 >
                   {savingConfig === "database" ? "Saving..." : "Save Connection Settings"}
                 </Button>
@@ -781,7 +790,7 @@ export default function ConfigurationPage() {
                     rateLimit: connectionConfig.rateLimit,
                     retryAttempts: connectionConfig.retryAttempts
                   })}
-                  disabled={savingConfig === "api"}
+                  disabled={savingConfig === "api" || !canEditConfig}
                 >
                   {savingConfig === "api" ? "Saving..." : "Save API Settings"}
                 </Button>
@@ -832,7 +841,7 @@ export default function ConfigurationPage() {
                     miniMap: settingsConfig.miniMap,
                     saveInterval: settingsConfig.saveInterval
                   })}
-                  disabled={savingConfig === "canvas"}
+                  disabled={savingConfig === "canvas" || !canEditConfig}
                 >
                   {savingConfig === "canvas" ? "Saving..." : "Save Canvas Settings"}
                 </Button>
@@ -871,7 +880,7 @@ export default function ConfigurationPage() {
                     aiSuggestions: settingsConfig.aiSuggestions,
                     confidenceThreshold: settingsConfig.confidenceThreshold
                   })}
-                  disabled={savingConfig === "ai"}
+                  disabled={savingConfig === "ai" || !canEditConfig}
                 >
                   {savingConfig === "ai" ? "Saving..." : "Save AI Settings"}
                 </Button>
@@ -1,7 +1,7 @@
 import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, Layers3, Database, MapPin, ArrowRight, RefreshCw, Sparkles } from "lucide-react";
+import { Plus, Layers3, Database, MapPin, ArrowRight, RefreshCw, Sparkles, GitPullRequestArrow, Clock, FileJson, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,10 +10,19 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import TopNavBar from "@/components/TopNavBar";
 import AddDataModelModal from "@/components/modals/AddDataModelModal";
+import ImportDbtModal from "@/components/modals/ImportDbtModal";
+import ModelLifecycleDialog, {
+  LIFECYCLE_MODELS_KEY,
+  LifecycleApprovalBadge,
+  lifecycleStatusLabel,
+} from "@/components/modals/ModelLifecycleDialog";
+import ModelActivityDialog from "@/components/modals/ModelActivityDialog";
 import { ModelingAgentPanel } from "@/components/ModelingAgentPanel";
 import { useModelerStore } from "@/store/modelerStore";
+import { useAuth } from "@/hooks/useAuth";
 import type { DataModel, DataDomain, DataArea, System } from "@shared/schema";
 import type { ModelLayer } from "@/types/modeler";
+import type { ModelLifecycleState } from "@/types/lifecycle";
 
 interface ModelGroup {
   dataModelId: number;
@@ -36,7 +45,11 @@ const fetchJson = async <T,>(url: string): Promise<T> => {
 export default function DataModelsListPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isDbtImportOpen, setIsDbtImportOpen] = useState(false);
   const [isAgentPanelOpen, setIsAgentPanelOpen] = useState(false);
+  const [lifecycleModel, setLifecycleModel] = useState<DataModel | null>(null);
+  const [activityModel, setActivityModel] = useState<{ dataModelId: number; name: string } | null>(null);
+  const { can } = useAuth();
   const [, setLocation] = useLocation();
   const { setCurrentModel } = useModelerStore();
 
@@ -69,6 +82,22 @@ export default function DataModelsListPage() {
     staleTime: 300_000,
   });
 
+  const { data: lifecycles = [] } = useQuery<ModelLifecycleState[]>({
+    queryKey: LIFECYCLE_MODELS_KEY,
+    queryFn: () => fetchJson<ModelLifecycleState[]>("/api/lifecycle/models"),
+    staleTime: 30_000,
+  });
+
+  // Keyed by the parent data model id that all layers of a model share
+  const lifecycleMap = useMemo(() => {
+    return new Map(lifecycles.map((lifecycle) => [lifecycle.modelId, lifecycle]));
+  }, [lifecycles]);
+
+  const overdueCount = useMemo(
+    () => lifecycles.filter((lifecycle) => lifecycle.current?.isOverdue).length,
+    [lifecycles],
+  );
+
   const domainMap = useMemo(() => {
     return new Map(domains.map((domain) => [domain.id, domain.name]));
   }, [domains]);
@@ -223,6 +252,10 @@ export default function DataModelsListPage() {
               Refresh
             </Button>
             <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsDbtImportOpen(true)} className="flex items-center gap-2">
+                <FileJson className="h-4 w-4" />
+                Import dbt
+              </Button>
               <Button variant="secondary" onClick={handleManualCreate} className="flex items-center gap-2">
                 <Plus className="h-4 w-4" />
                 Manual Model
@@ -242,8 +275,16 @@ export default function DataModelsListPage() {
             placeholder="Search by model name, domain, area, or target system"
             className="sm:max-w-sm"
           />
-          <div className="text-sm text-muted-foreground">
-            {filteredGroups.length} model{filteredGroups.length === 1 ? "" : "s"} found
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            {overdueCount > 0 && (
+              <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">
+                <Clock className="mr-1 h-3 w-3" />
+                {overdueCount} review{overdueCount === 1 ? "" : "s"} overdue
+              </Badge>
+            )}
+            <span>
+              {filteredGroups.length} model{filteredGroups.length === 1 ? "" : "s"} found
+            </span>
           </div>
         </div>
 
@@ -316,6 +357,7 @@ export default function DataModelsListPage() {
               }
 
               const conceptualId = conceptual?.id ?? primary.id;
+              const lifecycle = lifecycleMap.get(group.dataModelId)?.current ?? null;
 
               const associatedLayers: Array<{ label: string; layerKey: ModelLayer; model?: DataModel }>
                 = [
@@ -326,7 +368,13 @@ export default function DataModelsListPage() {
                 ];
 
               return (
-                <Card key={`${group.dataModelId}-${primary.id}`} className="relative overflow-hidden border-border/70 hover:shadow-lg transition-shadow duration-200">
+                <Card
+                  key={`${group.dataModelId}-${primary.id}`}
+                  className={cn(
+                    "relative overflow-hidden border-border/70 hover:shadow-lg transition-shadow duration-200",
+                    lifecycle?.isOverdue && "border-destructive/50",
+                  )}
+                >
                   <div className="absolute inset-0 bg-gradient-to-br from-primary/10 via-transparent to-transparent pointer-events-none" />
                   <CardHeader className="relative space-y-3">
                     <div className="flex items-start justify-between gap-4">
@@ -368,6 +416,28 @@ export default function DataModelsListPage() {
                   </CardHeader>
 
                   <CardContent className="relative space-y-4">
+                    <button
+                      type="button"
+                      onClick={() => setLifecycleModel(primary)}
+                      className="flex w-full flex-wrap items-center gap-2 rounded-lg border border-border/60 bg-background/70 px-4 py-3 text-left text-xs transition hover:border-primary/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/40"
+                    >
+                      <GitPullRequestArrow className="h-4 w-4 text-primary" />
+                      {lifecycle ? (
+                        <>
+                          <span className="font-medium text-foreground/90">{lifecycle.phase?.name ?? "Lifecycle"}</span>
+                          <Badge variant="secondary" className="text-[11px]">{lifecycleStatusLabel(lifecycle.status)}</Badge>
+                          <LifecycleApprovalBadge assignment={lifecycle} />
+                          {lifecycle.isOverdue && (
+                            <Badge variant="outline" className="text-[11px] bg-destructive/10 text-destructive border-destructive/30">
+                              Review overdue
+                            </Badge>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Not in lifecycle</span>
+                      )}
+                    </button>
+
                     <div className="rounded-lg border border-border/60 bg-background/70 p-4 space-y-3">
                       <div className="font-medium text-sm text-foreground/80">Associated layers</div>
                       <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
@@ -390,10 +460,24 @@ export default function DataModelsListPage() {
                       <div className="text-xs text-muted-foreground">
                         Updated {new Date(primary.updatedAt).toLocaleString()}
                       </div>
-                      <Button onClick={() => handleViewDetails(primary)} className="flex items-center gap-2">
-                        View details
-                        <ArrowRight className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        {can("audit:view") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setActivityModel({ dataModelId: group.dataModelId, name: primary.name })}
+                            className="flex items-center gap-1.5"
+                            data-testid={`button-model-activity-${group.dataModelId}`}
+                          >
+                            <History className="h-4 w-4" />
+                            Activity
+                          </Button>
+                        )}
+                        <Button onClick={() => handleViewDetails(primary)} className="flex items-center gap-2">
+                          View details
+                          <ArrowRight className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -405,6 +489,23 @@ export default function DataModelsListPage() {
       </div>
 
       <AddDataModelModal open={isAddModalOpen} onOpenChange={setIsAddModalOpen} />
+      <ImportDbtModal open={isDbtImportOpen} onOpenChange={setIsDbtImportOpen} />
+      {lifecycleModel ? (
+        <ModelLifecycleDialog
+          open
+          onOpenChange={(open) => !open && setLifecycleModel(null)}
+          modelId={lifecycleModel.id}
+          modelName={lifecycleModel.name}
+        />
+      ) : null}
+      {activityModel ? (
+        <ModelActivityDialog
+          open
+          onOpenChange={(open) => !open && setActivityModel(null)}
+          dataModelId={activityModel.dataModelId}
+          modelName={activityModel.name}
+        />
+      ) : null}
       {isAgentPanelOpen ? (
         <ModelingAgentPanel open={isAgentPanelOpen} onOpenChange={setIsAgentPanelOpen} />
       ) : null}
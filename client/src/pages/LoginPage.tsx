@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,6 +9,7 @@ import { useAuth } from "@/hooks/useAuth";
 export default function LoginPage(): JSX.Element {
   const { login, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
+  const inviteToken = new URLSearchParams(useSearch()).get("invite") ?? undefined;
   const [identifier, setIdentifier] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -25,7 +26,7 @@ export default function LoginPage(): JSX.Element {
     setError(null);
     setIsSubmitting(true);
     try {
-      await login({ identifier, password });
+      await login({ identifier, password, inviteToken });
       setLocation("/");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unable to login";
@@ -40,7 +41,11 @@ export default function LoginPage(): JSX.Element {
       <Card className="w-full max-w-md shadow-lg">
         <CardHeader>
           <CardTitle className="text-2xl font-semibold">Welcome back</CardTitle>
-          <CardDescription>Sign in to continue modeling your data architecture.</CardDescription>
+          <CardDescription>
+            {inviteToken
+              ? "Sign in with the invited email address to join the organization."
+              : "Sign in to continue modeling your data architecture."}
+          </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit} noValidate>
           <CardContent className="space-y-4">
@@ -79,7 +84,10 @@ export default function LoginPage(): JSX.Element {
             </Button>
             <p className="text-sm text-muted-foreground">
               Need an account?{" "}
-              <Link href="/auth/register" className="font-medium text-primary hover:underline">
+              <Link
+                href={inviteToken ? `/auth/register?invite=${encodeURIComponent(inviteToken)}` : "/auth/register"}
+                className="font-medium text-primary hover:underline"
+              >
                 Create one
               </Link>
               .
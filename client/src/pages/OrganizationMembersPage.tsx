@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, MailPlus, RefreshCw, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Invitation } from "@shared/schema";
+import { DEFAULT_ORGANIZATION_ROLE, organizationRoles, type OrganizationRole } from "@shared/permissions";
+
+interface OrganizationMember {
+  membershipId: number;
+  userId: number;
+  email: string;
+  name: string | null;
+  role: string;
+  isActive: boolean | null;
+  joinedAt: string;
+}
+
+type PendingInvitation = Omit<Invitation, "token" | "expiresAt" | "createdAt" | "updatedAt"> & {
+  expiresAt: string | null;
+  createdAt: string;
+};
+
+interface SentInvitation {
+  invitation: PendingInvitation;
+}
+
+const MEMBERS_KEY = ["/api/organization/members"];
+const INVITATIONS_KEY = ["/api/organization/invitations"];
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message ?? fallbackMessage);
+  }
+  return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "—";
+}
+
+export default function OrganizationMembersPage() {
+  const { user, organization, can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = can("members:manage");
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>(DEFAULT_ORGANIZATION_ROLE);
+
+  const { data: members = [], isLoading: membersLoading } = useQuery<OrganizationMember[]>({
+    queryKey: MEMBERS_KEY,
+  });
+
+  const { data: invitations = [], isLoading: invitationsLoading } = useQuery<PendingInvitation[]>({
+    queryKey: INVITATIONS_KEY,
+    enabled: isAdmin,
+  });
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message ?? "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () =>
+      await requestJson<SentInvitation>(
+        "/api/organization/invitations",
+        { method: "POST", body: JSON.stringify({ email: inviteEmail, role: inviteRole }) },
+        "Failed to send invitation",
+      ),
+    onSuccess: (sent) => {
+      setInviteEmail("");
+      toast({ title: "Invitation sent", description: `${sent.invitation.email} will receive a link to join by email.` });
+    },
+    onError: showError("Failed to send invitation"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_KEY });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (invitationId: number) =>
+      await requestJson<SentInvitation>(
+        `/api/organization/invitations/${invitationId}/resend`,
+        { method: "POST" },
+        "Failed to resend invitation",
+      ),
+    onSuccess: (sent) => {
+      toast({ title: "Invitation resent", description: `A new link was sent to ${sent.invitation.email}.` });
+    },
+    onError: showError("Failed to resend invitation"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_KEY });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: number) =>
+      await requestJson<void>(
+        `/api/organization/invitations/${invitationId}`,
+        { method: "DELETE" },
+        "Failed to revoke invitation",
+      ),
+    onSuccess: () => {
+      toast({ title: "Invitation revoked" });
+    },
+    onError: showError("Failed to revoke invitation"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: INVITATIONS_KEY });
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: OrganizationRole }) =>
+      await requestJson(
+        `/api/organization/members/${userId}`,
+        { method: "PATCH", body: JSON.stringify({ role }) },
+        "Failed to change role",
+      ),
+    onSuccess: () => {
+      toast({ title: "Role updated" });
+    },
+    onError: showError("Failed to change role"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) =>
+      await requestJson<void>(
+        `/api/organization/members/${userId}`,
+        { method: "DELETE" },
+        "Failed to remove member",
+      ),
+    onSuccess: () => {
+      toast({ title: "Member removed" });
+    },
+    onError: showError("Failed to remove member"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+    },
+  });
+
+  const handleInvite = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (inviteEmail.trim()) {
+      inviteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col bg-muted/10">
+      <header className="border-b bg-card/60 px-6 py-6 shadow-sm md:px-10 lg:px-16">
+        <Badge variant="secondary" className="mb-2 w-max">Organization</Badge>
+        <h1 className="text-3xl font-semibold tracking-tight">Members</h1>
+        <p className="mt-2 max-w-3xl text-sm text-muted-foreground">
+          Manage who can access {organization?.name ?? "this organization"} and what they can do.
+        </p>
+      </header>
+
+      <div className="mx-auto flex w-full max-w-5xl flex-1 flex-col gap-8 px-6 py-10 md:px-10 lg:px-16">
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MailPlus className="h-5 w-5" />
+                Invite a teammate
+              </CardTitle>
+              <CardDescription>They receive a link to create an account or sign in and join.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleInvite} className="flex flex-col gap-4 md:flex-row md:items-end">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="inviteEmail">Email</Label>
+                  <Input
+                    id="inviteEmail"
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(event) => setInviteEmail(event.target.value)}
+                    placeholder="teammate@example.com"
+                    disabled={inviteMutation.isPending}
+                  />
+                </div>
+                <div className="space-y-2 md:w-40">
+                  <Label>Role</Label>
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrganizationRole)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {organizationRoles.map((role) => (
+                        <SelectItem key={role} value={role} className="capitalize">
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={inviteMutation.isPending || !inviteEmail.trim()}>
+                  {inviteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send invite
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pending invitations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {invitationsLoading ? (
+                <p className="text-sm text-muted-foreground">Loading invitations...</p>
+              ) : invitations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No pending invitations.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map((invitation) => {
+                      const expired = Boolean(invitation.expiresAt && new Date(invitation.expiresAt) < new Date());
+                      return (
+                        <TableRow key={invitation.id}>
+                          <TableCell>{invitation.email}</TableCell>
+                          <TableCell className="capitalize">{invitation.role}</TableCell>
+                          <TableCell>
+                            {expired ? <Badge variant="destructive">Expired</Badge> : formatDate(invitation.expiresAt)}
+                          </TableCell>
+                          <TableCell className="space-x-2 text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => resendMutation.mutate(invitation.id)}
+                              disabled={resendMutation.isPending}
+                            >
+                              <RefreshCw className="mr-1 h-3 w-3" />
+                              Resend
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive"
+                              onClick={() => revokeMutation.mutate(invitation.id)}
+                              disabled={revokeMutation.isPending}
+                            >
+                              Revoke
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Users className="h-5 w-5" />
+              Members
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {membersLoading ? (
+              <p className="text-sm text-muted-foreground">Loading members...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Joined</TableHead>
+                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => {
+                    const isSelf = member.userId === user?.id;
+                    return (
+                      <TableRow key={member.membershipId}>
+                        <TableCell>
+                          {member.name ?? "—"}
+                          {isSelf && <Badge variant="outline" className="ml-2">You</Badge>}
+                        </TableCell>
+                        <TableCell>{member.email}</TableCell>
+                        <TableCell>
+                          {isAdmin && !isSelf ? (
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) =>
+                                changeRoleMutation.mutate({ userId: member.userId, role: role as OrganizationRole })
+                              }
+                              disabled={changeRoleMutation.isPending}
+                            >
+                              <SelectTrigger className="h-8 w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {organizationRoles.map((role) => (
+                                  <SelectItem key={role} value={role} className="capitalize">
+                                    {role}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="capitalize">{member.role}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatDate(member.joinedAt)}</TableCell>
+                        {isAdmin && (
+                          <TableCell className="text-right">
+                            {!isSelf && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => {
+                                  if (window.confirm(`Remove ${member.email} from ${organization?.name ?? "the organization"}?`)) {
+                                    removeMemberMutation.mutate(member.userId);
+                                  }
+                                }}
+                                disabled={removeMemberMutation.isPending}
+                              >
+                                <Trash2 className="mr-1 h-3 w-3" />
+                                Remove
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
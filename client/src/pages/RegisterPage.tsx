@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -18,6 +18,7 @@ function toSlug(value: string): string {
 export default function RegisterPage(): JSX.Element {
   const { register, isAuthenticated } = useAuth();
   const [, setLocation] = useLocation();
+  const inviteToken = new URLSearchParams(useSearch()).get("invite") ?? undefined;
 
   const [organizationName, setOrganizationName] = useState("");
   const [organizationSlug, setOrganizationSlug] = useState("");
@@ -55,8 +56,9 @@ export default function RegisterPage(): JSX.Element {
     setIsSubmitting(true);
     try {
       await register({
-        organizationName,
-        organizationSlug: organizationSlug || undefined,
+        ...(inviteToken
+          ? { inviteToken }
+          : { organizationName, organizationSlug: organizationSlug || undefined }),
         userName: userName || undefined,
         email,
         password,
@@ -74,37 +76,47 @@ export default function RegisterPage(): JSX.Element {
     <div className="flex min-h-screen items-center justify-center bg-muted/30 px-4 py-12">
       <Card className="w-full max-w-xl shadow-lg">
         <CardHeader>
-          <CardTitle className="text-2xl font-semibold">Create your workspace</CardTitle>
-          <CardDescription>Provision a new tenant and invite your teammates later.</CardDescription>
+          <CardTitle className="text-2xl font-semibold">
+            {inviteToken ? "Accept your invitation" : "Create your workspace"}
+          </CardTitle>
+          <CardDescription>
+            {inviteToken
+              ? "Create an account with the invited email address to join your team."
+              : "Provision a new tenant and invite your teammates later."}
+          </CardDescription>
         </CardHeader>
         <form onSubmit={handleSubmit} noValidate>
           <CardContent className="grid gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="organizationName">Organization name</Label>
-              <Input
-                id="organizationName"
-                value={organizationName}
-                onChange={(event) => setOrganizationName(event.target.value)}
-                placeholder="Acme Corp"
-                required
-                disabled={isSubmitting}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="organizationSlug">Organization slug</Label>
-              <Input
-                id="organizationSlug"
-                value={organizationSlug}
-                onChange={(event) => {
-                  setOrganizationSlug(event.target.value);
-                  setSlugEdited(true);
-                }}
-                onBlur={() => setOrganizationSlug((value) => toSlug(value))}
-                placeholder="acme-corp"
-                required
-                disabled={isSubmitting}
-              />
-            </div>
+            {!inviteToken && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="organizationName">Organization name</Label>
+                  <Input
+                    id="organizationName"
+                    value={organizationName}
+                    onChange={(event) => setOrganizationName(event.target.value)}
+                    placeholder="Acme Corp"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="organizationSlug">Organization slug</Label>
+                  <Input
+                    id="organizationSlug"
+                    value={organizationSlug}
+                    onChange={(event) => {
+                      setOrganizationSlug(event.target.value);
+                      setSlugEdited(true);
+                    }}
+                    onBlur={() => setOrganizationSlug((value) => toSlug(value))}
+                    placeholder="acme-corp"
+                    required
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="userName">Your name</Label>
               <Input
@@ -162,11 +174,16 @@ export default function RegisterPage(): JSX.Element {
           </CardContent>
           <CardFooter className="flex flex-col gap-4">
             <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "Creating workspace..." : "Create workspace"}
+              {isSubmitting
+                ? inviteToken ? "Joining..." : "Creating workspace..."
+                : inviteToken ? "Join organization" : "Create workspace"}
             </Button>
             <p className="text-sm text-muted-foreground">
               Already have an account?{" "}
-              <Link href="/auth/login" className="font-medium text-primary hover:underline">
+              <Link
+                href={inviteToken ? `/auth/login?invite=${encodeURIComponent(inviteToken)}` : "/auth/login"}
+                className="font-medium text-primary hover:underline"
+              >
                 Sign in
               </Link>
               .
@@ -13,8 +13,10 @@ import {
   Repeat,
   Server,
   Trash2,
+  Upload,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -22,6 +24,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
 import { SystemForm, SystemFormValues } from "@/components/SystemForm";
 import { buildSystemRequestBody, mapSystemToFormValues } from "@/lib/systemFormHelpers";
@@ -58,12 +61,35 @@ interface SyncSummary {
   created: number;
   updated: number;
   metadataCount: number;
+  profileMismatches: SyncProfileMismatch[];
+}
+
+interface SyncResponse {
+  metadataCount: number;
+  createdCount: number;
+  updatedCount: number;
+  profileMismatches?: SyncProfileMismatch[];
+}
+
+interface ApiSchemaImportResponse extends SyncResponse {
+  title: string | null;
+  warnings: string[];
+}
+
+interface SyncProfileMismatch {
+  objectName: string;
+  attributeName: string;
+  kind: string;
+  message: string;
 }
 
 export default function SystemsManagementPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const canEditSystems = can("catalog:edit");
+  const canSyncSystems = can("systems:sync");
 
   const [selectedSystemId, setSelectedSystemId] = useState<number | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -75,6 +101,9 @@ export default function SystemsManagementPage() {
   const [syncDomainChoice, setSyncDomainChoice] = useState<string>("inherit");
   const [syncAreaChoice, setSyncAreaChoice] = useState<string>("inherit");
   const [includeAttributes, setIncludeAttributes] = useState(true);
+  const [profileData, setProfileData] = useState(false);
+  const [apiSchemaFile, setApiSchemaFile] = useState<File | null>(null);
+  const [apiSchemaWarnings, setApiSchemaWarnings] = useState<string[]>([]);
 
   const systemsQuery = useQuery<System[]>({
     queryKey: ["/api/systems"],
@@ -139,11 +168,11 @@ export default function SystemsManagementPage() {
   }, [systems, selectedSystemId, isCreating]);
 
   useEffect(() => {
-    if (!systems.length && !isCreating && !systemsQuery.isLoading) {
+    if (!systems.length && !isCreating && !systemsQuery.isLoading && canEditSystems) {
       setIsCreating(true);
       setSelectedSystemId(null);
     }
-  }, [systems, isCreating, systemsQuery.isLoading]);
+  }, [systems, isCreating, systemsQuery.isLoading, canEditSystems]);
 
   useEffect(() => {
     if (models.length && syncModelId === null) {
@@ -156,6 +185,8 @@ export default function SystemsManagementPage() {
       setActiveTab("overview");
       setIsCreating(false);
     }
+    setApiSchemaFile(null);
+    setApiSchemaWarnings([]);
   }, [selectedSystemId]);
 
   useEffect(() => {
@@ -325,62 +356,104 @@ export default function SystemsManagementPage() {
     },
   });
 
+  const buildSyncPayload = () => {
+    const payload: Record<string, unknown> = {
+      modelId: syncModelId,
+      direction: syncDirection,
+      includeAttributes,
+      profileData: includeAttributes && profileData,
+    };
+
+    if (syncDomainChoice === "none") {
+      payload.domainId = null;
+    } else if (syncDomainChoice !== "inherit") {
+      payload.domainId = Number(syncDomainChoice);
+    }
+
+    if (syncAreaChoice === "none") {
+      payload.dataAreaId = null;
+    } else if (syncAreaChoice !== "inherit") {
+      payload.dataAreaId = Number(syncAreaChoice);
+    }
+    return payload;
+  };
+
+  const recordSyncResult = (result: SyncResponse, title: string) => {
+    const profileMismatches = result.profileMismatches ?? [];
+    setLastSyncSummary({
+      metadataCount: result.metadataCount,
+      created: result.createdCount,
+      updated: result.updatedCount,
+      profileMismatches,
+    });
+    toast({
+      title,
+      description:
+        `Processed ${result.metadataCount} objects (${result.createdCount} new, ${result.updatedCount} updated).` +
+        (profileMismatches.length > 0
+          ? ` ${profileMismatches.length} attribute${profileMismatches.length === 1 ? "" : "s"} disagree with the source data.`
+          : ""),
+    });
+    if (selectedSystemId !== null) {
+      queryClient.invalidateQueries({ queryKey: ["/api/systems", selectedSystemId, "objects"] });
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/objects"] });
+  };
+
   const syncObjectsMutation = useMutation({
     mutationFn: async () => {
       if (!selectedSystem || !syncModelId) {
         throw new Error("Select a model before syncing");
       }
-      const payload: Record<string, unknown> = {
-        modelId: syncModelId,
-        direction: syncDirection,
-        includeAttributes,
-      };
-
-      if (syncDomainChoice === "none") {
-        payload.domainId = null;
-      } else if (syncDomainChoice !== "inherit") {
-        payload.domainId = Number(syncDomainChoice);
-      }
-
-      if (syncAreaChoice === "none") {
-        payload.dataAreaId = null;
-      } else if (syncAreaChoice !== "inherit") {
-        payload.dataAreaId = Number(syncAreaChoice);
-      }
 
       const response = await fetch(`/api/systems/${selectedSystem.id}/sync-objects`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(buildSyncPayload()),
       });
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         throw new Error(errorData.message ?? "Failed to sync objects");
       }
-      return (await response.json()) as {
-        metadataCount: number;
-        createdCount: number;
-        updatedCount: number;
-      };
+      return (await response.json()) as SyncResponse;
     },
-    onSuccess: (result) => {
-      setLastSyncSummary({
-        metadataCount: result.metadataCount,
-        created: result.createdCount,
-        updated: result.updatedCount,
-      });
+    onSuccess: (result) => recordSyncResult(result, "Sync complete"),
+    onError: (error: any) => {
       toast({
-        title: "Sync complete",
-        description: `Processed ${result.metadataCount} objects (${result.createdCount} new, ${result.updatedCount} updated).`,
+        title: "Sync failed",
+        description: error?.message ?? "An unexpected error occurred",
+        variant: "destructive",
       });
-      if (selectedSystemId !== null) {
-        queryClient.invalidateQueries({ queryKey: ["/api/systems", selectedSystemId, "objects"] });
+    },
+  });
+
+  const importApiSchemaMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedSystem || !syncModelId || !apiSchemaFile) {
+        throw new Error("Select a model and an OpenAPI or JSON Schema file before importing");
       }
-      queryClient.invalidateQueries({ queryKey: ["/api/objects"] });
+
+      const formData = new FormData();
+      formData.append("file", apiSchemaFile);
+      formData.append("options", JSON.stringify(buildSyncPayload()));
+      const response = await fetch(`/api/systems/${selectedSystem.id}/import/api-schema`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message ?? "Failed to import API schema");
+      }
+      return (await response.json()) as ApiSchemaImportResponse;
+    },
+    onSuccess: (result) => {
+      setApiSchemaWarnings(result.warnings ?? []);
+      recordSyncResult(result, result.title ? `Imported ${result.title}` : "API schema imported");
+      queryClient.invalidateQueries({ queryKey: ["/api/systems"] });
     },
     onError: (error: any) => {
       toast({
-        title: "Sync failed",
+        title: "API schema import failed",
         description: error?.message ?? "An unexpected error occurred",
         variant: "destructive",
       });
@@ -533,10 +606,12 @@ export default function SystemsManagementPage() {
               </p>
             </div>
           </div>
-          <Button onClick={handleStartCreate} variant="outline" className="flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            New System
-          </Button>
+          {canEditSystems && (
+            <Button onClick={handleStartCreate} variant="outline" className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New System
+            </Button>
+          )}
         </div>
       </header>
 
@@ -640,18 +715,20 @@ export default function SystemsManagementPage() {
                       <Badge variant="outline" className="capitalize">
                         {selectedSystem.status || "disconnected"}
                       </Badge>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDeleteSystem(selectedSystem)}
-                        disabled={deleteSystemMutation.isPending}
-                      >
-                        {deleteSystemMutation.isPending ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        )}
-                      </Button>
+                      {canEditSystems && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteSystem(selectedSystem)}
+                          disabled={deleteSystemMutation.isPending}
+                        >
+                          {deleteSystemMutation.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          )}
+                        </Button>
+                      )}
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -659,7 +736,7 @@ export default function SystemsManagementPage() {
                       system={mapSystemToFormValues(selectedSystem)}
                       domains={domains}
                       dataAreas={areas}
-                      mode="edit"
+                      mode={canEditSystems ? "edit" : "view"}
                       onSubmit={(values) => updateSystemMutation.mutate(values)}
                       onCancel={() => {
                         setSelectedSystemId(null);
@@ -679,7 +756,7 @@ export default function SystemsManagementPage() {
                     <CardContent className="space-y-4">
                       <Button
                         onClick={() => testConnectionMutation.mutate()}
-                        disabled={testConnectionMutation.isPending}
+                        disabled={testConnectionMutation.isPending || !canSyncSystems}
                         className="flex items-center gap-2"
                       >
                         {testConnectionMutation.isPending ? (
@@ -825,10 +902,22 @@ export default function SystemsManagementPage() {
                         </label>
                       </div>
 
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="profile-data"
+                          checked={includeAttributes && profileData}
+                          disabled={!includeAttributes}
+                          onCheckedChange={(checked) => setProfileData(checked === true)}
+                        />
+                        <label htmlFor="profile-data" className="text-sm text-muted-foreground">
+                          Profile source data (nulls, distinct values, ranges and formats from sampled rows)
+                        </label>
+                      </div>
+
                       <div className="flex items-center gap-3">
                         <Button
                           onClick={() => syncObjectsMutation.mutate()}
-                          disabled={syncObjectsMutation.isPending || !syncModelId}
+                          disabled={syncObjectsMutation.isPending || !syncModelId || !canSyncSystems}
                           className="flex items-center gap-2"
                         >
                           {syncObjectsMutation.isPending ? (
@@ -845,6 +934,60 @@ export default function SystemsManagementPage() {
                           </div>
                         ) : null}
                       </div>
+
+                      {selectedSystem.type === "api" ? (
+                        <div className="space-y-2 rounded-md border p-3">
+                          <div className="text-sm font-medium">Import API contract</div>
+                          <p className="text-xs text-muted-foreground">
+                            Upload an OpenAPI 3, Swagger 2 or JSON Schema document (JSON or YAML). Its schemas become
+                            objects of this system; without an upload, syncing fetches the configured schema URL.
+                          </p>
+                          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+                            <Input
+                              type="file"
+                              accept=".json,.yaml,.yml,application/json,application/yaml"
+                              onChange={(event) => setApiSchemaFile(event.target.files?.[0] ?? null)}
+                              data-testid="input-api-schema-file"
+                            />
+                            <Button
+                              variant="outline"
+                              onClick={() => importApiSchemaMutation.mutate()}
+                              disabled={
+                                importApiSchemaMutation.isPending || !apiSchemaFile || !syncModelId || !canSyncSystems
+                              }
+                              className="flex items-center gap-2"
+                              data-testid="button-import-api-schema"
+                            >
+                              {importApiSchemaMutation.isPending ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Upload className="h-4 w-4" />
+                              )}
+                              Import contract
+                            </Button>
+                          </div>
+                          {apiSchemaWarnings.length > 0 ? (
+                            <ul className="list-disc space-y-0.5 pl-4 text-xs text-amber-800">
+                              {apiSchemaWarnings.map((warning) => (
+                                <li key={warning}>{warning}</li>
+                              ))}
+                            </ul>
+                          ) : null}
+                        </div>
+                      ) : null}
+
+                      {lastSyncSummary && lastSyncSummary.profileMismatches.length > 0 ? (
+                        <div className="space-y-1 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                          <div className="font-medium">Attributes that disagree with the source data</div>
+                          <ul className="space-y-0.5">
+                            {lastSyncSummary.profileMismatches.map((mismatch) => (
+                              <li key={`${mismatch.objectName}.${mismatch.attributeName}.${mismatch.kind}`}>
+                                {mismatch.objectName}.{mismatch.attributeName}: {mismatch.message}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ) : null}
                     </CardContent>
                   </Card>
                 </div>
@@ -886,7 +1029,7 @@ export default function SystemsManagementPage() {
                           <Button
                             size="sm"
                             onClick={() => syncObjectsMutation.mutate()}
-                            disabled={!syncModelId || syncObjectsMutation.isPending}
+                            disabled={!syncModelId || syncObjectsMutation.isPending || !canSyncSystems}
                             className="flex items-center gap-2"
                           >
                             {syncObjectsMutation.isPending ? (
@@ -961,7 +1104,7 @@ export default function SystemsManagementPage() {
                                     <Select
                                       value={domainValue !== undefined ? String(domainValue) : "none"}
                                       onValueChange={(value) => handleObjectDomainChange(object, value)}
-                                      disabled={updateObjectMutation.isPending}
+                                      disabled={updateObjectMutation.isPending || !canEditSystems}
                                     >
                                       <SelectTrigger>
                                         <SelectValue placeholder="Unassigned" />
@@ -980,7 +1123,7 @@ export default function SystemsManagementPage() {
                                     <Select
                                       value={dataAreaValue !== undefined ? String(dataAreaValue) : "none"}
                                       onValueChange={(value) => handleObjectAreaChange(object, value)}
-                                      disabled={updateObjectMutation.isPending || !object.domainId}
+                                      disabled={updateObjectMutation.isPending || !object.domainId || !canEditSystems}
                                     >
                                       <SelectTrigger>
                                         <SelectValue placeholder="Unassigned" />
@@ -1010,7 +1153,7 @@ export default function SystemsManagementPage() {
                                         if (!confirmed) return;
                                         deleteObjectMutation.mutate(object.id);
                                       }}
-                                      disabled={deleteObjectMutation.isPending}
+                                      disabled={deleteObjectMutation.isPending || !canEditSystems}
                                     >
                                       {deleteObjectMutation.isPending ? (
                                         <Loader2 className="h-4 w-4 animate-spin" />
@@ -1,3 +1,5 @@
+import type { Permission } from "@shared/permissions";
+
 interface AuthUser {
   id: number;
   email: string;
@@ -13,28 +15,35 @@ interface AuthOrganization {
 
 export interface AuthResponse {
   token: string;
+  /** Long-lived token exchanged at /api/auth/refresh for a new access token; rotates on every use. */
+  refreshToken: string;
   user: AuthUser;
   organization: AuthOrganization;
   roles: string[];
+  permissions: Permission[];
 }
 
 export interface AuthProfileResponse {
   user: AuthUser;
   organization: AuthOrganization;
   roles: string[];
+  permissions: Permission[];
 }
 
 export interface LoginPayload {
   identifier: string;
   password: string;
+  inviteToken?: string;
 }
 
 export interface RegisterPayload {
-  organizationName: string;
+  /** Required unless joining an existing organization through `inviteToken`. */
+  organizationName?: string;
   organizationSlug?: string;
   email: string;
   password: string;
   userName?: string;
+  inviteToken?: string;
 }
 
 async function requestJson<T>(input: string, init: RequestInit): Promise<T> {
@@ -87,3 +96,10 @@ export async function fetchProfile(): Promise<AuthProfileResponse> {
 export async function logout(): Promise<void> {
   await fetch("/api/auth/logout", { method: "POST" });
 }
+
+export async function logoutAllDevices(): Promise<void> {
+  const response = await fetch("/api/auth/logout-all", { method: "POST" });
+  if (!response.ok) {
+    throw new Error("Failed to log out all devices");
+  }
+}
@@ -2,18 +2,7 @@ import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
 import { ModelLayer, CanvasNode, CanvasEdge, AISuggestion, DataSourceConnection } from "@/types/modeler";
 import { DataModel, DataObject, Attribute, DataDomain, DataArea } from "@shared/schema";
-
-interface HistoryEntry {
-  id: string;
-  timestamp: Date;
-  action: 'node_moved' | 'node_added' | 'node_deleted' | 'edge_added' | 'edge_deleted' | 'initial';
-  description: string;
-  nodeCount: number;
-  edgeCount: number;
-  preview?: string;
-  nodes: CanvasNode[];
-  edges: CanvasEdge[];
-}
+import { mergeCollaborationChange, type CollaborationChange } from "@shared/collaboration";
 
 const findRootModel = (model: DataModel | null, models: DataModel[]): DataModel | null => {
   if (!model) return null;
@@ -137,10 +126,9 @@ interface ModelerState {
   showExportModal: boolean;
   showAddSourceModal: boolean;
   aiSuggestions: AISuggestion[];
-  
-  // History for undo/redo
-  history: HistoryEntry[];
-  historyIndex: number;
+
+  // Open review threads per commented item, keyed by commentTargetKey ("object:12", "attribute:40", ...)
+  commentCounts: Record<string, number>;
   
   // Clipboard for copy-paste
   copiedNodes: CanvasNode[];
@@ -161,6 +149,8 @@ interface ModelerState {
   addEdge: (edge: CanvasEdge) => void;
   updateEdge: (edgeId: string, updates: Partial<CanvasEdge>) => void;
   deleteEdge: (edgeId: string) => void;
+  /** Merge a change announced by another session on the same layer, without saving or recording history. */
+  applyRemoteChange: (change: CollaborationChange) => void;
   
   // Selection
   selectNode: (nodeId: string | null) => void;
@@ -177,14 +167,7 @@ interface ModelerState {
   setShowExportModal: (show: boolean) => void;
   setShowAddSourceModal: (show: boolean) => void;
   setAISuggestions: (suggestions: AISuggestion[]) => void;
-  
-  // History actions
-  saveToHistory: (action: string, description: string, preview?: string) => void;
-  undo: () => void;
-  redo: () => void;
-  clearHistory: () => void;
-  canUndo: () => boolean;
-  canRedo: () => boolean;
+  setCommentCounts: (counts: Record<string, number>) => void;
   
   // Clipboard actions
   copyNodes: (nodeIds: string[]) => void;
@@ -210,8 +193,7 @@ export const useModelerStore = create<ModelerState>()(
     showExportModal: false,
     showAddSourceModal: false,
     aiSuggestions: [],
-    history: [],
-    historyIndex: -1,
+    commentCounts: {},
     copiedNodes: [],
 
     // Model actions
@@ -342,6 +324,19 @@ export const useModelerStore = create<ModelerState>()(
         selectedEdgeId: state.selectedEdgeId === edgeId ? null : state.selectedEdgeId,
       })),
 
+    applyRemoteChange: (change) =>
+      set((state) => {
+        const merged = mergeCollaborationChange(state.nodes, state.edges, change);
+        return {
+          nodes: merged.nodes,
+          edges: merged.edges,
+          selectedNodeId:
+            change.kind === "node.remove" && state.selectedNodeId === change.nodeId ? null : state.selectedNodeId,
+          selectedEdgeId:
+            change.kind === "edge.remove" && state.selectedEdgeId === change.edgeId ? null : state.selectedEdgeId,
+        };
+      }),
+
     // Selection actions
     selectNode: (nodeId) =>
       set((state) => { 
@@ -374,85 +369,7 @@ export const useModelerStore = create<ModelerState>()(
     setShowExportModal: (show) => set({ showExportModal: show }),
     setShowAddSourceModal: (show) => set({ showAddSourceModal: show }),
     setAISuggestions: (suggestions) => set({ aiSuggestions: suggestions }),
-
-    // History actions
-    saveToHistory: (action, description, preview) =>
-      set((state) => {
-        const historyEntry: HistoryEntry = {
-          id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: new Date(),
-          action: action as any,
-          description,
-          nodeCount: state.nodes.length,
-          edgeCount: state.edges.length,
-          preview,
-          nodes: [...state.nodes],
-          edges: [...state.edges],
-        };
-        
-        // Remove any future history if we're not at the end
-        const newHistory = state.history.slice(0, state.historyIndex + 1);
-        newHistory.push(historyEntry);
-        
-        // Limit history size
-        const maxHistorySize = 50;
-        if (newHistory.length > maxHistorySize) {
-          newHistory.shift();
-        }
-        
-        const newIndex = newHistory.length - 1;
-        
-        return {
-          history: newHistory,
-          historyIndex: newIndex,
-        };
-      }),
-
-    undo: () =>
-      set((state) => {
-        if (state.historyIndex > 0) {
-          const previousState = state.history[state.historyIndex - 1];
-          const newIndex = state.historyIndex - 1;
-          return {
-            nodes: [...previousState.nodes],
-            edges: [...previousState.edges],
-            historyIndex: newIndex,
-          };
-        }
-        return state;
-      }),
-
-    redo: () =>
-      set((state) => {
-        if (state.historyIndex < state.history.length - 1) {
-          const nextState = state.history[state.historyIndex + 1];
-          const newIndex = state.historyIndex + 1;
-          return {
-            nodes: [...nextState.nodes],
-            edges: [...nextState.edges],
-            historyIndex: newIndex,
-          };
-        }
-        return state;
-      }),
-
-    // Clear history when switching models or loading new data
-    clearHistory: () =>
-      set({
-        history: [],
-        historyIndex: -1,
-      }),
-
-    // Computed getters for undo/redo state
-    canUndo: () => {
-      const state = get();
-      return state.historyIndex > 0;
-    },
-
-    canRedo: () => {
-      const state = get();
-      return state.historyIndex < state.history.length - 1;
-    },
+    setCommentCounts: (counts) => set({ commentCounts: counts }),
 
     // Clipboard actions
     copyNodes: (nodeIds) =>
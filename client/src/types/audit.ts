@@ -0,0 +1,35 @@
+import type { AuditAction, AuditEntityType } from "@shared/audit";
+
+export interface AuditLogEntry {
+  id: number;
+  actorUserId: number | null;
+  /** Null for seed scripts, background jobs and users who left the organization. */
+  actorName: string | null;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** Model family the change belongs to, when it belongs to one. */
+  dataModelId: number | null;
+  modelObjectIds: number[];
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  meta: {
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+  };
+}
+
+export interface AuditLogFilter {
+  dataModelId?: number;
+  modelObjectId?: number;
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+}
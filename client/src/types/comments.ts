@@ -0,0 +1,41 @@
+import type { CommentTargetType, CommentThreadStatus } from "@shared/comments";
+
+export interface CommentMention {
+  userId: number;
+  name: string;
+}
+
+export interface ModelCommentEntry {
+  id: number;
+  threadId: number;
+  authorUserId: number | null;
+  authorName: string;
+  body: string;
+  mentions: CommentMention[];
+  createdAt: string;
+}
+
+export interface CommentThread {
+  id: number;
+  /** Layer the thread belongs to. */
+  modelId: number;
+  targetType: CommentTargetType;
+  targetId: number | null;
+  /** "layer", "object:12", "attribute:40" or "relationship:7". */
+  targetKey: string;
+  status: CommentThreadStatus;
+  createdByUserId: number | null;
+  createdByName: string | null;
+  resolvedByUserId: number | null;
+  resolvedByName: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  comments: ModelCommentEntry[];
+}
+
+/** What the review panel is showing comments for; null shows every thread of the layer. */
+export interface CommentFocus {
+  targetType: CommentTargetType;
+  targetId: number | null;
+}
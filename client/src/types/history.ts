@@ -0,0 +1,21 @@
+import type { HistoryCommandStatus, HistoryPositionChange } from "@shared/history";
+
+/** One undoable action on a layer, as the timeline shows it. */
+export interface HistoryCommand {
+  id: number;
+  /** Layer the command was recorded on. */
+  modelId: number;
+  action: string;
+  label: string;
+  status: HistoryCommandStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecordCommandInput {
+  action: string;
+  label: string;
+  /** X-Request-Id of each write the action made (see `newRequestId`). */
+  requestIds?: string[];
+  positions?: HistoryPositionChange[];
+}
@@ -0,0 +1,39 @@
+export interface LifecyclePhase {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  sequence: number | null;
+  defaultDurationDays: number | null;
+  requiresApproval: boolean | null;
+}
+
+export type LifecycleAssignmentStatus = "in_progress" | "in_review" | "completed" | "returned";
+
+export type LifecycleApprovalStatus = "not_required" | "pending" | "approved" | "rejected";
+
+export interface LifecycleAssignment {
+  id: number;
+  modelId: number;
+  phaseId: number;
+  phase: LifecyclePhase | null;
+  status: LifecycleAssignmentStatus | string | null;
+  approvalStatus: LifecycleApprovalStatus | string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  approvedBy: string | null;
+  /** User who requested the sign-off; they cannot decide it. */
+  approvalRequestedBy: number | null;
+  nextReviewAt: string | null;
+  notes: string | null;
+  isOverdue: boolean;
+}
+
+export interface ModelLifecycleState {
+  /** Parent data model id, shared by all layers of the model. */
+  modelId: number;
+  current: LifecycleAssignment | null;
+  nextPhase: LifecyclePhase | null;
+  blockedReason: string | null;
+  history: LifecycleAssignment[];
+}
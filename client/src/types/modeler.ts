@@ -73,6 +73,7 @@ export interface TableMetadata {
   columns: ColumnMetadata[];
   rowCount?: number;
   foreignKeys?: ForeignKeyMetadata[];
+  profile?: TableProfile;
 }
 
 export interface ColumnMetadata {
@@ -81,6 +82,39 @@ export interface ColumnMetadata {
   nullable: boolean;
   isPrimaryKey: boolean;
   length?: number;
+  precision?: number;
+  scale?: number;
+  defaultValue?: string;
+  profile?: ColumnProfile;
+}
+
+export interface ColumnProfile {
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  maxLength?: number;
+  sampleSize?: number;
+  min?: string | number;
+  max?: string | number;
+  topValues?: { value: string; count: number }[];
+  pattern?: string;
+  patternRatio?: number;
+}
+
+export interface TableProfile {
+  encoding: string;
+  delimiter: string;
+  hasHeader: boolean;
+  profiledRowCount: number;
+  sampled: boolean;
+  irregularRowCount: number;
+  candidateKeys: string[][];
+}
+
+export interface DdlParseIssue {
+  line: number;
+  statement: string;
+  reason: string;
 }
 
 export interface AISuggestion {
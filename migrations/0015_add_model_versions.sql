@@ -0,0 +1,33 @@
+-- Add persistent model versioning: immutable family snapshots and named tags
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "data_model_versions" (
+  "id" SERIAL PRIMARY KEY,
+  "data_model_id" INTEGER NOT NULL REFERENCES "data_models"("id") ON DELETE CASCADE,
+  "version_number" INTEGER NOT NULL,
+  "name" TEXT,
+  "description" TEXT,
+  "snapshot" JSONB NOT NULL,
+  "created_by_user_id" INTEGER REFERENCES "users"("id"),
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "data_model_versions_model_number_unique"
+  ON "data_model_versions"("data_model_id", "version_number");
+
+CREATE TABLE IF NOT EXISTS "data_model_version_tags" (
+  "id" SERIAL PRIMARY KEY,
+  "version_id" INTEGER NOT NULL REFERENCES "data_model_versions"("id") ON DELETE CASCADE,
+  "data_model_id" INTEGER NOT NULL REFERENCES "data_models"("id") ON DELETE CASCADE,
+  "name" TEXT NOT NULL,
+  "created_by_user_id" INTEGER REFERENCES "users"("id"),
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "data_model_version_tags_model_name_unique"
+  ON "data_model_version_tags"("data_model_id", "name");
+
+COMMENT ON COLUMN data_model_versions.snapshot IS 'Full copy of the model family rows (layers, objects, attributes, relationships, properties) at capture time';
+
+COMMIT;
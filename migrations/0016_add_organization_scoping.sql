@@ -0,0 +1,57 @@
+-- Scope modeling data to organizations
+-- Existing rows are assigned to the default organization (id 1, matching the
+-- DEFAULT_ORGANIZATION_ID fallback). Change the literal below if your
+-- deployment overrides DEFAULT_ORGANIZATION_ID.
+
+BEGIN;
+
+-- Make sure the default organization exists before rows are pointed at it
+INSERT INTO "organizations" ("id", "name", "slug")
+VALUES (1, 'Default Organization', 'default')
+ON CONFLICT ("id") DO NOTHING;
+
+SELECT setval(
+  pg_get_serial_sequence('organizations', 'id'),
+  GREATEST((SELECT MAX("id") FROM "organizations"), 1)
+);
+
+-- Add nullable columns, backfill, then enforce
+ALTER TABLE "systems" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+ALTER TABLE "data_models" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+ALTER TABLE "data_objects" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+ALTER TABLE "data_domains" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+ALTER TABLE "business_capabilities" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+ALTER TABLE "configurations" ADD COLUMN IF NOT EXISTS "organization_id" INTEGER REFERENCES "organizations"("id");
+
+UPDATE "systems" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+UPDATE "data_models" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+UPDATE "data_objects" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+UPDATE "data_domains" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+UPDATE "business_capabilities" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+UPDATE "configurations" SET "organization_id" = 1 WHERE "organization_id" IS NULL;
+
+ALTER TABLE "systems" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "data_models" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "data_objects" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "data_domains" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "business_capabilities" ALTER COLUMN "organization_id" SET NOT NULL;
+ALTER TABLE "configurations" ALTER COLUMN "organization_id" SET NOT NULL;
+
+-- Names and codes only need to be unique within an organization
+ALTER TABLE "systems" DROP CONSTRAINT IF EXISTS "systems_name_unique";
+ALTER TABLE "data_domains" DROP CONSTRAINT IF EXISTS "data_domains_name_unique";
+ALTER TABLE "business_capabilities" DROP CONSTRAINT IF EXISTS "business_capabilities_code_unique";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "systems_organization_name_unique" ON "systems"("organization_id", "name");
+CREATE UNIQUE INDEX IF NOT EXISTS "data_domains_organization_name_unique" ON "data_domains"("organization_id", "name");
+CREATE UNIQUE INDEX IF NOT EXISTS "business_capabilities_organization_code_unique" ON "business_capabilities"("organization_id", "code");
+
+-- Tenant filters are applied to every list query
+CREATE INDEX IF NOT EXISTS "idx_systems_organization_id" ON "systems"("organization_id");
+CREATE INDEX IF NOT EXISTS "idx_data_models_organization_id" ON "data_models"("organization_id");
+CREATE INDEX IF NOT EXISTS "idx_data_objects_organization_id" ON "data_objects"("organization_id");
+CREATE INDEX IF NOT EXISTS "idx_data_domains_organization_id" ON "data_domains"("organization_id");
+CREATE INDEX IF NOT EXISTS "idx_business_capabilities_organization_id" ON "business_capabilities"("organization_id");
+CREATE INDEX IF NOT EXISTS "idx_configurations_organization_id" ON "configurations"("organization_id");
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Invitations carry the membership role granted when they are accepted
+
+BEGIN;
+
+ALTER TABLE "invitations" ADD COLUMN IF NOT EXISTS "role" TEXT NOT NULL DEFAULT 'member';
+
+CREATE INDEX IF NOT EXISTS "idx_invitations_organization_email" ON "invitations"("organization_id", LOWER("email"));
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Replace the generic "member" role with the viewer/modeler/steward/admin permission roles
+
+BEGIN;
+
+UPDATE "memberships" SET "role" = 'modeler', "updated_at" = NOW() WHERE "role" = 'member';
+UPDATE "invitations" SET "role" = 'modeler', "updated_at" = NOW() WHERE "role" = 'member';
+
+ALTER TABLE "invitations" ALTER COLUMN "role" SET DEFAULT 'modeler';
+
+COMMIT;
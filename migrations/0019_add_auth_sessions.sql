@@ -0,0 +1,19 @@
+-- Server-side sessions backing rotating refresh tokens
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "auth_sessions" (
+  "id" SERIAL PRIMARY KEY,
+  "user_id" INTEGER NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "refresh_token_hash" TEXT NOT NULL,
+  "user_agent" TEXT,
+  "expires_at" TIMESTAMP NOT NULL,
+  "last_used_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "revoked_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_auth_sessions_user" ON "auth_sessions"("user_id") WHERE "revoked_at" IS NULL;
+
+COMMIT;
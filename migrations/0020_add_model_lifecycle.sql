@@ -0,0 +1,35 @@
+-- Lifecycle governance: shared phase catalogue and per-model phase assignments
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "model_lifecycle_phases" (
+  "id" SERIAL PRIMARY KEY,
+  "key" TEXT NOT NULL UNIQUE,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "sequence" INTEGER DEFAULT 0,
+  "default_duration_days" INTEGER,
+  "requires_approval" BOOLEAN DEFAULT FALSE,
+  "is_active" BOOLEAN DEFAULT TRUE,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "model_lifecycle_assignments" (
+  "id" SERIAL PRIMARY KEY,
+  "model_id" INTEGER NOT NULL REFERENCES "data_models"("id"),
+  "phase_id" INTEGER NOT NULL REFERENCES "model_lifecycle_phases"("id"),
+  "status" TEXT DEFAULT 'not_started',
+  "approval_status" TEXT DEFAULT 'pending',
+  "started_at" TIMESTAMP,
+  "completed_at" TIMESTAMP,
+  "approved_by" TEXT,
+  "next_review_at" TIMESTAMP,
+  "notes" TEXT,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_model_lifecycle_assignments_model" ON "model_lifecycle_assignments"("model_id");
+
+COMMIT;
@@ -0,0 +1,54 @@
+-- Capability → data model traceability and capability/model/system triples
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "capability_data_model_mappings" (
+  "id" SERIAL PRIMARY KEY,
+  "capability_id" INTEGER NOT NULL REFERENCES "business_capabilities"("id"),
+  "model_id" INTEGER NOT NULL REFERENCES "data_models"("id"),
+  "domain_id" INTEGER REFERENCES "data_domains"("id"),
+  "lifecycle_phase_id" INTEGER REFERENCES "model_lifecycle_phases"("id"),
+  "lifecycle_status" TEXT DEFAULT 'planned',
+  "alignment_rating" TEXT DEFAULT 'medium',
+  "business_value_score" INTEGER,
+  "readiness_score" INTEGER,
+  "risk_level" TEXT DEFAULT 'medium',
+  "governance_owner" TEXT,
+  "data_steward" TEXT,
+  "solution_architect" TEXT,
+  "data_custodian" TEXT,
+  "qa_owner" TEXT,
+  "review_cadence" TEXT,
+  "last_reviewed_at" TIMESTAMP,
+  "next_review_at" TIMESTAMP,
+  "authoritative_source" BOOLEAN DEFAULT FALSE,
+  "notes" TEXT,
+  "metadata" JSONB,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "capability_model_system_mappings" (
+  "id" SERIAL PRIMARY KEY,
+  "capability_id" INTEGER NOT NULL REFERENCES "business_capabilities"("id"),
+  "model_id" INTEGER NOT NULL REFERENCES "data_models"("id"),
+  "system_id" INTEGER NOT NULL REFERENCES "systems"("id"),
+  "relationship_type" TEXT DEFAULT 'supports',
+  "system_role" TEXT DEFAULT 'secondary',
+  "integration_pattern" TEXT,
+  "lifecycle_status" TEXT DEFAULT 'planned',
+  "deployment_status" TEXT DEFAULT 'not_started',
+  "heatmap_score" INTEGER,
+  "risk_score" INTEGER,
+  "sla_hours" INTEGER,
+  "is_primary" BOOLEAN DEFAULT FALSE,
+  "last_validated_at" TIMESTAMP,
+  "notes" TEXT,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_capability_data_model_mappings_capability" ON "capability_data_model_mappings"("capability_id");
+CREATE INDEX IF NOT EXISTS "idx_capability_model_system_mappings_capability" ON "capability_model_system_mappings"("capability_id");
+
+COMMIT;
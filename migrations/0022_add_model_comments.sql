@@ -0,0 +1,32 @@
+-- Review comments: threads anchored to a layer or to an object, attribute or relationship on it
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "model_comment_threads" (
+  "id" SERIAL PRIMARY KEY,
+  "model_id" INTEGER NOT NULL REFERENCES "data_model_layers"("id") ON DELETE CASCADE,
+  "target_type" TEXT NOT NULL,
+  "target_id" INTEGER,
+  "status" TEXT DEFAULT 'open' NOT NULL,
+  "created_by_user_id" INTEGER REFERENCES "users"("id"),
+  "resolved_by_user_id" INTEGER REFERENCES "users"("id"),
+  "resolved_at" TIMESTAMP,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_model_comment_threads_model" ON "model_comment_threads"("model_id", "status");
+
+CREATE TABLE IF NOT EXISTS "model_comments" (
+  "id" SERIAL PRIMARY KEY,
+  "thread_id" INTEGER NOT NULL REFERENCES "model_comment_threads"("id") ON DELETE CASCADE,
+  "author_user_id" INTEGER REFERENCES "users"("id"),
+  "body" TEXT NOT NULL,
+  "mentions" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_model_comments_thread" ON "model_comments"("thread_id");
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Audit log: one append-only row per create, update, delete or restore of modeling metadata
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "audit_log_entries" (
+  "id" SERIAL PRIMARY KEY,
+  "organization_id" INTEGER NOT NULL REFERENCES "organizations"("id"),
+  "actor_user_id" INTEGER,
+  "entity_type" TEXT NOT NULL,
+  "entity_id" INTEGER NOT NULL,
+  "action" TEXT NOT NULL,
+  "before" JSONB,
+  "after" JSONB,
+  "data_model_id" INTEGER,
+  "model_object_ids" INTEGER[] DEFAULT '{}' NOT NULL,
+  "request_id" TEXT,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_audit_log_org_created" ON "audit_log_entries"("organization_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "idx_audit_log_entity" ON "audit_log_entries"("entity_type", "entity_id");
+CREATE INDEX IF NOT EXISTS "idx_audit_log_data_model" ON "audit_log_entries"("data_model_id");
+CREATE INDEX IF NOT EXISTS "idx_audit_log_model_objects" ON "audit_log_entries" USING GIN ("model_object_ids");
+
+-- Entries are never edited or removed once written
+CREATE OR REPLACE FUNCTION "reject_audit_log_change"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log_entries is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "audit_log_entries_append_only" ON "audit_log_entries";
+CREATE TRIGGER "audit_log_entries_append_only"
+  BEFORE UPDATE OR DELETE ON "audit_log_entries"
+  FOR EACH ROW EXECUTE FUNCTION "reject_audit_log_change"();
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Undo/redo history: commands per user per layer with the operations that replay and revert them
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "model_history_commands" (
+  "id" SERIAL PRIMARY KEY,
+  "model_id" INTEGER NOT NULL REFERENCES "data_model_layers"("id") ON DELETE CASCADE,
+  "user_id" INTEGER NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "action" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "forward" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "inverse" JSONB DEFAULT '[]'::jsonb NOT NULL,
+  "status" TEXT DEFAULT 'applied' NOT NULL,
+  "created_at" TIMESTAMP DEFAULT NOW() NOT NULL,
+  "updated_at" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_model_history_commands_model_user" ON "model_history_commands"("model_id", "user_id", "id");
+
+COMMIT;
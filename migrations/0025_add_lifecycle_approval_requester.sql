@@ -0,0 +1,8 @@
+-- Lifecycle approvals: remember who requested a sign-off so they cannot approve it themselves
+
+BEGIN;
+
+ALTER TABLE "model_lifecycle_assignments"
+  ADD COLUMN IF NOT EXISTS "approval_requested_by" INTEGER REFERENCES "users"("id") ON DELETE SET NULL;
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Audit log: scrub credentials written before entries were redacted. The append-only trigger is
+-- lifted for this one statement set and restored before the transaction commits.
+
+BEGIN;
+
+ALTER TABLE "audit_log_entries" DISABLE TRIGGER "audit_log_entries_append_only";
+
+UPDATE "audit_log_entries"
+SET
+  "before" = CASE
+    WHEN "before" IS NULL THEN NULL
+    ELSE ("before" - 'configuration' - 'connectionString')
+      || CASE WHEN "before" ? 'configuration' THEN '{"configuration": "[redacted]"}'::jsonb ELSE '{}'::jsonb END
+      || CASE WHEN "before" ? 'connectionString' THEN '{"connectionString": "[redacted]"}'::jsonb ELSE '{}'::jsonb END
+  END,
+  "after" = CASE
+    WHEN "after" IS NULL THEN NULL
+    ELSE ("after" - 'configuration' - 'connectionString')
+      || CASE WHEN "after" ? 'configuration' THEN '{"configuration": "[redacted]"}'::jsonb ELSE '{}'::jsonb END
+      || CASE WHEN "after" ? 'connectionString' THEN '{"connectionString": "[redacted]"}'::jsonb ELSE '{}'::jsonb END
+  END
+WHERE "entity_type" = 'system';
+
+UPDATE "audit_log_entries"
+SET
+  "before" = CASE WHEN "before" ? 'value' THEN "before" || '{"value": "[redacted]"}'::jsonb ELSE "before" END,
+  "after" = CASE WHEN "after" ? 'value' THEN "after" || '{"value": "[redacted]"}'::jsonb ELSE "after" END
+WHERE "entity_type" = 'configuration'
+  AND regexp_replace(lower(COALESCE("after"->>'key', "before"->>'key', '')), '[^a-z]', '', 'g')
+    ~ '(password|passwd|secret|token|apikey|accesskey|privatekey|connectionstring|credentials?)$';
+
+ALTER TABLE "audit_log_entries" ENABLE TRIGGER "audit_log_entries_append_only";
+
+COMMIT;
@@ -1,7 +1,8 @@
 import jwt from "jsonwebtoken";
 import type { AuthTokenPayload, AuthenticatedUserContext } from "./types";
 
-const TOKEN_EXPIRY = process.env.JWT_EXPIRY ?? "12h";
+// Access tokens are short-lived; clients renew them through /api/auth/refresh
+const TOKEN_EXPIRY = process.env.JWT_EXPIRY ?? "15m";
 
 function getJwtSecret(): string {
   const secret = process.env.JWT_SECRET;
@@ -17,6 +18,7 @@ export function signAuthToken(context: AuthenticatedUserContext): string {
     orgId: context.organizationId,
     roles: context.roles,
     super: context.isSuperAdmin ? true : undefined,
+    sid: context.sessionId,
   } satisfies Omit<AuthTokenPayload, "exp" | "iat">;
 
   return jwt.sign(payload, getJwtSecret(), { expiresIn: TOKEN_EXPIRY });
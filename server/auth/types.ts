@@ -3,6 +3,10 @@ export interface AuthenticatedUserContext {
   organizationId: number;
   roles: string[];
   isSuperAdmin: boolean;
+  /** Server-side session the access token was issued for. */
+  sessionId: number;
+  /** Correlates audit log entries written while serving one request (X-Request-Id). */
+  requestId?: string;
 }
 
 export interface AuthTokenPayload {
@@ -10,6 +14,7 @@ export interface AuthTokenPayload {
   orgId: number; // organization id
   roles: string[];
   super?: boolean;
+  sid: number; // auth session id
   exp: number;
   iat: number;
 }
@@ -0,0 +1,190 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { NextFunction, Request, Response } from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import { COLLABORATION_CLIENT_HEADER, COLLABORATION_PATH, type CollaborationChange } from "@shared/collaboration";
+import { verifyAuthToken } from "./auth/jwt";
+import { setAuthContext } from "./auth/context";
+import type { AuthenticatedUserContext } from "./auth/types";
+import { authService, type AuthSuccess } from "./services/authService";
+import { sessionService } from "./services/sessionService";
+import { CollaborationHub, type CollaborationIdentity } from "./services/collaborationHub";
+import { storage } from "./storage";
+import { canvasChangesForLayer } from "./utils/canvas_utils";
+
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+export const collaborationHub = new CollaborationHub({
+  canAccessLayer: async (identity, layerId) => {
+    // Storage reads are scoped to the organization of the current auth context
+    setAuthContext({
+      userId: identity.userId,
+      organizationId: identity.organizationId,
+      roles: identity.roles,
+      isSuperAdmin: identity.isSuperAdmin,
+      sessionId: identity.sessionId,
+    });
+    return Boolean(await storage.getDataModelLayer(layerId));
+  },
+});
+
+/** Roles the profile holds in the organization, or null when the user is no longer a member of it. */
+function membershipRoles(profile: AuthSuccess | null, organizationId: number): string[] | null {
+  if (!profile || profile.organization.id !== organizationId) return null;
+  return profile.memberships.map((membership) => membership.role);
+}
+
+const sameRoles = (a: string[], b: string[]) => a.length === b.length && a.every((role) => b.includes(role));
+
+/**
+ * Announce a change a route persisted to the sessions that have the layer
+ * open. Routes that announce their own change this way are skipped by
+ * `announceCanvasChanges`.
+ */
+export function announceCanvasChange(req: Request, res: Response, layerId: number, change: CollaborationChange): void {
+  res.locals.canvasChangeAnnounced = true;
+  if (!req.auth) return;
+  collaborationHub.publish(req.auth.organizationId, layerId, change, {
+    userId: req.auth.userId,
+    clientId: req.get(COLLABORATION_CLIENT_HEADER),
+  });
+}
+
+async function announceAuditedChanges(context: AuthenticatedUserContext, clientId: string | undefined): Promise<void> {
+  if (!context.requestId || !collaborationHub.hasRooms(context.organizationId)) return;
+
+  setAuthContext(context);
+  const entries = await storage.getAuditLogEntriesByRequests([context.requestId], context.userId);
+  const modelIds = new Set(entries.map((entry) => entry.dataModelId).filter((id): id is number => id !== null));
+  if (modelIds.size === 0) return;
+
+  // Objects are shared between the layers of a model, so every open layer of an affected model is told
+  const layers = (await storage.getDataModelLayers()).filter(
+    (layer) => modelIds.has(layer.dataModelId) && collaborationHub.peersOf(context.organizationId, layer.id).length > 0,
+  );
+  for (const layer of layers) {
+    const changes = await canvasChangesForLayer(
+      layer,
+      entries.filter((entry) => entry.dataModelId === layer.dataModelId),
+    );
+    changes.forEach((change) =>
+      collaborationHub.publish(context.organizationId, layer.id, change, { userId: context.userId, clientId }),
+    );
+  }
+}
+
+/**
+ * Tell the sessions on a layer what a write changed: the objects,
+ * attributes and relationships it touched as nodes and edges, or
+ * `layer.changed` when it touched something else. The changes are read back
+ * from the audit entries the request wrote, so only persisted changes are
+ * announced, whichever route made them.
+ */
+export function announceCanvasChanges(req: Request, res: Response, next: NextFunction): void {
+  const context = req.auth;
+  if (!context || !MUTATING_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  res.on("finish", () => {
+    if (res.statusCode >= 400 || res.locals.canvasChangeAnnounced) return;
+    announceAuditedChanges(context, req.get(COLLABORATION_CLIENT_HEADER)).catch((error) => {
+      console.error("[COLLAB] Failed to announce changes:", error);
+    });
+  });
+  next();
+}
+
+async function authenticateUpgrade(request: IncomingMessage): Promise<CollaborationIdentity | null> {
+  // Browsers cannot set headers on a WebSocket handshake, so the access token travels in the query string
+  const token = new URL(request.url ?? "", "http://localhost").searchParams.get("token");
+  if (!token) return null;
+
+  try {
+    const payload = verifyAuthToken(token);
+    if (typeof payload.sid !== "number" || !(await sessionService.isActive(payload.sid))) {
+      return null;
+    }
+    // Roles are read from the membership rather than the token, which keeps its roles until it expires
+    const profile = await authService.getUserProfile(payload.sub);
+    const roles = membershipRoles(profile, payload.orgId);
+    if (!profile || !roles) {
+      return null;
+    }
+    return {
+      userId: payload.sub,
+      organizationId: payload.orgId,
+      roles,
+      isSuperAdmin: Boolean(payload.super),
+      sessionId: payload.sid,
+      name: profile.user.name || profile.user.email || `User ${payload.sub}`,
+    };
+  } catch (error) {
+    console.warn("[COLLAB] Rejected connection:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function rejectUpgrade(socket: Duplex): void {
+  socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+  socket.destroy();
+}
+
+/**
+ * Serve the collaboration WebSocket on the application's HTTP server. Other
+ * upgrade requests (the Vite HMR socket in development) are left alone.
+ */
+export function attachCollaborationServer(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  httpServer.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(request.url ?? "", "http://localhost").pathname !== COLLABORATION_PATH) return;
+
+    authenticateUpgrade(request).then((identity) => {
+      if (!identity) {
+        rejectUpgrade(socket);
+        return;
+      }
+      wss.handleUpgrade(request, socket, head, (ws) => {
+        const clientId = collaborationHub.connect(ws, identity);
+        alive.set(ws, true);
+        ws.on("pong", () => alive.set(ws, true));
+        ws.on("message", (data) => {
+          collaborationHub.receive(clientId, data.toString()).catch((error) => {
+            console.error("[COLLAB] Failed to handle message:", error);
+          });
+        });
+        ws.on("close", () => collaborationHub.disconnect(clientId));
+        ws.on("error", () => ws.terminate());
+      });
+    });
+  });
+
+  // Drop sockets whose browser went away without closing them, so their presence does not linger,
+  // and sockets whose session ended or whose roles changed since they connected
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+    collaborationHub
+      .revalidate(async (identity) => {
+        if (!(await sessionService.isActive(identity.sessionId))) return false;
+        const roles = membershipRoles(await authService.getUserProfile(identity.userId), identity.organizationId);
+        return roles !== null && sameRoles(roles, identity.roles);
+      })
+      .catch((error) => console.error("[COLLAB] Failed to re-check sessions:", error));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
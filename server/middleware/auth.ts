@@ -1,7 +1,10 @@
+import { randomUUID } from "node:crypto";
 import type { NextFunction, Request, Response } from "express";
 import { verifyAuthToken } from "../auth/jwt";
 import { setAuthContext } from "../auth/context";
-import type { AuthenticatedUserContext } from "../auth/types";
+import { sessionService } from "../services/sessionService";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { AuthTokenPayload, AuthenticatedUserContext } from "../auth/types";
 
 const SKIP_PATHS = new Set<string>(["/api/auth/login", "/api/auth/register", "/api/auth/refresh"]);
 
@@ -33,22 +36,48 @@ export function authenticationMiddleware(req: Request, res: Response, next: Next
     return;
   }
 
+  let payload: AuthTokenPayload;
   try {
-    const payload = verifyAuthToken(token);
-    const context: AuthenticatedUserContext = {
-      userId: payload.sub,
-      organizationId: payload.orgId,
-      roles: payload.roles ?? [],
-      isSuperAdmin: Boolean(payload.super),
-    };
-
-    setAuthContext(context);
-    req.auth = context;
-    next();
+    payload = verifyAuthToken(token);
   } catch (error) {
     console.error(`[AUTH] Token verification failed for ${req.method} ${req.path}:`, error instanceof Error ? error.message : error);
     res.status(401).json({ message: "Invalid or expired authentication token" });
+    return;
   }
+
+  // Tokens stop working as soon as their session is revoked (logout), not only when they expire
+  const sessionCheck = typeof payload.sid === "number" ? sessionService.isActive(payload.sid) : Promise.resolve(false);
+  sessionCheck
+    .then((active) => {
+      if (!active) {
+        res.status(401).json({ message: "Session has ended" });
+        return;
+      }
+
+      const context: AuthenticatedUserContext = {
+        userId: payload.sub,
+        organizationId: payload.orgId,
+        roles: payload.roles ?? [],
+        isSuperAdmin: Boolean(payload.super),
+        sessionId: payload.sid,
+        requestId: resolveRequestId(req, res),
+      };
+
+      setAuthContext(context);
+      req.auth = context;
+      next();
+    })
+    .catch(next);
+}
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/** Reuse the caller's X-Request-Id when it is well formed, otherwise mint one, and echo it back. */
+export function resolveRequestId(req: Request, res: Response): string {
+  const incoming = req.get("x-request-id");
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", requestId);
+  return requestId;
 }
 
 export function requireRole(role: string) {
@@ -61,3 +90,14 @@ export function requireRole(role: string) {
     res.status(403).json({ message: "Forbidden" });
   };
 }
+
+/** Allow the request only when the caller's roles grant `permission` (see shared/permissions.ts). */
+export function requirePermission(permission: Permission) {
+  return function permissionGuard(req: Request, res: Response, next: NextFunction): void {
+    if (req.auth && hasPermission(req.auth.roles, permission, req.auth.isSuperAdmin)) {
+      next();
+      return;
+    }
+    res.status(403).json({ message: "You do not have permission to perform this action", permission });
+  };
+}
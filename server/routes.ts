@@ -1,14 +1,24 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import path from "path";
 import { storage } from "./storage";
-import { authenticationMiddleware } from "./middleware/auth";
-import { authService } from "./services/authService";
+import { authenticationMiddleware, requirePermission } from "./middleware/auth";
+import { authService, type AuthSuccess } from "./services/authService";
+import { sessionService, type IssuedSession } from "./services/sessionService";
+import { invitationService } from "./services/invitationService";
 import { signAuthToken } from "./auth/jwt";
+import { requireOrganizationId, requireUserId } from "./auth/context";
 import { aiEngine } from "./services/aiEngine";
 import { dataConnectors } from "./services/dataConnectors";
 import { generateHeuristicForeignKeys } from "./services/relationshipHeuristics";
 import { exportService } from "./services/exportService";
 import { modelingAgentService } from "./services/modelingAgent";
+import { modelVersioningService } from "./services/modelVersioning";
+import { modelLifecycleService } from "./services/modelLifecycle";
+import { modelCommentService } from "./services/modelComments";
+import { auditLogService } from "./services/auditLog";
+import { commandHistoryService } from "./services/commandHistory";
+import { capabilityTraceabilityService } from "./services/capabilityTraceability";
 import { getTargetSystemTemplate } from "./services/targetSystemTemplates";
 import multer from "multer";
 import { z } from "zod";
@@ -19,6 +29,22 @@ import {
   systemObjectUpdateSchema,
   systemSyncRequestSchema,
   modelingAgentRequestSchema,
+  migrationGenerateRequestSchema,
+  starSchemaRequestSchema,
+  createModelVersionRequestSchema,
+  modelVersionTagRequestSchema,
+  lifecycleTransitionRequestSchema,
+  lifecycleApprovalRequestSchema,
+  lifecycleDecisionRequestSchema,
+  createCommentThreadRequestSchema,
+  commentReplyRequestSchema,
+  commentThreadStatusRequestSchema,
+  auditLogQuerySchema,
+  recordHistoryCommandRequestSchema,
+  capabilityModelMappingRequestSchema,
+  capabilityModelSystemMappingRequestSchema,
+  inviteMemberRequestSchema,
+  updateMemberRoleRequestSchema,
   relationshipTypeEnum,
   createRelationshipRequestSchema,
   updateRelationshipRequestSchema,
@@ -88,6 +114,10 @@ import {
   createModelWithLayers,
   type CreateModelWithLayersInput,
 } from "./utils/model_handlers";
+import { importDbtProject } from "./utils/dbt_import_handlers";
+import { importDbmlIntoLayer } from "./utils/dbml_import_handlers";
+import { importApiSchemaIntoSystem } from "./utils/api_schema_handlers";
+import { createStarSchemaLayer, previewStarSchema } from "./utils/star_schema_handlers";
 
 // Import system sync handlers
 import {
@@ -113,9 +143,13 @@ import {
 // Import export handlers
 import {
   exportModelData,
+  exportDbtScaffold,
   generateSVGDiagram,
 } from "./utils/export_handlers";
 
+// Import migration handlers
+import { generateLayerMigration } from "./utils/migration_handlers";
+
 // Import AI handlers
 import {
   executeModelingAgent,
@@ -181,6 +215,17 @@ import {
   type InsertDataModelObjectAttribute,
   type InsertDataObjectRelationship
 } from "@shared/schema";
+import { permissionsForRoles } from "@shared/permissions";
+import { announceCanvasChange, announceCanvasChanges, attachCollaborationServer, collaborationHub } from "./collaboration";
+import { VersionConflictError, readExpectedVersion, setVersionHeader } from "./utils/concurrency";
+import {
+  indexDataObjectRelationships,
+  isRelationshipShownOnLayer,
+  resolveCanvasPosition,
+  toCanvasEdge,
+  toCanvasNode,
+  type CanvasLookups,
+} from "./utils/canvas_utils";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
@@ -188,11 +233,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const loginSchema = z.object({
     identifier: z.string().min(3, "User ID is required"),
     password: z.string().min(6, "Password is required"),
+    inviteToken: z.string().min(1).optional(),
   });
 
   const registerSchema = z
     .object({
-      organizationName: z.string().min(3, "Organization name is required"),
+      organizationName: z.string().min(3, "Organization name is required").optional(),
       organizationSlug: z
         .string()
         .regex(/^[a-z0-9-]+$/i, "Slug may contain letters, numbers, and dashes")
@@ -202,48 +248,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
       email: z.string().email("Valid email is required"),
       password: z.string().min(8, "Password must be at least 8 characters"),
       userName: z.string().min(1, "Name is required").max(120, "Name is too long").optional(),
+      inviteToken: z.string().min(1).optional(),
     })
-    .strict();
+    .strict()
+    .refine((payload) => Boolean(payload.inviteToken || payload.organizationName), {
+      message: "Organization name is required",
+      path: ["organizationName"],
+    });
+
+  const refreshSchema = z.object({
+    refreshToken: z.string().min(1, "Refresh token is required"),
+  });
+
+  // Links in invitation emails point back at the client
+  const appBaseUrl = (req: Request): string => process.env.APP_BASE_URL ?? `${req.protocol}://${req.get("host")}`;
+
+  // Body returned by login, register and refresh: a new access token for the session plus the profile
+  const sessionResponse = (result: AuthSuccess, issued: IssuedSession) => {
+    const roles = result.memberships.map((membership) => membership.role);
+    const isSuperAdmin = Boolean(result.user.isSuperAdmin);
+    const token = signAuthToken({
+      userId: result.user.id,
+      organizationId: result.organization.id,
+      roles,
+      isSuperAdmin,
+      sessionId: issued.session.id,
+    });
+
+    return {
+      token,
+      refreshToken: issued.refreshToken,
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        name: result.user.name,
+        isSuperAdmin: result.user.isSuperAdmin,
+      },
+      organization: {
+        id: result.organization.id,
+        name: result.organization.name,
+        slug: result.organization.slug,
+      },
+      roles,
+      permissions: permissionsForRoles(roles, isSuperAdmin),
+    };
+  };
 
   app.post("/api/auth/login", async (req, res) => {
     try {
-      const { identifier, password } = loginSchema.parse(req.body);
-      const result = await authService.authenticateWithPassword(identifier, password);
+      const { identifier, password, inviteToken } = loginSchema.parse(req.body);
+      let result = await authService.authenticateWithPassword(identifier, password);
 
       if (!result) {
         return res.status(401).json({ message: "Invalid user ID or password" });
       }
 
-      const roles = result.memberships.map((membership) => membership.role);
-      const context = {
-        userId: result.user.id,
-        organizationId: result.user.organizationId,
-        roles,
-        isSuperAdmin: Boolean(result.user.isSuperAdmin),
-      };
-
-      const token = signAuthToken(context);
+      if (inviteToken) {
+        await invitationService.acceptInvitation(inviteToken, result.user);
+        result = await authService.getUserProfile(result.user.id);
+        if (!result) {
+          return res.status(401).json({ message: "Invalid user ID or password" });
+        }
+      }
 
-      res.json({
-        token,
-        user: {
-          id: result.user.id,
-          email: result.user.email,
-          name: result.user.name,
-          isSuperAdmin: result.user.isSuperAdmin,
-        },
-        organization: {
-          id: result.organization.id,
-          name: result.organization.name,
-          slug: result.organization.slug,
-        },
-        roles,
-      });
+      const issued = await sessionService.startSession(result.user.id, req.get("user-agent"));
+      res.json(sessionResponse(result, issued));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid login payload", errors: error.flatten() });
         return;
       }
+      if (error instanceof Error && error.message.startsWith("Invitation")) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
       console.error("Login failed", error);
       res.status(500).json({ message: "Failed to authenticate user" });
     }
@@ -258,33 +336,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: payload.email,
         password: payload.password,
         userName: payload.userName,
+        inviteToken: payload.inviteToken,
       });
 
-      const roles = result.memberships.map((membership) => membership.role);
-      const context = {
-        userId: result.user.id,
-        organizationId: result.user.organizationId,
-        roles,
-        isSuperAdmin: Boolean(result.user.isSuperAdmin),
-      };
-
-      const token = signAuthToken(context);
-
-      res.status(201).json({
-        token,
-        user: {
-          id: result.user.id,
-          email: result.user.email,
-          name: result.user.name,
-          isSuperAdmin: result.user.isSuperAdmin,
-        },
-        organization: {
-          id: result.organization.id,
-          name: result.organization.name,
-          slug: result.organization.slug,
-        },
-        roles,
-      });
+      const issued = await sessionService.startSession(result.user.id, req.get("user-agent"));
+      res.status(201).json(sessionResponse(result, issued));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid registration payload", errors: error.flatten() });
@@ -292,16 +348,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const message = error instanceof Error ? error.message : "Registration failed";
-      const statusCode = message.includes("already exists") ? 409 : 500;
+      const statusCode = message.includes("already exists") ? 409 : message.startsWith("Invitation") ? 400 : 500;
       console.error("Registration failed", error);
       res.status(statusCode).json({ message });
     }
   });
 
+  // Rotates the refresh token and reloads roles, so membership changes apply on the next refresh
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+      const issued = await sessionService.rotate(refreshToken);
+
+      const result = await authService.getUserProfile(issued.session.userId);
+      if (!result || !result.user.isActive) {
+        await sessionService.revoke(issued.session.id);
+        return res.status(401).json({ message: "Session has ended" });
+      }
+
+      res.json(sessionResponse(result, issued));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid refresh payload", errors: error.flatten() });
+        return;
+      }
+      if (error instanceof Error && error.message.startsWith("Refresh token")) {
+        res.status(401).json({ message: error.message });
+        return;
+      }
+      console.error("Token refresh failed", error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
   app.use(authenticationMiddleware);
+  app.use(announceCanvasChanges);
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      if (req.auth) {
+        await sessionService.revoke(req.auth.sessionId);
+        collaborationHub.closeSessions([req.auth.sessionId]);
+      }
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
 
-  app.post("/api/auth/logout", async (_req, res) => {
-    res.status(204).send();
+  // Log out all devices, including this one
+  app.post("/api/auth/logout-all", async (req, res) => {
+    try {
+      const revoked = await sessionService.revokeAll(requireUserId());
+      collaborationHub.closeUser(requireOrganizationId(), requireUserId());
+      res.json({ revoked });
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
   });
 
   app.get("/api/auth/me", async (req, res) => {
@@ -329,6 +434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           slug: profile.organization.slug,
         },
         roles,
+        permissions: permissionsForRoles(roles, Boolean(profile.user.isSuperAdmin)),
       });
     } catch (error) {
       console.error("Failed to load authenticated profile", error);
@@ -336,6 +442,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organization members and invitations
+  app.get("/api/organization/members", async (req, res) => {
+    try {
+      const members = await invitationService.listMembers(requireOrganizationId());
+      res.json(members);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.patch("/api/organization/members/:userId", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const userId = parseRequiredNumber(req.params.userId, "User id");
+      const { role } = updateMemberRoleRequestSchema.parse(req.body ?? {});
+      const membership = await invitationService.changeMemberRole(requireOrganizationId(), userId, role);
+      // Open sockets carry the old role; closing them makes the client reconnect with the new one
+      collaborationHub.closeUser(requireOrganizationId(), userId);
+      res.json(membership);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.delete("/api/organization/members/:userId", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const userId = parseRequiredNumber(req.params.userId, "User id");
+      await invitationService.removeMember(requireOrganizationId(), userId);
+      collaborationHub.closeUser(requireOrganizationId(), userId);
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/organization/invitations", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const invitations = await invitationService.listInvitations(requireOrganizationId());
+      res.json(invitations);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/organization/invitations", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const input = inviteMemberRequestSchema.parse(req.body ?? {});
+      const sent = await invitationService.inviteMember(
+        requireOrganizationId(),
+        input,
+        requireUserId(),
+        appBaseUrl(req),
+      );
+      res.status(201).json(sent);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/organization/invitations/:invitationId/resend", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const invitationId = parseRequiredNumber(req.params.invitationId, "Invitation id");
+      const sent = await invitationService.resendInvitation(requireOrganizationId(), invitationId, appBaseUrl(req));
+      res.json(sent);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.delete("/api/organization/invitations/:invitationId", requirePermission("members:manage"), async (req, res) => {
+    try {
+      const invitationId = parseRequiredNumber(req.params.invitationId, "Invitation id");
+      await invitationService.revokeInvitation(requireOrganizationId(), invitationId);
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
   app.get("/api/models", async (req, res) => {
     try {
       const models = await storage.getDataModelLayers();
@@ -358,7 +549,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/models", async (req, res) => {
+  app.post("/api/models", requirePermission("models:edit"), async (req, res) => {
     try {
       const validatedData = insertDataModelLayerSchema.parse(req.body);
       const model = await storage.createDataModelLayer(validatedData);
@@ -369,7 +560,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create model with all 4 layers (Flow, Conceptual, Logical, Physical)
-  app.post("/api/models/create-with-layers", async (req, res) => {
+  app.post("/api/models/create-with-layers", requirePermission("models:edit"), async (req, res) => {
     try {
       const input: CreateModelWithLayersInput = req.body;
       console.log('[ROUTES] Received create-with-layers request:', JSON.stringify(input, null, 2));
@@ -387,18 +578,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/models/:id", async (req, res) => {
+  // Import a dbt project (manifest.json, optional catalog.json) as a model with all layers
+  app.post(
+    "/api/models/import/dbt",
+    requirePermission("models:edit"),
+    upload.fields([{ name: "manifest", maxCount: 1 }, { name: "catalog", maxCount: 1 }]),
+    async (req, res) => {
+      const files = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+      const readJson = (field: string) => {
+        const file = files[field]?.[0];
+        if (!file) return undefined;
+        try {
+          return JSON.parse(file.buffer.toString("utf-8"));
+        } catch (error) {
+          throw new Error(`${file.originalname} must be valid JSON: ${(error as Error).message}`);
+        }
+      };
+
+      try {
+        if (!files.manifest?.[0]) {
+          return res.status(400).json({ message: "manifest.json is required" });
+        }
+        const manifest = readJson("manifest");
+        const catalog = readJson("catalog");
+        const result = await importDbtProject(
+          {
+            manifest,
+            catalog,
+            name: typeof req.body?.name === "string" ? req.body.name : undefined,
+            targetSystemId: req.body?.targetSystemId || undefined,
+            includePackages: req.body?.includePackages === "true",
+          },
+          storage
+        );
+        res.status(201).json(result);
+      } catch (error: any) {
+        console.error("Error importing dbt project:", error);
+        const errorResponse = handleError(error);
+        res.status(errorResponse.status).json(errorResponse.body);
+      }
+    }
+  );
+
+  // Import a DBML document into one layer of an existing model
+  app.post("/api/models/:id/import/dbml", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const modelId = parseInt(req.params.id);
+      const dbml = typeof req.body?.dbml === "string" ? req.body.dbml : "";
+      const result = await importDbmlIntoLayer({ modelId, dbml }, storage);
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error importing DBML:", error);
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Star schema generation from a logical layer: preview first, then create a physical layer
+  app.post("/api/models/:id/star-schema/preview", async (req, res) => {
+    try {
+      const parsed = starSchemaRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid star schema request",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      const result = await previewStarSchema(parseInt(req.params.id), parsed.data, storage);
+      res.json(result);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/star-schema", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const parsed = starSchemaRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid star schema request",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      const result = await createStarSchemaLayer(parseInt(req.params.id), parsed.data, storage);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error generating star schema:", error);
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.put("/api/models/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertDataModelLayerSchema.partial().parse(req.body);
-      const model = await storage.updateDataModelLayer(id, validatedData);
+      const model = await storage.updateDataModelLayer(id, validatedData, readExpectedVersion(req));
+      setVersionHeader(res, model);
       res.json(model);
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        const errorResponse = handleError(error);
+        return res.status(errorResponse.status).json(errorResponse.body);
+      }
       res.status(400).json({ message: "Failed to update model" });
     }
   });
 
-  app.delete("/api/models/:id", async (req, res) => {
+  app.delete("/api/models/:id", requirePermission("models:delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteDataModelLayer(id);
@@ -418,7 +708,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/domains", async (req, res) => {
+  app.post("/api/domains", requirePermission("catalog:edit"), async (req, res) => {
     try {
       console.log("Creating domain with data:", req.body);
       const validatedData = insertDataDomainSchema.parse(req.body);
@@ -445,7 +735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/domains/:id", async (req, res) => {
+  app.patch("/api/domains/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertDataDomainSchema.partial().parse(req.body);
@@ -457,7 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT endpoint for /api/domains/:id (full update)
-  app.put("/api/domains/:id", async (req, res) => {
+  app.put("/api/domains/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       console.log("Updating domain", id, "with data:", req.body);
@@ -486,7 +776,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE endpoint for /api/domains/:id
-  app.delete("/api/domains/:id", async (req, res) => {
+  app.delete("/api/domains/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteDataDomain(id);
@@ -542,7 +832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/areas", async (req, res) => {
+  app.post("/api/areas", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const validatedData = insertDataAreaSchema.parse(req.body);
       const area = await storage.createDataArea(validatedData);
@@ -552,7 +842,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/areas/:id", async (req, res) => {
+  app.patch("/api/areas/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertDataAreaSchema.partial().parse(req.body);
@@ -563,7 +853,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/areas/:id", async (req, res) => {
+  app.delete("/api/areas/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteDataArea(id);
@@ -586,7 +876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add existing object to a model (creates data_model_object entry)
-  app.post("/api/models/:modelId/objects", async (req, res) => {
+  app.post("/api/models/:modelId/objects", requirePermission("models:edit"), async (req, res) => {
     try {
       const modelId = parseInt(req.params.modelId);
       const { objectId, position, targetSystem, isVisible, layerSpecificConfig } = req.body;
@@ -731,6 +1021,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           dataAreaName = area?.name;
         }
         
+        setVersionHeader(res, modelObject);
         return res.json({
           id: modelObject.id,
           name: modelObject.name,
@@ -743,6 +1034,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           sourceSystemId: modelObject.sourceSystemId,
           targetSystemId: modelObject.targetSystemId,
           metadata: modelObject.metadata,
+          updatedAt: modelObject.updatedAt,
           attributes: attributes.map(attr => ({
             id: attr.id,
             name: attr.name,
@@ -758,6 +1050,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             precision: attr.precision,
             scale: attr.scale,
             orderIndex: attr.orderIndex,
+            updatedAt: attr.updatedAt,
           })),
           isUserCreated: true,
         });
@@ -772,6 +1065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // System-synced object - fetch attributes from attributes table
       const attributes = await storage.getAttributesByObject(id);
       
+      setVersionHeader(res, object);
       res.json({
         ...object,
         attributes,
@@ -783,7 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/objects", async (req, res) => {
+  app.post("/api/objects", requirePermission("models:edit"), async (req, res) => {
     try {
       console.log("Received object creation request:", req.body);
       
@@ -807,9 +1101,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/objects/:id", async (req, res) => {
+  app.put("/api/objects/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const expectedVersion = readExpectedVersion(req);
       
       // Check if this is a user-created object
       const modelObject = await storage.getDataModelObject(id);
@@ -826,34 +1121,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
           targetSystemId: req.body.targetSystemId !== undefined ? req.body.targetSystemId : modelObject.targetSystemId,
         };
         
-        const updated = await storage.updateDataModelObject(id, updateData);
+        const updated = await storage.updateDataModelObject(id, updateData, expectedVersion);
+        setVersionHeader(res, updated);
         return res.json(updated);
       }
       
       // System-synced object - update in data_objects
       const validatedData = insertDataObjectSchema.partial().parse(req.body);
-      const object = await storage.updateDataObject(id, validatedData);
+      const object = await storage.updateDataObject(id, validatedData, expectedVersion);
+      setVersionHeader(res, object);
       res.json(object);
     } catch (error) {
       console.error("Error updating object:", error);
+      if (error instanceof VersionConflictError) {
+        const errorResponse = handleError(error);
+        return res.status(errorResponse.status).json(errorResponse.body);
+      }
       res.status(400).json({ message: "Failed to update object" });
     }
   });
 
-  app.delete("/api/objects/:id", async (req, res) => {
+  app.delete("/api/objects/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      await deleteDataObjectCascade(id, storage);
+      await deleteDataObjectCascade(id, storage, readExpectedVersion(req));
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting object:", error);
+      if (error instanceof VersionConflictError) {
+        const errorResponse = handleError(error);
+        return res.status(errorResponse.status).json(errorResponse.body);
+      }
       res.status(500).json({ message: "Failed to delete object" });
     }
   });
 
   // Layer-to-Layer Object Generation
   // Generate object in next layer (Conceptual → Logical or Logical → Physical)
-  app.post("/api/objects/:id/generate-next-layer", async (req, res) => {
+  app.post("/api/objects/:id/generate-next-layer", requirePermission("models:edit"), async (req, res) => {
     try {
       const sourceObjectId = parseInt(req.params.id);
       const { targetModelId, config } = req.body;
@@ -888,7 +1193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate logical object from conceptual object
-  app.post("/api/objects/:id/generate-logical", async (req, res) => {
+  app.post("/api/objects/:id/generate-logical", requirePermission("models:edit"), async (req, res) => {
     try {
       const sourceObjectId = parseInt(req.params.id);
       const { targetModelId, config } = req.body;
@@ -921,7 +1226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate physical object from logical object
-  app.post("/api/objects/:id/generate-physical", async (req, res) => {
+  app.post("/api/objects/:id/generate-physical", requirePermission("models:edit"), async (req, res) => {
     try {
       const sourceObjectId = parseInt(req.params.id);
       const { targetModelId, config } = req.body;
@@ -966,9 +1271,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // User-created object - fetch from data_model_attributes by modelObjectId
         const allModelAttributes = await storage.getDataModelObjectAttributes();
         const attributes = allModelAttributes.filter(attr => attr.modelObjectId === objectId);
+
+        // Synced attributes carry the source data profile on the global attribute
+        const sourceAttributes = attributes.some(attr => attr.attributeId !== null)
+          ? new Map((await storage.getAllAttributes()).map(attr => [attr.id, attr]))
+          : new Map<number, Attribute>();
+        const withProfiles = attributes.map(attr =>
+          attr.attributeId !== null && sourceAttributes.has(attr.attributeId)
+            ? { ...attr, commonProperties: sourceAttributes.get(attr.attributeId)?.commonProperties ?? null }
+            : attr
+        );
         
-        console.log('Found user-created attributes:', attributes);
-        return res.json(attributes);
+        console.log('Found user-created attributes:', withProfiles);
+        return res.json(withProfiles);
       }
       
       // System-synced object - fetch from attributes table by objectId
@@ -995,7 +1310,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create an attribute for a specific object
-  app.post("/api/objects/:objectId/attributes", async (req, res) => {
+  app.post("/api/objects/:objectId/attributes", requirePermission("models:edit"), async (req, res) => {
     try {
       const objectId = parseInt(req.params.objectId);
       
@@ -1039,7 +1354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/attributes", async (req, res) => {
+  app.post("/api/attributes", requirePermission("models:edit"), async (req, res) => {
     try {
       const attribute = await createAttribute(req.body, storage);
       res.status(201).json(attribute);
@@ -1050,20 +1365,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update an attribute with PATCH
-  app.patch("/api/attributes/:id", async (req, res) => {
+  app.patch("/api/attributes/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const expectedVersion = readExpectedVersion(req);
       
       // Check if this is a user-created attribute
       const modelAttribute = await storage.getDataModelAttribute(id);
       if (modelAttribute) {
         // Update in data_model_attributes (partial update)
-        const updated = await storage.updateDataModelObjectAttribute(id, req.body);
+        const updated = await storage.updateDataModelObjectAttribute(id, req.body, expectedVersion);
+        setVersionHeader(res, updated);
         return res.json(updated);
       }
       
       // System-synced attribute - use cascade logic
-      const attribute = await updateAttributeWithCascade(id, req.body, storage);
+      const attribute = await updateAttributeWithCascade(id, req.body, storage, expectedVersion);
+      setVersionHeader(res, attribute);
       res.json(attribute);
     } catch (error) {
       const errorResponse = handleError(error);
@@ -1079,6 +1397,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // First check data_model_attributes (user-created)
       const modelAttribute = await storage.getDataModelAttribute(attributeId);
       if (modelAttribute) {
+        setVersionHeader(res, modelAttribute);
         return res.json(modelAttribute);
       }
       
@@ -1087,6 +1406,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!attribute) {
         return res.status(404).json({ error: "Attribute not found" });
       }
+      setVersionHeader(res, attribute);
       res.json(attribute);
     } catch (error) {
       console.error("Error fetching attribute:", error);
@@ -1094,9 +1414,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/attributes/:id", async (req, res) => {
+  app.put("/api/attributes/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const expectedVersion = readExpectedVersion(req);
       
       // Check if this is a user-created attribute
       const modelAttribute = await storage.getDataModelAttribute(id);
@@ -1117,12 +1438,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isForeignKey: req.body.isForeignKey ?? modelAttribute.isForeignKey,
           orderIndex: req.body.orderIndex ?? modelAttribute.orderIndex,
         };
-        const updated = await storage.updateDataModelObjectAttribute(id, updateData);
+        const updated = await storage.updateDataModelObjectAttribute(id, updateData, expectedVersion);
+        setVersionHeader(res, updated);
         return res.json(updated);
       }
       
       // System-synced attribute - use cascade logic
-      const attribute = await updateAttributeWithCascade(id, req.body, storage);
+      const attribute = await updateAttributeWithCascade(id, req.body, storage, expectedVersion);
+      setVersionHeader(res, attribute);
       res.json(attribute);
     } catch (error) {
       const errorResponse = handleError(error);
@@ -1130,20 +1453,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/attributes/:id", async (req, res) => {
+  app.delete("/api/attributes/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const expectedVersion = readExpectedVersion(req);
       
       // Check if this is a user-created attribute
       const modelAttribute = await storage.getDataModelAttribute(id);
       if (modelAttribute) {
         // Delete from data_model_attributes
-        await storage.deleteDataModelObjectAttribute(id);
+        await storage.deleteDataModelObjectAttribute(id, expectedVersion);
         return res.status(204).send();
       }
       
       // System-synced attribute
-      await deleteAttribute(id, storage);
+      await deleteAttribute(id, storage, expectedVersion);
       res.status(204).send();
     } catch (error) {
       const errorResponse = handleError(error);
@@ -1152,7 +1476,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Auto-enhance attribute with layer-specific type mapping
-  app.post("/api/attributes/:id/enhance", async (req, res) => {
+  app.post("/api/attributes/:id/enhance", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const { targetLayer } = req.body;
@@ -1165,7 +1489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bulk enhance attributes for an object
-  app.post("/api/objects/:objectId/attributes/enhance", async (req, res) => {
+  app.post("/api/objects/:objectId/attributes/enhance", requirePermission("models:edit"), async (req, res) => {
     try {
       const objectId = parseInt(req.params.objectId);
       const { targetLayer } = req.body;
@@ -1793,7 +2117,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/object-relationships", async (req, res) => {
+  app.post("/api/object-relationships", requirePermission("models:edit"), async (req, res) => {
     try {
       const validatedData = insertDataObjectRelationshipSchema.parse(req.body);
       const relationship = await storage.createDataObjectRelationship(validatedData);
@@ -1808,7 +2132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/object-relationships/:id", async (req, res) => {
+  app.put("/api/object-relationships/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (Number.isNaN(id)) {
@@ -1828,7 +2152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/object-relationships/:id", async (req, res) => {
+  app.delete("/api/object-relationships/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (Number.isNaN(id)) {
@@ -1912,7 +2236,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/relationships", async (req, res) => {
+  app.post("/api/relationships", requirePermission("models:edit"), async (req, res) => {
     try {
       console.log("[RELATIONSHIP] Creating relationship with payload:", JSON.stringify(req.body, null, 2));
       const result = await createRelationship(req.body, storage);
@@ -1924,14 +2248,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/relationships/:id", async (req, res) => {
+  app.put("/api/relationships/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (Number.isNaN(id)) {
         return res.status(400).json({ message: "Invalid relationship id" });
       }
 
-      const result = await updateRelationship(id, req.body, storage);
+      const result = await updateRelationship(id, req.body, storage, readExpectedVersion(req));
+      setVersionHeader(res, result);
       res.json(result);
     } catch (error) {
       const errorResponse = handleError(error);
@@ -1939,14 +2264,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/relationships/:id", async (req, res) => {
+  app.delete("/api/relationships/:id", requirePermission("models:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (Number.isNaN(id)) {
         return res.status(400).json({ message: "Invalid relationship id" });
       }
 
-      await deleteRelationship(id, storage);
+      await deleteRelationship(id, storage, readExpectedVersion(req));
       res.status(204).send();
     } catch (error) {
       const errorResponse = handleError(error);
@@ -1955,7 +2280,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Cleanup orphaned relationships in a model layer
-  app.post("/api/models/:modelId/relationships/cleanup", async (req, res) => {
+  app.post("/api/models/:modelId/relationships/cleanup", requirePermission("models:edit"), async (req, res) => {
     try {
       const modelId = parseInt(req.params.modelId);
       if (Number.isNaN(modelId)) {
@@ -2019,7 +2344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sources", async (req, res) => {
+  app.post("/api/sources", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const validatedData = insertSystemSchema.parse(req.body);
       const system = await storage.createSystem(validatedData);
@@ -2034,7 +2359,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/systems", async (req, res) => {
+  app.post("/api/systems", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const validatedData = insertSystemSchema.parse(req.body);
       const system = await storage.createSystem(validatedData);
@@ -2049,7 +2374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/sources/:id", async (req, res) => {
+  app.patch("/api/sources/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertSystemSchema.partial().parse(req.body);
@@ -2060,7 +2385,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/systems/:id", async (req, res) => {
+  app.patch("/api/systems/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertSystemSchema.partial().parse(req.body);
@@ -2072,7 +2397,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT endpoint for /api/sources/:id (full update)
-  app.put("/api/sources/:id", async (req, res) => {
+  app.put("/api/sources/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertSystemSchema.parse(req.body);
@@ -2089,7 +2414,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE endpoint for /api/sources/:id
-  app.delete("/api/sources/:id", async (req, res) => {
+  app.delete("/api/sources/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteSystem(id);
@@ -2101,7 +2426,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PUT endpoint for /api/systems/:id (full update)
-  app.put("/api/systems/:id", async (req, res) => {
+  app.put("/api/systems/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = insertSystemSchema.parse(req.body);
@@ -2118,7 +2443,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // DELETE endpoint for /api/systems/:id
-  app.delete("/api/systems/:id", async (req, res) => {
+  app.delete("/api/systems/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteSystem(id);
@@ -2196,7 +2521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/systems/:id/objects/:objectId", async (req, res) => {
+  app.patch("/api/systems/:id/objects/:objectId", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const systemId = parseInt(req.params.id);
       const objectId = parseInt(req.params.objectId);
@@ -2268,7 +2593,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/systems/:id/objects/:objectId", async (req, res) => {
+  app.delete("/api/systems/:id/objects/:objectId", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const systemId = parseInt(req.params.id);
       const objectId = parseInt(req.params.objectId);
@@ -2305,7 +2630,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/systems/:id/sync-objects", async (req, res) => {
+  app.post("/api/systems/:id/sync-objects", requirePermission("systems:sync"), async (req, res) => {
     try {
       const systemId = parseInt(req.params.id);
       if (!Number.isFinite(systemId)) {
@@ -2335,7 +2660,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sources/test-connection", async (req, res) => {
+  // Accepts a multipart `file` (sync options as a JSON `options` field) or a JSON body with `document`
+  app.post("/api/systems/:id/import/api-schema", requirePermission("systems:sync"), upload.single("file"), async (req, res) => {
+    try {
+      const systemId = parseInt(req.params.id);
+      if (!Number.isFinite(systemId)) {
+        return res.status(400).json({ message: "Invalid system id" });
+      }
+
+      let options: unknown = req.body ?? {};
+      if (req.file) {
+        try {
+          options = typeof req.body?.options === "string" ? JSON.parse(req.body.options) : {};
+        } catch {
+          return res.status(400).json({ message: "Import options must be valid JSON" });
+        }
+      }
+      const parsed = systemSyncRequestSchema.omit({ metadataOnly: true }).safeParse(options);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid import request",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      const document = req.file
+        ? req.file.buffer.toString("utf-8")
+        : typeof req.body?.document === "string"
+          ? req.body.document
+          : "";
+      const result = await importApiSchemaIntoSystem({ systemId, document, ...parsed.data }, storage);
+      res.json(result);
+    } catch (error) {
+      console.error("Failed to import API schema:", error);
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/sources/test-connection", requirePermission("systems:sync"), async (req, res) => {
     try {
       const { type, configuration } = req.body;
       
@@ -2352,7 +2715,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/systems/:id/test-connection", async (req, res) => {
+  app.post("/api/systems/:id/test-connection", requirePermission("systems:sync"), async (req, res) => {
     try {
       const systemId = parseInt(req.params.id);
       if (!Number.isFinite(systemId)) {
@@ -2405,68 +2768,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File Upload endpoints
-  app.post("/api/upload/csv", upload.single("file"), async (req, res) => {
+  app.post("/api/upload/csv", requirePermission("models:edit"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
-      const fileContent = req.file.buffer.toString('utf-8');
-      const metadata = await dataConnectors.parseCSVFile(fileContent);
+      const metadata = await dataConnectors.parseCSVFile(req.file.buffer, req.file.originalname);
       res.json(metadata);
-    } catch (error) {
-      res.status(400).json({ message: "Failed to parse CSV file" });
+    } catch (error: any) {
+      res.status(400).json({ message: error?.message || "Failed to parse CSV file" });
     }
   });
 
-  app.post("/api/upload/excel", upload.single("file"), async (req, res) => {
+  app.post("/api/upload/excel", requirePermission("models:edit"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
-      const metadata = await dataConnectors.parseExcelFile(req.file.buffer);
+      const metadata = await dataConnectors.parseExcelFile(req.file.buffer, { profile: req.body?.profile === "true" });
       res.json(metadata);
     } catch (error: any) {
       res.status(400).json({ message: error?.message || "Failed to parse Excel file" });
     }
   });
 
-  app.post("/api/upload/parquet", upload.single("file"), async (req, res) => {
+  app.post("/api/upload/parquet", requirePermission("models:edit"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
-      const metadata = await dataConnectors.parseParquetFile(req.file.buffer);
+      const tableName = path.parse(req.file.originalname).name || undefined;
+      const metadata = await dataConnectors.parseParquetFile(req.file.buffer, tableName, {
+        profile: req.body?.profile === "true",
+      });
       res.json(metadata);
     } catch (error: any) {
       res.status(400).json({ message: error?.message || "Failed to parse Parquet file" });
     }
   });
 
-  app.post("/api/upload/sqlite", upload.single("file"), async (req, res) => {
+  app.post("/api/upload/sqlite", requirePermission("models:edit"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
-      const metadata = await dataConnectors.parseSQLiteFile(req.file.buffer);
+      const metadata = await dataConnectors.parseSQLiteFile(req.file.buffer, { profile: req.body?.profile === "true" });
       res.json(metadata);
     } catch (error: any) {
       res.status(400).json({ message: error?.message || "Failed to parse SQLite file" });
     }
   });
 
-  app.post("/api/upload/ddl", upload.single("file"), async (req, res) => {
+  app.post("/api/upload/ddl", requirePermission("models:edit"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
       
       const ddlContent = req.file.buffer.toString('utf-8');
-      const metadata = await dataConnectors.parseDDLScript(ddlContent);
-      res.json(metadata);
+      const result = await dataConnectors.parseDDLScript(ddlContent);
+      res.json(result);
     } catch (error: any) {
       res.status(400).json({ message: error?.message || "Failed to parse DDL script" });
     }
@@ -2516,29 +2881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   console.log(`[CANVAS] Found ${relationships.length} relationships for layer ${layerId}`);
   const modelObjectsById = new Map(modelObjects.map(mo => [mo.id, mo]));
   const relevantObjectIds = new Set(modelObjects.map(mo => mo.objectId).filter((id): id is number => id !== null));
-  const dataObjectRelationships = await storage.getDataObjectRelationships();
-  const globalRelationshipMap = new Map<string, DataObjectRelationship>();
-
-  for (const relationship of dataObjectRelationships) {
-    if (
-      !relevantObjectIds.has(relationship.sourceDataObjectId) ||
-      !relevantObjectIds.has(relationship.targetDataObjectId)
-    ) {
-      continue;
-    }
-
-    const key = buildRelationshipKey(
-      relationship.sourceDataObjectId,
-      relationship.targetDataObjectId,
-      relationship.relationshipLevel === "attribute" ? "attribute" : "object",
-      relationship.sourceAttributeId ?? null,
-      relationship.targetAttributeId ?? null,
-    );
-
-    if (!globalRelationshipMap.has(key)) {
-      globalRelationshipMap.set(key, relationship);
-    }
-  }
+  const globalRelationshipMap = indexDataObjectRelationships(await storage.getDataObjectRelationships(), relevantObjectIds);
   
   // OPTIMIZATION: Batch fetch all domains, areas, systems, and data objects
   console.log(`[CANVAS] Batch fetching reference data...`);
@@ -2553,10 +2896,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   ]);
   
   // Build lookup maps for O(1) access
-  const domainsById = new Map(allDomains.map(d => [d.id, d]));
-  const areasById = new Map(allDataAreas.map(a => [a.id, a]));
-  const systemsById = new Map(allSystems.map(s => [s.id, s]));
-  const dataObjectsById = new Map(allDataObjects.map(o => [o.id, o]));
+  const lookups: CanvasLookups = {
+    domainsById: new Map(allDomains.map(d => [d.id, d])),
+    areasById: new Map(allDataAreas.map(a => [a.id, a])),
+    systemsById: new Map(allSystems.map(s => [s.id, s])),
+    dataObjectsById: new Map(allDataObjects.map(o => [o.id, o])),
+  };
   
   // OPTIMIZATION: Batch fetch layer positions if we're switching layers
   let layerPositionsMap = new Map<number, { positionX: number | null; positionY: number | null }>();
@@ -2573,168 +2918,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
       // Get attributes for each object and include domain/area information
       // ALL objects on canvas are rendered from data_model_objects table only
-      const nodes = visibleModelObjects.map(modelObj => {
-        // All objects - data is in data_model_objects
-        const modelAttrs = modelAttributesByModelObjectId.get(modelObj.id) ?? [];
-        
-        // If name is missing, try to get it from linked data_object
-        let objectName = modelObj.name;
-        let objectDescription = modelObj.description;
-        let objectType = modelObj.objectType;
-        
-        if (modelObj.objectId && !objectName) {
-          const dataObject = dataObjectsById.get(modelObj.objectId);
-          if (dataObject) {
-            objectName = dataObject.name;
-            objectDescription = objectDescription || dataObject.description;
-            objectType = objectType || dataObject.objectType;
-          }
-        }
-        
-        // Get domain and area information (now from cached maps)
-        let domainName, domainColor, dataAreaName;
-        if (modelObj.domainId) {
-          const domain = domainsById.get(modelObj.domainId);
-          domainName = domain?.name;
-          domainColor = domain?.colorCode;
-        }
-        if (modelObj.dataAreaId) {
-          const dataArea = areasById.get(modelObj.dataAreaId);
-          dataAreaName = dataArea?.name;
-        }
-        
-        // Get source and target system names (now from cached map)
-        let sourceSystemName, targetSystemName;
-        if (modelObj.sourceSystemId) {
-          const sourceSystem = systemsById.get(modelObj.sourceSystemId);
-          sourceSystemName = sourceSystem?.name;
-        }
-        if (modelObj.targetSystemId) {
-          const targetSystem = systemsById.get(modelObj.targetSystemId);
-          targetSystemName = targetSystem?.name;
-        }
-        
-        // Get position from layer-specific storage (data_model_layer_objects table)
-        let position = { x: 100, y: 100 }; // Default position
-        
-        if (targetLayerId) {
-          const layerPosition = layerPositionsMap.get(modelObj.id);
-          
-          if (layerPosition && layerPosition.positionX !== null && layerPosition.positionY !== null) {
-            // Use layer-specific position if available
-            position = { 
-              x: layerPosition.positionX, 
-              y: layerPosition.positionY 
-            };
-          } else if (modelObj.position) {
-            // Fallback to old position storage for backward compatibility
-            if (typeof modelObj.position === 'string') {
-              try {
-                position = JSON.parse(modelObj.position);
-              } catch (e) {
-                console.warn("Failed to parse position:", modelObj.position);
-              }
-            } else {
-              position = modelObj.position;
-            }
-          }
-        } else if (modelObj.position) {
-          // Fallback to old position storage for backward compatibility
-          if (typeof modelObj.position === 'string') {
-            try {
-              position = JSON.parse(modelObj.position);
-            } catch (e) {
-              console.warn("Failed to parse position:", modelObj.position);
-            }
-          } else {
-            position = modelObj.position;
-          }
-        }
-        
-        return {
-          id: modelObj.id.toString(),
-          type: "dataObject",
-          position,
-          data: {
-            id: modelObj.id,
-            objectId: modelObj.objectId, // The actual data_objects.id (null for user-created)
-            modelObjectId: modelObj.id,  // The data_model_objects.id (always present)
-            name: objectName || "Unnamed Object",
-            objectType: objectType || "entity",
-            description: objectDescription,
-            domainId: modelObj.domainId,
-            dataAreaId: modelObj.dataAreaId,
-            domain: domainName, // For node display (was domainName)
-            domainName, // Keep for compatibility
-            domainColor,
-            dataArea: dataAreaName, // For node display (was dataAreaName)
-            dataAreaName, // Keep for compatibility
-            sourceSystem: sourceSystemName, // For node display (was sourceSystemId)
-            targetSystem: targetSystemName, // For node display (was targetSystemId)
-            sourceSystemId: modelObj.sourceSystemId, // Keep ID for reference
-            targetSystemId: modelObj.targetSystemId, // Keep ID for reference
-            attributes: modelAttrs.map((ma: any) => ({
-              id: ma.id,  // Model attribute ID (for internal reference)
-              attributeId: ma.attributeId,  // Global attribute ID (for handles and edges)
-              name: ma.name || "Unnamed Attribute",
-              conceptualType: ma.conceptualType,
-              logicalType: ma.logicalType,
-              physicalType: ma.physicalType,
-              dataType: ma.dataType,
-              nullable: ma.nullable,
-              isPrimaryKey: ma.isPrimaryKey,
-              isForeignKey: ma.isForeignKey,
-              orderIndex: ma.orderIndex,
-            })),
-            metadata: modelObj.metadata,
-            layerSpecificConfig: modelObj.layerSpecificConfig,
-            isUserCreated: modelObj.objectId === null, // Flag to identify user-created vs synced
-            isNew: modelObj.objectId === null, // User-created objects show as "new" with green styling
-            commonProperties: null, // Legacy field for compatibility
-          },
-        };
-      });
+      const nodes = visibleModelObjects.map(modelObj =>
+        toCanvasNode(
+          modelObj,
+          modelAttributesByModelObjectId.get(modelObj.id) ?? [],
+          // Position from layer-specific storage (data_model_layer_objects table) when switching layers
+          resolveCanvasPosition(modelObj, targetLayerId ? layerPositionsMap.get(modelObj.id) : undefined),
+          lookups,
+        )
+      );
       
       // All nodes are valid (from data_model_objects only)
       const validNodes = nodes;
       
       // Filter relationships based on layer
-      let filteredRelationships = relationships;
-      console.log(`[CANVAS] Starting with ${relationships.length} total relationships for layer ${layerId}`);
-      
-      if (layerKey === "conceptual") {
-        // Conceptual layer: ONLY show object-to-object relationships (no attribute-specific relationships)
-        filteredRelationships = relationships.filter(rel => !rel.sourceAttributeId && !rel.targetAttributeId);
-        console.log(`[CANVAS] Conceptual layer: Showing ${filteredRelationships.length} object-level relationships out of ${relationships.length} total`);
-      } else if (layerKey === "logical" || layerKey === "physical") {
-        // Logical and Physical layers: ONLY show attribute-level relationships
-        console.log(`[CANVAS] Filtering ${relationships.length} relationships for ${layerKey} layer`);
-        relationships.forEach(rel => {
-          console.log(`[CANVAS] Relationship ${rel.id}: ` +
-            `sourceAttrId=${rel.sourceAttributeId}, ` +
-            `targetAttrId=${rel.targetAttributeId}, ` +
-            `level=${rel.relationshipLevel}, ` +
-            `hasSource=${!!rel.sourceAttributeId}, ` +
-            `hasTarget=${!!rel.targetAttributeId}, ` +
-            `isAttribute=${rel.relationshipLevel === "attribute"}`
-          );
-        });
-        
-        // Must have BOTH source and target attribute IDs
-        filteredRelationships = relationships.filter(rel => {
-          const hasSource = !!rel.sourceAttributeId;
-          const hasTarget = !!rel.targetAttributeId;
-          const isAttribute = rel.relationshipLevel === "attribute";
-          const passes = hasSource && hasTarget && isAttribute;
-          
-          if (!passes) {
-            console.log(`[CANVAS] Filtering OUT relationship ${rel.id}: hasSource=${hasSource}, hasTarget=${hasTarget}, isAttribute=${isAttribute}`);
-          }
-          
-          return passes;
-        });
-        console.log(`[CANVAS] After filtering: ${filteredRelationships.length} attribute-level relationships`);
-      }
+      const filteredRelationships = relationships.filter(rel => isRelationshipShownOnLayer(rel, layerKey));
+      console.log(`[CANVAS] Showing ${filteredRelationships.length} of ${relationships.length} relationships on the ${layerKey} layer`);
       
       // OPTIMIZATION: Batch fetch all model attributes needed for relationships
       const uniqueModelAttrIds = new Set<number>();
@@ -2766,80 +2965,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`[CANVAS] Built model attr map with ${modelAttrMap.size} entries`);
       
-      const edges = filteredRelationships.map(rel => {
-        // Get the actual object IDs from the model objects (already in map)
-        const sourceModelObject = modelObjectsById.get(rel.sourceModelObjectId);
-        const targetModelObject = modelObjectsById.get(rel.targetModelObjectId);
-        
-        console.log(`[CANVAS] Processing relationship ${rel.id}:`);
-        console.log(`  - sourceModelObjectId: ${rel.sourceModelObjectId}, found: ${!!sourceModelObject}`);
-        console.log(`  - targetModelObjectId: ${rel.targetModelObjectId}, found: ${!!targetModelObject}`);
-        console.log(`  - sourceAttributeId: ${rel.sourceAttributeId}`);
-        console.log(`  - targetAttributeId: ${rel.targetAttributeId}`);
-        console.log(`  - relationshipLevel: ${rel.relationshipLevel}`);
-        
-        if (!sourceModelObject || !targetModelObject) {
-          console.warn(`[CANVAS] Missing model objects for relationship ${rel.id}:`);
-          console.warn(`  - Source model object ${rel.sourceModelObjectId}: ${sourceModelObject ? 'EXISTS' : 'MISSING'} ${sourceModelObject ? `(layer: ${sourceModelObject.modelId})` : ''}`);
-          console.warn(`  - Target model object ${rel.targetModelObjectId}: ${targetModelObject ? 'EXISTS' : 'MISSING'} ${targetModelObject ? `(layer: ${targetModelObject.modelId})` : ''}`);
-          console.warn(`  - Relationship is in layer: ${rel.modelId}`);
-          console.warn(`  - Current viewing layer: ${layerId}`);
-          return null;
-        }
-
-        // Resolve model attribute IDs to global attribute IDs for the UI (from cached map)
-        let globalSourceAttributeId = null;
-        let globalTargetAttributeId = null;
-        
-        if (rel.sourceAttributeId) {
-          const sourceModelAttr = modelAttrMap.get(rel.sourceAttributeId);
-          globalSourceAttributeId = sourceModelAttr?.attributeId ?? null;
-          console.log(`[CANVAS] Source attr ${rel.sourceAttributeId} -> global ${globalSourceAttributeId}`);
-        }
-        
-        if (rel.targetAttributeId) {
-          const targetModelAttr = modelAttrMap.get(rel.targetAttributeId);
-          globalTargetAttributeId = targetModelAttr?.attributeId ?? null;
-          console.log(`[CANVAS] Target attr ${rel.targetAttributeId} -> global ${globalTargetAttributeId}`);
-        }
-
-        const relationshipLevel = rel.relationshipLevel === "attribute" ? "attribute" : "object";
-        
-        // Use model object IDs for edge source/target to match node IDs
-        const sourceId = sourceModelObject.id;
-        const targetId = targetModelObject.id;
-        
-        // For global relationship lookup, use data object IDs
-        const sourceDataObjectId = sourceModelObject.objectId ?? sourceModelObject.id;
-        const targetDataObjectId = targetModelObject.objectId ?? targetModelObject.id;
-        
-        const key = buildRelationshipKey(
-          sourceDataObjectId,
-          targetDataObjectId,
-          relationshipLevel,
-          globalSourceAttributeId,
-          globalTargetAttributeId,
-        );
-
-        const dataObjectRelationshipId = globalRelationshipMap.get(key)?.id ?? null;
-
-        return {
-          id: rel.id.toString(),
-          source: sourceId.toString(),
-          target: targetId.toString(),
-          sourceHandle: rel.sourceHandle ?? undefined,
-          targetHandle: rel.targetHandle ?? undefined,
-          type: 'smoothstep',
-          label: rel.type,
-          data: {
-            relationshipId: rel.id,
-            relationshipType: rel.type,
-            sourceAttributeId: globalSourceAttributeId,
-            targetAttributeId: globalTargetAttributeId,
-            dataObjectRelationshipId,
-          }
-        };
-      });
+      const edges = filteredRelationships.map(rel =>
+        toCanvasEdge(rel, modelObjectsById, modelAttrMap, globalRelationshipMap)
+      );
 
       // Filter out null edges
       const validEdges = edges.filter(edge => edge !== null);
@@ -2856,7 +2984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Canvas position saving endpoint
-  app.post("/api/models/:id/canvas/positions", async (req, res) => {
+  app.post("/api/models/:id/canvas/positions", requirePermission("models:edit"), async (req, res) => {
     try {
   const layerId = parseInt(req.params.id); // This is actually a layer ID (data_model_layers.id)
   const { positions, layer } = req.body; // Array of { modelObjectId?: number, objectId?: number, position: { x: number, y: number } }
@@ -2962,7 +3090,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return modelObject;
       });
       
-      await Promise.all(updates);
+      const moved = await Promise.all(updates);
+      announceCanvasChange(req, res, layerId, {
+        kind: "positions",
+        positions: moved.map((modelObject, index) => ({
+          nodeId: String(modelObject.id),
+          position: { x: validPositions[index].position.x, y: validPositions[index].position.y },
+        })),
+      });
       res.json({ 
         success: true, 
         message: "Positions saved successfully",
@@ -3031,7 +3166,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/capabilities", async (req, res) => {
+  app.post("/api/capabilities", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const capability = await storage.createBusinessCapability(req.body);
       res.status(201).json(capability);
@@ -3041,7 +3176,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/capabilities/:id(\\d+)", async (req, res) => {
+  app.patch("/api/capabilities/:id(\\d+)", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const capability = await storage.updateBusinessCapability(id, req.body);
@@ -3052,7 +3187,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/capabilities/:id(\\d+)", async (req, res) => {
+  app.delete("/api/capabilities/:id(\\d+)", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteBusinessCapability(id);
@@ -3064,7 +3199,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Capability-Domain Mappings
-  app.post("/api/capabilities/:capabilityId/domains/:domainId", async (req, res) => {
+  app.post("/api/capabilities/:capabilityId/domains/:domainId", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const capabilityId = parseInt(req.params.capabilityId);
       const domainId = parseInt(req.params.domainId);
@@ -3080,7 +3215,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/capability-domain-mappings/:id", async (req, res) => {
+  app.delete("/api/capability-domain-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteCapabilityDomainMapping(id);
@@ -3092,7 +3227,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Capability-DataArea Mappings
-  app.post("/api/capabilities/:capabilityId/data-areas/:dataAreaId", async (req, res) => {
+  app.post("/api/capabilities/:capabilityId/data-areas/:dataAreaId", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const capabilityId = parseInt(req.params.capabilityId);
       const dataAreaId = parseInt(req.params.dataAreaId);
@@ -3108,7 +3243,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/capability-data-area-mappings/:id", async (req, res) => {
+  app.delete("/api/capability-data-area-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteCapabilityDataAreaMapping(id);
@@ -3120,7 +3255,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Capability-System Mappings
-  app.post("/api/capabilities/:capabilityId/systems/:systemId", async (req, res) => {
+  app.post("/api/capabilities/:capabilityId/systems/:systemId", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const capabilityId = parseInt(req.params.capabilityId);
       const systemId = parseInt(req.params.systemId);
@@ -3136,7 +3271,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/capability-system-mappings/:id", async (req, res) => {
+  app.delete("/api/capability-system-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteCapabilitySystemMapping(id);
@@ -3147,29 +3282,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI Suggestions
-  app.post("/api/ai/modeling-agent", async (req, res) => {
+  // Capability → Model traceability (capability_data_model_mappings) and model+system triples
+  app.get("/api/capabilities/traceability/heatmap", async (_req, res) => {
     try {
-      const result = await executeModelingAgent(req.body);
-      res.json(result);
+      const heatmap = await capabilityTraceabilityService.getHeatmap();
+      res.json(heatmap);
     } catch (error) {
       const errorResponse = handleError(error);
       res.status(errorResponse.status).json(errorResponse.body);
     }
   });
 
-  app.post("/api/ai/suggest-domain", async (req, res) => {
+  app.get("/api/capabilities/:id(\\d+)/model-mappings", async (req, res) => {
     try {
-      const { objectName, attributes } = req.body;
-      const suggestions = await suggestDomainClassification(objectName, attributes);
-      res.json(suggestions);
-    } catch (error) {
+      const capabilityId = parseRequiredNumber(req.params.id, "Capability id");
+      if (!(await storage.getBusinessCapability(capabilityId))) {
+        return res.status(404).json({ message: "Capability not found" });
+      }
+      const mappings = await storage.getCapabilityModelMappings(capabilityId);
+      res.json(mappings);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/capabilities/:id(\\d+)/model-mappings", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const capabilityId = parseRequiredNumber(req.params.id, "Capability id");
+      const input = capabilityModelMappingRequestSchema.parse(req.body ?? {});
+      const mapping = await storage.createCapabilityModelMapping({ ...input, capabilityId });
+      res.status(201).json(mapping);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.patch("/api/capability-model-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const id = parseRequiredNumber(req.params.id, "Mapping id");
+      const input = capabilityModelMappingRequestSchema.partial().parse(req.body ?? {});
+      const mapping = await storage.updateCapabilityModelMapping(id, input);
+      res.json(mapping);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.delete("/api/capability-model-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const id = parseRequiredNumber(req.params.id, "Mapping id");
+      await storage.deleteCapabilityModelMapping(id);
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/capabilities/:id(\\d+)/model-system-mappings", async (req, res) => {
+    try {
+      const capabilityId = parseRequiredNumber(req.params.id, "Capability id");
+      if (!(await storage.getBusinessCapability(capabilityId))) {
+        return res.status(404).json({ message: "Capability not found" });
+      }
+      const mappings = await storage.getCapabilityModelSystemMappings(capabilityId);
+      res.json(mappings);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/capabilities/:id(\\d+)/model-system-mappings", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const capabilityId = parseRequiredNumber(req.params.id, "Capability id");
+      const input = capabilityModelSystemMappingRequestSchema.parse(req.body ?? {});
+      const mapping = await storage.createCapabilityModelSystemMapping({ ...input, capabilityId });
+      res.status(201).json(mapping);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.patch("/api/capability-model-system-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const id = parseRequiredNumber(req.params.id, "Mapping id");
+      const input = capabilityModelSystemMappingRequestSchema.partial().parse(req.body ?? {});
+      const mapping = await storage.updateCapabilityModelSystemMapping(id, input);
+      res.json(mapping);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.delete("/api/capability-model-system-mappings/:id", requirePermission("catalog:edit"), async (req, res) => {
+    try {
+      const id = parseRequiredNumber(req.params.id, "Mapping id");
+      await storage.deleteCapabilityModelSystemMapping(id);
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // AI Suggestions
+  app.post("/api/ai/modeling-agent", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const result = await executeModelingAgent(req.body);
+      res.json(result);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/ai/suggest-domain", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const { objectName, attributes } = req.body;
+      const suggestions = await suggestDomainClassification(objectName, attributes);
+      res.json(suggestions);
+    } catch (error) {
       const errorResponse = handleError(error);
       res.status(errorResponse.status).json(errorResponse.body);
     }
   });
 
-  app.post("/api/ai/suggest-relationships", async (req, res) => {
+  app.post("/api/ai/suggest-relationships", requirePermission("models:edit"), async (req, res) => {
     try {
       const { modelId, layer } = req.body;
       const suggestions = await suggestRelationshipsForModel(modelId, layer, storage);
@@ -3180,7 +3424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/suggest-types", async (req, res) => {
+  app.post("/api/ai/suggest-types", requirePermission("models:edit"), async (req, res) => {
     try {
       const { conceptualType, attributeName, context } = req.body;
       const suggestions = await suggestTypeMappings(conceptualType, attributeName, context);
@@ -3191,7 +3435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/suggest-normalization", async (req, res) => {
+  app.post("/api/ai/suggest-normalization", requirePermission("models:edit"), async (req, res) => {
     try {
       const { modelId } = req.body;
       const suggestions = await suggestNormalizationImprovements(modelId, storage);
@@ -3369,7 +3613,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/config", async (req, res) => {
+  app.post("/api/config", requirePermission("config:edit"), async (req, res) => {
     try {
       const { configuration, created } = await upsertConfigurationEntry(req.body);
       res.status(created ? 201 : 200).json(configuration);
@@ -3382,7 +3626,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/config/:category/:key", async (req, res) => {
+  app.put("/api/config/:category/:key", requirePermission("config:edit"), async (req, res) => {
     try {
       const { category, key } = req.params;
       const update = configurationUpdateSchema.parse(req.body);
@@ -3408,7 +3652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/config/:category/:key", async (req, res) => {
+  app.delete("/api/config/:category/:key", requirePermission("config:edit"), async (req, res) => {
     try {
       const { category, key } = req.params;
       const existing = await storage.getConfiguration(category, key);
@@ -3425,7 +3669,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced Configuration endpoints
-  app.post("/api/config/batch", async (req, res) => {
+  app.post("/api/config/batch", requirePermission("config:edit"), async (req, res) => {
     try {
       const { configurations } = req.body;
       if (!Array.isArray(configurations)) {
@@ -3527,7 +3771,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/configurations", async (req, res) => {
+  app.post("/api/configurations", requirePermission("config:edit"), async (req, res) => {
     try {
       const { configuration, created } = await upsertConfigurationEntry(req.body);
       res.status(created ? 201 : 200).json(configuration);
@@ -3541,7 +3785,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/configurations/:id", async (req, res) => {
+  app.put("/api/configurations/:id", requirePermission("config:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const update = configurationUpdateSchema.parse(req.body);
@@ -3571,7 +3815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/configurations/:id", async (req, res) => {
+  app.delete("/api/configurations/:id", requirePermission("config:edit"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteConfiguration(id);
@@ -3600,6 +3844,362 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Model versioning - versions belong to the model family, addressed through any of its layers
+  app.get("/api/models/:id/versions", async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const versions = await modelVersioningService.listVersions(layer.dataModelId);
+      res.json(versions);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/versions", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const input = createModelVersionRequestSchema.parse(req.body ?? {});
+      const { snapshot, ...version } = await modelVersioningService.createVersion(
+        layer.dataModelId,
+        input,
+        req.auth?.userId,
+      );
+      res.status(201).json(version);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/model-versions/:versionId", async (req, res) => {
+    try {
+      const versionId = parseRequiredNumber(req.params.versionId, "Version id");
+      const version = await modelVersioningService.getVersion(versionId);
+      res.json(version);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/model-versions/:versionId/diff", async (req, res) => {
+    try {
+      const versionId = parseRequiredNumber(req.params.versionId, "Version id");
+      const target = req.query.to === undefined || req.query.to === "current"
+        ? "current"
+        : parseRequiredNumber(req.query.to, "Target version id");
+
+      const diff = await modelVersioningService.diffVersions(versionId, target);
+      res.json(diff);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/model-versions/:versionId/tags", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const versionId = parseRequiredNumber(req.params.versionId, "Version id");
+      const { name } = modelVersionTagRequestSchema.parse(req.body ?? {});
+      const tag = await modelVersioningService.tagVersion(versionId, name, req.auth?.userId);
+      res.status(201).json(tag);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.delete("/api/model-version-tags/:tagId", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const tagId = parseRequiredNumber(req.params.tagId, "Tag id");
+      await modelVersioningService.removeTag(tagId);
+      res.status(204).send();
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/model-versions/:versionId/restore", requirePermission("models:delete"), async (req, res) => {
+    try {
+      const versionId = parseRequiredNumber(req.params.versionId, "Version id");
+      const { restored, backup } = await modelVersioningService.restoreVersion(versionId, req.auth?.userId);
+      res.json({
+        restoredVersionId: restored.id,
+        restoredVersionNumber: restored.versionNumber,
+        backupVersionId: backup.id,
+        backupVersionNumber: backup.versionNumber,
+      });
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Model lifecycle - phases are shared; progress belongs to the model family, addressed through any of its layers
+  app.get("/api/lifecycle/phases", async (_req, res) => {
+    try {
+      const phases = await modelLifecycleService.listPhases();
+      res.json(phases);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/lifecycle/models", async (_req, res) => {
+    try {
+      const lifecycles = await modelLifecycleService.listModelLifecycles();
+      res.json(lifecycles);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.get("/api/models/:id/lifecycle", async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const lifecycle = await modelLifecycleService.getModelLifecycle(layer.dataModelId);
+      res.json(lifecycle);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/lifecycle/transition", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const input = lifecycleTransitionRequestSchema.parse(req.body ?? {});
+      const lifecycle = await modelLifecycleService.transition(layer.dataModelId, input, requireUserId());
+      res.json(lifecycle);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/lifecycle/approval-request", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const { notes } = lifecycleApprovalRequestSchema.parse(req.body ?? {});
+      const lifecycle = await modelLifecycleService.requestApproval(layer.dataModelId, notes, requireUserId());
+      res.json(lifecycle);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/lifecycle/approval", requirePermission("models:approve"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const layer = await storage.getDataModelLayer(layerId);
+      if (!layer) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      const { decision, notes } = lifecycleDecisionRequestSchema.parse(req.body ?? {});
+      const lifecycle = await modelLifecycleService.recordDecision(
+        layer.dataModelId,
+        decision,
+        notes,
+        requireUserId(),
+      );
+      res.json(lifecycle);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Review comments - threads on a layer or on an object, attribute or relationship of it
+  app.get("/api/models/:id/comments", async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const status = req.query.status === undefined || req.query.status === "all"
+        ? undefined
+        : commentThreadStatusRequestSchema.shape.status.parse(req.query.status);
+      const threads = await modelCommentService.listThreads(layerId, requireOrganizationId(), status);
+      res.json(threads);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/comments", requirePermission("models:comment"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const input = createCommentThreadRequestSchema.parse(req.body ?? {});
+      const thread = await modelCommentService.createThread(layerId, input, {
+        userId: requireUserId(),
+        organizationId: requireOrganizationId(),
+      });
+      res.status(201).json(thread);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/comments/threads/:id/replies", requirePermission("models:comment"), async (req, res) => {
+    try {
+      const threadId = parseRequiredNumber(req.params.id, "Thread id");
+      const { body } = commentReplyRequestSchema.parse(req.body ?? {});
+      const thread = await modelCommentService.reply(threadId, body, {
+        userId: requireUserId(),
+        organizationId: requireOrganizationId(),
+      });
+      res.status(201).json(thread);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.patch("/api/comments/threads/:id", requirePermission("models:comment"), async (req, res) => {
+    try {
+      const threadId = parseRequiredNumber(req.params.id, "Thread id");
+      const { status } = commentThreadStatusRequestSchema.parse(req.body ?? {});
+      const thread = await modelCommentService.setStatus(threadId, status, {
+        userId: requireUserId(),
+        organizationId: requireOrganizationId(),
+      });
+      res.json(thread);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Audit log - who created, changed or deleted modeling metadata, newest first
+  app.get("/api/audit-log", requirePermission("audit:view"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const page = await auditLogService.list(query, requireOrganizationId());
+      res.json(page);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Undo/redo history - the caller's commands on a layer, oldest first
+  app.get("/api/models/:id/history", async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const commands = await commandHistoryService.list(layerId, requireUserId());
+      res.json(commands);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/history", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const input = recordHistoryCommandRequestSchema.parse(req.body ?? {});
+      const command = await commandHistoryService.record(layerId, input, requireUserId());
+      if (!command) {
+        return res.status(204).send();
+      }
+      res.status(201).json(command);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/history/undo", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const command = await commandHistoryService.undo(layerId, requireUserId());
+      res.json(command);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  app.post("/api/models/:id/history/redo", requirePermission("models:edit"), async (req, res) => {
+    try {
+      const layerId = parseRequiredNumber(req.params.id, "Model id");
+      const command = await commandHistoryService.redo(layerId, requireUserId());
+      res.json(command);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // Schema migration between a physical layer and a baseline layer or live system
+  app.post("/api/migrations/generate", async (req, res) => {
+    try {
+      const parsed = migrationGenerateRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid migration request",
+          details: parsed.error.flatten(),
+        });
+      }
+
+      const result = await generateLayerMigration(parsed.data, storage);
+      res.json(result);
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
+  // dbt project scaffold as a zip archive
+  app.post("/api/export/dbt", async (req, res) => {
+    try {
+      const { modelId, options } = req.body;
+
+      if (!modelId) {
+        return res.status(400).json({ message: "Model ID is required" });
+      }
+
+      const { fileName, archive } = await exportDbtScaffold(modelId, options ?? {}, storage);
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(Buffer.from(archive));
+    } catch (error) {
+      const errorResponse = handleError(error);
+      res.status(errorResponse.status).json(errorResponse.body);
+    }
+  });
+
   // SVG Export
   // SVG Export
   app.post("/api/export/svg", async (req, res) => {
@@ -3623,7 +4223,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Utility endpoint to ensure all existing objects have layer mappings
-  app.post("/api/admin/ensure-layer-mappings", async (req, res) => {
+  app.post("/api/admin/ensure-layer-mappings", requirePermission("config:edit"), async (req, res) => {
     try {
       console.log('[API] Starting layer mappings sync...');
       const result = await storage.ensureAllLayerMappings();
@@ -3644,6 +4244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachCollaborationServer(httpServer);
   
   // Run layer mappings sync on server startup for existing data
   console.log('[STARTUP] Ensuring layer mappings for existing objects...');
@@ -1,12 +1,14 @@
 import { db } from "./db";
+import { DEFAULT_ORGANIZATION_ID } from "./auth/context";
 import { businessCapabilities, capabilityDataDomainMappings, dataDomains, type DataDomain } from "@shared/schema";
+import { eq } from "drizzle-orm";
 
 export async function seedCapabilities() {
   console.log("🌱 Seeding business capabilities...");
 
   try {
     // First, let's get existing domains
-    const domains = await db.select().from(dataDomains);
+    const domains = await db.select().from(dataDomains).where(eq(dataDomains.organizationId, DEFAULT_ORGANIZATION_ID));
     console.log("Found domains:", domains.map((d: DataDomain) => d.name));
 
     // Clear existing capability data
@@ -29,7 +31,8 @@ export async function seedCapabilities() {
         colorCode: "#8B5CF6",
         icon: "target",
         isStandard: true,
-        criticality: "high"
+        criticality: "high",
+        organizationId: DEFAULT_ORGANIZATION_ID
       },
       {
         name: "Operational Excellence",
@@ -41,7 +44,8 @@ export async function seedCapabilities() {
         colorCode: "#3B82F6",
         icon: "operations",
         isStandard: true,
-        criticality: "critical"
+        criticality: "critical",
+        organizationId: DEFAULT_ORGANIZATION_ID
       }
     ]).returning();
 
@@ -58,7 +62,8 @@ export async function seedCapabilities() {
         icon: "production",
         isStandard: true,
         criticality: "critical",
-        maturityLevel: "managed"
+        maturityLevel: "managed",
+        organizationId: DEFAULT_ORGANIZATION_ID
       },
       {
         name: "Quality Management",
@@ -71,7 +76,8 @@ export async function seedCapabilities() {
         icon: "quality",
         isStandard: true,
         criticality: "critical",
-        maturityLevel: "managed"
+        maturityLevel: "managed",
+        organizationId: DEFAULT_ORGANIZATION_ID
       }
     ]).returning();
 
@@ -1,5 +1,8 @@
 import { db } from "./db";
+import { DEFAULT_ORGANIZATION_ID } from "./auth/context";
+import { DEFAULT_LIFECYCLE_PHASES } from "./services/modelLifecycle";
 import {
+  organizations,
   dataModels,
   dataDomains,
   dataAreas,
@@ -93,56 +96,7 @@ interface LifecycleAssignmentSeed
   phaseKey: string;
 }
 
-const lifecyclePhasesSeed: InsertModelLifecyclePhase[] = [
-  {
-    key: "ideate",
-    name: "Ideation",
-    description: "Gather business needs and outline desired outcomes",
-    sequence: 1,
-    defaultDurationDays: 10,
-    requiresApproval: false,
-  },
-  {
-    key: "design",
-    name: "Design",
-    description: "Author conceptual and logical representations with stakeholders",
-    sequence: 2,
-    defaultDurationDays: 30,
-    requiresApproval: true,
-  },
-  {
-    key: "build",
-    name: "Build",
-    description: "Implement physical models and integration patterns",
-    sequence: 3,
-    defaultDurationDays: 25,
-    requiresApproval: true,
-  },
-  {
-    key: "validate",
-    name: "Validate",
-    description: "Complete testing, data quality checks, and sign-offs",
-    sequence: 4,
-    defaultDurationDays: 15,
-    requiresApproval: true,
-  },
-  {
-    key: "deploy",
-    name: "Deploy",
-    description: "Promote to production and enable consumption pathways",
-    sequence: 5,
-    defaultDurationDays: 10,
-    requiresApproval: false,
-  },
-  {
-    key: "monitor",
-    name: "Monitor",
-    description: "Track adoption, SLAs, and identify optimization opportunities",
-    sequence: 6,
-    defaultDurationDays: 30,
-    requiresApproval: false,
-  },
-];
+const lifecyclePhasesSeed: InsertModelLifecyclePhase[] = DEFAULT_LIFECYCLE_PHASES;
 
 const systemsSeed: Array<Keyed<InsertSystem>> = [
   {
@@ -2468,9 +2422,16 @@ export async function seedDatabase() {
       await trx.delete(dataDomains);
       await trx.delete(systems);
 
+      // Seed data belongs to the default organization
+      const organizationId = DEFAULT_ORGANIZATION_ID;
+      await trx
+        .insert(organizations)
+        .values({ id: organizationId, name: "Default Organization", slug: "default" })
+        .onConflictDoNothing();
+
       const insertedSystems = await trx
         .insert(systems)
-        .values(systemsSeed.map(({ key: _key, ...values }) => values))
+        .values(systemsSeed.map(({ key: _key, ...values }) => ({ ...values, organizationId })))
         .returning();
       const systemIdByKey = new Map<string, System["id"]>();
   insertedSystems.forEach((row: System, index: number) => {
@@ -2485,7 +2446,7 @@ export async function seedDatabase() {
 
       const insertedDomains = await trx
         .insert(dataDomains)
-        .values(dataDomainsSeed.map(({ key: _key, ...values }) => values))
+        .values(dataDomainsSeed.map(({ key: _key, ...values }) => ({ ...values, organizationId })))
         .returning();
       const domainIdByKey = new Map<string, DataDomain["id"]>();
   insertedDomains.forEach((row: DataDomain, index: number) => {
@@ -2519,6 +2480,7 @@ export async function seedDatabase() {
             dataAreaId: areaKey ? assertKeyedLookup(areaIdByKey, areaKey, "data area") : null,
             targetSystemId: targetSystemKey ? assertKeyedLookup(systemIdByKey, targetSystemKey, "system") : null,
             parentModelId: parentKey ? assertKeyedLookup(modelIdByKey, parentKey, "data model") : null,
+            organizationId,
           })
           .returning();
         modelIdByKey.set(key, insertedModel.id);
@@ -2534,6 +2496,7 @@ export async function seedDatabase() {
             dataAreaId: areaKey ? assertKeyedLookup(areaIdByKey, areaKey, "data area") : null,
             sourceSystemId: sourceSystemKey ? assertKeyedLookup(systemIdByKey, sourceSystemKey, "system") : null,
             targetSystemId: targetSystemKey ? assertKeyedLookup(systemIdByKey, targetSystemKey, "system") : null,
+            organizationId,
           }))
         )
         .returning();
@@ -2559,6 +2522,7 @@ export async function seedDatabase() {
           .values({
             ...values,
             parentId: parentKey ? assertKeyedLookup(capabilityIdByKey, parentKey, "business capability") : null,
+            organizationId,
           })
           .returning();
         capabilityIdByKey.set(key, insertedCapability.id);
@@ -2649,6 +2613,7 @@ export async function seedDatabase() {
             lifecyclePhases: lifecyclePhasesSeed.map((phase) => phase.key),
           },
           description: "Compact manufacturing BCM with explicit capability, domain, model, and system traceability",
+          organizationId,
         },
       ]);
     });
@@ -0,0 +1,255 @@
+import { parse as parseYaml } from "yaml";
+import type { ColumnMetadata, ForeignKeyMetadata, TableMetadata } from "./dataConnectors";
+
+/**
+ * Reads API contracts (OpenAPI 3.x, Swagger 2.0 and JSON Schema) into the same
+ * table metadata the database connectors produce, so system sync can register
+ * the schemas as data objects. Every named object schema becomes a table:
+ * `allOf` is merged as inheritance, `oneOf`/`anyOf` variants are merged as
+ * optional columns, and a `$ref` to another object schema becomes a foreign key
+ * (N:1 for a single reference, 1:N for an array of references).
+ */
+
+export type ApiSchemaFormat = "openapi" | "swagger" | "json_schema";
+
+export interface ApiSchemaParseResult {
+  format: ApiSchemaFormat;
+  title: string | null;
+  tables: TableMetadata[];
+  warnings: string[];
+}
+
+type JsonSchema = Record<string, any>;
+
+const REF_PREFIXES = ["#/components/schemas/", "#/definitions/", "#/$defs/"];
+const ROOT_SCHEMA_NAME = "Root";
+
+/** Accepts JSON or YAML text. */
+export function readApiSchemaDocument(content: string): unknown {
+  const text = content.replace(/^\uFEFF/, "").trim();
+  if (!text) {
+    throw new Error("An OpenAPI or JSON Schema document is required");
+  }
+  try {
+    return text.startsWith("{") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`API schema must be valid JSON or YAML: ${(error as Error).message}`);
+  }
+}
+
+const isObject = (value: unknown): value is JsonSchema =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function namedSchemas(document: JsonSchema): { format: ApiSchemaFormat; schemas: Record<string, JsonSchema> } {
+  if (typeof document.openapi === "string") {
+    return { format: "openapi", schemas: isObject(document.components?.schemas) ? document.components.schemas : {} };
+  }
+  if (typeof document.swagger === "string") {
+    return { format: "swagger", schemas: isObject(document.definitions) ? document.definitions : {} };
+  }
+
+  const schemas: Record<string, JsonSchema> = {
+    ...(isObject(document.definitions) ? document.definitions : {}),
+    ...(isObject(document.$defs) ? document.$defs : {}),
+  };
+  // A root schema with its own properties is an entity too
+  if (isObject(document.properties) || Array.isArray(document.allOf)) {
+    const rootName = typeof document.title === "string" && document.title.trim() ? document.title.trim() : ROOT_SCHEMA_NAME;
+    schemas[rootName] = document;
+  }
+  return { format: "json_schema", schemas };
+}
+
+export function parseApiSchema(document: unknown): ApiSchemaParseResult {
+  if (!isObject(document)) {
+    throw new Error("An OpenAPI or JSON Schema document is required");
+  }
+  const { format, schemas } = namedSchemas(document);
+  const names = Object.keys(schemas);
+  if (names.length === 0) {
+    throw new Error(
+      format === "json_schema"
+        ? "A JSON Schema with properties, definitions or $defs is required"
+        : "An OpenAPI document with component schemas is required",
+    );
+  }
+
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const rootName = names.find((name) => schemas[name] === document);
+
+  /** Name of the schema a local `$ref` points at, or null (with a warning) for anything else. */
+  const refName = (ref: string, context: string): string | null => {
+    if (ref === "#" && rootName) return rootName;
+    const prefix = REF_PREFIXES.find((candidate) => ref.startsWith(candidate));
+    const name = prefix ? decodeURIComponent(ref.slice(prefix.length)).replace(/~1/g, "/").replace(/~0/g, "~") : null;
+    if (name && schemas[name]) return name;
+    warn(
+      ref.startsWith("#")
+        ? `${context}: ${ref} does not resolve to a schema in this document`
+        : `${context}: external reference ${ref} was not followed`,
+    );
+    return null;
+  };
+
+  // Properties and required names of a schema, following allOf / oneOf / anyOf and $ref aliases
+  const flatten = (schema: JsonSchema, context: string, seen: Set<string>): { properties: Record<string, JsonSchema>; required: Set<string> } => {
+    const properties: Record<string, JsonSchema> = {};
+    const required = new Set<string>();
+    const merge = (part: { properties: Record<string, JsonSchema>; required: Set<string> }, keepRequired: boolean) => {
+      Object.keys(part.properties).forEach((key) => {
+        if (!(key in properties)) properties[key] = part.properties[key];
+      });
+      if (keepRequired) part.required.forEach((key) => required.add(key));
+    };
+
+    if (typeof schema.$ref === "string") {
+      const name = refName(schema.$ref, context);
+      if (name && !seen.has(name)) merge(flatten(schemas[name], context, new Set([...Array.from(seen), name])), true);
+    }
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.filter(isObject).forEach((part: JsonSchema) => merge(flatten(part, context, seen), true));
+    }
+    ["oneOf", "anyOf"].forEach((keyword) => {
+      if (Array.isArray(schema[keyword])) {
+        schema[keyword].filter(isObject).forEach((part: JsonSchema) => merge(flatten(part, context, seen), false));
+      }
+    });
+    if (isObject(schema.properties)) {
+      Object.keys(schema.properties).forEach((key) => {
+        if (isObject(schema.properties[key])) properties[key] = schema.properties[key];
+      });
+    }
+    if (Array.isArray(schema.required)) {
+      schema.required.forEach((key: unknown) => typeof key === "string" && required.add(key));
+    }
+    return { properties, required };
+  };
+
+  const flattened = new Map(names.map((name) => [name, flatten(schemas[name], name, new Set([name]))]));
+  // Enums, primitives and free-form maps are value types, not entities
+  const entityNames = names.filter((name) => Object.keys(flattened.get(name)!.properties).length > 0);
+  const entities = new Set(entityNames);
+  const keyOf = (name: string) =>
+    Object.keys(flattened.get(name)!.properties).find(
+      (key) => flattened.get(name)!.properties[key]["x-primary-key"] === true || key.toLowerCase() === "id",
+    );
+
+  const tables = entityNames.map<TableMetadata>((name) => {
+    const { properties, required } = flattened.get(name)!;
+    const primaryKey = keyOf(name);
+    const foreignKeys: ForeignKeyMetadata[] = [];
+
+    const columns = Object.keys(properties).map<ColumnMetadata>((property) => {
+      const context = `${name}.${property}`;
+      const { schema, nullable } = unwrapNullable(properties[property]);
+      const column: ColumnMetadata = {
+        name: property,
+        type: "JSON",
+        nullable: nullable || !required.has(property),
+        isPrimaryKey: property === primaryKey,
+      };
+      if (column.isPrimaryKey) column.nullable = false;
+
+      const reference = (target: JsonSchema, relationshipType: "N:1" | "1:N") => {
+        const targetName = typeof target.$ref === "string" ? refName(target.$ref, context) : null;
+        if (!targetName) return false;
+        if (!entities.has(targetName)) {
+          // A named enum or primitive: the column takes its type
+          if (relationshipType === "N:1") Object.assign(column, scalarColumn(resolveValueSchema(schemas[targetName], schemas)));
+          return relationshipType === "N:1";
+        }
+        foreignKeys.push({
+          constraintName: `ref_${name}_${property}`,
+          columns: [property],
+          referencedTable: targetName,
+          referencedColumns: [keyOf(targetName) ?? "id"],
+          relationshipType,
+        });
+        column.type = relationshipType === "N:1" ? "OBJECT" : "ARRAY";
+        return true;
+      };
+
+      if (schemaType(schema) === "array") {
+        column.type = "ARRAY";
+        const items = isObject(schema.items) ? unwrapNullable(schema.items).schema : null;
+        if (items) reference(items, "1:N");
+      } else if (!reference(schema, "N:1")) {
+        Object.assign(column, scalarColumn(schema));
+      }
+      return column;
+    });
+
+    return { name, columns, ...(foreignKeys.length > 0 ? { foreignKeys } : {}) };
+  });
+
+  if (tables.length === 0) {
+    warn("No object schemas with properties were found");
+  }
+
+  const title = isObject(document.info) && typeof document.info.title === "string" ? document.info.title : document.title;
+  return { format, title: typeof title === "string" ? title : null, tables, warnings };
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) return schema.type.find((type: unknown) => type !== "null");
+  return typeof schema.type === "string" ? schema.type : undefined;
+}
+
+/** Strips the ways a schema says "or null": 3.0 `nullable`, Swagger `x-nullable`, type arrays and null variants. */
+function unwrapNullable(schema: JsonSchema): { schema: JsonSchema; nullable: boolean } {
+  let nullable = schema.nullable === true || schema["x-nullable"] === true;
+  if (Array.isArray(schema.type) && schema.type.includes("null")) nullable = true;
+
+  for (const keyword of ["anyOf", "oneOf"]) {
+    const variants = schema[keyword];
+    if (!Array.isArray(variants)) continue;
+    const others = variants.filter((variant: unknown) => !(isObject(variant) && variant.type === "null"));
+    if (others.length < variants.length && others.length === 1 && isObject(others[0])) {
+      return { schema: others[0], nullable: true };
+    }
+  }
+  // `allOf: [{ $ref }]` is how 3.0 documents attach a description or nullable to a reference
+  if (Array.isArray(schema.allOf) && schema.allOf.length === 1 && isObject(schema.allOf[0]) && !schema.properties) {
+    return { schema: schema.allOf[0], nullable };
+  }
+  return { schema, nullable };
+}
+
+/** Follows `$ref` aliases of value types (enums, formatted strings). */
+function resolveValueSchema(schema: JsonSchema, schemas: Record<string, JsonSchema>, depth = 0): JsonSchema {
+  if (typeof schema.$ref !== "string" || depth > 8) return schema;
+  const prefix = REF_PREFIXES.find((candidate) => schema.$ref.startsWith(candidate));
+  const target = prefix ? schemas[schema.$ref.slice(prefix.length)] : undefined;
+  return target ? resolveValueSchema(target, schemas, depth + 1) : schema;
+}
+
+function scalarColumn(schema: JsonSchema): Pick<ColumnMetadata, "type" | "length" | "precision" | "scale"> {
+  const format = typeof schema.format === "string" ? schema.format.toLowerCase() : "";
+  switch (schemaType(schema) ?? (Array.isArray(schema.enum) ? "string" : undefined)) {
+    case "integer":
+      return { type: format === "int64" ? "BIGINT" : format === "int16" ? "SMALLINT" : "INTEGER" };
+    case "number":
+      if (format === "float") return { type: "FLOAT" };
+      if (format === "double") return { type: "DOUBLE" };
+      return { type: "DECIMAL" };
+    case "boolean":
+      return { type: "BOOLEAN" };
+    case "string":
+      if (format === "date") return { type: "DATE" };
+      if (format === "date-time") return { type: "TIMESTAMP" };
+      if (format === "time") return { type: "TIME" };
+      if (format === "uuid") return { type: "UUID" };
+      if (format === "byte" || format === "binary") return { type: "BINARY" };
+      if (typeof schema.maxLength === "number") return { type: `VARCHAR(${schema.maxLength})`, length: schema.maxLength };
+      if (Array.isArray(schema.enum)) {
+        const longest = Math.max(1, ...schema.enum.map((value: unknown) => String(value).length));
+        return { type: `VARCHAR(${longest})`, length: longest };
+      }
+      return { type: "VARCHAR" };
+    default:
+      return { type: "JSON" };
+  }
+}
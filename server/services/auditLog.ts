@@ -0,0 +1,67 @@
+import type { AuditLogEntry } from "@shared/schema";
+import type { AuditAction, AuditEntityType } from "@shared/audit";
+import { storage, type IStorage } from "../storage";
+
+export interface AuditLogEntryDetail extends AuditLogEntry {
+  actorName: string | null;
+}
+
+export interface AuditLogQuery {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  dataModelId?: number;
+  modelObjectId?: number;
+  actorUserId?: number;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntryDetail[];
+  total: number;
+  meta: {
+    page: number;
+    pageSize: number;
+    hasMore: boolean;
+  };
+}
+
+/** Read side of the audit log; entries themselves are written by the storage layer on every mutation. */
+export class AuditLogService {
+  constructor(private readonly store: IStorage) {}
+
+  async list(query: AuditLogQuery, organizationId: number): Promise<AuditLogPage> {
+    if (query.from && query.to && query.from > query.to) {
+      throw new Error("from must be before to");
+    }
+
+    const { page, pageSize, ...filters } = query;
+    const { entries, total } = await this.store.getAuditLogEntries({
+      ...filters,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
+    // Actors who have since left the organization keep their id but lose the name
+    const members = await this.store.getOrganizationMembers(organizationId);
+    const names = new Map(members.map((member) => [member.userId, member.name || member.email]));
+
+    return {
+      entries: entries.map((entry) => ({
+        ...entry,
+        actorName: entry.actorUserId !== null ? names.get(entry.actorUserId) ?? null : null,
+      })),
+      total,
+      meta: {
+        page,
+        pageSize,
+        hasMore: page * pageSize < total,
+      },
+    };
+  }
+}
+
+export const auditLogService = new AuditLogService(storage);
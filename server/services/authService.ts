@@ -1,7 +1,8 @@
 import bcrypt from "bcrypt";
 import { eq } from "drizzle-orm";
 import { db } from "../db";
-import { users, organizations, memberships } from "@shared/schema";
+import { users, organizations, memberships, invitations } from "@shared/schema";
+import { invitationService } from "./invitationService";
 
 type DbUser = typeof users.$inferSelect;
 type DbOrganization = typeof organizations.$inferSelect;
@@ -9,7 +10,9 @@ type DbMembership = typeof memberships.$inferSelect;
 
 export interface AuthSuccess {
   user: DbUser;
+  /** The organization the session acts in. */
   organization: DbOrganization;
+  /** Memberships in the active organization only. */
   memberships: DbMembership[];
 }
 
@@ -23,11 +26,13 @@ function slugify(input: string): string {
 }
 
 export interface RegisterAccountInput {
-  organizationName: string;
+  organizationName?: string | null;
   organizationSlug?: string | null;
   email: string;
   password: string;
   userName?: string | null;
+  /** Join the inviting organization instead of creating a new one. */
+  inviteToken?: string | null;
 }
 
 export class AuthService {
@@ -55,25 +60,7 @@ export class AuthService {
       return null;
     }
 
-    const [organization] = await db
-      .select()
-      .from(organizations)
-      .where(eq(organizations.id, user.organizationId));
-
-    if (!organization) {
-      return null;
-    }
-
-    const userMemberships = await db
-      .select()
-      .from(memberships)
-      .where(eq(memberships.userId, user.id));
-
-    return {
-      user,
-      organization,
-      memberships: userMemberships,
-    };
+    return await this.loadSession(user);
   }
 
   async registerAccount(input: RegisterAccountInput): Promise<AuthSuccess> {
@@ -81,7 +68,11 @@ export class AuthService {
       throw new Error("Database connection is not initialized");
     }
 
-    const organizationName = input.organizationName.trim();
+    if (input.inviteToken) {
+      return await this.registerInvitedAccount(input, input.inviteToken);
+    }
+
+    const organizationName = input.organizationName?.trim() ?? "";
     if (!organizationName) {
       throw new Error("Organization name is required");
     }
@@ -172,13 +163,84 @@ export class AuthService {
       return null;
     }
 
-    const [organization] = await db
-      .select()
-      .from(organizations)
-      .where(eq(organizations.id, user.organizationId));
+    return await this.loadSession(user);
+  }
 
-    if (!organization) {
-      return null;
+  private async registerInvitedAccount(input: RegisterAccountInput, inviteToken: string): Promise<AuthSuccess> {
+    if (!db) {
+      throw new Error("Database connection is not initialized");
+    }
+
+    const invitation = await invitationService.resolveInvitation(inviteToken);
+    const normalizedEmail = input.email.trim().toLowerCase();
+    if (invitation.email !== normalizedEmail) {
+      throw new Error("Invitation must be accepted by the invited email address");
+    }
+
+    const passwordHash = await bcrypt.hash(input.password, 12);
+
+    return await db.transaction(async (tx) => {
+      const [existingUser] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.email, normalizedEmail));
+
+      if (existingUser) {
+        throw new Error("A user with this email already exists");
+      }
+
+      const [organization] = await tx
+        .select()
+        .from(organizations)
+        .where(eq(organizations.id, invitation.organizationId));
+
+      if (!organization) {
+        throw new Error("Invitation is invalid or has expired");
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values({
+          organizationId: organization.id,
+          email: normalizedEmail,
+          passwordHash,
+          name: input.userName?.trim() || null,
+          isActive: true,
+          isSuperAdmin: false,
+        })
+        .returning();
+
+      const [membership] = await tx
+        .insert(memberships)
+        .values({
+          organizationId: organization.id,
+          userId: user.id,
+          role: invitation.role,
+          invitedByUserId: invitation.invitedByUserId,
+        })
+        .returning();
+
+      await tx
+        .update(invitations)
+        .set({ accepted: true, updatedAt: new Date() })
+        .where(eq(invitations.id, invitation.id));
+
+      return {
+        user,
+        organization,
+        memberships: [membership],
+      };
+    });
+  }
+
+  /**
+   * Resolve the organization a user acts in: their active organization if
+   * they still belong to it, otherwise any other organization they belong to.
+   * Users without memberships cannot sign in unless they are super admins.
+   */
+  private async loadSession(user: DbUser): Promise<AuthSuccess | null> {
+    if (!db) {
+      throw new Error("Database connection is not initialized");
     }
 
     const userMemberships = await db
@@ -186,10 +248,28 @@ export class AuthService {
       .from(memberships)
       .where(eq(memberships.userId, user.id));
 
+    const activeMembership =
+      userMemberships.find((membership) => membership.organizationId === user.organizationId) ??
+      userMemberships[0];
+
+    if (!activeMembership && !user.isSuperAdmin) {
+      return null;
+    }
+
+    const organizationId = activeMembership?.organizationId ?? user.organizationId;
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, organizationId));
+
+    if (!organization) {
+      return null;
+    }
+
     return {
       user,
       organization,
-      memberships: userMemberships,
+      memberships: userMemberships.filter((membership) => membership.organizationId === organization.id),
     };
   }
 }
@@ -0,0 +1,122 @@
+import type { BusinessCapability } from "@shared/schema";
+import {
+  storage,
+  type CapabilityModelMappingDetail,
+  type CapabilityModelSystemMappingDetail,
+  type IStorage,
+} from "../storage";
+
+// Ordered from least to most severe; unknown levels rank with "medium"
+const RISK_LEVELS = ["low", "medium", "high", "critical"] as const;
+export type CapabilityRiskLevel = (typeof RISK_LEVELS)[number];
+
+/**
+ * no_model: nothing models the capability's data yet
+ * no_authoritative_model: models exist but none is flagged as the authoritative source
+ * covered: at least one authoritative model
+ */
+export type CapabilityCoverage = "no_model" | "no_authoritative_model" | "covered";
+
+export interface CapabilityHeatmapEntry {
+  capabilityId: number;
+  name: string;
+  code: string;
+  level: number;
+  parentId: number | null;
+  criticality: string | null;
+  coverage: CapabilityCoverage;
+  modelCount: number;
+  authoritativeModelCount: number;
+  systemCount: number;
+  /** Mean readinessScore (1-5) of the model mappings that carry one. */
+  averageReadiness: number | null;
+  /** Mean businessValueScore (1-5) of the model mappings that carry one. */
+  averageBusinessValue: number | null;
+  /** Most severe riskLevel across the capability's model mappings. */
+  highestRisk: CapabilityRiskLevel | null;
+  /** Mean heatmapScore (1-5) of the capability's model+system triples. */
+  averageHeatmapScore: number | null;
+  /** Tightest slaHours across the capability's model+system triples. */
+  minimumSlaHours: number | null;
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => typeof value === "number");
+  if (present.length === 0) {
+    return null;
+  }
+  return Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 10) / 10;
+}
+
+function riskRank(level: string | null): number {
+  const index = RISK_LEVELS.indexOf((level ?? "medium") as CapabilityRiskLevel);
+  return index === -1 ? 1 : index;
+}
+
+export function buildCapabilityHeatmap(
+  capabilities: BusinessCapability[],
+  modelMappings: CapabilityModelMappingDetail[],
+  systemMappings: CapabilityModelSystemMappingDetail[],
+): CapabilityHeatmapEntry[] {
+  const modelsByCapability = new Map<number, CapabilityModelMappingDetail[]>();
+  modelMappings.forEach((mapping) => {
+    const list = modelsByCapability.get(mapping.capabilityId) ?? [];
+    list.push(mapping);
+    modelsByCapability.set(mapping.capabilityId, list);
+  });
+
+  const triplesByCapability = new Map<number, CapabilityModelSystemMappingDetail[]>();
+  systemMappings.forEach((mapping) => {
+    const list = triplesByCapability.get(mapping.capabilityId) ?? [];
+    list.push(mapping);
+    triplesByCapability.set(mapping.capabilityId, list);
+  });
+
+  return capabilities.map((capability) => {
+    const models = modelsByCapability.get(capability.id) ?? [];
+    const triples = triplesByCapability.get(capability.id) ?? [];
+    const authoritativeModelCount = new Set(
+      models.filter((mapping) => mapping.authoritativeSource).map((mapping) => mapping.modelId),
+    ).size;
+    const highest = models.reduce<CapabilityModelMappingDetail | null>(
+      (worst, mapping) => (!worst || riskRank(mapping.riskLevel) > riskRank(worst.riskLevel) ? mapping : worst),
+      null,
+    );
+    const slaHours = triples
+      .map((mapping) => mapping.slaHours)
+      .filter((value): value is number => typeof value === "number");
+
+    return {
+      capabilityId: capability.id,
+      name: capability.name,
+      code: capability.code,
+      level: capability.level,
+      parentId: capability.parentId,
+      criticality: capability.criticality,
+      coverage: models.length === 0 ? "no_model" : authoritativeModelCount === 0 ? "no_authoritative_model" : "covered",
+      modelCount: new Set(models.map((mapping) => mapping.modelId)).size,
+      authoritativeModelCount,
+      systemCount: new Set(triples.map((mapping) => mapping.systemId)).size,
+      averageReadiness: average(models.map((mapping) => mapping.readinessScore)),
+      averageBusinessValue: average(models.map((mapping) => mapping.businessValueScore)),
+      highestRisk: highest ? RISK_LEVELS[riskRank(highest.riskLevel)] : null,
+      averageHeatmapScore: average(triples.map((mapping) => mapping.heatmapScore)),
+      minimumSlaHours: slaHours.length > 0 ? Math.min(...slaHours) : null,
+    };
+  });
+}
+
+export class CapabilityTraceabilityService {
+  constructor(private readonly store: IStorage) {}
+
+  async getHeatmap(): Promise<CapabilityHeatmapEntry[]> {
+    const [capabilities, modelMappings, systemMappings] = await Promise.all([
+      this.store.getBusinessCapabilities(),
+      this.store.getCapabilityModelMappings(),
+      this.store.getCapabilityModelSystemMappings(),
+    ]);
+    return buildCapabilityHeatmap(capabilities, modelMappings, systemMappings);
+  }
+}
+
+export const capabilityTraceabilityService = new CapabilityTraceabilityService(storage);
@@ -0,0 +1,348 @@
+import type { ColumnMetadata, DatabaseConnectionConfig, ForeignKeyMetadata, TableMetadata } from "./dataConnectors";
+
+/**
+ * Minimal query surface the catalog extractors need. Drivers are wrapped in
+ * one of these so extraction can run against recorded catalog fixtures.
+ * Rows are returned with the column names the catalog views use (upper case).
+ */
+export interface CatalogQueryRunner {
+  query(sql: string, params: unknown[]): Promise<Record<string, unknown>[]>;
+  close(): Promise<void>;
+}
+
+interface CatalogTableRow {
+  schema: string;
+  name: string;
+  rowCount?: number;
+}
+
+interface CatalogColumnRow {
+  table: string;
+  name: string;
+  type: string;
+  nullable: boolean;
+  length?: number;
+}
+
+interface CatalogPrimaryKeyRow {
+  table: string;
+  column: string;
+  constraintName: string;
+}
+
+interface CatalogForeignKeyRow {
+  constraintName: string;
+  table: string;
+  column: string;
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumn: string;
+  updateRule?: string;
+  deleteRule?: string;
+}
+
+const text = (value: unknown): string => (value === null || value === undefined ? "" : String(value));
+
+const optionalNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/** Group catalog rows per table; all rows belong to `schema`. */
+function assembleCatalog(
+  schema: string,
+  tables: CatalogTableRow[],
+  columns: CatalogColumnRow[],
+  primaryKeys: CatalogPrimaryKeyRow[],
+  foreignKeys: CatalogForeignKeyRow[],
+): TableMetadata[] {
+  const primaryKeySet = new Set(primaryKeys.map((pk) => `${pk.table}\u0000${pk.column}`));
+  const primaryKeyNames = new Map(primaryKeys.map((pk) => [pk.table, pk.constraintName]));
+
+  const columnsByTable = new Map<string, ColumnMetadata[]>();
+  columns.forEach((column) => {
+    const list = columnsByTable.get(column.table) ?? [];
+    list.push({
+      name: column.name,
+      type: column.type.toUpperCase(),
+      nullable: column.nullable,
+      isPrimaryKey: primaryKeySet.has(`${column.table}\u0000${column.name}`),
+      length: column.length,
+    });
+    columnsByTable.set(column.table, list);
+  });
+
+  // Rows arrive ordered by constraint and column position
+  const foreignKeysByTable = new Map<string, Map<string, ForeignKeyMetadata>>();
+  foreignKeys.forEach((row) => {
+    const constraints = foreignKeysByTable.get(row.table) ?? new Map<string, ForeignKeyMetadata>();
+    let fk = constraints.get(row.constraintName);
+    if (!fk) {
+      fk = {
+        constraintName: row.constraintName,
+        columns: [],
+        referencedSchema: row.referencedSchema,
+        referencedTable: row.referencedSchema !== schema
+          ? `${row.referencedSchema}.${row.referencedTable}`
+          : row.referencedTable,
+        referencedColumns: [],
+        updateRule: row.updateRule,
+        deleteRule: row.deleteRule,
+      };
+      constraints.set(row.constraintName, fk);
+    }
+    fk.columns.push(row.column);
+    fk.referencedColumns.push(row.referencedColumn);
+    foreignKeysByTable.set(row.table, constraints);
+  });
+
+  return tables.map((table) => {
+    const tableForeignKeys = Array.from(foreignKeysByTable.get(table.name)?.values() ?? []).map((fk) => ({
+      ...fk,
+      relationshipType: fk.columns.length === 1 ? ("N:1" as const) : undefined,
+    }));
+    return {
+      name: table.name,
+      schema: table.schema,
+      originalName: table.name,
+      columns: columnsByTable.get(table.name) ?? [],
+      rowCount: table.rowCount,
+      foreignKeys: tableForeignKeys,
+      primaryKeyName: primaryKeyNames.get(table.name) || undefined,
+    };
+  });
+}
+
+// Oracle and HANA store unquoted identifiers in upper case, and a user's default schema is its own name
+export function defaultCatalogSchema(config: DatabaseConnectionConfig): string {
+  return config.schema?.trim() || config.username.toUpperCase();
+}
+
+// Oracle ----------------------------------------------------------------------
+
+export async function extractOracleCatalog(runner: CatalogQueryRunner, owner: string): Promise<TableMetadata[]> {
+  const [tableRows, columnRows, primaryKeyRows, foreignKeyRows] = await Promise.all([
+    runner.query(
+      `SELECT OWNER, TABLE_NAME, NUM_ROWS
+       FROM ALL_TABLES
+       WHERE OWNER = :1 AND NESTED = 'NO' AND SECONDARY = 'N'
+       ORDER BY TABLE_NAME`,
+      [owner],
+    ),
+    runner.query(
+      `SELECT TABLE_NAME, COLUMN_NAME, DATA_TYPE, NULLABLE, CHAR_LENGTH, COLUMN_ID
+       FROM ALL_TAB_COLUMNS
+       WHERE OWNER = :1
+       ORDER BY TABLE_NAME, COLUMN_ID`,
+      [owner],
+    ),
+    runner.query(
+      `SELECT cols.TABLE_NAME, cols.COLUMN_NAME, cons.CONSTRAINT_NAME
+       FROM ALL_CONSTRAINTS cons
+       JOIN ALL_CONS_COLUMNS cols
+         ON cols.OWNER = cons.OWNER AND cols.CONSTRAINT_NAME = cons.CONSTRAINT_NAME
+       WHERE cons.CONSTRAINT_TYPE = 'P' AND cons.OWNER = :1`,
+      [owner],
+    ),
+    runner.query(
+      `SELECT fk.CONSTRAINT_NAME, fk.TABLE_NAME, fk_cols.COLUMN_NAME,
+              pk.OWNER AS REFERENCED_OWNER, pk.TABLE_NAME AS REFERENCED_TABLE_NAME,
+              pk_cols.COLUMN_NAME AS REFERENCED_COLUMN_NAME, fk.DELETE_RULE
+       FROM ALL_CONSTRAINTS fk
+       JOIN ALL_CONS_COLUMNS fk_cols
+         ON fk_cols.OWNER = fk.OWNER AND fk_cols.CONSTRAINT_NAME = fk.CONSTRAINT_NAME
+       JOIN ALL_CONSTRAINTS pk
+         ON pk.OWNER = fk.R_OWNER AND pk.CONSTRAINT_NAME = fk.R_CONSTRAINT_NAME
+       JOIN ALL_CONS_COLUMNS pk_cols
+         ON pk_cols.OWNER = pk.OWNER AND pk_cols.CONSTRAINT_NAME = pk.CONSTRAINT_NAME
+        AND pk_cols.POSITION = fk_cols.POSITION
+       WHERE fk.CONSTRAINT_TYPE = 'R' AND fk.OWNER = :1
+       ORDER BY fk.CONSTRAINT_NAME, fk_cols.POSITION`,
+      [owner],
+    ),
+  ]);
+
+  const tables: CatalogTableRow[] = [];
+  for (const row of tableRows) {
+    const name = text(row.TABLE_NAME);
+    // Exact count like the other connectors; fall back to optimizer statistics when counting is not permitted
+    let rowCount = optionalNumber(row.NUM_ROWS);
+    try {
+      const [countRow] = await runner.query(
+        `SELECT COUNT(*) AS CNT FROM "${owner.replace(/"/g, '""')}"."${name.replace(/"/g, '""')}"`,
+        [],
+      );
+      rowCount = optionalNumber(countRow?.CNT) ?? rowCount;
+    } catch (error) {
+      console.warn(`Failed to count rows of ${owner}.${name}; using optimizer statistics:`, error);
+    }
+    tables.push({ schema: text(row.OWNER), name, rowCount });
+  }
+
+  return assembleCatalog(
+    owner,
+    tables,
+    columnRows.map((row) => ({
+      table: text(row.TABLE_NAME),
+      name: text(row.COLUMN_NAME),
+      type: text(row.DATA_TYPE),
+      nullable: row.NULLABLE === "Y",
+      // CHAR_LENGTH is 0 for non-character types
+      length: optionalNumber(row.CHAR_LENGTH) || undefined,
+    })),
+    primaryKeyRows.map((row) => ({
+      table: text(row.TABLE_NAME),
+      column: text(row.COLUMN_NAME),
+      constraintName: text(row.CONSTRAINT_NAME),
+    })),
+    foreignKeyRows.map((row) => ({
+      constraintName: text(row.CONSTRAINT_NAME),
+      table: text(row.TABLE_NAME),
+      column: text(row.COLUMN_NAME),
+      referencedSchema: text(row.REFERENCED_OWNER),
+      referencedTable: text(row.REFERENCED_TABLE_NAME),
+      referencedColumn: text(row.REFERENCED_COLUMN_NAME),
+      // Oracle has no ON UPDATE actions
+      updateRule: "NO ACTION",
+      deleteRule: text(row.DELETE_RULE) || undefined,
+    })),
+  );
+}
+
+export async function openOracleRunner(config: DatabaseConnectionConfig): Promise<CatalogQueryRunner> {
+  const oracledbModule = await import("oracledb");
+  const oracledb = oracledbModule.default ?? oracledbModule;
+  const connection = await oracledb.getConnection({
+    user: config.username,
+    password: config.password,
+    // Easy Connect: host:port/service_name
+    connectString: `${config.host}:${config.port}/${config.database}`,
+  });
+
+  return {
+    async query(sql, params) {
+      const result = await connection.execute(sql, params, { outFormat: oracledb.OUT_FORMAT_OBJECT });
+      return (result.rows ?? []) as Record<string, unknown>[];
+    },
+    async close() {
+      await connection.close();
+    },
+  };
+}
+
+// SAP HANA --------------------------------------------------------------------
+
+const HANA_LENGTH_TYPES = /CHAR|ALPHANUM|SHORTTEXT|BINARY/;
+
+export async function extractHanaCatalog(runner: CatalogQueryRunner, schema: string): Promise<TableMetadata[]> {
+  const [tableRows, countRows, columnRows, primaryKeyRows, foreignKeyRows] = await Promise.all([
+    runner.query(
+      `SELECT SCHEMA_NAME, TABLE_NAME
+       FROM SYS.TABLES
+       WHERE SCHEMA_NAME = ? AND IS_SYSTEM_TABLE = 'FALSE' AND IS_TEMPORARY = 'FALSE'
+       ORDER BY TABLE_NAME`,
+      [schema],
+    ),
+    // M_TABLES keeps exact record counts, so no per-table COUNT(*) is needed
+    runner.query(
+      `SELECT TABLE_NAME, RECORD_COUNT
+       FROM SYS.M_TABLES
+       WHERE SCHEMA_NAME = ?`,
+      [schema],
+    ),
+    runner.query(
+      `SELECT TABLE_NAME, COLUMN_NAME, DATA_TYPE_NAME, IS_NULLABLE, LENGTH, POSITION
+       FROM SYS.TABLE_COLUMNS
+       WHERE SCHEMA_NAME = ?
+       ORDER BY TABLE_NAME, POSITION`,
+      [schema],
+    ),
+    runner.query(
+      `SELECT TABLE_NAME, COLUMN_NAME, CONSTRAINT_NAME
+       FROM SYS.CONSTRAINTS
+       WHERE SCHEMA_NAME = ? AND IS_PRIMARY_KEY = 'TRUE'`,
+      [schema],
+    ),
+    runner.query(
+      `SELECT CONSTRAINT_NAME, TABLE_NAME, COLUMN_NAME, REFERENCED_SCHEMA_NAME,
+              REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME, UPDATE_RULE, DELETE_RULE
+       FROM SYS.REFERENTIAL_CONSTRAINTS
+       WHERE SCHEMA_NAME = ?
+       ORDER BY CONSTRAINT_NAME, POSITION`,
+      [schema],
+    ),
+  ]);
+
+  const counts = new Map(countRows.map((row) => [text(row.TABLE_NAME), optionalNumber(row.RECORD_COUNT)]));
+
+  return assembleCatalog(
+    schema,
+    tableRows.map((row) => ({
+      schema: text(row.SCHEMA_NAME),
+      name: text(row.TABLE_NAME),
+      rowCount: counts.get(text(row.TABLE_NAME)),
+    })),
+    columnRows.map((row) => {
+      const type = text(row.DATA_TYPE_NAME);
+      return {
+        table: text(row.TABLE_NAME),
+        name: text(row.COLUMN_NAME),
+        type,
+        nullable: row.IS_NULLABLE === "TRUE",
+        length: HANA_LENGTH_TYPES.test(type.toUpperCase()) ? optionalNumber(row.LENGTH) : undefined,
+      };
+    }),
+    primaryKeyRows.map((row) => ({
+      table: text(row.TABLE_NAME),
+      column: text(row.COLUMN_NAME),
+      constraintName: text(row.CONSTRAINT_NAME),
+    })),
+    foreignKeyRows.map((row) => ({
+      constraintName: text(row.CONSTRAINT_NAME),
+      table: text(row.TABLE_NAME),
+      column: text(row.COLUMN_NAME),
+      referencedSchema: text(row.REFERENCED_SCHEMA_NAME),
+      referencedTable: text(row.REFERENCED_TABLE_NAME),
+      referencedColumn: text(row.REFERENCED_COLUMN_NAME),
+      updateRule: text(row.UPDATE_RULE) || undefined,
+      deleteRule: text(row.DELETE_RULE) || undefined,
+    })),
+  );
+}
+
+export async function openHanaRunner(config: DatabaseConnectionConfig): Promise<CatalogQueryRunner> {
+  const hanaModule = await import("@sap/hana-client");
+  const hana = hanaModule.default ?? hanaModule;
+  const connection = hana.createConnection();
+  const sslMode = config.sslMode?.toLowerCase();
+
+  await new Promise<void>((resolve, reject) => {
+    connection.connect(
+      {
+        serverNode: `${config.host}:${config.port}`,
+        uid: config.username,
+        pwd: config.password,
+        // Tenant database on a multi-container system; "default" means the system database
+        databaseName: config.database && config.database !== "default" ? config.database : undefined,
+        encrypt: sslMode ? sslMode !== "disable" : undefined,
+      },
+      (error: Error | null) => (error ? reject(error) : resolve()),
+    );
+  });
+
+  return {
+    query(sql, params) {
+      return new Promise((resolve, reject) => {
+        connection.exec(sql, params, (error: Error | null, rows: Record<string, unknown>[]) =>
+          error ? reject(error) : resolve(rows ?? []),
+        );
+      });
+    },
+    close() {
+      return new Promise((resolve) => {
+        connection.disconnect(() => resolve());
+      });
+    },
+  };
+}
@@ -0,0 +1,260 @@
+import { randomUUID } from "crypto";
+import {
+  collaborationClientMessageSchema,
+  type CollaborationChange,
+  type CollaborationClientMessage,
+  type CollaborationPeer,
+  type CollaborationServerMessage,
+} from "@shared/collaboration";
+
+/** Transport side of a collaboration session; the WebSocket server supplies one per socket. */
+export interface CollaborationConnection {
+  send(data: string): void;
+  close(): void;
+}
+
+export interface CollaborationIdentity {
+  userId: number;
+  organizationId: number;
+  roles: string[];
+  isSuperAdmin: boolean;
+  /** Auth session the socket was opened with; the socket is closed when it ends. */
+  sessionId: number;
+  name: string;
+}
+
+/** Who made a change that is being announced, and from which collaboration client when known. */
+export interface CollaborationOrigin {
+  userId: number;
+  clientId?: string | null;
+}
+
+export interface CollaborationHubOptions {
+  /** Resolves whether the identity may open the layer; rooms are never shared across organizations either way. */
+  canAccessLayer?: (identity: CollaborationIdentity, layerId: number) => Promise<boolean>;
+}
+
+interface CollaborationClient {
+  id: string;
+  connection: CollaborationConnection;
+  identity: CollaborationIdentity;
+  room: string | null;
+  peer: CollaborationPeer;
+}
+
+const PEER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+
+function colorForUser(userId: number): string {
+  return PEER_COLORS[Math.abs(userId) % PEER_COLORS.length];
+}
+
+/**
+ * Relays cursors and selections between the sessions that have the same
+ * model layer open, and announces the canvas changes the REST API persisted.
+ * Clients cannot publish changes themselves: what peers merge always comes
+ * from the server.
+ */
+export class CollaborationHub {
+  private readonly clients = new Map<string, CollaborationClient>();
+  private readonly rooms = new Map<string, Set<string>>();
+
+  constructor(private readonly options: CollaborationHubOptions = {}) {}
+
+  connect(connection: CollaborationConnection, identity: CollaborationIdentity): string {
+    const id = randomUUID();
+    this.clients.set(id, {
+      id,
+      connection,
+      identity,
+      room: null,
+      peer: {
+        clientId: id,
+        userId: identity.userId,
+        name: identity.name,
+        color: colorForUser(identity.userId),
+        cursor: null,
+        selection: [],
+      },
+    });
+    return id;
+  }
+
+  disconnect(clientId: string): void {
+    this.leaveRoom(clientId);
+    this.clients.delete(clientId);
+  }
+
+  /**
+   * Close the sockets opened with any of the given auth sessions, for
+   * example after logout. Returns how many were closed.
+   */
+  closeSessions(sessionIds: number[]): number {
+    const ended = new Set(sessionIds);
+    return this.closeWhere((identity) => ended.has(identity.sessionId));
+  }
+
+  /** Close every socket of a user in an organization, for example after their role changed. */
+  closeUser(organizationId: number, userId: number): number {
+    return this.closeWhere((identity) => identity.organizationId === organizationId && identity.userId === userId);
+  }
+
+  /**
+   * Re-check each connected identity and close the sockets that no longer
+   * pass, so revoked sessions and demoted members do not keep receiving
+   * changes until they disconnect on their own.
+   */
+  async revalidate(isCurrent: (identity: CollaborationIdentity) => Promise<boolean>): Promise<number> {
+    const clients = Array.from(this.clients.values());
+    const results = await Promise.all(
+      clients.map((client) =>
+        isCurrent(client.identity).catch((error) => {
+          console.warn(`[COLLAB] Could not re-check client ${client.id}:`, error instanceof Error ? error.message : error);
+          return true;
+        }),
+      ),
+    );
+    const stale = new Set(clients.filter((_client, index) => !results[index]).map((client) => client.id));
+    return this.closeWhere((_identity, clientId) => stale.has(clientId));
+  }
+
+  /** Whether any session of the organization has a layer open. */
+  hasRooms(organizationId: number): boolean {
+    const prefix = `${organizationId}:`;
+    return Array.from(this.rooms.keys()).some((room) => room.startsWith(prefix));
+  }
+
+  /**
+   * Announce a persisted change to every session that has the layer open,
+   * except the client that made it.
+   */
+  publish(organizationId: number, layerId: number, change: CollaborationChange, origin: CollaborationOrigin): void {
+    const members = this.rooms.get(this.roomKey(organizationId, layerId));
+    if (!members) return;
+    const data = JSON.stringify({ type: "change", userId: origin.userId, change } satisfies CollaborationServerMessage);
+    members.forEach((memberId) => {
+      const member = this.clients.get(memberId);
+      if (!member) return;
+      // The client id comes from a request header, so it only mutes a client of the same user
+      if (memberId === origin.clientId && member.identity.userId === origin.userId) return;
+      this.deliver(member, data);
+    });
+  }
+
+  /** Peers currently in the room for a layer, in join order. */
+  peersOf(organizationId: number, layerId: number): CollaborationPeer[] {
+    const members = this.rooms.get(this.roomKey(organizationId, layerId));
+    return members ? Array.from(members).map((memberId) => this.clients.get(memberId)!.peer) : [];
+  }
+
+  async receive(clientId: string, raw: string): Promise<void> {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    let message: CollaborationClientMessage;
+    try {
+      const parsed = collaborationClientMessageSchema.safeParse(JSON.parse(raw));
+      if (!parsed.success) {
+        this.send(client, { type: "error", message: "Invalid collaboration message" });
+        return;
+      }
+      message = parsed.data;
+    } catch {
+      this.send(client, { type: "error", message: "Collaboration messages must be JSON" });
+      return;
+    }
+
+    switch (message.type) {
+      case "join":
+        await this.join(client, message.layerId);
+        return;
+      case "leave":
+        this.leaveRoom(clientId);
+        return;
+      case "cursor":
+        if (!client.room) return;
+        client.peer.cursor = message.cursor;
+        this.broadcast(client, { type: "cursor", clientId, cursor: message.cursor });
+        return;
+      case "selection":
+        if (!client.room) return;
+        client.peer.selection = message.nodeIds;
+        this.broadcast(client, { type: "selection", clientId, nodeIds: message.nodeIds });
+        return;
+    }
+  }
+
+  private async join(client: CollaborationClient, layerId: number): Promise<void> {
+    if (this.options.canAccessLayer && !(await this.options.canAccessLayer(client.identity, layerId))) {
+      this.send(client, { type: "error", message: `Model layer ${layerId} not found` });
+      return;
+    }
+    // The socket may have closed while access was being checked
+    if (!this.clients.has(client.id)) return;
+
+    this.leaveRoom(client.id);
+    const room = this.roomKey(client.identity.organizationId, layerId);
+    const peers = this.peersOf(client.identity.organizationId, layerId);
+    const members = this.rooms.get(room) ?? new Set<string>();
+    members.add(client.id);
+    this.rooms.set(room, members);
+    client.room = room;
+
+    this.send(client, { type: "welcome", clientId: client.id, layerId, peers });
+    this.broadcast(client, { type: "peer.joined", peer: client.peer });
+  }
+
+  private closeWhere(match: (identity: CollaborationIdentity, clientId: string) => boolean): number {
+    const closing = Array.from(this.clients.values()).filter((client) => match(client.identity, client.id));
+    closing.forEach((client) => {
+      this.disconnect(client.id);
+      try {
+        client.connection.close();
+      } catch (error) {
+        console.warn(`[COLLAB] Failed to close client ${client.id}:`, error instanceof Error ? error.message : error);
+      }
+    });
+    return closing.length;
+  }
+
+  private leaveRoom(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client?.room) return;
+
+    this.broadcast(client, { type: "peer.left", clientId });
+    const members = this.rooms.get(client.room);
+    members?.delete(clientId);
+    if (members && members.size === 0) {
+      this.rooms.delete(client.room);
+    }
+    client.room = null;
+    client.peer.cursor = null;
+    client.peer.selection = [];
+  }
+
+  private broadcast(sender: CollaborationClient, message: CollaborationServerMessage): void {
+    const members = sender.room ? this.rooms.get(sender.room) : undefined;
+    if (!members) return;
+    const data = JSON.stringify(message);
+    members.forEach((memberId) => {
+      if (memberId === sender.id) return;
+      const member = this.clients.get(memberId);
+      if (member) this.deliver(member, data);
+    });
+  }
+
+  private send(client: CollaborationClient, message: CollaborationServerMessage): void {
+    this.deliver(client, JSON.stringify(message));
+  }
+
+  private deliver(client: CollaborationClient, data: string): void {
+    try {
+      client.connection.send(data);
+    } catch (error) {
+      console.warn(`[COLLAB] Dropping message for client ${client.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private roomKey(organizationId: number, layerId: number): string {
+    return `${organizationId}:${layerId}`;
+  }
+}
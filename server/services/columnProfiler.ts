@@ -0,0 +1,242 @@
+import type { ColumnProfile, DatabaseConnectionConfig, TableMetadata } from "./dataConnectors";
+
+/**
+ * Per-column statistics over sampled source rows: nulls, distinct values,
+ * min/max, the most frequent values and the dominant value format.
+ * Used by the CSV profiler, the file importers and the SQL profiling pass.
+ */
+
+export const DEFAULT_PROFILE_SAMPLE_ROWS = 10_000;
+
+const TOP_VALUE_LIMIT = 5;
+// Counting stops adding new values past this, so top values stay bounded on high-cardinality columns
+const MAX_COUNTED_VALUES = 10_000;
+const MAX_SHAPES = 1_000;
+const MAX_SHAPE_SOURCE_LENGTH = 40;
+const MAX_REPORTED_VALUE_LENGTH = 64;
+// Share of non-null values that must agree before a pattern is reported
+const PATTERN_MIN_RATIO = 0.9;
+
+// Leading zeros mark codes (postal, account numbers), which keep their text ordering
+const NUMERIC_PATTERN = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Checked in order; a value counts towards the first format it matches
+const KNOWN_FORMATS: Array<[string, RegExp]> = [
+  ["integer", /^[+-]?(0|[1-9]\d*)$/],
+  ["decimal", /^[+-]?\d+\.\d+$/],
+  ["boolean", /^(true|false)$/i],
+  ["uuid", /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ["email", /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ["url", /^https?:\/\/\S+$/i],
+  ["ipv4", /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/],
+  ["iso-date", /^\d{4}-\d{2}-\d{2}$/],
+  ["iso-timestamp", /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ["phone", /^\+?\d[\d\s().-]{5,}\d$/],
+];
+
+// 53-bit string hash (cyrb53); distinct counts keep hashes instead of the values themselves
+export function hashValue(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < value.length; index++) {
+    const code = value.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+export const roundRatio = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 10_000) / 10_000 : 0;
+
+const truncate = (value: string) =>
+  value.length > MAX_REPORTED_VALUE_LENGTH ? `${value.slice(0, MAX_REPORTED_VALUE_LENGTH)}…` : value;
+
+/** Latin letters become A, digits 9; punctuation and spacing are kept, so `NO-0150` has the shape `AA-9999`. */
+function shapeOf(value: string): string {
+  return value.replace(/[A-Za-z\u00c0-\u024f]/g, "A").replace(/\d/g, "9").replace(/\s+/g, " ");
+}
+
+type ProfileSummary = Pick<ColumnProfile, "min" | "max" | "topValues" | "pattern" | "patternRatio">;
+
+/** Min/max, value frequencies and format of the non-null values of one column. */
+export class ValueDistribution {
+  private count = 0;
+  private numericCount = 0;
+  private numericMin: { value: number; text: string } | null = null;
+  private numericMax: { value: number; text: string } | null = null;
+  private textMin: string | null = null;
+  private textMax: string | null = null;
+  private readonly counts = new Map<string, number>();
+  private readonly formats = new Map<string, number>();
+  private readonly shapes = new Map<string, number>();
+
+  /** `format` overrides detection for values whose type already says what they are. */
+  add(text: string, format?: string): void {
+    this.count++;
+
+    if (NUMERIC_PATTERN.test(text)) {
+      const value = Number(text);
+      this.numericCount++;
+      if (!this.numericMin || value < this.numericMin.value) this.numericMin = { value, text };
+      if (!this.numericMax || value > this.numericMax.value) this.numericMax = { value, text };
+    }
+    if (this.textMin === null || text < this.textMin) this.textMin = text;
+    if (this.textMax === null || text > this.textMax) this.textMax = text;
+
+    const seen = this.counts.get(text);
+    if (seen !== undefined) this.counts.set(text, seen + 1);
+    else if (this.counts.size < MAX_COUNTED_VALUES) this.counts.set(text, 1);
+
+    const detected = format ?? KNOWN_FORMATS.find(([, pattern]) => pattern.test(text))?.[0];
+    if (detected) this.formats.set(detected, (this.formats.get(detected) ?? 0) + 1);
+
+    if (text.length <= MAX_SHAPE_SOURCE_LENGTH) {
+      const shape = shapeOf(text);
+      const shapeCount = this.shapes.get(shape);
+      if (shapeCount !== undefined) this.shapes.set(shape, shapeCount + 1);
+      else if (this.shapes.size < MAX_SHAPES) this.shapes.set(shape, 1);
+    }
+  }
+
+  summary(): ProfileSummary {
+    if (this.count === 0) return {};
+
+    // Numbers compare numerically only when every value is one; otherwise "10" sorts before "9"
+    const numeric = this.numericCount === this.count;
+    const extreme = (entry: { value: number; text: string } | null) =>
+      entry && (Number.isSafeInteger(entry.value) || !Number.isInteger(entry.value)) ? entry.value : entry?.text;
+    const min = numeric ? extreme(this.numericMin) : this.textMin !== null ? truncate(this.textMin) : undefined;
+    const max = numeric ? extreme(this.numericMax) : this.textMax !== null ? truncate(this.textMax) : undefined;
+
+    // Values seen once say nothing about the distribution
+    const topValues = Array.from(this.counts.entries())
+      .filter(([, count]) => count > 1)
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, TOP_VALUE_LIMIT)
+      .map(([value, count]) => ({ value: truncate(value), count }));
+
+    const best = (entries: Map<string, number>) =>
+      Array.from(entries.entries()).reduce<[string, number] | null>(
+        (winner, entry) => (!winner || entry[1] > winner[1] ? entry : winner),
+        null,
+      );
+    const format = best(this.formats);
+    const shape = best(this.shapes);
+    const pattern =
+      format && format[1] / this.count >= PATTERN_MIN_RATIO
+        ? format
+        : shape && shape[1] / this.count >= PATTERN_MIN_RATIO
+          ? shape
+          : null;
+
+    return {
+      min,
+      max,
+      ...(topValues.length > 0 ? { topValues } : {}),
+      ...(pattern ? { pattern: pattern[0], patternRatio: roundRatio(pattern[1], this.count) } : {}),
+    };
+  }
+}
+
+/** Profiles the raw values a driver or file reader returns for one column. */
+export class ColumnValueProfiler {
+  private rows = 0;
+  private nullCount = 0;
+  private maxLength: number | undefined;
+  private readonly distinct = new Set<number>();
+  private readonly distribution = new ValueDistribution();
+
+  add(raw: unknown): void {
+    this.rows++;
+    if (raw === null || raw === undefined) {
+      this.nullCount++;
+      return;
+    }
+
+    let text: string;
+    let format: string | undefined;
+    if (raw instanceof Date) {
+      text = Number.isNaN(raw.getTime()) ? String(raw) : raw.toISOString();
+      format = "iso-timestamp";
+    } else if (raw instanceof Uint8Array) {
+      // Binary values only count towards nulls and distinct values
+      this.distinct.add(hashValue(Buffer.from(raw).toString("base64")));
+      return;
+    } else if (typeof raw === "object") {
+      text = JSON.stringify(raw);
+    } else {
+      text = String(raw);
+      if (typeof raw === "string") this.maxLength = Math.max(this.maxLength ?? 0, raw.length);
+      if (typeof raw === "boolean") format = "boolean";
+    }
+
+    this.distinct.add(hashValue(text));
+    this.distribution.add(text, format);
+  }
+
+  finish(): ColumnProfile {
+    return {
+      nullCount: this.nullCount,
+      nullRatio: roundRatio(this.nullCount, this.rows),
+      distinctCount: this.distinct.size,
+      ...(this.maxLength !== undefined ? { maxLength: this.maxLength } : {}),
+      sampleSize: this.rows,
+      ...this.distribution.summary(),
+    };
+  }
+}
+
+/** Profiles of `columns` over row objects keyed by column name. */
+export function profileRows(rows: Record<string, unknown>[], columns: string[]): Map<string, ColumnProfile> {
+  const profilers = columns.map((column) => [column, new ColumnValueProfiler()] as const);
+  rows.forEach((row) => {
+    profilers.forEach(([column, profiler]) => profiler.add(row[column]));
+  });
+  return new Map(profilers.map(([column, profiler]) => [column, profiler.finish()]));
+}
+
+/** Attaches profiles to the matching columns of `table`, in place. */
+export function applyProfiles(table: TableMetadata, profiles: Map<string, ColumnProfile>): TableMetadata {
+  table.columns.forEach((column) => {
+    const profile = profiles.get(column.name);
+    if (profile) column.profile = profile;
+  });
+  return table;
+}
+
+export type ProfileDialect = DatabaseConnectionConfig["type"] | "sqlite";
+
+const quoteIdentifier = (dialect: ProfileDialect, identifier: string) => {
+  switch (dialect) {
+    case "mysql":
+      return `\`${identifier.replace(/`/g, "``")}\``;
+    case "sql_server":
+    case "generic_sql":
+      return `[${identifier.replace(/]/g, "]]")}]`;
+    default:
+      return `"${identifier.replace(/"/g, '""')}"`;
+  }
+};
+
+/** SELECT of the first `limit` rows of a table's columns, in the dialect's row-limiting syntax. */
+export function buildSampleQuery(dialect: ProfileDialect, table: TableMetadata, limit: number): string {
+  const name = table.originalName ?? table.name;
+  const from = table.schema
+    ? `${quoteIdentifier(dialect, table.schema)}.${quoteIdentifier(dialect, name)}`
+    : quoteIdentifier(dialect, name);
+  const columns = table.columns.map((column) => quoteIdentifier(dialect, column.name)).join(", ");
+  const rows = Math.max(1, Math.floor(limit));
+
+  switch (dialect) {
+    case "sql_server":
+    case "generic_sql":
+      return `SELECT TOP (${rows}) ${columns} FROM ${from}`;
+    case "oracle":
+      return `SELECT ${columns} FROM ${from} FETCH FIRST ${rows} ROWS ONLY`;
+    default:
+      return `SELECT ${columns} FROM ${from} LIMIT ${rows}`;
+  }
+}
@@ -0,0 +1,135 @@
+import type { ModelHistoryCommand } from "@shared/schema";
+import {
+  buildHistoryCommand,
+  findChangeOutsideLayer,
+  historyChangeName,
+  type HistoryCommandStatus,
+  type HistoryPositionChange,
+} from "@shared/history";
+import { storage, type IStorage } from "../storage";
+
+// Oldest commands beyond this are dropped; they can no longer be undone
+export const HISTORY_LIMIT = 100;
+
+/** What the timeline shows; the replay operations stay on the server. */
+export interface HistoryCommandSummary {
+  id: number;
+  modelId: number;
+  action: string;
+  label: string;
+  status: HistoryCommandStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecordCommandInput {
+  action: string;
+  label: string;
+  /** X-Request-Id of every write the action made; their audit entries become the command. */
+  requestIds: string[];
+  positions?: HistoryPositionChange[];
+}
+
+const summarize = ({ forward: _forward, inverse: _inverse, ...command }: ModelHistoryCommand): HistoryCommandSummary => ({
+  ...command,
+  status: command.status as HistoryCommandStatus,
+});
+
+/**
+ * Server-side undo/redo for one user on one layer. A command is recorded after
+ * the action's writes succeed, from what the audit log captured for its
+ * requests; undo replays the inverse operations and redo the forward ones.
+ */
+export class CommandHistoryService {
+  constructor(private readonly store: IStorage) {}
+
+  async list(layerId: number, userId: number): Promise<HistoryCommandSummary[]> {
+    await this.requireLayer(layerId);
+    const commands = await this.store.getHistoryCommands(layerId, userId);
+    return commands.map(summarize);
+  }
+
+  /** Returns null when the requests changed nothing that can be undone. */
+  async record(layerId: number, input: RecordCommandInput, userId: number): Promise<HistoryCommandSummary | null> {
+    await this.requireLayer(layerId);
+
+    const [links, layerObjects] = await Promise.all([
+      this.store.getLayerObjectLinksByLayer(layerId),
+      this.store.getDataModelObjectsByModel(layerId),
+    ]);
+    const placed = new Set(links.map((link) => link.dataModelObjectId));
+    const positions = input.positions ?? [];
+    const missing = positions.find((position) => !placed.has(position.modelObjectId));
+    if (missing) {
+      throw new Error(`Object ${missing.modelObjectId} not found on model layer ${layerId}`);
+    }
+
+    // Request ids are chosen by the client; only writes to this layer's objects may become its command
+    const changes = await this.store.getAuditLogEntriesByRequests(input.requestIds, userId);
+    const outside = findChangeOutsideLayer(changes, {
+      layerId,
+      modelObjectIds: Array.from(placed),
+      dataObjectIds: layerObjects.map((object) => object.objectId).filter((id): id is number => id !== null),
+    });
+    if (outside) {
+      throw new Error(`Undoable changes must be on model layer ${layerId}; ${historyChangeName(outside)} is not`);
+    }
+
+    const { forward, inverse } = buildHistoryCommand(changes, positions);
+    if (forward.length === 0) {
+      return null;
+    }
+
+    // A new action ends the redo branch
+    const existing = await this.store.getHistoryCommands(layerId, userId);
+    await this.store.deleteHistoryCommands(existing.filter((command) => command.status === "undone").map((command) => command.id));
+
+    const command = await this.store.createHistoryCommand({
+      modelId: layerId,
+      userId,
+      action: input.action,
+      label: input.label,
+      forward,
+      inverse,
+      status: "applied",
+    });
+
+    const applied = existing.filter((command) => command.status === "applied");
+    const overflow = applied.length + 1 - HISTORY_LIMIT;
+    if (overflow > 0) {
+      await this.store.deleteHistoryCommands(applied.slice(0, overflow).map((command) => command.id));
+    }
+
+    return summarize(command);
+  }
+
+  async undo(layerId: number, userId: number): Promise<HistoryCommandSummary> {
+    await this.requireLayer(layerId);
+    const commands = await this.store.getHistoryCommands(layerId, userId);
+    const command = commands.filter((entry) => entry.status === "applied").pop();
+    if (!command) {
+      throw new Error(`Command to undo not found on model layer ${layerId}`);
+    }
+    await this.store.applyHistoryOperations(layerId, command.inverse);
+    return summarize(await this.store.updateHistoryCommand(command.id, { status: "undone" }));
+  }
+
+  async redo(layerId: number, userId: number): Promise<HistoryCommandSummary> {
+    await this.requireLayer(layerId);
+    const commands = await this.store.getHistoryCommands(layerId, userId);
+    const command = commands.find((entry) => entry.status === "undone");
+    if (!command) {
+      throw new Error(`Command to redo not found on model layer ${layerId}`);
+    }
+    await this.store.applyHistoryOperations(layerId, command.forward);
+    return summarize(await this.store.updateHistoryCommand(command.id, { status: "applied" }));
+  }
+
+  private async requireLayer(layerId: number): Promise<void> {
+    if (!(await this.store.getDataModelLayer(layerId))) {
+      throw new Error(`Model layer ${layerId} not found`);
+    }
+  }
+}
+
+export const commandHistoryService = new CommandHistoryService(storage);
@@ -0,0 +1,486 @@
+import { hashValue, roundRatio, ValueDistribution } from "./columnProfiler";
+import type { ColumnMetadata, ColumnProfile, TableMetadata } from "./dataConnectors";
+
+/**
+ * RFC 4180 CSV profiler. Input is consumed chunk by chunk and only per-column
+ * accumulators are kept, so memory stays flat however long the file is.
+ * Rows past `sampleRowLimit` are counted but not profiled.
+ */
+
+export interface CsvProfileOptions {
+  /** Used to name the table; the extension is dropped. */
+  fileName?: string;
+  sampleRowLimit?: number;
+}
+
+export const DEFAULT_CSV_SAMPLE_ROWS = 100_000;
+
+const CHUNK_SIZE = 64 * 1024;
+// Enough text to see a few dozen rows when guessing the delimiter
+const DETECTION_SAMPLE_CHARS = 64 * 1024;
+const DETECTION_SAMPLE_LINES = 50;
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+const NULL_MARKERS = new Set(["", "null", "\\n"]);
+const MAX_INTEGER = 2_147_483_647;
+const MAX_BIGINT_DIGITS = 18;
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d*)\.(\d+)$/;
+const SCIENTIFIC_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)[eE][+-]?\d+$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATE_PATTERN = /^\d{1,2}[/.]\d{1,2}[/.]\d{4}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** Sniff a byte-order mark, UTF-16 without one, then fall back to Windows-1252 for invalid UTF-8. */
+export function detectEncoding(head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return "utf-8";
+  if (head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+
+  const probe = head.subarray(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  probe.forEach((byte, index) => {
+    if (byte === 0) {
+      if (index % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  });
+  const half = probe.length / 2;
+  if (half > 0 && oddZeros / half > 0.3) return "utf-16le";
+  if (half > 0 && evenZeros / half > 0.3) return "utf-16be";
+
+  try {
+    // stream: true tolerates a multi-byte character cut at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/** Pick the candidate that splits the sample lines into the most consistent, widest rows. */
+export function detectDelimiter(sample: string): string {
+  const lines = splitSampleLines(sample).slice(0, DETECTION_SAMPLE_LINES);
+  let best = ",";
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    if (counts.length === 0 || counts[0] === 0) return;
+    const consistent = counts.filter((count) => count === counts[0]).length / counts.length;
+    const score = consistent * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// Lines of the sample, keeping quoted newlines inside their line; the last line may be partial
+function splitSampleLines(sample: string): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (current.trim()) lines.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  return lines;
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Incremental RFC 4180 tokenizer: quoted fields may contain delimiters, CR/LF
+ * and doubled quotes, and any of these may straddle a chunk boundary. A quoted
+ * field still open at the end of the input makes the file malformed.
+ */
+class CsvRowReader {
+  private field = "";
+  private row: string[] = [];
+  private inQuotes = false;
+  private pendingQuote = false;
+  private fieldStarted = false;
+  private skipLineFeed = false;
+  // 1-based line being read and the line the open quoted field started on, for error messages
+  private line = 1;
+  private afterCarriageReturn = false;
+  private quoteLine = 0;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly onRow: (row: string[]) => void,
+  ) {}
+
+  write(text: string): void {
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (char === "\r" || (char === "\n" && !this.afterCarriageReturn)) this.line++;
+      this.afterCarriageReturn = char === "\r";
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === "\n") continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.pendingQuote) {
+          this.pendingQuote = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false;
+          // fall through: the character after a closing quote is read unquoted
+        } else {
+          if (char === '"') this.pendingQuote = true;
+          else this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+        this.quoteLine = this.line;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === "\n" || char === "\r") {
+        this.endRow();
+        this.skipLineFeed = char === "\r";
+      } else {
+        this.field += char;
+        this.fieldStarted = true;
+      }
+    }
+  }
+
+  end(): void {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new Error(`Malformed CSV: the quoted field opened on line ${this.quoteLine} is never closed`);
+    }
+    if (this.fieldStarted || this.row.length > 0) {
+      this.endRow();
+    }
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = "";
+    this.fieldStarted = false;
+  }
+
+  private endRow(): void {
+    this.endField();
+    const row = this.row;
+    this.row = [];
+    // Blank lines carry no record
+    if (row.length > 1 || row[0] !== "") {
+      this.onRow(row);
+    }
+  }
+}
+
+const isCalendarDate = (year: number, month: number, day: number) =>
+  month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isDate = (value: string) => {
+  if (ISO_DATE_PATTERN.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    return isCalendarDate(year, month, day);
+  }
+  if (LOCAL_DATE_PATTERN.test(value)) {
+    // Day-first and month-first files both occur; the value is a date if either reading is
+    const [first, second, year] = value.split(/[/.]/).map(Number);
+    return isCalendarDate(year, second, first) || isCalendarDate(year, first, second);
+  }
+  return false;
+};
+
+class ColumnAccumulator {
+  nonNullCount = 0;
+  nullCount = 0;
+  maxLength = 0;
+  readonly distribution = new ValueDistribution();
+  private readonly distinct = new Set<number>();
+  private booleans = 0;
+  private integers = 0;
+  private decimals = 0;
+  private scientific = 0;
+  private dates = 0;
+  private timestamps = 0;
+  private maxIntegerDigits = 0;
+  private maxScale = 0;
+  private exceedsInteger = false;
+
+  add(raw: string | undefined): void {
+    const value = (raw ?? "").trim();
+    if (NULL_MARKERS.has(value.toLowerCase())) {
+      this.nullCount++;
+      return;
+    }
+    this.nonNullCount++;
+    this.maxLength = Math.max(this.maxLength, value.length);
+    this.distinct.add(hashValue(value));
+    this.distribution.add(value);
+
+    const unsigned = value.replace(/^[+-]/, "");
+    if (BOOLEAN_PATTERN.test(value)) {
+      this.booleans++;
+    } else if (INTEGER_PATTERN.test(value) && !(unsigned.length > 1 && unsigned.startsWith("0"))) {
+      // Leading zeros (postal codes, account numbers) are identifiers, not numbers
+      this.integers++;
+      this.maxIntegerDigits = Math.max(this.maxIntegerDigits, unsigned.length);
+      if (Math.abs(Number(value)) > MAX_INTEGER) this.exceedsInteger = true;
+    } else if (DECIMAL_PATTERN.test(value)) {
+      const [, whole, fraction] = DECIMAL_PATTERN.exec(value)!;
+      this.decimals++;
+      this.maxIntegerDigits = Math.max(this.maxIntegerDigits, whole.replace(/^0+(?=\d)/, "").length || 1);
+      this.maxScale = Math.max(this.maxScale, fraction.length);
+    } else if (SCIENTIFIC_PATTERN.test(value)) {
+      this.scientific++;
+    } else if (isDate(value)) {
+      this.dates++;
+    } else if (
+      TIMESTAMP_PATTERN.test(value) &&
+      isDate(value.slice(0, 10)) &&
+      !Number.isNaN(Date.parse(value.replace(" ", "T")))
+    ) {
+      this.timestamps++;
+    }
+  }
+
+  get distinctCount(): number {
+    return this.distinct.size;
+  }
+
+  /** Narrowest type that every non-null value fits. */
+  inferType(): Pick<ColumnMetadata, "type" | "length" | "precision" | "scale"> {
+    const total = this.nonNullCount;
+    if (total === 0) return { type: "VARCHAR" };
+    if (this.booleans === total) return { type: "BOOLEAN" };
+    if (this.integers === total) {
+      if (this.maxIntegerDigits > MAX_BIGINT_DIGITS) {
+        return { type: `DECIMAL(${this.maxIntegerDigits},0)`, precision: this.maxIntegerDigits, scale: 0 };
+      }
+      return { type: this.exceedsInteger ? "BIGINT" : "INTEGER" };
+    }
+    if (this.integers + this.decimals === total) {
+      const precision = this.maxIntegerDigits + this.maxScale;
+      return { type: `DECIMAL(${precision},${this.maxScale})`, precision, scale: this.maxScale };
+    }
+    if (this.integers + this.decimals + this.scientific === total) return { type: "DOUBLE" };
+    if (this.dates === total) return { type: "DATE" };
+    if (this.dates + this.timestamps === total) return { type: "TIMESTAMP" };
+    return { type: `VARCHAR(${this.maxLength})`, length: this.maxLength };
+  }
+}
+
+/** A header row is all distinct, non-empty labels that do not look like data. */
+function looksLikeHeader(row: string[]): boolean {
+  const labels = row.map((value) => value.trim());
+  return (
+    labels.every((label) => label !== "" && !INTEGER_PATTERN.test(label) && !DECIMAL_PATTERN.test(label) && !isDate(label)) &&
+    new Set(labels.map((label) => label.toLowerCase())).size === labels.length
+  );
+}
+
+function tableNameFromFile(fileName: string | undefined): string {
+  const base = (fileName ?? "").replace(/^.*[\\/]/, "").replace(/\.[^.]+$/, "").trim();
+  return base || "CSV_DATA";
+}
+
+/** Prefer `id`, then `<table>_id` / `<table>id`, then other *id columns, then integers, then the shortest. */
+function rankCandidateKeys(tableName: string, columns: ColumnMetadata[], candidates: string[]): string[] {
+  const singular = tableName.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/s$/, "");
+  const score = (name: string) => {
+    const normalized = name.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const column = columns.find((candidate) => candidate.name === name)!;
+    let value = 0;
+    if (normalized === "id") value += 8;
+    else if (normalized === `${singular}id`) value += 6;
+    else if (normalized.endsWith("id") || normalized.endsWith("key") || normalized.endsWith("code")) value += 4;
+    if (column.type === "INTEGER" || column.type === "BIGINT") value += 2;
+    return value;
+  };
+  return [...candidates].sort((a, b) => {
+    const difference = score(b) - score(a);
+    if (difference !== 0) return difference;
+    const lengthOf = (name: string) => columns.find((column) => column.name === name)?.profile?.maxLength ?? 0;
+    return lengthOf(a) - lengthOf(b);
+  });
+}
+
+async function* chunksOf(input: Uint8Array | AsyncIterable<Uint8Array>): AsyncIterable<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    for (let offset = 0; offset < input.length; offset += CHUNK_SIZE) {
+      yield input.subarray(offset, offset + CHUNK_SIZE);
+    }
+    return;
+  }
+  yield* input;
+}
+
+/** Row-level bookkeeping: header detection, sampling and per-column accumulators. */
+class CsvTableProfiler {
+  private header: string[] | null = null;
+  private hasHeader = false;
+  private accumulators: ColumnAccumulator[] = [];
+  private rowCount = 0;
+  private profiledRowCount = 0;
+  private irregularRowCount = 0;
+
+  constructor(private readonly sampleRowLimit: number) {}
+
+  addRow(row: string[]): void {
+    if (!this.header) {
+      this.hasHeader = looksLikeHeader(row);
+      this.header = this.hasHeader ? row.map((value) => value.trim()) : row.map((_, index) => `column_${index + 1}`);
+      this.accumulators = this.header.map(() => new ColumnAccumulator());
+      if (this.hasHeader) return;
+    }
+
+    this.rowCount++;
+    if (row.length !== this.header.length) this.irregularRowCount++;
+    // Extra trailing fields get generated names so no data is silently dropped
+    while (row.length > this.header.length) {
+      this.header.push(`column_${this.header.length + 1}`);
+      const added = new ColumnAccumulator();
+      added.nullCount = this.profiledRowCount;
+      this.accumulators.push(added);
+    }
+    if (this.profiledRowCount >= this.sampleRowLimit) return;
+    this.profiledRowCount++;
+    this.accumulators.forEach((accumulator, index) => accumulator.add(row[index]));
+  }
+
+  finish(tableName: string, encoding: string, delimiter: string): TableMetadata {
+    const header = this.header;
+    if (!header) {
+      throw new Error("Empty CSV file");
+    }
+    const profiledRowCount = this.profiledRowCount;
+
+    const columns: ColumnMetadata[] = this.accumulators.map((accumulator, index) => {
+      const profile: ColumnProfile = {
+        nullCount: accumulator.nullCount,
+        nullRatio: roundRatio(accumulator.nullCount, profiledRowCount),
+        distinctCount: accumulator.distinctCount,
+        maxLength: accumulator.maxLength,
+        sampleSize: profiledRowCount,
+        ...accumulator.distribution.summary(),
+      };
+      return {
+        name: header[index],
+        ...accumulator.inferType(),
+        nullable: accumulator.nullCount > 0 || profiledRowCount === 0,
+        isPrimaryKey: false,
+        profile,
+      };
+    });
+
+    // A candidate key is never null and unique across the profiled rows
+    const candidates =
+      profiledRowCount > 1
+        ? columns
+            .filter((column, index) => {
+              const accumulator = this.accumulators[index];
+              return (
+                accumulator.nullCount === 0 &&
+                accumulator.distinctCount === profiledRowCount &&
+                column.type !== "BOOLEAN" &&
+                column.type !== "DOUBLE"
+              );
+            })
+            .map((column) => column.name)
+        : [];
+    const candidateKeys = rankCandidateKeys(tableName, columns, candidates);
+    const primaryKey = columns.find((column) => column.name === candidateKeys[0]);
+    if (primaryKey) {
+      primaryKey.isPrimaryKey = true;
+    }
+
+    return {
+      name: tableName,
+      columns,
+      rowCount: this.rowCount,
+      profile: {
+        encoding,
+        delimiter,
+        hasHeader: this.hasHeader,
+        profiledRowCount,
+        sampled: profiledRowCount < this.rowCount,
+        irregularRowCount: this.irregularRowCount,
+        candidateKeys: candidateKeys.map((name) => [name]),
+      },
+    };
+  }
+}
+
+export async function profileCsv(
+  input: Uint8Array | AsyncIterable<Uint8Array>,
+  options: CsvProfileOptions = {},
+): Promise<TableMetadata> {
+  const profiler = new CsvTableProfiler(options.sampleRowLimit ?? DEFAULT_CSV_SAMPLE_ROWS);
+  let encoding = "utf-8";
+  let decoder: TextDecoder | null = null;
+  let reader: CsvRowReader | null = null;
+  let delimiter = ",";
+  // Text held back until there is enough to guess the delimiter
+  let pending = "";
+
+  const startReader = (sample: string) => {
+    delimiter = detectDelimiter(sample);
+    const created = new CsvRowReader(delimiter, (row) => profiler.addRow(row));
+    created.write(sample);
+    return created;
+  };
+
+  for await (const chunk of chunksOf(input)) {
+    if (!decoder) {
+      encoding = detectEncoding(chunk);
+      // The decoder drops the byte-order mark itself
+      decoder = new TextDecoder(encoding);
+    }
+    const text = decoder.decode(chunk, { stream: true });
+    if (reader) {
+      reader.write(text);
+    } else {
+      pending += text;
+      if (pending.length >= DETECTION_SAMPLE_CHARS) {
+        reader = startReader(pending);
+        pending = "";
+      }
+    }
+  }
+
+  const tail = decoder ? decoder.decode() : "";
+  if (reader) {
+    reader.write(tail);
+  } else {
+    reader = startReader(pending + tail);
+  }
+  reader.end();
+
+  return profiler.finish(tableNameFromFile(options.fileName), encoding, delimiter);
+}
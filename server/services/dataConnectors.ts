@@ -1,3 +1,27 @@
+import { Socket } from "net";
+import {
+  defaultCatalogSchema,
+  extractHanaCatalog,
+  extractOracleCatalog,
+  openHanaRunner,
+  openOracleRunner,
+  type CatalogQueryRunner,
+} from "./catalogExtractors";
+import { applyProfiles, buildSampleQuery, DEFAULT_PROFILE_SAMPLE_ROWS, profileRows } from "./columnProfiler";
+import { profileCsv } from "./csvProfiler";
+import { parseApiSchema, readApiSchemaDocument, type ApiSchemaParseResult } from "./apiSchemaParser";
+import { parseDDL, type DdlParseResult } from "./ddlParser";
+import {
+  profileParquetRows,
+  readExcelWorkbook,
+  readParquetSchema,
+  readSQLiteCatalog,
+  type FileImportOptions,
+} from "./fileImporters";
+
+// Connection tests give up after this long so an unreachable host does not hang the request
+const CONNECTION_TEST_TIMEOUT_MS = 10_000;
+
 export interface DatabaseConnectionConfig {
   type: "sap_hana" | "oracle" | "sql_server" | "postgres" | "mysql" | "generic_sql";
   host: string;
@@ -18,6 +42,14 @@ export interface ADLSConnectionConfig {
   accessKey?: string;
 }
 
+export interface ApiConnectionConfig {
+  type: "api";
+  /** URL of the OpenAPI or JSON Schema document describing the API. */
+  specUrl: string;
+  authType?: string;
+  apiKey?: string;
+}
+
 export interface ForeignKeyMetadata {
   constraintName: string;
   columns: string[];
@@ -36,6 +68,9 @@ export interface TableMetadata {
   columns: ColumnMetadata[];
   rowCount?: number;
   foreignKeys?: ForeignKeyMetadata[];
+  /** Name of the primary key constraint, where the catalog reports one. */
+  primaryKeyName?: string;
+  profile?: TableProfile;
 }
 
 export interface ColumnMetadata {
@@ -44,33 +79,173 @@ export interface ColumnMetadata {
   nullable: boolean;
   isPrimaryKey: boolean;
   length?: number;
+  precision?: number;
+  scale?: number;
+  defaultValue?: string;
+  profile?: ColumnProfile;
+}
+
+// Statistics gathered from the data itself, over the profiled rows
+export interface ColumnProfile {
+  nullCount: number;
+  /** nullCount / profiled rows, rounded to four places. */
+  nullRatio: number;
+  distinctCount: number;
+  maxLength?: number;
+  /** Rows the statistics were computed over. */
+  sampleSize?: number;
+  /** Numeric when every value is a number, otherwise the lowest and highest text. */
+  min?: string | number;
+  max?: string | number;
+  /** Values that occur more than once, most frequent first. */
+  topValues?: { value: string; count: number }[];
+  /** Named format (email, uuid, iso-date, ...) or character shape such as `AA-9999` most values share. */
+  pattern?: string;
+  /** Share of non-null values that match `pattern`. */
+  patternRatio?: number;
+}
+
+export interface TableProfile {
+  encoding: string;
+  delimiter: string;
+  hasHeader: boolean;
+  /** Rows that fed the column statistics; smaller than rowCount when sampled. */
+  profiledRowCount: number;
+  sampled: boolean;
+  /** Rows whose field count differs from the header. */
+  irregularRowCount: number;
+  /** Columns unique and never null across the profiled rows, best first. */
+  candidateKeys: string[][];
 }
 
 export class DataConnectors {
-  // Test database connection
+  // Test database connection by opening a session and running a trivial query
   async testDatabaseConnection(config: DatabaseConnectionConfig): Promise<boolean> {
+    if (!config.host || !config.username) {
+      return false;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
     try {
-      // In a real implementation, this would use appropriate database drivers
-      // For now, we'll simulate connection testing
-      if (!config.host || !config.username) {
-        return false;
-      }
-      
-      // Simulate connection delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Connection timed out after ${CONNECTION_TEST_TIMEOUT_MS}ms`)),
+          CONNECTION_TEST_TIMEOUT_MS,
+        );
+      });
+      await Promise.race([this.pingDatabase(config), timeout]);
       return true;
     } catch (error) {
-      console.error('Database connection failed:', error);
+      console.error(`Database connection failed (${config.type} ${config.host}:${config.port}):`, error);
       return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async pingDatabase(config: DatabaseConnectionConfig): Promise<void> {
+    switch (config.type) {
+      case "postgres": {
+        const { Client } = await import("pg");
+        const sslMode = config.sslMode?.toLowerCase();
+        const client = new Client({
+          host: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+          ssl: sslMode && sslMode !== "disable" ? { rejectUnauthorized: false } : undefined,
+          connectionTimeoutMillis: CONNECTION_TEST_TIMEOUT_MS,
+        });
+        try {
+          await client.connect();
+          await client.query("SELECT 1");
+        } finally {
+          await client.end().catch(() => undefined);
+        }
+        return;
+      }
+      case "mysql": {
+        const mysql = await import('mysql2/promise');
+        const connection = await mysql.createConnection({
+          host: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+          connectTimeout: CONNECTION_TEST_TIMEOUT_MS,
+        });
+        try {
+          await connection.query("SELECT 1");
+        } finally {
+          await connection.end();
+        }
+        return;
+      }
+      case "sql_server": {
+        const mssql = await import('mssql');
+        const pool = new mssql.ConnectionPool({
+          server: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+          connectionTimeout: CONNECTION_TEST_TIMEOUT_MS,
+          options: { encrypt: false },
+        });
+        await pool.connect();
+        try {
+          await pool.request().query("SELECT 1");
+        } finally {
+          await pool.close();
+        }
+        return;
+      }
+      case "oracle": {
+        const runner = await openOracleRunner(config);
+        try {
+          await runner.query("SELECT 1 FROM DUAL", []);
+        } finally {
+          await runner.close();
+        }
+        return;
+      }
+      case "sap_hana": {
+        const runner = await openHanaRunner(config);
+        try {
+          await runner.query("SELECT 1 FROM DUMMY", []);
+        } finally {
+          await runner.close();
+        }
+        return;
+      }
+      case "generic_sql":
+        // No driver is known for generic SQL sources, so only check the listener is reachable
+        await new Promise<void>((resolve, reject) => {
+          const socket = new Socket();
+          socket.once("connect", () => {
+            socket.destroy();
+            resolve();
+          });
+          socket.once("error", (error) => {
+            socket.destroy();
+            reject(error);
+          });
+          // testDatabaseConnection stops waiting after the same timeout; close the socket too so it does not linger
+          socket.setTimeout(CONNECTION_TEST_TIMEOUT_MS, () => {
+            socket.destroy();
+            reject(new Error(`Connection timed out after ${CONNECTION_TEST_TIMEOUT_MS}ms`));
+          });
+          socket.connect(config.port, config.host);
+        });
+        return;
     }
   }
 
   // Extract metadata from database
   async extractDatabaseMetadata(config: DatabaseConnectionConfig): Promise<TableMetadata[]> {
-    // This implementation uses node-postgres for Postgres, mysql2 for MySQL, and mssql for SQL Server.
-    // For Oracle and SAP HANA, you would need to install oracledb and @sap/hana-client respectively.
-    // Only Postgres and MySQL are implemented here for demonstration.
+    // node-postgres for Postgres, mysql2 for MySQL, mssql for SQL Server, oracledb for Oracle
+    // and @sap/hana-client for SAP HANA. Drivers other than pg are optional and loaded on demand.
 
     if (config.type === "postgres") {
       // PostgreSQL
@@ -124,9 +299,10 @@ export class DataConnectors {
         );
 
         const pkRes = await client.query(
-          `SELECT a.attname as column_name
+          `SELECT a.attname as column_name, pk.relname as constraint_name
            FROM pg_index i
            JOIN pg_class c ON c.oid = i.indrelid
+           JOIN pg_class pk ON pk.oid = i.indexrelid
            JOIN pg_namespace n ON n.oid = c.relnamespace
            JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
            WHERE i.indisprimary AND n.nspname = $1 AND c.relname = $2`,
@@ -134,6 +310,8 @@ export class DataConnectors {
         );
 
         const pkCols = pkRes.rows.map((r: any) => r.column_name);
+        // A primary key constraint and its index share the name
+        const primaryKeyName: string | undefined = pkRes.rows[0]?.constraint_name;
 
         let rowCount: number | undefined;
         const qualifiedName = `${quoteIdentifier(schemaName)}.${quoteIdentifier(tableName)}`;
@@ -240,6 +418,7 @@ export class DataConnectors {
           columns,
           rowCount,
           foreignKeys,
+          primaryKeyName,
         });
         }
 
@@ -415,7 +594,7 @@ export class DataConnectors {
 
         // Get primary keys
         const pkRes = await pool.request().query(`
-          SELECT COLUMN_NAME
+          SELECT COLUMN_NAME, CONSTRAINT_NAME
           FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
           WHERE OBJECTPROPERTY(OBJECT_ID(CONSTRAINT_SCHEMA + '.' + CONSTRAINT_NAME), 'IsPrimaryKey') = 1
             AND TABLE_NAME = @tableName
@@ -423,6 +602,7 @@ export class DataConnectors {
         `).input('tableName', mssql.VarChar, tableName).input('tableSchema', mssql.VarChar, schemaName ?? null);
 
         const pkCols = pkRes.recordset.map((r: any) => r.COLUMN_NAME);
+        const primaryKeyName: string | undefined = pkRes.recordset[0]?.CONSTRAINT_NAME;
 
         // Get row count
         let rowCount: number | undefined = undefined;
@@ -526,6 +706,7 @@ export class DataConnectors {
           columns,
           rowCount,
           foreignKeys,
+          primaryKeyName,
         });
       }
 
@@ -533,53 +714,130 @@ export class DataConnectors {
       return tables;
     }
 
-    // For Oracle, SAP HANA, and generic_sql, you would need to implement similar logic using their respective drivers.
-    // For now, throw an error for unsupported types.
+    if (config.type === "oracle") {
+      const runner = await openOracleRunner(config);
+      try {
+        return await extractOracleCatalog(runner, defaultCatalogSchema(config));
+      } finally {
+        await runner.close();
+      }
+    }
+
+    if (config.type === "sap_hana") {
+      const runner = await openHanaRunner(config);
+      try {
+        return await extractHanaCatalog(runner, defaultCatalogSchema(config));
+      } finally {
+        await runner.close();
+      }
+    }
+
+    // generic_sql has no known catalog to read
     throw new Error(`Database type "${config.type}" is not supported in this implementation.`);
   }
 
-  // Parse CSV file
-  async parseCSVFile(fileContent: string): Promise<TableMetadata> {
-    const lines = fileContent.split('\n').filter(line => line.trim());
-    if (lines.length === 0) {
-      throw new Error('Empty CSV file');
+  // Profile the first rows of each table; a table that cannot be read keeps its columns unprofiled
+  async profileDatabaseTables(
+    config: DatabaseConnectionConfig,
+    tables: TableMetadata[],
+    sampleRowLimit = DEFAULT_PROFILE_SAMPLE_ROWS,
+  ): Promise<TableMetadata[]> {
+    if (config.type === "generic_sql") {
+      throw new Error(`Database type "${config.type}" cannot be profiled.`);
     }
 
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const dataLines = lines.slice(1);
-
-    const columns: ColumnMetadata[] = headers.map(header => {
-      // Infer type from first few data rows
-      const sampleValues = dataLines.slice(0, 5).map(line => {
-        const values = line.split(',');
-        const index = headers.indexOf(header);
-        return values[index]?.trim().replace(/"/g, '') || '';
-      });
+    const runner = await this.openQueryRunner(config);
+    try {
+      for (const table of tables) {
+        if (table.columns.length === 0) continue;
+        try {
+          const rows = await runner.query(buildSampleQuery(config.type, table, sampleRowLimit), []);
+          applyProfiles(table, profileRows(rows, table.columns.map((column) => column.name)));
+        } catch (error) {
+          console.warn(`Failed to profile ${table.name}:`, error);
+        }
+      }
+      return tables;
+    } finally {
+      await runner.close();
+    }
+  }
 
-      const type = this.inferColumnType(sampleValues);
-      
-      return {
-        name: header,
-        type,
-        nullable: sampleValues.some(val => !val),
-        isPrimaryKey: false,
-      };
-    });
-
-    // Try to identify primary key (usually ID fields)
-    const idColumn = columns.find(col => 
-      col.name.toLowerCase().includes('id') && 
-      col.name.toLowerCase() !== 'id'
-    );
-    if (idColumn) {
-      idColumn.isPrimaryKey = true;
+  private async openQueryRunner(config: DatabaseConnectionConfig): Promise<CatalogQueryRunner> {
+    switch (config.type) {
+      case "postgres": {
+        const { Client } = await import("pg");
+        const sslMode = config.sslMode?.toLowerCase();
+        const client = new Client({
+          host: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+          ssl: sslMode && sslMode !== "disable" ? { rejectUnauthorized: false } : undefined,
+        });
+        await client.connect();
+        return {
+          async query(sql, params) {
+            return (await client.query(sql, params)).rows;
+          },
+          async close() {
+            await client.end();
+          },
+        };
+      }
+      case "mysql": {
+        const mysql = await import('mysql2/promise');
+        const connection = await mysql.createConnection({
+          host: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+        });
+        return {
+          async query(sql, params) {
+            const [rows] = await connection.query(sql, params);
+            return rows as Record<string, unknown>[];
+          },
+          async close() {
+            await connection.end();
+          },
+        };
+      }
+      case "sql_server": {
+        const mssql = await import('mssql');
+        const pool = await new mssql.ConnectionPool({
+          server: config.host,
+          port: config.port,
+          database: config.database,
+          user: config.username,
+          password: config.password,
+          options: { encrypt: false },
+        }).connect();
+        return {
+          // Sample queries carry no parameters
+          async query(sql) {
+            return (await pool.request().query(sql)).recordset as Record<string, unknown>[];
+          },
+          async close() {
+            await pool.close();
+          },
+        };
+      }
+      case "oracle":
+        return openOracleRunner(config);
+      case "sap_hana":
+        return openHanaRunner(config);
+      default:
+        throw new Error(`Database type "${config.type}" is not supported in this implementation.`);
     }
+  }
 
-    return {
-      name: "CSV_DATA",
-      columns,
-      rowCount: dataLines.length
-    };
+  // Profile an uploaded CSV file
+  async parseCSVFile(file: Buffer | string, fileName?: string): Promise<TableMetadata> {
+    const bytes = typeof file === "string" ? Buffer.from(file, "utf-8") : file;
+    return profileCsv(bytes, { fileName });
   }
 
   // Test ADLS connection
@@ -622,108 +880,98 @@ export class DataConnectors {
     ];
   }
 
-  private inferColumnType(values: string[]): string {
-    if (values.every(val => !val || !isNaN(Number(val)))) {
-      return values.some(val => val.includes('.')) ? 'DECIMAL' : 'INTEGER';
-    }
-    
-    if (values.every(val => !val || this.isDate(val))) {
-      return 'DATE';
-    }
-    
-    if (values.every(val => !val || ['true', 'false', '1', '0'].includes(val.toLowerCase()))) {
-      return 'BOOLEAN';
+  // Enhanced file upload methods
+  async parseExcelFile(fileBuffer: Buffer, options: FileImportOptions = {}): Promise<TableMetadata[]> {
+    try {
+      const tables = await readExcelWorkbook(fileBuffer, options);
+      if (tables.length === 0) {
+        throw new Error('Workbook contains no populated worksheets');
+      }
+      return tables;
+    } catch (error) {
+      throw new Error('Failed to parse Excel file: ' + (error as any).message);
     }
-    
-    return 'VARCHAR';
   }
 
-  private isDate(value: string): boolean {
-    return !isNaN(Date.parse(value));
+  async parseParquetFile(
+    fileBuffer: Buffer,
+    tableName = "PARQUET_DATA",
+    options: FileImportOptions = {},
+  ): Promise<TableMetadata> {
+    try {
+      const table = readParquetSchema(fileBuffer, tableName);
+      return options.profile ? await profileParquetRows(fileBuffer, table, options.sampleRowLimit) : table;
+    } catch (error) {
+      throw new Error('Failed to parse Parquet file: ' + (error as any).message);
+    }
   }
 
-  // Enhanced file upload methods
-  async parseExcelFile(fileBuffer: Buffer): Promise<TableMetadata[]> {
+  async parseSQLiteFile(fileBuffer: Buffer, options: FileImportOptions = {}): Promise<TableMetadata[]> {
     try {
-      // Note: For a complete implementation, you would need to install xlsx package
-      // For now, we'll throw an error with instructions
-      throw new Error('Excel file parsing requires xlsx package installation. Please convert to CSV format for now.');
+      return readSQLiteCatalog(fileBuffer, options);
     } catch (error) {
-      throw new Error('Failed to parse Excel file: ' + (error as any).message);
+      throw new Error('Failed to parse SQLite file: ' + (error as any).message);
     }
   }
 
-  async parseParquetFile(fileBuffer: Buffer): Promise<TableMetadata> {
+  async parseDDLScript(ddlContent: string): Promise<DdlParseResult> {
     try {
-      // Note: For a complete implementation, you would need to install parquet-js package
-      // For now, we'll throw an error with instructions
-      throw new Error('Parquet file parsing requires parquet-js package installation. Please convert to CSV format for now.');
+      return parseDDL(ddlContent);
     } catch (error) {
-      throw new Error('Failed to parse Parquet file: ' + (error as any).message);
+      throw new Error('Failed to parse DDL script: ' + (error as any).message);
     }
   }
 
-  async parseSQLiteFile(fileBuffer: Buffer): Promise<TableMetadata[]> {
+  async parseApiSchema(content: string): Promise<ApiSchemaParseResult> {
     try {
-      // Note: For a complete implementation, you would need to install sqlite3 package
-      // For now, we'll throw an error with instructions
-      throw new Error('SQLite file parsing requires sqlite3 package installation. Please provide DDL scripts for now.');
+      return parseApiSchema(readApiSchemaDocument(content));
     } catch (error) {
-      throw new Error('Failed to parse SQLite file: ' + (error as any).message);
+      throw new Error('Failed to parse API schema: ' + (error as any).message);
     }
   }
 
-  async parseDDLScript(ddlContent: string): Promise<TableMetadata[]> {
+  // Fetch the contract document a configured API system points at
+  private async fetchApiSchemaDocument(config: ApiConnectionConfig): Promise<string> {
+    const headers: Record<string, string> = { Accept: "application/json, application/yaml;q=0.9, */*;q=0.5" };
+    if (config.apiKey) {
+      if (config.authType === "apiKey") {
+        headers["X-API-Key"] = config.apiKey;
+      } else if (config.authType === "oauth" || config.authType === "bearer") {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), CONNECTION_TEST_TIMEOUT_MS);
     try {
-      // Simple DDL parsing for basic CREATE TABLE statements
-      const tables: TableMetadata[] = [];
-      const createTableRegex = /CREATE\s+TABLE\s+(\w+)\s*\(\s*([^)]+)\s*\)/gi;
-      
-      let match;
-      while ((match = createTableRegex.exec(ddlContent)) !== null) {
-        const tableName = match[1];
-        const columnDefinitions = match[2];
-        
-        const columns = this.parseColumnDefinitions(columnDefinitions);
-        
-        tables.push({
-          name: tableName,
-          columns,
-          rowCount: 0
-        });
+      const response = await fetch(config.specUrl, { headers, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`API schema request returned ${response.status} ${response.statusText}`.trim());
       }
-      
-      return tables;
+      return await response.text();
     } catch (error) {
-      throw new Error('Failed to parse DDL script: ' + (error as any).message);
+      if ((error as Error).name === "AbortError") {
+        throw new Error(`API schema request timed out after ${CONNECTION_TEST_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private parseColumnDefinitions(columnDefs: string): ColumnMetadata[] {
-    const columns: ColumnMetadata[] = [];
-    const columnLines = columnDefs.split(',');
-    
-    for (const line of columnLines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-      
-      const parts = trimmedLine.split(/\s+/);
-      if (parts.length < 2) continue;
-      
-      const name = parts[0];
-      const type = parts[1];
-      const isPrimaryKey = trimmedLine.toUpperCase().includes('PRIMARY KEY');
-      const nullable = !trimmedLine.toUpperCase().includes('NOT NULL');
-      
-      columns.push({
-        name,
-        type,
-        nullable,
-        isPrimaryKey
-      });
+  async testApiConnection(config: ApiConnectionConfig): Promise<boolean> {
+    try {
+      await this.fetchApiSchemaDocument(config);
+      return true;
+    } catch (error) {
+      console.error('API connection failed:', error);
+      return false;
     }
-    
-    return columns;
+  }
+
+  async extractApiMetadata(config: ApiConnectionConfig): Promise<TableMetadata[]> {
+    const document = await this.fetchApiSchemaDocument(config);
+    return (await this.parseApiSchema(document)).tables;
   }
 }
 
@@ -0,0 +1,510 @@
+/**
+ * DBML (dbdiagram.io) parser for model imports.
+ *
+ * Reads tables, column settings, composite keys from `indexes`, notes, and both
+ * `Ref` statements and inline `ref:` settings. Enums, table groups and project
+ * blocks are skipped. A construct that cannot be read is reported in `issues`
+ * and parsing resumes at the next top-level block.
+ */
+
+export interface DbmlColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  isPrimaryKey: boolean;
+  isUnique: boolean;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  defaultValue?: string;
+  note?: string;
+}
+
+export interface DbmlTable {
+  name: string;
+  schema?: string;
+  alias?: string;
+  note?: string;
+  columns: DbmlColumn[];
+}
+
+export type DbmlRelationshipType = "1:1" | "1:N" | "N:1" | "N:M";
+
+export interface DbmlRef {
+  name?: string;
+  /** Table name as written; resolve with {@link findDbmlTable}. */
+  fromTable: string;
+  fromColumns: string[];
+  toTable: string;
+  toColumns: string[];
+  /** Cardinality read from the `from` side, e.g. `>` is N:1. */
+  type: DbmlRelationshipType;
+}
+
+export interface DbmlParseIssue {
+  line: number;
+  reason: string;
+}
+
+export interface DbmlParseResult {
+  tables: DbmlTable[];
+  refs: DbmlRef[];
+  issues: DbmlParseIssue[];
+}
+
+type TokenKind = "word" | "quoted" | "string" | "expression" | "number" | "punct";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+}
+
+class DbmlSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(message);
+  }
+}
+
+const REF_OPERATORS: Record<string, DbmlRelationshipType> = { ">": "N:1", "<": "1:N", "-": "1:1", "<>": "N:M" };
+const SKIPPED_BLOCKS = new Set(["project", "enum", "tablegroup", "tablepartial", "note", "records"]);
+const CHARACTER_TYPE = /char|text|string|binary/i;
+const DECIMAL_TYPE = /^(decimal|numeric|number|dec)$/i;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let position = 0;
+  const countLines = (text: string) => {
+    for (let index = 0; index < text.length; index++) if (text[index] === "\n") line++;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position);
+
+    if (char === "\n") {
+      line++;
+      position++;
+    } else if (/\s/.test(char)) {
+      position++;
+    } else if (rest.startsWith("//")) {
+      const newline = source.indexOf("\n", position);
+      position = newline === -1 ? source.length : newline;
+    } else if (rest.startsWith("/*")) {
+      const close = source.indexOf("*/", position + 2);
+      const end = close === -1 ? source.length : close + 2;
+      countLines(source.slice(position, end));
+      position = end;
+    } else if (rest.startsWith("'''")) {
+      const close = source.indexOf("'''", position + 3);
+      if (close === -1) throw new DbmlSyntaxError("Unterminated ''' string", line);
+      const raw = source.slice(position + 3, close);
+      tokens.push({ kind: "string", value: raw.replace(/\\'/g, "'").trim(), line });
+      countLines(raw);
+      position = close + 3;
+    } else if (char === "'" || char === '"' || char === "`") {
+      let index = position + 1;
+      let value = "";
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) index++;
+        if (source[index] === "\n") line++;
+        value += source[index];
+        index++;
+      }
+      if (index >= source.length) throw new DbmlSyntaxError(`Unterminated ${char} quote`, line);
+      tokens.push({ kind: char === "'" ? "string" : char === '"' ? "quoted" : "expression", value, line });
+      position = index + 1;
+    } else if (/\d/.test(char)) {
+      const number = /^\d+(\.\d+)?/.exec(rest)![0];
+      tokens.push({ kind: "number", value: number, line });
+      position += number.length;
+    } else if (/[A-Za-z_À-ɏ]/.test(char)) {
+      const word = /^[A-Za-z0-9_À-ɏ]+/.exec(rest)![0];
+      tokens.push({ kind: "word", value: word, line });
+      position += word.length;
+    } else {
+      const value = rest.startsWith("<>") ? "<>" : char;
+      tokens.push({ kind: "punct", value, line });
+      position += value.length;
+    }
+  }
+  return tokens;
+}
+
+function applyTypeDetails(column: DbmlColumn, base: string, params: number[]): void {
+  if (params.length === 0) return;
+  if (DECIMAL_TYPE.test(base)) {
+    column.precision = params[0];
+    if (params[1] !== undefined) column.scale = params[1];
+  } else if (CHARACTER_TYPE.test(base)) {
+    column.length = params[0];
+  } else {
+    column.precision = params[0];
+  }
+}
+
+class DbmlParser {
+  private position = 0;
+  readonly tables: DbmlTable[] = [];
+  readonly refs: DbmlRef[] = [];
+  readonly issues: DbmlParseIssue[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): void {
+    while (this.peek()) {
+      const start = this.position;
+      const token = this.peek()!;
+      try {
+        this.topLevel();
+      } catch (error) {
+        if (!(error instanceof DbmlSyntaxError)) throw error;
+        this.issues.push({ line: error.line, reason: error.message });
+        // Resume at the next block keyword at brace depth zero
+        this.position = Math.max(this.position, start + 1);
+        this.recover();
+      }
+      if (this.position === start) {
+        this.issues.push({ line: token.line, reason: `Unexpected '${token.value}'` });
+        this.position++;
+      }
+    }
+  }
+
+  private topLevel(): void {
+    const keyword = this.peek()!;
+    const word = keyword.kind === "word" ? keyword.value.toLowerCase() : "";
+    if (word === "table") {
+      this.next();
+      this.table();
+    } else if (word === "ref") {
+      this.next();
+      this.refStatement();
+    } else if (SKIPPED_BLOCKS.has(word)) {
+      this.next();
+      while (this.peek() && !this.isPunct("{") && !this.isPunct(":")) this.next();
+      if (this.isPunct(":")) {
+        this.next();
+        this.next();
+      } else {
+        this.skipBlock();
+      }
+    }
+  }
+
+  private table(): void {
+    const [name, schema] = this.qualifiedName();
+    const table: DbmlTable = { name, schema, columns: [] };
+    if (this.isWord("as")) {
+      this.next();
+      table.alias = this.name();
+    }
+    if (this.isPunct("[")) this.settings();
+    this.expectPunct("{");
+
+    const compositeKeys: string[][] = [];
+    while (!this.isPunct("}")) {
+      const token = this.peek();
+      if (!token) throw new DbmlSyntaxError(`Table ${name} is missing its closing brace`, this.lastLine());
+      const word = token.kind === "word" ? token.value.toLowerCase() : "";
+
+      if (word === "note" && (this.isPunct(":", 1) || this.isPunct("{", 1))) {
+        this.next();
+        table.note = this.noteValue();
+      } else if (word === "indexes" && this.isPunct("{", 1)) {
+        this.next();
+        compositeKeys.push(...this.indexes());
+      } else if (this.isPunct("~")) {
+        // Table partial injection; the partial's columns are not resolved
+        this.next();
+        this.name();
+      } else {
+        table.columns.push(this.column(table));
+      }
+    }
+    this.next();
+
+    compositeKeys.forEach((key) =>
+      table.columns.forEach((column) => {
+        if (key.includes(column.name)) {
+          column.isPrimaryKey = true;
+          column.nullable = false;
+        }
+      }),
+    );
+    this.tables.push(table);
+  }
+
+  private column(table: DbmlTable): DbmlColumn {
+    const name = this.name();
+    const typeToken = this.next();
+    if (!typeToken || (typeToken.kind !== "word" && typeToken.kind !== "quoted")) {
+      throw new DbmlSyntaxError(`Column ${name} has no type`, typeToken?.line ?? this.lastLine());
+    }
+    let base = typeToken.value;
+    while (this.isPunct(".") && this.peek(1)?.kind === "word") {
+      this.next();
+      base += `.${this.next()!.value}`;
+    }
+
+    const column: DbmlColumn = { name, type: base, nullable: true, isPrimaryKey: false, isUnique: false };
+    if (this.isPunct("(")) {
+      this.next();
+      const params: string[] = [];
+      while (!this.isPunct(")")) {
+        const token = this.next();
+        if (!token) throw new DbmlSyntaxError(`Type of ${name} is missing ')'`, this.lastLine());
+        if (token.value !== ",") params.push(token.value);
+      }
+      this.next();
+      column.type = `${base}(${params.join(",")})`;
+      applyTypeDetails(column, base, params.map(Number).filter((value) => !Number.isNaN(value)));
+    }
+    if (this.isPunct("[") && this.isPunct("]", 1)) {
+      this.next();
+      this.next();
+      column.type += "[]";
+    }
+
+    if (this.isPunct("[")) {
+      this.settings().forEach((setting) => {
+        const key = setting.key;
+        if (key === "pk" || key === "primary key") {
+          column.isPrimaryKey = true;
+          column.nullable = false;
+        } else if (key === "not null") column.nullable = false;
+        else if (key === "null") column.nullable = true;
+        else if (key === "unique") column.isUnique = true;
+        else if (key === "note" && setting.value) column.note = setting.value[0].value;
+        else if (key === "default" && setting.value) column.defaultValue = setting.value.map((token) => token.value).join("");
+        else if (key === "ref" && setting.value) {
+          this.refs.push(this.refFromTokens(setting.value, { table: table.schema ? `${table.schema}.${table.name}` : table.name, columns: [name] }));
+        }
+      });
+    }
+    return column;
+  }
+
+  /** Index definitions; only primary keys matter to the model. */
+  private indexes(): string[][] {
+    this.expectPunct("{");
+    const keys: string[][] = [];
+    while (!this.isPunct("}")) {
+      if (!this.peek()) throw new DbmlSyntaxError("indexes block is missing its closing brace", this.lastLine());
+      let columns: string[] = [];
+      if (this.isPunct("(")) {
+        this.next();
+        while (!this.isPunct(")")) {
+          const token = this.next();
+          if (!token) throw new DbmlSyntaxError("Index column list is missing ')'", this.lastLine());
+          if (token.kind === "word" || token.kind === "quoted") columns.push(token.value);
+        }
+        this.next();
+      } else {
+        const token = this.next()!;
+        columns = token.kind === "word" || token.kind === "quoted" ? [token.value] : [];
+      }
+      if (this.isPunct("[")) {
+        const settings = this.settings();
+        if (settings.some((setting) => setting.key === "pk" || setting.key === "primary key")) keys.push(columns);
+      }
+    }
+    this.next();
+    return keys;
+  }
+
+  private refStatement(): void {
+    let name: string | undefined;
+    if (!this.isPunct(":") && !this.isPunct("{")) name = this.name();
+    if (this.isPunct(":")) {
+      this.next();
+      this.refs.push({ ...this.refBody(), ...(name ? { name } : {}) });
+      return;
+    }
+    this.expectPunct("{");
+    while (!this.isPunct("}")) {
+      if (!this.peek()) throw new DbmlSyntaxError("Ref block is missing its closing brace", this.lastLine());
+      this.refs.push({ ...this.refBody(), ...(name ? { name } : {}) });
+    }
+    this.next();
+  }
+
+  private refBody(): DbmlRef {
+    const from = this.endpoint();
+    const operator = this.next();
+    const type = operator ? REF_OPERATORS[operator.value] : undefined;
+    if (!type) throw new DbmlSyntaxError(`Unknown relationship operator '${operator?.value ?? ""}'`, operator?.line ?? this.lastLine());
+    const to = this.endpoint();
+    if (this.isPunct("[")) this.settings();
+    return { fromTable: from.table, fromColumns: from.columns, toTable: to.table, toColumns: to.columns, type };
+  }
+
+  /** `ref: > table.column` inside a column's settings. */
+  private refFromTokens(tokens: Token[], from: { table: string; columns: string[] }): DbmlRef {
+    const nested = new DbmlParser(tokens);
+    const operator = nested.next();
+    const type = operator ? REF_OPERATORS[operator.value] : undefined;
+    if (!type) throw new DbmlSyntaxError(`Unknown relationship operator '${operator?.value ?? ""}'`, operator?.line ?? this.lastLine());
+    const to = nested.endpoint();
+    return { fromTable: from.table, fromColumns: from.columns, toTable: to.table, toColumns: to.columns, type };
+  }
+
+  /** `table.column`, `schema.table.column` or `table.(a, b)`. */
+  private endpoint(): { table: string; columns: string[] } {
+    const parts = [this.name()];
+    while (this.isPunct(".")) {
+      this.next();
+      if (this.isPunct("(")) {
+        this.next();
+        const columns: string[] = [];
+        while (!this.isPunct(")")) {
+          const token = this.next();
+          if (!token) throw new DbmlSyntaxError("Composite reference is missing ')'", this.lastLine());
+          if (token.kind === "word" || token.kind === "quoted") columns.push(token.value);
+        }
+        this.next();
+        return { table: parts.join("."), columns };
+      }
+      parts.push(this.name());
+    }
+    if (parts.length < 2) {
+      throw new DbmlSyntaxError(`Reference '${parts[0]}' needs a table and a column`, this.peek()?.line ?? this.lastLine());
+    }
+    return { table: parts.slice(0, -1).join("."), columns: [parts[parts.length - 1]] };
+  }
+
+  /** `[pk, not null, note: '...']` as lower-cased keys with the tokens after any ':'. */
+  private settings(): { key: string; value?: Token[] }[] {
+    this.expectPunct("[");
+    const settings: { key: string; value?: Token[] }[] = [];
+    let current: Token[] = [];
+    let depth = 0;
+    const flush = () => {
+      if (current.length === 0) return;
+      const colon = current.findIndex((token) => token.kind === "punct" && token.value === ":");
+      const keyTokens = colon === -1 ? current : current.slice(0, colon);
+      settings.push({
+        key: keyTokens.map((token) => token.value.toLowerCase()).join(" "),
+        value: colon === -1 ? undefined : current.slice(colon + 1),
+      });
+      current = [];
+    };
+    for (;;) {
+      const token = this.next();
+      if (!token) throw new DbmlSyntaxError("Settings are missing ']'", this.lastLine());
+      if (token.kind === "punct" && depth === 0 && token.value === "]") break;
+      if (token.kind === "punct" && (token.value === "(" || token.value === "[")) depth++;
+      if (token.kind === "punct" && (token.value === ")" || token.value === "]")) depth--;
+      if (token.kind === "punct" && depth === 0 && token.value === ",") flush();
+      else current.push(token);
+    }
+    flush();
+    return settings;
+  }
+
+  private noteValue(): string {
+    if (this.isPunct(":")) {
+      this.next();
+      return this.next()?.value ?? "";
+    }
+    this.expectPunct("{");
+    const value = this.next()?.value ?? "";
+    while (this.peek() && !this.isPunct("}")) this.next();
+    this.next();
+    return value;
+  }
+
+  private qualifiedName(): [string, string | undefined] {
+    const first = this.name();
+    if (this.isPunct(".") && this.peek(1) && this.peek(1)!.kind !== "punct") {
+      this.next();
+      return [this.name(), first];
+    }
+    return [first, undefined];
+  }
+
+  private name(): string {
+    const token = this.next();
+    if (!token || (token.kind !== "word" && token.kind !== "quoted")) {
+      throw new DbmlSyntaxError(`Expected a name but found '${token?.value ?? "end of file"}'`, token?.line ?? this.lastLine());
+    }
+    return token.value;
+  }
+
+  private skipBlock(): void {
+    this.expectPunct("{");
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (!token) throw new DbmlSyntaxError("Block is missing its closing brace", this.lastLine());
+      if (token.kind === "punct" && token.value === "{") depth++;
+      if (token.kind === "punct" && token.value === "}") depth--;
+    }
+  }
+
+  private recover(): void {
+    let depth = 0;
+    while (this.peek()) {
+      const token = this.peek()!;
+      if (depth === 0 && token.kind === "word" && /^(table|ref|enum|project|tablegroup|note)$/i.test(token.value)) return;
+      if (token.kind === "punct" && token.value === "{") depth++;
+      if (token.kind === "punct" && token.value === "}") depth = Math.max(0, depth - 1);
+      this.next();
+    }
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.next();
+    if (!token || token.kind !== "punct" || token.value !== value) {
+      throw new DbmlSyntaxError(`Expected '${value}' but found '${token?.value ?? "end of file"}'`, token?.line ?? this.lastLine());
+    }
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === "punct" && token.value === value;
+  }
+
+  private isWord(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === "word" && token.value.toLowerCase() === value;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private lastLine(): number {
+    return this.tokens[this.tokens.length - 1]?.line ?? 1;
+  }
+}
+
+export function parseDbml(source: string): DbmlParseResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof DbmlSyntaxError) {
+      return { tables: [], refs: [], issues: [{ line: error.line, reason: error.message }] };
+    }
+    throw error;
+  }
+  const parser = new DbmlParser(tokens);
+  parser.parse();
+  return { tables: parser.tables, refs: parser.refs, issues: parser.issues };
+}
+
+/** Resolves a reference's table by alias, `schema.table` or bare table name. */
+export function findDbmlTable(tables: DbmlTable[], reference: string): DbmlTable | undefined {
+  const wanted = reference.toLowerCase();
+  return (
+    tables.find((table) => table.alias?.toLowerCase() === wanted) ??
+    tables.find((table) => (table.schema ? `${table.schema}.${table.name}` : table.name).toLowerCase() === wanted) ??
+    tables.find((table) => table.name.toLowerCase() === wanted.split(".").pop())
+  );
+}
@@ -0,0 +1,301 @@
+/**
+ * Reads a dbt `manifest.json` (and optionally `catalog.json`) into the objects,
+ * columns and relationships a model import needs. Pure: nothing is stored here.
+ *
+ * - models, seeds, snapshots and sources become objects
+ * - column types come from the catalog, falling back to `data_type` in the manifest
+ * - `not_null`/`unique` tests and column constraints set nullability and keys
+ * - `relationships` tests become N:1 (or 1:1) relationships
+ * - domains come from `meta.domain`, else the model folder, else the first tag
+ */
+
+export type DbtResourceType = "model" | "seed" | "snapshot" | "source";
+
+export interface DbtImportColumn {
+  name: string;
+  description: string | null;
+  type: string | null;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  nullable: boolean;
+  isPrimaryKey: boolean;
+  isUnique: boolean;
+  isForeignKey: boolean;
+}
+
+export interface DbtImportObject {
+  uniqueId: string;
+  name: string;
+  resourceType: DbtResourceType;
+  description: string | null;
+  database: string | null;
+  schema: string | null;
+  /** Relation name in the warehouse (alias or identifier). */
+  relationName: string;
+  materialized: string | null;
+  tags: string[];
+  path: string | null;
+  domain: string | null;
+  dataArea: string | null;
+  columns: DbtImportColumn[];
+}
+
+export interface DbtImportRelationship {
+  testName: string;
+  childId: string;
+  childColumn: string;
+  parentId: string;
+  parentColumn: string;
+  type: "1:1" | "N:1";
+}
+
+export interface DbtProjectPlan {
+  projectName: string;
+  objects: DbtImportObject[];
+  relationships: DbtImportRelationship[];
+  warnings: string[];
+}
+
+export interface DbtParseOptions {
+  /** Also import nodes that installed packages contribute. */
+  includePackages?: boolean;
+}
+
+type JsonObject = Record<string, any>;
+
+const IMPORTED_NODE_TYPES = new Set<string>(["model", "seed", "snapshot"]);
+// Folders that describe the transformation stage rather than the business domain
+const LAYER_FOLDERS = new Set(["staging", "stg", "intermediate", "int", "marts", "mart", "base", "sources", "seeds", "snapshots"]);
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+
+function parseTypeParameters(type: string): Pick<DbtImportColumn, "length" | "precision" | "scale"> {
+  const match = /\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/.exec(type);
+  if (!match) return {};
+  const first = Number(match[1]);
+  if (match[2] !== undefined) return { precision: first, scale: Number(match[2]) };
+  return /CHAR|BINARY|STRING|TEXT/i.test(type) ? { length: first } : { precision: first };
+}
+
+/** Resolves `ref('name')`, `ref('package', 'name')` and `source('source', 'table')` against imported ids. */
+function resolveTestTarget(expression: string, index: Map<string, string>): string | null {
+  const ref = /ref\(\s*(?:['"][^'"]+['"]\s*,\s*)?['"]([^'"]+)['"]/.exec(expression);
+  if (ref) return index.get(`ref:${ref[1].toLowerCase()}`) ?? null;
+  const source = /source\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]/.exec(expression);
+  if (source) return index.get(`source:${source[1].toLowerCase()}.${source[2].toLowerCase()}`) ?? null;
+  return null;
+}
+
+function domainFor(node: JsonObject, folders: string[]): { domain: string | null; dataArea: string | null } {
+  const meta = { ...(isObject(node.config?.meta) ? node.config.meta : {}), ...(isObject(node.meta) ? node.meta : {}) };
+  const metaDomain = text(meta.domain);
+  if (metaDomain) {
+    return { domain: metaDomain, dataArea: text(meta.data_area) ?? text(meta.dataArea) };
+  }
+  const businessFolders = folders.filter((folder) => !LAYER_FOLDERS.has(folder.toLowerCase()));
+  if (businessFolders.length > 0) {
+    return { domain: businessFolders[0], dataArea: businessFolders[1] ?? null };
+  }
+  const tags = [...stringList(node.config?.tags), ...stringList(node.tags)];
+  return { domain: tags[0] ?? null, dataArea: null };
+}
+
+function rootProjectName(manifest: JsonObject): string {
+  const declared = text(manifest.metadata?.project_name);
+  if (declared) return declared;
+  // Older manifests do not name the project; the package owning most models is the root
+  const counts = new Map<string, number>();
+  Object.values(manifest.nodes as JsonObject).forEach((node) => {
+    if (isObject(node) && node.resource_type === "model" && typeof node.package_name === "string") {
+      counts.set(node.package_name, (counts.get(node.package_name) ?? 0) + 1);
+    }
+  });
+  const [best] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return best?.[0] ?? "dbt_project";
+}
+
+export function parseDbtProject(manifest: unknown, catalog?: unknown, options: DbtParseOptions = {}): DbtProjectPlan {
+  if (!isObject(manifest) || !isObject(manifest.nodes)) {
+    throw new Error("A dbt manifest.json with a nodes section is required");
+  }
+  const catalogNodes: JsonObject = {
+    ...(isObject(catalog) && isObject(catalog.nodes) ? catalog.nodes : {}),
+    ...(isObject(catalog) && isObject(catalog.sources) ? catalog.sources : {}),
+  };
+
+  const projectName = rootProjectName(manifest);
+  const inScope = (node: JsonObject) => options.includePackages || node.package_name === undefined || node.package_name === projectName;
+  const warnings: string[] = [];
+
+  const candidates: Array<{ uniqueId: string; node: JsonObject; resourceType: DbtResourceType }> = [];
+  Object.entries(manifest.nodes as JsonObject).forEach(([uniqueId, node]) => {
+    if (isObject(node) && IMPORTED_NODE_TYPES.has(node.resource_type) && inScope(node)) {
+      candidates.push({ uniqueId, node, resourceType: node.resource_type });
+    }
+  });
+  Object.entries(isObject(manifest.sources) ? manifest.sources : {}).forEach(([uniqueId, node]) => {
+    if (isObject(node) && inScope(node)) {
+      candidates.push({ uniqueId, node, resourceType: "source" });
+    }
+  });
+
+  const objects = new Map<string, DbtImportObject>();
+  const targetIndex = new Map<string, string>();
+  let untypedColumns = 0;
+
+  candidates.forEach(({ uniqueId, node, resourceType }) => {
+    const isSource = resourceType === "source";
+    const baseName = text(node.name) ?? uniqueId;
+    const name = isSource ? `${text(node.source_name) ?? "source"}.${baseName}` : baseName;
+    const fqn = stringList(node.fqn);
+    // fqn is project, folders..., then the node name (sources add the source name before the table)
+    const folders = fqn.slice(1, isSource ? -2 : -1);
+
+    const catalogEntry = isObject(catalogNodes[uniqueId]) ? catalogNodes[uniqueId] : null;
+    const catalogColumns = new Map<string, JsonObject>();
+    Object.values(isObject(catalogEntry?.columns) ? catalogEntry!.columns : {}).forEach((column) => {
+      if (isObject(column) && typeof column.name === "string") catalogColumns.set(column.name.toLowerCase(), column);
+    });
+
+    const modelPrimaryKey = (Array.isArray(node.constraints) ? node.constraints : [])
+      .filter((constraint: unknown) => isObject(constraint) && constraint.type === "primary_key")
+      .flatMap((constraint: JsonObject) => stringList(constraint.columns).map((column) => column.toLowerCase()));
+
+    // Catalog order first (it reflects the warehouse), then documented columns the catalog lacks
+    const manifestColumns = Object.values(isObject(node.columns) ? node.columns : {}).filter(
+      (column): column is JsonObject => isObject(column) && typeof column.name === "string",
+    );
+    const documented = new Map(manifestColumns.map((column) => [String(column.name).toLowerCase(), column]));
+    const orderedNames = [
+      ...Array.from(catalogColumns.values())
+        .sort((a, b) => Number(a.index ?? 0) - Number(b.index ?? 0))
+        .map((column) => String(column.name)),
+      ...manifestColumns.map((column) => String(column.name)).filter((column) => !catalogColumns.has(column.toLowerCase())),
+    ];
+
+    const columns = orderedNames.map((columnName): DbtImportColumn => {
+      const key = columnName.toLowerCase();
+      const doc = documented.get(key);
+      const constraints = (Array.isArray(doc?.constraints) ? doc!.constraints : []).map((constraint: JsonObject) => constraint?.type);
+      const type = text(catalogColumns.get(key)?.type) ?? text(doc?.data_type);
+      if (!type) untypedColumns++;
+      const isPrimaryKey = constraints.includes("primary_key") || modelPrimaryKey.includes(key);
+      return {
+        // Documented names keep the project's casing; catalogs of some warehouses upper-case them
+        name: text(doc?.name) ?? columnName,
+        description: text(doc?.description),
+        type: type ? type.toUpperCase() : null,
+        ...(type ? parseTypeParameters(type) : {}),
+        nullable: !(isPrimaryKey || constraints.includes("not_null")),
+        isPrimaryKey,
+        isUnique: isPrimaryKey || constraints.includes("unique"),
+        isForeignKey: constraints.includes("foreign_key"),
+      };
+    });
+
+    objects.set(uniqueId, {
+      uniqueId,
+      name,
+      resourceType,
+      description: text(node.description),
+      database: text(node.database),
+      schema: text(node.schema),
+      relationName: text(node.alias) ?? text(node.identifier) ?? baseName,
+      materialized: isSource ? null : text(node.config?.materialized),
+      tags: Array.from(new Set([...stringList(node.config?.tags), ...stringList(node.tags)])),
+      path: text(node.original_file_path),
+      ...domainFor(node, folders),
+      columns,
+    });
+    targetIndex.set(isSource ? `source:${name.toLowerCase()}` : `ref:${baseName.toLowerCase()}`, uniqueId);
+  });
+
+  const findColumn = (objectId: string, columnName: string) =>
+    objects.get(objectId)?.columns.find((column) => column.name.toLowerCase() === columnName.toLowerCase());
+
+  // Generic tests refine nullability and keys, then relationships are resolved against them
+  const tests = Object.values(manifest.nodes as JsonObject).filter(
+    (node): node is JsonObject => isObject(node) && node.resource_type === "test" && isObject(node.test_metadata),
+  );
+  const uniqueAndNotNull = new Map<string, Set<string>>();
+  tests.forEach((test) => {
+    const kind = test.test_metadata.name;
+    const attachedId = text(test.attached_node) ?? stringList(test.depends_on?.nodes).find((id) => objects.has(id));
+    const columnName = text(test.column_name) ?? text(test.test_metadata.kwargs?.column_name);
+    if (!attachedId || !columnName || (kind !== "not_null" && kind !== "unique")) return;
+    const column = findColumn(attachedId, columnName);
+    if (!column) return;
+    if (kind === "not_null") column.nullable = false;
+    else column.isUnique = true;
+    const marks = uniqueAndNotNull.get(attachedId) ?? new Set<string>();
+    marks.add(`${kind}:${column.name}`);
+    uniqueAndNotNull.set(attachedId, marks);
+  });
+
+  // Without a declared primary key, the first column tested both unique and not_null is the key
+  uniqueAndNotNull.forEach((marks, objectId) => {
+    const object = objects.get(objectId)!;
+    if (object.columns.some((column) => column.isPrimaryKey)) return;
+    const key = object.columns.find((column) => marks.has(`unique:${column.name}`) && marks.has(`not_null:${column.name}`));
+    if (key) key.isPrimaryKey = true;
+  });
+
+  const relationships: DbtImportRelationship[] = [];
+  tests
+    .filter((test) => test.test_metadata.name === "relationships")
+    .forEach((test) => {
+      const kwargs = isObject(test.test_metadata.kwargs) ? test.test_metadata.kwargs : {};
+      const to = text(kwargs.to);
+      const parentColumnName = text(kwargs.field);
+      const childColumnName = text(test.column_name) ?? text(kwargs.column_name);
+      const parentId = to ? resolveTestTarget(to, targetIndex) : null;
+      const dependencies = stringList(test.depends_on?.nodes);
+      const childId =
+        text(test.attached_node) ??
+        dependencies.find((id) => id !== parentId && objects.has(id)) ??
+        (parentId && dependencies.includes(parentId) ? parentId : undefined);
+      const testName = text(test.name) ?? "relationships";
+
+      if (!childId || !objects.has(childId) || !childColumnName || !parentColumnName) return;
+      if (!parentId) {
+        warnings.push(`${testName}: ${to ?? "the referenced model"} is not part of the import`);
+        return;
+      }
+      const childColumn = findColumn(childId, childColumnName);
+      const parentColumn = findColumn(parentId, parentColumnName);
+      if (!childColumn || !parentColumn) {
+        warnings.push(`${testName}: column ${childColumn ? parentColumnName : childColumnName} is not documented or in the catalog`);
+        return;
+      }
+      childColumn.isForeignKey = true;
+      relationships.push({
+        testName,
+        childId,
+        childColumn: childColumn.name,
+        parentId,
+        parentColumn: parentColumn.name,
+        type: childColumn.isUnique ? "1:1" : "N:1",
+      });
+    });
+
+  if (untypedColumns > 0) {
+    warnings.push(
+      `${untypedColumns} column${untypedColumns === 1 ? " has" : "s have"} no data type; add catalog.json from \`dbt docs generate\` to fill them in`,
+    );
+  }
+
+  return {
+    projectName,
+    objects: Array.from(objects.values()),
+    relationships,
+    warnings,
+  };
+}
@@ -0,0 +1,247 @@
+import { strToU8, zipSync } from "fflate";
+import { resolveForeignKeySide } from "./sqlDialects";
+
+/**
+ * Generates a dbt project scaffold for a physical model: the model's tables are
+ * declared as sources, and each gets a staging model that renames its columns to
+ * snake_case. Tests on the staging models come from keys, nullability and relationships.
+ */
+
+export interface DbtScaffoldObject {
+  id: number;
+  name: string;
+  description?: string | null;
+}
+
+export interface DbtScaffoldAttribute {
+  id: number;
+  objectId: number;
+  name: string;
+  description?: string | null;
+  physicalType?: string | null;
+  nullable?: boolean | null;
+  isPrimaryKey?: boolean | null;
+  orderIndex?: number | null;
+}
+
+/** A layer relationship; its ends are model object and model attribute ids. */
+export interface DbtScaffoldRelationship {
+  sourceModelObjectId: number;
+  targetModelObjectId: number;
+  sourceAttributeId?: number | null;
+  targetAttributeId?: number | null;
+  type: string;
+}
+
+/** Resolves the layer ids relationships use to the data object and attribute ids the scaffold is built from. */
+export interface DbtScaffoldIdMap {
+  modelObjects: { id: number; objectId: number | null }[];
+  modelAttributes: { id: number; attributeId: number | null }[];
+}
+
+export interface DbtScaffoldInput {
+  projectName: string;
+  /** Name the tables are declared under in sources.yml. */
+  sourceName: string;
+  objects: DbtScaffoldObject[];
+  attributes: DbtScaffoldAttribute[];
+  relationships: DbtScaffoldRelationship[];
+  idMap: DbtScaffoldIdMap;
+  includeDescriptions?: boolean;
+}
+
+export interface DbtScaffoldFile {
+  path: string;
+  content: string;
+}
+
+type YamlValue = string | number | boolean | null | undefined | YamlValue[] | { [key: string]: YamlValue };
+
+const YAML_RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+
+function yamlScalar(value: string | number | boolean | null): string {
+  if (value === null) return "null";
+  if (typeof value !== "string") return String(value);
+  const plain = /^[A-Za-z_][A-Za-z0-9_ .\/-]*$/.test(value) && !YAML_RESERVED.test(value) && !/\s$/.test(value);
+  // JSON strings are valid YAML double-quoted scalars
+  return plain ? value : JSON.stringify(value);
+}
+
+function renderYaml(value: YamlValue, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (item !== null && typeof item === "object") {
+        const [first, ...rest] = renderYaml(item, indent + 2);
+        return [`${pad}- ${first.slice(indent + 2)}`, ...rest];
+      }
+      return [`${pad}- ${yamlScalar(item as string | number | boolean | null)}`];
+    });
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .flatMap(([key, entry]) => {
+        if (Array.isArray(entry) && entry.length === 0) return [`${pad}${key}: []`];
+        if (entry !== null && typeof entry === "object") return [`${pad}${key}:`, ...renderYaml(entry, indent + 2)];
+        return [`${pad}${key}: ${yamlScalar(entry as string | number | boolean | null)}`];
+      });
+  }
+  return [`${pad}${yamlScalar(value as string | number | boolean | null)}`];
+}
+
+export function toYaml(value: YamlValue): string {
+  return `${renderYaml(value, 0).join("\n")}\n`;
+}
+
+/** `OrderLines`, `Order Lines` and `ORDER_LINES` all become `order_lines`. */
+export function toSnakeCase(name: string): string {
+  const snake = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+  if (!snake) return "unnamed";
+  return /^[0-9]/.test(snake) ? `_${snake}` : snake;
+}
+
+export function buildDbtScaffold(input: DbtScaffoldInput): DbtScaffoldFile[] {
+  const projectName = toSnakeCase(input.projectName);
+  const sourceName = toSnakeCase(input.sourceName);
+  const describe = (text: string | null | undefined) =>
+    input.includeDescriptions === false || !text?.trim() ? undefined : text.trim();
+
+  const objectsById = new Map(input.objects.map((object) => [object.id, object]));
+  const attributesById = new Map(input.attributes.map((attribute) => [attribute.id, attribute]));
+  const objectIdOf = new Map(input.idMap.modelObjects.map((modelObject) => [modelObject.id, modelObject.objectId]));
+  const attributeIdOf = new Map(
+    input.idMap.modelAttributes.map((modelAttribute) => [modelAttribute.id, modelAttribute.attributeId])
+  );
+  const objectOf = (modelObjectId: number) => objectsById.get(objectIdOf.get(modelObjectId) ?? -1);
+  // Attributes created only on the layer have no global attribute and cannot be tested
+  const attributeOf = (modelAttributeId: number) => attributesById.get(attributeIdOf.get(modelAttributeId) ?? -1);
+  const stagingName = (object: DbtScaffoldObject) => `stg_${sourceName}__${toSnakeCase(object.name)}`;
+  const columnsOf = (objectId: number) =>
+    input.attributes
+      .filter((attribute) => attribute.objectId === objectId)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+
+  // relationships tests keyed by child attribute id, pointing at the parent's staging model
+  const references = new Map<number, { to: string; field: string }[]>();
+  input.relationships.forEach((relationship) => {
+    const childSide = resolveForeignKeySide(relationship.type);
+    if (!childSide || !relationship.sourceAttributeId || !relationship.targetAttributeId) return;
+    const sourceObject = objectOf(relationship.sourceModelObjectId);
+    const targetObject = objectOf(relationship.targetModelObjectId);
+    const sourceAttribute = attributeOf(relationship.sourceAttributeId);
+    const targetAttribute = attributeOf(relationship.targetAttributeId);
+    if (!sourceObject || !targetObject || !sourceAttribute || !targetAttribute) return;
+
+    const [childAttribute, parentObject, parentAttribute] =
+      childSide === "source" ? [sourceAttribute, targetObject, targetAttribute] : [targetAttribute, sourceObject, sourceAttribute];
+    const tests = references.get(childAttribute.id) ?? [];
+    const reference = { to: `ref('${stagingName(parentObject)}')`, field: toSnakeCase(parentAttribute.name) };
+    if (!tests.some((test) => test.to === reference.to && test.field === reference.field)) tests.push(reference);
+    references.set(childAttribute.id, tests);
+  });
+
+  const files: DbtScaffoldFile[] = [
+    {
+      path: "dbt_project.yml",
+      content: toYaml({
+        name: projectName,
+        version: "1.0.0",
+        "config-version": 2,
+        // data_tests replaced tests in dbt 1.8
+        "require-dbt-version": ">=1.8.0",
+        profile: projectName,
+        "model-paths": ["models"],
+        models: { [projectName]: { staging: { "+materialized": "view" } } },
+      }),
+    },
+    {
+      path: "models/staging/sources.yml",
+      content: toYaml({
+        version: 2,
+        sources: [
+          {
+            name: sourceName,
+            tables: input.objects.map((object) => ({
+              name: object.name,
+              description: describe(object.description),
+              columns: columnsOf(object.id).map((attribute) => ({
+                name: attribute.name,
+                description: describe(attribute.description),
+                data_type: attribute.physicalType?.trim() || undefined,
+              })),
+            })),
+          },
+        ],
+      }),
+    },
+  ];
+
+  const stagingModels = input.objects.map((object) => {
+    const columns = columnsOf(object.id);
+    const keyColumns = columns.filter((attribute) => attribute.isPrimaryKey);
+    return {
+      name: stagingName(object),
+      description: describe(object.description),
+      columns: columns.map((attribute) => {
+        const tests: YamlValue[] = [];
+        if (attribute.isPrimaryKey || attribute.nullable === false) tests.push("not_null");
+        // A column of a composite key repeats by design
+        if (attribute.isPrimaryKey && keyColumns.length === 1) tests.push("unique");
+        (references.get(attribute.id) ?? []).forEach((reference) => tests.push({ relationships: reference }));
+        return {
+          name: toSnakeCase(attribute.name),
+          description: describe(attribute.description),
+          data_tests: tests.length > 0 ? tests : undefined,
+        };
+      }),
+    };
+  });
+  files.push({ path: "models/staging/schema.yml", content: toYaml({ version: 2, models: stagingModels }) });
+
+  input.objects.forEach((object) => {
+    const selectList = columnsOf(object.id).map((attribute) => {
+      const alias = toSnakeCase(attribute.name);
+      if (attribute.name === alias) return alias;
+      return `{{ adapter.quote(${JSON.stringify(attribute.name)}) }} as ${alias}`;
+    });
+    files.push({
+      path: `models/staging/${stagingName(object)}.sql`,
+      content: [
+        "with source as (",
+        "",
+        `    select * from {{ source(${JSON.stringify(sourceName)}, ${JSON.stringify(object.name)}) }}`,
+        "",
+        "),",
+        "",
+        "renamed as (",
+        "",
+        "    select",
+        selectList.length > 0 ? selectList.map((line) => `        ${line}`).join(",\n") : "        *",
+        "    from source",
+        "",
+        ")",
+        "",
+        "select * from renamed",
+        "",
+      ].join("\n"),
+    });
+  });
+
+  return files;
+}
+
+/** Zips the scaffold under a folder named after the project. */
+export function packDbtScaffold(projectName: string, files: DbtScaffoldFile[]): Uint8Array {
+  const root = toSnakeCase(projectName);
+  const entries: Record<string, Uint8Array> = {};
+  files.forEach((file) => {
+    entries[`${root}/${file.path}`] = strToU8(file.content);
+  });
+  return zipSync(entries);
+}
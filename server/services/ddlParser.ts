@@ -0,0 +1,1267 @@
+import type { ColumnMetadata, ForeignKeyMetadata, TableMetadata } from "./dataConnectors";
+
+/**
+ * DDL script parser for the DDL upload route.
+ *
+ * The tokenizer understands the quoting and comment styles of PostgreSQL,
+ * SQL Server, MySQL and Oracle at once, so scripts do not need a dialect hint.
+ * Statements are parsed independently: one that cannot be understood is
+ * reported in `unparsedStatements` and the rest of the script still imports.
+ * A foreign key whose referenced columns cannot be worked out is reported
+ * there too and left out of its table.
+ */
+
+export interface DdlParseIssue {
+  /** 1-based line on which the statement starts. */
+  line: number;
+  /** Statement text, whitespace-collapsed and truncated for display. */
+  statement: string;
+  reason: string;
+}
+
+export interface DdlParseResult {
+  tables: TableMetadata[];
+  unparsedStatements: DdlParseIssue[];
+}
+
+type TokenKind = "word" | "quoted" | "string" | "number" | "punct" | "delimiter";
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+interface Statement {
+  tokens: Token[];
+  line: number;
+}
+
+class DdlSyntaxError extends Error {}
+
+const STATEMENT_PREVIEW_LENGTH = 200;
+
+const MULTI_CHAR_PUNCTUATION = ["::", "||", "<=", ">=", "<>", "!=", "=>"];
+const BINARY_OPERATORS = new Set(["+", "-", "*", "/", "%", "||"]);
+
+// Statements that are understood but carry nothing the model needs
+const IGNORED_STATEMENTS = new Set([
+  "SET", "USE", "BEGIN", "START", "COMMIT", "ROLLBACK", "GRANT", "REVOKE", "COMMENT", "DROP",
+  "PRAGMA", "LOCK", "UNLOCK", "ANALYZE", "VACUUM", "TRUNCATE", "INSERT", "UPDATE", "DELETE",
+  "SELECT", "PROMPT", "SPOOL", "WHENEVER", "REINDEX", "CLUSTER", "CHECKPOINT", "PRINT", "SHOW",
+  "FLUSH", "OPTIMIZE", "DISCARD", "RESET",
+]);
+const PROCEDURAL_STATEMENTS = new Set(["EXEC", "EXECUTE", "CALL", "DECLARE", "DO"]);
+// Object kinds named in the report when a CREATE statement is skipped
+const REPORTED_CREATE_OBJECTS = new Set([
+  "VIEW", "MATERIALIZED", "FUNCTION", "PROCEDURE", "PROC", "TRIGGER", "TYPE", "PACKAGE", "DOMAIN",
+  "RULE", "POLICY", "EVENT", "AGGREGATE", "OPERATOR", "CAST",
+]);
+const IGNORED_CREATE_OBJECTS = new Set([
+  "SCHEMA", "DATABASE", "SEQUENCE", "EXTENSION", "ROLE", "USER", "LOGIN", "SYNONYM", "TABLESPACE",
+  "COLLATION", "PUBLICATION", "SUBSCRIPTION", "STATISTICS",
+]);
+const CREATE_MODIFIERS = new Set([
+  "GLOBAL", "LOCAL", "TEMPORARY", "TEMP", "UNLOGGED", "VOLATILE", "TRANSIENT", "EXTERNAL",
+]);
+const INDEX_MODIFIERS = new Set([
+  "UNIQUE", "CLUSTERED", "NONCLUSTERED", "BITMAP", "FULLTEXT", "SPATIAL", "COLUMNSTORE",
+]);
+const ALTER_ACTIONS = new Set(["ADD", "DROP", "ALTER", "MODIFY", "CHANGE", "RENAME"]);
+const IGNORED_ALTER_ACTIONS = new Set([
+  "OWNER", "ENABLE", "DISABLE", "SET", "RESET", "CLUSTER", "REPLICA", "CHECK", "NOCHECK", "ATTACH",
+  "DETACH", "INHERIT", "NO", "VALIDATE", "ALGORITHM", "LOCK", "ENGINE", "AUTO_INCREMENT", "CONVERT",
+  "FORCE", "ORDER", "ROW", "DEFAULT", "COMMENT", "PARALLEL", "NOPARALLEL", "LOGGING", "NOLOGGING",
+]);
+
+// Words that may follow the previous word of a multi-word type name
+const TYPE_CONTINUATIONS: Record<string, string[]> = {
+  DOUBLE: ["PRECISION"],
+  CHARACTER: ["VARYING", "LARGE"],
+  CHAR: ["VARYING", "LARGE"],
+  NCHAR: ["VARYING", "LARGE"],
+  BINARY: ["VARYING", "LARGE"],
+  BIT: ["VARYING"],
+  NATIONAL: ["CHARACTER", "CHAR"],
+  LARGE: ["OBJECT"],
+  LONG: ["RAW", "VARCHAR", "VARBINARY"],
+  INTERVAL: ["YEAR", "MONTH", "DAY", "HOUR", "MINUTE", "SECOND"],
+  YEAR: ["TO"],
+  DAY: ["TO"],
+  HOUR: ["TO"],
+  MINUTE: ["TO"],
+  TO: ["MONTH", "HOUR", "MINUTE", "SECOND"],
+};
+const TYPE_MODIFIERS = new Set(["UNSIGNED", "SIGNED", "ZEROFILL"]);
+
+const CHARACTER_TYPES = new Set([
+  "CHAR", "CHARACTER", "NCHAR", "NATIONAL", "VARCHAR", "VARCHAR2", "NVARCHAR", "NVARCHAR2",
+  "BINARY", "VARBINARY", "RAW", "BIT", "TEXT", "STRING",
+]);
+const DECIMAL_TYPES = new Set(["DECIMAL", "DEC", "NUMERIC", "NUMBER"]);
+const PRECISION_TYPES = new Set([
+  "FLOAT", "REAL", "DOUBLE", "TIME", "TIMESTAMP", "DATETIME", "DATETIME2", "DATETIMEOFFSET", "INTERVAL",
+]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let delimiter = ";";
+  let position = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const atLineStart = () => source.slice(lineStart, position).trim() === "";
+  const advance = (to: number) => {
+    for (let index = position; index < to; index++) {
+      if (source[index] === "\n") {
+        line++;
+        lineStart = index + 1;
+      }
+    }
+    position = to;
+  };
+  const push = (kind: TokenKind, value: string, end: number) => {
+    tokens.push({ kind, value, start: position, end, line });
+    advance(end);
+  };
+  const endOfLine = () => {
+    const newline = source.indexOf("\n", position);
+    return newline === -1 ? source.length : newline;
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position, position + 2);
+
+    if (/\s/.test(char)) {
+      advance(position + 1);
+      continue;
+    }
+
+    if (atLineStart()) {
+      // MySQL client directive that changes the statement terminator
+      const directive = /^DELIMITER[ \t]+(\S+)[ \t]*(?=\r?\n|$)/i.exec(source.slice(position, endOfLine() + 1));
+      if (directive) {
+        delimiter = directive[1];
+        advance(endOfLine());
+        continue;
+      }
+      // psql meta-commands such as \connect
+      if (char === "\\") {
+        advance(endOfLine());
+        continue;
+      }
+    }
+
+    if (delimiter !== ";" && source.startsWith(delimiter, position)) {
+      push("delimiter", delimiter, position + delimiter.length);
+      continue;
+    }
+
+    if (rest === "--" || (char === "#" && (atLineStart() || /\s/.test(source[position + 1] ?? " ")))) {
+      advance(endOfLine());
+      continue;
+    }
+    if (rest === "/*") {
+      const close = source.indexOf("*/", position + 2);
+      advance(close === -1 ? source.length : close + 2);
+      continue;
+    }
+
+    // String literals, including N'', E'', X'' and B'' prefixes
+    const prefixed = /^[NnEeXxBb]'/.test(rest);
+    if (char === "'" || prefixed) {
+      let index = position + (prefixed ? 2 : 1);
+      while (index < source.length) {
+        if (source[index] === "'") {
+          if (source[index + 1] === "'") {
+            index += 2;
+            continue;
+          }
+          break;
+        }
+        index++;
+      }
+      if (index >= source.length) {
+        throw new DdlSyntaxError(`Unterminated string literal on line ${line}`);
+      }
+      push("string", source.slice(position, index + 1), index + 1);
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted bodies
+    const dollarTag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(source.slice(position, position + 64));
+    if (dollarTag) {
+      const close = source.indexOf(dollarTag[0], position + dollarTag[0].length);
+      const end = close === -1 ? source.length : close + dollarTag[0].length;
+      push("string", source.slice(position, end), end);
+      continue;
+    }
+
+    // Quoted identifiers; "[" followed by "]" or a digit is a PostgreSQL array bound
+    const closing = char === '"' ? '"' : char === "`" ? "`" : char === "[" && !/[\]\d]/.test(source[position + 1] ?? "") ? "]" : null;
+    if (closing) {
+      let index = position + 1;
+      let value = "";
+      while (index < source.length) {
+        if (source[index] === closing) {
+          if (source[index + 1] === closing) {
+            value += closing;
+            index += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[index];
+        index++;
+      }
+      if (index >= source.length) {
+        throw new DdlSyntaxError(`Unterminated quoted identifier on line ${line}`);
+      }
+      push("quoted", value, index + 1);
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(position, position + 64));
+    if (number) {
+      push("number", number[0], position + number[0].length);
+      continue;
+    }
+
+    const word = /^[A-Za-z_@#\u00C0-\uFFFF][\w$#@\u00C0-\uFFFF]*/.exec(source.slice(position, position + 256));
+    if (word) {
+      push("word", word[0], position + word[0].length);
+      continue;
+    }
+
+    const operator = MULTI_CHAR_PUNCTUATION.find((candidate) => source.startsWith(candidate, position));
+    push("punct", operator ?? char, position + (operator?.length ?? 1));
+  }
+
+  return tokens;
+}
+
+const upper = (token: Token | undefined) => (token?.kind === "word" ? token.value.toUpperCase() : "");
+
+/**
+ * Split on ";" outside procedural blocks, on a custom MySQL delimiter, and on
+ * the batch separators "GO" (SQL Server) and "/" (Oracle) on their own line.
+ */
+function splitStatements(tokens: Token[]): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+  let blockDepth = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      statements.push({ tokens: current, line: current[0].line });
+    }
+    current = [];
+    blockDepth = 0;
+  };
+  const aloneOnLine = (index: number) =>
+    (index === 0 || tokens[index - 1].line < tokens[index].line) &&
+    (index === tokens.length - 1 || tokens[index + 1].line > tokens[index].line);
+
+  tokens.forEach((token, index) => {
+    if (token.kind === "delimiter") {
+      flush();
+      return;
+    }
+    if ((upper(token) === "GO" || (token.kind === "punct" && token.value === "/")) && aloneOnLine(index)) {
+      flush();
+      return;
+    }
+    if (token.kind === "punct" && token.value === ";" && blockDepth === 0) {
+      flush();
+      return;
+    }
+
+    const word = upper(token);
+    if (word === "BEGIN") {
+      // BEGIN / BEGIN TRANSACTION start a transaction, not a block
+      const following = upper(tokens[index + 1]);
+      const startsTransaction =
+        current.length === 0 &&
+        (["TRAN", "TRANSACTION", "WORK"].includes(following) || tokens[index + 1]?.value === ";");
+      if (!startsTransaction) blockDepth++;
+    } else if (word === "CASE") {
+      blockDepth++;
+    } else if (word === "END" && !["IF", "LOOP", "WHILE", "REPEAT"].includes(upper(tokens[index + 1]))) {
+      blockDepth = Math.max(0, blockDepth - 1);
+    }
+    current.push(token);
+  });
+  flush();
+
+  return statements;
+}
+
+interface TableDraft {
+  table: TableMetadata;
+  uniqueKeys: string[][];
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+type StatementOrigin = Omit<DdlParseIssue, "reason">;
+
+class SchemaBuilder {
+  private readonly drafts: TableDraft[] = [];
+  /** Foreign keys written without a column list, resolved against the parent's primary key in `finish`. */
+  private readonly implicitReferences = new Map<ForeignKeyMetadata, StatementOrigin>();
+
+  find(name: string, schema?: string): TableDraft | undefined {
+    return this.drafts.find(
+      ({ table }) =>
+        sameName(table.name, name) && (!schema || !table.schema || sameName(table.schema, schema)),
+    );
+  }
+
+  require(name: string, schema?: string): TableDraft {
+    const draft = this.find(name, schema);
+    if (!draft) {
+      throw new DdlSyntaxError(`Table ${schema ? `${schema}.` : ""}${name} is not defined earlier in the script`);
+    }
+    return draft;
+  }
+
+  /** A repeated CREATE TABLE replaces the earlier definition. */
+  add(draft: TableDraft): void {
+    const existing = this.find(draft.table.name, draft.table.schema);
+    if (existing) {
+      this.drafts[this.drafts.indexOf(existing)] = draft;
+    } else {
+      this.drafts.push(draft);
+    }
+  }
+
+  rename(draft: TableDraft, name: string): void {
+    this.drafts.forEach(({ table }) => {
+      table.foreignKeys?.forEach((fk) => {
+        if (sameName(fk.referencedTable, draft.table.name)) {
+          fk.referencedTable = name;
+        }
+      });
+    });
+    draft.table.name = name;
+  }
+
+  /** Keep key definitions that mention the column, here and in referencing tables, in step. */
+  renameColumn(draft: TableDraft, column: ColumnMetadata, name: string): void {
+    const rename = (columns: string[]) => columns.map((candidate) => (sameName(candidate, column.name) ? name : candidate));
+    draft.table.foreignKeys?.forEach((fk) => {
+      fk.columns = rename(fk.columns);
+    });
+    draft.uniqueKeys = draft.uniqueKeys.map(rename);
+    this.drafts.forEach(({ table }) => {
+      table.foreignKeys?.forEach((fk) => {
+        if (sameName(fk.referencedTable, draft.table.name)) {
+          fk.referencedColumns = rename(fk.referencedColumns);
+        }
+      });
+    });
+    column.name = name;
+  }
+
+  referencePrimaryKey(fk: ForeignKeyMetadata, origin: StatementOrigin): void {
+    this.implicitReferences.set(fk, origin);
+  }
+
+  /** Tables once the whole script is read, and the foreign keys that could not be completed. */
+  finish(): { tables: TableMetadata[]; issues: DdlParseIssue[] } {
+    const issues: DdlParseIssue[] = [];
+    this.drafts.forEach(({ table, uniqueKeys }) => {
+      const primaryKey = table.columns.filter((column) => column.isPrimaryKey).map((column) => column.name);
+      const keySets = [primaryKey, ...uniqueKeys]
+        .filter((key) => key.length > 0)
+        .map((key) => key.map((name) => name.toLowerCase()).sort().join("\u0000"));
+
+      table.foreignKeys = table.foreignKeys?.filter((fk) => {
+        if (fk.referencedColumns.length === 0) {
+          // REFERENCES parent without a column list targets the parent's primary key
+          const parent = this.find(fk.referencedTable, fk.referencedSchema);
+          const parentKey = parent?.table.columns.filter((column) => column.isPrimaryKey).map((column) => column.name) ?? [];
+          const problem = !parent
+            ? `${fk.referencedTable} is not defined in the script`
+            : parentKey.length === 0
+            ? `${fk.referencedTable} has no primary key`
+            : parentKey.length !== fk.columns.length
+            ? `the primary key of ${fk.referencedTable} has ${parentKey.length} columns`
+            : null;
+          if (problem) {
+            issues.push({
+              ...this.implicitReferences.get(fk)!,
+              reason: `Foreign key ${fk.constraintName} does not list the columns it references and ${problem}`,
+            });
+            return false;
+          }
+          fk.referencedColumns = parentKey;
+        }
+        const columns = fk.columns.map((name) => name.toLowerCase()).sort().join("\u0000");
+        fk.relationshipType = keySets.includes(columns) ? "1:1" : "N:1";
+        return true;
+      });
+    });
+    return { tables: this.drafts.map(({ table }) => table), issues };
+  }
+}
+
+function findColumn(table: TableMetadata, name: string): ColumnMetadata | undefined {
+  return table.columns.find((column) => sameName(column.name, name));
+}
+
+function setPrimaryKey(table: TableMetadata, columns: string[]): void {
+  columns.forEach((name) => {
+    const column = findColumn(table, name);
+    if (!column) {
+      throw new DdlSyntaxError(`Primary key column ${name} does not exist on ${table.name}`);
+    }
+    column.isPrimaryKey = true;
+    column.nullable = false;
+  });
+}
+
+function applyTypeDetails(column: ColumnMetadata, base: string, params: string[]): void {
+  const numeric = (value: string | undefined) => {
+    const match = value ? /^\s*(\d+)/.exec(value) : null;
+    return match ? Number(match[1]) : undefined;
+  };
+  column.length = undefined;
+  column.precision = undefined;
+  column.scale = undefined;
+
+  if (CHARACTER_TYPES.has(base)) {
+    column.length = numeric(params[0]);
+  } else if (DECIMAL_TYPES.has(base)) {
+    column.precision = numeric(params[0]);
+    column.scale = numeric(params[1]);
+  } else if (PRECISION_TYPES.has(base)) {
+    column.precision = numeric(params[0]);
+  }
+}
+
+class StatementParser {
+  private position = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[],
+    private readonly schema: SchemaBuilder,
+    private readonly origin: StatementOrigin,
+  ) {}
+
+  /** Returns a reason when the statement is recognised but not imported. */
+  parse(): string | null {
+    const first = upper(this.peek());
+    if (first === "CREATE") {
+      this.next();
+      return this.createStatement();
+    }
+    if (first === "ALTER") {
+      this.next();
+      if (this.acceptWord("TABLE")) {
+        this.alterTable();
+      }
+      return null;
+    }
+    if (first === "BEGIN" && !this.isTransactionStatement()) {
+      return "Procedural blocks are not imported";
+    }
+    if (IGNORED_STATEMENTS.has(first)) {
+      return null;
+    }
+    if (PROCEDURAL_STATEMENTS.has(first)) {
+      return "Procedural statements are not imported";
+    }
+    throw new DdlSyntaxError("Unrecognized statement");
+  }
+
+  private isTransactionStatement(): boolean {
+    return this.tokens.length === 1 || (this.tokens.length === 2 && ["TRAN", "TRANSACTION", "WORK"].includes(upper(this.peek(1))));
+  }
+
+  private createStatement(): string | null {
+    if (this.acceptWord("OR")) {
+      this.expectWord("REPLACE", "ALTER");
+    }
+    while (CREATE_MODIFIERS.has(upper(this.peek()))) {
+      this.next();
+    }
+
+    const kind = upper(this.peek());
+    if (kind === "TABLE") {
+      this.next();
+      this.createTable();
+      return null;
+    }
+    if (INDEX_MODIFIERS.has(kind) || kind === "INDEX") {
+      this.createIndex();
+      return null;
+    }
+    if (IGNORED_CREATE_OBJECTS.has(kind)) {
+      return null;
+    }
+    // mysqldump puts DEFINER= and ALGORITHM= clauses before the object kind
+    const reported = this.tokens.slice(this.position).map(upper).find((word) => REPORTED_CREATE_OBJECTS.has(word));
+    if (!reported) {
+      throw new DdlSyntaxError("Unrecognized CREATE statement");
+    }
+    const objectType = reported === "MATERIALIZED" ? "MATERIALIZED VIEW" : reported === "PROC" ? "PROCEDURE" : reported;
+    return `CREATE ${objectType} statements are not imported`;
+  }
+
+  private createTable(): void {
+    const ifNotExists = this.acceptWords("IF", "NOT", "EXISTS");
+    const { name, schema } = this.qualifiedName();
+    if (ifNotExists && this.schema.find(name, schema)) {
+      return;
+    }
+    if (this.isWord(this.peek(), "AS") || this.isWord(this.peek(), "PARTITION") || this.isWord(this.peek(), "LIKE")) {
+      throw new DdlSyntaxError(`CREATE TABLE ${name} does not list its columns`);
+    }
+
+    const draft: TableDraft = {
+      table: { name, schema, columns: [], rowCount: 0, foreignKeys: [] },
+      uniqueKeys: [],
+    };
+    this.expectPunct("(");
+    do {
+      this.tableElement(draft);
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    // Storage options (ENGINE=, TABLESPACE, ON [PRIMARY], WITH (...)) follow and are ignored
+
+    if (draft.table.columns.length === 0) {
+      throw new DdlSyntaxError(`CREATE TABLE ${name} defines no columns`);
+    }
+    this.schema.add(draft);
+  }
+
+  private tableElement(draft: TableDraft): void {
+    const constraintName = this.acceptWord("CONSTRAINT") ? this.identifier() : undefined;
+
+    if (!this.tableConstraint(draft, constraintName)) {
+      if (constraintName) {
+        throw new DdlSyntaxError(`Unsupported constraint ${constraintName}`);
+      }
+      const word = upper(this.peek());
+      const following = this.peek(1);
+      const isIndex =
+        ["KEY", "INDEX", "FULLTEXT", "SPATIAL"].includes(word) &&
+        (this.isPunct(following, "(") || this.isPunct(this.peek(2), "(") || upper(following) === "KEY" || upper(following) === "INDEX");
+      if (isIndex || word === "PERIOD" || word === "EXCLUDE") {
+        // Secondary indexes and temporal periods do not change the column model
+      } else if (word === "LIKE") {
+        throw new DdlSyntaxError(`CREATE TABLE ${draft.table.name} copies its columns with LIKE`);
+      } else {
+        const { column } = this.columnDefinition(draft, false);
+        if (findColumn(draft.table, column.name)) {
+          throw new DdlSyntaxError(`Column ${column.name} is defined twice on ${draft.table.name}`);
+        }
+        draft.table.columns.push(column);
+      }
+    }
+    this.skipToElementEnd();
+  }
+
+  /** PRIMARY KEY / FOREIGN KEY / UNIQUE / CHECK at table level; false when the element is not one. */
+  private tableConstraint(draft: TableDraft, constraintName: string | undefined): boolean {
+    const { table } = draft;
+    if (this.acceptWords("PRIMARY", "KEY")) {
+      this.skipWords("CLUSTERED", "NONCLUSTERED");
+      this.skipIndexName();
+      setPrimaryKey(table, this.identifierList());
+      return true;
+    }
+    if (this.acceptWords("FOREIGN", "KEY")) {
+      this.skipIndexName();
+      const columns = this.identifierList();
+      this.expectWord("REFERENCES");
+      const fk = this.references(constraintName ?? `fk_${table.name}_${columns.join("_")}`, columns);
+      columns.forEach((name) => {
+        if (!findColumn(table, name)) {
+          throw new DdlSyntaxError(`Foreign key column ${name} does not exist on ${table.name}`);
+        }
+      });
+      table.foreignKeys = [...(table.foreignKeys ?? []), fk];
+      return true;
+    }
+    if (this.acceptWord("UNIQUE")) {
+      this.skipWords("KEY", "INDEX", "CLUSTERED", "NONCLUSTERED");
+      this.skipIndexName();
+      draft.uniqueKeys.push(this.identifierList());
+      return true;
+    }
+    if (this.acceptWord("CHECK")) {
+      this.acceptWords("NOT", "FOR", "REPLICATION");
+      this.skipGroup();
+      return true;
+    }
+    if (this.acceptWord("DEFAULT")) {
+      // SQL Server: ADD CONSTRAINT DF_x DEFAULT (0) FOR column
+      const expression = this.captureExpression();
+      this.expectWord("FOR");
+      this.requireColumn(draft, this.identifier()).defaultValue = expression;
+      return true;
+    }
+    return false;
+  }
+
+  /** `declaresNullability` tells ALTER ... MODIFY whether NULL / NOT NULL was spelled out. */
+  private columnDefinition(
+    draft: TableDraft,
+    typeOptional: boolean,
+  ): { column: ColumnMetadata; declaresNullability: boolean } {
+    const name = this.identifier();
+    const column: ColumnMetadata = { name, type: "", nullable: true, isPrimaryKey: false };
+
+    if (this.isWord(this.peek(), "AS")) {
+      // Computed column without a declared type (SQL Server)
+      column.type = "COMPUTED";
+    } else if (!typeOptional || !this.atColumnOption()) {
+      const { type, base, params } = this.dataType();
+      column.type = type;
+      applyTypeDetails(column, base, params);
+    }
+
+    const declaresNullability = this.columnOptions(draft, column);
+    return { column, declaresNullability };
+  }
+
+  private atColumnOption(): boolean {
+    return (
+      this.atElementEnd() ||
+      ["NOT", "NULL", "DEFAULT", "CONSTRAINT", "PRIMARY", "UNIQUE", "REFERENCES", "CHECK"].includes(upper(this.peek()))
+    );
+  }
+
+  private columnOptions(draft: TableDraft, column: ColumnMetadata): boolean {
+    const { table } = draft;
+    let declaresNullability = false;
+    while (!this.atElementEnd()) {
+      const constraintName = this.acceptWord("CONSTRAINT") ? this.identifier() : undefined;
+
+      if (this.acceptWords("NOT", "NULL")) {
+        column.nullable = false;
+        declaresNullability = true;
+      } else if (this.acceptWord("NULL")) {
+        column.nullable = true;
+        declaresNullability = true;
+      } else if (this.acceptWords("PRIMARY", "KEY")) {
+        column.isPrimaryKey = true;
+        column.nullable = false;
+        this.skipWords("ASC", "DESC", "CLUSTERED", "NONCLUSTERED", "AUTOINCREMENT");
+      } else if (this.acceptWord("UNIQUE")) {
+        this.skipWords("KEY", "CLUSTERED", "NONCLUSTERED");
+        draft.uniqueKeys.push([column.name]);
+      } else if (this.acceptWord("DEFAULT")) {
+        this.acceptWords("ON", "NULL");
+        column.defaultValue = this.captureExpression();
+      } else if (this.acceptWord("REFERENCES")) {
+        const fk = this.references(constraintName ?? `fk_${table.name}_${column.name}`, [column.name]);
+        table.foreignKeys = [...(table.foreignKeys ?? []), fk];
+      } else if (this.acceptWord("CHECK")) {
+        this.acceptWords("NOT", "FOR", "REPLICATION");
+        this.skipGroup();
+      } else if (this.acceptWord("IDENTITY")) {
+        if (this.isPunct(this.peek(), "(")) this.skipGroup();
+      } else if (this.acceptWord("GENERATED")) {
+        this.skipWords("ALWAYS", "BY", "DEFAULT", "ON", "NULL", "AS", "IDENTITY");
+        if (this.isPunct(this.peek(), "(")) this.skipGroup();
+      } else if (this.acceptWord("AS")) {
+        if (this.isPunct(this.peek(), "(")) this.skipGroup();
+      } else if (this.acceptWord("COLLATE") || this.acceptWord("COMMENT") || this.acceptWord("CHARSET")) {
+        this.next();
+      } else if (this.acceptWords("CHARACTER", "SET")) {
+        this.next();
+      } else if (this.acceptWords("ON", "UPDATE")) {
+        this.captureExpression();
+      } else if (this.isPunct(this.peek(), "(")) {
+        this.skipGroup();
+      } else {
+        // Engine and storage options: AUTO_INCREMENT, SPARSE, PERSISTED, ENABLE, ...
+        this.next();
+      }
+    }
+    return declaresNullability;
+  }
+
+  private references(constraintName: string, columns: string[]): ForeignKeyMetadata {
+    const { name, schema } = this.qualifiedName();
+    const referencedColumns = this.isPunct(this.peek(), "(") ? this.identifierList() : [];
+    if (referencedColumns.length > 0 && referencedColumns.length !== columns.length) {
+      throw new DdlSyntaxError(`Foreign key ${constraintName} references ${referencedColumns.length} columns for ${columns.length}`);
+    }
+
+    const fk: ForeignKeyMetadata = {
+      constraintName,
+      columns,
+      referencedTable: name,
+      referencedSchema: schema,
+      referencedColumns,
+      relationshipType: "N:1",
+    };
+    if (referencedColumns.length === 0) {
+      this.schema.referencePrimaryKey(fk, this.origin);
+    }
+    for (;;) {
+      if (this.acceptWords("ON", "DELETE")) {
+        fk.deleteRule = this.referentialAction();
+      } else if (this.acceptWords("ON", "UPDATE")) {
+        fk.updateRule = this.referentialAction();
+      } else if (this.acceptWord("MATCH")) {
+        this.next();
+      } else if (this.acceptWords("NOT", "DEFERRABLE") || this.acceptWords("NOT", "FOR", "REPLICATION")) {
+        continue;
+      } else if (this.acceptWord("INITIALLY")) {
+        this.next();
+      } else if (!this.skipWords("DEFERRABLE", "ENABLE", "DISABLE", "VALIDATE", "NOVALIDATE", "RELY", "NORELY")) {
+        break;
+      }
+    }
+    return fk;
+  }
+
+  private referentialAction(): string {
+    if (this.acceptWords("NO", "ACTION")) return "NO ACTION";
+    if (this.acceptWords("SET", "NULL")) return "SET NULL";
+    if (this.acceptWords("SET", "DEFAULT")) return "SET DEFAULT";
+    return this.expectWord("CASCADE", "RESTRICT");
+  }
+
+  private createIndex(): void {
+    let unique = false;
+    while (INDEX_MODIFIERS.has(upper(this.peek()))) {
+      unique = unique || upper(this.next()) === "UNIQUE";
+    }
+    this.expectWord("INDEX");
+    this.skipWords("CONCURRENTLY");
+    this.acceptWords("IF", "NOT", "EXISTS");
+    if (!this.isWord(this.peek(), "ON")) {
+      this.qualifiedName();
+    }
+    if (this.acceptWord("USING")) {
+      this.next();
+    }
+    this.expectWord("ON");
+    this.acceptWord("ONLY");
+    const { name, schema } = this.qualifiedName();
+    if (this.acceptWord("USING")) {
+      this.next();
+    }
+
+    const columns = this.indexColumnList();
+    const draft = this.schema.find(name, schema);
+    if (unique && columns && draft) {
+      draft.uniqueKeys.push(columns);
+    }
+  }
+
+  /** Plain column names of an index, or null when it indexes expressions. */
+  private indexColumnList(): string[] | null {
+    this.expectPunct("(");
+    const columns: string[] = [];
+    let plain = true;
+    do {
+      const token = this.peek();
+      if (token?.kind === "word" || token?.kind === "quoted") {
+        columns.push(this.identifier());
+        if (this.isPunct(this.peek(), "(")) plain = false;
+      } else {
+        plain = false;
+      }
+      this.skipToElementEnd();
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    return plain ? columns : null;
+  }
+
+  private alterTable(): void {
+    this.acceptWords("IF", "EXISTS");
+    this.acceptWord("ONLY");
+    const { name, schema } = this.qualifiedName();
+    const draft = this.schema.require(name, schema);
+    let previousAction = "";
+
+    do {
+      if (this.acceptWord("WITH")) {
+        // SQL Server: WITH CHECK ADD CONSTRAINT ...
+        this.expectWord("CHECK", "NOCHECK");
+      }
+      const action = upper(this.peek());
+      if (action === "ADD") {
+        this.next();
+        this.alterAdd(draft);
+      } else if (action === "DROP") {
+        this.next();
+        this.alterDrop(draft);
+      } else if (action === "ALTER") {
+        this.next();
+        this.alterColumn(draft);
+      } else if (action === "MODIFY") {
+        this.next();
+        this.alterModify(draft);
+      } else if (action === "CHANGE") {
+        this.next();
+        this.acceptWord("COLUMN");
+        const column = this.requireColumn(draft, this.identifier());
+        const { column: replacement } = this.columnDefinition(draft, false);
+        Object.assign(column, replacement, { isPrimaryKey: column.isPrimaryKey || replacement.isPrimaryKey });
+      } else if (action === "RENAME") {
+        this.next();
+        this.alterRename(draft);
+      } else if (previousAction === "ADD" && (this.peek()?.kind === "word" || this.peek()?.kind === "quoted") && !IGNORED_ALTER_ACTIONS.has(action)) {
+        // SQL Server: ALTER TABLE t ADD a INT, b INT
+        this.alterAdd(draft);
+      } else if (IGNORED_ALTER_ACTIONS.has(action)) {
+        this.skipToElementEnd();
+      } else {
+        throw new DdlSyntaxError(`Unsupported ALTER TABLE action ${this.peek()?.value ?? "(none)"}`);
+      }
+      if (ALTER_ACTIONS.has(action)) {
+        previousAction = action;
+      }
+      this.skipToElementEnd();
+    } while (this.acceptPunct(","));
+  }
+
+  private alterAdd(draft: TableDraft): void {
+    const constraintName = this.acceptWord("CONSTRAINT") ? this.identifier() : undefined;
+    if (this.tableConstraint(draft, constraintName)) {
+      return;
+    }
+    if (constraintName) {
+      throw new DdlSyntaxError(`Unsupported constraint ${constraintName}`);
+    }
+    if (this.isWord(this.peek(), "INDEX") || this.isWord(this.peek(), "KEY")) {
+      return;
+    }
+
+    this.acceptWord("COLUMN");
+    this.acceptWords("IF", "NOT", "EXISTS");
+    const addColumn = () => {
+      const { column } = this.columnDefinition(draft, false);
+      if (findColumn(draft.table, column.name)) {
+        throw new DdlSyntaxError(`Column ${column.name} already exists on ${draft.table.name}`);
+      }
+      draft.table.columns.push(column);
+    };
+    if (this.acceptPunct("(")) {
+      // Oracle: ADD (a NUMBER, b VARCHAR2(10))
+      do {
+        addColumn();
+        this.skipToElementEnd();
+      } while (this.acceptPunct(","));
+      this.expectPunct(")");
+    } else {
+      addColumn();
+    }
+  }
+
+  private alterDrop(draft: TableDraft): void {
+    const { table } = draft;
+    if (this.acceptWord("CONSTRAINT")) {
+      this.acceptWords("IF", "EXISTS");
+      const name = this.identifier();
+      table.foreignKeys = (table.foreignKeys ?? []).filter((fk) => !sameName(fk.constraintName, name));
+    } else if (this.acceptWords("PRIMARY", "KEY")) {
+      table.columns.forEach((column) => (column.isPrimaryKey = false));
+    } else if (this.acceptWords("FOREIGN", "KEY")) {
+      const name = this.identifier();
+      table.foreignKeys = (table.foreignKeys ?? []).filter((fk) => !sameName(fk.constraintName, name));
+    } else if (this.skipWords("INDEX", "KEY", "PARTITION")) {
+      return;
+    } else {
+      this.acceptWord("COLUMN");
+      this.acceptWords("IF", "EXISTS");
+      const name = this.identifier();
+      this.requireColumn(draft, name);
+      table.columns = table.columns.filter((column) => !sameName(column.name, name));
+    }
+  }
+
+  private alterColumn(draft: TableDraft): void {
+    this.acceptWord("COLUMN");
+    const column = this.requireColumn(draft, this.identifier());
+
+    if (this.acceptWords("SET", "DEFAULT")) {
+      column.defaultValue = this.captureExpression();
+    } else if (this.acceptWords("DROP", "DEFAULT")) {
+      column.defaultValue = undefined;
+    } else if (this.acceptWords("SET", "NOT", "NULL")) {
+      column.nullable = false;
+    } else if (this.acceptWords("DROP", "NOT", "NULL")) {
+      column.nullable = true;
+    } else if (this.acceptWords("SET", "DATA", "TYPE") || this.acceptWord("TYPE")) {
+      const { type, base, params } = this.dataType();
+      column.type = type;
+      applyTypeDetails(column, base, params);
+    } else if (this.isWord(this.peek(), "SET") || this.isWord(this.peek(), "DROP") || this.isWord(this.peek(), "ADD")) {
+      // Statistics, storage and identity settings
+    } else {
+      // SQL Server: ALTER COLUMN name type [NULL | NOT NULL]
+      const { type, base, params } = this.dataType();
+      column.type = type;
+      applyTypeDetails(column, base, params);
+      if (this.acceptWords("NOT", "NULL")) column.nullable = false;
+      else if (this.acceptWord("NULL")) column.nullable = true;
+    }
+  }
+
+  private alterModify(draft: TableDraft): void {
+    this.acceptWord("COLUMN");
+    const modify = () => {
+      const existing = this.requireColumn(draft, this.peek()?.value ?? "");
+      const { column: replacement, declaresNullability } = this.columnDefinition(draft, true);
+      if (declaresNullability) {
+        existing.nullable = replacement.nullable && !existing.isPrimaryKey;
+      }
+      if (replacement.type) {
+        existing.type = replacement.type;
+        existing.length = replacement.length;
+        existing.precision = replacement.precision;
+        existing.scale = replacement.scale;
+      }
+      if (replacement.defaultValue !== undefined) existing.defaultValue = replacement.defaultValue;
+      if (replacement.isPrimaryKey) existing.isPrimaryKey = true;
+    };
+    if (this.acceptPunct("(")) {
+      // Oracle: MODIFY (a NOT NULL, b VARCHAR2(20))
+      do {
+        modify();
+        this.skipToElementEnd();
+      } while (this.acceptPunct(","));
+      this.expectPunct(")");
+    } else {
+      modify();
+    }
+  }
+
+  private alterRename(draft: TableDraft): void {
+    if (this.acceptWord("TO") || this.acceptWord("AS")) {
+      this.schema.rename(draft, this.qualifiedName().name);
+    } else if (this.acceptWord("CONSTRAINT") || this.acceptWord("INDEX") || this.acceptWord("KEY")) {
+      this.skipToElementEnd();
+    } else {
+      this.acceptWord("COLUMN");
+      const column = this.requireColumn(draft, this.identifier());
+      this.expectWord("TO");
+      this.schema.renameColumn(draft, column, this.identifier());
+    }
+  }
+
+  private requireColumn(draft: TableDraft, name: string): ColumnMetadata {
+    const column = findColumn(draft.table, name);
+    if (!column) {
+      throw new DdlSyntaxError(`Column ${name} does not exist on ${draft.table.name}`);
+    }
+    return column;
+  }
+
+  /** Type name with its parameters; `base` is the upper-cased leading word. */
+  private dataType(): { type: string; base: string; params: string[] } {
+    const first = this.peek();
+    if (first?.kind !== "word" && first?.kind !== "quoted") {
+      throw new DdlSyntaxError(`Expected a data type but found "${first?.value ?? "end of statement"}"`);
+    }
+    this.next();
+
+    const parts: string[] = [];
+    let base = first.value.toUpperCase();
+    let name = base;
+    // User-defined types may be schema qualified: public.mood, [dbo].[Flag]
+    while (this.isPunct(this.peek(), ".")) {
+      this.next();
+      name = `${first.value}.${this.identifier()}`;
+      base = name;
+    }
+    parts.push(name);
+
+    let params: string[] | undefined;
+    let lastWord = base;
+    let partHasParams = false;
+    for (;;) {
+      const token = this.peek();
+      const word = upper(token);
+      if (this.isPunct(token, "(") && !partHasParams) {
+        // INTERVAL DAY(2) TO SECOND(6) carries a group per field; the first one classifies the type
+        const group = this.typeParameters();
+        params = params ?? group;
+        parts[parts.length - 1] += `(${group.join(",")})`;
+        partHasParams = true;
+      } else if ((base === "TIMESTAMP" || base === "TIME") && this.acceptWords("WITH", "LOCAL", "TIME", "ZONE")) {
+        parts.push("WITH LOCAL TIME ZONE");
+      } else if ((base === "TIMESTAMP" || base === "TIME") && this.acceptWords("WITH", "TIME", "ZONE")) {
+        parts.push("WITH TIME ZONE");
+      } else if ((base === "TIMESTAMP" || base === "TIME") && this.acceptWords("WITHOUT", "TIME", "ZONE")) {
+        parts.push("WITHOUT TIME ZONE");
+      } else if (word && (TYPE_CONTINUATIONS[lastWord] ?? []).includes(word)) {
+        this.next();
+        parts.push(word);
+        lastWord = word;
+        partHasParams = false;
+      } else if (TYPE_MODIFIERS.has(word)) {
+        this.next();
+        parts.push(word);
+      } else if (word === "ARRAY") {
+        this.next();
+        parts[parts.length - 1] += "[]";
+      } else if (this.isPunct(token, "[")) {
+        this.next();
+        if (this.peek()?.kind === "number") this.next();
+        this.expectPunct("]");
+        parts[parts.length - 1] += "[]";
+      } else {
+        break;
+      }
+    }
+
+    return { type: parts.join(" "), base, params: params ?? [] };
+  }
+
+  private typeParameters(): string[] {
+    this.expectPunct("(");
+    const params: string[] = [];
+    do {
+      const from = this.position;
+      this.skipToElementEnd();
+      params.push(this.text(from, this.position).replace(/\s+/g, " "));
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    return params;
+  }
+
+  /** Consume a DEFAULT-style expression and return its source text. */
+  private captureExpression(): string {
+    const from = this.position;
+    this.operand();
+    for (;;) {
+      const token = this.peek();
+      if (this.isPunct(token, "::")) {
+        this.next();
+        this.dataType();
+      } else if (token?.kind === "punct" && BINARY_OPERATORS.has(token.value)) {
+        this.next();
+        this.operand();
+      } else {
+        break;
+      }
+    }
+    return this.text(from, this.position);
+  }
+
+  private operand(): void {
+    const token = this.next();
+    if (!token) {
+      throw new DdlSyntaxError("Expected an expression");
+    }
+    if (this.isPunct(token, "(")) {
+      this.position--;
+      this.skipGroup();
+    } else if (this.isPunct(token, "-") || this.isPunct(token, "+")) {
+      this.operand();
+    } else if (token.kind === "word" || token.kind === "quoted") {
+      if (upper(token) === "NEXT" && this.acceptWords("VALUE", "FOR")) {
+        // SQL Server sequence default
+        this.qualifiedName();
+        return;
+      }
+      while (this.isPunct(this.peek(), ".")) {
+        this.next();
+        this.next();
+      }
+      if (this.isPunct(this.peek(), "(")) {
+        this.skipGroup();
+      }
+    } else if (token.kind !== "string" && token.kind !== "number") {
+      throw new DdlSyntaxError(`Unexpected "${token.value}" in expression`);
+    }
+  }
+
+  private qualifiedName(): { name: string; schema?: string } {
+    const parts = [this.identifier()];
+    while (this.acceptPunct(".")) {
+      parts.push(this.identifier());
+    }
+    const name = parts[parts.length - 1];
+    return parts.length > 1 ? { name, schema: parts[parts.length - 2] } : { name };
+  }
+
+  private identifier(): string {
+    const token = this.peek();
+    if (token?.kind !== "word" && token?.kind !== "quoted") {
+      throw new DdlSyntaxError(`Expected an identifier but found "${token?.value ?? "end of statement"}"`);
+    }
+    this.next();
+    return token.value;
+  }
+
+  /** "(a, b DESC, c(10))" - sort order and MySQL prefix lengths are dropped. */
+  private identifierList(): string[] {
+    this.expectPunct("(");
+    const names: string[] = [];
+    do {
+      names.push(this.identifier());
+      this.skipToElementEnd();
+    } while (this.acceptPunct(","));
+    this.expectPunct(")");
+    return names;
+  }
+
+  /** MySQL allows an index name between the key keywords and the column list. */
+  private skipIndexName(): void {
+    if (!this.isPunct(this.peek(), "(") && !this.isWord(this.peek(), "USING")) {
+      this.identifier();
+    }
+    if (this.acceptWord("USING")) {
+      this.next();
+    }
+  }
+
+  private skipGroup(): void {
+    this.expectPunct("(");
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (!token) {
+        throw new DdlSyntaxError("Unbalanced parentheses");
+      }
+      if (this.isPunct(token, "(")) depth++;
+      if (this.isPunct(token, ")")) depth--;
+    }
+  }
+
+  /** Advance to the "," or ")" that ends the current list element, skipping nested groups. */
+  private skipToElementEnd(): void {
+    while (!this.atElementEnd()) {
+      if (this.isPunct(this.peek(), "(")) {
+        this.skipGroup();
+      } else {
+        this.next();
+      }
+    }
+  }
+
+  private atElementEnd(): boolean {
+    const token = this.peek();
+    return !token || this.isPunct(token, ",") || this.isPunct(token, ")");
+  }
+
+  private text(from: number, to: number): string {
+    if (to <= from) return "";
+    return this.source.slice(this.tokens[from].start, this.tokens[to - 1].end);
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private isWord(token: Token | undefined, word: string): boolean {
+    return upper(token) === word;
+  }
+
+  private isPunct(token: Token | undefined, value: string): boolean {
+    return token?.kind === "punct" && token.value === value;
+  }
+
+  private acceptWord(word: string): boolean {
+    if (this.isWord(this.peek(), word)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  /** Consume the whole sequence or nothing. */
+  private acceptWords(...words: string[]): boolean {
+    if (words.every((word, index) => this.isWord(this.peek(index), word))) {
+      this.position += words.length;
+      return true;
+    }
+    return false;
+  }
+
+  /** Consume any run of the given words; true when at least one was present. */
+  private skipWords(...words: string[]): boolean {
+    let skipped = false;
+    while (words.includes(upper(this.peek()))) {
+      this.position++;
+      skipped = true;
+    }
+    return skipped;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (this.isPunct(this.peek(), value)) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      throw new DdlSyntaxError(`Expected "${value}" but found "${this.peek()?.value ?? "end of statement"}"`);
+    }
+  }
+
+  private expectWord(...words: string[]): string {
+    const word = upper(this.peek());
+    if (!words.includes(word)) {
+      throw new DdlSyntaxError(`Expected ${words.join(" or ")} but found "${this.peek()?.value ?? "end of statement"}"`);
+    }
+    this.position++;
+    return word;
+  }
+}
+
+function preview(source: string, statement: Statement): string {
+  const first = statement.tokens[0];
+  const last = statement.tokens[statement.tokens.length - 1];
+  const text = source.slice(first.start, last.end).replace(/\s+/g, " ").trim();
+  return text.length > STATEMENT_PREVIEW_LENGTH ? `${text.slice(0, STATEMENT_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+export function parseDDL(script: string): DdlParseResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(script);
+  } catch (error) {
+    if (error instanceof DdlSyntaxError) {
+      return {
+        tables: [],
+        unparsedStatements: [{ line: 1, statement: script.slice(0, STATEMENT_PREVIEW_LENGTH), reason: error.message }],
+      };
+    }
+    throw error;
+  }
+
+  const schema = new SchemaBuilder();
+  const unparsedStatements: DdlParseIssue[] = [];
+
+  splitStatements(tokens).forEach((statement) => {
+    const origin = { line: statement.line, statement: preview(script, statement) };
+    try {
+      const parser = new StatementParser(script, statement.tokens, schema, origin);
+      const skippedReason = parser.parse();
+      if (skippedReason) {
+        unparsedStatements.push({ ...origin, reason: skippedReason });
+      }
+    } catch (error) {
+      if (!(error instanceof DdlSyntaxError)) {
+        throw error;
+      }
+      unparsedStatements.push({ ...origin, reason: error.message });
+    }
+  });
+
+  const { tables, issues } = schema.finish();
+  return { tables, unparsedStatements: [...unparsedStatements, ...issues].sort((a, b) => a.line - b.line) };
+}
@@ -0,0 +1,277 @@
+/**
+ * Text diagram exports (DBML, Mermaid erDiagram, PlantUML) for a model layer.
+ * Column types follow the layer, keys come from the PK/FK flags and relationship
+ * cardinality from the relationship type.
+ */
+
+export type DiagramLayer = "all" | "conceptual" | "logical" | "physical";
+
+export interface DiagramObject {
+  id: number;
+  name: string;
+  description?: string | null;
+}
+
+export interface DiagramAttribute {
+  id: number;
+  objectId: number;
+  name: string;
+  description?: string | null;
+  conceptualType?: string | null;
+  logicalType?: string | null;
+  physicalType?: string | null;
+  dataType?: string | null;
+  nullable?: boolean | null;
+  isPrimaryKey?: boolean | null;
+  isForeignKey?: boolean | null;
+  orderIndex?: number | null;
+}
+
+export interface DiagramRelationship {
+  sourceModelObjectId: number;
+  targetModelObjectId: number;
+  sourceAttributeId?: number | null;
+  targetAttributeId?: number | null;
+  type: string;
+  name?: string | null;
+}
+
+export interface DiagramInput {
+  title?: string;
+  layer: DiagramLayer;
+  objects: DiagramObject[];
+  attributes: DiagramAttribute[];
+  relationships: DiagramRelationship[];
+  includePrimaryKeys?: boolean;
+  includeForeignKeys?: boolean;
+  includeDescriptions?: boolean;
+}
+
+/** The attribute's type as the layer sees it, falling back to the neighbouring layers. */
+export function typeForLayer(attribute: DiagramAttribute, layer: DiagramLayer): string | null {
+  const candidates =
+    layer === "conceptual"
+      ? [attribute.conceptualType, attribute.logicalType, attribute.physicalType, attribute.dataType]
+      : layer === "logical"
+      ? [attribute.logicalType, attribute.physicalType, attribute.conceptualType, attribute.dataType]
+      : [attribute.physicalType, attribute.logicalType, attribute.dataType, attribute.conceptualType];
+  return candidates.find((value): value is string => Boolean(value && value.trim()))?.trim() ?? null;
+}
+
+interface ResolvedRelationship {
+  source: DiagramObject;
+  target: DiagramObject;
+  sourceAttribute: DiagramAttribute | null;
+  targetAttribute: DiagramAttribute | null;
+  type: string;
+  name: string | null;
+}
+
+function prepare(input: DiagramInput) {
+  const objectsById = new Map(input.objects.map((object) => [object.id, object]));
+  const attributesById = new Map(input.attributes.map((attribute) => [attribute.id, attribute]));
+  const columnsOf = (objectId: number) =>
+    input.attributes
+      .filter((attribute) => attribute.objectId === objectId)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+
+  const relationships: ResolvedRelationship[] = [];
+  input.relationships.forEach((relationship) => {
+    const source = objectsById.get(relationship.sourceModelObjectId);
+    const target = objectsById.get(relationship.targetModelObjectId);
+    if (!source || !target) return;
+    relationships.push({
+      source,
+      target,
+      sourceAttribute: relationship.sourceAttributeId ? attributesById.get(relationship.sourceAttributeId) ?? null : null,
+      targetAttribute: relationship.targetAttributeId ? attributesById.get(relationship.targetAttributeId) ?? null : null,
+      type: relationship.type,
+      name: relationship.name ?? null,
+    });
+  });
+
+  return {
+    columnsOf,
+    relationships: input.includeForeignKeys === false ? [] : relationships,
+    showKeys: input.includePrimaryKeys !== false,
+    describe: (text: string | null | undefined) => (input.includeDescriptions === false || !text?.trim() ? null : text.trim()),
+  };
+}
+
+const isManyToMany = (type: string) => type === "N:M" || type === "M:N";
+
+// ---------------------------------------------------------------------------
+// DBML
+
+const dbmlName = (name: string) => (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`);
+
+const dbmlType = (type: string) =>
+  /^[A-Za-z_][A-Za-z0-9_.]*(\(\s*\d+\s*(,\s*\d+\s*)?\))?(\[\])?$/.test(type) ? type : `"${type.replace(/"/g, '\\"')}"`;
+
+const dbmlString = (text: string) =>
+  text.includes("\n") ? `'''${text.replace(/'''/g, "\\'''")}'''` : `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+const DBML_REF_OPERATORS: Record<string, string> = { "N:1": ">", "1:N": "<", "1:1": "-", "N:M": "<>", "M:N": "<>" };
+
+export function renderDbml(input: DiagramInput): string {
+  const { columnsOf, relationships, showKeys, describe } = prepare(input);
+  const blocks: string[] = [];
+
+  if (input.title) {
+    blocks.push(`Project ${dbmlName(input.title)} {\n  Note: ${dbmlString(`${input.layer} layer`)}\n}`);
+  }
+
+  input.objects.forEach((object) => {
+    const columns = columnsOf(object.id);
+    const keyColumns = showKeys ? columns.filter((attribute) => attribute.isPrimaryKey) : [];
+    const lines = columns.map((attribute) => {
+      const settings: string[] = [];
+      const isSoleKey = keyColumns.length === 1 && keyColumns[0] === attribute;
+      if (isSoleKey) settings.push("pk");
+      else if (attribute.nullable === false || (attribute.isPrimaryKey && keyColumns.length > 1)) settings.push("not null");
+      const note = describe(attribute.description);
+      if (note) settings.push(`note: ${dbmlString(note)}`);
+      const type = typeForLayer(attribute, input.layer) ?? "unknown";
+      return `  ${dbmlName(attribute.name)} ${dbmlType(type)}${settings.length > 0 ? ` [${settings.join(", ")}]` : ""}`;
+    });
+    if (keyColumns.length > 1) {
+      lines.push("", "  indexes {", `    (${keyColumns.map((attribute) => dbmlName(attribute.name)).join(", ")}) [pk]`, "  }");
+    }
+    const note = describe(object.description);
+    if (note) lines.push("", `  Note: ${dbmlString(note)}`);
+    blocks.push(`Table ${dbmlName(object.name)} {\n${lines.join("\n")}\n}`);
+  });
+
+  const refs = relationships.map((relationship) => {
+    const operator = DBML_REF_OPERATORS[relationship.type] ?? ">";
+    if (!relationship.sourceAttribute || !relationship.targetAttribute) {
+      // DBML refs join columns; object-level relationships are kept as a comment
+      return `// ${relationship.source.name} ${operator} ${relationship.target.name} (${relationship.type}) has no attribute mapping`;
+    }
+    const name = relationship.name && /^[A-Za-z_][A-Za-z0-9_]*$/.test(relationship.name) ? ` ${relationship.name}` : "";
+    return `Ref${name}: ${dbmlName(relationship.source.name)}.${dbmlName(relationship.sourceAttribute.name)} ${operator} ${dbmlName(
+      relationship.target.name,
+    )}.${dbmlName(relationship.targetAttribute.name)}`;
+  });
+  if (refs.length > 0) blocks.push(refs.join("\n"));
+
+  return `${blocks.join("\n\n")}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Crow's foot notation shared by Mermaid and PlantUML
+
+/**
+ * Left and right ends of a crow's foot connector for source -> target. The side
+ * holding a nullable foreign key makes the other end optional.
+ */
+function crowsFoot(relationship: Pick<ResolvedRelationship, "type" | "sourceAttribute" | "targetAttribute">): string {
+  const optional = (attribute: DiagramAttribute | null) => attribute?.nullable !== false && !attribute?.isPrimaryKey;
+  switch (relationship.type) {
+    case "N:1":
+      return `}o--${optional(relationship.sourceAttribute) ? "o|" : "||"}`;
+    case "1:N":
+      return `${optional(relationship.targetAttribute) ? "|o" : "||"}--o{`;
+    case "1:1":
+      return `|o--${optional(relationship.sourceAttribute) ? "o|" : "||"}`;
+    default:
+      return isManyToMany(relationship.type) ? "}o--o{" : "}o--||";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mermaid erDiagram
+
+// Mermaid tokens (and PlantUML aliases) allow letters, digits, '-' and '_'; Mermaid types also '()' and '[]'
+const diagramToken = (value: string, extra = "") => {
+  const token = value.replace(new RegExp(`[^A-Za-z0-9_\\-${extra}]+`, "g"), "_").replace(/^_+|_+$/g, "");
+  return /^[A-Za-z_]/.test(token) ? token : `_${token}`;
+};
+
+export function renderMermaidErDiagram(input: DiagramInput): string {
+  const { columnsOf, relationships, showKeys, describe } = prepare(input);
+  const lines: string[] = [];
+  if (input.title) lines.push("---", `title: ${input.title}`, "---");
+  lines.push("erDiagram");
+
+  const ids = new Map<number, string>();
+  input.objects.forEach((object) => {
+    const id = diagramToken(object.name);
+    ids.set(object.id, id);
+    // Aliases keep names with spaces or punctuation readable
+    const header = id === object.name ? id : `${id}["${object.name.replace(/"/g, "'")}"]`;
+    const columns = columnsOf(object.id);
+    if (columns.length === 0) {
+      lines.push(`    ${header} {`, "    }");
+      return;
+    }
+    lines.push(`    ${header} {`);
+    columns.forEach((attribute) => {
+      const keys = [
+        showKeys && attribute.isPrimaryKey ? "PK" : null,
+        input.includeForeignKeys !== false && attribute.isForeignKey ? "FK" : null,
+      ].filter(Boolean);
+      const comment = describe(attribute.description);
+      const type = diagramToken(typeForLayer(attribute, input.layer) ?? "unknown", "()\\[\\]");
+      lines.push(
+        `        ${[type, diagramToken(attribute.name), keys.join(", "), comment ? `"${comment.replace(/"/g, "'").replace(/\s+/g, " ")}"` : ""]
+          .filter(Boolean)
+          .join(" ")}`,
+      );
+    });
+    lines.push("    }");
+  });
+
+  relationships.forEach((relationship) => {
+    const label = relationship.sourceAttribute?.name ?? relationship.name ?? "";
+    lines.push(
+      `    ${ids.get(relationship.source.id)} ${crowsFoot(relationship)} ${ids.get(relationship.target.id)} : "${label.replace(/"/g, "'")}"`,
+    );
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// PlantUML (IE notation entities)
+
+export function renderPlantUml(input: DiagramInput): string {
+  const { columnsOf, relationships, showKeys } = prepare(input);
+  const lines = ["@startuml"];
+  if (input.title) lines.push(`title ${input.title}`);
+  lines.push("hide circle", "skinparam linetype ortho", "");
+
+  const aliases = new Map<number, string>();
+  input.objects.forEach((object) => {
+    const alias = diagramToken(object.name);
+    aliases.set(object.id, alias);
+    const columns = columnsOf(object.id);
+    const keys = showKeys ? columns.filter((attribute) => attribute.isPrimaryKey) : [];
+    const others = columns.filter((attribute) => !keys.includes(attribute));
+    const render = (attribute: DiagramAttribute) => {
+      const mandatory = attribute.isPrimaryKey || attribute.nullable === false ? "* " : "";
+      const stereotypes = [
+        keys.includes(attribute) ? "<<PK>>" : null,
+        input.includeForeignKeys !== false && attribute.isForeignKey ? "<<FK>>" : null,
+      ].filter(Boolean);
+      const type = typeForLayer(attribute, input.layer);
+      return `  ${mandatory}${attribute.name}${type ? ` : ${type}` : ""}${stereotypes.length > 0 ? ` ${stereotypes.join(" ")}` : ""}`;
+    };
+
+    lines.push(`entity "${object.name.replace(/"/g, "'")}" as ${alias} {`);
+    keys.forEach((attribute) => lines.push(render(attribute)));
+    if (keys.length > 0) lines.push("  --");
+    others.forEach((attribute) => lines.push(render(attribute)));
+    lines.push("}", "");
+  });
+
+  relationships.forEach((relationship) => {
+    const label = relationship.sourceAttribute?.name ?? relationship.name;
+    lines.push(
+      `${aliases.get(relationship.source.id)} ${crowsFoot(relationship)} ${aliases.get(relationship.target.id)}${label ? ` : ${label}` : ""}`,
+    );
+  });
+
+  lines.push("@enduml");
+  return `${lines.join("\n")}\n`;
+}
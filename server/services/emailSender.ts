@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transport used for outgoing mail. Swap in a real provider with
+ * `setEmailSender()`; the built-in senders only log or write to disk.
+ */
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class ConsoleEmailSender implements EmailSender {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[EMAIL] To: ${message.to}\n[EMAIL] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message as a JSON file so local setups can open invitation
+ * links without a mail server.
+ */
+export class FileEmailSender implements EmailSender {
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]+/gi, "_");
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeRecipient}.json`;
+    const payload = { ...message, sentAt: new Date().toISOString() };
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(payload, null, 2), "utf8");
+    console.log(`[EMAIL] Wrote message for ${message.to} to ${this.directory}`);
+  }
+}
+
+function createDefaultSender(): EmailSender {
+  const transport = (process.env.EMAIL_TRANSPORT ?? "console").toLowerCase();
+  if (transport === "file") {
+    return new FileEmailSender(process.env.EMAIL_OUTBOX_DIR ?? path.resolve(process.cwd(), "outbox"));
+  }
+  return new ConsoleEmailSender();
+}
+
+let activeSender: EmailSender = createDefaultSender();
+
+export function getEmailSender(): EmailSender {
+  return activeSender;
+}
+
+export function setEmailSender(sender: EmailSender): void {
+  activeSender = sender;
+}
@@ -1,7 +1,26 @@
 import { DataModel, DataObject, Attribute, DataModelObjectRelationship } from "@shared/schema";
+import {
+  buildConstraintName,
+  getSqlDialect,
+  renderCreateTable,
+  resolveColumnType,
+  resolveForeignKeySide,
+  type SqlDialect,
+  type SqlDialectName,
+} from "./sqlDialects";
+import {
+  buildSnapshotFromModel,
+  diffSchemas,
+  generateMigrationScript,
+  type SchemaSnapshot,
+} from "./schemaDiff";
+import { buildDbtScaffold, packDbtScaffold, type DbtScaffoldFile, type DbtScaffoldIdMap } from "./dbtScaffold";
+import { renderDbml, renderMermaidErDiagram, renderPlantUml, type DiagramInput } from "./diagramFormats";
+import { renderAvroSchema, renderJsonSchema, renderProtobuf, type ContractFieldCase, type ContractInput } from "./messageContracts";
+import { toSnakeCase } from "./dbtScaffold";
 
 export interface ExportOptions {
-  format: "json" | "sql_ddl" | "quicksql" | "png" | "pdf" | "svg" | "excel" | "csv" | "md" | "yaml";
+  format: "json" | "sql_ddl" | "migration_sql" | "quicksql" | "png" | "pdf" | "svg" | "excel" | "csv" | "md" | "yaml" | "dbt" | "dbml" | "mermaid" | "plantuml" | "json_schema" | "avro" | "protobuf";
   layer: "all" | "conceptual" | "logical" | "physical";
   includePrimaryKeys: boolean;
   includeForeignKeys: boolean;
@@ -16,6 +35,17 @@ export interface ExportOptions {
   quality?: "draft" | "standard" | "high";
   theme?: "light" | "dark" | "auto";
   style?: "minimal" | "detailed" | "professional";
+  sqlDialect?: SqlDialectName;
+  /** Schema the migration script starts from (required for "migration_sql"). */
+  migrationBaseline?: SchemaSnapshot;
+  allowDrop?: boolean;
+  /** Source the dbt scaffold declares the model's tables under. */
+  dbtSourceName?: string;
+  /** Layer-to-global id map the dbt scaffold resolves relationship ends through; without it no relationship tests are generated. */
+  dbtIdMap?: DbtScaffoldIdMap;
+  /** Avro namespace / Protobuf package / JSON Schema id for contract formats; defaults to the model name. */
+  contractNamespace?: string;
+  contractFieldCase?: ContractFieldCase;
 }
 
 export class ExportService {
@@ -31,6 +61,8 @@ export class ExportService {
         return this.exportToJSON(model, objects, attributes, relationships, options);
       case "sql_ddl":
         return this.exportToSQLDDL(model, objects, attributes, relationships, options);
+      case "migration_sql":
+        return this.exportToMigrationSQL(model, objects, attributes, relationships, options);
       case "quicksql":
         return this.exportToQuickSQL(model, objects, attributes, relationships, options);
       case "csv":
@@ -41,6 +73,20 @@ export class ExportService {
         return this.exportToYAML(model, objects, attributes, relationships, options);
       case "excel":
         return this.exportToExcel(model, objects, attributes, relationships, options);
+      case "dbt":
+        return this.exportToDbtPreview(model, objects, attributes, relationships, options);
+      case "dbml":
+        return renderDbml(this.buildDiagramInput(model, objects, attributes, relationships, options));
+      case "mermaid":
+        return renderMermaidErDiagram(this.buildDiagramInput(model, objects, attributes, relationships, options));
+      case "plantuml":
+        return renderPlantUml(this.buildDiagramInput(model, objects, attributes, relationships, options));
+      case "json_schema":
+        return renderJsonSchema(this.buildContractInput(model, objects, attributes, relationships, options));
+      case "avro":
+        return renderAvroSchema(this.buildContractInput(model, objects, attributes, relationships, options));
+      case "protobuf":
+        return renderProtobuf(this.buildContractInput(model, objects, attributes, relationships, options));
       case "png":
       case "pdf":
       case "svg":
@@ -87,6 +133,88 @@ export class ExportService {
     return JSON.stringify(modelData, null, 2);
   }
 
+  /**
+   * The dbt scaffold as a zip archive; the "dbt" format returns the same files as text for preview.
+   */
+  exportDbtArchive(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): Uint8Array {
+    return packDbtScaffold(model.name, this.buildDbtFiles(model, objects, attributes, relationships, options));
+  }
+
+  private async exportToDbtPreview(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): Promise<string> {
+    return this.buildDbtFiles(model, objects, attributes, relationships, options)
+      .map((file) => `# ==== ${file.path} ====\n${file.content}`)
+      .join("\n");
+  }
+
+  private buildDbtFiles(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): DbtScaffoldFile[] {
+    return buildDbtScaffold({
+      projectName: model.name,
+      sourceName: options.dbtSourceName?.trim() || model.name,
+      objects,
+      attributes,
+      relationships,
+      idMap: options.dbtIdMap ?? { modelObjects: [], modelAttributes: [] },
+      includeDescriptions: options.includeDescriptions,
+    });
+  }
+
+  private buildDiagramInput(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): DiagramInput {
+    return {
+      title: options.includeTitle ? model.name : undefined,
+      layer: options.layer,
+      objects,
+      attributes,
+      relationships,
+      includePrimaryKeys: options.includePrimaryKeys,
+      includeForeignKeys: options.includeForeignKeys,
+      includeDescriptions: options.includeDescriptions,
+    };
+  }
+
+  /** Contracts describe logical entities, so "all" resolves types from the logical layer. */
+  private buildContractInput(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): ContractInput {
+    return {
+      namespace: options.contractNamespace?.trim() || toSnakeCase(model.name),
+      fieldCase: options.contractFieldCase,
+      layer: options.layer === "all" ? "logical" : options.layer,
+      title: options.includeTitle ? model.name : undefined,
+      objects,
+      attributes,
+      relationships,
+      includeDescriptions: options.includeDescriptions,
+    };
+  }
+
   private async exportToSQLDDL(
     model: DataModel,
     objects: DataObject[],
@@ -94,30 +222,28 @@ export class ExportService {
   relationships: DataModelObjectRelationship[],
     options: ExportOptions
   ): Promise<string> {
+    const dialect = getSqlDialect(options.sqlDialect);
+
     let ddl = `-- Generated DDL for ${model.name}\n`;
     ddl += `-- Layer: ${options.layer}\n`;
-    ddl += `-- Generated on: ${new Date().toISOString()}\n\n`;
+    ddl += `-- Dialect: ${dialect.label}\n`;
+    if (options.includeTimestamp !== false) {
+      ddl += `-- Generated on: ${new Date().toISOString()}\n`;
+    }
+    ddl += "\n";
 
     // Create tables
     for (const obj of objects) {
-      ddl += this.generateCreateTable(obj, attributes, options);
+      ddl += this.generateCreateTable(obj, attributes, options, dialect);
       ddl += "\n\n";
     }
 
     // Add foreign key constraints
     if (options.includeForeignKeys) {
       for (const rel of relationships) {
-        if (rel.type === "1:N" && rel.sourceAttributeId && rel.targetAttributeId) {
-          const sourceObj = objects.find(o => o.id === rel.sourceModelObjectId);
-          const targetObj = objects.find(o => o.id === rel.targetModelObjectId);
-          const sourceAttr = attributes.find(a => a.id === rel.sourceAttributeId);
-          const targetAttr = attributes.find(a => a.id === rel.targetAttributeId);
-          
-          if (sourceObj && targetObj && sourceAttr && targetAttr) {
-            ddl += `ALTER TABLE ${sourceObj.name}\n`;
-            ddl += `ADD CONSTRAINT FK_${sourceObj.name}_${targetObj.name}\n`;
-            ddl += `FOREIGN KEY (${sourceAttr.name}) REFERENCES ${targetObj.name}(${targetAttr.name});\n\n`;
-          }
+        const foreignKey = this.buildForeignKeyStatement(rel, objects, attributes, dialect);
+        if (foreignKey) {
+          ddl += `${foreignKey}\n\n`;
         }
       }
     }
@@ -125,6 +251,62 @@ export class ExportService {
     return ddl;
   }
 
+  private async exportToMigrationSQL(
+    model: DataModel,
+    objects: DataObject[],
+    attributes: Attribute[],
+    relationships: DataModelObjectRelationship[],
+    options: ExportOptions
+  ): Promise<string> {
+    if (!options.migrationBaseline) {
+      throw new Error("A baseline layer or system is required for migration export");
+    }
+
+    const target = buildSnapshotFromModel(objects, attributes, relationships);
+    const diff = diffSchemas(options.migrationBaseline, target);
+    const script = generateMigrationScript(diff, getSqlDialect(options.sqlDialect), {
+      allowDrop: options.allowDrop,
+      title: `Migration for ${model.name}`,
+    });
+
+    return `${script.up}\n-- ==================== ROLLBACK ====================\n\n${script.down}`;
+  }
+
+  private buildForeignKeyStatement(
+    rel: DataModelObjectRelationship,
+    objects: DataObject[],
+    attributes: Attribute[],
+    dialect: SqlDialect
+  ): string | null {
+    const childSide = resolveForeignKeySide(rel.type);
+    if (!childSide || !rel.sourceAttributeId || !rel.targetAttributeId) {
+      return null;
+    }
+
+    const sourceObj = objects.find(o => o.id === rel.sourceModelObjectId);
+    const targetObj = objects.find(o => o.id === rel.targetModelObjectId);
+    const sourceAttr = attributes.find(a => a.id === rel.sourceAttributeId);
+    const targetAttr = attributes.find(a => a.id === rel.targetAttributeId);
+    if (!sourceObj || !targetObj || !sourceAttr || !targetAttr) {
+      return null;
+    }
+
+    const [child, childAttr, parent, parentAttr] =
+      childSide === "source"
+        ? [sourceObj, sourceAttr, targetObj, targetAttr]
+        : [targetObj, targetAttr, sourceObj, sourceAttr];
+
+    return dialect.foreignKeyStatement({
+      constraintName: rel.name && /^[A-Za-z_][A-Za-z0-9_]*$/.test(rel.name)
+        ? rel.name
+        : buildConstraintName("fk", child.name, parent.name, childAttr.name),
+      table: child.name,
+      columns: [childAttr.name],
+      referencedTable: parent.name,
+      referencedColumns: [parentAttr.name],
+    });
+  }
+
   private async exportToQuickSQL(
     model: DataModel,
     objects: DataObject[],
@@ -158,30 +340,29 @@ export class ExportService {
   private generateCreateTable(
     obj: DataObject,
     allAttributes: Attribute[],
-    options: ExportOptions
+    options: ExportOptions,
+    dialect: SqlDialect = getSqlDialect(options.sqlDialect)
   ): string {
-    const attributes = allAttributes.filter(attr => attr.objectId === obj.id);
-    let sql = `CREATE TABLE ${obj.name} (\n`;
-    
-    const columnDefinitions = attributes.map(attr => {
-      const type = this.getSQLType(attr, options);
-      const constraints = [];
-      
-      if (options.includePrimaryKeys && attr.isPrimaryKey) {
-        constraints.push("PRIMARY KEY");
-      }
-      
-      if (!attr.nullable) {
-        constraints.push("NOT NULL");
-      }
-      
-      return `  ${attr.name} ${type}${constraints.length > 0 ? ' ' + constraints.join(' ') : ''}`;
+    const attributes = allAttributes
+      .filter(attr => attr.objectId === obj.id)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+
+    return renderCreateTable(dialect, {
+      name: obj.name,
+      comment: options.includeDescriptions ? obj.description ?? null : null,
+      columns: attributes.map(attr => ({
+        name: attr.name,
+        type: resolveColumnType(attr, options.layer),
+        typeOverride: this.getSQLType(attr, options, dialect),
+        // Delta requires NOT NULL on key columns even though keys are informational
+        nullable: Boolean(attr.nullable) && !(attr.isPrimaryKey && options.includePrimaryKeys),
+        isPrimaryKey: Boolean(attr.isPrimaryKey),
+        comment: options.includeDescriptions ? attr.description ?? null : null,
+      })),
+      primaryKey: options.includePrimaryKeys
+        ? attributes.filter(attr => attr.isPrimaryKey).map(attr => attr.name)
+        : [],
     });
-    
-    sql += columnDefinitions.join(",\n");
-    sql += "\n);";
-    
-    return sql;
   }
 
   private formatAttributeForExport(attr: Attribute, options: ExportOptions) {
@@ -209,27 +390,22 @@ export class ExportService {
     return result;
   }
 
-  private getSQLType(attr: Attribute, options: ExportOptions): string {
-    if (options.layer === "physical" && attr.physicalType) {
-      return attr.physicalType;
-    }
-    
-    if (options.layer === "logical" && attr.logicalType) {
-      return attr.logicalType;
+  private getSQLType(
+    attr: Attribute,
+    options: ExportOptions,
+    dialect: SqlDialect = getSqlDialect(options.sqlDialect)
+  ): string {
+    // Generic DDL keeps the modeller's physical/logical type verbatim
+    if (dialect.name === "generic") {
+      if (options.layer === "physical" && attr.physicalType) {
+        return attr.physicalType;
+      }
+      if (options.layer === "logical" && attr.logicalType) {
+        return attr.logicalType;
+      }
     }
-    
-    // Fallback to conceptual type mapping
-    const typeMap: Record<string, string> = {
-      "Text": "VARCHAR(255)",
-      "Number": "INTEGER",
-      "Decimal": "DECIMAL(10,2)",
-      "Date": "DATE",
-      "DateTime": "TIMESTAMP",
-      "Boolean": "BOOLEAN",
-      "Currency": "DECIMAL(15,2)"
-    };
-    
-    return typeMap[attr.conceptualType || "Text"] || "VARCHAR(255)";
+
+    return dialect.renderType(resolveColumnType(attr, options.layer));
   }
 
   private getQuickSQLType(attr: Attribute, options: ExportOptions): string {
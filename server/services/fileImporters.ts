@@ -0,0 +1,303 @@
+import Database from "better-sqlite3";
+import { parquetMetadata, parquetReadObjects, parquetSchema, type SchemaElement, type SchemaTree } from "hyparquet";
+import readXlsxFile from "read-excel-file/node";
+import { applyProfiles, buildSampleQuery, DEFAULT_PROFILE_SAMPLE_ROWS, profileRows } from "./columnProfiler";
+import type { ColumnMetadata, ForeignKeyMetadata, TableMetadata } from "./dataConnectors";
+
+export interface FileImportOptions {
+  /** Attach column statistics computed from the first `sampleRowLimit` rows. */
+  profile?: boolean;
+  sampleRowLimit?: number;
+}
+
+type CellValue = string | number | boolean | Date | null;
+
+const isBlank = (value: CellValue | undefined) =>
+  value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+
+function inferCellType(values: CellValue[]): string {
+  const present = values.filter((value) => !isBlank(value));
+  if (present.length === 0) return "VARCHAR";
+  if (present.every((value) => typeof value === "boolean")) return "BOOLEAN";
+  if (present.every((value) => value instanceof Date)) {
+    const withTime = present.some((value) => {
+      const date = value as Date;
+      return date.getUTCHours() !== 0 || date.getUTCMinutes() !== 0 || date.getUTCSeconds() !== 0;
+    });
+    return withTime ? "TIMESTAMP" : "DATE";
+  }
+  if (present.every((value) => typeof value === "number")) {
+    return present.every((value) => Number.isInteger(value)) ? "INTEGER" : "DECIMAL";
+  }
+  return "VARCHAR";
+}
+
+/**
+ * One table per non-empty worksheet. The first row holds the column names and
+ * every following row is used for type and nullability inference.
+ */
+export async function readExcelWorkbook(fileBuffer: Buffer, options: FileImportOptions = {}): Promise<TableMetadata[]> {
+  const sheets = await readXlsxFile(fileBuffer);
+  const sampleRowLimit = options.sampleRowLimit ?? DEFAULT_PROFILE_SAMPLE_ROWS;
+
+  return sheets
+    .filter(({ data }) => data.length > 0)
+    .map(({ sheet, data }) => {
+      const [header, ...rows] = data as CellValue[][];
+      const width = Math.max(header.length, ...rows.map((row) => row.length));
+      const columns: ColumnMetadata[] = [];
+
+      for (let index = 0; index < width; index++) {
+        const values = rows.map((row) => row[index] ?? null);
+        const title = header[index];
+        // Skip trailing columns that carry neither a header nor data
+        if (isBlank(title) && values.every(isBlank)) continue;
+
+        const type = inferCellType(values);
+        const longest = values.reduce<number>(
+          (max, value) => (typeof value === "string" ? Math.max(max, value.length) : max),
+          0,
+        );
+        columns.push({
+          name: isBlank(title) ? `column_${index + 1}` : String(title).trim(),
+          type,
+          nullable: values.length === 0 || values.some(isBlank),
+          isPrimaryKey: false,
+          length: type === "VARCHAR" && longest > 0 ? longest : undefined,
+        });
+        if (options.profile) {
+          // Blank cells are the spreadsheet's nulls
+          const profile = profileRows(
+            values.slice(0, sampleRowLimit).map((value) => ({ value: isBlank(value) ? null : value })),
+            ["value"],
+          ).get("value");
+          columns[columns.length - 1].profile = profile;
+        }
+      }
+
+      return {
+        name: sheet,
+        columns,
+        rowCount: rows.filter((row) => !row.every(isBlank)).length,
+      };
+    });
+}
+
+const PARQUET_PHYSICAL_TYPES: Record<string, string> = {
+  BOOLEAN: "BOOLEAN",
+  INT32: "INTEGER",
+  INT64: "BIGINT",
+  INT96: "TIMESTAMP",
+  FLOAT: "FLOAT",
+  DOUBLE: "DOUBLE",
+  BYTE_ARRAY: "BINARY",
+  FIXED_LEN_BYTE_ARRAY: "BINARY",
+};
+
+// Legacy converted types, consulted when a writer did not emit a logical type
+const PARQUET_CONVERTED_TYPES: Record<string, string> = {
+  UTF8: "STRING",
+  ENUM: "STRING",
+  JSON: "JSON",
+  BSON: "BINARY",
+  DATE: "DATE",
+  TIME_MILLIS: "TIME",
+  TIME_MICROS: "TIME",
+  TIMESTAMP_MILLIS: "TIMESTAMP",
+  TIMESTAMP_MICROS: "TIMESTAMP",
+  INT_8: "TINYINT",
+  INT_16: "SMALLINT",
+  INT_32: "INTEGER",
+  INT_64: "BIGINT",
+  UINT_8: "SMALLINT",
+  UINT_16: "INTEGER",
+  UINT_32: "BIGINT",
+  UINT_64: "DECIMAL(20,0)",
+  INTERVAL: "INTERVAL",
+  LIST: "ARRAY",
+  MAP: "MAP",
+  MAP_KEY_VALUE: "MAP",
+};
+
+function parquetColumnType(element: SchemaElement, isGroup: boolean): string {
+  const logical = element.logical_type;
+  if (logical) {
+    switch (logical.type) {
+      case "STRING":
+      case "ENUM":
+        return "STRING";
+      case "DECIMAL":
+        return `DECIMAL(${logical.precision},${logical.scale})`;
+      case "INTEGER":
+        if (logical.bitWidth <= 8) return logical.isSigned ? "TINYINT" : "SMALLINT";
+        if (logical.bitWidth <= 16) return logical.isSigned ? "SMALLINT" : "INTEGER";
+        if (logical.bitWidth <= 32) return logical.isSigned ? "INTEGER" : "BIGINT";
+        return logical.isSigned ? "BIGINT" : "DECIMAL(20,0)";
+      case "TIMESTAMP":
+        return logical.isAdjustedToUTC ? "TIMESTAMP WITH TIME ZONE" : "TIMESTAMP";
+      case "LIST":
+        return "ARRAY";
+      case "FLOAT16":
+        return "FLOAT";
+      case "BSON":
+        return "BINARY";
+      case "VARIANT":
+        return "VARIANT";
+      default:
+        return logical.type;
+    }
+  }
+  if (element.converted_type === "DECIMAL") {
+    return `DECIMAL(${element.precision ?? 38},${element.scale ?? 0})`;
+  }
+  if (element.converted_type && PARQUET_CONVERTED_TYPES[element.converted_type]) {
+    return PARQUET_CONVERTED_TYPES[element.converted_type];
+  }
+  if (isGroup) return "STRUCT";
+  return (element.type && PARQUET_PHYSICAL_TYPES[element.type]) || "BINARY";
+}
+
+/**
+ * Reads only the file footer: top-level fields become columns (nested groups
+ * are reported as STRUCT/ARRAY/MAP) and the row count comes from the metadata.
+ */
+export function readParquetSchema(fileBuffer: Buffer, tableName: string): TableMetadata {
+  const arrayBuffer = fileBuffer.buffer.slice(
+    fileBuffer.byteOffset,
+    fileBuffer.byteOffset + fileBuffer.byteLength,
+  ) as ArrayBuffer;
+  const metadata = parquetMetadata(arrayBuffer);
+  const root = parquetSchema(metadata);
+
+  const columns = root.children.map(({ element, children }: SchemaTree): ColumnMetadata => ({
+    name: element.name,
+    type: parquetColumnType(element, children.length > 0),
+    nullable: element.repetition_type !== "REQUIRED",
+    isPrimaryKey: false,
+    length: element.type === "FIXED_LEN_BYTE_ARRAY" ? element.type_length : undefined,
+  }));
+
+  return {
+    name: tableName,
+    columns,
+    rowCount: Number(metadata.num_rows),
+  };
+}
+
+/** Profiles the first rows of a Parquet file's top-level columns; nested values are compared as JSON. */
+export async function profileParquetRows(
+  fileBuffer: Buffer,
+  table: TableMetadata,
+  sampleRowLimit = DEFAULT_PROFILE_SAMPLE_ROWS,
+): Promise<TableMetadata> {
+  const arrayBuffer = fileBuffer.buffer.slice(
+    fileBuffer.byteOffset,
+    fileBuffer.byteOffset + fileBuffer.byteLength,
+  ) as ArrayBuffer;
+  const columnNames = table.columns.map((column) => column.name);
+  const rows = await parquetReadObjects({ file: arrayBuffer, columns: columnNames, rowEnd: sampleRowLimit });
+  return applyProfiles(table, profileRows(rows, columnNames));
+}
+
+interface SQLiteColumnInfo {
+  name: string;
+  type: string;
+  notnull: number;
+  pk: number;
+}
+
+interface SQLiteForeignKeyInfo {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+const declaredLength = (type: string): number | undefined => {
+  const match = /\(\s*(\d+)/.exec(type);
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Full catalog of an uploaded SQLite database, opened in memory from the buffer. */
+export function readSQLiteCatalog(fileBuffer: Buffer, options: FileImportOptions = {}): TableMetadata[] {
+  const db = new Database(fileBuffer);
+  try {
+    const tableNames = db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+      )
+      .all()
+      .map((row) => (row as { name: string }).name);
+
+    const tableInfo = (table: string) =>
+      db.prepare("SELECT name, type, \"notnull\", pk FROM pragma_table_info(?) ORDER BY cid").all(table) as SQLiteColumnInfo[];
+
+    return tableNames.map((table) => {
+      const columns = tableInfo(table).map((column): ColumnMetadata => ({
+        name: column.name,
+        // Columns declared without a type have BLOB affinity
+        type: column.type ? column.type.toUpperCase() : "BLOB",
+        nullable: column.notnull === 0 && column.pk === 0,
+        isPrimaryKey: column.pk > 0,
+        length: declaredLength(column.type),
+      }));
+
+      const references = db
+        .prepare("SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq")
+        .all(table) as SQLiteForeignKeyInfo[];
+      const foreignKeys = new Map<number, ForeignKeyMetadata>();
+      references.forEach((reference) => {
+        let fk = foreignKeys.get(reference.id);
+        if (!fk) {
+          fk = {
+            // SQLite does not expose constraint names through the pragma
+            constraintName: `fk_${table}_${reference.id}`,
+            columns: [],
+            referencedTable: reference.table,
+            referencedColumns: [],
+            updateRule: reference.on_update,
+            deleteRule: reference.on_delete,
+            relationshipType: "N:1",
+          };
+          foreignKeys.set(reference.id, fk);
+        }
+        fk.columns.push(reference.from);
+        if (reference.to) {
+          fk.referencedColumns.push(reference.to);
+        }
+      });
+      // REFERENCES parent without a column list targets the parent's primary key
+      foreignKeys.forEach((fk) => {
+        if (fk.referencedColumns.length === 0) {
+          fk.referencedColumns = tableInfo(fk.referencedTable)
+            .filter((column) => column.pk > 0)
+            .sort((a, b) => a.pk - b.pk)
+            .map((column) => column.name);
+        }
+      });
+
+      const { count } = db.prepare(`SELECT COUNT(*) AS count FROM "${table.replace(/"/g, '""')}"`).get() as {
+        count: number;
+      };
+
+      const metadata: TableMetadata = {
+        name: table,
+        columns,
+        rowCount: count,
+        foreignKeys: Array.from(foreignKeys.values()),
+      };
+      if (options.profile && columns.length > 0) {
+        const sample = db
+          .prepare(buildSampleQuery("sqlite", metadata, options.sampleRowLimit ?? DEFAULT_PROFILE_SAMPLE_ROWS))
+          .all() as Record<string, unknown>[];
+        applyProfiles(metadata, profileRows(sample, columns.map((column) => column.name)));
+      }
+      return metadata;
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,215 @@
+import { randomBytes } from "crypto";
+import type { Invitation, Membership, User } from "@shared/schema";
+import { isOrganizationRole, organizationRoles } from "@shared/permissions";
+import { storage, type IStorage, type OrganizationMember } from "../storage";
+import { getEmailSender, type EmailSender } from "./emailSender";
+
+const INVITATION_TTL_DAYS = Number.parseInt(process.env.INVITATION_TTL_DAYS ?? "7", 10) || 7;
+
+/** Invitation as returned to clients; the token only travels by email. */
+export type InvitationSummary = Omit<Invitation, "token">;
+
+export interface InviteMemberInput {
+  email: string;
+  role: string;
+}
+
+/** Only the recipient gets the accept link, so an admin cannot join as the invitee. */
+export interface SentInvitation {
+  invitation: InvitationSummary;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function assertRole(role: string): void {
+  if (!isOrganizationRole(role)) {
+    throw new Error(`Role must be one of: ${organizationRoles.join(", ")}`);
+  }
+}
+
+export function toInvitationSummary({ token: _token, ...invitation }: Invitation): InvitationSummary {
+  return invitation;
+}
+
+export function buildAcceptUrl(baseUrl: string, token: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/auth/register?invite=${encodeURIComponent(token)}`;
+}
+
+export class InvitationService {
+  constructor(
+    private readonly store: IStorage,
+    private readonly resolveSender: () => EmailSender = getEmailSender,
+  ) {}
+
+  async listMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return await this.store.getOrganizationMembers(organizationId);
+  }
+
+  async listInvitations(organizationId: number): Promise<InvitationSummary[]> {
+    const invitations = await this.store.getPendingInvitations(organizationId);
+    return invitations.map(toInvitationSummary);
+  }
+
+  async inviteMember(
+    organizationId: number,
+    input: InviteMemberInput,
+    invitedByUserId: number,
+    baseUrl: string,
+  ): Promise<SentInvitation> {
+    const email = normalizeEmail(input.email);
+    assertRole(input.role);
+
+    const existingUser = await this.store.getUserByEmail(email);
+    if (existingUser && (await this.store.getMembership(organizationId, existingUser.id))) {
+      throw new Error(`A member with email ${email} already exists`);
+    }
+
+    const pending = await this.store.getPendingInvitations(organizationId);
+    if (pending.some((invitation) => invitation.email === email && !this.isExpired(invitation))) {
+      throw new Error(`An invitation for ${email} already exists`);
+    }
+
+    const invitation = await this.store.createInvitation({
+      organizationId,
+      email,
+      role: input.role,
+      token: this.generateToken(),
+      invitedByUserId,
+      accepted: false,
+      expiresAt: this.nextExpiry(),
+    });
+
+    return await this.deliver(invitation, baseUrl);
+  }
+
+  /** Issue a fresh token and expiry for a pending invitation and email it again. */
+  async resendInvitation(organizationId: number, invitationId: number, baseUrl: string): Promise<SentInvitation> {
+    const invitation = await this.store.getInvitation(organizationId, invitationId);
+    if (!invitation || invitation.accepted) {
+      throw new Error("Invitation not found");
+    }
+
+    const refreshed = await this.store.updateInvitation(invitation.id, {
+      token: this.generateToken(),
+      expiresAt: this.nextExpiry(),
+    });
+    return await this.deliver(refreshed, baseUrl);
+  }
+
+  async revokeInvitation(organizationId: number, invitationId: number): Promise<void> {
+    const invitation = await this.store.getInvitation(organizationId, invitationId);
+    if (!invitation || invitation.accepted) {
+      throw new Error("Invitation not found");
+    }
+    await this.store.deleteInvitation(invitation.id);
+  }
+
+  /** Look up a token that can still be accepted. */
+  async resolveInvitation(token: string): Promise<Invitation> {
+    const invitation = await this.store.getInvitationByToken(token);
+    if (!invitation || invitation.accepted || this.isExpired(invitation)) {
+      throw new Error("Invitation is invalid or has expired");
+    }
+    return invitation;
+  }
+
+  /**
+   * Accept an invitation for an existing account. The invited organization
+   * becomes the user's active organization.
+   */
+  async acceptInvitation(token: string, user: Pick<User, "id" | "email">): Promise<Membership> {
+    const invitation = await this.resolveInvitation(token);
+    if (normalizeEmail(user.email) !== invitation.email) {
+      throw new Error("Invitation must be accepted by the invited email address");
+    }
+
+    const membership =
+      (await this.store.getMembership(invitation.organizationId, user.id)) ??
+      (await this.store.createMembership({
+        organizationId: invitation.organizationId,
+        userId: user.id,
+        role: invitation.role,
+        invitedByUserId: invitation.invitedByUserId,
+      }));
+
+    await this.store.updateInvitation(invitation.id, { accepted: true });
+    await this.store.setUserActiveOrganization(user.id, invitation.organizationId);
+    return membership;
+  }
+
+  async changeMemberRole(organizationId: number, userId: number, role: string): Promise<Membership> {
+    assertRole(role);
+    const membership = await this.store.getMembership(organizationId, userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+    if (membership.role === "admin" && role !== "admin") {
+      await this.assertAnotherAdmin(organizationId, userId);
+    }
+
+    const updated = await this.store.updateMembershipRole(organizationId, userId, role);
+    if (!updated) {
+      throw new Error("Member not found");
+    }
+    return updated;
+  }
+
+  async removeMember(organizationId: number, userId: number): Promise<void> {
+    const membership = await this.store.getMembership(organizationId, userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+    if (membership.role === "admin") {
+      await this.assertAnotherAdmin(organizationId, userId);
+    }
+
+    // Sign-in falls back to another organization the user still belongs to
+    await this.store.deleteMembership(organizationId, userId);
+  }
+
+  private async assertAnotherAdmin(organizationId: number, userId: number): Promise<void> {
+    const members = await this.store.getOrganizationMembers(organizationId);
+    const otherAdmins = members.filter((member) => member.role === "admin" && member.userId !== userId);
+    if (otherAdmins.length === 0) {
+      throw new Error("At least one admin is required for the organization");
+    }
+  }
+
+  private async deliver(invitation: Invitation, baseUrl: string): Promise<SentInvitation> {
+    const organization = await this.store.getOrganization(invitation.organizationId);
+    const organizationName = organization?.name ?? "an organization";
+    const acceptUrl = buildAcceptUrl(baseUrl, invitation.token);
+    const lines = [
+      `You have been invited to join ${organizationName} as ${invitation.role}.`,
+      "",
+      `Create an account or sign in to accept: ${acceptUrl}`,
+    ];
+    if (invitation.expiresAt) {
+      lines.push(`The link expires on ${new Date(invitation.expiresAt).toDateString()}.`);
+    }
+
+    await this.resolveSender().send({
+      to: invitation.email,
+      subject: `You're invited to join ${organizationName}`,
+      text: lines.join("\n"),
+    });
+
+    return { invitation: toInvitationSummary(invitation) };
+  }
+
+  private isExpired(invitation: Invitation): boolean {
+    return Boolean(invitation.expiresAt && new Date(invitation.expiresAt).getTime() < Date.now());
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private generateToken(): string {
+    return randomBytes(32).toString("hex");
+  }
+}
+
+export const invitationService = new InvitationService(storage);
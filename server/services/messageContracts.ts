@@ -0,0 +1,398 @@
+import { toSnakeCase } from "./dbtScaffold";
+import { resolveColumnType, resolveForeignKeySide, type CanonicalType, type SqlColumnSource } from "./sqlDialects";
+
+/**
+ * Message contracts (JSON Schema, Avro, Protobuf) generated from model entities.
+ * Field types come from the canonical SQL type of the layer, with the conceptual
+ * type adding string formats such as email or URL. Each relationship adds a nested
+ * reference on the side that holds the foreign key; N:M adds a list on the source.
+ */
+
+export type ContractFieldCase = "preserve" | "camel" | "snake";
+
+export interface ContractObject {
+  id: number;
+  name: string;
+  description?: string | null;
+}
+
+export interface ContractAttribute extends SqlColumnSource {
+  id: number;
+  objectId: number;
+  orderIndex?: number | null;
+}
+
+export interface ContractRelationship {
+  sourceModelObjectId: number;
+  targetModelObjectId: number;
+  sourceAttributeId?: number | null;
+  targetAttributeId?: number | null;
+  type: string;
+}
+
+export interface ContractInput {
+  /** Avro namespace, Protobuf package and JSON Schema `$id`, e.g. `com.acme.sales`. */
+  namespace: string;
+  fieldCase?: ContractFieldCase;
+  layer?: "conceptual" | "logical" | "physical";
+  title?: string;
+  objects: ContractObject[];
+  attributes: ContractAttribute[];
+  relationships: ContractRelationship[];
+  includeDescriptions?: boolean;
+}
+
+interface ContractField {
+  name: string;
+  canonical: CanonicalType;
+  format: "email" | "uri" | null;
+  nullable: boolean;
+  description: string | null;
+  length: number | null;
+  precision: number | null;
+  scale: number | null;
+}
+
+interface ContractReference {
+  name: string;
+  targetId: number;
+  many: boolean;
+  nullable: boolean;
+}
+
+interface ContractRecord {
+  id: number;
+  name: string;
+  description: string | null;
+  fields: ContractField[];
+  references: ContractReference[];
+}
+
+const CONCEPTUAL_FORMATS: Record<string, "email" | "uri"> = { email: "email", url: "uri", uri: "uri" };
+
+const words = (name: string) => toSnakeCase(name).split("_").filter(Boolean);
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/** Record and message names are PascalCase in every format. */
+export function contractTypeName(name: string): string {
+  const pascal = words(name).map(capitalize).join("");
+  return /^[A-Za-z]/.test(pascal) ? pascal : `T${pascal}`;
+}
+
+export function contractFieldName(name: string, fieldCase: ContractFieldCase = "preserve"): string {
+  if (fieldCase === "snake") return toSnakeCase(name);
+  if (fieldCase === "camel") {
+    const [first = "field", ...rest] = words(name);
+    const camel = first + rest.map(capitalize).join("");
+    return /^[A-Za-z_]/.test(camel) ? camel : `_${camel}`;
+  }
+  const plain = name.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "") || "field";
+  return /^[A-Za-z_]/.test(plain) ? plain : `_${plain}`;
+}
+
+/** Namespaces are dotted identifiers; anything else is folded to snake_case segments. */
+export function contractNamespace(namespace: string): string {
+  const segments = namespace
+    .split(".")
+    .map((segment) => (segment.trim() ? toSnakeCase(segment) : ""))
+    .filter(Boolean);
+  return segments.length > 0 ? segments.join(".") : "model";
+}
+
+function buildRecords(input: ContractInput): ContractRecord[] {
+  const layer = input.layer ?? "logical";
+  const fieldCase = input.fieldCase ?? "preserve";
+  const describe = (text: string | null | undefined) =>
+    input.includeDescriptions === false || !text?.trim() ? null : text.trim();
+  const objectIds = new Set(input.objects.map((object) => object.id));
+  const attributesById = new Map(input.attributes.map((attribute) => [attribute.id, attribute]));
+
+  const records = input.objects.map<ContractRecord>((object) => ({
+    id: object.id,
+    name: contractTypeName(object.name),
+    description: describe(object.description),
+    fields: input.attributes
+      .filter((attribute) => attribute.objectId === object.id)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0))
+      .map((attribute) => {
+        const resolved = resolveColumnType(attribute, layer);
+        const conceptual = attribute.conceptualType?.trim().toLowerCase() ?? "";
+        return {
+          name: contractFieldName(attribute.name ?? "field", fieldCase),
+          canonical: resolved.canonical,
+          format: resolved.canonical === "string" || resolved.canonical === "text" ? CONCEPTUAL_FORMATS[conceptual] ?? null : null,
+          nullable: attribute.nullable !== false && !attribute.isPrimaryKey,
+          description: describe(attribute.description),
+          length: resolved.length ?? null,
+          precision: resolved.precision ?? null,
+          scale: resolved.scale ?? null,
+        };
+      }),
+    references: [],
+  }));
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+
+  input.relationships.forEach((relationship) => {
+    if (!objectIds.has(relationship.sourceModelObjectId) || !objectIds.has(relationship.targetModelObjectId)) return;
+    const side = resolveForeignKeySide(relationship.type);
+    const many = relationship.type === "N:M" || relationship.type === "M:N";
+    if (!side && !many) return;
+
+    const [holderId, targetId, keyAttributeId] =
+      side === "target"
+        ? [relationship.targetModelObjectId, relationship.sourceModelObjectId, relationship.targetAttributeId]
+        : [relationship.sourceModelObjectId, relationship.targetModelObjectId, relationship.sourceAttributeId];
+    const holder = recordsById.get(holderId)!;
+    const target = recordsById.get(targetId)!;
+    const keyAttribute = keyAttributeId ? attributesById.get(keyAttributeId) : undefined;
+
+    // customer_id -> customer; otherwise the referenced entity's name
+    const keyName = keyAttribute?.name ?? "";
+    const stem = keyName.replace(/[_\s]+id$/i, "").replace(/([a-z0-9])I[dD]$/, "$1");
+    const baseName = contractFieldName(!many && stem && stem !== keyName ? stem : target.name, fieldCase);
+    const pluralName = many && !/s$/i.test(baseName) ? `${baseName}s` : baseName;
+    const taken = new Set([...holder.fields.map((field) => field.name), ...holder.references.map((reference) => reference.name)]);
+    let name = pluralName;
+    for (let suffix = 1; taken.has(name); suffix++) {
+      name = suffix === 1 ? `${pluralName}${fieldCase === "snake" ? "_ref" : "Ref"}` : `${pluralName}${suffix}`;
+    }
+
+    holder.references.push({
+      name,
+      targetId: target.id,
+      many,
+      nullable: many ? false : keyAttribute ? keyAttribute.nullable !== false : true,
+    });
+  });
+
+  return records;
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schema (2020-12), one $defs entry per entity
+
+function jsonSchemaType(field: ContractField): Record<string, unknown> {
+  switch (field.canonical) {
+    case "smallint":
+    case "integer":
+    case "bigint":
+      return { type: "integer" };
+    case "decimal":
+    case "float":
+    case "double":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date" };
+    case "time":
+    case "timetz":
+      return { type: "string", format: "time" };
+    case "timestamp":
+    case "timestamptz":
+      return { type: "string", format: "date-time" };
+    case "uuid":
+      return { type: "string", format: "uuid" };
+    case "binary":
+      return { type: "string", contentEncoding: "base64" };
+    case "json":
+      return {};
+    default:
+      return {
+        type: "string",
+        ...(field.format ? { format: field.format } : {}),
+        ...(field.length ? { maxLength: field.length } : {}),
+      };
+  }
+}
+
+export function renderJsonSchema(input: ContractInput): string {
+  const records = buildRecords(input);
+  const namesById = new Map(records.map((record) => [record.id, record.name]));
+  const defs: Record<string, unknown> = {};
+
+  records.forEach((record) => {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    record.fields.forEach((field) => {
+      const schema = jsonSchemaType(field);
+      if (field.nullable && typeof schema.type === "string") schema.type = [schema.type, "null"];
+      if (field.description) schema.description = field.description;
+      properties[field.name] = schema;
+      if (!field.nullable) required.push(field.name);
+    });
+    record.references.forEach((reference) => {
+      const ref = { $ref: `#/$defs/${namesById.get(reference.targetId)}` };
+      if (reference.many) {
+        properties[reference.name] = { type: "array", items: ref };
+      } else {
+        properties[reference.name] = reference.nullable ? { anyOf: [ref, { type: "null" }] } : ref;
+        if (!reference.nullable) required.push(reference.name);
+      }
+    });
+
+    defs[record.name] = {
+      type: "object",
+      title: record.name,
+      ...(record.description ? { description: record.description } : {}),
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    };
+  });
+
+  return `${JSON.stringify(
+    {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $id: `urn:${contractNamespace(input.namespace)}`,
+      ...(input.title ? { title: input.title } : {}),
+      $defs: defs,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Avro: an array of named records. A record referenced before its own entry is
+// defined inline at first use and by full name afterwards, which also covers cycles.
+
+function avroType(field: ContractField): unknown {
+  switch (field.canonical) {
+    case "smallint":
+    case "integer":
+      return "int";
+    case "bigint":
+      return "long";
+    case "decimal":
+      return { type: "bytes", logicalType: "decimal", precision: field.precision ?? 18, scale: field.scale ?? 2 };
+    case "float":
+      return "float";
+    case "double":
+      return "double";
+    case "boolean":
+      return "boolean";
+    case "date":
+      return { type: "int", logicalType: "date" };
+    case "time":
+    case "timetz":
+      return { type: "int", logicalType: "time-millis" };
+    case "timestamp":
+    case "timestamptz":
+      return { type: "long", logicalType: "timestamp-millis" };
+    case "uuid":
+      return { type: "string", logicalType: "uuid" };
+    case "binary":
+      return "bytes";
+    default:
+      return "string";
+  }
+}
+
+export function renderAvroSchema(input: ContractInput): string {
+  const records = buildRecords(input);
+  const namespace = contractNamespace(input.namespace);
+  const recordsById = new Map(records.map((record) => [record.id, record]));
+  const defined = new Set<number>();
+
+  // Referenced records first, so most references are plain names
+  const ordered: ContractRecord[] = [];
+  const visiting = new Set<number>();
+  const visit = (record: ContractRecord) => {
+    if (ordered.includes(record) || visiting.has(record.id)) return;
+    visiting.add(record.id);
+    record.references.forEach((reference) => visit(recordsById.get(reference.targetId)!));
+    ordered.push(record);
+  };
+  records.forEach(visit);
+
+  const schemaFor = (record: ContractRecord): unknown => {
+    if (defined.has(record.id)) return `${namespace}.${record.name}`;
+    defined.add(record.id);
+    const fields: Record<string, unknown>[] = record.fields.map((field) => ({
+      name: field.name,
+      type: field.nullable ? ["null", avroType(field)] : avroType(field),
+      ...(field.nullable ? { default: null } : {}),
+      ...(field.description ? { doc: field.description } : {}),
+    }));
+    record.references.forEach((reference) => {
+      const target = schemaFor(recordsById.get(reference.targetId)!);
+      if (reference.many) fields.push({ name: reference.name, type: { type: "array", items: target }, default: [] });
+      else fields.push({ name: reference.name, type: reference.nullable ? ["null", target] : target, ...(reference.nullable ? { default: null } : {}) });
+    });
+    return {
+      type: "record",
+      name: record.name,
+      namespace,
+      ...(record.description ? { doc: record.description } : {}),
+      fields,
+    };
+  };
+
+  const schemas: unknown[] = [];
+  ordered.forEach((record) => {
+    if (!defined.has(record.id)) schemas.push(schemaFor(record));
+  });
+  return `${JSON.stringify(schemas, null, 2)}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Protobuf (proto3)
+
+const PROTO_SCALARS: Partial<Record<CanonicalType, string>> = {
+  smallint: "int32",
+  integer: "int32",
+  bigint: "int64",
+  float: "float",
+  double: "double",
+  boolean: "bool",
+  binary: "bytes",
+  timestamp: "google.protobuf.Timestamp",
+  timestamptz: "google.protobuf.Timestamp",
+  json: "google.protobuf.Value",
+};
+
+// proto3 has no decimal or calendar date; these travel as strings with a hint
+const PROTO_STRING_HINTS: Partial<Record<CanonicalType, string>> = {
+  date: "ISO-8601 date",
+  time: "ISO-8601 time",
+  timetz: "ISO-8601 time with offset",
+  uuid: "UUID",
+};
+
+const protoComment = (text: string, indent: string) => text.split(/\r?\n/).map((line) => `${indent}// ${line}`.trimEnd());
+
+export function renderProtobuf(input: ContractInput): string {
+  const records = buildRecords(input);
+  const namesById = new Map(records.map((record) => [record.id, record.name]));
+  const imports = new Set<string>();
+
+  const messages = records.map((record) => {
+    const lines: string[] = [];
+    if (record.description) lines.push(...protoComment(record.description, ""));
+    lines.push(`message ${record.name} {`);
+    let number = 1;
+    record.fields.forEach((field) => {
+      const type = PROTO_SCALARS[field.canonical] ?? "string";
+      if (type === "google.protobuf.Timestamp") imports.add("google/protobuf/timestamp.proto");
+      if (type === "google.protobuf.Value") imports.add("google/protobuf/struct.proto");
+      const hint =
+        field.canonical === "decimal"
+          ? `decimal(${field.precision ?? 18},${field.scale ?? 2})`
+          : PROTO_STRING_HINTS[field.canonical] ?? null;
+      if (field.description) lines.push(...protoComment(field.description, "  "));
+      // Message types always track presence; scalars need `optional`
+      const label = field.nullable && !type.startsWith("google.") ? "optional " : "";
+      lines.push(`  ${label}${type} ${field.name} = ${number++};${hint ? ` // ${hint}` : ""}`);
+    });
+    record.references.forEach((reference) => {
+      lines.push(`  ${reference.many ? "repeated " : ""}${namesById.get(reference.targetId)} ${reference.name} = ${number++};`);
+    });
+    lines.push("}");
+    return lines.join("\n");
+  });
+
+  const header = ['syntax = "proto3";', "", `package ${contractNamespace(input.namespace)};`];
+  if (imports.size > 0) header.push("", ...Array.from(imports).sort().map((path) => `import "${path}";`));
+  return `${[header.join("\n"), ...messages].join("\n\n")}\n`;
+}
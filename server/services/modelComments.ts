@@ -0,0 +1,179 @@
+import type { ModelComment, ModelCommentMention, ModelCommentThread } from "@shared/schema";
+import {
+  commentTargetKey,
+  resolveMentions,
+  type CommentTargetType,
+  type CommentThreadStatus,
+} from "@shared/comments";
+import { storage, type IStorage, type OrganizationMember } from "../storage";
+
+export interface CommentDetail extends ModelComment {
+  authorName: string;
+}
+
+export interface CommentThreadDetail extends ModelCommentThread {
+  /** `commentTargetKey` of the anchor, so clients can group threads per object, attribute or edge. */
+  targetKey: string;
+  createdByName: string | null;
+  resolvedByName: string | null;
+  comments: CommentDetail[];
+}
+
+export interface CreateThreadInput {
+  targetType: CommentTargetType;
+  targetId?: number | null;
+  body: string;
+}
+
+/** Who is writing: comments are attributed to the user, mentions resolve against their organization. */
+export interface CommentActor {
+  userId: number;
+  organizationId: number;
+}
+
+const memberName = (member: Pick<OrganizationMember, "name" | "email">) => member.name || member.email;
+
+export class ModelCommentService {
+  constructor(private readonly store: IStorage) {}
+
+  async listThreads(
+    layerId: number,
+    organizationId: number,
+    status?: CommentThreadStatus,
+  ): Promise<CommentThreadDetail[]> {
+    const layer = await this.store.getDataModelLayer(layerId);
+    if (!layer) {
+      throw new Error(`Model layer ${layerId} not found`);
+    }
+    const threads = await this.store.getCommentThreadsByLayer(layerId, status);
+    return await this.withComments(threads, organizationId);
+  }
+
+  async createThread(layerId: number, input: CreateThreadInput, actor: CommentActor): Promise<CommentThreadDetail> {
+    if (!input.body.trim()) {
+      throw new Error("Comment body is required");
+    }
+    const targetId = input.targetType === "layer" ? null : input.targetId ?? null;
+    await this.assertTarget(layerId, input.targetType, targetId);
+
+    const thread = await this.store.createCommentThread({
+      modelId: layerId,
+      targetType: input.targetType,
+      targetId,
+      status: "open",
+      createdByUserId: actor.userId,
+    });
+    await this.addComment(thread.id, input.body, actor);
+    return await this.getThread(thread.id, actor.organizationId);
+  }
+
+  async reply(threadId: number, body: string, actor: CommentActor): Promise<CommentThreadDetail> {
+    const thread = await this.store.getCommentThread(threadId);
+    if (!thread) {
+      throw new Error(`Comment thread ${threadId} not found`);
+    }
+    await this.addComment(thread.id, body, actor);
+    // Bump the thread so the review panel sorts it by latest activity
+    await this.store.updateCommentThread(thread.id, {});
+    return await this.getThread(thread.id, actor.organizationId);
+  }
+
+  async setStatus(threadId: number, status: CommentThreadStatus, actor: CommentActor): Promise<CommentThreadDetail> {
+    const thread = await this.store.getCommentThread(threadId);
+    if (!thread) {
+      throw new Error(`Comment thread ${threadId} not found`);
+    }
+    if (thread.status !== status) {
+      await this.store.updateCommentThread(
+        thread.id,
+        status === "resolved"
+          ? { status, resolvedByUserId: actor.userId, resolvedAt: new Date() }
+          : { status, resolvedByUserId: null, resolvedAt: null },
+      );
+    }
+    return await this.getThread(thread.id, actor.organizationId);
+  }
+
+  private async getThread(threadId: number, organizationId: number): Promise<CommentThreadDetail> {
+    const thread = await this.store.getCommentThread(threadId);
+    if (!thread) {
+      throw new Error(`Comment thread ${threadId} not found`);
+    }
+    const [detail] = await this.withComments([thread], organizationId);
+    return detail;
+  }
+
+  private async addComment(threadId: number, body: string, actor: CommentActor): Promise<ModelComment> {
+    const text = body.trim();
+    if (!text) {
+      throw new Error("Comment body is required");
+    }
+    const members = await this.store.getOrganizationMembers(actor.organizationId);
+    const mentions: ModelCommentMention[] = resolveMentions(text, members).map((member) => ({
+      userId: member.userId,
+      name: memberName(member),
+    }));
+    return await this.store.createComment({ threadId, authorUserId: actor.userId, body: text, mentions });
+  }
+
+  /** The anchor must be on the thread's layer; a thread on an object of another layer would never show up. */
+  private async assertTarget(layerId: number, targetType: CommentTargetType, targetId: number | null): Promise<void> {
+    if (targetType === "layer") {
+      if (!(await this.store.getDataModelLayer(layerId))) {
+        throw new Error(`Model layer ${layerId} not found`);
+      }
+      return;
+    }
+    if (targetId === null) {
+      throw new Error(`targetId is required for ${targetType} comments`);
+    }
+
+    let objectLayerId: number | undefined;
+    if (targetType === "object") {
+      objectLayerId = (await this.store.getDataModelObject(targetId))?.modelId;
+    } else if (targetType === "attribute") {
+      const attribute = await this.store.getDataModelObjectAttribute(targetId);
+      objectLayerId = attribute ? (await this.store.getDataModelObject(attribute.modelObjectId))?.modelId : undefined;
+    } else {
+      objectLayerId = (await this.store.getDataModelObjectRelationship(targetId))?.modelId;
+    }
+
+    if (objectLayerId !== layerId) {
+      const label = targetType.charAt(0).toUpperCase() + targetType.slice(1);
+      throw new Error(`${label} ${targetId} not found on model layer ${layerId}`);
+    }
+  }
+
+  private async withComments(threads: ModelCommentThread[], organizationId: number): Promise<CommentThreadDetail[]> {
+    if (threads.length === 0) {
+      return [];
+    }
+    const [comments, members] = await Promise.all([
+      this.store.getCommentsByThreads(threads.map((thread) => thread.id)),
+      this.store.getOrganizationMembers(organizationId),
+    ]);
+
+    const names = new Map<number, string>();
+    members.forEach((member) => names.set(member.userId, memberName(member)));
+    // Former members keep their comments; they just lose their name
+    const nameOf = (userId: number | null) =>
+      userId === null ? null : names.get(userId) ?? `User ${userId}`;
+
+    const byThread = new Map<number, CommentDetail[]>();
+    comments.forEach((comment) => {
+      const list = byThread.get(comment.threadId) ?? [];
+      list.push({ ...comment, authorName: nameOf(comment.authorUserId) ?? "Unknown" });
+      byThread.set(comment.threadId, list);
+    });
+
+    return threads.map((thread) => ({
+      ...thread,
+      targetKey: commentTargetKey(thread.targetType, thread.targetId),
+      createdByName: nameOf(thread.createdByUserId),
+      resolvedByName: nameOf(thread.resolvedByUserId),
+      comments: byThread.get(thread.id) ?? [],
+    }));
+  }
+}
+
+export const modelCommentService = new ModelCommentService(storage);
@@ -0,0 +1,301 @@
+import type {
+  InsertModelLifecyclePhase,
+  ModelLifecycleAssignment,
+  ModelLifecyclePhase,
+} from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+/** Phases every workspace starts with; `seed.ts` uses the same list. */
+export const DEFAULT_LIFECYCLE_PHASES: InsertModelLifecyclePhase[] = [
+  {
+    key: "ideate",
+    name: "Ideation",
+    description: "Gather business needs and outline desired outcomes",
+    sequence: 1,
+    defaultDurationDays: 10,
+    requiresApproval: false,
+  },
+  {
+    key: "design",
+    name: "Design",
+    description: "Author conceptual and logical representations with stakeholders",
+    sequence: 2,
+    defaultDurationDays: 30,
+    requiresApproval: true,
+  },
+  {
+    key: "build",
+    name: "Build",
+    description: "Implement physical models and integration patterns",
+    sequence: 3,
+    defaultDurationDays: 25,
+    requiresApproval: true,
+  },
+  {
+    key: "validate",
+    name: "Validate",
+    description: "Complete testing, data quality checks, and sign-offs",
+    sequence: 4,
+    defaultDurationDays: 15,
+    requiresApproval: true,
+  },
+  {
+    key: "deploy",
+    name: "Deploy",
+    description: "Promote to production and enable consumption pathways",
+    sequence: 5,
+    defaultDurationDays: 10,
+    requiresApproval: false,
+  },
+  {
+    key: "monitor",
+    name: "Monitor",
+    description: "Track adoption, SLAs, and identify optimization opportunities",
+    sequence: 6,
+    defaultDurationDays: 30,
+    requiresApproval: false,
+  },
+];
+
+// Assignment.status: the phase a model is in is the latest assignment that is still open
+export const OPEN_LIFECYCLE_STATUSES = ["in_progress", "in_review"] as const;
+// Assignment.approvalStatus for phases with requiresApproval; other phases use "not_required"
+export type LifecycleApprovalStatus = "not_required" | "pending" | "approved" | "rejected";
+export type LifecycleDecision = "approved" | "rejected";
+
+export interface LifecycleAssignmentDetail extends ModelLifecycleAssignment {
+  phase: ModelLifecyclePhase | null;
+  isOverdue: boolean;
+}
+
+export interface ModelLifecycleState {
+  modelId: number;
+  current: LifecycleAssignmentDetail | null;
+  nextPhase: ModelLifecyclePhase | null;
+  /** Why the model cannot move to the next phase yet, if it cannot. */
+  blockedReason: string | null;
+  history: LifecycleAssignmentDetail[];
+}
+
+export interface TransitionInput {
+  /** Target phase; defaults to the phase after the current one. */
+  phaseId?: number | null;
+  notes?: string | null;
+}
+
+function isOpen(assignment: ModelLifecycleAssignment): boolean {
+  return (OPEN_LIFECYCLE_STATUSES as readonly string[]).includes(assignment.status ?? "");
+}
+
+function appendNote(existing: string | null, author: string, note?: string | null): string | null {
+  const text = note?.trim();
+  if (!text) {
+    return existing;
+  }
+  const entry = `[${new Date().toISOString().slice(0, 10)}] ${author}: ${text}`;
+  return existing ? `${existing}\n${entry}` : entry;
+}
+
+export class ModelLifecycleService {
+  constructor(private readonly store: IStorage) {}
+
+  /** Active phases in order, seeding the defaults the first time. */
+  async listPhases(): Promise<ModelLifecyclePhase[]> {
+    const phases = await this.store.getLifecyclePhases();
+    if (phases.length > 0) {
+      return phases;
+    }
+    await this.store.createLifecyclePhases(DEFAULT_LIFECYCLE_PHASES);
+    return await this.store.getLifecyclePhases();
+  }
+
+  async getModelLifecycle(dataModelId: number): Promise<ModelLifecycleState> {
+    const model = await this.store.getDataModel(dataModelId);
+    if (!model) {
+      throw new Error(`Data model ${dataModelId} not found`);
+    }
+    const [phases, assignments] = await Promise.all([
+      this.listPhases(),
+      this.store.getModelLifecycleAssignments(dataModelId),
+    ]);
+    return this.buildState(dataModelId, phases, assignments);
+  }
+
+  /** Current lifecycle state of every model in the organization that has entered the lifecycle. */
+  async listModelLifecycles(): Promise<ModelLifecycleState[]> {
+    const [phases, assignments] = await Promise.all([
+      this.listPhases(),
+      this.store.getModelLifecycleAssignments(),
+    ]);
+
+    const byModel = new Map<number, ModelLifecycleAssignment[]>();
+    assignments.forEach((assignment) => {
+      const list = byModel.get(assignment.modelId) ?? [];
+      list.push(assignment);
+      byModel.set(assignment.modelId, list);
+    });
+
+    return Array.from(byModel.entries()).map(([modelId, modelAssignments]) =>
+      this.buildState(modelId, phases, modelAssignments),
+    );
+  }
+
+  /**
+   * Move a model into another phase. Moving forward only goes to the next
+   * phase, so no sign-off can be skipped, and is blocked until the current
+   * phase's approval has been granted; moving back (rework) is always allowed.
+   */
+  async transition(dataModelId: number, input: TransitionInput, actorUserId: number): Promise<ModelLifecycleState> {
+    const state = await this.getModelLifecycle(dataModelId);
+    const phases = await this.listPhases();
+    const actor = await this.actorName(actorUserId);
+    const current = state.current;
+
+    let target: ModelLifecyclePhase | null;
+    if (input.phaseId != null) {
+      target = phases.find((phase) => phase.id === input.phaseId) ?? null;
+      if (!target) {
+        throw new Error(`Lifecycle phase ${input.phaseId} not found`);
+      }
+    } else {
+      target = state.nextPhase;
+      if (!target) {
+        throw new Error("A target phase is required; the model is already in the final phase");
+      }
+    }
+
+    if (current && current.phaseId === target.id) {
+      throw new Error(`Target phase must be different from the current ${target.name} phase`);
+    }
+
+    const movingForward = !current?.phase || (target.sequence ?? 0) > (current.phase.sequence ?? 0);
+    if (movingForward && state.nextPhase && target.id !== state.nextPhase.id) {
+      throw new Error(`Target phase must be ${state.nextPhase.name}; phases cannot be skipped`);
+    }
+    if (current && movingForward) {
+      const reason = this.approvalBlocker(current);
+      if (reason) {
+        throw new Error(reason);
+      }
+    }
+
+    const now = new Date();
+    if (current) {
+      await this.store.updateModelLifecycleAssignment(current.id, {
+        status: movingForward ? "completed" : "returned",
+        completedAt: now,
+        notes: appendNote(current.notes, actor, movingForward ? null : `Returned to ${target.name}`),
+      });
+    }
+
+    await this.store.createModelLifecycleAssignment({
+      modelId: dataModelId,
+      phaseId: target.id,
+      status: "in_progress",
+      approvalStatus: target.requiresApproval ? "pending" : "not_required",
+      startedAt: now,
+      nextReviewAt: target.defaultDurationDays
+        ? new Date(now.getTime() + target.defaultDurationDays * 24 * 60 * 60 * 1000)
+        : null,
+      notes: appendNote(null, actor, input.notes),
+    });
+
+    return await this.getModelLifecycle(dataModelId);
+  }
+
+  /** Ask approvers to sign off the current phase. */
+  async requestApproval(dataModelId: number, notes: string | null | undefined, actorUserId: number): Promise<ModelLifecycleState> {
+    const current = await this.requireCurrent(dataModelId);
+    if (!current.phase?.requiresApproval) {
+      throw new Error(`Approval is not required for the ${current.phase?.name ?? "current"} phase`);
+    }
+    if (current.approvalStatus === "approved") {
+      throw new Error(`Approval already exists for the ${current.phase.name} phase`);
+    }
+
+    await this.store.updateModelLifecycleAssignment(current.id, {
+      status: "in_review",
+      approvalStatus: "pending",
+      approvalRequestedBy: actorUserId,
+      notes: appendNote(current.notes, await this.actorName(actorUserId), notes ?? "Requested approval"),
+    });
+    return await this.getModelLifecycle(dataModelId);
+  }
+
+  /** Record an approver's decision on a requested sign-off. */
+  async recordDecision(
+    dataModelId: number,
+    decision: LifecycleDecision,
+    notes: string | null | undefined,
+    reviewerUserId: number,
+  ): Promise<ModelLifecycleState> {
+    const current = await this.requireCurrent(dataModelId);
+    if (current.status !== "in_review") {
+      throw new Error("Approval must be requested before a decision is recorded");
+    }
+    if (current.approvalRequestedBy === reviewerUserId) {
+      throw new Error("Approval must be decided by someone other than the requester");
+    }
+
+    const reviewer = await this.actorName(reviewerUserId);
+    await this.store.updateModelLifecycleAssignment(current.id, {
+      status: "in_progress",
+      approvalStatus: decision,
+      approvedBy: decision === "approved" ? reviewer : null,
+      notes: appendNote(current.notes, reviewer, notes ?? (decision === "approved" ? "Approved" : "Rejected")),
+    });
+    return await this.getModelLifecycle(dataModelId);
+  }
+
+  private async requireCurrent(dataModelId: number): Promise<LifecycleAssignmentDetail> {
+    const state = await this.getModelLifecycle(dataModelId);
+    if (!state.current) {
+      throw new Error("Model has no current lifecycle phase; a transition is required first");
+    }
+    return state.current;
+  }
+
+  private approvalBlocker(assignment: LifecycleAssignmentDetail): string | null {
+    if (!assignment.phase?.requiresApproval || assignment.approvalStatus === "approved") {
+      return null;
+    }
+    return `Approval is required before leaving the ${assignment.phase.name} phase`;
+  }
+
+  private buildState(
+    modelId: number,
+    phases: ModelLifecyclePhase[],
+    assignments: ModelLifecycleAssignment[],
+  ): ModelLifecycleState {
+    const now = Date.now();
+    const phaseById = new Map(phases.map((phase) => [phase.id, phase]));
+    const history = assignments.map<LifecycleAssignmentDetail>((assignment) => ({
+      ...assignment,
+      phase: phaseById.get(assignment.phaseId) ?? null,
+      isOverdue: Boolean(
+        isOpen(assignment) && assignment.nextReviewAt && new Date(assignment.nextReviewAt).getTime() < now,
+      ),
+    }));
+
+    const current = [...history].reverse().find(isOpen) ?? null;
+    const currentSequence = current?.phase?.sequence;
+    const nextPhase = current
+      ? phases.find((phase) => (phase.sequence ?? 0) > (currentSequence ?? 0)) ?? null
+      : phases[0] ?? null;
+
+    return {
+      modelId,
+      current,
+      nextPhase,
+      blockedReason: current ? this.approvalBlocker(current) : null,
+      history,
+    };
+  }
+
+  private async actorName(userId: number): Promise<string> {
+    const user = await this.store.getUser(userId);
+    return user?.name || user?.email || `User ${userId}`;
+  }
+}
+
+export const modelLifecycleService = new ModelLifecycleService(storage);
@@ -0,0 +1,270 @@
+import type { DataModelVersion, DataModelVersionTag, ModelVersionSnapshot } from "@shared/schema";
+import { storage, type IStorage, type ModelVersionListing } from "../storage";
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface EntityChange {
+  id: number;
+  label: string;
+  changes?: FieldChange[];
+}
+
+export interface EntityChangeSet {
+  added: EntityChange[];
+  removed: EntityChange[];
+  changed: EntityChange[];
+}
+
+export interface ModelVersionDiff {
+  summary: { added: number; removed: number; changed: number };
+  layers: EntityChangeSet;
+  objects: EntityChangeSet;
+  attributes: EntityChangeSet;
+  relationships: EntityChangeSet;
+  properties: EntityChangeSet;
+}
+
+export type ModelVersionSummary = ModelVersionListing & {
+  tags: DataModelVersionTag[];
+};
+
+export interface CreateVersionInput {
+  name?: string | null;
+  description?: string | null;
+  tag?: string | null;
+}
+
+// Bookkeeping and canvas layout fields; moving a box is not a model change
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt", "position"]);
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value ?? null;
+}
+
+function compareRows(from: Record<string, any>, to: Record<string, any>): FieldChange[] {
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) {
+      return;
+    }
+    const before = normalize(from[field]);
+    const after = normalize(to[field]);
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  });
+  return changes;
+}
+
+function diffRows<T extends { id: number }>(
+  from: T[],
+  to: T[],
+  label: (row: T) => string,
+): EntityChangeSet {
+  const fromById = new Map<number, T>(from.map((row) => [row.id, row]));
+  const toById = new Map<number, T>(to.map((row) => [row.id, row]));
+
+  const result: EntityChangeSet = { added: [], removed: [], changed: [] };
+
+  for (const row of to) {
+    if (!fromById.has(row.id)) {
+      result.added.push({ id: row.id, label: label(row) });
+    }
+  }
+
+  for (const row of from) {
+    const next = toById.get(row.id);
+    if (!next) {
+      result.removed.push({ id: row.id, label: label(row) });
+      continue;
+    }
+    const changes = compareRows(row, next);
+    if (changes.length > 0) {
+      result.changed.push({ id: row.id, label: label(next), changes });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare two family snapshots entity by entity. Rows are matched on id,
+ * which is stable across restores because restore re-inserts original ids.
+ */
+export function diffModelSnapshots(from: ModelVersionSnapshot, to: ModelVersionSnapshot): ModelVersionDiff {
+  const objectNames = new Map<number, string>();
+  for (const object of [...from.objects, ...to.objects]) {
+    objectNames.set(object.id, object.name ?? `Object ${object.id}`);
+  }
+  const layerNames = new Map<number, string>();
+  for (const layer of [...from.layers, ...to.layers]) {
+    layerNames.set(layer.id, layer.name);
+  }
+
+  const layers = diffRows(from.layers, to.layers, (layer) => `${layer.name} (${layer.layer})`);
+  const objects = diffRows(
+    from.objects,
+    to.objects,
+    (object) => `${layerNames.get(object.modelId) ?? "Layer"} / ${object.name ?? `Object ${object.id}`}`,
+  );
+  const attributes = diffRows(
+    from.attributes,
+    to.attributes,
+    (attribute) => `${objectNames.get(attribute.modelObjectId) ?? "Object"}.${attribute.name ?? `Attribute ${attribute.id}`}`,
+  );
+  const relationships = diffRows(
+    from.relationships,
+    to.relationships,
+    (relationship) =>
+      `${objectNames.get(relationship.sourceModelObjectId) ?? "?"} → ${objectNames.get(relationship.targetModelObjectId) ?? "?"} (${relationship.type})`,
+  );
+  const properties = diffRows(
+    from.properties,
+    to.properties,
+    (property) => `${property.entityType} ${property.entityId}: ${property.propertyName}`,
+  );
+
+  const sets = [layers, objects, attributes, relationships, properties];
+  return {
+    summary: {
+      added: sets.reduce((total, set) => total + set.added.length, 0),
+      removed: sets.reduce((total, set) => total + set.removed.length, 0),
+      changed: sets.reduce((total, set) => total + set.changed.length, 0),
+    },
+    layers,
+    objects,
+    attributes,
+    relationships,
+    properties,
+  };
+}
+
+export class ModelVersioningService {
+  constructor(private readonly store: IStorage) {}
+
+  async listVersions(dataModelId: number): Promise<ModelVersionSummary[]> {
+    const [versions, tags] = await Promise.all([
+      this.store.getModelVersionsByModel(dataModelId),
+      this.store.getModelVersionTagsByModel(dataModelId),
+    ]);
+
+    return versions.map((version) => ({
+      ...version,
+      tags: tags.filter((tag) => tag.versionId === version.id),
+    }));
+  }
+
+  async getVersion(versionId: number): Promise<DataModelVersion> {
+    const version = await this.store.getModelVersion(versionId);
+    if (!version) {
+      throw new Error("Model version not found");
+    }
+    return version;
+  }
+
+  async createVersion(
+    dataModelId: number,
+    input: CreateVersionInput,
+    userId?: number | null,
+  ): Promise<DataModelVersion> {
+    const snapshot = await this.store.captureModelFamilySnapshot(dataModelId);
+    const existing = await this.store.getModelVersionsByModel(dataModelId);
+    const versionNumber = existing.reduce((max, version) => Math.max(max, version.versionNumber), 0) + 1;
+
+    const version = await this.store.createModelVersion({
+      dataModelId,
+      versionNumber,
+      name: input.name?.trim() || `Version ${versionNumber}`,
+      description: input.description ?? null,
+      snapshot,
+      createdByUserId: userId ?? null,
+    });
+
+    if (input.tag?.trim()) {
+      await this.tagVersion(version.id, input.tag, userId);
+    }
+
+    return version;
+  }
+
+  async tagVersion(versionId: number, name: string, userId?: number | null): Promise<DataModelVersionTag> {
+    const version = await this.getVersion(versionId);
+    const tagName = name.trim();
+    if (!tagName) {
+      throw new Error("Tag name is required");
+    }
+
+    const tags = await this.store.getModelVersionTagsByModel(version.dataModelId);
+    if (tags.some((tag) => tag.name.toLowerCase() === tagName.toLowerCase())) {
+      throw new Error(`Tag "${tagName}" already exists for this model`);
+    }
+
+    return await this.store.createModelVersionTag({
+      versionId,
+      dataModelId: version.dataModelId,
+      name: tagName,
+      createdByUserId: userId ?? null,
+    });
+  }
+
+  async removeTag(tagId: number): Promise<void> {
+    const tag = await this.store.getModelVersionTag(tagId);
+    if (!tag) {
+      throw new Error("Version tag not found");
+    }
+    await this.store.deleteModelVersionTag(tagId);
+  }
+
+  /**
+   * Diff two versions of the same model. Pass `"current"` as the target to
+   * compare a version with the live model.
+   */
+  async diffVersions(fromVersionId: number, toVersionId: number | "current"): Promise<ModelVersionDiff> {
+    const from = await this.getVersion(fromVersionId);
+
+    if (toVersionId === "current") {
+      const live = await this.store.captureModelFamilySnapshot(from.dataModelId);
+      return diffModelSnapshots(from.snapshot, live);
+    }
+
+    const to = await this.getVersion(toVersionId);
+    if (to.dataModelId !== from.dataModelId) {
+      throw new Error("Both versions must be from the same model");
+    }
+    return diffModelSnapshots(from.snapshot, to.snapshot);
+  }
+
+  /**
+   * Restore a version into the live tables. The current state is captured
+   * as a new version first so a restore can itself be undone.
+   */
+  async restoreVersion(
+    versionId: number,
+    userId?: number | null,
+  ): Promise<{ restored: DataModelVersion; backup: DataModelVersion }> {
+    const version = await this.getVersion(versionId);
+
+    const backup = await this.createVersion(
+      version.dataModelId,
+      {
+        name: `Before restore of version ${version.versionNumber}`,
+        description: `Automatic snapshot taken before restoring "${version.name ?? `Version ${version.versionNumber}`}"`,
+      },
+      userId,
+    );
+
+    await this.store.restoreModelFamilySnapshot(version.dataModelId, version.snapshot);
+
+    return { restored: version, backup };
+  }
+}
+
+export const modelVersioningService = new ModelVersioningService(storage);
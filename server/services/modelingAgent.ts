@@ -14,6 +14,7 @@ import {
 } from "@shared/schema";
 import { storage } from "../storage";
 import { ExportService } from "./exportService";
+import { resolveDialectName } from "./sqlDialects";
 
 type LayerName = "flow" | "conceptual" | "logical" | "physical";
 type DiffLayer = LayerName | "all";
@@ -1689,25 +1690,6 @@ class ModelingAgentService {
     const attributes = physical.entities.flatMap((entity) => entity.attributes);
     const relationships = physical.relationships;
 
-    const sql = await this.exportService.exportModel(
-      physical.model,
-      objects,
-      attributes,
-      relationships,
-      {
-        format: "sql_ddl",
-        layer: "physical",
-        includePrimaryKeys: true,
-        includeForeignKeys: true,
-        includeConstraints: true,
-        includeMetadata: false,
-        includeDescriptions: true,
-        includeLegend: false,
-        includeTitle: false,
-        includeTimestamp: false,
-      },
-    );
-
     const platforms = input.sqlPlatforms?.length
       ? input.sqlPlatforms
       : input.targetDatabase
@@ -1716,7 +1698,25 @@ class ModelingAgentService {
 
     const result: Record<string, string> = {};
     for (const platform of platforms) {
-      result[platform.toLowerCase()] = sql;
+      result[platform.toLowerCase()] = await this.exportService.exportModel(
+        physical.model,
+        objects,
+        attributes,
+        relationships,
+        {
+          format: "sql_ddl",
+          layer: "physical",
+          includePrimaryKeys: true,
+          includeForeignKeys: true,
+          includeConstraints: true,
+          includeMetadata: false,
+          includeDescriptions: true,
+          includeLegend: false,
+          includeTitle: false,
+          includeTimestamp: false,
+          sqlDialect: resolveDialectName(platform) ?? "generic",
+        },
+      );
     }
 
     return result;
@@ -0,0 +1,503 @@
+import type { TableMetadata } from "./dataConnectors";
+import {
+  buildConstraintName,
+  renderColumnDefinition,
+  renderColumnType,
+  renderCreateTable,
+  resolveColumnType,
+  resolveForeignKeySide,
+  type ColumnDefinition,
+  type SqlColumnSource,
+  type SqlDialect,
+  type TableDefinition,
+} from "./sqlDialects";
+
+export interface SnapshotForeignKey {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface SnapshotTable extends TableDefinition {
+  foreignKeys: SnapshotForeignKey[];
+  /** Introspected name of the primary key constraint; model snapshots use the generated `pk_<table>`. */
+  primaryKeyName?: string | null;
+}
+
+/** Dialect-neutral picture of a physical schema, from a model layer or a live system. */
+export interface SchemaSnapshot {
+  tables: SnapshotTable[];
+}
+
+export interface ColumnChange {
+  column: string;
+  from: ColumnDefinition;
+  to: ColumnDefinition;
+  typeChanged: boolean;
+  nullabilityChanged: boolean;
+}
+
+export interface TableDiff {
+  table: string;
+  addedColumns: ColumnDefinition[];
+  droppedColumns: ColumnDefinition[];
+  changedColumns: ColumnChange[];
+  primaryKeyChange?: { from: string[]; to: string[]; fromName?: string | null; toName?: string | null };
+  addedForeignKeys: SnapshotForeignKey[];
+  droppedForeignKeys: SnapshotForeignKey[];
+  /** Unchanged foreign keys of other tables that reference this one; they block the primary key change. */
+  dependentForeignKeys?: { table: string; fk: SnapshotForeignKey }[];
+}
+
+export interface SchemaDiff {
+  addedTables: SnapshotTable[];
+  droppedTables: SnapshotTable[];
+  changedTables: TableDiff[];
+}
+
+export interface MigrationScript {
+  up: string;
+  down: string;
+  warnings: string[];
+}
+
+export interface MigrationOptions {
+  /** When false, dropped tables and columns are reported as warnings instead of scripted. */
+  allowDrop?: boolean;
+  title?: string;
+}
+
+interface ModelSnapshotObject {
+  id: number;
+  name: string | null;
+  description?: string | null;
+}
+
+interface ModelSnapshotAttribute extends SqlColumnSource {
+  id: number;
+  objectId: number;
+  orderIndex?: number | null;
+}
+
+interface ModelSnapshotRelationship {
+  type: string;
+  name?: string | null;
+  sourceModelObjectId: number;
+  targetModelObjectId: number;
+  sourceAttributeId: number | null;
+  targetAttributeId: number | null;
+}
+
+const key = (value: string) => value.toLowerCase();
+
+/**
+ * Builds a snapshot from model objects, their attributes and attribute-level
+ * relationships. Relationships become foreign keys on the child side.
+ */
+export function buildSnapshotFromModel(
+  objects: ModelSnapshotObject[],
+  attributes: ModelSnapshotAttribute[],
+  relationships: ModelSnapshotRelationship[],
+): SchemaSnapshot {
+  const tablesById = new Map<number, SnapshotTable>();
+  const attributesById = new Map(attributes.map((attribute) => [attribute.id, attribute]));
+
+  for (const object of objects) {
+    if (!object.name) {
+      continue;
+    }
+    const objectAttributes = attributes
+      .filter((attribute) => attribute.objectId === object.id && attribute.name)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+
+    tablesById.set(object.id, {
+      name: object.name,
+      comment: object.description ?? null,
+      columns: objectAttributes.map((attribute) => ({
+        name: attribute.name!,
+        type: resolveColumnType(attribute, "physical"),
+        nullable: attribute.nullable !== false && !attribute.isPrimaryKey,
+        isPrimaryKey: Boolean(attribute.isPrimaryKey),
+        comment: attribute.description ?? null,
+      })),
+      primaryKey: objectAttributes.filter((attribute) => attribute.isPrimaryKey).map((attribute) => attribute.name!),
+      foreignKeys: [],
+    });
+  }
+
+  for (const relationship of relationships) {
+    const childSide = resolveForeignKeySide(relationship.type);
+    if (!childSide || !relationship.sourceAttributeId || !relationship.targetAttributeId) {
+      continue;
+    }
+    const source = tablesById.get(relationship.sourceModelObjectId);
+    const target = tablesById.get(relationship.targetModelObjectId);
+    const sourceAttribute = attributesById.get(relationship.sourceAttributeId);
+    const targetAttribute = attributesById.get(relationship.targetAttributeId);
+    if (!source || !target || !sourceAttribute?.name || !targetAttribute?.name) {
+      continue;
+    }
+
+    const [child, childColumn, parent, parentColumn] =
+      childSide === "source"
+        ? [source, sourceAttribute.name, target, targetAttribute.name]
+        : [target, targetAttribute.name, source, sourceAttribute.name];
+
+    child.foreignKeys.push({
+      name:
+        relationship.name && /^[A-Za-z_][A-Za-z0-9_]*$/.test(relationship.name)
+          ? relationship.name
+          : buildConstraintName("fk", child.name, parent.name, childColumn),
+      columns: [childColumn],
+      referencedTable: parent.name,
+      referencedColumns: [parentColumn],
+    });
+  }
+
+  return { tables: Array.from(tablesById.values()) };
+}
+
+/** Builds a snapshot from catalog metadata returned by the data connectors. */
+export function buildSnapshotFromMetadata(tables: TableMetadata[]): SchemaSnapshot {
+  return {
+    tables: tables.map((table) => ({
+      name: table.name,
+      comment: null,
+      columns: table.columns.map((column) => ({
+        name: column.name,
+        type: resolveColumnType({ name: column.name, physicalType: column.type, length: column.length ?? null }),
+        nullable: column.nullable,
+        isPrimaryKey: column.isPrimaryKey,
+      })),
+      primaryKey: table.columns.filter((column) => column.isPrimaryKey).map((column) => column.name),
+      primaryKeyName: table.primaryKeyName ?? null,
+      foreignKeys: (table.foreignKeys ?? []).map((fk) => ({
+        name: fk.constraintName,
+        columns: fk.columns,
+        referencedTable: fk.referencedTable,
+        referencedColumns: fk.referencedColumns,
+      })),
+    })),
+  };
+}
+
+function sameType(a: ColumnDefinition, b: ColumnDefinition): boolean {
+  if (a.type.canonical !== b.type.canonical) {
+    return false;
+  }
+  switch (a.type.canonical) {
+    case "string":
+    case "char":
+    case "binary":
+      return (a.type.length ?? null) === (b.type.length ?? null);
+    case "decimal":
+      return (a.type.precision ?? null) === (b.type.precision ?? null) && (a.type.scale ?? null) === (b.type.scale ?? null);
+    default:
+      return true;
+  }
+}
+
+function foreignKeySignature(fk: SnapshotForeignKey): string {
+  return `${fk.columns.map(key).join(",")}->${key(fk.referencedTable)}(${fk.referencedColumns.map(key).join(",")})`;
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((column, index) => key(column) === key(b[index]));
+}
+
+/** Foreign keys in `from` that reference `tableName` and stay as they are in the target schema. */
+function dependentForeignKeys(
+  from: SchemaSnapshot,
+  toTables: Map<string, SnapshotTable>,
+  tableName: string,
+): { table: string; fk: SnapshotForeignKey }[] {
+  const dependents: { table: string; fk: SnapshotForeignKey }[] = [];
+  for (const table of from.tables) {
+    const target = toTables.get(key(table.name));
+    if (!target) {
+      continue;
+    }
+    const kept = new Set(target.foreignKeys.map(foreignKeySignature));
+    for (const fk of table.foreignKeys) {
+      if (key(fk.referencedTable) === key(tableName) && kept.has(foreignKeySignature(fk))) {
+        dependents.push({ table: table.name, fk });
+      }
+    }
+  }
+  return dependents;
+}
+
+/**
+ * Computes the changes needed to turn `from` into `to`. Tables and columns
+ * are matched case-insensitively by name; foreign keys by their column
+ * signature so renamed constraints are not reported as changes.
+ */
+export function diffSchemas(from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff {
+  const fromTables = new Map<string, SnapshotTable>(from.tables.map((table) => [key(table.name), table]));
+  const toTables = new Map<string, SnapshotTable>(to.tables.map((table) => [key(table.name), table]));
+
+  const diff: SchemaDiff = { addedTables: [], droppedTables: [], changedTables: [] };
+
+  for (const table of to.tables) {
+    if (!fromTables.has(key(table.name))) {
+      diff.addedTables.push(table);
+    }
+  }
+
+  for (const table of from.tables) {
+    const target = toTables.get(key(table.name));
+    if (!target) {
+      diff.droppedTables.push(table);
+      continue;
+    }
+
+    const fromColumns = new Map<string, ColumnDefinition>(table.columns.map((column) => [key(column.name), column]));
+    const toColumns = new Map<string, ColumnDefinition>(target.columns.map((column) => [key(column.name), column]));
+
+    const tableDiff: TableDiff = {
+      table: target.name,
+      addedColumns: target.columns.filter((column) => !fromColumns.has(key(column.name))),
+      droppedColumns: table.columns.filter((column) => !toColumns.has(key(column.name))),
+      changedColumns: [],
+      addedForeignKeys: [],
+      droppedForeignKeys: [],
+    };
+
+    for (const column of table.columns) {
+      const targetColumn = toColumns.get(key(column.name));
+      if (!targetColumn) {
+        continue;
+      }
+      const typeChanged = !sameType(column, targetColumn);
+      const nullabilityChanged = column.nullable !== targetColumn.nullable;
+      if (typeChanged || nullabilityChanged) {
+        tableDiff.changedColumns.push({
+          column: targetColumn.name,
+          from: column,
+          to: targetColumn,
+          typeChanged,
+          nullabilityChanged,
+        });
+      }
+    }
+
+    if (!sameColumns(table.primaryKey, target.primaryKey)) {
+      tableDiff.primaryKeyChange = {
+        from: table.primaryKey,
+        to: target.primaryKey,
+        fromName: table.primaryKeyName,
+        toName: target.primaryKeyName,
+      };
+      if (table.primaryKey.length > 0) {
+        tableDiff.dependentForeignKeys = dependentForeignKeys(from, toTables, table.name);
+      }
+    }
+
+    const fromKeys = new Set(table.foreignKeys.map(foreignKeySignature));
+    const toKeys = new Set(target.foreignKeys.map(foreignKeySignature));
+    tableDiff.addedForeignKeys = target.foreignKeys.filter((fk) => !fromKeys.has(foreignKeySignature(fk)));
+    tableDiff.droppedForeignKeys = table.foreignKeys.filter((fk) => !toKeys.has(foreignKeySignature(fk)));
+
+    const hasChanges =
+      tableDiff.addedColumns.length > 0 ||
+      tableDiff.droppedColumns.length > 0 ||
+      tableDiff.changedColumns.length > 0 ||
+      tableDiff.primaryKeyChange !== undefined ||
+      tableDiff.addedForeignKeys.length > 0 ||
+      tableDiff.droppedForeignKeys.length > 0;
+
+    if (hasChanges) {
+      diff.changedTables.push(tableDiff);
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SchemaDiff): boolean {
+  return diff.addedTables.length === 0 && diff.droppedTables.length === 0 && diff.changedTables.length === 0;
+}
+
+/** Swaps the direction of a diff so it describes the rollback. */
+export function invertDiff(diff: SchemaDiff): SchemaDiff {
+  return {
+    addedTables: diff.droppedTables,
+    droppedTables: diff.addedTables,
+    changedTables: diff.changedTables.map((table) => ({
+      table: table.table,
+      addedColumns: table.droppedColumns,
+      droppedColumns: table.addedColumns,
+      changedColumns: table.changedColumns.map((change) => ({ ...change, from: change.to, to: change.from })),
+      primaryKeyChange: table.primaryKeyChange
+        ? {
+            from: table.primaryKeyChange.to,
+            to: table.primaryKeyChange.from,
+            fromName: table.primaryKeyChange.toName,
+            toName: table.primaryKeyChange.fromName,
+          }
+        : undefined,
+      // Still reference the table afterwards, so the rollback sets them aside the same way
+      dependentForeignKeys: table.dependentForeignKeys,
+      addedForeignKeys: table.droppedForeignKeys,
+      droppedForeignKeys: table.addedForeignKeys,
+    })),
+  };
+}
+
+/** Removes destructive changes from a diff, returning the warnings to surface instead. */
+function applyDropPolicy(diff: SchemaDiff, allowDrop: boolean): { diff: SchemaDiff; warnings: string[] } {
+  if (allowDrop) {
+    return { diff, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  for (const table of diff.droppedTables) {
+    warnings.push(`Table ${table.name} is not in the target model; DROP TABLE skipped because drops are disabled.`);
+  }
+  const changedTables = diff.changedTables.map((table) => {
+    for (const column of table.droppedColumns) {
+      warnings.push(
+        `Column ${table.table}.${column.name} is not in the target model; DROP COLUMN skipped because drops are disabled.`,
+      );
+    }
+    return { ...table, droppedColumns: [] };
+  });
+
+  return { diff: { ...diff, droppedTables: [], changedTables }, warnings };
+}
+
+function renderStatements(diff: SchemaDiff, dialect: SqlDialect): string[] {
+  const statements: string[] = [];
+  const droppedTableKeys = new Set(diff.droppedTables.map((table) => key(table.name)));
+
+  // 1. Foreign keys go first so nothing they reference is blocked
+  for (const table of diff.changedTables) {
+    for (const fk of table.droppedForeignKeys) {
+      statements.push(dialect.dropConstraintStatement(table.table, fk.name, "foreign"));
+    }
+  }
+  for (const table of diff.droppedTables) {
+    for (const fk of table.foreignKeys) {
+      statements.push(dialect.dropConstraintStatement(table.name, fk.name, "foreign"));
+    }
+  }
+
+  // Foreign keys that reference a primary key being replaced are dropped and added back around it
+  const setAside = diff.changedTables.flatMap((table) =>
+    table.primaryKeyChange && table.primaryKeyChange.from.length > 0 ? table.dependentForeignKeys ?? [] : [],
+  );
+  for (const { table, fk } of setAside) {
+    statements.push(dialect.dropConstraintStatement(table, fk.name, "foreign"));
+  }
+
+  // 2. Primary keys being replaced, under the name the database knows them by
+  for (const table of diff.changedTables) {
+    if (table.primaryKeyChange && table.primaryKeyChange.from.length > 0) {
+      statements.push(
+        dialect.dropConstraintStatement(
+          table.table,
+          table.primaryKeyChange.fromName || buildConstraintName("pk", table.table),
+          "primary",
+        ),
+      );
+    }
+  }
+
+  // 3. New tables, without their foreign keys
+  for (const table of diff.addedTables) {
+    statements.push(renderCreateTable(dialect, table));
+  }
+
+  // 4. Column additions and alterations
+  for (const table of diff.changedTables) {
+    for (const column of table.addedColumns) {
+      statements.push(dialect.addColumnStatement(table.table, renderColumnDefinition(dialect, column)));
+    }
+    for (const change of table.changedColumns) {
+      statements.push(
+        ...dialect.alterColumnStatements(
+          table.table,
+          { name: change.column, typeSql: renderColumnType(dialect, change.to), nullable: change.to.nullable },
+          { type: change.typeChanged, nullability: change.nullabilityChanged },
+        ),
+      );
+    }
+  }
+
+  // 5. Replacement primary keys
+  for (const table of diff.changedTables) {
+    if (table.primaryKeyChange && table.primaryKeyChange.to.length > 0) {
+      statements.push(
+        dialect.addPrimaryKeyStatement(
+          table.table,
+          table.primaryKeyChange.toName || buildConstraintName("pk", table.table),
+          table.primaryKeyChange.to,
+        ),
+      );
+    }
+  }
+
+  // 6. Destructive changes
+  for (const table of diff.changedTables) {
+    for (const column of table.droppedColumns) {
+      statements.push(dialect.dropColumnStatement(table.table, column.name));
+    }
+  }
+  for (const table of diff.droppedTables) {
+    statements.push(dialect.dropTableStatement(table.name));
+  }
+
+  // 7. Foreign keys last, once every referenced table and column exists
+  const addedForeignKeys = [
+    ...diff.addedTables.flatMap((table) => table.foreignKeys.map((fk) => ({ table: table.name, fk }))),
+    ...diff.changedTables.flatMap((table) => table.addedForeignKeys.map((fk) => ({ table: table.table, fk }))),
+    ...setAside,
+  ];
+  for (const { table, fk } of addedForeignKeys) {
+    if (droppedTableKeys.has(key(fk.referencedTable))) {
+      continue;
+    }
+    statements.push(
+      dialect.foreignKeyStatement({
+        constraintName: fk.name,
+        table,
+        columns: fk.columns,
+        referencedTable: fk.referencedTable,
+        referencedColumns: fk.referencedColumns,
+      }),
+    );
+  }
+
+  return statements;
+}
+
+function renderScript(header: string[], statements: string[]): string {
+  const body = statements.length > 0 ? statements.join("\n\n") : "-- No changes detected";
+  return `${header.map((line) => `-- ${line}`).join("\n")}\n\n${body}\n`;
+}
+
+/**
+ * Renders ordered forward and rollback scripts for a diff. The rollback only
+ * reverses what the forward script actually does, so skipped drops are not
+ * "recreated" on the way back.
+ */
+export function generateMigrationScript(
+  diff: SchemaDiff,
+  dialect: SqlDialect,
+  options: MigrationOptions = {},
+): MigrationScript {
+  const { diff: effective, warnings } = applyDropPolicy(diff, options.allowDrop ?? false);
+  const title = options.title ?? "Schema migration";
+
+  const up = renderScript(
+    [title, `Dialect: ${dialect.label}`, ...warnings.map((warning) => `WARNING: ${warning}`)],
+    renderStatements(effective, dialect),
+  );
+  const down = renderScript(
+    [`Rollback for ${title}`, `Dialect: ${dialect.label}`],
+    renderStatements(invertDiff(effective), dialect),
+  );
+
+  return { up, down, warnings };
+}
@@ -0,0 +1,106 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { AuthSession } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+const REFRESH_TOKEN_TTL_DAYS = Number.parseInt(process.env.REFRESH_TOKEN_TTL_DAYS ?? "30", 10) || 30;
+
+export interface IssuedSession {
+  session: AuthSession;
+  /** `<sessionId>.<secret>`; only the hash of the secret is stored. */
+  refreshToken: string;
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function parseRefreshToken(refreshToken: string): { sessionId: number; secret: string } | null {
+  const [id, secret, ...rest] = refreshToken.split(".");
+  const sessionId = Number(id);
+  if (rest.length > 0 || !secret || !Number.isInteger(sessionId) || sessionId <= 0) {
+    return null;
+  }
+  return { sessionId, secret };
+}
+
+function hashesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(actual, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export class SessionService {
+  constructor(private readonly store: IStorage) {}
+
+  async startSession(userId: number, userAgent?: string | null): Promise<IssuedSession> {
+    const secret = this.generateSecret();
+    const session = await this.store.createAuthSession({
+      userId,
+      refreshTokenHash: hashSecret(secret),
+      userAgent: userAgent ?? null,
+      expiresAt: this.nextExpiry(),
+    });
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that has
+   * already been rotated means it leaked, so the whole session is revoked.
+   * The new hash is only written while the presented one is still current,
+   * so two concurrent refreshes cannot both succeed; the loser is rejected
+   * without revoking the session.
+   */
+  async rotate(refreshToken: string): Promise<IssuedSession> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await this.store.getAuthSession(parsed.sessionId) : undefined;
+    if (!parsed || !session || !this.isUsable(session)) {
+      throw new Error("Refresh token is invalid or has expired");
+    }
+
+    if (!hashesMatch(session.refreshTokenHash, hashSecret(parsed.secret))) {
+      console.warn(`[AUTH] Refresh token reuse detected for session ${session.id}; revoking`);
+      await this.revoke(session.id);
+      throw new Error("Refresh token is invalid or has expired");
+    }
+
+    const secret = this.generateSecret();
+    const now = new Date();
+    const rotated = await this.store.rotateAuthSession(session.id, session.refreshTokenHash, {
+      refreshTokenHash: hashSecret(secret),
+      expiresAt: this.nextExpiry(),
+      lastUsedAt: now,
+    });
+    if (!rotated) {
+      throw new Error("Refresh token is invalid or has expired");
+    }
+    return { session: rotated, refreshToken: `${rotated.id}.${secret}` };
+  }
+
+  async isActive(sessionId: number): Promise<boolean> {
+    const session = await this.store.getAuthSession(sessionId);
+    return Boolean(session && this.isUsable(session));
+  }
+
+  async revoke(sessionId: number): Promise<void> {
+    await this.store.updateAuthSession(sessionId, { revokedAt: new Date() });
+  }
+
+  /** Revoke every session of the user ("log out all devices"). */
+  async revokeAll(userId: number): Promise<number> {
+    return await this.store.revokeUserAuthSessions(userId);
+  }
+
+  private isUsable(session: AuthSession): boolean {
+    return !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString("hex");
+  }
+}
+
+export const sessionService = new SessionService(storage);
@@ -0,0 +1,924 @@
+export type SqlDialectName =
+  | "generic"
+  | "postgres"
+  | "sqlserver"
+  | "mysql"
+  | "oracle"
+  | "snowflake"
+  | "databricks";
+
+export const SQL_DIALECT_NAMES: SqlDialectName[] = [
+  "generic",
+  "postgres",
+  "sqlserver",
+  "mysql",
+  "oracle",
+  "snowflake",
+  "databricks",
+];
+
+/**
+ * Database-agnostic type families used as the pivot between the
+ * conceptual/logical/physical type strings stored on attributes and
+ * the concrete types each dialect emits.
+ */
+export type CanonicalType =
+  | "string"
+  | "char"
+  | "text"
+  | "smallint"
+  | "integer"
+  | "bigint"
+  | "decimal"
+  | "float"
+  | "double"
+  | "boolean"
+  | "date"
+  | "time"
+  | "timetz"
+  | "timestamp"
+  | "timestamptz"
+  | "uuid"
+  | "binary"
+  | "json";
+
+/**
+ * Minimal attribute shape needed to render a column. Both `attributes`
+ * and `data_model_object_attributes` rows satisfy it.
+ */
+export interface SqlColumnSource {
+  name: string | null;
+  conceptualType?: string | null;
+  logicalType?: string | null;
+  physicalType?: string | null;
+  dataType?: string | null;
+  length?: number | null;
+  precision?: number | null;
+  scale?: number | null;
+  nullable?: boolean | null;
+  isPrimaryKey?: boolean | null;
+  description?: string | null;
+  commonProperties?: Record<string, any> | null;
+}
+
+export interface ResolvedColumnType {
+  canonical: CanonicalType;
+  length?: number | null;
+  precision?: number | null;
+  scale?: number | null;
+  identity: boolean;
+}
+
+export interface ForeignKeyDefinition {
+  constraintName: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface SqlDialect {
+  name: SqlDialectName;
+  label: string;
+  /** Quotes an identifier when it is not a plain, non-reserved name. */
+  quoteIdentifier(identifier: string): string;
+  renderType(type: ResolvedColumnType): string;
+  /** Column suffix that turns an integer column into an identity/serial column. */
+  identityClause(type: ResolvedColumnType): string | null;
+  /** When true, comments are rendered inline (`COMMENT '...'`) instead of separate statements. */
+  inlineComments: boolean;
+  tableOptions?(comment: string | null): string;
+  commentStatements(table: string, comment: string | null, columns: Array<{ name: string; comment: string }>): string[];
+  foreignKeyStatement(fk: ForeignKeyDefinition): string;
+  addColumnStatement(table: string, columnDefinition: string): string;
+  dropColumnStatement(table: string, column: string): string;
+  /** Statements changing a column's type and/or nullability; `typeSql` is already rendered for this dialect. */
+  alterColumnStatements(
+    table: string,
+    column: { name: string; typeSql: string; nullable: boolean },
+    change: { type: boolean; nullability: boolean },
+  ): string[];
+  addPrimaryKeyStatement(table: string, constraintName: string, columns: string[]): string;
+  dropConstraintStatement(table: string, constraintName: string, kind: "primary" | "foreign"): string;
+  dropTableStatement(table: string): string;
+}
+
+export interface ColumnDefinition {
+  name: string;
+  type: ResolvedColumnType;
+  /** Pre-rendered type that bypasses dialect mapping (used for verbatim generic DDL). */
+  typeOverride?: string | null;
+  nullable: boolean;
+  isPrimaryKey?: boolean;
+  comment?: string | null;
+}
+
+export interface TableDefinition {
+  name: string;
+  comment?: string | null;
+  columns: ColumnDefinition[];
+  primaryKey: string[];
+}
+
+const RESERVED_WORDS = new Set([
+  "all", "alter", "and", "as", "by", "case", "check", "column", "comment", "constraint", "create",
+  "cross", "current", "date", "default", "delete", "desc", "distinct", "drop", "else", "end",
+  "exists", "file", "for", "foreign", "from", "full", "grant", "group", "having", "in", "index",
+  "inner", "insert", "interval", "into", "is", "join", "key", "left", "level", "like", "limit",
+  "not", "null", "number", "of", "on", "option", "or", "order", "outer", "primary", "references",
+  "right", "row", "rows", "select", "session", "set", "size", "table", "then", "time", "timestamp",
+  "to", "trigger", "union", "unique", "update", "user", "using", "value", "values", "view", "when",
+  "where", "with",
+]);
+
+const PLAIN_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function needsQuoting(identifier: string): boolean {
+  return !PLAIN_IDENTIFIER.test(identifier) || RESERVED_WORDS.has(identifier.toLowerCase());
+}
+
+function quoteWith(open: string, close: string) {
+  return (identifier: string): string => {
+    if (!needsQuoting(identifier)) {
+      return identifier;
+    }
+    const escaped = identifier.split(close).join(close + close);
+    return `${open}${escaped}${close}`;
+  };
+}
+
+export function escapeSqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Conceptual vocabulary where it reads differently from the physical type of the same name
+const CONCEPTUAL_TYPE_ALIASES: Record<string, CanonicalType> = {
+  text: "string",
+  number: "integer",
+  currency: "decimal",
+};
+
+const BASE_TYPE_ALIASES: Record<string, CanonicalType> = {
+  decimal: "decimal",
+  date: "date",
+  datetime: "timestamp",
+  boolean: "boolean",
+  // Character types
+  text: "text",
+  tinytext: "text",
+  varchar: "string",
+  varchar2: "string",
+  nvarchar: "string",
+  nvarchar2: "string",
+  "character varying": "string",
+  string: "string",
+  char: "char",
+  nchar: "char",
+  character: "char",
+  clob: "text",
+  nclob: "text",
+  longtext: "text",
+  mediumtext: "text",
+  ntext: "text",
+  // Numeric types
+  smallint: "smallint",
+  tinyint: "smallint",
+  int2: "smallint",
+  int: "integer",
+  integer: "integer",
+  int4: "integer",
+  mediumint: "integer",
+  serial: "integer",
+  bigint: "bigint",
+  int8: "bigint",
+  bigserial: "bigint",
+  long: "bigint",
+  number: "decimal",
+  numeric: "decimal",
+  money: "decimal",
+  float: "float",
+  real: "float",
+  float4: "float",
+  double: "double",
+  "double precision": "double",
+  float8: "double",
+  binary_double: "double",
+  binary_float: "float",
+  bool: "boolean",
+  bit: "boolean",
+  // Temporal types
+  time: "time",
+  timetz: "timetz",
+  "time with time zone": "timetz",
+  timestamp: "timestamp",
+  datetime2: "timestamp",
+  smalldatetime: "timestamp",
+  timestamp_ntz: "timestamp",
+  timestamptz: "timestamptz",
+  "timestamp with time zone": "timestamptz",
+  datetimeoffset: "timestamptz",
+  timestamp_tz: "timestamptz",
+  timestamp_ltz: "timestamptz",
+  // Other
+  uuid: "uuid",
+  uniqueidentifier: "uuid",
+  guid: "uuid",
+  binary: "binary",
+  varbinary: "binary",
+  blob: "binary",
+  bytea: "binary",
+  raw: "binary",
+  image: "binary",
+  json: "json",
+  jsonb: "json",
+  variant: "json",
+  object: "json",
+};
+
+const IDENTITY_HINT = /serial|identity|auto_?increment/i;
+
+/**
+ * Resolves the canonical type of an attribute for a given layer, preferring
+ * the most specific type string available and carrying over length,
+ * precision and scale either from the attribute or from the type literal.
+ */
+export function resolveColumnType(
+  attribute: SqlColumnSource,
+  layer: "all" | "conceptual" | "logical" | "physical" = "physical",
+): ResolvedColumnType {
+  const sources: Array<"conceptualType" | "logicalType" | "physicalType" | "dataType"> =
+    layer === "conceptual"
+      ? ["conceptualType", "logicalType", "physicalType"]
+      : layer === "logical"
+      ? ["logicalType", "physicalType", "conceptualType"]
+      : ["physicalType", "logicalType", "dataType", "conceptualType"];
+
+  const source = sources.find((key) => Boolean(attribute[key]?.trim()));
+  const raw = source ? attribute[source]! : "Text";
+  const args = (raw.match(/\(([^)]*)\)/)?.[1] ?? "")
+    .split(",")
+    .map((part) => Number.parseInt(part.trim(), 10))
+    .filter((value) => !Number.isNaN(value));
+  const typeName = raw.replace(/\([^)]*\)/g, "").trim().toLowerCase().replace(/\s+/g, " ");
+  const isConceptual = !source || source === "conceptualType";
+
+  let canonical: CanonicalType =
+    (isConceptual ? CONCEPTUAL_TYPE_ALIASES[typeName] : undefined) ??
+    BASE_TYPE_ALIASES[typeName] ??
+    BASE_TYPE_ALIASES[typeName.split(" ")[0]] ??
+    "string";
+
+  // VARCHAR(MAX) and friends have no length limit
+  if (/\(\s*max\s*\)/i.test(raw) && canonical === "string") {
+    canonical = "text";
+  }
+
+  // Oracle/Snowflake NUMBER(p,s) is an integer unless it carries a scale; a bare NUMBER stays a decimal
+  if (typeName === "number" && args.length > 0) {
+    canonical = (args[1] ?? 0) > 0 ? "decimal" : args[0] > 9 ? "bigint" : "integer";
+  }
+
+  const identity =
+    IDENTITY_HINT.test(raw) ||
+    attribute.commonProperties?.autoIncrement === true ||
+    attribute.commonProperties?.identity === true;
+
+  // Conceptual "Currency" has always exported with money-sized precision
+  const defaultPrecision = typeName === "currency" ? 15 : null;
+
+  const isCharacter = canonical === "string" || canonical === "char" || canonical === "binary";
+
+  return {
+    canonical,
+    length: isCharacter ? args[0] ?? attribute.length ?? null : attribute.length ?? null,
+    precision:
+      canonical === "decimal" ? args[0] ?? attribute.precision ?? defaultPrecision : attribute.precision ?? null,
+    scale: canonical === "decimal" ? args[1] ?? attribute.scale ?? null : attribute.scale ?? null,
+    identity: identity && (canonical === "integer" || canonical === "bigint" || canonical === "smallint"),
+  };
+}
+
+function withLength(type: string, length: number | null | undefined, fallback: number): string {
+  return `${type}(${length && length > 0 ? length : fallback})`;
+}
+
+function decimalArgs(type: ResolvedColumnType, defaultPrecision = 18, defaultScale = 2): string {
+  const precision = type.precision && type.precision > 0 ? type.precision : defaultPrecision;
+  const scale = type.scale !== null && type.scale !== undefined ? type.scale : defaultScale;
+  return `(${precision},${scale})`;
+}
+
+function standardForeignKey(dialect: Pick<SqlDialect, "quoteIdentifier">, suffix = "") {
+  return (fk: ForeignKeyDefinition): string => {
+    const q = dialect.quoteIdentifier;
+    return (
+      `ALTER TABLE ${q(fk.table)}\n` +
+      `  ADD CONSTRAINT ${q(fk.constraintName)}\n` +
+      `  FOREIGN KEY (${fk.columns.map(q).join(", ")}) REFERENCES ${q(fk.referencedTable)} (${fk.referencedColumns.map(q).join(", ")})${suffix};`
+    );
+  };
+}
+
+function commentOnStatements(quote: (identifier: string) => string) {
+  return (table: string, comment: string | null, columns: Array<{ name: string; comment: string }>): string[] => {
+    const statements: string[] = [];
+    if (comment) {
+      statements.push(`COMMENT ON TABLE ${quote(table)} IS ${escapeSqlString(comment)};`);
+    }
+    for (const column of columns) {
+      statements.push(`COMMENT ON COLUMN ${quote(table)}.${quote(column.name)} IS ${escapeSqlString(column.comment)};`);
+    }
+    return statements;
+  };
+}
+
+type AlterationMethods = Pick<
+  SqlDialect,
+  | "addColumnStatement"
+  | "dropColumnStatement"
+  | "alterColumnStatements"
+  | "addPrimaryKeyStatement"
+  | "dropConstraintStatement"
+  | "dropTableStatement"
+>;
+
+/** ANSI-style ALTER statements shared by PostgreSQL and most of its relatives. */
+function standardAlterations(
+  quote: (identifier: string) => string,
+  overrides: Partial<AlterationMethods> = {},
+): AlterationMethods {
+  return {
+    addColumnStatement: (table, columnDefinition) => `ALTER TABLE ${quote(table)} ADD COLUMN ${columnDefinition};`,
+    dropColumnStatement: (table, column) => `ALTER TABLE ${quote(table)} DROP COLUMN ${quote(column)};`,
+    alterColumnStatements(table, column, change) {
+      const statements: string[] = [];
+      const prefix = `ALTER TABLE ${quote(table)} ALTER COLUMN ${quote(column.name)}`;
+      if (change.type) {
+        statements.push(`${prefix} TYPE ${column.typeSql};`);
+      }
+      if (change.nullability) {
+        statements.push(`${prefix} ${column.nullable ? "DROP" : "SET"} NOT NULL;`);
+      }
+      return statements;
+    },
+    addPrimaryKeyStatement: (table, constraintName, columns) =>
+      `ALTER TABLE ${quote(table)} ADD CONSTRAINT ${quote(constraintName)} PRIMARY KEY (${columns.map(quote).join(", ")});`,
+    dropConstraintStatement: (table, constraintName) =>
+      `ALTER TABLE ${quote(table)} DROP CONSTRAINT ${quote(constraintName)};`,
+    dropTableStatement: (table) => `DROP TABLE ${quote(table)};`,
+    ...overrides,
+  };
+}
+
+const genericQuote = (identifier: string) => identifier;
+
+const generic: SqlDialect = {
+  name: "generic",
+  label: "Generic SQL",
+  quoteIdentifier: genericQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return withLength("VARCHAR", type.length, 255);
+      case "char":
+        return withLength("CHAR", type.length, 1);
+      case "text":
+        return "TEXT";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return "INTEGER";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `DECIMAL${decimalArgs(type, 10, 2)}`;
+      case "float":
+        return "REAL";
+      case "double":
+        return "DOUBLE PRECISION";
+      case "boolean":
+        return "BOOLEAN";
+      case "date":
+        return "DATE";
+      case "time":
+        return "TIME";
+      case "timetz":
+        return "TIME WITH TIME ZONE";
+      case "timestamp":
+        return "TIMESTAMP";
+      case "timestamptz":
+        return "TIMESTAMP WITH TIME ZONE";
+      case "uuid":
+        return "CHAR(36)";
+      case "binary":
+        return "BLOB";
+      case "json":
+        return "TEXT";
+    }
+  },
+  identityClause: () => null,
+  inlineComments: false,
+  commentStatements: () => [],
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: genericQuote }),
+  ...standardAlterations(genericQuote),
+};
+
+const postgresQuote = quoteWith('"', '"');
+
+const postgres: SqlDialect = {
+  name: "postgres",
+  label: "PostgreSQL",
+  quoteIdentifier: postgresQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return type.length ? `VARCHAR(${type.length})` : "VARCHAR(255)";
+      case "char":
+        return withLength("CHAR", type.length, 1);
+      case "text":
+        return "TEXT";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return "INTEGER";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `NUMERIC${decimalArgs(type)}`;
+      case "float":
+        return "REAL";
+      case "double":
+        return "DOUBLE PRECISION";
+      case "boolean":
+        return "BOOLEAN";
+      case "date":
+        return "DATE";
+      case "time":
+        return "TIME";
+      case "timetz":
+        return "TIMETZ";
+      case "timestamp":
+        return "TIMESTAMP";
+      case "timestamptz":
+        return "TIMESTAMPTZ";
+      case "uuid":
+        return "UUID";
+      case "binary":
+        return "BYTEA";
+      case "json":
+        return "JSONB";
+    }
+  },
+  identityClause: () => "GENERATED BY DEFAULT AS IDENTITY",
+  inlineComments: false,
+  commentStatements: commentOnStatements(postgresQuote),
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: postgresQuote }),
+  ...standardAlterations(postgresQuote),
+};
+
+const sqlServerQuote = quoteWith("[", "]");
+
+const sqlserver: SqlDialect = {
+  name: "sqlserver",
+  label: "SQL Server",
+  quoteIdentifier: sqlServerQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return type.length && type.length > 4000 ? "NVARCHAR(MAX)" : withLength("NVARCHAR", type.length, 255);
+      case "char":
+        return withLength("NCHAR", type.length, 1);
+      case "text":
+        return "NVARCHAR(MAX)";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return "INT";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `DECIMAL${decimalArgs(type)}`;
+      case "float":
+        return "REAL";
+      case "double":
+        return "FLOAT";
+      case "boolean":
+        return "BIT";
+      case "date":
+        return "DATE";
+      case "time":
+        return "TIME";
+      case "timetz":
+        return "DATETIMEOFFSET";
+      case "timestamp":
+        return "DATETIME2";
+      case "timestamptz":
+        return "DATETIMEOFFSET";
+      case "uuid":
+        return "UNIQUEIDENTIFIER";
+      case "binary":
+        return "VARBINARY(MAX)";
+      case "json":
+        return "NVARCHAR(MAX)";
+    }
+  },
+  identityClause: () => "IDENTITY(1,1)",
+  inlineComments: false,
+  commentStatements(table, comment, columns) {
+    const statements: string[] = [];
+    if (comment) {
+      statements.push(
+        `EXEC sp_addextendedproperty @name = N'MS_Description', @value = N${escapeSqlString(comment)}, ` +
+          `@level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N${escapeSqlString(table)};`,
+      );
+    }
+    for (const column of columns) {
+      statements.push(
+        `EXEC sp_addextendedproperty @name = N'MS_Description', @value = N${escapeSqlString(column.comment)}, ` +
+          `@level0type = N'SCHEMA', @level0name = N'dbo', @level1type = N'TABLE', @level1name = N${escapeSqlString(table)}, ` +
+          `@level2type = N'COLUMN', @level2name = N${escapeSqlString(column.name)};`,
+      );
+    }
+    return statements;
+  },
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: sqlServerQuote }),
+  ...standardAlterations(sqlServerQuote, {
+    addColumnStatement: (table, columnDefinition) => `ALTER TABLE ${sqlServerQuote(table)} ADD ${columnDefinition};`,
+    alterColumnStatements: (table, column) => [
+      `ALTER TABLE ${sqlServerQuote(table)} ALTER COLUMN ${sqlServerQuote(column.name)} ${column.typeSql} ${column.nullable ? "NULL" : "NOT NULL"};`,
+    ],
+  }),
+};
+
+const backtickQuote = quoteWith("`", "`");
+
+const mysql: SqlDialect = {
+  name: "mysql",
+  label: "MySQL",
+  quoteIdentifier: backtickQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return type.length && type.length > 16383 ? "LONGTEXT" : withLength("VARCHAR", type.length, 255);
+      case "char":
+        return withLength("CHAR", type.length, 1);
+      case "text":
+        return "LONGTEXT";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return "INT";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `DECIMAL${decimalArgs(type)}`;
+      case "float":
+        return "FLOAT";
+      case "double":
+        return "DOUBLE";
+      case "boolean":
+        return "TINYINT(1)";
+      case "date":
+        return "DATE";
+      case "time":
+      case "timetz":
+        return "TIME";
+      case "timestamp":
+        return "DATETIME";
+      case "timestamptz":
+        return "TIMESTAMP";
+      case "uuid":
+        return "CHAR(36)";
+      case "binary":
+        return "LONGBLOB";
+      case "json":
+        return "JSON";
+    }
+  },
+  identityClause: () => "AUTO_INCREMENT",
+  inlineComments: true,
+  tableOptions: (comment) => `ENGINE=InnoDB${comment ? ` COMMENT=${escapeSqlString(comment)}` : ""}`,
+  commentStatements: () => [],
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: backtickQuote }),
+  ...standardAlterations(backtickQuote, {
+    alterColumnStatements: (table, column) => [
+      `ALTER TABLE ${backtickQuote(table)} MODIFY COLUMN ${backtickQuote(column.name)} ${column.typeSql} ${column.nullable ? "NULL" : "NOT NULL"};`,
+    ],
+    dropConstraintStatement: (table, constraintName, kind) =>
+      kind === "primary"
+        ? `ALTER TABLE ${backtickQuote(table)} DROP PRIMARY KEY;`
+        : `ALTER TABLE ${backtickQuote(table)} DROP FOREIGN KEY ${backtickQuote(constraintName)};`,
+  }),
+};
+
+const oracle: SqlDialect = {
+  name: "oracle",
+  label: "Oracle",
+  quoteIdentifier: postgresQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return type.length && type.length > 4000 ? "CLOB" : `VARCHAR2(${type.length && type.length > 0 ? type.length : 255} CHAR)`;
+      case "char":
+        return withLength("CHAR", type.length, 1);
+      case "text":
+        return "CLOB";
+      case "smallint":
+        return "NUMBER(5)";
+      case "integer":
+        return "NUMBER(10)";
+      case "bigint":
+        return "NUMBER(19)";
+      case "decimal":
+        return `NUMBER${decimalArgs(type)}`;
+      case "float":
+        return "BINARY_FLOAT";
+      case "double":
+        return "BINARY_DOUBLE";
+      case "boolean":
+        return "NUMBER(1)";
+      case "date":
+        return "DATE";
+      case "time":
+        return "INTERVAL DAY(0) TO SECOND";
+      case "timetz":
+        return "TIMESTAMP WITH TIME ZONE";
+      case "timestamp":
+        return "TIMESTAMP";
+      case "timestamptz":
+        return "TIMESTAMP WITH TIME ZONE";
+      case "uuid":
+        return "RAW(16)";
+      case "binary":
+        return "BLOB";
+      case "json":
+        return "CLOB";
+    }
+  },
+  identityClause: () => "GENERATED BY DEFAULT ON NULL AS IDENTITY",
+  inlineComments: false,
+  commentStatements: commentOnStatements(postgresQuote),
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: postgresQuote }),
+  ...standardAlterations(postgresQuote, {
+    addColumnStatement: (table, columnDefinition) => `ALTER TABLE ${postgresQuote(table)} ADD (${columnDefinition});`,
+    alterColumnStatements(table, column, change) {
+      // Oracle rejects NOT NULL on a column that is already NOT NULL, so only restate what changed
+      const parts = [postgresQuote(column.name)];
+      if (change.type) {
+        parts.push(column.typeSql);
+      }
+      if (change.nullability) {
+        parts.push(column.nullable ? "NULL" : "NOT NULL");
+      }
+      return [`ALTER TABLE ${postgresQuote(table)} MODIFY (${parts.join(" ")});`];
+    },
+    dropTableStatement: (table) => `DROP TABLE ${postgresQuote(table)} CASCADE CONSTRAINTS;`,
+  }),
+};
+
+const snowflake: SqlDialect = {
+  name: "snowflake",
+  label: "Snowflake",
+  quoteIdentifier: postgresQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+        return type.length ? `VARCHAR(${type.length})` : "VARCHAR";
+      case "char":
+        return withLength("CHAR", type.length, 1);
+      case "text":
+        return "VARCHAR";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return "INTEGER";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `NUMBER${decimalArgs(type)}`;
+      case "float":
+        return "FLOAT";
+      case "double":
+        return "DOUBLE";
+      case "boolean":
+        return "BOOLEAN";
+      case "date":
+        return "DATE";
+      case "time":
+      case "timetz":
+        return "TIME";
+      case "timestamp":
+        return "TIMESTAMP_NTZ";
+      case "timestamptz":
+        return "TIMESTAMP_TZ";
+      case "uuid":
+        return "VARCHAR(36)";
+      case "binary":
+        return "BINARY";
+      case "json":
+        return "VARIANT";
+    }
+  },
+  identityClause: () => "AUTOINCREMENT START 1 INCREMENT 1",
+  inlineComments: true,
+  tableOptions: (comment) => (comment ? `COMMENT = ${escapeSqlString(comment)}` : ""),
+  commentStatements: () => [],
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: postgresQuote }),
+  ...standardAlterations(postgresQuote, {
+    alterColumnStatements(table, column, change) {
+      const statements: string[] = [];
+      const prefix = `ALTER TABLE ${postgresQuote(table)} ALTER COLUMN ${postgresQuote(column.name)}`;
+      if (change.type) {
+        statements.push(`${prefix} SET DATA TYPE ${column.typeSql};`);
+      }
+      if (change.nullability) {
+        statements.push(`${prefix} ${column.nullable ? "DROP" : "SET"} NOT NULL;`);
+      }
+      return statements;
+    },
+  }),
+};
+
+const databricks: SqlDialect = {
+  name: "databricks",
+  label: "Databricks (Delta)",
+  quoteIdentifier: backtickQuote,
+  renderType(type) {
+    switch (type.canonical) {
+      case "string":
+      case "char":
+      case "text":
+      case "uuid":
+      case "json":
+        return "STRING";
+      case "smallint":
+        return "SMALLINT";
+      case "integer":
+        return type.identity ? "BIGINT" : "INT";
+      case "bigint":
+        return "BIGINT";
+      case "decimal":
+        return `DECIMAL${decimalArgs(type)}`;
+      case "float":
+        return "FLOAT";
+      case "double":
+        return "DOUBLE";
+      case "boolean":
+        return "BOOLEAN";
+      case "date":
+        return "DATE";
+      case "time":
+      case "timetz":
+        return "STRING";
+      case "timestamp":
+        return "TIMESTAMP_NTZ";
+      case "timestamptz":
+        return "TIMESTAMP";
+      case "binary":
+        return "BINARY";
+    }
+  },
+  identityClause: () => "GENERATED BY DEFAULT AS IDENTITY",
+  inlineComments: true,
+  tableOptions: (comment) => `USING DELTA${comment ? `\nCOMMENT ${escapeSqlString(comment)}` : ""}`,
+  commentStatements: () => [],
+  // Unity Catalog constraints are informational only
+  foreignKeyStatement: standardForeignKey({ quoteIdentifier: backtickQuote }, " NOT ENFORCED"),
+  ...standardAlterations(backtickQuote, {
+    addColumnStatement: (table, columnDefinition) => `ALTER TABLE ${backtickQuote(table)} ADD COLUMNS (${columnDefinition});`,
+  }),
+};
+
+const DIALECTS: Record<SqlDialectName, SqlDialect> = {
+  generic,
+  postgres,
+  sqlserver,
+  mysql,
+  oracle,
+  snowflake,
+  databricks,
+};
+
+const DIALECT_ALIASES: Record<string, SqlDialectName> = {
+  generic: "generic",
+  ansi: "generic",
+  sql: "generic",
+  postgres: "postgres",
+  postgresql: "postgres",
+  pg: "postgres",
+  sqlserver: "sqlserver",
+  sql_server: "sqlserver",
+  mssql: "sqlserver",
+  tsql: "sqlserver",
+  azuresql: "sqlserver",
+  mysql: "mysql",
+  mariadb: "mysql",
+  oracle: "oracle",
+  snowflake: "snowflake",
+  databricks: "databricks",
+  delta: "databricks",
+  deltalake: "databricks",
+  spark: "databricks",
+};
+
+/**
+ * Resolves a user supplied platform name ("PostgreSQL", "sql_server",
+ * "Delta Lake", ...) to a supported dialect. Returns undefined when the
+ * name is not recognised.
+ */
+export function resolveDialectName(platform: string | null | undefined): SqlDialectName | undefined {
+  if (!platform) {
+    return undefined;
+  }
+  const key = platform.toLowerCase().replace(/[\s\-.]/g, "");
+  return DIALECT_ALIASES[key] ?? DIALECT_ALIASES[key.replace(/_/g, "")];
+}
+
+export function getSqlDialect(platform: string | null | undefined): SqlDialect {
+  const name = resolveDialectName(platform);
+  return DIALECTS[name ?? "generic"];
+}
+
+/**
+ * Decides which side of a relationship holds the foreign key. For "1:N"
+ * the target is the child; for "N:1" and "1:1" the source is. Many-to-many
+ * relationships need a junction table and yield null.
+ */
+export function resolveForeignKeySide(type: string): "source" | "target" | null {
+  switch (type) {
+    case "1:N":
+      return "target";
+    case "N:1":
+    case "1:1":
+      return "source";
+    default:
+      return null;
+  }
+}
+
+export function buildConstraintName(prefix: string, ...parts: string[]): string {
+  return [prefix, ...parts]
+    .join("_")
+    .replace(/[^A-Za-z0-9_]/g, "_")
+    .replace(/_+/g, "_")
+    .slice(0, 63);
+}
+
+export function renderColumnType(dialect: SqlDialect, column: ColumnDefinition): string {
+  return column.typeOverride ?? dialect.renderType(column.type);
+}
+
+/**
+ * Renders a single column definition (without indentation), including the
+ * identity clause for key columns, nullability and inline comments for
+ * dialects that support them.
+ */
+export function renderColumnDefinition(dialect: SqlDialect, column: ColumnDefinition): string {
+  const parts = [dialect.quoteIdentifier(column.name), renderColumnType(dialect, column)];
+
+  const identity = column.type.identity && column.isPrimaryKey ? dialect.identityClause(column.type) : null;
+  if (identity) {
+    parts.push(identity);
+  }
+
+  if (!column.nullable) {
+    parts.push("NOT NULL");
+  }
+
+  if (column.comment && dialect.inlineComments) {
+    parts.push(`COMMENT ${escapeSqlString(column.comment)}`);
+  }
+
+  return parts.join(" ");
+}
+
+export function renderCreateTable(dialect: SqlDialect, table: TableDefinition): string {
+  const q = dialect.quoteIdentifier;
+  const lines = table.columns.map((column) => `  ${renderColumnDefinition(dialect, column)}`);
+
+  if (table.primaryKey.length > 0) {
+    lines.push(
+      `  CONSTRAINT ${q(buildConstraintName("pk", table.name))} PRIMARY KEY (${table.primaryKey.map(q).join(", ")})`,
+    );
+  }
+
+  let sql = `CREATE TABLE ${q(table.name)} (\n${lines.join(",\n")}\n)`;
+
+  const tableOptions = dialect.tableOptions?.(dialect.inlineComments ? table.comment ?? null : null);
+  if (tableOptions) {
+    sql += `\n${tableOptions}`;
+  }
+  sql += ";";
+
+  if (!dialect.inlineComments) {
+    const columnComments = table.columns
+      .filter((column): column is ColumnDefinition & { comment: string } => Boolean(column.comment))
+      .map((column) => ({ name: column.name, comment: column.comment }));
+    const commentStatements = dialect.commentStatements(table.name, table.comment ?? null, columnComments);
+    if (commentStatements.length > 0) {
+      sql += `\n${commentStatements.join("\n")}`;
+    }
+  }
+
+  return sql;
+}
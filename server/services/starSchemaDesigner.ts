@@ -0,0 +1,339 @@
+import { toSnakeCase } from "./dbtScaffold";
+import {
+  getSqlDialect,
+  resolveColumnType,
+  resolveForeignKeySide,
+  type CanonicalType,
+  type SqlColumnSource,
+} from "./sqlDialects";
+
+/**
+ * Proposes a dimensional (star) schema from a normalized logical model.
+ *
+ * Objects on the "many" side of relationships that carry numeric measures and
+ * are not referenced themselves become facts; everything else becomes a
+ * dimension. Dimensions get a surrogate key, keep the source key as the
+ * business key and (optionally) SCD type 2 validity columns. Facts swap each
+ * reference to a dimension for a surrogate-key foreign key.
+ */
+
+export type StarRole = "fact" | "dimension" | "exclude";
+
+export type StarColumnRole =
+  | "surrogate_key"
+  | "business_key"
+  | "dimension_key"
+  | "degenerate"
+  | "measure"
+  | "attribute"
+  | "scd";
+
+export interface StarSourceObject {
+  id: number;
+  name: string | null;
+  description?: string | null;
+}
+
+export interface StarSourceAttribute extends SqlColumnSource {
+  id: number;
+  objectId: number;
+  isForeignKey?: boolean | null;
+  orderIndex?: number | null;
+}
+
+export interface StarSourceRelationship {
+  sourceModelObjectId: number;
+  targetModelObjectId: number;
+  sourceAttributeId?: number | null;
+  targetAttributeId?: number | null;
+  type: string;
+}
+
+export interface StarSchemaInput {
+  objects: StarSourceObject[];
+  attributes: StarSourceAttribute[];
+  relationships: StarSourceRelationship[];
+  /** Role overrides by source object id; unlisted objects are classified automatically. */
+  roles?: Record<number, StarRole>;
+  /** Add valid_from / valid_to / is_current to dimensions (default true). */
+  scdType2?: boolean;
+}
+
+export interface StarColumn {
+  name: string;
+  physicalType: string;
+  length?: number | null;
+  precision?: number | null;
+  scale?: number | null;
+  nullable: boolean;
+  isPrimaryKey: boolean;
+  isForeignKey: boolean;
+  role: StarColumnRole;
+  description?: string | null;
+  sourceAttributeId?: number;
+}
+
+export interface StarTable {
+  name: string;
+  role: "fact" | "dimension";
+  sourceObjectId: number;
+  sourceName: string;
+  description?: string | null;
+  /** Why the object got its role, for the preview. */
+  reason: string;
+  columns: StarColumn[];
+}
+
+export interface StarRelationship {
+  factTable: string;
+  column: string;
+  dimensionTable: string;
+  dimensionColumn: string;
+}
+
+export interface StarSchemaProposal {
+  tables: StarTable[];
+  relationships: StarRelationship[];
+  warnings: string[];
+}
+
+const MEASURE_TYPES: CanonicalType[] = ["smallint", "integer", "bigint", "decimal", "float", "double"];
+const KEY_LIKE_NAME = /(^|_)id$|[a-z0-9]Id$/;
+const genericDialect = getSqlDialect("generic");
+
+interface Reference {
+  from: number;
+  to: number;
+  /** Attribute on the referencing object holding the key, when the relationship names one. */
+  attributeId: number | null;
+  nullable: boolean;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+function physicalColumn(attribute: StarSourceAttribute): Pick<StarColumn, "physicalType" | "length" | "precision" | "scale"> {
+  if (attribute.physicalType?.trim()) {
+    return {
+      physicalType: attribute.physicalType,
+      length: attribute.length ?? null,
+      precision: attribute.precision ?? null,
+      scale: attribute.scale ?? null,
+    };
+  }
+  const resolved = resolveColumnType(attribute, "logical");
+  return {
+    physicalType: genericDialect.renderType(resolved),
+    length: resolved.length ?? null,
+    precision: resolved.precision ?? null,
+    scale: resolved.scale ?? null,
+  };
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${name}_${suffix}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export function proposeStarSchema(input: StarSchemaInput): StarSchemaProposal {
+  const warnings: string[] = [];
+  const objectsById = new Map(input.objects.map((object) => [object.id, object]));
+  const attributesById = new Map(input.attributes.map((attribute) => [attribute.id, attribute]));
+  const objectName = (id: number) => objectsById.get(id)?.name || `Object ${id}`;
+  const attributesOf = (objectId: number) =>
+    input.attributes
+      .filter((attribute) => attribute.objectId === objectId)
+      .sort((a, b) => (a.orderIndex ?? 0) - (b.orderIndex ?? 0));
+
+  // References between selected objects, oriented from the many side to the one side
+  const references: Reference[] = [];
+  input.relationships.forEach((relationship) => {
+    const { sourceModelObjectId: source, targetModelObjectId: target } = relationship;
+    if (!objectsById.has(source) || !objectsById.has(target) || source === target) return;
+    const side = resolveForeignKeySide(relationship.type);
+    if (!side) {
+      warnings.push(
+        `${objectName(source)} and ${objectName(target)} are many-to-many; model a bridge table to carry it into the star schema`,
+      );
+      return;
+    }
+    const attributeId = (side === "source" ? relationship.sourceAttributeId : relationship.targetAttributeId) ?? null;
+    references.push({
+      from: side === "source" ? source : target,
+      to: side === "source" ? target : source,
+      attributeId,
+      nullable: attributeId !== null ? attributesById.get(attributeId)?.nullable !== false : true,
+    });
+  });
+
+  const foreignKeyIds = new Set(
+    references.map((reference) => reference.attributeId).filter((id): id is number => id !== null),
+  );
+  const isKeyAttribute = (attribute: StarSourceAttribute) =>
+    Boolean(attribute.isPrimaryKey || attribute.isForeignKey || foreignKeyIds.has(attribute.id)) ||
+    KEY_LIKE_NAME.test(attribute.name ?? "");
+  const isMeasure = (attribute: StarSourceAttribute) =>
+    !isKeyAttribute(attribute) && MEASURE_TYPES.includes(resolveColumnType(attribute, "logical").canonical);
+
+  // Classify
+  const roles = new Map<number, { role: StarRole; reason: string }>();
+  input.objects.forEach((object) => {
+    const outgoing = new Set(references.filter((reference) => reference.from === object.id).map((reference) => reference.to));
+    const incoming = new Set(references.filter((reference) => reference.to === object.id).map((reference) => reference.from));
+    const measures = attributesOf(object.id).filter(isMeasure).length;
+    const override = input.roles?.[object.id];
+    if (override) {
+      roles.set(object.id, { role: override, reason: "Chosen in the preview" });
+      return;
+    }
+    const isFact = measures > 0 && outgoing.size > 0 && (incoming.size === 0 || outgoing.size >= 2);
+    roles.set(object.id, {
+      role: isFact ? "fact" : "dimension",
+      reason: isFact
+        ? `References ${plural(outgoing.size, "object")} and has ${plural(measures, "numeric measure")}`
+        : incoming.size > 0
+        ? `Referenced by ${Array.from(incoming).map(objectName).join(", ")}`
+        : measures === 0
+        ? "Has no numeric measures"
+        : "References no other selected object",
+    });
+  });
+
+  const roleOf = (id: number) => roles.get(id)?.role ?? "exclude";
+  const tableNames = new Set<string>();
+  const dimensionNames = new Map<number, { table: string; key: string }>();
+  input.objects.forEach((object) => {
+    if (roleOf(object.id) !== "dimension") return;
+    const base = toSnakeCase(objectName(object.id));
+    dimensionNames.set(object.id, { table: uniqueName(`dim_${base}`, tableNames), key: `${base}_sk` });
+  });
+
+  const tables: StarTable[] = [];
+  const relationships: StarRelationship[] = [];
+  const scdType2 = input.scdType2 !== false;
+
+  input.objects.forEach((object) => {
+    const role = roleOf(object.id);
+    if (role === "exclude") return;
+    const sourceName = objectName(object.id);
+    const columnNames = new Set<string>();
+    const columns: StarColumn[] = [];
+    const add = (column: StarColumn) => columns.push({ ...column, name: uniqueName(column.name, columnNames) });
+    const sourceAttributes = attributesOf(object.id);
+
+    if (role === "dimension") {
+      const { table, key } = dimensionNames.get(object.id)!;
+      add({
+        name: key,
+        physicalType: "BIGINT",
+        nullable: false,
+        isPrimaryKey: true,
+        isForeignKey: false,
+        role: "surrogate_key",
+        description: `Surrogate key of ${sourceName}`,
+      });
+      sourceAttributes.forEach((attribute) => {
+        add({
+          name: attribute.name ?? `attribute_${attribute.id}`,
+          ...physicalColumn(attribute),
+          nullable: attribute.isPrimaryKey ? false : attribute.nullable !== false,
+          isPrimaryKey: false,
+          isForeignKey: false,
+          role: attribute.isPrimaryKey ? "business_key" : "attribute",
+          description: attribute.description ?? null,
+          sourceAttributeId: attribute.id,
+        });
+      });
+      references
+        .filter((reference) => reference.from === object.id && roleOf(reference.to) === "dimension")
+        .forEach((reference) =>
+          warnings.push(
+            `${sourceName} references ${objectName(reference.to)}; the reference is kept as a plain column instead of a snowflaked dimension`,
+          ),
+        );
+      if (scdType2) {
+        add({ name: "valid_from", physicalType: "TIMESTAMP", nullable: false, isPrimaryKey: false, isForeignKey: false, role: "scd" });
+        add({ name: "valid_to", physicalType: "TIMESTAMP", nullable: true, isPrimaryKey: false, isForeignKey: false, role: "scd" });
+        add({ name: "is_current", physicalType: "BOOLEAN", nullable: false, isPrimaryKey: false, isForeignKey: false, role: "scd" });
+      }
+      tables.push({ name: table, role, sourceObjectId: object.id, sourceName, description: object.description, reason: roles.get(object.id)!.reason, columns });
+      return;
+    }
+
+    const table = uniqueName(`fact_${toSnakeCase(sourceName)}`, tableNames);
+    add({
+      name: `${toSnakeCase(sourceName)}_sk`,
+      physicalType: "BIGINT",
+      nullable: false,
+      isPrimaryKey: true,
+      isForeignKey: false,
+      role: "surrogate_key",
+      description: `Surrogate key of ${sourceName}`,
+    });
+
+    // One surrogate-key column per dimension reference; role-playing references are named after their attribute
+    const replaced = new Set<number>();
+    const outgoing = references.filter((reference) => reference.from === object.id);
+    outgoing.forEach((reference) => {
+      const dimension = dimensionNames.get(reference.to);
+      if (!dimension) {
+        if (roleOf(reference.to) === "fact") {
+          warnings.push(`${sourceName} references the fact ${objectName(reference.to)}; its key is kept as a degenerate column`);
+        }
+        return;
+      }
+      const attribute = reference.attributeId !== null ? attributesById.get(reference.attributeId) : undefined;
+      const rolePlaying = outgoing.filter((other) => other.to === reference.to).length > 1;
+      const stem = rolePlaying && attribute?.name ? toSnakeCase(attribute.name).replace(/_?(id|key|code)$/, "") : "";
+      if (attribute) replaced.add(attribute.id);
+      const name = stem ? `${stem}_sk` : dimension.key;
+      add({
+        name,
+        physicalType: "BIGINT",
+        nullable: reference.nullable,
+        isPrimaryKey: false,
+        isForeignKey: true,
+        role: "dimension_key",
+        description: `References ${dimension.table}`,
+      });
+      relationships.push({
+        factTable: table,
+        column: columns[columns.length - 1].name,
+        dimensionTable: dimension.table,
+        dimensionColumn: dimension.key,
+      });
+    });
+
+    sourceAttributes
+      .filter((attribute) => !replaced.has(attribute.id))
+      .forEach((attribute) => {
+        const measure = isMeasure(attribute);
+        add({
+          name: attribute.name ?? `attribute_${attribute.id}`,
+          ...physicalColumn(attribute),
+          nullable: attribute.isPrimaryKey ? false : attribute.nullable !== false,
+          isPrimaryKey: false,
+          isForeignKey: false,
+          role: measure ? "measure" : isKeyAttribute(attribute) ? "degenerate" : "attribute",
+          description: attribute.description ?? null,
+          sourceAttributeId: attribute.id,
+        });
+      });
+
+    if (!relationships.some((relationship) => relationship.factTable === table)) {
+      warnings.push(`${sourceName} is a fact without dimensions`);
+    }
+    tables.push({ name: table, role: "fact", sourceObjectId: object.id, sourceName, description: object.description, reason: roles.get(object.id)!.reason, columns });
+  });
+
+  if (!tables.some((table) => table.role === "fact")) {
+    warnings.push("No fact tables were found; mark an object as a fact in the preview");
+  }
+
+  // Facts first, then dimensions, each in source order
+  tables.sort((a, b) => (a.role === b.role ? 0 : a.role === "fact" ? -1 : 1));
+  return { tables, relationships, warnings };
+}
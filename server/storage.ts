@@ -17,6 +17,21 @@ import {
   capabilityDataDomainMappings,
   capabilityDataAreaMappings,
   capabilitySystemMappings,
+  capabilityDataModelMappings,
+  capabilityModelSystemMappings,
+  dataModelVersions,
+  dataModelVersionTags,
+  organizations,
+  users,
+  memberships,
+  invitations,
+  authSessions,
+  modelLifecyclePhases,
+  modelLifecycleAssignments,
+  modelCommentThreads,
+  modelComments,
+  auditLogEntries,
+  modelHistoryCommands,
   type DataModel,
   type InsertDataModel,
   type DataModelLayer,
@@ -53,9 +68,427 @@ import {
   type InsertCapabilityDataAreaMapping,
   type CapabilitySystemMapping,
   type InsertCapabilitySystemMapping,
+  type CapabilityDataModelMapping,
+  type InsertCapabilityDataModelMapping,
+  type CapabilityModelSystemMapping,
+  type InsertCapabilityModelSystemMapping,
+  type DataModelVersion,
+  type InsertDataModelVersion,
+  type DataModelVersionTag,
+  type InsertDataModelVersionTag,
+  type ModelVersionSnapshot,
+  type Organization,
+  type User,
+  type Membership,
+  type InsertMembership,
+  type Invitation,
+  type InsertInvitation,
+  type AuthSession,
+  type InsertAuthSession,
+  type ModelLifecyclePhase,
+  type InsertModelLifecyclePhase,
+  type ModelLifecycleAssignment,
+  type InsertModelLifecycleAssignment,
+  type ModelCommentThread,
+  type InsertModelCommentThread,
+  type ModelComment,
+  type InsertModelComment,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type ModelHistoryCommand,
+  type InsertModelHistoryCommand,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, or } from "drizzle-orm";
+import { auditEntityLabels, changedAuditFields, redactAuditSecrets, type AuditAction, type AuditEntityType } from "@shared/audit";
+import type { HistoryEntityType, HistoryOperation } from "@shared/history";
+import { VersionConflictError, type VersionedRow } from "./utils/concurrency";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { db as rootDb } from "./db";
+import { getAuthContext, requireOrganizationId } from "./auth/context";
+import { eq, and, or, desc, inArray, isNull, arrayContains, gte, lte, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+
+type Database = NonNullable<typeof rootDb>;
+
+const transactionContext = new AsyncLocalStorage<Database>();
+
+// Queries go through the transaction opened by `storage.transaction()` when
+// one is active, so multi-step workflows commit or roll back as a whole.
+const db = new Proxy({} as Database, {
+  get(_target, property) {
+    const active = transactionContext.getStore() ?? rootDb;
+    if (!active) {
+      throw new Error("Database connection is not configured");
+    }
+    const value = Reflect.get(active, property);
+    return typeof value === "function" ? value.bind(active) : value;
+  },
+});
+
+/**
+ * Snapshot rows round-trip through JSONB, which turns timestamps into ISO
+ * strings. Convert them back so they can be written to timestamp columns.
+ */
+function reviveTimestamps<T extends Record<string, any>>(row: T): T {
+  const revived: Record<string, any> = { ...row };
+  for (const [key, value] of Object.entries(revived)) {
+    if (key.endsWith("At") && typeof value === "string") {
+      revived[key] = new Date(value);
+    }
+  }
+  return revived as T;
+}
+
+async function existingIds(table: PgTable, id: PgColumn, ids: Set<number>): Promise<Set<number>> {
+  if (ids.size === 0) {
+    return new Set();
+  }
+  const rows = await db.select({ id }).from(table).where(inArray(id, Array.from(ids)));
+  return new Set(rows.map((row) => row.id as number));
+}
+
+/**
+ * Clear the references a snapshot holds to catalog rows (source objects and
+ * attributes, domains, areas, systems) that have been deleted since it was
+ * taken, so restoring it does not trip over their foreign keys. The model
+ * rows come back without the link, like user-created ones.
+ */
+async function withoutDeletedCatalogReferences(snapshot: ModelVersionSnapshot): Promise<ModelVersionSnapshot> {
+  const { model, layers, objects, attributes: modelAttributes } = snapshot;
+  const ids = (values: Array<number | null>) =>
+    new Set(values.filter((value): value is number => typeof value === "number"));
+  const scoped = [model, ...layers, ...objects];
+
+  const [liveObjects, liveAttributes, liveDomains, liveAreas, liveSystems] = await Promise.all([
+    existingIds(dataObjects, dataObjects.id, ids(objects.map((object) => object.objectId))),
+    existingIds(attributes, attributes.id, ids(modelAttributes.map((attribute) => attribute.attributeId))),
+    existingIds(dataDomains, dataDomains.id, ids(scoped.map((row) => row.domainId))),
+    existingIds(dataAreas, dataAreas.id, ids(scoped.map((row) => row.dataAreaId))),
+    existingIds(
+      systems,
+      systems.id,
+      ids([...scoped.map((row) => row.targetSystemId), ...objects.map((object) => object.sourceSystemId)])
+    ),
+  ]);
+  const keep = (id: number | null, live: Set<number>) => (id !== null && live.has(id) ? id : null);
+  const placement = <T extends { domainId: number | null; dataAreaId: number | null; targetSystemId: number | null }>(
+    row: T
+  ): T => ({
+    ...row,
+    domainId: keep(row.domainId, liveDomains),
+    dataAreaId: keep(row.dataAreaId, liveAreas),
+    targetSystemId: keep(row.targetSystemId, liveSystems),
+  });
+
+  return {
+    ...snapshot,
+    model: placement(model),
+    layers: layers.map(placement),
+    objects: objects.map((object) => ({
+      ...placement(object),
+      objectId: keep(object.objectId, liveObjects),
+      sourceSystemId: keep(object.sourceSystemId, liveSystems),
+    })),
+    attributes: modelAttributes.map((attribute) => ({
+      ...attribute,
+      attributeId: keep(attribute.attributeId, liveAttributes),
+    })),
+  };
+}
+
+/**
+ * Drop a caller-supplied organizationId from an update patch so a row can
+ * never be moved to another tenant.
+ */
+function withoutOrganization<T extends object>(values: T): T {
+  const { organizationId: _organizationId, ...rest } = values as T & { organizationId?: unknown };
+  return rest as T;
+}
+
+/**
+ * Condition an update on the version the client based its edit on. Versions
+ * are serialized at millisecond precision while Postgres keeps microseconds.
+ */
+function atVersion(updatedAt: AnyColumn, expectedVersion: string | null | undefined): SQL | undefined {
+  if (!expectedVersion) {
+    return undefined;
+  }
+  return sql`date_trunc('milliseconds', ${updatedAt}) = (${expectedVersion}::timestamptz at time zone 'UTC')`;
+}
+
+/** A version-checked update that matched no row lost the race if the row still exists. */
+async function checkVersionedUpdate(
+  entity: string,
+  updated: unknown,
+  expectedVersion: string | null | undefined,
+  reload: () => Promise<VersionedRow | undefined>
+): Promise<void> {
+  if (updated || !expectedVersion) {
+    return;
+  }
+  const current = await reload();
+  if (current) {
+    throw new VersionConflictError(entity, current);
+  }
+}
+
+/** A version-checked delete that removed nothing fails its precondition if the row still exists. */
+async function checkVersionedDelete(
+  entity: string,
+  deleted: unknown[],
+  expectedVersion: string | null | undefined,
+  reload: () => Promise<VersionedRow | undefined>
+): Promise<void> {
+  if (deleted.length > 0 || !expectedVersion) {
+    return;
+  }
+  const current = await reload();
+  if (current) {
+    throw new VersionConflictError(entity, current, 412);
+  }
+}
+
+/**
+ * Threads whose object, attribute or relationship was deleted are left out
+ * rather than deleted, so they come back if the target is restored by undo
+ * or from a model version.
+ */
+const commentTargetExists = (): SQL =>
+  or(
+    eq(modelCommentThreads.targetType, "layer"),
+    and(
+      eq(modelCommentThreads.targetType, "object"),
+      inArray(modelCommentThreads.targetId, db.select({ id: dataModelObjects.id }).from(dataModelObjects))
+    ),
+    and(
+      eq(modelCommentThreads.targetType, "attribute"),
+      inArray(modelCommentThreads.targetId, db.select({ id: dataModelObjectAttributes.id }).from(dataModelObjectAttributes))
+    ),
+    and(
+      eq(modelCommentThreads.targetType, "relationship"),
+      inArray(
+        modelCommentThreads.targetId,
+        db.select({ id: dataModelObjectRelationships.id }).from(dataModelObjectRelationships)
+      )
+    )
+  )!;
+
+// Id subqueries for the requesting organization. Tables without their own
+// organizationId column are scoped through the parent they hang off.
+const organizationDataModelIds = () =>
+  db.select({ id: dataModels.id }).from(dataModels).where(eq(dataModels.organizationId, requireOrganizationId()));
+
+const organizationLayerIds = () =>
+  db
+    .select({ id: dataModelLayers.id })
+    .from(dataModelLayers)
+    .where(inArray(dataModelLayers.dataModelId, organizationDataModelIds()));
+
+const organizationModelObjectIds = () =>
+  db
+    .select({ id: dataModelObjects.id })
+    .from(dataModelObjects)
+    .where(inArray(dataModelObjects.modelId, organizationLayerIds()));
+
+const organizationDataObjectIds = () =>
+  db.select({ id: dataObjects.id }).from(dataObjects).where(eq(dataObjects.organizationId, requireOrganizationId()));
+
+const organizationDomainIds = () =>
+  db.select({ id: dataDomains.id }).from(dataDomains).where(eq(dataDomains.organizationId, requireOrganizationId()));
+
+const organizationCapabilityIds = () =>
+  db
+    .select({ id: businessCapabilities.id })
+    .from(businessCapabilities)
+    .where(eq(businessCapabilities.organizationId, requireOrganizationId()));
+
+interface AuditChange<T> {
+  before?: T | null;
+  after?: T | null;
+}
+
+// Where an audited row sits: the model family, and the model objects whose activity it belongs to
+interface AuditScope {
+  dataModelId?: number | null;
+  layerId?: number | null;
+  modelObjectIds?: number[];
+}
+
+const modelFamilyScope = (model: DataModel): AuditScope => ({ dataModelId: model.id });
+const layerScope = (layer: DataModelLayer): AuditScope => ({ dataModelId: layer.dataModelId });
+const modelObjectScope = (object: DataModelObject): AuditScope => ({ layerId: object.modelId, modelObjectIds: [object.id] });
+const modelAttributeScope = (attribute: DataModelObjectAttribute): AuditScope => ({
+  modelObjectIds: [attribute.modelObjectId],
+});
+const modelRelationshipScope = (relationship: DataModelObjectRelationship): AuditScope => ({
+  layerId: relationship.modelId,
+  modelObjectIds: Array.from(new Set([relationship.sourceModelObjectId, relationship.targetModelObjectId])),
+});
+const layerObjectScope = (link: DataModelLayerObject): AuditScope => ({
+  layerId: link.dataModelLayerId,
+  modelObjectIds: [link.dataModelObjectId],
+});
+
+const isChangeRecorded = <T>(action: AuditAction, change: AuditChange<T>): boolean => {
+  switch (action) {
+    case "create":
+      return !!change.after;
+    case "delete":
+      return !!change.before;
+    default:
+      return !!change.before && !!change.after && changedAuditFields(change.before, change.after).length > 0;
+  }
+};
+
+/**
+ * Append audit log entries for writes the storage layer has just made. The
+ * actor and request id come from the request's auth context (null for seed
+ * scripts). Creates without a row, deletes that matched nothing and updates
+ * that changed nothing are not recorded.
+ */
+async function recordAudit<T extends { id: number }>(
+  entityType: AuditEntityType,
+  action: AuditAction,
+  changes: AuditChange<T>[],
+  scopeOf: (row: T) => AuditScope = () => ({})
+): Promise<void> {
+  const recorded = changes.filter((change) => isChangeRecorded(action, change));
+  if (recorded.length === 0) {
+    return;
+  }
+
+  const scopes = recorded.map((change) => scopeOf((change.after ?? change.before) as T));
+
+  // Attributes only know their model object, and objects only their layer; resolve the model family
+  const objectLayers = new Map<number, number>();
+  const unplacedObjectIds = scopes
+    .filter((scope) => scope.dataModelId === undefined && !scope.layerId && scope.modelObjectIds?.length)
+    .map((scope) => scope.modelObjectIds![0]);
+  if (unplacedObjectIds.length > 0) {
+    const rows = await db
+      .select({ id: dataModelObjects.id, modelId: dataModelObjects.modelId })
+      .from(dataModelObjects)
+      .where(inArray(dataModelObjects.id, Array.from(new Set(unplacedObjectIds))));
+    rows.forEach((row) => objectLayers.set(row.id, row.modelId));
+  }
+
+  const layerOf = (scope: AuditScope) =>
+    scope.layerId ?? (scope.modelObjectIds?.length ? objectLayers.get(scope.modelObjectIds[0]) : undefined);
+  const layerFamilies = new Map<number, number>();
+  const layerIds = scopes.map(layerOf).filter((id): id is number => typeof id === "number");
+  if (layerIds.length > 0) {
+    const rows = await db
+      .select({ id: dataModelLayers.id, dataModelId: dataModelLayers.dataModelId })
+      .from(dataModelLayers)
+      .where(inArray(dataModelLayers.id, Array.from(new Set(layerIds))));
+    rows.forEach((row) => layerFamilies.set(row.id, row.dataModelId));
+  }
+
+  const context = getAuthContext();
+  const organizationId = requireOrganizationId();
+  const entries: InsertAuditLogEntry[] = recorded.map((change, index) => {
+    const scope = scopes[index];
+    const layerId = layerOf(scope);
+    return {
+      organizationId,
+      actorUserId: context?.userId ?? null,
+      entityType,
+      entityId: ((change.after ?? change.before) as T).id,
+      action,
+      before: redactAuditSecrets((change.before ?? null) as Record<string, unknown> | null),
+      after: redactAuditSecrets((change.after ?? null) as Record<string, unknown> | null),
+      dataModelId: scope.dataModelId ?? (layerId !== undefined ? layerFamilies.get(layerId) ?? null : null),
+      modelObjectIds: scope.modelObjectIds ?? [],
+      requestId: context?.requestId ?? null,
+    };
+  });
+
+  await db.insert(auditLogEntries).values(entries);
+}
+
+// Tables undo/redo replays operations on, and how their audit entries are scoped
+const historyTables = {
+  data_object: dataObjects,
+  attribute: attributes,
+  data_object_relationship: dataObjectRelationships,
+  data_model_object: dataModelObjects,
+  data_model_object_attribute: dataModelObjectAttributes,
+  data_model_object_relationship: dataModelObjectRelationships,
+  data_model_layer_object: dataModelLayerObjects,
+};
+
+// Model objects shown on a layer: placed there, or owned by it
+const layerModelObjectIds = (layerId: number) =>
+  db
+    .select({ id: dataModelObjects.id })
+    .from(dataModelObjects)
+    .where(
+      or(
+        eq(dataModelObjects.modelId, layerId),
+        inArray(
+          dataModelObjects.id,
+          db
+            .select({ id: dataModelLayerObjects.dataModelObjectId })
+            .from(dataModelLayerObjects)
+            .where(eq(dataModelLayerObjects.dataModelLayerId, layerId))
+        )
+      )
+    );
+
+/** Rows a replay on `layerId` may update or delete: the layer's own rows, and organization rows for shared tables. */
+const historyRowScope = (entityType: HistoryEntityType, layerId: number): SQL => {
+  switch (entityType) {
+    case "data_object":
+      return eq(dataObjects.organizationId, requireOrganizationId());
+    case "attribute":
+      return inArray(attributes.objectId, organizationDataObjectIds());
+    case "data_object_relationship":
+      return inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds());
+    case "data_model_object":
+      return inArray(dataModelObjects.id, layerModelObjectIds(layerId));
+    case "data_model_object_attribute":
+      return inArray(dataModelObjectAttributes.modelObjectId, layerModelObjectIds(layerId));
+    case "data_model_object_relationship":
+      return eq(dataModelObjectRelationships.modelId, layerId);
+    case "data_model_layer_object":
+      return inArray(dataModelLayerObjects.dataModelObjectId, layerModelObjectIds(layerId));
+  }
+};
+
+const isForeignKeyViolation = (error: unknown): boolean => {
+  const code = (error as { code?: string; cause?: { code?: string } } | null)?.code ??
+    (error as { cause?: { code?: string } } | null)?.cause?.code;
+  return code === "23503";
+};
+
+const historyScopes: Partial<Record<HistoryEntityType, (row: any) => AuditScope>> = {
+  data_model_object: modelObjectScope,
+  data_model_object_attribute: modelAttributeScope,
+  data_model_object_relationship: modelRelationshipScope,
+  data_model_layer_object: layerObjectScope,
+};
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: number;
+  dataModelId?: number;
+  modelObjectId?: number;
+  actorUserId?: number;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface OrganizationMember {
+  membershipId: number;
+  userId: number;
+  email: string;
+  name: string | null;
+  role: string;
+  isActive: boolean | null;
+  joinedAt: Date;
+}
 
 export interface CapabilitySystemMappingDetail {
   capabilityId: number;
@@ -69,7 +502,24 @@ export interface CapabilitySystemMappingDetail {
   systemColorCode: string | null;
 }
 
+export interface CapabilityModelMappingDetail extends CapabilityDataModelMapping {
+  modelName: string | null;
+}
+
+export interface CapabilityModelSystemMappingDetail extends CapabilityModelSystemMapping {
+  modelName: string | null;
+  systemName: string | null;
+}
+
+/** A model version without its snapshot, with the row counts the database read from the snapshot. */
+export interface ModelVersionListing extends Omit<DataModelVersion, "snapshot"> {
+  counts: { layers: number; objects: number; attributes: number; relationships: number };
+}
+
 export interface IStorage {
+  /** Run `work` in one database transaction; nested calls use a savepoint. */
+  transaction<T>(work: () => Promise<T>): Promise<T>;
+
   // Data Models (parent table)
   getDataModels(): Promise<DataModel[]>;
   getDataModel(id: number): Promise<DataModel | undefined>;
@@ -82,7 +532,7 @@ export interface IStorage {
   getDataModelLayer(id: number): Promise<DataModelLayer | undefined>;
   getDataModelLayerByModelAndKey(modelId: number, layerKey: string): Promise<DataModelLayer | undefined>;
   createDataModelLayer(layer: InsertDataModelLayer): Promise<DataModelLayer>;
-  updateDataModelLayer(id: number, layer: Partial<InsertDataModelLayer>): Promise<DataModelLayer>;
+  updateDataModelLayer(id: number, layer: Partial<InsertDataModelLayer>, expectedVersion?: string | null): Promise<DataModelLayer>;
   deleteDataModelLayer(id: number): Promise<void>;
 
   // Data Model Layer ↔ Object mappings
@@ -115,8 +565,8 @@ export interface IStorage {
   getDataObjectsByModel(modelId: number): Promise<DataObject[]>;
   getDataObjectsBySystem(systemId: number): Promise<DataObject[]>;
   createDataObject(object: InsertDataObject): Promise<DataObject>;
-  updateDataObject(id: number, object: Partial<InsertDataObject>): Promise<DataObject>;
-  deleteDataObject(id: number): Promise<void>;
+  updateDataObject(id: number, object: Partial<InsertDataObject>, expectedVersion?: string | null): Promise<DataObject>;
+  deleteDataObject(id: number, expectedVersion?: string | null): Promise<void>;
   deleteDataModelObjectsByObject(objectId: number): Promise<void>;
 
   // Data Model Objects
@@ -124,7 +574,7 @@ export interface IStorage {
   getDataModelObjectsByModel(modelId: number): Promise<DataModelObject[]>;
   getDataModelObject(id: number): Promise<DataModelObject | undefined>;
   createDataModelObject(object: InsertDataModelObject): Promise<DataModelObject>;
-  updateDataModelObject(id: number, object: Partial<InsertDataModelObject>): Promise<DataModelObject>;
+  updateDataModelObject(id: number, object: Partial<InsertDataModelObject>, expectedVersion?: string | null): Promise<DataModelObject>;
   deleteDataModelObject(id: number): Promise<void>;
 
   // Attributes
@@ -133,16 +583,22 @@ export interface IStorage {
   getAttribute(id: number): Promise<Attribute | undefined>;
   getAttributesByObject(objectId: number): Promise<Attribute[]>;
   createAttribute(attribute: InsertAttribute): Promise<Attribute>;
-  updateAttribute(id: number, attribute: Partial<InsertAttribute>): Promise<Attribute>;
-  deleteAttribute(id: number): Promise<void>;
+  updateAttribute(id: number, attribute: Partial<InsertAttribute>, expectedVersion?: string | null): Promise<Attribute>;
+  deleteAttribute(id: number, expectedVersion?: string | null): Promise<void>;
   deleteAttributesByObject(objectId: number): Promise<void>;
+  /** The subset of `attributeIds` still referenced by model layer attributes. */
+  getReferencedAttributeIds(attributeIds: number[]): Promise<number[]>;
 
   // Data Model Object Attributes
   getDataModelObjectAttributes(): Promise<DataModelObjectAttribute[]>;
   getDataModelObjectAttribute(id: number): Promise<DataModelObjectAttribute | undefined>;
   createDataModelObjectAttribute(attribute: InsertDataModelObjectAttribute): Promise<DataModelObjectAttribute>;
-  updateDataModelObjectAttribute(id: number, attribute: Partial<InsertDataModelObjectAttribute>): Promise<DataModelObjectAttribute>;
-  deleteDataModelObjectAttribute(id: number): Promise<void>;
+  updateDataModelObjectAttribute(
+    id: number,
+    attribute: Partial<InsertDataModelObjectAttribute>,
+    expectedVersion?: string | null
+  ): Promise<DataModelObjectAttribute>;
+  deleteDataModelObjectAttribute(id: number, expectedVersion?: string | null): Promise<void>;
 
   // Data Model Properties
   getDataModelProperties(): Promise<DataModelProperty[]>;
@@ -162,8 +618,12 @@ export interface IStorage {
   getDataModelObjectRelationship(id: number): Promise<DataModelObjectRelationship | undefined>;
   getDataModelObjectRelationshipsByModel(modelId: number): Promise<DataModelObjectRelationship[]>;
   createDataModelObjectRelationship(relationship: InsertDataModelObjectRelationship): Promise<DataModelObjectRelationship>;
-  updateDataModelObjectRelationship(id: number, relationship: Partial<InsertDataModelObjectRelationship>): Promise<DataModelObjectRelationship>;
-  deleteDataModelObjectRelationship(id: number): Promise<void>;
+  updateDataModelObjectRelationship(
+    id: number,
+    relationship: Partial<InsertDataModelObjectRelationship>,
+    expectedVersion?: string | null
+  ): Promise<DataModelObjectRelationship>;
+  deleteDataModelObjectRelationship(id: number, expectedVersion?: string | null): Promise<void>;
   cleanupOrphanedRelationships(modelId: number): Promise<{ deleted: number }>;
 
   // Systems
@@ -199,40 +659,148 @@ export interface IStorage {
   deleteCapabilityDomainMapping(id: number): Promise<void>;
   deleteCapabilityDataAreaMapping(id: number): Promise<void>;
   deleteCapabilitySystemMapping(id: number): Promise<void>;
+
+  // Capability → Model traceability (scoped through the capability)
+  getCapabilityModelMappings(capabilityId?: number): Promise<CapabilityModelMappingDetail[]>;
+  createCapabilityModelMapping(mapping: InsertCapabilityDataModelMapping): Promise<CapabilityDataModelMapping>;
+  updateCapabilityModelMapping(
+    id: number,
+    mapping: Partial<InsertCapabilityDataModelMapping>,
+  ): Promise<CapabilityDataModelMapping>;
+  deleteCapabilityModelMapping(id: number): Promise<void>;
+  getCapabilityModelSystemMappings(capabilityId?: number): Promise<CapabilityModelSystemMappingDetail[]>;
+  createCapabilityModelSystemMapping(mapping: InsertCapabilityModelSystemMapping): Promise<CapabilityModelSystemMapping>;
+  updateCapabilityModelSystemMapping(
+    id: number,
+    mapping: Partial<InsertCapabilityModelSystemMapping>,
+  ): Promise<CapabilityModelSystemMapping>;
+  deleteCapabilityModelSystemMapping(id: number): Promise<void>;
+
+  // Model Versions
+  getModelVersionsByModel(dataModelId: number): Promise<ModelVersionListing[]>;
+  getModelVersion(id: number): Promise<DataModelVersion | undefined>;
+  createModelVersion(version: InsertDataModelVersion): Promise<DataModelVersion>;
+  getModelVersionTagsByModel(dataModelId: number): Promise<DataModelVersionTag[]>;
+  getModelVersionTag(id: number): Promise<DataModelVersionTag | undefined>;
+  createModelVersionTag(tag: InsertDataModelVersionTag): Promise<DataModelVersionTag>;
+  deleteModelVersionTag(id: number): Promise<void>;
+  captureModelFamilySnapshot(dataModelId: number): Promise<ModelVersionSnapshot>;
+  restoreModelFamilySnapshot(dataModelId: number, snapshot: ModelVersionSnapshot): Promise<void>;
+
+  // Model Lifecycle (phases are shared by all organizations; assignments are scoped through their model)
+  getLifecyclePhases(): Promise<ModelLifecyclePhase[]>;
+  createLifecyclePhases(phases: InsertModelLifecyclePhase[]): Promise<void>;
+  getModelLifecycleAssignments(dataModelId?: number): Promise<ModelLifecycleAssignment[]>;
+  createModelLifecycleAssignment(assignment: InsertModelLifecycleAssignment): Promise<ModelLifecycleAssignment>;
+  updateModelLifecycleAssignment(
+    id: number,
+    assignment: Partial<InsertModelLifecycleAssignment>,
+  ): Promise<ModelLifecycleAssignment>;
+
+  // Model Comments (threads are scoped through their layer; comments through their thread)
+  getCommentThreadsByLayer(layerId: number, status?: string): Promise<ModelCommentThread[]>;
+  getCommentThread(id: number): Promise<ModelCommentThread | undefined>;
+  createCommentThread(thread: InsertModelCommentThread): Promise<ModelCommentThread>;
+  updateCommentThread(id: number, thread: Partial<InsertModelCommentThread>): Promise<ModelCommentThread>;
+  getCommentsByThreads(threadIds: number[]): Promise<ModelComment[]>;
+  createComment(comment: InsertModelComment): Promise<ModelComment>;
+
+  // Audit Log (append-only; entries are written by the mutations above)
+  getAuditLogEntries(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }>;
+  getAuditLogEntriesByRequests(requestIds: string[], actorUserId: number): Promise<AuditLogEntry[]>;
+
+  // Undo/Redo History (commands per user per layer, scoped through their layer)
+  getHistoryCommands(layerId: number, userId: number): Promise<ModelHistoryCommand[]>;
+  createHistoryCommand(command: InsertModelHistoryCommand): Promise<ModelHistoryCommand>;
+  updateHistoryCommand(id: number, command: Partial<InsertModelHistoryCommand>): Promise<ModelHistoryCommand>;
+  deleteHistoryCommands(ids: number[]): Promise<void>;
+  applyHistoryOperations(layerId: number, operations: HistoryOperation[]): Promise<void>;
+
+  // Organization Members & Invitations (organization passed explicitly; used before a request is authenticated)
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  setUserActiveOrganization(userId: number, organizationId: number): Promise<void>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]>;
+  getMembership(organizationId: number, userId: number): Promise<Membership | undefined>;
+  createMembership(membership: InsertMembership): Promise<Membership>;
+  updateMembershipRole(organizationId: number, userId: number, role: string): Promise<Membership | undefined>;
+  deleteMembership(organizationId: number, userId: number): Promise<void>;
+  getPendingInvitations(organizationId: number): Promise<Invitation[]>;
+  getInvitation(organizationId: number, id: number): Promise<Invitation | undefined>;
+  getInvitationByToken(token: string): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  updateInvitation(id: number, invitation: Partial<InsertInvitation>): Promise<Invitation>;
+  deleteInvitation(id: number): Promise<void>;
+
+  // Auth Sessions (not organization scoped; a session belongs to a user)
+  createAuthSession(session: InsertAuthSession): Promise<AuthSession>;
+  getAuthSession(id: number): Promise<AuthSession | undefined>;
+  updateAuthSession(id: number, session: Partial<InsertAuthSession>): Promise<AuthSession | undefined>;
+  /** Replace the refresh token hash only if it is still `expectedHash` and the session is not revoked. */
+  rotateAuthSession(id: number, expectedHash: string, session: Partial<InsertAuthSession>): Promise<AuthSession | undefined>;
+  revokeUserAuthSessions(userId: number): Promise<number>;
 }
 
 export class Storage implements IStorage {
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return await db.transaction(async (tx) => transactionContext.run(tx as unknown as Database, work));
+  }
+
   // Data Models
   async getDataModels(): Promise<DataModel[]> {
-    return await db.select().from(dataModels);
+    return await db.select().from(dataModels).where(eq(dataModels.organizationId, requireOrganizationId()));
   }
 
   async getDataModel(id: number): Promise<DataModel | undefined> {
-    const result = await db.select().from(dataModels).where(eq(dataModels.id, id));
+    const result = await db
+      .select()
+      .from(dataModels)
+      .where(and(eq(dataModels.id, id), eq(dataModels.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async createDataModel(model: InsertDataModel): Promise<DataModel> {
-    const result = await db.insert(dataModels).values(model).returning();
+    const result = await db
+      .insert(dataModels)
+      .values({ ...model, organizationId: requireOrganizationId() })
+      .returning();
+    await recordAudit("data_model", "create", [{ after: result[0] }], modelFamilyScope);
     return result[0];
   }
 
   async updateDataModel(id: number, model: Partial<InsertDataModel>): Promise<DataModel> {
-    const result = await db.update(dataModels).set(model).where(eq(dataModels.id, id)).returning();
+    const before = await this.getDataModel(id);
+    const result = await db
+      .update(dataModels)
+      .set(withoutOrganization(model))
+      .where(and(eq(dataModels.id, id), eq(dataModels.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("data_model", "update", [{ before, after: result[0] }], modelFamilyScope);
     return result[0];
   }
 
   async deleteDataModel(id: number): Promise<void> {
-    await db.delete(dataModels).where(eq(dataModels.id, id));
+    const deleted = await db
+      .delete(dataModels)
+      .where(and(eq(dataModels.id, id), eq(dataModels.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("data_model", "delete", deleted.map((before) => ({ before })), modelFamilyScope);
   }
 
   // Data Model Layers (child table - Flow, Conceptual, Logical, Physical)
   async getDataModelLayers(): Promise<DataModelLayer[]> {
-    return await db.select().from(dataModelLayers);
+    return await db
+      .select()
+      .from(dataModelLayers)
+      .where(inArray(dataModelLayers.dataModelId, organizationDataModelIds()));
   }
 
   async getDataModelLayer(id: number): Promise<DataModelLayer | undefined> {
-    const result = await db.select().from(dataModelLayers).where(eq(dataModelLayers.id, id));
+    const result = await db
+      .select()
+      .from(dataModelLayers)
+      .where(and(eq(dataModelLayers.id, id), inArray(dataModelLayers.dataModelId, organizationDataModelIds())));
     return result[0];
   }
 
@@ -243,7 +811,8 @@ export class Storage implements IStorage {
       .where(
         and(
           eq(dataModelLayers.dataModelId, modelId),
-          eq(dataModelLayers.layer, layerKey)
+          eq(dataModelLayers.layer, layerKey),
+          inArray(dataModelLayers.dataModelId, organizationDataModelIds())
         )
       );
     return result[0];
@@ -263,11 +832,18 @@ export class Storage implements IStorage {
           targetSystemId: layerData.targetSystemId ?? null,
           domainId: layerData.domainId ?? null,
           dataAreaId: layerData.dataAreaId ?? null,
+          organizationId: requireOrganizationId(),
         })
         .returning();
+      await recordAudit("data_model", "create", [{ after: modelInsert[0] }], modelFamilyScope);
 
       dataModelId = modelInsert[0]?.id ?? null;
     } else {
+      const parentModel = await this.getDataModel(dataModelId);
+      if (!parentModel) {
+        throw new Error(`Data model ${dataModelId} not found`);
+      }
+
       // Keep the parent model metadata loosely in sync when explicit values are provided
       const modelUpdates: Partial<DataModel> = {};
       if (layerData.targetSystemId !== undefined) {
@@ -280,13 +856,15 @@ export class Storage implements IStorage {
         modelUpdates.dataAreaId = layerData.dataAreaId;
       }
       if (Object.keys(modelUpdates).length > 0) {
-        await db
+        const updatedModel = await db
           .update(dataModels)
           .set({
             ...modelUpdates,
             updatedAt: new Date(),
           })
-          .where(eq(dataModels.id, dataModelId));
+          .where(eq(dataModels.id, dataModelId))
+          .returning();
+        await recordAudit("data_model", "update", [{ before: parentModel, after: updatedModel[0] }], modelFamilyScope);
       }
     }
 
@@ -301,16 +879,33 @@ export class Storage implements IStorage {
         dataModelId,
       })
       .returning();
+    await recordAudit("data_model_layer", "create", [{ after: result[0] }], layerScope);
 
     return result[0];
   }
 
-  async updateDataModelLayer(id: number, layer: Partial<InsertDataModelLayer>): Promise<DataModelLayer> {
+  async updateDataModelLayer(
+    id: number,
+    layer: Partial<InsertDataModelLayer>,
+    expectedVersion?: string | null
+  ): Promise<DataModelLayer> {
     const existing = await this.getDataModelLayer(id);
     if (!existing) {
       throw new Error(`Data model layer ${id} not found`);
     }
 
+    // Written first so a version conflict leaves the parent model untouched
+    const result = await db
+      .update(dataModelLayers)
+      .set({
+        ...layer,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(dataModelLayers.id, id), atVersion(dataModelLayers.updatedAt, expectedVersion)))
+      .returning();
+    await checkVersionedUpdate("Model", result[0], expectedVersion, () => this.getDataModelLayer(id));
+    await recordAudit("data_model_layer", "update", [{ before: existing, after: result[0] }], layerScope);
+
     // Keep the parent model metadata loosely in sync
     const modelUpdates: Partial<DataModel> = {};
     if (layer.name !== undefined && existing.layer === "flow") {
@@ -327,25 +922,19 @@ export class Storage implements IStorage {
     }
     if (Object.keys(modelUpdates).length > 0) {
       if (existing.dataModelId) {
-        await db
+        const parentModel = await this.getDataModel(existing.dataModelId);
+        const updatedModel = await db
           .update(dataModels)
           .set({
             ...modelUpdates,
             updatedAt: new Date(),
           })
-          .where(eq(dataModels.id, existing.dataModelId));
+          .where(eq(dataModels.id, existing.dataModelId))
+          .returning();
+        await recordAudit("data_model", "update", [{ before: parentModel, after: updatedModel[0] }], modelFamilyScope);
       }
     }
 
-    const result = await db
-      .update(dataModelLayers)
-      .set({
-        ...layer,
-        updatedAt: new Date(),
-      })
-      .where(eq(dataModelLayers.id, id))
-      .returning();
-
     return result[0];
   }
 
@@ -356,6 +945,7 @@ export class Storage implements IStorage {
     }
 
     await db.delete(dataModelLayers).where(eq(dataModelLayers.id, id));
+    await recordAudit("data_model_layer", "delete", [{ before: existing }], layerScope);
 
     // Check if this was the last layer in the parent model
     const siblings = await db
@@ -364,7 +954,8 @@ export class Storage implements IStorage {
       .where(eq(dataModelLayers.dataModelId, existing.dataModelId));
 
     if (siblings.length === 0) {
-      await db.delete(dataModels).where(eq(dataModels.id, existing.dataModelId));
+      const deletedModels = await db.delete(dataModels).where(eq(dataModels.id, existing.dataModelId)).returning();
+      await recordAudit("data_model", "delete", deletedModels.map((before) => ({ before })), modelFamilyScope);
     }
   }
 
@@ -373,10 +964,19 @@ export class Storage implements IStorage {
     return await db
       .select()
       .from(dataModelLayerObjects)
-      .where(eq(dataModelLayerObjects.dataModelLayerId, layerId));
+      .where(
+        and(
+          eq(dataModelLayerObjects.dataModelLayerId, layerId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
+        )
+      );
   }
 
   async linkDataModelObjectToLayer(link: InsertDataModelLayerObject): Promise<DataModelLayerObject> {
+    if (!(await this.getDataModelLayer(link.dataModelLayerId))) {
+      throw new Error(`Data model layer ${link.dataModelLayerId} not found`);
+    }
+
     // Check if link already exists
     const existing = await db
       .select()
@@ -393,20 +993,25 @@ export class Storage implements IStorage {
     }
 
     const result = await db.insert(dataModelLayerObjects).values(link).returning();
+    await recordAudit("data_model_layer_object", "create", [{ after: result[0] }], layerObjectScope);
     return result[0];
   }
 
   async unlinkDataModelObjectFromLayer(layerId: number, objectId: number): Promise<void> {
-    await db
+    const deleted = await db
       .delete(dataModelLayerObjects)
       .where(
         and(
           eq(dataModelLayerObjects.dataModelLayerId, layerId),
-          eq(dataModelLayerObjects.dataModelObjectId, objectId)
+          eq(dataModelLayerObjects.dataModelObjectId, objectId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
         )
-      );
+      )
+      .returning();
+    await recordAudit("data_model_layer_object", "delete", deleted.map((before) => ({ before })), layerObjectScope);
   }
 
+  // Positions are layout rather than metadata and are not audited; canvas undo records moves itself
   async updateLayerObjectPosition(
     layerId: number, 
     objectId: number, 
@@ -423,7 +1028,8 @@ export class Storage implements IStorage {
       .where(
         and(
           eq(dataModelLayerObjects.dataModelLayerId, layerId),
-          eq(dataModelLayerObjects.dataModelObjectId, objectId)
+          eq(dataModelLayerObjects.dataModelObjectId, objectId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
         )
       )
       .returning();
@@ -443,7 +1049,8 @@ export class Storage implements IStorage {
       .where(
         and(
           eq(dataModelLayerObjects.dataModelLayerId, layerId),
-          eq(dataModelLayerObjects.dataModelObjectId, objectId)
+          eq(dataModelLayerObjects.dataModelObjectId, objectId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
         )
       );
     return result[0];
@@ -463,105 +1070,224 @@ export class Storage implements IStorage {
         positionY: dataModelLayerObjects.positionY
       })
       .from(dataModelLayerObjects)
-      .where(eq(dataModelLayerObjects.dataModelLayerId, layerId));
+      .where(
+        and(
+          eq(dataModelLayerObjects.dataModelLayerId, layerId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
+        )
+      );
   }
 
   // Data Domains
   async getDataDomains(): Promise<DataDomain[]> {
-    return await db.select().from(dataDomains);
+    return await db.select().from(dataDomains).where(eq(dataDomains.organizationId, requireOrganizationId()));
   }
 
   async getDataDomain(id: number): Promise<DataDomain | undefined> {
-    const result = await db.select().from(dataDomains).where(eq(dataDomains.id, id));
+    const result = await db
+      .select()
+      .from(dataDomains)
+      .where(and(eq(dataDomains.id, id), eq(dataDomains.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async getDataDomainByName(name: string): Promise<DataDomain | undefined> {
-    const result = await db.select().from(dataDomains).where(eq(dataDomains.name, name));
+    const result = await db
+      .select()
+      .from(dataDomains)
+      .where(and(eq(dataDomains.name, name), eq(dataDomains.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async createDataDomain(domain: InsertDataDomain): Promise<DataDomain> {
-    const result = await db.insert(dataDomains).values(domain).returning();
+    const result = await db
+      .insert(dataDomains)
+      .values({ ...domain, organizationId: requireOrganizationId() })
+      .returning();
+    await recordAudit("data_domain", "create", [{ after: result[0] }]);
     return result[0];
   }
 
   async updateDataDomain(id: number, domain: Partial<InsertDataDomain>): Promise<DataDomain> {
-    const result = await db.update(dataDomains).set(domain).where(eq(dataDomains.id, id)).returning();
+    const before = await this.getDataDomain(id);
+    const result = await db
+      .update(dataDomains)
+      .set(withoutOrganization(domain))
+      .where(and(eq(dataDomains.id, id), eq(dataDomains.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("data_domain", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
   async deleteDataDomain(id: number): Promise<void> {
-    await db.delete(dataDomains).where(eq(dataDomains.id, id));
+    const deleted = await db
+      .delete(dataDomains)
+      .where(and(eq(dataDomains.id, id), eq(dataDomains.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("data_domain", "delete", deleted.map((before) => ({ before })));
   }
 
   // Data Areas
   async getDataAreas(): Promise<DataArea[]> {
-    return await db.select().from(dataAreas);
+    return await db.select().from(dataAreas).where(inArray(dataAreas.domainId, organizationDomainIds()));
   }
 
   async getDataArea(id: number): Promise<DataArea | undefined> {
-    const result = await db.select().from(dataAreas).where(eq(dataAreas.id, id));
+    const result = await db
+      .select()
+      .from(dataAreas)
+      .where(and(eq(dataAreas.id, id), inArray(dataAreas.domainId, organizationDomainIds())));
     return result[0];
   }
 
   async getDataAreaByName(name: string, domainId?: number): Promise<DataArea | undefined> {
-    let query = db.select().from(dataAreas).where(eq(dataAreas.name, name));
-    if (domainId) {
-      query = query.where(eq(dataAreas.domainId, domainId));
-    }
-    const result = await query;
+    const result = await db
+      .select()
+      .from(dataAreas)
+      .where(
+        and(
+          eq(dataAreas.name, name),
+          inArray(dataAreas.domainId, organizationDomainIds()),
+          domainId ? eq(dataAreas.domainId, domainId) : undefined
+        )
+      );
     return result[0];
   }
 
   async getDataAreasByDomain(domainId: number): Promise<DataArea[]> {
-    return await db.select().from(dataAreas).where(eq(dataAreas.domainId, domainId));
+    return await db
+      .select()
+      .from(dataAreas)
+      .where(and(eq(dataAreas.domainId, domainId), inArray(dataAreas.domainId, organizationDomainIds())));
   }
 
   async createDataArea(area: InsertDataArea): Promise<DataArea> {
+    if (!(await this.getDataDomain(area.domainId))) {
+      throw new Error(`Data domain ${area.domainId} not found`);
+    }
     const result = await db.insert(dataAreas).values(area).returning();
+    await recordAudit("data_area", "create", [{ after: result[0] }]);
     return result[0];
   }
 
   async updateDataArea(id: number, area: Partial<InsertDataArea>): Promise<DataArea> {
-    const result = await db.update(dataAreas).set(area).where(eq(dataAreas.id, id)).returning();
+    if (area.domainId !== undefined && !(await this.getDataDomain(area.domainId))) {
+      throw new Error(`Data domain ${area.domainId} not found`);
+    }
+    const before = await this.getDataArea(id);
+    const result = await db
+      .update(dataAreas)
+      .set(area)
+      .where(and(eq(dataAreas.id, id), inArray(dataAreas.domainId, organizationDomainIds())))
+      .returning();
+    await recordAudit("data_area", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
   async deleteDataArea(id: number): Promise<void> {
-    await db.delete(dataAreas).where(eq(dataAreas.id, id));
+    const deleted = await db
+      .delete(dataAreas)
+      .where(and(eq(dataAreas.id, id), inArray(dataAreas.domainId, organizationDomainIds())))
+      .returning();
+    await recordAudit("data_area", "delete", deleted.map((before) => ({ before })));
   }
 
   // Data Objects
   async getDataObjects(): Promise<DataObject[]> {
-    return await db.select().from(dataObjects);
+    return await db.select().from(dataObjects).where(eq(dataObjects.organizationId, requireOrganizationId()));
   }
 
   async getAllDataObjects(): Promise<DataObject[]> {
-    return await db.select().from(dataObjects);
+    return await db.select().from(dataObjects).where(eq(dataObjects.organizationId, requireOrganizationId()));
   }
 
   async getDataObject(id: number): Promise<DataObject | undefined> {
-    const result = await db.select().from(dataObjects).where(eq(dataObjects.id, id));
+    const result = await db
+      .select()
+      .from(dataObjects)
+      .where(and(eq(dataObjects.id, id), eq(dataObjects.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async createDataObject(object: InsertDataObject): Promise<DataObject> {
-    const result = await db.insert(dataObjects).values(object).returning();
+    const result = await db
+      .insert(dataObjects)
+      .values({ ...object, organizationId: requireOrganizationId() })
+      .returning();
+    await recordAudit("data_object", "create", [{ after: result[0] }]);
     return result[0];
   }
 
-  async updateDataObject(id: number, object: Partial<InsertDataObject>): Promise<DataObject> {
-    const result = await db.update(dataObjects).set(object).where(eq(dataObjects.id, id)).returning();
+  async updateDataObject(id: number, object: Partial<InsertDataObject>, expectedVersion?: string | null): Promise<DataObject> {
+    const before = await this.getDataObject(id);
+    const result = await db
+      .update(dataObjects)
+      .set({ ...withoutOrganization(object), updatedAt: new Date() })
+      .where(
+        and(
+          eq(dataObjects.id, id),
+          eq(dataObjects.organizationId, requireOrganizationId()),
+          atVersion(dataObjects.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedUpdate("Object", result[0], expectedVersion, () => this.getDataObject(id));
+    await recordAudit("data_object", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
-  async deleteDataObject(id: number): Promise<void> {
-    await db.delete(dataObjects).where(eq(dataObjects.id, id));
+  async deleteDataObject(id: number, expectedVersion?: string | null): Promise<void> {
+    const deleted = await db
+      .delete(dataObjects)
+      .where(
+        and(
+          eq(dataObjects.id, id),
+          eq(dataObjects.organizationId, requireOrganizationId()),
+          atVersion(dataObjects.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedDelete("Object", deleted, expectedVersion, () => this.getDataObject(id));
+    await recordAudit("data_object", "delete", deleted.map((before) => ({ before })));
   }
 
   async deleteDataModelObjectsByObject(objectId: number): Promise<void> {
-    await db.delete(dataModelObjects).where(eq(dataModelObjects.objectId, objectId));
+    const modelObjects = await db
+      .select({ id: dataModelObjects.id })
+      .from(dataModelObjects)
+      .where(
+        and(eq(dataModelObjects.objectId, objectId), inArray(dataModelObjects.objectId, organizationDataObjectIds()))
+      );
+    const links = await this.layerLinksOf(modelObjects.map((object) => object.id));
+    const deleted = await db
+      .delete(dataModelObjects)
+      .where(
+        and(eq(dataModelObjects.objectId, objectId), inArray(dataModelObjects.objectId, organizationDataObjectIds()))
+      )
+      .returning();
+    await this.recordDeletedModelObjects(deleted, links);
+  }
+
+  /**
+   * Canvas placements go away with their model object through ON DELETE
+   * CASCADE. Read them before the delete so they can be recorded with it and
+   * undoing the delete restores the positions.
+   */
+  private async layerLinksOf(modelObjectIds: number[]): Promise<DataModelLayerObject[]> {
+    if (modelObjectIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(dataModelLayerObjects)
+      .where(inArray(dataModelLayerObjects.dataModelObjectId, modelObjectIds));
+  }
+
+  private async recordDeletedModelObjects(deleted: DataModelObject[], links: DataModelLayerObject[]): Promise<void> {
+    const deletedIds = deleted.map((object) => object.id);
+    const removedLinks = links.filter((link) => deletedIds.includes(link.dataModelObjectId));
+    await recordAudit("data_model_layer_object", "delete", removedLinks.map((before) => ({ before })), layerObjectScope);
+    await recordAudit("data_model_object", "delete", deleted.map((before) => ({ before })), modelObjectScope);
   }
 
   private async ensureLayerMappingsForModelObject(modelObject: DataModelObject): Promise<void> {
@@ -605,7 +1331,7 @@ export class Storage implements IStorage {
     const timestamp = new Date();
 
     // Create entries in data_model_layer_objects for all layers
-    await db
+    const links = await db
       .insert(dataModelLayerObjects)
       .values(
         siblingLayers.map((layer) => ({
@@ -619,7 +1345,9 @@ export class Storage implements IStorage {
       )
       .onConflictDoNothing({
         target: [dataModelLayerObjects.dataModelLayerId, dataModelLayerObjects.dataModelObjectId],
-      });
+      })
+      .returning();
+    await recordAudit("data_model_layer_object", "create", links.map((after) => ({ after })), layerObjectScope);
 
     console.log(`[STORAGE] Successfully created layer mappings for object ${modelObject.id} across ${siblingLayers.length} layers`);
   }
@@ -767,7 +1495,8 @@ export class Storage implements IStorage {
       };
 
       try {
-        await db.insert(dataModelObjectRelationships).values(newRelationship);
+        const inserted = await db.insert(dataModelObjectRelationships).values(newRelationship).returning();
+        await recordAudit("data_model_object_relationship", "create", [{ after: inserted[0] }], modelRelationshipScope);
         created++;
         console.log(`[STORAGE] Created model relationship: ${sourceModelObjectId} -> ${targetModelObjectId} (${dataRel.type})`);
       } catch (error) {
@@ -784,17 +1513,20 @@ export class Storage implements IStorage {
       .select({ dataObject: dataObjects })
       .from(dataObjects)
       .innerJoin(dataModelObjects, eq(dataObjects.id, dataModelObjects.objectId))
-      .where(eq(dataModelObjects.modelId, modelId));
+      .where(and(eq(dataModelObjects.modelId, modelId), eq(dataObjects.organizationId, requireOrganizationId())));
     return result.map((row) => row.dataObject);
   }
 
   async getDataObjectsBySystem(systemId: number): Promise<DataObject[]> {
-    return await db.select().from(dataObjects).where(eq(dataObjects.systemId, systemId));
+    return await db
+      .select()
+      .from(dataObjects)
+      .where(and(eq(dataObjects.systemId, systemId), eq(dataObjects.organizationId, requireOrganizationId())));
   }
 
   // Data Model Objects
   async getDataModelObjects(): Promise<DataModelObject[]> {
-    return await db.select().from(dataModelObjects);
+    return await db.select().from(dataModelObjects).where(inArray(dataModelObjects.modelId, organizationLayerIds()));
   }
 
   async getDataModelObjectsByModel(modelId: number): Promise<DataModelObject[]> {
@@ -807,7 +1539,12 @@ export class Storage implements IStorage {
         dataModelObjects,
         eq(dataModelLayerObjects.dataModelObjectId, dataModelObjects.id)
       )
-      .where(eq(dataModelLayerObjects.dataModelLayerId, modelId));
+      .where(
+        and(
+          eq(dataModelLayerObjects.dataModelLayerId, modelId),
+          inArray(dataModelLayerObjects.dataModelLayerId, organizationLayerIds())
+        )
+      );
 
     const resolveTime = (value: Date | null | undefined): number => {
       if (!value) {
@@ -847,11 +1584,33 @@ export class Storage implements IStorage {
   }
 
   async getDataModelObject(id: number): Promise<DataModelObject | undefined> {
-    const result = await db.select().from(dataModelObjects).where(eq(dataModelObjects.id, id));
+    const result = await db
+      .select()
+      .from(dataModelObjects)
+      .where(and(eq(dataModelObjects.id, id), inArray(dataModelObjects.modelId, organizationLayerIds())));
     return result[0];
   }
 
+  /** The layer and data object a model object points at must belong to the requesting organization. */
+  private async assertModelObjectReferences(objects: Array<Partial<InsertDataModelObject>>): Promise<void> {
+    const layerIds = Array.from(new Set(objects.map(obj => obj.modelId).filter((id): id is number => typeof id === "number")));
+    const layers = await Promise.all(layerIds.map(id => this.getDataModelLayer(id)));
+    const missingLayer = layerIds.find((_, idx) => !layers[idx]);
+    if (missingLayer !== undefined) {
+      throw new Error(`Data model layer ${missingLayer} not found`);
+    }
+
+    const objectIds = Array.from(new Set(objects.map(obj => obj.objectId).filter((id): id is number => typeof id === "number")));
+    const dataObjects = await Promise.all(objectIds.map(id => this.getDataObject(id)));
+    const missingObject = objectIds.find((_, idx) => !dataObjects[idx]);
+    if (missingObject !== undefined) {
+      throw new Error(`Data object ${missingObject} not found`);
+    }
+  }
+
   async createDataModelObject(object: InsertDataModelObject): Promise<DataModelObject> {
+    await this.assertModelObjectReferences([object]);
+
     // If objectId is provided and name/description are not, fetch from data_objects
     let enrichedObject = { ...object };
     
@@ -882,6 +1641,7 @@ export class Storage implements IStorage {
     if (!created) {
       throw new Error("Failed to create data model object");
     }
+    await recordAudit("data_model_object", "create", [{ after: created }], modelObjectScope);
 
     await this.ensureLayerMappingsForModelObject(created);
 
@@ -895,6 +1655,8 @@ export class Storage implements IStorage {
 
   async createDataModelObjectsBatch(objects: InsertDataModelObject[]): Promise<DataModelObject[]> {
     if (objects.length === 0) return [];
+
+    await this.assertModelObjectReferences(objects);
     
     // Batch enrichment: fetch all needed data objects at once
     const objectIdsToFetch = objects
@@ -930,6 +1692,7 @@ export class Storage implements IStorage {
     
     // Batch insert
     const result = await db.insert(dataModelObjects).values(enrichedObjects).returning();
+    await recordAudit("data_model_object", "create", result.map((after) => ({ after })), modelObjectScope);
     
     // Batch layer mappings and relationship population (done in parallel)
     await Promise.all(result.map(created => this.ensureLayerMappingsForModelObject(created)));
@@ -945,85 +1708,202 @@ export class Storage implements IStorage {
     return result;
   }
 
-  async updateDataModelObject(id: number, object: Partial<InsertDataModelObject>): Promise<DataModelObject> {
-    const result = await db.update(dataModelObjects).set(object).where(eq(dataModelObjects.id, id)).returning();
+  async updateDataModelObject(
+    id: number,
+    object: Partial<InsertDataModelObject>,
+    expectedVersion?: string | null
+  ): Promise<DataModelObject> {
+    await this.assertModelObjectReferences([object]);
+    const before = await this.getDataModelObject(id);
+    const result = await db
+      .update(dataModelObjects)
+      .set({ ...object, updatedAt: new Date() })
+      .where(
+        and(
+          eq(dataModelObjects.id, id),
+          inArray(dataModelObjects.modelId, organizationLayerIds()),
+          atVersion(dataModelObjects.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedUpdate("Object", result[0], expectedVersion, () => this.getDataModelObject(id));
+    await recordAudit("data_model_object", "update", [{ before, after: result[0] }], modelObjectScope);
     return result[0];
   }
 
   async deleteDataModelObject(id: number): Promise<void> {
-    await db.delete(dataModelObjects).where(eq(dataModelObjects.id, id));
+    const links = await this.layerLinksOf([id]);
+    const deleted = await db
+      .delete(dataModelObjects)
+      .where(and(eq(dataModelObjects.id, id), inArray(dataModelObjects.modelId, organizationLayerIds())))
+      .returning();
+    await this.recordDeletedModelObjects(deleted, links);
   }
 
   // Attributes
   async getAttributes(): Promise<Attribute[]> {
-    return await db.select().from(attributes);
+    return await db.select().from(attributes).where(inArray(attributes.objectId, organizationDataObjectIds()));
   }
 
   async getAllAttributes(): Promise<Attribute[]> {
-    return await db.select().from(attributes);
+    return await db.select().from(attributes).where(inArray(attributes.objectId, organizationDataObjectIds()));
   }
 
   async getAttribute(id: number): Promise<Attribute | undefined> {
-    const result = await db.select().from(attributes).where(eq(attributes.id, id));
+    const result = await db
+      .select()
+      .from(attributes)
+      .where(and(eq(attributes.id, id), inArray(attributes.objectId, organizationDataObjectIds())));
     return result[0];
   }
 
   async createAttribute(attribute: InsertAttribute): Promise<Attribute> {
+    if (!(await this.getDataObject(attribute.objectId))) {
+      throw new Error(`Data object ${attribute.objectId} not found`);
+    }
     const result = await db.insert(attributes).values(attribute).returning();
+    await recordAudit("attribute", "create", [{ after: result[0] }]);
     return result[0];
   }
 
-  async updateAttribute(id: number, attribute: Partial<InsertAttribute>): Promise<Attribute> {
-    const result = await db.update(attributes).set(attribute).where(eq(attributes.id, id)).returning();
+  async updateAttribute(id: number, attribute: Partial<InsertAttribute>, expectedVersion?: string | null): Promise<Attribute> {
+    const before = await this.getAttribute(id);
+    const result = await db
+      .update(attributes)
+      .set({ ...attribute, updatedAt: new Date() })
+      .where(
+        and(
+          eq(attributes.id, id),
+          inArray(attributes.objectId, organizationDataObjectIds()),
+          atVersion(attributes.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedUpdate("Attribute", result[0], expectedVersion, () => this.getAttribute(id));
+    await recordAudit("attribute", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
-  async deleteAttribute(id: number): Promise<void> {
-    await db.delete(attributes).where(eq(attributes.id, id));
+  async deleteAttribute(id: number, expectedVersion?: string | null): Promise<void> {
+    const deleted = await db
+      .delete(attributes)
+      .where(
+        and(
+          eq(attributes.id, id),
+          inArray(attributes.objectId, organizationDataObjectIds()),
+          atVersion(attributes.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedDelete("Attribute", deleted, expectedVersion, () => this.getAttribute(id));
+    await recordAudit("attribute", "delete", deleted.map((before) => ({ before })));
   }
 
   async deleteAttributesByObject(objectId: number): Promise<void> {
-    await db.delete(attributes).where(eq(attributes.objectId, objectId));
+    const deleted = await db
+      .delete(attributes)
+      .where(and(eq(attributes.objectId, objectId), inArray(attributes.objectId, organizationDataObjectIds())))
+      .returning();
+    await recordAudit("attribute", "delete", deleted.map((before) => ({ before })));
+  }
+
+  async getReferencedAttributeIds(attributeIds: number[]): Promise<number[]> {
+    if (attributeIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .selectDistinct({ attributeId: dataModelObjectAttributes.attributeId })
+      .from(dataModelObjectAttributes)
+      .where(inArray(dataModelObjectAttributes.attributeId, attributeIds));
+    return rows.map((row) => row.attributeId!);
   }
 
   async getAttributesByObject(objectId: number): Promise<Attribute[]> {
-    const result = await db.select().from(attributes).where(eq(attributes.objectId, objectId));
+    const result = await db
+      .select()
+      .from(attributes)
+      .where(and(eq(attributes.objectId, objectId), inArray(attributes.objectId, organizationDataObjectIds())));
     return result;
   }
 
   // Data Model Object Attributes
   async getDataModelObjectAttributes(): Promise<DataModelObjectAttribute[]> {
-    return await db.select().from(dataModelObjectAttributes);
+    return await db.select().from(dataModelObjectAttributes).where(inArray(dataModelObjectAttributes.modelObjectId, organizationModelObjectIds()));
   }
 
   async getDataModelObjectAttribute(id: number): Promise<DataModelObjectAttribute | undefined> {
-    const result = await db.select().from(dataModelObjectAttributes).where(eq(dataModelObjectAttributes.id, id));
+    const result = await db
+      .select()
+      .from(dataModelObjectAttributes)
+      .where(and(eq(dataModelObjectAttributes.id, id), inArray(dataModelObjectAttributes.modelObjectId, organizationModelObjectIds())));
     return result[0];
   }
 
   async createDataModelObjectAttribute(attribute: InsertDataModelObjectAttribute): Promise<DataModelObjectAttribute> {
+    if (!(await this.getDataModelObject(attribute.modelObjectId))) {
+      throw new Error(`Data model object ${attribute.modelObjectId} not found`);
+    }
     const result = await db.insert(dataModelObjectAttributes).values(attribute).returning();
+    await recordAudit("data_model_object_attribute", "create", [{ after: result[0] }], modelAttributeScope);
     return result[0];
   }
 
   async createDataModelObjectAttributesBatch(attributes: InsertDataModelObjectAttribute[]): Promise<DataModelObjectAttribute[]> {
     if (attributes.length === 0) return [];
+    const modelObjectIds = Array.from(new Set(attributes.map(attr => attr.modelObjectId)));
+    const modelObjects = await Promise.all(modelObjectIds.map(id => this.getDataModelObject(id)));
+    const missingObject = modelObjectIds.find((_, idx) => !modelObjects[idx]);
+    if (missingObject !== undefined) {
+      throw new Error(`Data model object ${missingObject} not found`);
+    }
     const result = await db.insert(dataModelObjectAttributes).values(attributes).returning();
+    await recordAudit("data_model_object_attribute", "create", result.map((after) => ({ after })), modelAttributeScope);
     return result;
   }
 
-  async updateDataModelObjectAttribute(id: number, attribute: Partial<InsertDataModelObjectAttribute>): Promise<DataModelObjectAttribute> {
-    const result = await db.update(dataModelObjectAttributes).set(attribute).where(eq(dataModelObjectAttributes.id, id)).returning();
+  async updateDataModelObjectAttribute(
+    id: number,
+    attribute: Partial<InsertDataModelObjectAttribute>,
+    expectedVersion?: string | null
+  ): Promise<DataModelObjectAttribute> {
+    const before = await this.getDataModelObjectAttribute(id);
+    const result = await db
+      .update(dataModelObjectAttributes)
+      .set({ ...attribute, updatedAt: new Date() })
+      .where(
+        and(
+          eq(dataModelObjectAttributes.id, id),
+          inArray(dataModelObjectAttributes.modelObjectId, organizationModelObjectIds()),
+          atVersion(dataModelObjectAttributes.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedUpdate("Attribute", result[0], expectedVersion, () => this.getDataModelObjectAttribute(id));
+    await recordAudit("data_model_object_attribute", "update", [{ before, after: result[0] }], modelAttributeScope);
     return result[0];
   }
 
-  async deleteDataModelObjectAttribute(id: number): Promise<void> {
-    await db.delete(dataModelObjectAttributes).where(eq(dataModelObjectAttributes.id, id));
+  async deleteDataModelObjectAttribute(id: number, expectedVersion?: string | null): Promise<void> {
+    const deleted = await db
+      .delete(dataModelObjectAttributes)
+      .where(
+        and(
+          eq(dataModelObjectAttributes.id, id),
+          inArray(dataModelObjectAttributes.modelObjectId, organizationModelObjectIds()),
+          atVersion(dataModelObjectAttributes.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedDelete("Attribute", deleted, expectedVersion, () => this.getDataModelObjectAttribute(id));
+    await recordAudit("data_model_object_attribute", "delete", deleted.map((before) => ({ before })), modelAttributeScope);
   }
 
   // Data Model Properties
   async getDataModelProperties(): Promise<DataModelProperty[]> {
-    return await db.select().from(dataModelProperties);
+    return await db
+      .select()
+      .from(dataModelProperties)
+      .where(inArray(dataModelProperties.modelId, organizationDataModelIds()));
   }
 
   async getDataModelPropertiesByEntity(entityType: string, entityId: number): Promise<DataModelProperty[]> {
@@ -1033,21 +1913,22 @@ export class Storage implements IStorage {
       .where(
         and(
           eq(dataModelProperties.entityType, entityType),
-          eq(dataModelProperties.entityId, entityId)
+          eq(dataModelProperties.entityId, entityId),
+          inArray(dataModelProperties.modelId, organizationDataModelIds())
         )
       );
   }
 
   // Data Object Relationships
   async getDataObjectRelationships(): Promise<DataObjectRelationship[]> {
-    return await db.select().from(dataObjectRelationships);
+    return await db.select().from(dataObjectRelationships).where(inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds()));
   }
 
   async getDataObjectRelationship(id: number): Promise<DataObjectRelationship | undefined> {
     const result = await db
       .select()
       .from(dataObjectRelationships)
-      .where(eq(dataObjectRelationships.id, id));
+      .where(and(eq(dataObjectRelationships.id, id), inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())));
     return result[0];
   }
 
@@ -1056,15 +1937,24 @@ export class Storage implements IStorage {
       .select()
       .from(dataObjectRelationships)
       .where(
-        or(
-          eq(dataObjectRelationships.sourceDataObjectId, objectId),
-          eq(dataObjectRelationships.targetDataObjectId, objectId)
+        and(
+          or(
+            eq(dataObjectRelationships.sourceDataObjectId, objectId),
+            eq(dataObjectRelationships.targetDataObjectId, objectId)
+          ),
+          inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())
         )
       );
   }
 
   async createDataObjectRelationship(relationship: InsertDataObjectRelationship): Promise<DataObjectRelationship> {
+    for (const objectId of [relationship.sourceDataObjectId, relationship.targetDataObjectId]) {
+      if (!(await this.getDataObject(objectId))) {
+        throw new Error(`Data object ${objectId} not found`);
+      }
+    }
     const result = await db.insert(dataObjectRelationships).values(relationship).returning();
+    await recordAudit("data_object_relationship", "create", [{ after: result[0] }]);
     return result[0];
   }
 
@@ -1072,39 +1962,53 @@ export class Storage implements IStorage {
     id: number,
     relationship: Partial<InsertDataObjectRelationship>
   ): Promise<DataObjectRelationship> {
+    const [before] = await db
+      .select()
+      .from(dataObjectRelationships)
+      .where(and(eq(dataObjectRelationships.id, id), inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())));
     const result = await db
       .update(dataObjectRelationships)
-      .set(relationship)
-      .where(eq(dataObjectRelationships.id, id))
+      .set({ ...relationship, updatedAt: new Date() })
+      .where(and(eq(dataObjectRelationships.id, id), inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())))
       .returning();
+    await recordAudit("data_object_relationship", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
   async deleteDataObjectRelationship(id: number): Promise<void> {
-    await db.delete(dataObjectRelationships).where(eq(dataObjectRelationships.id, id));
+    const deleted = await db
+      .delete(dataObjectRelationships)
+      .where(and(eq(dataObjectRelationships.id, id), inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())))
+      .returning();
+    await recordAudit("data_object_relationship", "delete", deleted.map((before) => ({ before })));
   }
 
   async deleteDataObjectRelationshipsByObject(objectId: number): Promise<void> {
-    await db
+    const deleted = await db
       .delete(dataObjectRelationships)
       .where(
-        or(
-          eq(dataObjectRelationships.sourceDataObjectId, objectId),
-          eq(dataObjectRelationships.targetDataObjectId, objectId)
+        and(
+          or(
+            eq(dataObjectRelationships.sourceDataObjectId, objectId),
+            eq(dataObjectRelationships.targetDataObjectId, objectId)
+          ),
+          inArray(dataObjectRelationships.sourceDataObjectId, organizationDataObjectIds())
         )
-      );
+      )
+      .returning();
+    await recordAudit("data_object_relationship", "delete", deleted.map((before) => ({ before })));
   }
 
   // Data Model Object Relationships
   async getDataModelObjectRelationships(): Promise<DataModelObjectRelationship[]> {
-    return await db.select().from(dataModelObjectRelationships);
+    return await db.select().from(dataModelObjectRelationships).where(inArray(dataModelObjectRelationships.modelId, organizationLayerIds()));
   }
 
   async getDataModelObjectRelationship(id: number): Promise<DataModelObjectRelationship | undefined> {
     const result = await db
       .select()
       .from(dataModelObjectRelationships)
-      .where(eq(dataModelObjectRelationships.id, id));
+      .where(and(eq(dataModelObjectRelationships.id, id), inArray(dataModelObjectRelationships.modelId, organizationLayerIds())));
     return result[0];
   }
 
@@ -1112,13 +2016,17 @@ export class Storage implements IStorage {
     return await db
       .select()
       .from(dataModelObjectRelationships)
-      .where(eq(dataModelObjectRelationships.modelId, modelId));
+      .where(and(eq(dataModelObjectRelationships.modelId, modelId), inArray(dataModelObjectRelationships.modelId, organizationLayerIds())));
   }
 
   async createDataModelObjectRelationship(
     relationship: InsertDataModelObjectRelationship
   ): Promise<DataModelObjectRelationship> {
+    if (!(await this.getDataModelLayer(relationship.modelId))) {
+      throw new Error(`Data model layer ${relationship.modelId} not found`);
+    }
     const result = await db.insert(dataModelObjectRelationships).values(relationship).returning();
+    await recordAudit("data_model_object_relationship", "create", [{ after: result[0] }], modelRelationshipScope);
     return result[0];
   }
 
@@ -1126,24 +2034,54 @@ export class Storage implements IStorage {
     relationships: InsertDataModelObjectRelationship[]
   ): Promise<DataModelObjectRelationship[]> {
     if (relationships.length === 0) return [];
+    const layerIds = Array.from(new Set(relationships.map(rel => rel.modelId)));
+    const layers = await Promise.all(layerIds.map(id => this.getDataModelLayer(id)));
+    const missingLayer = layerIds.find((_, idx) => !layers[idx]);
+    if (missingLayer !== undefined) {
+      throw new Error(`Data model layer ${missingLayer} not found`);
+    }
     const result = await db.insert(dataModelObjectRelationships).values(relationships).returning();
+    await recordAudit("data_model_object_relationship", "create", result.map((after) => ({ after })), modelRelationshipScope);
     return result;
   }
 
   async updateDataModelObjectRelationship(
     id: number,
-    relationship: Partial<InsertDataModelObjectRelationship>
+    relationship: Partial<InsertDataModelObjectRelationship>,
+    expectedVersion?: string | null
   ): Promise<DataModelObjectRelationship> {
+    const before = await this.getDataModelObjectRelationship(id);
     const result = await db
       .update(dataModelObjectRelationships)
-      .set(relationship)
-      .where(eq(dataModelObjectRelationships.id, id))
+      .set({ ...relationship, updatedAt: new Date() })
+      .where(
+        and(
+          eq(dataModelObjectRelationships.id, id),
+          inArray(dataModelObjectRelationships.modelId, organizationLayerIds()),
+          atVersion(dataModelObjectRelationships.updatedAt, expectedVersion)
+        )
+      )
       .returning();
+    await checkVersionedUpdate("Relationship", result[0], expectedVersion, () =>
+      this.getDataModelObjectRelationship(id)
+    );
+    await recordAudit("data_model_object_relationship", "update", [{ before, after: result[0] }], modelRelationshipScope);
     return result[0];
   }
 
-  async deleteDataModelObjectRelationship(id: number): Promise<void> {
-    await db.delete(dataModelObjectRelationships).where(eq(dataModelObjectRelationships.id, id));
+  async deleteDataModelObjectRelationship(id: number, expectedVersion?: string | null): Promise<void> {
+    const deleted = await db
+      .delete(dataModelObjectRelationships)
+      .where(
+        and(
+          eq(dataModelObjectRelationships.id, id),
+          inArray(dataModelObjectRelationships.modelId, organizationLayerIds()),
+          atVersion(dataModelObjectRelationships.updatedAt, expectedVersion)
+        )
+      )
+      .returning();
+    await checkVersionedDelete("Relationship", deleted, expectedVersion, () => this.getDataModelObjectRelationship(id));
+    await recordAudit("data_model_object_relationship", "delete", deleted.map((before) => ({ before })), modelRelationshipScope);
   }
 
   /**
@@ -1154,10 +2092,7 @@ export class Storage implements IStorage {
     console.log(`[STORAGE] Cleaning up orphaned relationships for model ${modelId}`);
     
     // Get all relationships in this model
-    const relationships = await db
-      .select()
-      .from(dataModelObjectRelationships)
-      .where(eq(dataModelObjectRelationships.modelId, modelId));
+    const relationships = await this.getDataModelObjectRelationshipsByModel(modelId);
 
     console.log(`[STORAGE] Found ${relationships.length} relationships to check`);
 
@@ -1181,11 +2116,15 @@ export class Storage implements IStorage {
 
     // Delete orphaned relationships
     if (orphanedRelationshipIds.length > 0) {
+      const deleted: DataModelObjectRelationship[] = [];
       for (const id of orphanedRelationshipIds) {
-        await db
+        const rows = await db
           .delete(dataModelObjectRelationships)
-          .where(eq(dataModelObjectRelationships.id, id));
+          .where(eq(dataModelObjectRelationships.id, id))
+          .returning();
+        deleted.push(...rows);
       }
+      await recordAudit("data_model_object_relationship", "delete", deleted.map((before) => ({ before })), modelRelationshipScope);
       console.log(`[STORAGE] Deleted ${orphanedRelationshipIds.length} orphaned relationships`);
     } else {
       console.log(`[STORAGE] No orphaned relationships found`);
@@ -1196,40 +2135,60 @@ export class Storage implements IStorage {
 
   // Systems
   async getSystems(): Promise<System[]> {
-    return await db.select().from(systems);
+    return await db.select().from(systems).where(eq(systems.organizationId, requireOrganizationId()));
   }
 
   async getSystem(id: number): Promise<System | undefined> {
-    const result = await db.select().from(systems).where(eq(systems.id, id));
+    const result = await db
+      .select()
+      .from(systems)
+      .where(and(eq(systems.id, id), eq(systems.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async createSystem(system: InsertSystem): Promise<System> {
-    const result = await db.insert(systems).values(system).returning();
+    const result = await db
+      .insert(systems)
+      .values({ ...system, organizationId: requireOrganizationId() })
+      .returning();
+    await recordAudit("system", "create", [{ after: result[0] }]);
     return result[0];
   }
 
   async updateSystem(id: number, system: Partial<InsertSystem>): Promise<System> {
-    const result = await db.update(systems).set(system).where(eq(systems.id, id)).returning();
+    const before = await this.getSystem(id);
+    const result = await db
+      .update(systems)
+      .set(withoutOrganization(system))
+      .where(and(eq(systems.id, id), eq(systems.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("system", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
   async deleteSystem(id: number): Promise<void> {
-    await db.delete(systems).where(eq(systems.id, id));
+    const deleted = await db
+      .delete(systems)
+      .where(and(eq(systems.id, id), eq(systems.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("system", "delete", deleted.map((before) => ({ before })));
   }
 
   // Configurations
   async getConfigurations(): Promise<Configuration[]> {
-    return await db.select().from(configurations);
+    return await db.select().from(configurations).where(eq(configurations.organizationId, requireOrganizationId()));
   }
 
   async getConfigurationsByCategory(category: string): Promise<Configuration[]> {
-    return await db.select().from(configurations).where(eq(configurations.category, category));
+    return await db
+      .select()
+      .from(configurations)
+      .where(and(eq(configurations.category, category), eq(configurations.organizationId, requireOrganizationId())));
   }
 
   async getConfiguration(category: string, key: string): Promise<Configuration | undefined> {
     const result = await db.select().from(configurations).where(
-      and(eq(configurations.category, category), eq(configurations.key, key))
+      and(eq(configurations.category, category), eq(configurations.key, key), eq(configurations.organizationId, requireOrganizationId()))
     );
     return result[0];
   }
@@ -1239,31 +2198,51 @@ export class Storage implements IStorage {
   }
 
   async createConfiguration(config: InsertConfiguration): Promise<Configuration> {
-    const result = await db.insert(configurations).values(config).returning();
+    const result = await db
+      .insert(configurations)
+      .values({ ...config, organizationId: requireOrganizationId() })
+      .returning();
+    await recordAudit("configuration", "create", [{ after: result[0] }]);
     return result[0];
   }
 
   async updateConfiguration(id: number, config: Partial<InsertConfiguration>): Promise<Configuration> {
-    const result = await db.update(configurations).set(config).where(eq(configurations.id, id)).returning();
+    const [before] = await db
+      .select()
+      .from(configurations)
+      .where(and(eq(configurations.id, id), eq(configurations.organizationId, requireOrganizationId())));
+    const result = await db
+      .update(configurations)
+      .set(withoutOrganization(config))
+      .where(and(eq(configurations.id, id), eq(configurations.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("configuration", "update", [{ before, after: result[0] }]);
     return result[0];
   }
 
   async deleteConfiguration(id: number): Promise<void> {
-    await db.delete(configurations).where(eq(configurations.id, id));
+    const deleted = await db
+      .delete(configurations)
+      .where(and(eq(configurations.id, id), eq(configurations.organizationId, requireOrganizationId())))
+      .returning();
+    await recordAudit("configuration", "delete", deleted.map((before) => ({ before })));
   }
 
   // Business Capabilities
   async getBusinessCapabilities(): Promise<BusinessCapability[]> {
-    return await db.select().from(businessCapabilities);
+    return await db.select().from(businessCapabilities).where(eq(businessCapabilities.organizationId, requireOrganizationId()));
   }
 
   async getBusinessCapability(id: number): Promise<BusinessCapability | undefined> {
-    const result = await db.select().from(businessCapabilities).where(eq(businessCapabilities.id, id));
+    const result = await db
+      .select()
+      .from(businessCapabilities)
+      .where(and(eq(businessCapabilities.id, id), eq(businessCapabilities.organizationId, requireOrganizationId())));
     return result[0];
   }
 
   async getBusinessCapabilityTree(): Promise<any> {
-    const capabilities = await db.select().from(businessCapabilities);
+    const capabilities = await this.getBusinessCapabilities();
     
     // Build hierarchical tree structure
     const buildTree = (parentId: number | null = null): any[] => {
@@ -1280,6 +2259,10 @@ export class Storage implements IStorage {
   }
 
   async getCapabilityMappings(capabilityId: number): Promise<any> {
+    if (!(await this.getBusinessCapability(capabilityId))) {
+      return { domains: [], dataAreas: [], systems: [] };
+    }
+
     const [domainMappings, datAreaMappings, systemMappings] = await Promise.all([
       db.select({
         id: capabilityDataDomainMappings.id,
@@ -1354,51 +2337,874 @@ export class Storage implements IStorage {
         systemColorCode: systems.colorCode,
       })
       .from(capabilitySystemMappings)
-      .innerJoin(systems, eq(capabilitySystemMappings.systemId, systems.id));
+      .innerJoin(systems, eq(capabilitySystemMappings.systemId, systems.id))
+      .where(eq(systems.organizationId, requireOrganizationId()));
 
     return mappings;
   }
 
   async createBusinessCapability(capability: InsertBusinessCapability): Promise<BusinessCapability> {
-    const result = await db.insert(businessCapabilities).values(capability).returning();
+    const result = await db
+      .insert(businessCapabilities)
+      .values({ ...capability, organizationId: requireOrganizationId() })
+      .returning();
     return result[0];
   }
 
   async updateBusinessCapability(id: number, capability: Partial<InsertBusinessCapability>): Promise<BusinessCapability> {
-    const result = await db.update(businessCapabilities).set(capability).where(eq(businessCapabilities.id, id)).returning();
+    const result = await db
+      .update(businessCapabilities)
+      .set(withoutOrganization(capability))
+      .where(and(eq(businessCapabilities.id, id), eq(businessCapabilities.organizationId, requireOrganizationId())))
+      .returning();
     return result[0];
   }
 
   async deleteBusinessCapability(id: number): Promise<void> {
-    await db.delete(businessCapabilities).where(eq(businessCapabilities.id, id));
+    await db.delete(businessCapabilities).where(and(eq(businessCapabilities.id, id), eq(businessCapabilities.organizationId, requireOrganizationId())));
   }
 
   // Capability Mappings
   async createCapabilityDomainMapping(mapping: InsertCapabilityDataDomainMapping): Promise<CapabilityDataDomainMapping> {
+    if (!(await this.getBusinessCapability(mapping.capabilityId))) {
+      throw new Error(`Business capability ${mapping.capabilityId} not found`);
+    }
     const result = await db.insert(capabilityDataDomainMappings).values(mapping).returning();
     return result[0];
   }
 
   async createCapabilityDataAreaMapping(mapping: InsertCapabilityDataAreaMapping): Promise<CapabilityDataAreaMapping> {
+    if (!(await this.getBusinessCapability(mapping.capabilityId))) {
+      throw new Error(`Business capability ${mapping.capabilityId} not found`);
+    }
     const result = await db.insert(capabilityDataAreaMappings).values(mapping).returning();
     return result[0];
   }
 
   async createCapabilitySystemMapping(mapping: InsertCapabilitySystemMapping): Promise<CapabilitySystemMapping> {
+    if (!(await this.getBusinessCapability(mapping.capabilityId))) {
+      throw new Error(`Business capability ${mapping.capabilityId} not found`);
+    }
     const result = await db.insert(capabilitySystemMappings).values(mapping).returning();
     return result[0];
   }
 
   async deleteCapabilityDomainMapping(id: number): Promise<void> {
-    await db.delete(capabilityDataDomainMappings).where(eq(capabilityDataDomainMappings.id, id));
+    await db
+      .delete(capabilityDataDomainMappings)
+      .where(and(eq(capabilityDataDomainMappings.id, id), inArray(capabilityDataDomainMappings.capabilityId, organizationCapabilityIds())));
   }
 
   async deleteCapabilityDataAreaMapping(id: number): Promise<void> {
-    await db.delete(capabilityDataAreaMappings).where(eq(capabilityDataAreaMappings.id, id));
+    await db
+      .delete(capabilityDataAreaMappings)
+      .where(and(eq(capabilityDataAreaMappings.id, id), inArray(capabilityDataAreaMappings.capabilityId, organizationCapabilityIds())));
   }
 
   async deleteCapabilitySystemMapping(id: number): Promise<void> {
-    await db.delete(capabilitySystemMappings).where(eq(capabilitySystemMappings.id, id));
+    await db
+      .delete(capabilitySystemMappings)
+      .where(and(eq(capabilitySystemMappings.id, id), inArray(capabilitySystemMappings.capabilityId, organizationCapabilityIds())));
+  }
+
+  // Capability → Model traceability
+  async getCapabilityModelMappings(capabilityId?: number): Promise<CapabilityModelMappingDetail[]> {
+    const scope = inArray(capabilityDataModelMappings.capabilityId, organizationCapabilityIds());
+    const rows = await db
+      .select({ mapping: capabilityDataModelMappings, modelName: dataModels.name })
+      .from(capabilityDataModelMappings)
+      .leftJoin(dataModels, eq(capabilityDataModelMappings.modelId, dataModels.id))
+      .where(capabilityId === undefined ? scope : and(eq(capabilityDataModelMappings.capabilityId, capabilityId), scope))
+      .orderBy(capabilityDataModelMappings.id);
+    return rows.map(({ mapping, modelName }) => ({ ...mapping, modelName }));
+  }
+
+  async createCapabilityModelMapping(mapping: InsertCapabilityDataModelMapping): Promise<CapabilityDataModelMapping> {
+    await this.assertCapabilityModelTargets(mapping);
+    const result = await db.insert(capabilityDataModelMappings).values(mapping).returning();
+    return result[0];
+  }
+
+  async updateCapabilityModelMapping(
+    id: number,
+    mapping: Partial<InsertCapabilityDataModelMapping>,
+  ): Promise<CapabilityDataModelMapping> {
+    const { capabilityId: _capabilityId, ...patch } = mapping;
+    await this.assertCapabilityModelTargets(patch);
+    const result = await db
+      .update(capabilityDataModelMappings)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(
+        and(
+          eq(capabilityDataModelMappings.id, id),
+          inArray(capabilityDataModelMappings.capabilityId, organizationCapabilityIds())
+        )
+      )
+      .returning();
+    if (!result[0]) {
+      throw new Error(`Capability model mapping ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async deleteCapabilityModelMapping(id: number): Promise<void> {
+    await db
+      .delete(capabilityDataModelMappings)
+      .where(and(eq(capabilityDataModelMappings.id, id), inArray(capabilityDataModelMappings.capabilityId, organizationCapabilityIds())));
+  }
+
+  async getCapabilityModelSystemMappings(capabilityId?: number): Promise<CapabilityModelSystemMappingDetail[]> {
+    const scope = inArray(capabilityModelSystemMappings.capabilityId, organizationCapabilityIds());
+    const rows = await db
+      .select({ mapping: capabilityModelSystemMappings, modelName: dataModels.name, systemName: systems.name })
+      .from(capabilityModelSystemMappings)
+      .leftJoin(dataModels, eq(capabilityModelSystemMappings.modelId, dataModels.id))
+      .leftJoin(systems, eq(capabilityModelSystemMappings.systemId, systems.id))
+      .where(capabilityId === undefined ? scope : and(eq(capabilityModelSystemMappings.capabilityId, capabilityId), scope))
+      .orderBy(capabilityModelSystemMappings.id);
+    return rows.map(({ mapping, modelName, systemName }) => ({ ...mapping, modelName, systemName }));
+  }
+
+  async createCapabilityModelSystemMapping(mapping: InsertCapabilityModelSystemMapping): Promise<CapabilityModelSystemMapping> {
+    await this.assertCapabilityModelTargets(mapping);
+    const result = await db.insert(capabilityModelSystemMappings).values(mapping).returning();
+    return result[0];
+  }
+
+  async updateCapabilityModelSystemMapping(
+    id: number,
+    mapping: Partial<InsertCapabilityModelSystemMapping>,
+  ): Promise<CapabilityModelSystemMapping> {
+    const { capabilityId: _capabilityId, ...patch } = mapping;
+    await this.assertCapabilityModelTargets(patch);
+    const result = await db
+      .update(capabilityModelSystemMappings)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(
+        and(
+          eq(capabilityModelSystemMappings.id, id),
+          inArray(capabilityModelSystemMappings.capabilityId, organizationCapabilityIds())
+        )
+      )
+      .returning();
+    if (!result[0]) {
+      throw new Error(`Capability model system mapping ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async deleteCapabilityModelSystemMapping(id: number): Promise<void> {
+    await db
+      .delete(capabilityModelSystemMappings)
+      .where(
+        and(
+          eq(capabilityModelSystemMappings.id, id),
+          inArray(capabilityModelSystemMappings.capabilityId, organizationCapabilityIds())
+        )
+      );
+  }
+
+  /** Every id a traceability mapping points at must belong to the requesting organization. */
+  private async assertCapabilityModelTargets(mapping: {
+    capabilityId?: number;
+    modelId?: number;
+    domainId?: number | null;
+    systemId?: number;
+  }): Promise<void> {
+    if (mapping.capabilityId !== undefined && !(await this.getBusinessCapability(mapping.capabilityId))) {
+      throw new Error(`Business capability ${mapping.capabilityId} not found`);
+    }
+    if (mapping.modelId !== undefined && !(await this.getDataModel(mapping.modelId))) {
+      throw new Error(`Data model ${mapping.modelId} not found`);
+    }
+    if (mapping.domainId != null && !(await this.getDataDomain(mapping.domainId))) {
+      throw new Error(`Data domain ${mapping.domainId} not found`);
+    }
+    if (mapping.systemId !== undefined && !(await this.getSystem(mapping.systemId))) {
+      throw new Error(`System ${mapping.systemId} not found`);
+    }
+  }
+
+  // Model Versions
+  // Snapshots can be large; the list only needs their sizes, so they are counted in SQL and never loaded
+  async getModelVersionsByModel(dataModelId: number): Promise<ModelVersionListing[]> {
+    const count = (collection: keyof ModelVersionSnapshot) =>
+      sql<number>`coalesce(jsonb_array_length(${dataModelVersions.snapshot} -> ${collection}::text), 0)::int`;
+    const rows = await db
+      .select({
+        id: dataModelVersions.id,
+        dataModelId: dataModelVersions.dataModelId,
+        versionNumber: dataModelVersions.versionNumber,
+        name: dataModelVersions.name,
+        description: dataModelVersions.description,
+        createdByUserId: dataModelVersions.createdByUserId,
+        createdAt: dataModelVersions.createdAt,
+        layers: count("layers"),
+        objects: count("objects"),
+        attributes: count("attributes"),
+        relationships: count("relationships"),
+      })
+      .from(dataModelVersions)
+      .where(
+        and(
+          eq(dataModelVersions.dataModelId, dataModelId),
+          inArray(dataModelVersions.dataModelId, organizationDataModelIds())
+        )
+      )
+      .orderBy(desc(dataModelVersions.versionNumber));
+    return rows.map(({ layers, objects, attributes, relationships, ...version }) => ({
+      ...version,
+      counts: { layers, objects, attributes, relationships },
+    }));
+  }
+
+  async getModelVersion(id: number): Promise<DataModelVersion | undefined> {
+    const result = await db
+      .select()
+      .from(dataModelVersions)
+      .where(and(eq(dataModelVersions.id, id), inArray(dataModelVersions.dataModelId, organizationDataModelIds())));
+    return result[0];
+  }
+
+  async createModelVersion(version: InsertDataModelVersion): Promise<DataModelVersion> {
+    const result = await db.insert(dataModelVersions).values(version).returning();
+    return result[0];
+  }
+
+  async getModelVersionTagsByModel(dataModelId: number): Promise<DataModelVersionTag[]> {
+    return await db
+      .select()
+      .from(dataModelVersionTags)
+      .where(
+        and(
+          eq(dataModelVersionTags.dataModelId, dataModelId),
+          inArray(dataModelVersionTags.dataModelId, organizationDataModelIds())
+        )
+      );
+  }
+
+  async getModelVersionTag(id: number): Promise<DataModelVersionTag | undefined> {
+    const result = await db
+      .select()
+      .from(dataModelVersionTags)
+      .where(and(eq(dataModelVersionTags.id, id), inArray(dataModelVersionTags.dataModelId, organizationDataModelIds())));
+    return result[0];
+  }
+
+  async createModelVersionTag(tag: InsertDataModelVersionTag): Promise<DataModelVersionTag> {
+    const result = await db.insert(dataModelVersionTags).values(tag).returning();
+    return result[0];
+  }
+
+  async deleteModelVersionTag(id: number): Promise<void> {
+    await db
+      .delete(dataModelVersionTags)
+      .where(and(eq(dataModelVersionTags.id, id), inArray(dataModelVersionTags.dataModelId, organizationDataModelIds())));
+  }
+
+  async captureModelFamilySnapshot(dataModelId: number): Promise<ModelVersionSnapshot> {
+    const model = await this.getDataModel(dataModelId);
+    if (!model) {
+      throw new Error("Data model not found");
+    }
+
+    const layers = await db.select().from(dataModelLayers).where(eq(dataModelLayers.dataModelId, dataModelId));
+    const layerIds = layers.map((layer) => layer.id);
+    if (layerIds.length === 0) {
+      return { model, layers, objects: [], layerObjects: [], attributes: [], relationships: [], properties: [] };
+    }
+
+    const objects = await db.select().from(dataModelObjects).where(inArray(dataModelObjects.modelId, layerIds));
+    const objectIds = objects.map((object) => object.id);
+
+    const layerObjects = await db
+      .select()
+      .from(dataModelLayerObjects)
+      .where(inArray(dataModelLayerObjects.dataModelLayerId, layerIds));
+    const modelAttributes = objectIds.length > 0
+      ? await db.select().from(dataModelObjectAttributes).where(inArray(dataModelObjectAttributes.modelObjectId, objectIds))
+      : [];
+    const relationships = await db
+      .select()
+      .from(dataModelObjectRelationships)
+      .where(inArray(dataModelObjectRelationships.modelId, layerIds));
+    const properties = await db
+      .select()
+      .from(dataModelProperties)
+      .where(eq(dataModelProperties.modelId, dataModelId));
+
+    return {
+      model,
+      layers,
+      objects,
+      // Layer links can point at objects owned by another family; only keep links we can restore
+      layerObjects: layerObjects.filter((link) => objectIds.includes(link.dataModelObjectId)),
+      attributes: modelAttributes,
+      relationships,
+      properties,
+    };
+  }
+
+  /**
+   * Replace the live rows of a model family with a snapshot. Rows are
+   * re-inserted with their original ids so canvas state and references
+   * held elsewhere stay valid; everything happens in one transaction.
+   */
+  async restoreModelFamilySnapshot(dataModelId: number, stored: ModelVersionSnapshot): Promise<void> {
+    const before = await this.getDataModel(dataModelId);
+    const snapshot = await withoutDeletedCatalogReferences(stored);
+    await db.transaction(async (tx) => {
+      const currentLayers = await tx
+        .select({ id: dataModelLayers.id })
+        .from(dataModelLayers)
+        .where(eq(dataModelLayers.dataModelId, dataModelId));
+      const currentLayerIds = currentLayers.map((layer) => layer.id);
+
+      if (currentLayerIds.length > 0) {
+        const currentObjects = await tx
+          .select({ id: dataModelObjects.id })
+          .from(dataModelObjects)
+          .where(inArray(dataModelObjects.modelId, currentLayerIds));
+        const currentObjectIds = currentObjects.map((object) => object.id);
+
+        await tx
+          .delete(dataModelObjectRelationships)
+          .where(inArray(dataModelObjectRelationships.modelId, currentLayerIds));
+        if (currentObjectIds.length > 0) {
+          await tx
+            .delete(dataModelObjectRelationships)
+            .where(
+              or(
+                inArray(dataModelObjectRelationships.sourceModelObjectId, currentObjectIds),
+                inArray(dataModelObjectRelationships.targetModelObjectId, currentObjectIds)
+              )
+            );
+          await tx
+            .delete(dataModelObjectAttributes)
+            .where(inArray(dataModelObjectAttributes.modelObjectId, currentObjectIds));
+          await tx
+            .delete(dataModelLayerObjects)
+            .where(inArray(dataModelLayerObjects.dataModelObjectId, currentObjectIds));
+          await tx.delete(dataModelObjects).where(inArray(dataModelObjects.id, currentObjectIds));
+        }
+        await tx
+          .delete(dataModelLayerObjects)
+          .where(inArray(dataModelLayerObjects.dataModelLayerId, currentLayerIds));
+      }
+      await tx.delete(dataModelProperties).where(eq(dataModelProperties.modelId, dataModelId));
+
+      const { id: _modelId, createdAt: _createdAt, ...modelFields } = reviveTimestamps(snapshot.model);
+      await tx
+        .update(dataModels)
+        .set({ ...modelFields, updatedAt: new Date() })
+        .where(eq(dataModels.id, dataModelId));
+
+      const snapshotLayerIds = new Set(snapshot.layers.map((layer) => layer.id));
+      const staleLayerIds = currentLayerIds.filter((id) => !snapshotLayerIds.has(id));
+      if (staleLayerIds.length > 0) {
+        await tx.delete(dataModelLayers).where(inArray(dataModelLayers.id, staleLayerIds));
+      }
+
+      for (const layer of snapshot.layers.map(reviveTimestamps)) {
+        const { id, ...layerFields } = layer;
+        if (currentLayerIds.includes(id)) {
+          await tx.update(dataModelLayers).set({ ...layerFields, dataModelId }).where(eq(dataModelLayers.id, id));
+        } else {
+          await tx.insert(dataModelLayers).values({ ...layer, dataModelId });
+        }
+      }
+
+      if (snapshot.objects.length > 0) {
+        await tx.insert(dataModelObjects).values(snapshot.objects.map(reviveTimestamps));
+      }
+      if (snapshot.layerObjects.length > 0) {
+        await tx.insert(dataModelLayerObjects).values(snapshot.layerObjects.map(reviveTimestamps));
+      }
+      if (snapshot.attributes.length > 0) {
+        await tx.insert(dataModelObjectAttributes).values(snapshot.attributes.map(reviveTimestamps));
+      }
+      if (snapshot.relationships.length > 0) {
+        await tx.insert(dataModelObjectRelationships).values(snapshot.relationships.map(reviveTimestamps));
+      }
+      if (snapshot.properties.length > 0) {
+        await tx
+          .insert(dataModelProperties)
+          .values(snapshot.properties.map((property) => reviveTimestamps({ ...property, modelId: dataModelId })));
+      }
+    });
+
+    // One entry for the whole family; the snapshot itself stays in the version history
+    const restored = await this.getDataModel(dataModelId);
+    const after = restored && {
+      ...restored,
+      restoredLayers: snapshot.layers.length,
+      restoredObjects: snapshot.objects.length,
+      restoredAttributes: snapshot.attributes.length,
+      restoredRelationships: snapshot.relationships.length,
+    };
+    await recordAudit("data_model", "restore", [{ before, after }], modelFamilyScope);
+  }
+
+  // Model Lifecycle
+  async getLifecyclePhases(): Promise<ModelLifecyclePhase[]> {
+    return await db
+      .select()
+      .from(modelLifecyclePhases)
+      .where(eq(modelLifecyclePhases.isActive, true))
+      .orderBy(modelLifecyclePhases.sequence);
+  }
+
+  async createLifecyclePhases(phases: InsertModelLifecyclePhase[]): Promise<void> {
+    if (phases.length === 0) {
+      return;
+    }
+    await db.insert(modelLifecyclePhases).values(phases).onConflictDoNothing({ target: modelLifecyclePhases.key });
+  }
+
+  async getModelLifecycleAssignments(dataModelId?: number): Promise<ModelLifecycleAssignment[]> {
+    const scope = inArray(modelLifecycleAssignments.modelId, organizationDataModelIds());
+    return await db
+      .select()
+      .from(modelLifecycleAssignments)
+      .where(dataModelId === undefined ? scope : and(eq(modelLifecycleAssignments.modelId, dataModelId), scope))
+      .orderBy(modelLifecycleAssignments.id);
+  }
+
+  async createModelLifecycleAssignment(assignment: InsertModelLifecycleAssignment): Promise<ModelLifecycleAssignment> {
+    const model = await this.getDataModel(assignment.modelId);
+    if (!model) {
+      throw new Error(`Data model ${assignment.modelId} not found`);
+    }
+    const result = await db.insert(modelLifecycleAssignments).values(assignment).returning();
+    return result[0];
+  }
+
+  async updateModelLifecycleAssignment(
+    id: number,
+    assignment: Partial<InsertModelLifecycleAssignment>,
+  ): Promise<ModelLifecycleAssignment> {
+    const { modelId: _modelId, ...patch } = assignment;
+    const result = await db
+      .update(modelLifecycleAssignments)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(
+        and(
+          eq(modelLifecycleAssignments.id, id),
+          inArray(modelLifecycleAssignments.modelId, organizationDataModelIds())
+        )
+      )
+      .returning();
+    if (!result[0]) {
+      throw new Error(`Lifecycle assignment ${id} not found`);
+    }
+    return result[0];
+  }
+
+  // Model Comments
+  async getCommentThreadsByLayer(layerId: number, status?: string): Promise<ModelCommentThread[]> {
+    const conditions = [
+      eq(modelCommentThreads.modelId, layerId),
+      inArray(modelCommentThreads.modelId, organizationLayerIds()),
+      commentTargetExists(),
+    ];
+    if (status) {
+      conditions.push(eq(modelCommentThreads.status, status));
+    }
+    return await db
+      .select()
+      .from(modelCommentThreads)
+      .where(and(...conditions))
+      .orderBy(desc(modelCommentThreads.updatedAt));
+  }
+
+  async getCommentThread(id: number): Promise<ModelCommentThread | undefined> {
+    const result = await db
+      .select()
+      .from(modelCommentThreads)
+      .where(and(eq(modelCommentThreads.id, id), inArray(modelCommentThreads.modelId, organizationLayerIds())));
+    return result[0];
+  }
+
+  async createCommentThread(thread: InsertModelCommentThread): Promise<ModelCommentThread> {
+    if (!(await this.getDataModelLayer(thread.modelId))) {
+      throw new Error(`Model layer ${thread.modelId} not found`);
+    }
+    const result = await db.insert(modelCommentThreads).values(thread).returning();
+    return result[0];
+  }
+
+  async updateCommentThread(id: number, thread: Partial<InsertModelCommentThread>): Promise<ModelCommentThread> {
+    const { modelId: _modelId, ...patch } = thread;
+    const result = await db
+      .update(modelCommentThreads)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(eq(modelCommentThreads.id, id), inArray(modelCommentThreads.modelId, organizationLayerIds())))
+      .returning();
+    if (!result[0]) {
+      throw new Error(`Comment thread ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async getCommentsByThreads(threadIds: number[]): Promise<ModelComment[]> {
+    if (threadIds.length === 0) {
+      return [];
+    }
+    const organizationThreadIds = db
+      .select({ id: modelCommentThreads.id })
+      .from(modelCommentThreads)
+      .where(inArray(modelCommentThreads.modelId, organizationLayerIds()));
+    return await db
+      .select()
+      .from(modelComments)
+      .where(and(inArray(modelComments.threadId, threadIds), inArray(modelComments.threadId, organizationThreadIds)))
+      .orderBy(modelComments.createdAt, modelComments.id);
+  }
+
+  async createComment(comment: InsertModelComment): Promise<ModelComment> {
+    if (!(await this.getCommentThread(comment.threadId))) {
+      throw new Error(`Comment thread ${comment.threadId} not found`);
+    }
+    const result = await db.insert(modelComments).values(comment).returning();
+    return result[0];
+  }
+
+  // Audit Log
+  async getAuditLogEntries(filters: AuditLogFilters): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions: SQL[] = [eq(auditLogEntries.organizationId, requireOrganizationId())];
+    if (filters.entityType) conditions.push(eq(auditLogEntries.entityType, filters.entityType));
+    if (filters.entityId !== undefined) conditions.push(eq(auditLogEntries.entityId, filters.entityId));
+    if (filters.dataModelId !== undefined) conditions.push(eq(auditLogEntries.dataModelId, filters.dataModelId));
+    if (filters.modelObjectId !== undefined) {
+      conditions.push(arrayContains(auditLogEntries.modelObjectIds, [filters.modelObjectId]));
+    }
+    if (filters.actorUserId !== undefined) conditions.push(eq(auditLogEntries.actorUserId, filters.actorUserId));
+    if (filters.action) conditions.push(eq(auditLogEntries.action, filters.action));
+    if (filters.from) conditions.push(gte(auditLogEntries.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogEntries.createdAt, filters.to));
+    const where = and(...conditions);
+
+    const [entries, counted] = await Promise.all([
+      db
+        .select()
+        .from(auditLogEntries)
+        .where(where)
+        .orderBy(desc(auditLogEntries.createdAt), desc(auditLogEntries.id))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(auditLogEntries).where(where),
+    ]);
+    return { entries, total: counted[0]?.count ?? 0 };
+  }
+
+  async getAuditLogEntriesByRequests(requestIds: string[], actorUserId: number): Promise<AuditLogEntry[]> {
+    if (requestIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(auditLogEntries)
+      .where(
+        and(
+          eq(auditLogEntries.organizationId, requireOrganizationId()),
+          eq(auditLogEntries.actorUserId, actorUserId),
+          inArray(auditLogEntries.requestId, requestIds)
+        )
+      )
+      .orderBy(auditLogEntries.id);
+  }
+
+  // Undo/Redo History
+  async getHistoryCommands(layerId: number, userId: number): Promise<ModelHistoryCommand[]> {
+    return await db
+      .select()
+      .from(modelHistoryCommands)
+      .where(
+        and(
+          eq(modelHistoryCommands.modelId, layerId),
+          eq(modelHistoryCommands.userId, userId),
+          inArray(modelHistoryCommands.modelId, organizationLayerIds())
+        )
+      )
+      .orderBy(modelHistoryCommands.id);
+  }
+
+  async createHistoryCommand(command: InsertModelHistoryCommand): Promise<ModelHistoryCommand> {
+    if (!(await this.getDataModelLayer(command.modelId))) {
+      throw new Error(`Model layer ${command.modelId} not found`);
+    }
+    const result = await db.insert(modelHistoryCommands).values(command).returning();
+    return result[0];
+  }
+
+  async updateHistoryCommand(id: number, command: Partial<InsertModelHistoryCommand>): Promise<ModelHistoryCommand> {
+    const { modelId: _modelId, userId: _userId, ...changes } = command;
+    const result = await db
+      .update(modelHistoryCommands)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(modelHistoryCommands.id, id), inArray(modelHistoryCommands.modelId, organizationLayerIds())))
+      .returning();
+    if (!result[0]) {
+      throw new Error(`History command ${id} not found`);
+    }
+    return result[0];
+  }
+
+  async deleteHistoryCommands(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db
+      .delete(modelHistoryCommands)
+      .where(and(inArray(modelHistoryCommands.id, ids), inArray(modelHistoryCommands.modelId, organizationLayerIds())));
+  }
+
+  /**
+   * Replay undo/redo operations in one transaction. Each operation first
+   * checks that the row is still as the command left it, so undo never
+   * overwrites or removes edits made since, and only reaches rows of the
+   * layer (or, for shared tables, the organization). Rows that now depend on
+   * a row being removed surface as a conflict. The replayed writes are
+   * audited like any other.
+   */
+  async applyHistoryOperations(layerId: number, operations: HistoryOperation[]): Promise<void> {
+    if (!(await this.getDataModelLayer(layerId))) {
+      throw new Error(`Model layer ${layerId} not found`);
+    }
+
+    type HistoryRow = { id: number } & Record<string, unknown>;
+    const applied: Array<{ entityType: HistoryEntityType; action: AuditAction; change: AuditChange<HistoryRow> }> = [];
+
+    await db.transaction(async (tx) => {
+      for (const operation of operations) {
+        if (operation.kind === "position") {
+          await tx
+            .update(dataModelLayerObjects)
+            .set({ positionX: operation.x, positionY: operation.y, updatedAt: new Date() })
+            .where(
+              and(
+                eq(dataModelLayerObjects.dataModelLayerId, layerId),
+                eq(dataModelLayerObjects.dataModelObjectId, operation.modelObjectId)
+              )
+            );
+          continue;
+        }
+
+        // All replayed tables have an integer id; Drizzle cannot type one query over their union
+        const table = historyTables[operation.entityType] as any;
+        const label = auditEntityLabels[operation.entityType];
+
+        if (operation.kind === "insert") {
+          const id = Number(operation.row.id);
+          // Ids are global, so a reused id blocks the insert whatever layer holds it
+          const [existing] = (await tx.select().from(table).where(eq(table.id, id))) as HistoryRow[];
+          if (existing) {
+            throw new VersionConflictError(label, existing);
+          }
+          const [row] = (await this.replayWrite(label, null, () =>
+            tx.insert(table).values(reviveTimestamps(operation.row)).returning()
+          )) as HistoryRow[];
+          applied.push({ entityType: operation.entityType, action: "create", change: { after: row } });
+          continue;
+        }
+
+        const inScope = and(eq(table.id, operation.id), historyRowScope(operation.entityType, layerId));
+        const [current] = (await tx.select().from(table).where(inScope)) as HistoryRow[];
+        if (!current) {
+          throw new Error(`${label} ${operation.id} not found`);
+        }
+        const stored = JSON.parse(JSON.stringify(current)) as Record<string, unknown>;
+        const editedSince = Object.keys(operation.expected).some(
+          (field) => JSON.stringify(stored[field] ?? null) !== JSON.stringify(operation.expected[field] ?? null)
+        );
+        if (editedSince) {
+          throw new VersionConflictError(label, current);
+        }
+
+        if (operation.kind === "update") {
+          const [row] = (await this.replayWrite(label, current, () =>
+            tx
+              .update(table)
+              .set({ ...reviveTimestamps(operation.values), updatedAt: new Date() })
+              .where(inScope)
+              .returning()
+          )) as HistoryRow[];
+          applied.push({ entityType: operation.entityType, action: "update", change: { before: current, after: row } });
+        } else {
+          await this.replayWrite(label, current, () => tx.delete(table).where(inScope));
+          applied.push({ entityType: operation.entityType, action: "delete", change: { before: current } });
+        }
+      }
+    });
+
+    for (const { entityType, action, change } of applied) {
+      await recordAudit(entityType, action, [change], historyScopes[entityType]);
+    }
+  }
+
+  /** A replayed write that breaks a foreign key conflicts with rows added or removed since the command. */
+  private async replayWrite<T>(label: string, current: VersionedRow | null, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        throw new VersionConflictError(label, current);
+      }
+      throw error;
+    }
+  }
+
+  // Organization Members & Invitations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const result = await db.select().from(organizations).where(eq(organizations.id, id));
+    return result[0];
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email.trim().toLowerCase()));
+    return result[0];
+  }
+
+  async setUserActiveOrganization(userId: number, organizationId: number): Promise<void> {
+    await db.update(users).set({ organizationId, updatedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return await db
+      .select({
+        membershipId: memberships.id,
+        userId: users.id,
+        email: users.email,
+        name: users.name,
+        role: memberships.role,
+        isActive: users.isActive,
+        joinedAt: memberships.createdAt,
+      })
+      .from(memberships)
+      .innerJoin(users, eq(memberships.userId, users.id))
+      .where(eq(memberships.organizationId, organizationId))
+      .orderBy(users.email);
+  }
+
+  async getMembership(organizationId: number, userId: number): Promise<Membership | undefined> {
+    const result = await db
+      .select()
+      .from(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)));
+    return result[0];
+  }
+
+  async createMembership(membership: InsertMembership): Promise<Membership> {
+    const result = await db.insert(memberships).values(membership).returning();
+    return result[0];
+  }
+
+  async updateMembershipRole(organizationId: number, userId: number, role: string): Promise<Membership | undefined> {
+    const result = await db
+      .update(memberships)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteMembership(organizationId: number, userId: number): Promise<void> {
+    await db
+      .delete(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)));
+  }
+
+  async getPendingInvitations(organizationId: number): Promise<Invitation[]> {
+    return await db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.organizationId, organizationId), eq(invitations.accepted, false)))
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  async getInvitation(organizationId: number, id: number): Promise<Invitation | undefined> {
+    const result = await db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.id, id), eq(invitations.organizationId, organizationId)));
+    return result[0];
+  }
+
+  async getInvitationByToken(token: string): Promise<Invitation | undefined> {
+    const result = await db.select().from(invitations).where(eq(invitations.token, token));
+    return result[0];
+  }
+
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const result = await db.insert(invitations).values(invitation).returning();
+    return result[0];
+  }
+
+  async updateInvitation(id: number, invitation: Partial<InsertInvitation>): Promise<Invitation> {
+    const result = await db
+      .update(invitations)
+      .set({ ...invitation, updatedAt: new Date() })
+      .where(eq(invitations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    await db.delete(invitations).where(eq(invitations.id, id));
+  }
+
+  // Auth Sessions
+  async createAuthSession(session: InsertAuthSession): Promise<AuthSession> {
+    const result = await db.insert(authSessions).values(session).returning();
+    return result[0];
+  }
+
+  async getAuthSession(id: number): Promise<AuthSession | undefined> {
+    const result = await db.select().from(authSessions).where(eq(authSessions.id, id));
+    return result[0];
+  }
+
+  async updateAuthSession(id: number, session: Partial<InsertAuthSession>): Promise<AuthSession | undefined> {
+    const result = await db
+      .update(authSessions)
+      .set({ ...session, updatedAt: new Date() })
+      .where(eq(authSessions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async rotateAuthSession(
+    id: number,
+    expectedHash: string,
+    session: Partial<InsertAuthSession>,
+  ): Promise<AuthSession | undefined> {
+    const result = await db
+      .update(authSessions)
+      .set({ ...session, updatedAt: new Date() })
+      .where(
+        and(
+          eq(authSessions.id, id),
+          eq(authSessions.refreshTokenHash, expectedHash),
+          isNull(authSessions.revokedAt),
+        ),
+      )
+      .returning();
+    return result[0];
+  }
+
+  async revokeUserAuthSessions(userId: number): Promise<number> {
+    const now = new Date();
+    const result = await db
+      .update(authSessions)
+      .set({ revokedAt: now, updatedAt: now })
+      .where(and(eq(authSessions.userId, userId), isNull(authSessions.revokedAt)))
+      .returning({ id: authSessions.id });
+    return result.length;
   }
 
   // Utility method to ensure all existing data model objects have layer mappings
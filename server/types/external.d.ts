@@ -1,2 +1,4 @@
 declare module "mysql2/promise";
 declare module "mssql";
+declare module "oracledb";
+declare module "@sap/hana-client";
@@ -0,0 +1,58 @@
+import type { Storage } from "../storage";
+import { dataConnectors } from "../services/dataConnectors";
+import type { ApiSchemaFormat } from "../services/apiSchemaParser";
+import { syncSystemObjects, type SyncSystemObjectsInput, type SyncSystemObjectsResult } from "./system_sync_handlers";
+
+export interface ImportApiSchemaInput extends Omit<SyncSystemObjectsInput, "connection" | "metadataOnly"> {
+  /** OpenAPI 3, Swagger 2 or JSON Schema document, as JSON or YAML text. */
+  document: string;
+}
+
+export interface ImportApiSchemaResult extends SyncSystemObjectsResult {
+  format: ApiSchemaFormat;
+  title: string | null;
+  warnings: string[];
+}
+
+/**
+ * Import an uploaded API contract into an API system. The parsed schemas are kept
+ * on the system configuration (so later syncs reuse them instead of fetching the
+ * spec URL) and then synced into the system's data objects like any other source.
+ */
+export async function importApiSchemaIntoSystem(
+  input: ImportApiSchemaInput,
+  storage: Storage,
+): Promise<ImportApiSchemaResult> {
+  if (!input.document?.trim()) {
+    throw new Error("An OpenAPI or JSON Schema document is required");
+  }
+  const system = await storage.getSystem(input.systemId);
+  if (!system) {
+    throw new Error("System not found");
+  }
+  if ((system.type ?? "").toLowerCase() !== "api") {
+    throw new Error("System must be an API system to import an API schema");
+  }
+
+  const parsed = await dataConnectors.parseApiSchema(input.document);
+  if (parsed.tables.length === 0) {
+    throw new Error("API schema must define at least one object schema with properties");
+  }
+
+  const configuration: Record<string, any> = {
+    ...((system.configuration ?? {}) as Record<string, unknown>),
+    schemaSource: "upload",
+    metadata: parsed.tables,
+    apiSchema: {
+      title: parsed.title,
+      format: parsed.format,
+      importedAt: new Date().toISOString(),
+      warnings: parsed.warnings,
+    },
+  };
+  await storage.updateSystem(system.id, { configuration });
+
+  const { document: _document, ...syncOptions } = input;
+  const result = await syncSystemObjects(syncOptions, storage);
+  return { ...result, format: parsed.format, title: parsed.title, warnings: parsed.warnings };
+}
@@ -84,10 +84,11 @@ export async function createAttribute(
 export async function updateAttributeWithCascade(
   id: number,
   updateData: any,
-  storage: Storage
+  storage: Storage,
+  expectedVersion: string | null = null
 ): Promise<any> {
   const validatedData = insertAttributeSchema.partial().parse(updateData);
-  const attribute = await storage.updateAttribute(id, validatedData);
+  const attribute = await storage.updateAttribute(id, validatedData, expectedVersion);
   
   // Auto-cascade: When updating attribute in logical layer, update in physical layer
   const parentObject = await storage.getDataObject(attribute.objectId);
@@ -158,9 +159,10 @@ export async function updateAttributeWithCascade(
  */
 export async function deleteAttribute(
   id: number,
-  storage: Storage
+  storage: Storage,
+  expectedVersion: string | null = null
 ): Promise<void> {
-  await storage.deleteAttribute(id);
+  await storage.deleteAttribute(id, expectedVersion);
 }
 
 /**
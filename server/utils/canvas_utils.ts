@@ -0,0 +1,328 @@
+import { storage, type IStorage } from "../storage";
+import type {
+  AuditLogEntry,
+  DataArea,
+  DataDomain,
+  DataModelLayer,
+  DataModelLayerObject,
+  DataModelObject,
+  DataModelObjectAttribute,
+  DataModelObjectRelationship,
+  DataObject,
+  DataObjectRelationship,
+  System,
+} from "@shared/schema";
+import type { CollaborationChange } from "@shared/collaboration";
+import { buildRelationshipKey } from "./relationship_utils";
+
+type CanvasPoint = { x: number; y: number };
+
+export interface CanvasLookups {
+  domainsById: Map<number, DataDomain>;
+  areasById: Map<number, DataArea>;
+  systemsById: Map<number, System>;
+  dataObjectsById: Map<number, DataObject>;
+}
+
+export function toCanvasAttribute(attribute: DataModelObjectAttribute) {
+  return {
+    id: attribute.id, // Model attribute ID (for internal reference)
+    attributeId: attribute.attributeId, // Global attribute ID (for handles and edges)
+    name: attribute.name || "Unnamed Attribute",
+    conceptualType: attribute.conceptualType,
+    logicalType: attribute.logicalType,
+    physicalType: attribute.physicalType,
+    dataType: attribute.dataType,
+    nullable: attribute.nullable,
+    isPrimaryKey: attribute.isPrimaryKey,
+    isForeignKey: attribute.isForeignKey,
+    orderIndex: attribute.orderIndex,
+  };
+}
+
+/** Layer-specific position when one is stored, else the object's own (legacy) position. */
+export function resolveCanvasPosition(
+  modelObject: DataModelObject,
+  layerPosition?: Pick<DataModelLayerObject, "positionX" | "positionY">,
+): CanvasPoint {
+  if (layerPosition && layerPosition.positionX !== null && layerPosition.positionY !== null) {
+    return { x: layerPosition.positionX, y: layerPosition.positionY };
+  }
+  if (typeof modelObject.position === "string") {
+    try {
+      return JSON.parse(modelObject.position);
+    } catch (e) {
+      console.warn("Failed to parse position:", modelObject.position);
+    }
+  } else if (modelObject.position) {
+    return modelObject.position as CanvasPoint;
+  }
+  return { x: 100, y: 100 };
+}
+
+export function toCanvasNode(
+  modelObject: DataModelObject,
+  attributes: DataModelObjectAttribute[],
+  position: CanvasPoint,
+  lookups: CanvasLookups,
+) {
+  // If name is missing, try to get it from linked data_object
+  let objectName = modelObject.name;
+  let objectDescription = modelObject.description;
+  let objectType = modelObject.objectType;
+  const dataObject = modelObject.objectId ? lookups.dataObjectsById.get(modelObject.objectId) : undefined;
+  if (dataObject && !objectName) {
+    objectName = dataObject.name;
+    objectDescription = objectDescription || dataObject.description;
+    objectType = objectType || dataObject.objectType;
+  }
+
+  const domain = modelObject.domainId ? lookups.domainsById.get(modelObject.domainId) : undefined;
+  const dataAreaName = modelObject.dataAreaId ? lookups.areasById.get(modelObject.dataAreaId)?.name : undefined;
+  const sourceSystemName = modelObject.sourceSystemId ? lookups.systemsById.get(modelObject.sourceSystemId)?.name : undefined;
+  const targetSystemName = modelObject.targetSystemId ? lookups.systemsById.get(modelObject.targetSystemId)?.name : undefined;
+
+  return {
+    id: modelObject.id.toString(),
+    type: "dataObject",
+    position,
+    data: {
+      id: modelObject.id,
+      objectId: modelObject.objectId, // The actual data_objects.id (null for user-created)
+      modelObjectId: modelObject.id, // The data_model_objects.id (always present)
+      name: objectName || "Unnamed Object",
+      objectType: objectType || "entity",
+      description: objectDescription,
+      domainId: modelObject.domainId,
+      dataAreaId: modelObject.dataAreaId,
+      domain: domain?.name, // For node display (was domainName)
+      domainName: domain?.name, // Keep for compatibility
+      domainColor: domain?.colorCode,
+      dataArea: dataAreaName, // For node display (was dataAreaName)
+      dataAreaName, // Keep for compatibility
+      sourceSystem: sourceSystemName, // For node display (was sourceSystemId)
+      targetSystem: targetSystemName, // For node display (was targetSystemId)
+      sourceSystemId: modelObject.sourceSystemId, // Keep ID for reference
+      targetSystemId: modelObject.targetSystemId, // Keep ID for reference
+      attributes: attributes.map(toCanvasAttribute),
+      metadata: modelObject.metadata,
+      layerSpecificConfig: modelObject.layerSpecificConfig,
+      isUserCreated: modelObject.objectId === null, // Flag to identify user-created vs synced
+      isNew: modelObject.objectId === null, // User-created objects show as "new" with green styling
+      commonProperties: null, // Legacy field for compatibility
+    },
+  };
+}
+
+/** Conceptual canvases show object-level relationships only; logical and physical ones attribute-level only. */
+export function isRelationshipShownOnLayer(relationship: DataModelObjectRelationship, layerKey: string): boolean {
+  if (layerKey === "conceptual") {
+    return !relationship.sourceAttributeId && !relationship.targetAttributeId;
+  }
+  if (layerKey === "logical" || layerKey === "physical") {
+    return !!relationship.sourceAttributeId && !!relationship.targetAttributeId && relationship.relationshipLevel === "attribute";
+  }
+  return true;
+}
+
+/** Global relationships between the given data objects, keyed like `buildRelationshipKey`; the first match wins. */
+export function indexDataObjectRelationships(
+  relationships: DataObjectRelationship[],
+  objectIds: Set<number>,
+): Map<string, DataObjectRelationship> {
+  const index = new Map<string, DataObjectRelationship>();
+  for (const relationship of relationships) {
+    if (!objectIds.has(relationship.sourceDataObjectId) || !objectIds.has(relationship.targetDataObjectId)) {
+      continue;
+    }
+    const key = buildRelationshipKey(
+      relationship.sourceDataObjectId,
+      relationship.targetDataObjectId,
+      relationship.relationshipLevel === "attribute" ? "attribute" : "object",
+      relationship.sourceAttributeId ?? null,
+      relationship.targetAttributeId ?? null,
+    );
+    if (!index.has(key)) {
+      index.set(key, relationship);
+    }
+  }
+  return index;
+}
+
+/** The edge for a relationship, or null when one of its model objects is not on the layer. */
+export function toCanvasEdge(
+  relationship: DataModelObjectRelationship,
+  modelObjectsById: Map<number, DataModelObject>,
+  modelAttributesById: Map<number, DataModelObjectAttribute>,
+  dataObjectRelationships: Map<string, DataObjectRelationship>,
+) {
+  const sourceModelObject = modelObjectsById.get(relationship.sourceModelObjectId);
+  const targetModelObject = modelObjectsById.get(relationship.targetModelObjectId);
+  if (!sourceModelObject || !targetModelObject) {
+    console.warn(
+      `[CANVAS] Missing model objects for relationship ${relationship.id}: ` +
+        `source ${relationship.sourceModelObjectId} ${sourceModelObject ? "EXISTS" : "MISSING"}, ` +
+        `target ${relationship.targetModelObjectId} ${targetModelObject ? "EXISTS" : "MISSING"}`,
+    );
+    return null;
+  }
+
+  // Resolve model attribute IDs to global attribute IDs for the UI
+  const globalSourceAttributeId = relationship.sourceAttributeId
+    ? modelAttributesById.get(relationship.sourceAttributeId)?.attributeId ?? null
+    : null;
+  const globalTargetAttributeId = relationship.targetAttributeId
+    ? modelAttributesById.get(relationship.targetAttributeId)?.attributeId ?? null
+    : null;
+
+  // For global relationship lookup, use data object IDs
+  const key = buildRelationshipKey(
+    sourceModelObject.objectId ?? sourceModelObject.id,
+    targetModelObject.objectId ?? targetModelObject.id,
+    relationship.relationshipLevel === "attribute" ? "attribute" : "object",
+    globalSourceAttributeId,
+    globalTargetAttributeId,
+  );
+
+  return {
+    // Use model object IDs for edge source/target to match node IDs
+    id: relationship.id.toString(),
+    source: sourceModelObject.id.toString(),
+    target: targetModelObject.id.toString(),
+    sourceHandle: relationship.sourceHandle ?? undefined,
+    targetHandle: relationship.targetHandle ?? undefined,
+    type: "smoothstep",
+    label: relationship.type,
+    data: {
+      relationshipId: relationship.id,
+      relationshipType: relationship.type,
+      sourceAttributeId: globalSourceAttributeId,
+      targetAttributeId: globalTargetAttributeId,
+      dataObjectRelationshipId: dataObjectRelationships.get(key)?.id ?? null,
+    },
+  };
+}
+
+// Audited rows whose current state can be sent to a canvas as a node, attribute or edge change
+const CANVAS_ENTITY_TYPES = new Set(["data_model_object", "data_model_object_attribute", "data_model_object_relationship"]);
+
+/**
+ * Turn the audit entries one request wrote into the changes a canvas of
+ * `layer` merges, read from the rows as they are now. Writes to anything
+ * else the canvas shows (system objects, placements, layers) cannot be
+ * expressed that way and yield a single `layer.changed`.
+ */
+export async function canvasChangesForLayer(
+  layer: DataModelLayer,
+  entries: AuditLogEntry[],
+  store: IStorage = storage,
+): Promise<CollaborationChange[]> {
+  if (entries.some((entry) => !CANVAS_ENTITY_TYPES.has(entry.entityType) || entry.action === "restore")) {
+    return [{ kind: "layer.changed" }];
+  }
+
+  const idsOf = (entityType: string) =>
+    Array.from(new Set(entries.filter((entry) => entry.entityType === entityType).map((entry) => entry.entityId)));
+  const objectIds = idsOf("data_model_object");
+  const attributeIds = idsOf("data_model_object_attribute");
+  const relationshipIds = idsOf("data_model_object_relationship");
+
+  const allLayerObjects = await store.getDataModelObjectsByModel(layer.id);
+  const layerObjects = allLayerObjects.filter((object) => object.isVisible !== false);
+  const layerObjectsById = new Map(layerObjects.map((object) => [object.id, object]));
+  const allAttributes = await store.getDataModelObjectAttributes();
+  const layerAttributes = allAttributes.filter(
+    (attribute) => layerObjectsById.has(attribute.modelObjectId) && attribute.modelId === layer.dataModelId,
+  );
+  const attributesById = new Map(layerAttributes.map((attribute) => [attribute.id, attribute]));
+  const changes: CollaborationChange[] = [];
+
+  // Last recorded image of a row, to tell where a row that is gone (or hidden) used to be
+  const recorded = (entityType: string, id: number) => {
+    const entry = entries.filter((candidate) => candidate.entityType === entityType && candidate.entityId === id).pop();
+    return entry?.after ?? entry?.before ?? null;
+  };
+
+  const changedNodes = objectIds.filter((id) => layerObjectsById.has(id));
+  if (changedNodes.length > 0) {
+    const nodeObjects = changedNodes.map((id) => layerObjectsById.get(id)!);
+    const [domains, areas, systems, dataObjects, positions] = await Promise.all([
+      store.getDataDomains(),
+      store.getDataAreas(),
+      store.getSystems(),
+      Promise.all(
+        nodeObjects.flatMap((object) => (object.objectId !== null ? [store.getDataObject(object.objectId)] : [])),
+      ),
+      store.getLayerObjectLinksByLayer(layer.id),
+    ]);
+    const lookups: CanvasLookups = {
+      domainsById: new Map(domains.map((domain) => [domain.id, domain])),
+      areasById: new Map(areas.map((area) => [area.id, area])),
+      systemsById: new Map(systems.map((system) => [system.id, system])),
+      dataObjectsById: new Map(
+        dataObjects.filter((object): object is DataObject => !!object).map((object) => [object.id, object]),
+      ),
+    };
+    const positionsByObjectId = new Map(positions.map((link) => [link.dataModelObjectId, link]));
+    nodeObjects.forEach((object) => {
+      const node = toCanvasNode(
+        object,
+        layerAttributes.filter((attribute) => attribute.modelObjectId === object.id),
+        resolveCanvasPosition(object, positionsByObjectId.get(object.id)),
+        lookups,
+      );
+      changes.push({ kind: "node.upsert", node });
+    });
+  }
+  objectIds
+    .filter((id) => !layerObjectsById.has(id) && recorded("data_model_object", id)?.modelId === layer.id)
+    .forEach((id) => changes.push({ kind: "node.remove", nodeId: String(id) }));
+
+  // Attributes of a node sent whole above are already up to date
+  attributeIds.forEach((id) => {
+    const attribute = attributesById.get(id);
+    if (attribute) {
+      if (!changedNodes.includes(attribute.modelObjectId)) {
+        changes.push({
+          kind: "attribute.upsert",
+          nodeId: String(attribute.modelObjectId),
+          attribute: toCanvasAttribute(attribute),
+        });
+      }
+      return;
+    }
+    const modelObjectId = recorded("data_model_object_attribute", id)?.modelObjectId;
+    if (typeof modelObjectId === "number" && layerObjectsById.has(modelObjectId) && !changedNodes.includes(modelObjectId)) {
+      changes.push({ kind: "attribute.remove", nodeId: String(modelObjectId), attributeId: id });
+    }
+  });
+
+  if (relationshipIds.length > 0) {
+    const relationships = await Promise.all(relationshipIds.map((id) => store.getDataModelObjectRelationship(id)));
+    const shown = relationships.filter(
+      (relationship): relationship is DataModelObjectRelationship =>
+        !!relationship && relationship.modelId === layer.id && isRelationshipShownOnLayer(relationship, layer.layer),
+    );
+    const dataObjectRelationships =
+      shown.length > 0
+        ? indexDataObjectRelationships(
+            await store.getDataObjectRelationships(),
+            new Set(allLayerObjects.map((object) => object.objectId).filter((id): id is number => id !== null)),
+          )
+        : new Map<string, DataObjectRelationship>();
+    // Edges may connect hidden objects, as on the full canvas
+    const edgeObjectsById = new Map(allLayerObjects.map((object) => [object.id, object]));
+    const edgeAttributesById = new Map(allAttributes.map((attribute) => [attribute.id, attribute]));
+    relationshipIds.forEach((id) => {
+      const relationship = shown.find((candidate) => candidate.id === id);
+      const edge = relationship && toCanvasEdge(relationship, edgeObjectsById, edgeAttributesById, dataObjectRelationships);
+      if (edge) {
+        changes.push({ kind: "edge.upsert", edge });
+      } else if (recorded("data_model_object_relationship", id)?.modelId === layer.id) {
+        changes.push({ kind: "edge.remove", edgeId: String(id) });
+      }
+    });
+  }
+
+  return changes;
+}
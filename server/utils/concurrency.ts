@@ -0,0 +1,63 @@
+import type { Request, Response } from "express";
+
+/**
+ * Optimistic concurrency for model edits. A row's version is its `updatedAt`
+ * as an ISO timestamp (the same string the row serializes to in JSON), sent
+ * as the ETag of reads and expected back in `If-Match` on writes. Storage
+ * updates take the expected version into their WHERE clause, so a write
+ * based on a stale read matches no row and raises a VersionConflictError.
+ * Deletes take the same condition and fail with 412 Precondition Failed
+ * instead, as there is no edit of the caller's to merge. Writes without
+ * `If-Match` are unconditional, as before.
+ */
+
+export interface VersionedRow {
+  updatedAt?: unknown;
+  [field: string]: unknown;
+}
+
+export class VersionConflictError extends Error {
+  /** Version of `current`, to send as the new `If-Match` when the client retries. */
+  readonly currentVersion: string | null;
+
+  constructor(
+    readonly entity: string,
+    /** The row as it is stored now, so the client can show both sides. */
+    readonly current: VersionedRow | null,
+    /** HTTP status to answer with: 409 for updates, 412 for deletes. */
+    readonly status: 409 | 412 = 409,
+  ) {
+    super(`${entity} was changed by someone else after you loaded it`);
+    this.name = "VersionConflictError";
+    this.currentVersion = rowVersion(current);
+  }
+}
+
+export function rowVersion(row: VersionedRow | null | undefined): string | null {
+  const updatedAt = row?.updatedAt;
+  if (!(updatedAt instanceof Date) && typeof updatedAt !== "string") {
+    return null;
+  }
+  const time = new Date(updatedAt);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+export function setVersionHeader(res: Response, row: VersionedRow | null | undefined): void {
+  const version = rowVersion(row);
+  if (version) {
+    res.set("ETag", `"${version}"`);
+  }
+}
+
+/** The version the caller based its edit on, or null for an unconditional write (`If-Match: *` or no header). */
+export function readExpectedVersion(req: Request): string | null {
+  const header = req.get("if-match")?.trim();
+  if (!header || header === "*") {
+    return null;
+  }
+  const time = new Date(header.replace(/^W\//, "").replace(/^"|"$/g, ""));
+  if (Number.isNaN(time.getTime())) {
+    throw new Error("If-Match must be the ETag returned for the row being updated");
+  }
+  return time.toISOString();
+}
@@ -0,0 +1,157 @@
+import type { Storage } from "../storage";
+import type { DataModelObjectAttribute } from "@shared/schema";
+import { findDbmlTable, parseDbml, type DbmlColumn, type DbmlParseIssue } from "../services/dbmlParser";
+import { resolveForeignKeySide } from "../services/sqlDialects";
+import { createUserObject } from "./user_object_handlers";
+
+export interface ImportDbmlInput {
+  /** Layer (data_model_layers id) the objects are created in. */
+  modelId: number;
+  dbml: string;
+}
+
+export interface ImportDbmlResult {
+  objectsCreated: number;
+  attributesCreated: number;
+  relationshipsCreated: number;
+  issues: DbmlParseIssue[];
+  warnings: string[];
+}
+
+// DBML carries no positions; imported tables start on a grid
+const GRID_COLUMNS = 4;
+const GRID_SPACING = { x: 320, y: 260 };
+
+/** Places the DBML type in the field the layer reads, keeping it as dataType as well. */
+function layerTypes(column: DbmlColumn, layer: string) {
+  if (layer === "conceptual") return { dataType: column.type, conceptualType: column.type };
+  if (layer === "logical") return { dataType: column.type, logicalType: column.type };
+  return { dataType: column.type, physicalType: column.type };
+}
+
+/**
+ * Import a DBML document into one model layer. Tables become user-created layer
+ * objects, and each column pair of a `Ref` becomes an attribute-level relationship.
+ * Tables whose name already exists in the layer are left untouched.
+ */
+export async function importDbmlIntoLayer(input: ImportDbmlInput, storage: Storage): Promise<ImportDbmlResult> {
+  if (!input.dbml?.trim()) {
+    throw new Error("DBML text is required");
+  }
+  const layer = await storage.getDataModelLayer(input.modelId);
+  if (!layer) {
+    throw new Error(`Model with ID ${input.modelId} not found`);
+  }
+  const layerName = (layer.layer ?? "conceptual") as "conceptual" | "logical" | "physical";
+
+  const parsed = parseDbml(input.dbml);
+  if (parsed.tables.length === 0) {
+    const reason = parsed.issues[0] ? ` (line ${parsed.issues[0].line}: ${parsed.issues[0].reason})` : "";
+    throw new Error(`DBML must define at least one table${reason}`);
+  }
+
+  const warnings: string[] = [];
+  const existingNames = new Set(
+    (await storage.getDataModelObjectsByModel(input.modelId)).map((object) => (object.name ?? "").toLowerCase()),
+  );
+
+  // Foreign key flags come from the referencing side of each ref
+  const foreignKeys = new Set<string>();
+  const columnKey = (tableName: string, columnName: string) => `${tableName.toLowerCase()}.${columnName.toLowerCase()}`;
+  parsed.refs.forEach((ref) => {
+    const side = resolveForeignKeySide(ref.type);
+    const table = findDbmlTable(parsed.tables, side === "target" ? ref.toTable : ref.fromTable);
+    if (!side || !table) return;
+    (side === "target" ? ref.toColumns : ref.fromColumns).forEach((column) => foreignKeys.add(columnKey(table.name, column)));
+  });
+
+  const created = new Map<string, { modelObjectId: number; attributes: DataModelObjectAttribute[] }>();
+  let attributesCreated = 0;
+  let position = 0;
+  for (let index = 0; index < parsed.tables.length; index++) {
+    const table = parsed.tables[index];
+    if (existingNames.has(table.name.toLowerCase()) || created.has(table.name.toLowerCase())) {
+      warnings.push(`${table.name} already exists in this layer and was skipped`);
+      continue;
+    }
+
+    const result = await createUserObject(
+      {
+        modelId: input.modelId,
+        name: table.name,
+        description: table.note,
+        position: {
+          x: (position % GRID_COLUMNS) * GRID_SPACING.x,
+          y: Math.floor(position / GRID_COLUMNS) * GRID_SPACING.y,
+        },
+        metadata: { importedFrom: "dbml", ...(table.schema ? { schema: table.schema } : {}) },
+        attributes: table.columns.map((column, orderIndex) => ({
+          name: column.name,
+          description: column.note,
+          ...layerTypes(column, layerName),
+          length: column.length,
+          precision: column.precision,
+          scale: column.scale,
+          nullable: column.nullable,
+          isPrimaryKey: column.isPrimaryKey,
+          isForeignKey: foreignKeys.has(columnKey(table.name, column.name)),
+          orderIndex,
+        })),
+      },
+      storage,
+    );
+    position += 1;
+    attributesCreated += result.attributes.length;
+    created.set(table.name.toLowerCase(), { modelObjectId: result.modelObject.id, attributes: result.attributes });
+  }
+
+  let relationshipsCreated = 0;
+  for (let index = 0; index < parsed.refs.length; index++) {
+    const ref = parsed.refs[index];
+    const label = `${ref.fromTable}.(${ref.fromColumns.join(", ")}) -> ${ref.toTable}.(${ref.toColumns.join(", ")})`;
+    const fromTable = findDbmlTable(parsed.tables, ref.fromTable);
+    const toTable = findDbmlTable(parsed.tables, ref.toTable);
+    const source = fromTable && created.get(fromTable.name.toLowerCase());
+    const target = toTable && created.get(toTable.name.toLowerCase());
+    if (!source || !target) {
+      warnings.push(`Ref ${label} points at a table that was not imported`);
+      continue;
+    }
+    if (ref.fromColumns.length !== ref.toColumns.length) {
+      warnings.push(`Ref ${label} pairs a different number of columns on each side`);
+      continue;
+    }
+
+    for (let pair = 0; pair < ref.fromColumns.length; pair++) {
+      const find = (attributes: DataModelObjectAttribute[], name: string) =>
+        attributes.find((attribute) => attribute.name?.toLowerCase() === name.toLowerCase());
+      const sourceAttribute = find(source.attributes, ref.fromColumns[pair]);
+      const targetAttribute = find(target.attributes, ref.toColumns[pair]);
+      if (!sourceAttribute || !targetAttribute) {
+        warnings.push(`Ref ${label} names a column the table does not define`);
+        continue;
+      }
+      await storage.createDataModelObjectRelationship({
+        sourceModelObjectId: source.modelObjectId,
+        targetModelObjectId: target.modelObjectId,
+        type: ref.type,
+        relationshipLevel: "attribute",
+        sourceAttributeId: sourceAttribute.id,
+        targetAttributeId: targetAttribute.id,
+        modelId: input.modelId,
+        layer: layerName,
+        name: ref.name ?? null,
+        description: null,
+      });
+      relationshipsCreated += 1;
+    }
+  }
+
+  return {
+    objectsCreated: created.size,
+    attributesCreated,
+    relationshipsCreated,
+    issues: parsed.issues,
+    warnings,
+  };
+}
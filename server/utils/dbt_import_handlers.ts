@@ -0,0 +1,232 @@
+import type { Storage } from "../storage";
+import type { Attribute, DataObject } from "@shared/schema";
+import { parseDbtProject, type DbtImportObject, type DbtProjectPlan } from "../services/dbtManifest";
+import { createModelWithLayers, type CreateModelWithLayersResult } from "./model_handlers";
+
+export interface ImportDbtProjectInput {
+  manifest: unknown;
+  catalog?: unknown;
+  /** Defaults to the dbt project name. */
+  name?: string;
+  targetSystemId?: number | string;
+  includePackages?: boolean;
+}
+
+export interface ImportDbtProjectResult {
+  model: CreateModelWithLayersResult;
+  projectName: string;
+  objectsCreated: number;
+  objectsUpdated: number;
+  attributesCreated: number;
+  relationshipsCreated: number;
+  domainsCreated: number;
+  warnings: string[];
+}
+
+/**
+ * Import a dbt project as a model family: data objects and attributes are created
+ * (or refreshed when the same dbt node was imported before), relationships come from
+ * `relationships` tests, and the model layers are built from the imported objects.
+ * The whole import runs in one transaction.
+ */
+export async function importDbtProject(
+  input: ImportDbtProjectInput,
+  storage: Storage
+): Promise<ImportDbtProjectResult> {
+  const plan = parseDbtProject(input.manifest, input.catalog, { includePackages: input.includePackages });
+  if (plan.objects.length === 0) {
+    throw new Error("At least one dbt model or source is required to import");
+  }
+  return await storage.transaction(() => applyDbtImport(plan, input, storage));
+}
+
+async function applyDbtImport(
+  plan: DbtProjectPlan,
+  input: ImportDbtProjectInput,
+  storage: Storage
+): Promise<ImportDbtProjectResult> {
+  const warnings = [...plan.warnings];
+
+  // Domains and areas named by the project, created once per name
+  const domainIds = new Map<string, number>();
+  const areaIds = new Map<string, number>();
+  let domainsCreated = 0;
+  const resolveDomain = async (object: DbtImportObject) => {
+    if (!object.domain) return { domainId: null, dataAreaId: null };
+    let domainId = domainIds.get(object.domain.toLowerCase());
+    if (domainId === undefined) {
+      let domain = await storage.getDataDomainByName(object.domain);
+      if (!domain) {
+        domain = await storage.createDataDomain({
+          name: object.domain,
+          description: `Imported from dbt project ${plan.projectName}`,
+        });
+        domainsCreated += 1;
+      }
+      domainId = domain.id;
+      domainIds.set(object.domain.toLowerCase(), domainId);
+    }
+    if (!object.dataArea) return { domainId, dataAreaId: null };
+
+    const areaKey = `${domainId}:${object.dataArea.toLowerCase()}`;
+    let dataAreaId = areaIds.get(areaKey);
+    if (dataAreaId === undefined) {
+      let area = await storage.getDataAreaByName(object.dataArea, domainId);
+      if (!area) {
+        area = await storage.createDataArea({
+          name: object.dataArea,
+          domainId,
+          description: `${object.dataArea} models in the ${object.domain} domain`,
+        });
+      }
+      dataAreaId = area.id;
+      areaIds.set(areaKey, dataAreaId);
+    }
+    return { domainId, dataAreaId };
+  };
+
+  // Re-imports refresh the objects created from the same dbt nodes
+  const previouslyImported = new Map<string, DataObject>();
+  (await storage.getAllDataObjects()).forEach((object) => {
+    const uniqueId = object.metadata?.dbt?.uniqueId;
+    if (typeof uniqueId === "string") previouslyImported.set(uniqueId, object);
+  });
+
+  const importedAt = new Date().toISOString();
+  const objectIds = new Map<string, number>();
+  const attributesByNode = new Map<string, Attribute[]>();
+  let objectsCreated = 0;
+  let objectsUpdated = 0;
+  let attributesCreated = 0;
+
+  for (const object of plan.objects) {
+    const { domainId, dataAreaId } = await resolveDomain(object);
+    const metadata: Record<string, any> = {
+      dbt: {
+        uniqueId: object.uniqueId,
+        project: plan.projectName,
+        resourceType: object.resourceType,
+        database: object.database,
+        schema: object.schema,
+        relationName: object.relationName,
+        materialized: object.materialized,
+        tags: object.tags,
+        path: object.path,
+        importedAt,
+      },
+    };
+    const payload = {
+      name: object.name,
+      description: object.description,
+      domainId,
+      dataAreaId,
+      objectType: object.materialized === "view" || object.materialized === "ephemeral" ? "view" : "table",
+      metadata,
+    };
+
+    const existing = previouslyImported.get(object.uniqueId);
+    let stored: DataObject;
+    // Attributes of a re-imported object are matched by name so model layers that use them keep their references
+    const previousAttributes = new Map<string, Attribute>();
+    if (existing) {
+      stored = await storage.updateDataObject(existing.id, { ...payload, isNew: false });
+      await storage.deleteDataObjectRelationshipsByObject(existing.id);
+      (await storage.getAttributesByObject(existing.id)).forEach((attribute) => {
+        previousAttributes.set(attribute.name.toLowerCase(), attribute);
+      });
+      objectsUpdated += 1;
+    } else {
+      stored = await storage.createDataObject({ ...payload, systemId: null, isNew: true });
+      objectsCreated += 1;
+    }
+    objectIds.set(object.uniqueId, stored.id);
+
+    const attributes: Attribute[] = [];
+    for (let index = 0; index < object.columns.length; index++) {
+      const column = object.columns[index];
+      const fields = {
+        name: column.name,
+        objectId: stored.id,
+        description: column.description,
+        conceptualType: column.type,
+        logicalType: column.type,
+        physicalType: column.type,
+        dataType: column.type,
+        length: column.length ?? null,
+        precision: column.precision ?? null,
+        scale: column.scale ?? null,
+        nullable: column.nullable,
+        isPrimaryKey: column.isPrimaryKey,
+        isForeignKey: column.isForeignKey,
+        orderIndex: index,
+      };
+      const previous = previousAttributes.get(column.name.toLowerCase());
+      if (previous) {
+        previousAttributes.delete(column.name.toLowerCase());
+        attributes.push(await storage.updateAttribute(previous.id, fields));
+      } else {
+        attributes.push(await storage.createAttribute(fields));
+        attributesCreated += 1;
+      }
+    }
+    attributesByNode.set(object.uniqueId, attributes);
+
+    // Columns dropped from the dbt node go away unless a model layer still uses them
+    const dropped = Array.from(previousAttributes.values());
+    const referenced = new Set(await storage.getReferencedAttributeIds(dropped.map((attribute) => attribute.id)));
+    for (const attribute of dropped) {
+      if (referenced.has(attribute.id)) {
+        warnings.push(`${object.name}.${attribute.name} is no longer in dbt but is kept because model layers use it`);
+      } else {
+        await storage.deleteAttribute(attribute.id);
+      }
+    }
+  }
+
+  let relationshipsCreated = 0;
+  for (const relationship of plan.relationships) {
+    const findAttribute = (nodeId: string, name: string) =>
+      attributesByNode.get(nodeId)?.find((attribute) => attribute.name === name);
+    const sourceAttribute = findAttribute(relationship.childId, relationship.childColumn);
+    const targetAttribute = findAttribute(relationship.parentId, relationship.parentColumn);
+    if (!sourceAttribute || !targetAttribute) continue;
+
+    const metadata: Record<string, any> = {
+      detectionStrategy: "dbt_relationships_test",
+      sourceColumn: relationship.childColumn,
+      targetColumn: relationship.parentColumn,
+    };
+    await storage.createDataObjectRelationship({
+      sourceDataObjectId: objectIds.get(relationship.childId)!,
+      targetDataObjectId: objectIds.get(relationship.parentId)!,
+      type: relationship.type,
+      relationshipLevel: "attribute",
+      sourceAttributeId: sourceAttribute.id,
+      targetAttributeId: targetAttribute.id,
+      name: relationship.testName,
+      description: "Imported from a dbt relationships test",
+      metadata,
+    });
+    relationshipsCreated += 1;
+  }
+
+  const model = await createModelWithLayers(
+    {
+      name: input.name?.trim() || plan.projectName,
+      targetSystemId: input.targetSystemId,
+      selectedObjectIds: Array.from(objectIds.values()),
+    },
+    storage
+  );
+
+  return {
+    model,
+    projectName: plan.projectName,
+    objectsCreated,
+    objectsUpdated,
+    attributesCreated,
+    relationshipsCreated,
+    domainsCreated,
+    warnings,
+  };
+}
@@ -1,6 +1,9 @@
 import type { DataModel, DataObject, Attribute, DataModelObjectRelationship } from "../../shared/schema";
 import { exportService } from "../services/exportService";
+import { resolveDialectName } from "../services/sqlDialects";
+import { loadMigrationBaseline } from "./migration_handlers";
 import type { Storage } from "../storage";
+import type { DbtScaffoldIdMap } from "../services/dbtScaffold";
 
 /**
  * Export model data in various formats (JSON, SQL, etc.)
@@ -32,19 +35,79 @@ export async function exportModelData(
   }
   
   console.log('Attributes fetched:', allAttributes.length);
+
+  const migrationBaseline =
+    options?.format === "migration_sql"
+      ? await loadMigrationBaseline({ baseLayerId: options.baseLayerId, baseSystemId: options.baseSystemId }, storage)
+      : undefined;
+  const dbtIdMap = options?.format === "dbt" ? await loadDbtIdMap(modelId, storage) : undefined;
   
   const exportedData = await exportService.exportModel(
     model,
     objects,
     allAttributes,
     relationships,
-    options
+    {
+      ...options,
+      sqlDialect: resolveDialectName(options?.sqlDialect) ?? "generic",
+      migrationBaseline,
+      dbtIdMap,
+    }
   );
   
   console.log('Export completed successfully');
   return exportedData;
 }
 
+/**
+ * Relationships on a layer point at model objects and model attributes; map them
+ * to the data objects and attributes the dbt scaffold is generated from.
+ */
+async function loadDbtIdMap(modelId: number, storage: Storage): Promise<DbtScaffoldIdMap> {
+  const modelObjects = await storage.getDataModelObjectsByModel(modelId);
+  const modelObjectIds = new Set(modelObjects.map((modelObject) => modelObject.id));
+  const modelAttributes = (await storage.getDataModelObjectAttributes()).filter((attribute) =>
+    modelObjectIds.has(attribute.modelObjectId)
+  );
+  return {
+    modelObjects: modelObjects.map(({ id, objectId }) => ({ id, objectId })),
+    modelAttributes: modelAttributes.map(({ id, attributeId }) => ({ id, attributeId })),
+  };
+}
+
+/**
+ * Package the model as a dbt project scaffold (zip). Tables are declared under the
+ * requested source name, else the model's target system, else the model name.
+ */
+export async function exportDbtScaffold(
+  modelId: number,
+  options: any,
+  storage: Storage
+): Promise<{ fileName: string; archive: Uint8Array }> {
+  const model = await storage.getDataModel(modelId);
+  if (!model) {
+    throw new Error("Model not found");
+  }
+
+  const objects = await storage.getDataObjectsByModel(modelId);
+  const relationships = await storage.getDataModelObjectRelationshipsByModel(modelId);
+  const attributes: Attribute[] = [];
+  for (const obj of objects) {
+    attributes.push(...(await storage.getAttributesByObject(obj.id)));
+  }
+
+  const targetSystem = model.targetSystemId ? await storage.getSystem(model.targetSystemId) : undefined;
+  const archive = exportService.exportDbtArchive(model, objects, attributes, relationships, {
+    ...options,
+    format: "dbt",
+    dbtSourceName: options?.dbtSourceName || targetSystem?.name,
+    dbtIdMap: await loadDbtIdMap(modelId, storage),
+  });
+
+  const fileName = `${model.name.replace(/[^A-Za-z0-9_-]+/g, "_")}_dbt.zip`;
+  return { fileName, archive };
+}
+
 /**
  * Generate SVG diagram for a data model
  */
@@ -0,0 +1,130 @@
+import type { Storage } from "../storage";
+import {
+  buildSnapshotFromMetadata,
+  buildSnapshotFromModel,
+  diffSchemas,
+  generateMigrationScript,
+  type MigrationScript,
+  type SchemaDiff,
+  type SchemaSnapshot,
+} from "../services/schemaDiff";
+import { getSqlDialect, resolveDialectName } from "../services/sqlDialects";
+import { retrieveSystemMetadata } from "./system_utils";
+import type { MigrationGenerateRequest } from "./validation_schemas";
+
+export interface MigrationGenerateResult extends MigrationScript {
+  dialect: string;
+  diff: SchemaDiff;
+}
+
+/**
+ * Load a dialect-neutral schema snapshot of a model layer. Model objects and
+ * attributes that were synced from a system fall back to the global object
+ * and attribute for their name and types.
+ */
+export async function loadLayerSchemaSnapshot(layerId: number, storage: Storage): Promise<SchemaSnapshot> {
+  const layer = await storage.getDataModelLayer(layerId);
+  if (!layer) {
+    throw new Error(`Model layer ${layerId} not found`);
+  }
+
+  const modelObjects = await storage.getDataModelObjectsByModel(layerId);
+  const modelObjectIds = new Set(modelObjects.map((modelObject) => modelObject.id));
+  const modelAttributes = (await storage.getDataModelObjectAttributes()).filter(
+    (attribute) => modelObjectIds.has(attribute.modelObjectId) && attribute.modelId === layer.dataModelId,
+  );
+  const relationships = await storage.getDataModelObjectRelationshipsByModel(layerId);
+
+  const objects = await Promise.all(
+    modelObjects.map(async (modelObject) => {
+      const dataObject = modelObject.objectId ? await storage.getDataObject(modelObject.objectId) : undefined;
+      return {
+        id: modelObject.id,
+        name: modelObject.name ?? dataObject?.name ?? null,
+        description: modelObject.description ?? dataObject?.description ?? null,
+      };
+    }),
+  );
+
+  const attributes = await Promise.all(
+    modelAttributes.map(async (modelAttribute) => {
+      const base = modelAttribute.attributeId ? await storage.getAttribute(modelAttribute.attributeId) : undefined;
+      return {
+        id: modelAttribute.id,
+        objectId: modelAttribute.modelObjectId,
+        name: modelAttribute.name ?? base?.name ?? null,
+        description: modelAttribute.description ?? base?.description ?? null,
+        conceptualType: modelAttribute.conceptualType ?? base?.conceptualType ?? null,
+        logicalType: modelAttribute.logicalType ?? base?.logicalType ?? null,
+        physicalType: modelAttribute.physicalType ?? base?.physicalType ?? null,
+        dataType: modelAttribute.dataType ?? base?.dataType ?? null,
+        length: modelAttribute.length ?? base?.length ?? null,
+        precision: modelAttribute.precision ?? base?.precision ?? null,
+        scale: modelAttribute.scale ?? base?.scale ?? null,
+        nullable: modelAttribute.nullable ?? base?.nullable ?? true,
+        isPrimaryKey: modelAttribute.isPrimaryKey ?? base?.isPrimaryKey ?? false,
+        orderIndex: modelAttribute.orderIndex,
+      };
+    }),
+  );
+
+  return buildSnapshotFromModel(objects, attributes, relationships);
+}
+
+/**
+ * Load a schema snapshot of a live system through its connector.
+ */
+export async function loadSystemSchemaSnapshot(systemId: number, storage: Storage): Promise<SchemaSnapshot> {
+  const system = await storage.getSystem(systemId);
+  if (!system) {
+    throw new Error(`System ${systemId} not found`);
+  }
+
+  const metadata = await retrieveSystemMetadata(system);
+  return buildSnapshotFromMetadata(metadata);
+}
+
+/**
+ * Resolve the baseline a migration starts from: another layer when
+ * `baseLayerId` is given, otherwise the live system `baseSystemId`.
+ */
+export async function loadMigrationBaseline(
+  input: { baseLayerId?: number | null; baseSystemId?: number | null },
+  storage: Storage,
+): Promise<SchemaSnapshot> {
+  if (input.baseLayerId) {
+    return loadLayerSchemaSnapshot(input.baseLayerId, storage);
+  }
+  if (input.baseSystemId) {
+    return loadSystemSchemaSnapshot(input.baseSystemId, storage);
+  }
+  throw new Error("Either baseLayerId or baseSystemId is required");
+}
+
+/**
+ * Generate forward and rollback migration scripts that bring the baseline
+ * schema in line with the target physical layer.
+ */
+export async function generateLayerMigration(
+  input: MigrationGenerateRequest,
+  storage: Storage,
+): Promise<MigrationGenerateResult> {
+  const dialectName = resolveDialectName(input.dialect);
+  if (input.dialect && !dialectName) {
+    throw new Error(`Unsupported SQL dialect: ${input.dialect}`);
+  }
+  const dialect = getSqlDialect(dialectName ?? "generic");
+
+  const [baseline, target] = await Promise.all([
+    loadMigrationBaseline(input, storage),
+    loadLayerSchemaSnapshot(input.targetLayerId, storage),
+  ]);
+
+  const diff = diffSchemas(baseline, target);
+  const script = generateMigrationScript(diff, dialect, {
+    allowDrop: input.allowDrop,
+    title: `Migration to layer ${input.targetLayerId}`,
+  });
+
+  return { ...script, dialect: dialect.name, diff };
+}
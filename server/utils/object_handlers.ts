@@ -619,11 +619,25 @@ async function createRelationships(
 }
 
 /**
- * Delete a data object and all associated data
+ * Delete a data object and all associated data. With an expected version the
+ * cascade runs in one transaction, so when the object itself turns out to
+ * have changed nothing is deleted.
  */
 export async function deleteDataObjectCascade(
   objectId: number,
-  storage: Storage
+  storage: Storage,
+  expectedVersion: string | null = null
+): Promise<void> {
+  if (expectedVersion !== null) {
+    return await storage.transaction(() => removeDataObject(objectId, storage, expectedVersion));
+  }
+  await removeDataObject(objectId, storage, null);
+}
+
+async function removeDataObject(
+  objectId: number,
+  storage: Storage,
+  expectedVersion: string | null
 ): Promise<void> {
   console.log(`Attempting to delete object ${objectId}`);
 
@@ -644,6 +658,6 @@ export async function deleteDataObjectCascade(
 
   // Delete the object itself
   console.log(`Deleting object ${objectId}`);
-  await storage.deleteDataObject(objectId);
+  await storage.deleteDataObject(objectId, expectedVersion);
   console.log(`Successfully deleted object ${objectId}`);
 }
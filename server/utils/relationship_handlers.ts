@@ -1,5 +1,9 @@
-import { createRelationshipRequestSchema, updateRelationshipRequestSchema } from "./validation_schemas";
-import { insertDataObjectRelationshipSchema } from "../../shared/schema";
+import {
+  createRelationshipRequestSchema,
+  updateRelationshipRequestSchema,
+  type UpdateRelationshipRequest,
+} from "./validation_schemas";
+import { insertDataObjectRelationshipSchema, type DataModelObjectRelationship } from "../../shared/schema";
 import { synchronizeFamilyRelationships } from "./relationship_utils";
 import type { Storage } from "../storage";
 
@@ -238,12 +242,15 @@ export async function createRelationship(
 }
 
 /**
- * Update an existing relationship
+ * Update an existing relationship. With an expected version the relationship
+ * row is claimed first, before family sync touches it, and the whole update
+ * runs in one transaction so a conflict leaves nothing half-written.
  */
 export async function updateRelationship(
   id: number,
   payload: any,
-  storage: Storage
+  storage: Storage,
+  expectedVersion: string | null = null
 ): Promise<any> {
   const validatedPayload = updateRelationshipRequestSchema.parse(payload);
   const existing = await storage.getDataModelObjectRelationship(id);
@@ -251,6 +258,22 @@ export async function updateRelationship(
   if (!existing) {
     throw new Error("Relationship not found");
   }
+  if (expectedVersion === null) {
+    return await applyRelationshipUpdate(id, existing, validatedPayload, payload, storage);
+  }
+  return await storage.transaction(async () => {
+    await storage.updateDataModelObjectRelationship(id, {}, expectedVersion);
+    return await applyRelationshipUpdate(id, existing, validatedPayload, payload, storage);
+  });
+}
+
+async function applyRelationshipUpdate(
+  id: number,
+  existing: DataModelObjectRelationship,
+  validatedPayload: UpdateRelationshipRequest,
+  payload: any,
+  storage: Storage
+): Promise<any> {
 
   // Handle reconnection - if sourceModelObjectId or targetModelObjectId is provided, use it
   const finalSourceModelObjectId = validatedPayload.sourceModelObjectId ?? existing.sourceModelObjectId;
@@ -448,32 +471,47 @@ export async function updateRelationship(
   }
   
   // Apply updates if any
-  if (Object.keys(relationshipUpdate).length > 0) {
-    await storage.updateDataModelObjectRelationship(id, relationshipUpdate);
-  }
+  const savedRelationship = Object.keys(relationshipUpdate).length > 0
+    ? await storage.updateDataModelObjectRelationship(id, relationshipUpdate)
+    : undefined;
 
   const currentRelationship = familyRelationships.get(model.id);
 
   return {
     ...(currentRelationship ?? existing),
+    ...(savedRelationship ?? {}),
     dataObjectRelationshipId: dataObjectRelationship?.id ?? null,
     syncedModelIds: Array.from(familyRelationships.keys()),
   };
 }
 
 /**
- * Delete a relationship and clean up related data
+ * Delete a relationship and clean up related data. With an expected version
+ * the delete is conditioned on it and the clean-up runs in the same
+ * transaction, so a conflict leaves the other layers untouched.
  */
 export async function deleteRelationship(
   id: number,
-  storage: Storage
+  storage: Storage,
+  expectedVersion: string | null = null
 ): Promise<void> {
   const existing = await storage.getDataModelObjectRelationship(id);
 
   if (!existing) {
     throw new Error("Relationship not found");
   }
+  if (expectedVersion === null) {
+    return await removeRelationship(id, existing, storage, null);
+  }
+  return await storage.transaction(() => removeRelationship(id, existing, storage, expectedVersion));
+}
 
+async function removeRelationship(
+  id: number,
+  existing: DataModelObjectRelationship,
+  storage: Storage,
+  expectedVersion: string | null
+): Promise<void> {
   const [sourceModelObject, targetModelObject] = await Promise.all([
     storage.getDataModelObject(existing.sourceModelObjectId),
     storage.getDataModelObject(existing.targetModelObjectId),
@@ -502,7 +540,7 @@ export async function deleteRelationship(
     return value;
   };
 
-  await storage.deleteDataModelObjectRelationship(id);
+  await storage.deleteDataModelObjectRelationship(id, expectedVersion);
 
   const sourceObjectId = sourceModelObject?.objectId ?? null;
   const targetObjectId = targetModelObject?.objectId ?? null;
@@ -1,5 +1,6 @@
 import type { Storage } from "../storage";
 import type { System } from "@shared/schema";
+import { VersionConflictError } from "./concurrency";
 
 /**
  * Parse optional number values from request parameters
@@ -191,7 +192,7 @@ export function formatZodError(error: any): {
  */
 export function handleError(error: unknown): {
   status: number;
-  body: { message: string; details?: any; errors?: any };
+  body: { message: string; details?: any; errors?: any; current?: unknown; currentVersion?: string | null };
 } {
   if (isZodError(error)) {
     return {
@@ -200,6 +201,13 @@ export function handleError(error: unknown): {
     };
   }
   
+  if (error instanceof VersionConflictError) {
+    return {
+      status: error.status,
+      body: { message: error.message, current: error.current, currentVersion: error.currentVersion },
+    };
+  }
+
   const message = extractErrorMessage(error);
   
   // Check for common error types
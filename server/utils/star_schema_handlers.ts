@@ -0,0 +1,199 @@
+import type { Storage } from "../storage";
+import type { DataModelLayer, DataModelObjectAttribute } from "@shared/schema";
+import {
+  proposeStarSchema,
+  type StarSchemaProposal,
+  type StarSourceAttribute,
+  type StarSourceObject,
+} from "../services/starSchemaDesigner";
+import { createUserObject } from "./user_object_handlers";
+import type { StarSchemaRequest } from "./validation_schemas";
+
+export interface StarSchemaPreview extends StarSchemaProposal {
+  sourceLayer: DataModelLayer;
+}
+
+export interface StarSchemaCreateResult {
+  layer: DataModelLayer;
+  proposal: StarSchemaProposal;
+  objectsCreated: number;
+  attributesCreated: number;
+  relationshipsCreated: number;
+}
+
+// Facts go down the middle with their dimensions alternating left and right
+const COLUMN_X = { left: 0, fact: 420, right: 840 };
+const ROW_SPACING = 300;
+
+/**
+ * Propose a star schema for a logical layer, or for the selected objects of it.
+ * Synced model objects and attributes fall back to the global object and
+ * attribute for their names and types.
+ */
+export async function previewStarSchema(
+  modelId: number,
+  request: StarSchemaRequest,
+  storage: Storage,
+): Promise<StarSchemaPreview> {
+  const layer = await storage.getDataModelLayer(modelId);
+  if (!layer) {
+    throw new Error(`Model layer ${modelId} not found`);
+  }
+  if (layer.layer !== "logical") {
+    throw new Error(`Star schema source must be a logical layer, but layer ${modelId} is ${layer.layer}`);
+  }
+
+  const selected = request.objectIds && request.objectIds.length > 0 ? new Set(request.objectIds) : null;
+  const modelObjects = (await storage.getDataModelObjectsByModel(modelId)).filter(
+    (modelObject) => !selected || selected.has(modelObject.id),
+  );
+  if (modelObjects.length === 0) {
+    throw new Error("At least one logical object is required to generate a star schema");
+  }
+  const modelObjectIds = new Set(modelObjects.map((modelObject) => modelObject.id));
+  const modelAttributes = (await storage.getDataModelObjectAttributes()).filter((attribute) =>
+    modelObjectIds.has(attribute.modelObjectId),
+  );
+  const relationships = await storage.getDataModelObjectRelationshipsByModel(modelId);
+
+  const objects = await Promise.all(
+    modelObjects.map(async (modelObject): Promise<StarSourceObject> => {
+      const dataObject = modelObject.objectId ? await storage.getDataObject(modelObject.objectId) : undefined;
+      return {
+        id: modelObject.id,
+        name: modelObject.name ?? dataObject?.name ?? null,
+        description: modelObject.description ?? dataObject?.description ?? null,
+      };
+    }),
+  );
+  const attributes = await Promise.all(
+    modelAttributes.map(async (modelAttribute): Promise<StarSourceAttribute> => {
+      const base = modelAttribute.attributeId ? await storage.getAttribute(modelAttribute.attributeId) : undefined;
+      return {
+        id: modelAttribute.id,
+        objectId: modelAttribute.modelObjectId,
+        name: modelAttribute.name ?? base?.name ?? null,
+        description: modelAttribute.description ?? base?.description ?? null,
+        conceptualType: modelAttribute.conceptualType ?? base?.conceptualType ?? null,
+        logicalType: modelAttribute.logicalType ?? base?.logicalType ?? null,
+        physicalType: modelAttribute.physicalType ?? base?.physicalType ?? null,
+        dataType: modelAttribute.dataType ?? base?.dataType ?? null,
+        length: modelAttribute.length ?? base?.length ?? null,
+        precision: modelAttribute.precision ?? base?.precision ?? null,
+        scale: modelAttribute.scale ?? base?.scale ?? null,
+        nullable: modelAttribute.nullable ?? base?.nullable ?? true,
+        isPrimaryKey: modelAttribute.isPrimaryKey ?? base?.isPrimaryKey ?? false,
+        isForeignKey: modelAttribute.isForeignKey ?? base?.isForeignKey ?? false,
+        orderIndex: modelAttribute.orderIndex,
+      };
+    }),
+  );
+
+  const proposal = proposeStarSchema({
+    objects,
+    attributes,
+    relationships,
+    roles: request.roles,
+    scdType2: request.scdType2,
+  });
+  return { ...proposal, sourceLayer: layer };
+}
+
+/**
+ * Generate the proposed star schema as a new physical layer of the same model.
+ * The source logical layer is not changed.
+ */
+export async function createStarSchemaLayer(
+  modelId: number,
+  request: StarSchemaRequest,
+  storage: Storage,
+): Promise<StarSchemaCreateResult> {
+  const { sourceLayer, ...proposal } = await previewStarSchema(modelId, request, storage);
+  if (proposal.tables.length === 0) {
+    throw new Error("At least one fact or dimension table is required; every object was excluded");
+  }
+
+  const layer = await storage.createDataModelLayer({
+    name: request.name ?? `${sourceLayer.name} (star schema)`,
+    layer: "physical",
+    dataModelId: sourceLayer.dataModelId,
+    parentModelId: sourceLayer.parentModelId ?? sourceLayer.id,
+    targetSystemId: sourceLayer.targetSystemId,
+    domainId: sourceLayer.domainId,
+    dataAreaId: sourceLayer.dataAreaId,
+  });
+
+  const created = new Map<string, { modelObjectId: number; attributes: DataModelObjectAttribute[] }>();
+  const rows = { left: 0, fact: 0, right: 0 };
+  let attributesCreated = 0;
+  let dimensionIndex = 0;
+  for (let index = 0; index < proposal.tables.length; index++) {
+    const table = proposal.tables[index];
+    const column = table.role === "fact" ? "fact" : dimensionIndex++ % 2 === 0 ? "left" : "right";
+    const result = await createUserObject(
+      {
+        modelId: layer.id,
+        name: table.name,
+        description: table.description ?? undefined,
+        objectType: table.role,
+        domainId: sourceLayer.domainId ?? undefined,
+        dataAreaId: sourceLayer.dataAreaId ?? undefined,
+        position: { x: COLUMN_X[column], y: rows[column]++ * ROW_SPACING },
+        metadata: {
+          generatedBy: "star_schema",
+          starRole: table.role,
+          sourceModelObjectId: table.sourceObjectId,
+          ...(table.role === "dimension" && request.scdType2 !== false ? { scdType: 2 } : {}),
+        },
+        attributes: table.columns.map((starColumn, orderIndex) => ({
+          name: starColumn.name,
+          description: starColumn.description ?? undefined,
+          dataType: starColumn.physicalType,
+          physicalType: starColumn.physicalType,
+          length: starColumn.length ?? undefined,
+          precision: starColumn.precision ?? undefined,
+          scale: starColumn.scale ?? undefined,
+          nullable: starColumn.nullable,
+          isPrimaryKey: starColumn.isPrimaryKey,
+          isForeignKey: starColumn.isForeignKey,
+          orderIndex,
+        })),
+      },
+      storage,
+    );
+    attributesCreated += result.attributes.length;
+    created.set(table.name, { modelObjectId: result.modelObject.id, attributes: result.attributes });
+  }
+
+  let relationshipsCreated = 0;
+  for (let index = 0; index < proposal.relationships.length; index++) {
+    const relationship = proposal.relationships[index];
+    const fact = created.get(relationship.factTable);
+    const dimension = created.get(relationship.dimensionTable);
+    const sourceAttribute = fact?.attributes.find((attribute) => attribute.name === relationship.column);
+    const targetAttribute = dimension?.attributes.find((attribute) => attribute.name === relationship.dimensionColumn);
+    if (!fact || !dimension || !sourceAttribute || !targetAttribute) continue;
+
+    await storage.createDataModelObjectRelationship({
+      sourceModelObjectId: fact.modelObjectId,
+      targetModelObjectId: dimension.modelObjectId,
+      type: "N:1",
+      relationshipLevel: "attribute",
+      sourceAttributeId: sourceAttribute.id,
+      targetAttributeId: targetAttribute.id,
+      modelId: layer.id,
+      layer: "physical",
+      name: null,
+      description: null,
+    });
+    relationshipsCreated += 1;
+  }
+
+  return {
+    layer,
+    proposal,
+    objectsCreated: created.size,
+    attributesCreated,
+    relationshipsCreated,
+  };
+}
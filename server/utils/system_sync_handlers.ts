@@ -1,9 +1,11 @@
 import type { Storage } from "../storage";
 import type { System, DataObject, Attribute } from "@shared/schema";
+import { DATA_PROFILE_PROPERTY, findProfileMismatches, type ProfileMismatchKind } from "@shared/dataProfile";
 import { z } from "zod";
 import {
   extractPreferredDomainId,
   extractPreferredDataAreaIds,
+  profileSystemMetadata,
   retrieveSystemMetadata,
 } from "./system_utils";
 import { buildRelationshipKey } from "./relationship_utils";
@@ -18,6 +20,9 @@ export interface SyncSystemObjectsInput {
   domainId?: number | null;
   dataAreaId?: number | null;
   metadataOnly?: boolean;
+  // Sample source rows and store per-column statistics on the attributes
+  profileData?: boolean;
+  profileSampleRows?: number;
   connection?: {
     configuration?: Record<string, unknown>;
     connectionString?: string | null;
@@ -34,6 +39,15 @@ export interface SyncSystemObjectsResult {
   updated: DataObject[];
   attributes: Record<string, number>;
   metadata?: any[];
+  profileMismatches: SyncProfileMismatch[];
+}
+
+// An attribute whose declaration disagrees with the profiled source data
+export interface SyncProfileMismatch {
+  objectName: string;
+  attributeName: string;
+  kind: ProfileMismatchKind;
+  message: string;
 }
 
 /**
@@ -42,6 +56,7 @@ export interface SyncSystemObjectsResult {
  * - Retrieving metadata from the system
  * - Creating/updating data objects
  * - Creating/updating attributes
+ * - Optionally profiling source data onto the attributes
  * - Creating relationships based on foreign keys
  * - Heuristic relationship detection
  */
@@ -57,6 +72,8 @@ export async function syncSystemObjects(
     domainId,
     dataAreaId,
     metadataOnly,
+    profileData = false,
+    profileSampleRows,
     connection,
   } = input;
 
@@ -121,6 +138,14 @@ export async function syncSystemObjects(
     connectionStringOverride: connection?.connectionString ?? null,
   });
 
+  if (profileData) {
+    await profileSystemMetadata(system, metadata, {
+      configurationOverride: connection?.configuration,
+      connectionStringOverride: connection?.connectionString ?? null,
+      sampleRowLimit: profileSampleRows,
+    });
+  }
+
   // If only metadata requested, return early
   if (metadataOnly) {
     return {
@@ -133,6 +158,7 @@ export async function syncSystemObjects(
       updated: [],
       attributes: {},
       metadata,
+      profileMismatches: [],
     };
   }
 
@@ -164,6 +190,7 @@ export async function syncSystemObjects(
   const created: DataObject[] = [];
   const updated: DataObject[] = [];
   const attributeSummary: Record<string, number> = {};
+  const profileMismatches: SyncProfileMismatch[] = [];
 
   for (const table of metadata) {
     const tableKey = table.name.toLowerCase();
@@ -228,6 +255,10 @@ export async function syncSystemObjects(
         attributeSummary[createdObject.id.toString()] = attributesForObject.length;
       }
     }
+
+    if (includeAttributes && Array.isArray(table.columns)) {
+      profileMismatches.push(...collectProfileMismatches(table.name, table.columns));
+    }
   }
 
   // Create relationships based on foreign keys
@@ -276,9 +307,23 @@ export async function syncSystemObjects(
     created,
     updated,
     attributes: attributeSummary,
+    profileMismatches,
   };
 }
 
+function collectProfileMismatches(objectName: string, columns: any[]): SyncProfileMismatch[] {
+  const keyColumns = columns.filter((column) => column.isPrimaryKey).length;
+  return columns.flatMap((column) =>
+    column.profile
+      ? findProfileMismatches(column, column.profile, { soleKey: keyColumns === 1 }).map((mismatch) => ({
+          objectName,
+          attributeName: column.name,
+          ...mismatch,
+        }))
+      : []
+  );
+}
+
 /**
  * Create attributes from column metadata
  */
@@ -297,10 +342,14 @@ async function createAttributesFromColumns(
       conceptualType: column.type,
       logicalType: column.type,
       physicalType: column.type,
+      length: column.length ?? null,
+      precision: column.precision ?? null,
+      scale: column.scale ?? null,
       nullable: column.nullable ?? true,
       isPrimaryKey: column.isPrimaryKey ?? false,
       dataType: column.type,
       orderIndex: index,
+      commonProperties: column.profile ? { [DATA_PROFILE_PROPERTY]: column.profile } : null,
     });
     attributes.push(attribute);
   }
@@ -1,4 +1,4 @@
-import { dataConnectors, type ADLSConnectionConfig, type DatabaseConnectionConfig, type TableMetadata } from "../services/dataConnectors";
+import { dataConnectors, type ADLSConnectionConfig, type ApiConnectionConfig, type DatabaseConnectionConfig, type TableMetadata } from "../services/dataConnectors";
 import type { System } from "@shared/schema";
 
 export function coerceNumericId(value: unknown): number | null {
@@ -160,7 +160,13 @@ export function buildDatabaseConfig(
     const username = (configuration.username as string) ?? (configuration.user as string) ?? (configuration.userName as string);
 
     if (host && username) {
-      const database = (configuration.database as string) ?? (configuration.db as string) ?? "default";
+      // Oracle templates name the database by its service name or SID
+      const database =
+        (configuration.database as string) ??
+        (configuration.db as string) ??
+        (configuration.serviceName as string) ??
+        (configuration.sid as string) ??
+        "default";
       const portRaw = configuration.port ?? configuration.portNumber ?? configuration.portnum;
       const numericPort =
         portRaw === "" || portRaw === null || typeof portRaw === "undefined"
@@ -222,6 +228,22 @@ export function buildAdlsConfig(
   } satisfies ADLSConnectionConfig;
 }
 
+export function buildApiConfig(
+  configuration: Record<string, unknown> | null | undefined,
+): ApiConnectionConfig | null {
+  const specUrl = (configuration?.specUrl as string) ?? (configuration?.schemaUrl as string);
+  if (!specUrl) {
+    return null;
+  }
+
+  return {
+    type: "api",
+    specUrl,
+    authType: (configuration?.authType as string) ?? undefined,
+    apiKey: (configuration?.apiKey as string) ?? undefined,
+  } satisfies ApiConnectionConfig;
+}
+
 export async function testSystemConnectivity(
   system: System,
   override?: {
@@ -244,6 +266,16 @@ export async function testSystemConnectivity(
     return { connected, message: connected ? undefined : "Connection test failed" };
   }
 
+  if (effectiveType === "api") {
+    const apiConfig = buildApiConfig(configuration);
+    if (!apiConfig) {
+      return { connected: false, message: "Missing OpenAPI / JSON Schema URL" };
+    }
+
+    const connected = await dataConnectors.testApiConnection(apiConfig);
+    return { connected, message: connected ? undefined : "Could not fetch the API schema" };
+  }
+
   const dbConfig = buildDatabaseConfig(configuration, connectionString, effectiveType);
   if (!dbConfig) {
     return { connected: false, message: "Missing connection details" };
@@ -272,6 +304,20 @@ export async function retrieveSystemMetadata(
     return await dataConnectors.listADLSDatasets(adlsConfig);
   }
 
+  // Uploaded files keep the metadata parsed at upload time
+  if (effectiveType === "file") {
+    return Array.isArray(configuration.metadata) ? (configuration.metadata as TableMetadata[]) : [];
+  }
+
+  // API systems read their contract: an uploaded document is kept like a file, otherwise it is fetched
+  if (effectiveType === "api") {
+    if (configuration.schemaSource === "upload") {
+      return Array.isArray(configuration.metadata) ? (configuration.metadata as TableMetadata[]) : [];
+    }
+    const apiConfig = buildApiConfig(configuration);
+    return apiConfig ? await dataConnectors.extractApiMetadata(apiConfig) : [];
+  }
+
   const dbConfig =
     buildDatabaseConfig(configuration, connectionString, system.type) ?? ({
       type: "sql_server",
@@ -284,3 +330,36 @@ export async function retrieveSystemMetadata(
 
   return await dataConnectors.extractDatabaseMetadata(dbConfig);
 }
+
+/**
+ * Adds sampled column profiles to `metadata` for SQL systems. Uploaded files are
+ * profiled when they are parsed, and ADLS datasets and API contracts have no rows
+ * to sample, so those are returned as-is.
+ */
+export async function profileSystemMetadata(
+  system: System,
+  metadata: TableMetadata[],
+  options?: {
+    configurationOverride?: Record<string, unknown>;
+    connectionStringOverride?: string | null;
+    sampleRowLimit?: number;
+  }
+): Promise<TableMetadata[]> {
+  const effectiveType = (system.type ?? "").toLowerCase();
+  if (effectiveType === "adls" || effectiveType === "file" || effectiveType === "api" || metadata.length === 0) {
+    return metadata;
+  }
+
+  const configuration = (options?.configurationOverride ?? system.configuration ?? {}) as Record<string, unknown>;
+  const connectionString = options?.connectionStringOverride ?? system.connectionString ?? null;
+  const dbConfig = buildDatabaseConfig(configuration, connectionString, system.type);
+  if (!dbConfig) {
+    throw new Error("Missing connection details for data profiling");
+  }
+  // Unrecognized engines are only probed for reachability; there is no driver to sample rows with
+  if (dbConfig.type === "generic_sql") {
+    return metadata;
+  }
+
+  return await dataConnectors.profileDatabaseTables(dbConfig, metadata, options?.sampleRowLimit);
+}
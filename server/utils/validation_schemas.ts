@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { DEFAULT_ORGANIZATION_ROLE, organizationRoles } from "@shared/permissions";
+import { commentTargetTypes, commentThreadStatuses } from "@shared/comments";
+import { auditActions, auditEntityTypes } from "@shared/audit";
 
 // Configuration schemas
 export const configurationUpdateSchema = z
@@ -23,6 +26,8 @@ export const systemSyncRequestSchema = z.object({
   domainId: z.number().int().positive().nullable().optional(),
   dataAreaId: z.number().int().positive().nullable().optional(),
   metadataOnly: z.boolean().default(false).optional(),
+  profileData: z.boolean().default(false).optional(),
+  profileSampleRows: z.number().int().positive().max(1_000_000).optional(),
 });
 
 export const modelingAgentRequestSchema = z
@@ -41,6 +46,157 @@ export const modelingAgentRequestSchema = z
     path: ["rootModelId"],
   });
 
+export const migrationGenerateRequestSchema = z
+  .object({
+    targetLayerId: z.number().int().positive(),
+    baseLayerId: z.number().int().positive().optional(),
+    baseSystemId: z.number().int().positive().optional(),
+    dialect: z.string().min(1).optional(),
+    allowDrop: z.boolean().default(false).optional(),
+  })
+  .refine((data) => Boolean(data.baseLayerId) !== Boolean(data.baseSystemId), {
+    message: "Provide exactly one of baseLayerId or baseSystemId",
+    path: ["baseLayerId"],
+  });
+
+export const starSchemaRequestSchema = z.object({
+  objectIds: z.array(z.number().int().positive()).optional(),
+  roles: z.record(z.enum(["fact", "dimension", "exclude"] as const)).optional(),
+  scdType2: z.boolean().default(true).optional(),
+  name: z.string().trim().min(1).max(200).optional(),
+});
+
+export const createModelVersionRequestSchema = z.object({
+  name: z.string().max(200).nullable().optional(),
+  description: z.string().nullable().optional(),
+  tag: z.string().max(100).nullable().optional(),
+});
+
+export const modelVersionTagRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const lifecycleTransitionRequestSchema = z.object({
+  phaseId: z.number().int().positive().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const lifecycleApprovalRequestSchema = z.object({
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const lifecycleDecisionRequestSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const commentBodySchema = z.string().trim().min(1, "Comment body is required").max(5000);
+
+export const createCommentThreadRequestSchema = z.object({
+  targetType: z.enum(commentTargetTypes),
+  targetId: z.number().int().positive().nullable().optional(),
+  body: commentBodySchema,
+});
+
+export const commentReplyRequestSchema = z.object({
+  body: commentBodySchema,
+});
+
+export const commentThreadStatusRequestSchema = z.object({
+  status: z.enum(commentThreadStatuses),
+});
+
+// Audit log filters arrive as query-string values
+const auditIdFilterSchema = z.coerce.number().int().positive().optional();
+
+export const auditLogQuerySchema = z.object({
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: auditIdFilterSchema,
+  dataModelId: auditIdFilterSchema,
+  modelObjectId: auditIdFilterSchema,
+  actorUserId: auditIdFilterSchema,
+  action: z.enum(auditActions).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .default(50)
+    .transform((size) => Math.min(200, Math.max(10, size))),
+});
+
+const historyPointSchema = z.object({ x: z.number().finite(), y: z.number().finite() });
+
+export const recordHistoryCommandRequestSchema = z.object({
+  action: z.string().trim().min(1, "action is required").max(64),
+  label: z.string().trim().min(1, "label is required").max(200),
+  requestIds: z.array(z.string().min(1).max(128)).max(200).default([]),
+  positions: z
+    .array(
+      z.object({
+        modelObjectId: z.number().int().positive(),
+        from: historyPointSchema,
+        to: historyPointSchema,
+      })
+    )
+    .max(500)
+    .default([]),
+});
+
+// Capability → model traceability. Scores use the 1-5 scale of the seeded governance data.
+const traceabilityScoreSchema = z.number().int().min(1).max(5).nullable().optional();
+const traceabilityTextSchema = z.string().trim().max(200).nullable().optional();
+
+export const capabilityModelMappingRequestSchema = z.object({
+  modelId: z.number().int().positive(),
+  domainId: z.number().int().positive().nullable().optional(),
+  lifecyclePhaseId: z.number().int().positive().nullable().optional(),
+  lifecycleStatus: z.enum(["planned", "in_progress", "active", "sunset"]).optional(),
+  alignmentRating: z.enum(["low", "medium", "high"]).optional(),
+  businessValueScore: traceabilityScoreSchema,
+  readinessScore: traceabilityScoreSchema,
+  riskLevel: z.enum(["low", "medium", "high", "critical"]).optional(),
+  governanceOwner: traceabilityTextSchema,
+  dataSteward: traceabilityTextSchema,
+  solutionArchitect: traceabilityTextSchema,
+  dataCustodian: traceabilityTextSchema,
+  qaOwner: traceabilityTextSchema,
+  reviewCadence: traceabilityTextSchema,
+  lastReviewedAt: z.coerce.date().nullable().optional(),
+  nextReviewAt: z.coerce.date().nullable().optional(),
+  authoritativeSource: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+  metadata: z.record(z.any()).nullable().optional(),
+});
+
+export const capabilityModelSystemMappingRequestSchema = z.object({
+  modelId: z.number().int().positive(),
+  systemId: z.number().int().positive(),
+  relationshipType: z.string().trim().min(1).max(50).optional(),
+  systemRole: z.string().trim().min(1).max(50).optional(),
+  integrationPattern: traceabilityTextSchema,
+  lifecycleStatus: z.enum(["planned", "in_progress", "active", "sunset"]).optional(),
+  deploymentStatus: z.string().trim().min(1).max(50).optional(),
+  heatmapScore: traceabilityScoreSchema,
+  riskScore: traceabilityScoreSchema,
+  slaHours: z.number().int().min(0).nullable().optional(),
+  isPrimary: z.boolean().optional(),
+  lastValidatedAt: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const organizationRoleSchema = z.enum(organizationRoles);
+
+export const inviteMemberRequestSchema = z.object({
+  email: z.string().trim().email("Valid email is required"),
+  role: organizationRoleSchema.default(DEFAULT_ORGANIZATION_ROLE),
+});
+
+export const updateMemberRoleRequestSchema = z.object({
+  role: organizationRoleSchema,
+});
+
 export const relationshipTypeEnum = z.enum(["1:1", "1:N", "N:1", "N:M", "M:N"] as const);
 
 export const createRelationshipRequestSchema = z.object({
@@ -135,7 +291,10 @@ export const relationshipInputSchema = z
 
 export type AttributeInput = z.infer<typeof attributeInputSchema>;
 export type RelationshipInput = z.infer<typeof relationshipInputSchema>;
+export type UpdateRelationshipRequest = z.infer<typeof updateRelationshipRequestSchema>;
 export type ModelObjectConfigInput = z.infer<typeof modelObjectConfigSchema>;
+export type MigrationGenerateRequest = z.infer<typeof migrationGenerateRequestSchema>;
+export type StarSchemaRequest = z.infer<typeof starSchemaRequestSchema>;
 export type SystemObjectDirection = "source" | "target";
 export type RelationshipLevel = "object" | "attribute";
 export type ModelLayer = "conceptual" | "logical" | "physical";
@@ -0,0 +1,115 @@
+// Kept free of database imports so the client can use it at runtime.
+
+// Modeling metadata the storage layer records in the audit log
+export const auditEntityTypes = [
+  "data_model",
+  "data_model_layer",
+  "data_domain",
+  "data_area",
+  "system",
+  "data_object",
+  "attribute",
+  "data_object_relationship",
+  "data_model_object",
+  "data_model_object_attribute",
+  "data_model_object_relationship",
+  "data_model_layer_object",
+  "configuration",
+] as const;
+export type AuditEntityType = (typeof auditEntityTypes)[number];
+
+// "restore" replaces a whole model family from a version snapshot in one step
+export const auditActions = ["create", "update", "delete", "restore"] as const;
+export type AuditAction = (typeof auditActions)[number];
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  data_model: "Model",
+  data_model_layer: "Model layer",
+  data_domain: "Domain",
+  data_area: "Data area",
+  system: "System",
+  data_object: "System object",
+  attribute: "System attribute",
+  data_object_relationship: "System relationship",
+  data_model_object: "Object",
+  data_model_object_attribute: "Attribute",
+  data_model_object_relationship: "Relationship",
+  data_model_layer_object: "Canvas placement",
+  configuration: "Configuration value",
+};
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = ["updatedAt", "createdAt"];
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Fields whose value differs between the recorded before and after images, in a stable order. */
+export function changedAuditFields(before: unknown, after: unknown): AuditFieldChange[] {
+  const beforeRecord = (before && typeof before === "object" ? before : {}) as Record<string, unknown>;
+  const afterRecord = (after && typeof after === "object" ? after : {}) as Record<string, unknown>;
+  const fields = Array.from(new Set(Object.keys(beforeRecord).concat(Object.keys(afterRecord)))).sort();
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.includes(field) && !sameValue(beforeRecord[field], afterRecord[field]))
+    .map((field) => ({ field, before: beforeRecord[field] ?? null, after: afterRecord[field] ?? null }));
+}
+
+export const REDACTED_AUDIT_VALUE = "[redacted]";
+
+// Field names (case and separators ignored) whose values are credentials
+const SECRET_FIELD_PATTERN = /(password|passwd|secret|token|apikey|accesskey|privatekey|connectionstring|credentials?)$/;
+
+const isSecretField = (field: string) => SECRET_FIELD_PATTERN.test(field.toLowerCase().replace(/[^a-z]/g, ""));
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (!value || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  const record = value as Record<string, unknown>;
+  const redacted: Record<string, unknown> = {};
+  Object.keys(record).forEach((field) => {
+    const fieldValue = record[field];
+    const hasValue = fieldValue !== null && fieldValue !== undefined && fieldValue !== "";
+    redacted[field] = hasValue && isSecretField(field) ? REDACTED_AUDIT_VALUE : redactValue(fieldValue);
+  });
+  return redacted;
+}
+
+/**
+ * Copy of an audited row with credentials replaced, at any depth. Key/value
+ * rows (configurations) whose key names a secret have their value replaced.
+ * Audit entries cannot be changed once written, so this runs before writing.
+ */
+export function redactAuditSecrets(row: Record<string, unknown> | null): Record<string, unknown> | null {
+  if (!row) {
+    return null;
+  }
+  const redacted = redactValue(row) as Record<string, unknown>;
+  if (typeof row.key === "string" && isSecretField(row.key) && row.value !== null && row.value !== undefined) {
+    redacted.value = REDACTED_AUDIT_VALUE;
+  }
+  return redacted;
+}
+
+/** Short human name of the audited row, taken from whichever image has one. */
+export function auditEntityName(before: unknown, after: unknown): string | null {
+  for (const image of [after, before]) {
+    if (image && typeof image === "object") {
+      const record = image as Record<string, unknown>;
+      const name = record.name ?? record.key;
+      if (typeof name === "string" && name) {
+        return name;
+      }
+    }
+  }
+  return null;
+}
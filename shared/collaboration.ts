@@ -0,0 +1,151 @@
+import { z } from "zod";
+
+// Kept free of database imports so the client can use it at runtime.
+
+/** Path of the collaboration WebSocket on the application's HTTP server. */
+export const COLLABORATION_PATH = "/ws/collaboration";
+
+/** Request header naming the collaboration client of the tab, so its own writes are not echoed back to it. */
+export const COLLABORATION_CLIENT_HEADER = "X-Collaboration-Client";
+
+const pointSchema = z.object({ x: z.number().finite(), y: z.number().finite() });
+
+/**
+ * A change made to the canvas of a layer, announced by the server after the
+ * REST call that persisted it succeeded. Nodes and edges use the shape of
+ * `GET /api/models/:id/canvas` (node ids are data_model_objects ids);
+ * `layer.changed` is sent for writes that cannot be expressed as node or
+ * edge changes and means the layer must be fetched again.
+ */
+export const collaborationChangeSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("positions"),
+    positions: z.array(z.object({ nodeId: z.string(), position: pointSchema })).max(5000),
+  }),
+  z.object({
+    kind: z.literal("node.upsert"),
+    node: z.object({ id: z.string(), type: z.string().optional(), position: pointSchema, data: z.record(z.any()) }).passthrough(),
+  }),
+  z.object({ kind: z.literal("node.remove"), nodeId: z.string() }),
+  z.object({
+    kind: z.literal("attribute.upsert"),
+    nodeId: z.string(),
+    attribute: z.object({ id: z.number() }).passthrough(),
+  }),
+  z.object({ kind: z.literal("attribute.remove"), nodeId: z.string(), attributeId: z.number() }),
+  z.object({
+    kind: z.literal("edge.upsert"),
+    edge: z.object({ id: z.string(), source: z.string(), target: z.string() }).passthrough(),
+  }),
+  z.object({ kind: z.literal("edge.remove"), edgeId: z.string() }),
+  z.object({ kind: z.literal("layer.changed") }),
+]);
+
+export const collaborationClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), layerId: z.number().int().positive() }),
+  z.object({ type: z.literal("leave") }),
+  z.object({ type: z.literal("cursor"), cursor: pointSchema.nullable() }),
+  z.object({ type: z.literal("selection"), nodeIds: z.array(z.string()).max(500) }),
+]);
+
+export type CollaborationPoint = z.infer<typeof pointSchema>;
+export type CollaborationChange = z.infer<typeof collaborationChangeSchema>;
+export type CollaborationClientMessage = z.infer<typeof collaborationClientMessageSchema>;
+
+export interface CollaborationPeer {
+  clientId: string;
+  userId: number;
+  name: string;
+  color: string;
+  /** Pointer position in flow coordinates, or null when it left the canvas. */
+  cursor: CollaborationPoint | null;
+  selection: string[];
+}
+
+export type CollaborationServerMessage =
+  | { type: "welcome"; clientId: string; layerId: number; peers: CollaborationPeer[] }
+  | { type: "peer.joined"; peer: CollaborationPeer }
+  | { type: "peer.left"; clientId: string }
+  | { type: "cursor"; clientId: string; cursor: CollaborationPoint | null }
+  | { type: "selection"; clientId: string; nodeIds: string[] }
+  | { type: "change"; userId: number; change: CollaborationChange }
+  | { type: "error"; message: string };
+
+interface MergeableNode {
+  id: string;
+  position: CollaborationPoint;
+  data?: any;
+}
+
+interface MergeableEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * Apply a remote change to canvas nodes and edges. Unchanged arrays are
+ * returned as-is so callers can skip re-rendering.
+ */
+export function mergeCollaborationChange<N extends MergeableNode, E extends MergeableEdge>(
+  nodes: N[],
+  edges: E[],
+  change: CollaborationChange,
+): { nodes: N[]; edges: E[] } {
+  const updateNode = (nodeId: string, update: (node: N) => N) =>
+    nodes.some((node) => node.id === nodeId) ? nodes.map((node) => (node.id === nodeId ? update(node) : node)) : nodes;
+
+  switch (change.kind) {
+    case "positions": {
+      const moved = new Map(change.positions.map((entry) => [entry.nodeId, entry.position]));
+      if (!nodes.some((node) => moved.has(node.id))) return { nodes, edges };
+      return {
+        nodes: nodes.map((node) => (moved.has(node.id) ? { ...node, position: moved.get(node.id)! } : node)),
+        edges,
+      };
+    }
+    case "node.upsert": {
+      const incoming = change.node as unknown as N;
+      const exists = nodes.some((node) => node.id === incoming.id);
+      return {
+        nodes: exists
+          ? updateNode(incoming.id, (node) => ({ ...node, ...incoming, data: { ...node.data, ...incoming.data } }))
+          : [...nodes, incoming],
+        edges,
+      };
+    }
+    case "node.remove":
+      return {
+        nodes: nodes.filter((node) => node.id !== change.nodeId),
+        edges: edges.filter((edge) => edge.source !== change.nodeId && edge.target !== change.nodeId),
+      };
+    case "attribute.upsert":
+    case "attribute.remove":
+      return {
+        nodes: updateNode(change.nodeId, (node) => {
+          const attributes: Array<{ id: number }> = Array.isArray(node.data?.attributes) ? node.data.attributes : [];
+          const next =
+            change.kind === "attribute.remove"
+              ? attributes.filter((attribute) => attribute.id !== change.attributeId)
+              : attributes.some((attribute) => attribute.id === change.attribute.id)
+              ? attributes.map((attribute) => (attribute.id === change.attribute.id ? { ...attribute, ...change.attribute } : attribute))
+              : [...attributes, change.attribute];
+          return { ...node, data: { ...node.data, attributes: next } };
+        }),
+        edges,
+      };
+    case "edge.upsert": {
+      const incoming = change.edge as unknown as E;
+      return {
+        nodes,
+        edges: edges.some((edge) => edge.id === incoming.id)
+          ? edges.map((edge) => (edge.id === incoming.id ? { ...edge, ...incoming } : edge))
+          : [...edges, incoming],
+      };
+    }
+    case "edge.remove":
+      return { nodes, edges: edges.filter((edge) => edge.id !== change.edgeId) };
+    case "layer.changed":
+      return { nodes, edges };
+  }
+}
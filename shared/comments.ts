@@ -0,0 +1,77 @@
+// Kept free of database imports so the client can use it at runtime.
+
+// What a review thread can be anchored to. Layer threads have no targetId; the
+// others point at a data_model_objects, data_model_object_attributes or
+// data_model_object_relationships row on the same layer.
+export const commentTargetTypes = ["layer", "object", "attribute", "relationship"] as const;
+export type CommentTargetType = (typeof commentTargetTypes)[number];
+
+export const commentThreadStatuses = ["open", "resolved"] as const;
+export type CommentThreadStatus = (typeof commentThreadStatuses)[number];
+
+/** Key used to group threads by what they are attached to, e.g. "object:12" or "layer". */
+export function commentTargetKey(targetType: CommentTargetType | string, targetId?: number | null): string {
+  return targetType === "layer" || targetId === null || targetId === undefined ? "layer" : `${targetType}:${targetId}`;
+}
+
+export interface MentionCandidate {
+  userId: number;
+  email: string;
+  name: string | null;
+}
+
+// "@ada", "@ada.lovelace" or "@ada@example.com"; an "@" glued to a preceding word is part of an email, not a mention
+const MENTION_PATTERN = /(^|[^A-Za-z0-9_.@])@([A-Za-z0-9_+-]+(?:\.[A-Za-z0-9_+-]+)*(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?)/g;
+
+/** The lower-cased handles written after "@" in a comment body, in order of appearance. */
+export function extractMentionHandles(body: string): string[] {
+  const handles: string[] = [];
+  MENTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MENTION_PATTERN.exec(body)) !== null) {
+    const handle = match[2].toLowerCase();
+    if (!handles.includes(handle)) {
+      handles.push(handle);
+    }
+  }
+  return handles;
+}
+
+/**
+ * Handles a member answers to: their email, the part before the "@", and their
+ * name with the spaces dropped or turned into dots ("Ada Lovelace" answers to
+ * "@adalovelace" and "@ada.lovelace").
+ */
+export function mentionHandlesFor(member: MentionCandidate): string[] {
+  const email = member.email.trim().toLowerCase();
+  const handles = [email, email.split("@")[0]];
+  const nameParts = (member.name ?? "").trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (nameParts.length > 0) {
+    handles.push(nameParts.join(""), nameParts.join("."));
+  }
+  return handles.filter((handle, index) => handle && handles.indexOf(handle) === index);
+}
+
+/** The handle inserted when a member is picked from the mention list: the email's local part unless another member shares it. */
+export function preferredMentionHandle(member: MentionCandidate, members: readonly MentionCandidate[]): string {
+  const email = member.email.trim().toLowerCase();
+  const local = email.split("@")[0];
+  const shared = members.some((other) => other.userId !== member.userId && mentionHandlesFor(other).includes(local));
+  return shared ? email : local;
+}
+
+/**
+ * Members mentioned in `body`. A handle that fits more than one member (two
+ * people named "ada" at different domains) mentions nobody; the full email
+ * always works.
+ */
+export function resolveMentions<T extends MentionCandidate>(body: string, members: readonly T[]): T[] {
+  const mentioned: T[] = [];
+  extractMentionHandles(body).forEach((handle) => {
+    const matches = members.filter((member) => mentionHandlesFor(member).includes(handle));
+    if (matches.length === 1 && !mentioned.includes(matches[0])) {
+      mentioned.push(matches[0]);
+    }
+  });
+  return mentioned;
+}
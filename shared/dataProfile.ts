@@ -0,0 +1,78 @@
+// Kept free of database imports so the client can use it at runtime.
+
+// Key under attributes.commonProperties where the source data profile is stored
+export const DATA_PROFILE_PROPERTY = "dataProfile";
+
+/** Column statistics as stored on an attribute; mirrors ColumnProfile on the server. */
+export interface StoredDataProfile {
+  nullCount: number;
+  nullRatio: number;
+  distinctCount: number;
+  maxLength?: number;
+  sampleSize?: number;
+  min?: string | number;
+  max?: string | number;
+  topValues?: { value: string; count: number }[];
+  pattern?: string;
+  patternRatio?: number;
+}
+
+export type ProfileMismatchKind = "nulls-in-required" | "nulls-in-key" | "duplicate-key" | "exceeds-length";
+
+export interface ProfileMismatch {
+  kind: ProfileMismatchKind;
+  message: string;
+}
+
+interface ProfiledAttribute {
+  nullable?: boolean | null;
+  isPrimaryKey?: boolean | null;
+  length?: number | null;
+}
+
+export function readDataProfile(commonProperties: Record<string, unknown> | null | undefined): StoredDataProfile | null {
+  const value = commonProperties?.[DATA_PROFILE_PROPERTY];
+  if (!value || typeof value !== "object") return null;
+  const profile = value as StoredDataProfile;
+  return typeof profile.nullCount === "number" && typeof profile.distinctCount === "number" ? profile : null;
+}
+
+/**
+ * Places where the declared attribute disagrees with what the source data holds.
+ * `soleKey` marks a single-column primary key; a column of a composite key may repeat.
+ */
+export function findProfileMismatches(
+  attribute: ProfiledAttribute,
+  profile: StoredDataProfile,
+  options: { soleKey?: boolean } = {},
+): ProfileMismatch[] {
+  const mismatches: ProfileMismatch[] = [];
+  const nulls = `${profile.nullCount} null value${profile.nullCount === 1 ? "" : "s"}`;
+
+  if (profile.nullCount > 0) {
+    if (attribute.isPrimaryKey) {
+      mismatches.push({ kind: "nulls-in-key", message: `Primary key column has ${nulls} in the source` });
+    } else if (attribute.nullable === false) {
+      mismatches.push({ kind: "nulls-in-required", message: `Declared NOT NULL but the source has ${nulls}` });
+    }
+  }
+
+  if (attribute.isPrimaryKey && options.soleKey && typeof profile.sampleSize === "number") {
+    const duplicates = profile.sampleSize - profile.nullCount - profile.distinctCount;
+    if (duplicates > 0) {
+      mismatches.push({
+        kind: "duplicate-key",
+        message: `Primary key repeats: ${profile.distinctCount} distinct values across ${profile.sampleSize - profile.nullCount} rows`,
+      });
+    }
+  }
+
+  if (attribute.length && profile.maxLength !== undefined && profile.maxLength > attribute.length) {
+    mismatches.push({
+      kind: "exceeds-length",
+      message: `Longest source value has ${profile.maxLength} characters, more than the declared length ${attribute.length}`,
+    });
+  }
+
+  return mismatches;
+}
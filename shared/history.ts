@@ -0,0 +1,187 @@
+// Kept free of database imports so the client can use it at runtime.
+import { auditEntityLabels, changedAuditFields } from "./audit";
+
+// Rows an undoable command may touch; everything else in the audit log is left alone by undo
+export const historyEntityTypes = [
+  "data_object",
+  "attribute",
+  "data_object_relationship",
+  "data_model_object",
+  "data_model_object_attribute",
+  "data_model_object_relationship",
+  "data_model_layer_object",
+] as const;
+export type HistoryEntityType = (typeof historyEntityTypes)[number];
+
+export const historyCommandStatuses = ["applied", "undone"] as const;
+export type HistoryCommandStatus = (typeof historyCommandStatuses)[number];
+
+/**
+ * One replayable step. Inserts carry the whole row including its id, so an
+ * undone delete brings back the same row that later commands refer to.
+ * Updates and deletes carry the values they expect to find, to detect edits made since.
+ */
+export type HistoryOperation =
+  | { kind: "insert"; entityType: HistoryEntityType; row: Record<string, unknown> }
+  | {
+      kind: "update";
+      entityType: HistoryEntityType;
+      id: number;
+      values: Record<string, unknown>;
+      expected: Record<string, unknown>;
+    }
+  | { kind: "delete"; entityType: HistoryEntityType; id: number; expected: Record<string, unknown> }
+  | { kind: "position"; modelObjectId: number; x: number; y: number };
+
+export interface HistoryPoint {
+  x: number;
+  y: number;
+}
+
+/** A node dragged on the canvas; positions are not audited, so the client reports both ends. */
+export interface HistoryPositionChange {
+  modelObjectId: number;
+  from: HistoryPoint;
+  to: HistoryPoint;
+}
+
+/** The parts of an audit log entry a command is built from. */
+export interface HistoryAuditChange {
+  entityType: string;
+  entityId: number;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/** Model objects on a layer and the data objects they place; a layer's commands touch nothing else. */
+export interface HistoryLayerScope {
+  layerId: number;
+  modelObjectIds: number[];
+  dataObjectIds: number[];
+}
+
+const isHistoryEntity = (entityType: string): entityType is HistoryEntityType =>
+  (historyEntityTypes as readonly string[]).includes(entityType);
+
+// Bookkeeping and canvas layout change without recording a command; a delete does not wait for them
+const UNCHECKED_DELETE_FIELDS = ["createdAt", "updatedAt", "position", "positionX", "positionY", "layerSpecificConfig"];
+
+const deleteExpectation = (row: Record<string, unknown>) => {
+  const expected: Record<string, unknown> = {};
+  Object.keys(row)
+    .filter((field) => !UNCHECKED_DELETE_FIELDS.includes(field))
+    .forEach((field) => {
+      expected[field] = row[field] ?? null;
+    });
+  return expected;
+};
+
+const changedRow = (change: HistoryAuditChange) => (change.after ?? change.before ?? {}) as Record<string, unknown>;
+
+/**
+ * The first change a command on `scope.layerId` may not carry, or null.
+ * Model objects and placements created or deleted by the same changes count
+ * as being on the layer.
+ */
+export function findChangeOutsideLayer(changes: HistoryAuditChange[], scope: HistoryLayerScope): HistoryAuditChange | null {
+  const modelObjectIds = new Set(scope.modelObjectIds);
+  const dataObjectIds = new Set(scope.dataObjectIds);
+  changes.forEach((change) => {
+    const row = changedRow(change);
+    if (change.entityType === "data_model_object" && row.modelId === scope.layerId) {
+      modelObjectIds.add(change.entityId);
+      if (typeof row.objectId === "number") {
+        dataObjectIds.add(row.objectId);
+      }
+    } else if (change.entityType === "data_model_layer_object" && row.dataModelLayerId === scope.layerId) {
+      modelObjectIds.add(row.dataModelObjectId as number);
+    }
+  });
+  changes.forEach((change) => {
+    const row = changedRow(change);
+    if (change.entityType === "data_model_object" && modelObjectIds.has(change.entityId) && typeof row.objectId === "number") {
+      dataObjectIds.add(row.objectId);
+    }
+  });
+
+  const inLayer = (change: HistoryAuditChange): boolean => {
+    const row = changedRow(change);
+    switch (change.entityType) {
+      case "data_object":
+        return dataObjectIds.has(change.entityId);
+      case "attribute":
+        return dataObjectIds.has(row.objectId as number);
+      case "data_object_relationship":
+        return dataObjectIds.has(row.sourceDataObjectId as number) && dataObjectIds.has(row.targetDataObjectId as number);
+      case "data_model_object":
+        return modelObjectIds.has(change.entityId);
+      case "data_model_object_attribute":
+        return modelObjectIds.has(row.modelObjectId as number);
+      case "data_model_object_relationship":
+        return row.modelId === scope.layerId;
+      case "data_model_layer_object":
+        return modelObjectIds.has(row.dataModelObjectId as number);
+      default:
+        // Not replayed by undo, so it cannot reach beyond the layer
+        return true;
+    }
+  };
+  return changes.find((change) => !inLayer(change)) ?? null;
+}
+
+/** Label for error messages, e.g. "Attribute 12". */
+export const historyChangeName = (change: HistoryAuditChange): string =>
+  `${auditEntityLabels[change.entityType as keyof typeof auditEntityLabels] ?? change.entityType} ${change.entityId}`;
+
+const pick = (row: Record<string, unknown> | null, fields: string[]) => {
+  const picked: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    picked[field] = row?.[field] ?? null;
+  });
+  return picked;
+};
+
+/**
+ * Turn the audited writes of one user action (in the order they happened) and
+ * any canvas moves into the operations that redo it and the operations that
+ * revert it. The inverse runs the reversed writes, so children come back
+ * after their parents and go away before them.
+ */
+export function buildHistoryCommand(
+  changes: HistoryAuditChange[],
+  positions: HistoryPositionChange[] = [],
+): { forward: HistoryOperation[]; inverse: HistoryOperation[] } {
+  const forward: HistoryOperation[] = [];
+  const inverse: HistoryOperation[] = [];
+
+  changes.forEach(({ entityType, entityId, action, before, after }) => {
+    if (!isHistoryEntity(entityType)) {
+      return;
+    }
+    if (action === "create" && after) {
+      forward.push({ kind: "insert", entityType, row: after });
+      inverse.unshift({ kind: "delete", entityType, id: entityId, expected: deleteExpectation(after) });
+    } else if (action === "delete" && before) {
+      forward.push({ kind: "delete", entityType, id: entityId, expected: deleteExpectation(before) });
+      inverse.unshift({ kind: "insert", entityType, row: before });
+    } else if (action === "update" && before && after) {
+      const fields = changedAuditFields(before, after).map((change) => change.field);
+      if (fields.length === 0) {
+        return;
+      }
+      forward.push({ kind: "update", entityType, id: entityId, values: pick(after, fields), expected: pick(before, fields) });
+      inverse.unshift({ kind: "update", entityType, id: entityId, values: pick(before, fields), expected: pick(after, fields) });
+    }
+  });
+
+  positions.forEach(({ modelObjectId, from, to }) => {
+    if (from.x === to.x && from.y === to.y) {
+      return;
+    }
+    forward.push({ kind: "position", modelObjectId, x: to.x, y: to.y });
+    inverse.unshift({ kind: "position", modelObjectId, x: from.x, y: from.y });
+  });
+
+  return { forward, inverse };
+}
@@ -0,0 +1,58 @@
+// Kept free of database imports so the client can use it at runtime.
+
+// Roles a membership (or pending invitation) can carry within an organization,
+// from least to most privileged
+export const organizationRoles = ["viewer", "modeler", "steward", "admin"] as const;
+export type OrganizationRole = (typeof organizationRoles)[number];
+
+export const DEFAULT_ORGANIZATION_ROLE: OrganizationRole = "modeler";
+
+export const permissions = [
+  "models:comment", // start, answer and resolve review comment threads
+  "models:edit", // create and change models, objects, attributes, relationships, versions
+  "models:delete", // delete whole models and restore versions over them
+  "models:approve", // approve or reject lifecycle phase sign-offs
+  "audit:view", // read the audit log of who changed what
+  "catalog:edit", // domains, areas, capabilities, capability mappings, systems
+  "systems:sync", // test connections and sync objects from source systems
+  "config:edit", // application configuration and maintenance endpoints
+  "members:manage", // invitations, member roles and removal
+] as const;
+export type Permission = (typeof permissions)[number];
+
+const rolePermissions: Record<OrganizationRole, readonly Permission[]> = {
+  viewer: ["models:comment"],
+  modeler: ["models:comment", "models:edit", "audit:view"],
+  steward: [
+    "models:comment",
+    "models:edit",
+    "models:delete",
+    "models:approve",
+    "audit:view",
+    "catalog:edit",
+    "systems:sync",
+  ],
+  admin: permissions,
+};
+
+export function isOrganizationRole(role: string): role is OrganizationRole {
+  return (organizationRoles as readonly string[]).includes(role);
+}
+
+/** Union of the permissions granted by `roles`; unknown roles grant nothing. */
+export function permissionsForRoles(roles: readonly string[], isSuperAdmin = false): Permission[] {
+  if (isSuperAdmin) {
+    return [...permissions];
+  }
+  const granted = new Set<Permission>();
+  for (const role of roles) {
+    if (isOrganizationRole(role)) {
+      rolePermissions[role].forEach((permission) => granted.add(permission));
+    }
+  }
+  return permissions.filter((permission) => granted.has(permission));
+}
+
+export function hasPermission(roles: readonly string[], permission: Permission, isSuperAdmin = false): boolean {
+  return permissionsForRoles(roles, isSuperAdmin).includes(permission);
+}
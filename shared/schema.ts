@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, uniqueIndex, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { HistoryOperation } from "./history";
 
 // Multi-tenant auth tables (Phase 1)
 export const organizations = pgTable("organizations", {
@@ -45,6 +46,7 @@ export const invitations = pgTable("invitations", {
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   email: text("email").notNull(),
   token: text("token").notNull().unique(),
+  role: text("role").default("modeler").notNull(), // Membership role granted on acceptance (see shared/permissions.ts)
   invitedByUserId: integer("invited_by_user_id").references(() => users.id),
   accepted: boolean("accepted").default(false),
   expiresAt: timestamp("expires_at"),
@@ -52,10 +54,24 @@ export const invitations = pgTable("invitations", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Signed-in devices. Each holds the hash of its current refresh token, which rotates on every refresh
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Systems - Unified source and target systems
 export const systems = pgTable("systems", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
   category: text("category").notNull(), // System category like "ERP", "CRM", "Data Lake", etc.
   type: text("type").notNull(), // Connection type: "sql", "file", "adls", "api", etc.
   description: text("description"),
@@ -67,11 +83,14 @@ export const systems = pgTable("systems", {
   canBeTarget: boolean("can_be_target").default(true), // Can this system be a data target?
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  systemOrgNameUnique: uniqueIndex("systems_organization_name_unique").on(table.organizationId, table.name),
+}));
 
 // Data Models (parent table - one record per model group)
 export const dataModels = pgTable("data_models", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   name: text("name").notNull(),
   description: text("description"),
   targetSystemId: integer("target_system_id").references(() => systems.id),
@@ -98,10 +117,13 @@ export const dataModelLayers = pgTable("data_model_layers", {
 // Data Domains
 export const dataDomains = pgTable("data_domains", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: text("name").notNull(),
   description: text("description"),
   colorCode: text("color_code").default("#3b82f6"), // Default blue color
-});
+}, (table) => ({
+  domainOrgNameUnique: uniqueIndex("data_domains_organization_name_unique").on(table.organizationId, table.name),
+}));
 
 // Data Areas
 export const dataAreas = pgTable("data_areas", {
@@ -115,6 +137,7 @@ export const dataAreas = pgTable("data_areas", {
 // Data Objects (Tables/Entities) - Objects with model associations (current DB structure)
 export const dataObjects = pgTable("data_objects", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   name: text("name").notNull(),
   domainId: integer("domain_id").references(() => dataDomains.id),
   dataAreaId: integer("data_area_id").references(() => dataAreas.id),
@@ -318,11 +341,12 @@ export const entityColorAssignments = pgTable("entity_color_assignments", {
 // Business Capabilities - Core business functions
 export const businessCapabilities = pgTable("business_capabilities", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   name: text("name").notNull(),
-  code: text("code").notNull().unique(), // Unique identifier like "PROD", "QUA", "SCM"
+  code: text("code").notNull(), // Identifier like "PROD", "QUA", "SCM", unique per organization
   description: text("description"),
   level: integer("level").notNull(), // 1=Category, 2=Capability Group, 3=Capability, 4=Sub-capability
-  parentId: integer("parent_id").references(() => businessCapabilities.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => businessCapabilities.id),
   sortOrder: integer("sort_order").default(0),
   colorCode: text("color_code").default("#6366f1"),
   icon: text("icon"), // Icon name for UI representation
@@ -331,7 +355,9 @@ export const businessCapabilities = pgTable("business_capabilities", {
   criticality: text("criticality").default("medium"), // "low", "medium", "high", "critical"
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  capabilityOrgCodeUnique: uniqueIndex("business_capabilities_organization_code_unique").on(table.organizationId, table.code),
+}));
 
 // Business Capability Data Domain Mappings - Links capabilities to data domains
 export const capabilityDataDomainMappings = pgTable("capability_data_domain_mappings", {
@@ -453,15 +479,138 @@ export const modelLifecycleAssignments = pgTable("model_lifecycle_assignments",
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   approvedBy: text("approved_by"),
+  // Who asked for the sign-off; they cannot record the decision themselves
+  approvalRequestedBy: integer("approval_requested_by").references(() => users.id, { onDelete: "set null" }),
   nextReviewAt: timestamp("next_review_at"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Model Versions - immutable snapshots of a whole model family (parent model and all of its layers)
+export interface ModelVersionSnapshot {
+  model: typeof dataModels.$inferSelect;
+  layers: Array<typeof dataModelLayers.$inferSelect>;
+  objects: Array<typeof dataModelObjects.$inferSelect>;
+  layerObjects: Array<typeof dataModelLayerObjects.$inferSelect>;
+  attributes: Array<typeof dataModelObjectAttributes.$inferSelect>;
+  relationships: Array<typeof dataModelObjectRelationships.$inferSelect>;
+  properties: Array<typeof dataModelProperties.$inferSelect>;
+}
+
+export const dataModelVersions = pgTable(
+  "data_model_versions",
+  {
+    id: serial("id").primaryKey(),
+    dataModelId: integer("data_model_id")
+      .references(() => dataModels.id, { onDelete: "cascade" })
+      .notNull(),
+    versionNumber: integer("version_number").notNull(),
+    name: text("name"),
+    description: text("description"),
+    snapshot: jsonb("snapshot").$type<ModelVersionSnapshot>().notNull(),
+    createdByUserId: integer("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    modelVersionUnique: uniqueIndex("data_model_versions_model_number_unique").on(table.dataModelId, table.versionNumber),
+  }),
+);
+
+// Version Tags - human-readable labels ("v1.2 approved") pointing at a version; unique per model
+export const dataModelVersionTags = pgTable(
+  "data_model_version_tags",
+  {
+    id: serial("id").primaryKey(),
+    versionId: integer("version_id")
+      .references(() => dataModelVersions.id, { onDelete: "cascade" })
+      .notNull(),
+    dataModelId: integer("data_model_id")
+      .references(() => dataModels.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(),
+    createdByUserId: integer("created_by_user_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    modelTagUnique: uniqueIndex("data_model_version_tags_model_name_unique").on(table.dataModelId, table.name),
+  }),
+);
+
+// Review comments - threads anchored to a layer, or to an object, attribute or relationship on it
+// (targetId is null for layer threads; it holds a data_model_objects, data_model_object_attributes or
+// data_model_object_relationships id otherwise)
+export const modelCommentThreads = pgTable("model_comment_threads", {
+  id: serial("id").primaryKey(),
+  modelId: integer("model_id")
+    .references(() => dataModelLayers.id, { onDelete: "cascade" })
+    .notNull(),
+  targetType: text("target_type").notNull(), // "layer", "object", "attribute", "relationship"
+  targetId: integer("target_id"),
+  status: text("status").default("open").notNull(), // "open", "resolved"
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  resolvedByUserId: integer("resolved_by_user_id").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export interface ModelCommentMention {
+  userId: number;
+  name: string;
+}
+
+export const modelComments = pgTable("model_comments", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id")
+    .references(() => modelCommentThreads.id, { onDelete: "cascade" })
+    .notNull(),
+  authorUserId: integer("author_user_id").references(() => users.id),
+  body: text("body").notNull(),
+  mentions: jsonb("mentions").$type<ModelCommentMention[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Undo/redo history: one row per user action on a layer, with the operations to replay and revert it
+export const modelHistoryCommands = pgTable("model_history_commands", {
+  id: serial("id").primaryKey(),
+  modelId: integer("model_id")
+    .references(() => dataModelLayers.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  action: text("action").notNull(), // e.g. "node_moved", "attribute_updated"
+  label: text("label").notNull(),
+  forward: jsonb("forward").$type<HistoryOperation[]>().default([]).notNull(),
+  inverse: jsonb("inverse").$type<HistoryOperation[]>().default([]).notNull(),
+  status: text("status").default("applied").notNull(), // "applied", "undone"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Append-only record of every change to modeling metadata, written by the storage layer
+export const auditLogEntries = pgTable("audit_log_entries", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  actorUserId: integer("actor_user_id"), // null for seed scripts and background jobs
+  entityType: text("entity_type").notNull(), // see auditEntityTypes in shared/audit.ts
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // "create", "update", "delete", "restore"
+  before: jsonb("before").$type<Record<string, unknown> | null>(),
+  after: jsonb("after").$type<Record<string, unknown> | null>(),
+  // No foreign keys: entries must outlive the model and objects they describe
+  dataModelId: integer("data_model_id"),
+  modelObjectIds: integer("model_object_ids").array().default([]).notNull(),
+  requestId: text("request_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Application Configuration
 export const configurations = pgTable("configurations", {
   id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   category: text("category").notNull(), // "ai", "database", "ui", "export"
   key: text("key").notNull(),
   value: jsonb("value").$type<any>(),
@@ -793,11 +942,28 @@ export const modelLifecycleAssignmentsRelations = relations(modelLifecycleAssign
   }),
 }));
 
+export const dataModelVersionsRelations = relations(dataModelVersions, ({ one, many }) => ({
+  dataModel: one(dataModels, {
+    fields: [dataModelVersions.dataModelId],
+    references: [dataModels.id],
+  }),
+  tags: many(dataModelVersionTags),
+}));
+
+export const dataModelVersionTagsRelations = relations(dataModelVersionTags, ({ one }) => ({
+  version: one(dataModelVersions, {
+    fields: [dataModelVersionTags.versionId],
+    references: [dataModelVersions.id],
+  }),
+}));
+
 // Insert Schemas
+// Tenant-owned tables omit organizationId: storage stamps it from the request's organization.
 export const insertDataModelSchema = createInsertSchema(dataModels).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  organizationId: true,
 });
 
 export const insertDataModelLayerSchema = createInsertSchema(dataModelLayers, {
@@ -810,6 +976,7 @@ export const insertDataModelLayerSchema = createInsertSchema(dataModelLayers, {
 
 export const insertDataDomainSchema = createInsertSchema(dataDomains).omit({
   id: true,
+  organizationId: true,
 });
 
 export const insertDataAreaSchema = createInsertSchema(dataAreas).omit({
@@ -820,6 +987,7 @@ export const insertDataObjectSchema = createInsertSchema(dataObjects).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  organizationId: true,
 });
 
 export const insertDataModelObjectSchema = createInsertSchema(dataModelObjects).omit({
@@ -868,6 +1036,7 @@ export const insertSystemSchema = createInsertSchema(systems).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  organizationId: true,
 });
 
 export const insertColorThemeSchema = createInsertSchema(colorThemes).omit({
@@ -885,12 +1054,14 @@ export const insertEntityColorAssignmentSchema = createInsertSchema(entityColorA
 export const insertConfigurationSchema = createInsertSchema(configurations).omit({
   id: true,
   updatedAt: true,
+  organizationId: true,
 });
 
 export const insertBusinessCapabilitySchema = createInsertSchema(businessCapabilities).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  organizationId: true,
 });
 
 export const insertCapabilityDataDomainMappingSchema = createInsertSchema(capabilityDataDomainMappings).omit({
@@ -938,6 +1109,28 @@ export const insertModelLifecycleAssignmentSchema = createInsertSchema(modelLife
   updatedAt: true,
 });
 
+export const insertModelCommentThreadSchema = createInsertSchema(modelCommentThreads).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertModelCommentSchema = createInsertSchema(modelComments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDataModelVersionSchema = createInsertSchema(dataModelVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDataModelVersionTagSchema = createInsertSchema(dataModelVersionTags).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type DataModel = typeof dataModels.$inferSelect;
 export type InsertDataModel = z.infer<typeof insertDataModelSchema>;
@@ -1014,6 +1207,24 @@ export type InsertModelLifecyclePhase = z.infer<typeof insertModelLifecyclePhase
 export type ModelLifecycleAssignment = typeof modelLifecycleAssignments.$inferSelect;
 export type InsertModelLifecycleAssignment = z.infer<typeof insertModelLifecycleAssignmentSchema>;
 
+export type DataModelVersion = typeof dataModelVersions.$inferSelect;
+export type InsertDataModelVersion = typeof dataModelVersions.$inferInsert;
+
+export type DataModelVersionTag = typeof dataModelVersionTags.$inferSelect;
+export type InsertDataModelVersionTag = z.infer<typeof insertDataModelVersionTagSchema>;
+
+export type ModelCommentThread = typeof modelCommentThreads.$inferSelect;
+export type InsertModelCommentThread = z.infer<typeof insertModelCommentThreadSchema>;
+
+export type ModelComment = typeof modelComments.$inferSelect;
+export type InsertModelComment = typeof modelComments.$inferInsert;
+
+export type ModelHistoryCommand = typeof modelHistoryCommands.$inferSelect;
+export type InsertModelHistoryCommand = typeof modelHistoryCommands.$inferInsert;
+
+export type AuditLogEntry = typeof auditLogEntries.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLogEntries.$inferInsert;
+
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = typeof organizations.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -1022,3 +1233,5 @@ export type Membership = typeof memberships.$inferSelect;
 export type InsertMembership = typeof memberships.$inferInsert;
 export type Invitation = typeof invitations.$inferSelect;
 export type InsertInvitation = typeof invitations.$inferInsert;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = typeof authSessions.$inferInsert;
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { parseApiSchema, readApiSchemaDocument } from "../server/services/apiSchemaParser";
+
+const openApi = {
+  openapi: "3.0.3",
+  info: { title: "Orders API", version: "1.0.0" },
+  components: {
+    schemas: {
+      Audited: {
+        type: "object",
+        properties: { createdAt: { type: "string", format: "date-time" } },
+        required: ["createdAt"],
+      },
+      Status: { type: "string", enum: ["open", "shipped", "cancelled"] },
+      Customer: {
+        type: "object",
+        required: ["id", "email"],
+        properties: {
+          id: { type: "integer", format: "int64" },
+          email: { type: "string", maxLength: 320 },
+          nickname: { type: "string", nullable: true },
+        },
+      },
+      Order: {
+        allOf: [
+          { $ref: "#/components/schemas/Audited" },
+          {
+            type: "object",
+            required: ["id", "customer"],
+            properties: {
+              id: { type: "string", format: "uuid" },
+              total: { type: "number", format: "double" },
+              status: { $ref: "#/components/schemas/Status" },
+              customer: { $ref: "#/components/schemas/Customer" },
+              lines: { type: "array", items: { $ref: "#/components/schemas/OrderLine" } },
+              carrier: { $ref: "https://example.com/schemas/carrier.json" },
+            },
+          },
+        ],
+      },
+      OrderLine: {
+        type: "object",
+        properties: {
+          sku: { type: "string", "x-primary-key": true },
+          quantity: { type: "integer" },
+        },
+      },
+    },
+  },
+};
+
+describe("API schema parser", () => {
+  it("turns OpenAPI component schemas into tables with references as foreign keys", () => {
+    const result = parseApiSchema(openApi);
+
+    expect(result.format).toBe("openapi");
+    expect(result.title).toBe("Orders API");
+    // Enums are value types, not tables
+    expect(result.tables.map((table) => table.name)).toEqual(["Audited", "Customer", "Order", "OrderLine"]);
+
+    const customer = result.tables.find((table) => table.name === "Customer")!;
+    expect(customer.columns).toEqual([
+      { name: "id", type: "BIGINT", nullable: false, isPrimaryKey: true },
+      { name: "email", type: "VARCHAR(320)", length: 320, nullable: false, isPrimaryKey: false },
+      { name: "nickname", type: "VARCHAR", nullable: true, isPrimaryKey: false },
+    ]);
+
+    const order = result.tables.find((table) => table.name === "Order")!;
+    expect(order.columns.map((column) => [column.name, column.type, column.nullable])).toEqual([
+      ["createdAt", "TIMESTAMP", false],
+      ["id", "UUID", false],
+      ["total", "DOUBLE", true],
+      ["status", "VARCHAR(9)", true],
+      ["customer", "OBJECT", false],
+      ["lines", "ARRAY", true],
+      ["carrier", "JSON", true],
+    ]);
+    expect(order.foreignKeys).toEqual([
+      {
+        constraintName: "ref_Order_customer",
+        columns: ["customer"],
+        referencedTable: "Customer",
+        referencedColumns: ["id"],
+        relationshipType: "N:1",
+      },
+      {
+        constraintName: "ref_Order_lines",
+        columns: ["lines"],
+        referencedTable: "OrderLine",
+        referencedColumns: ["sku"],
+        relationshipType: "1:N",
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      "Order.carrier: external reference https://example.com/schemas/carrier.json was not followed",
+    ]);
+  });
+
+  it("reads YAML documents and JSON Schema $defs with a root entity", () => {
+    const document = readApiSchemaDocument(
+      [
+        "$schema: https://json-schema.org/draft/2020-12/schema",
+        "title: Invoice",
+        "type: object",
+        "required: [number]",
+        "properties:",
+        "  number: { type: string }",
+        "  issuedOn: { type: string, format: date }",
+        "  billTo:",
+        "    anyOf:",
+        "      - $ref: '#/$defs/Party'",
+        "      - type: 'null'",
+        "$defs:",
+        "  Party:",
+        "    type: object",
+        "    properties:",
+        "      id: { type: [integer, 'null'] }",
+        "      name: { type: string }",
+      ].join("\n"),
+    );
+    const result = parseApiSchema(document);
+
+    expect(result.format).toBe("json_schema");
+    expect(result.tables.map((table) => table.name)).toEqual(["Party", "Invoice"]);
+    const invoice = result.tables[1];
+    expect(invoice.columns.find((column) => column.name === "issuedOn")?.type).toBe("DATE");
+    expect(invoice.columns.find((column) => column.name === "billTo")).toMatchObject({ type: "OBJECT", nullable: true });
+    expect(invoice.foreignKeys?.[0]).toMatchObject({ referencedTable: "Party", relationshipType: "N:1" });
+    // The key stays non-null even when the schema allows null
+    expect(result.tables[0].columns[0]).toMatchObject({ name: "id", type: "INTEGER", isPrimaryKey: true, nullable: false });
+  });
+
+  it("rejects documents without object schemas", () => {
+    expect(() => readApiSchemaDocument("   ")).toThrow("An OpenAPI or JSON Schema document is required");
+    expect(() => readApiSchemaDocument("{ not json")).toThrow("API schema must be valid JSON or YAML");
+    expect(() => parseApiSchema({ openapi: "3.1.0", info: { title: "Empty" } })).toThrow(
+      "An OpenAPI document with component schemas is required",
+    );
+    expect(parseApiSchema({ swagger: "2.0", definitions: { Code: { type: "string" } } }).warnings).toEqual([
+      "No object schemas with properties were found",
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import type { AuditLogEntry } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { REDACTED_AUDIT_VALUE, auditEntityName, changedAuditFields, redactAuditSecrets } from "../shared/audit";
+import { resolveRequestId } from "../server/middleware/auth";
+import { AuditLogService } from "../server/services/auditLog";
+import { auditLogQuerySchema } from "../server/utils/validation_schemas";
+
+function entry(id: number, actorUserId: number | null): AuditLogEntry {
+  return {
+    id,
+    organizationId: 1,
+    actorUserId,
+    entityType: "data_model_object_attribute",
+    entityId: 40,
+    action: "update",
+    before: { name: "customer_id", nullable: true },
+    after: { name: "customer_id", nullable: false },
+    dataModelId: 3,
+    modelObjectIds: [10],
+    requestId: "req-1",
+    createdAt: new Date("2026-05-01T09:00:00.000Z"),
+  };
+}
+
+describe("audit field changes", () => {
+  it("lists changed fields in a stable order and ignores timestamps", () => {
+    const before = { id: 4, name: "Customer", nullable: true, tags: ["a"], updatedAt: "2026-01-01", length: null };
+    const after = { id: 4, name: "Client", nullable: true, tags: ["a", "b"], updatedAt: "2026-02-01", scale: 2 };
+
+    expect(changedAuditFields(before, after)).toEqual([
+      { field: "name", before: "Customer", after: "Client" },
+      { field: "scale", before: null, after: 2 },
+      { field: "tags", before: ["a"], after: ["a", "b"] },
+    ]);
+    expect(changedAuditFields(null, { name: "New" })).toEqual([{ field: "name", before: null, after: "New" }]);
+    expect(changedAuditFields(before, { ...before, updatedAt: "2026-03-01" })).toEqual([]);
+
+    expect(auditEntityName({ name: "Old" }, { name: "New" })).toBe("New");
+    expect(auditEntityName({ key: "theme" }, null)).toBe("theme");
+    expect(auditEntityName({ id: 1 }, null)).toBeNull();
+  });
+});
+
+describe("audit secrets", () => {
+  it("replaces credentials at any depth before an entry is written", () => {
+    const system = {
+      id: 2,
+      name: "Warehouse",
+      connectionString: "postgres://etl:hunter2@db/warehouse",
+      configuration: { host: "db", password: "hunter2", auth: { apiKey: "k-1", access_key: "a-1" }, maxTokens: 10 },
+      description: null,
+    };
+    expect(redactAuditSecrets(system)).toEqual({
+      id: 2,
+      name: "Warehouse",
+      connectionString: REDACTED_AUDIT_VALUE,
+      configuration: { host: "db", password: REDACTED_AUDIT_VALUE, auth: { apiKey: REDACTED_AUDIT_VALUE, access_key: REDACTED_AUDIT_VALUE }, maxTokens: 10 },
+      description: null,
+    });
+    expect(system.configuration.password).toBe("hunter2");
+
+    expect(redactAuditSecrets({ id: 5, key: "openai_api_key", value: "sk-1" })).toMatchObject({ value: REDACTED_AUDIT_VALUE });
+    expect(redactAuditSecrets({ id: 6, key: "theme", value: { mode: "dark" } })).toMatchObject({ value: { mode: "dark" } });
+    expect(redactAuditSecrets(null)).toBeNull();
+  });
+});
+
+describe("request ids", () => {
+  function run(header: string | undefined) {
+    const res = { setHeader: vi.fn() };
+    const req = { get: (name: string) => (name.toLowerCase() === "x-request-id" ? header : undefined) };
+    const requestId = resolveRequestId(req as unknown as Request, res as unknown as Response);
+    return { requestId, res };
+  }
+
+  it("reuses a well-formed X-Request-Id and mints one otherwise", () => {
+    const reused = run("lb-7f3a.42");
+    expect(reused.requestId).toBe("lb-7f3a.42");
+    expect(reused.res.setHeader).toHaveBeenCalledWith("X-Request-Id", "lb-7f3a.42");
+
+    const minted = run("not a valid id\n");
+    expect(minted.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(minted.res.setHeader).toHaveBeenCalledWith("X-Request-Id", minted.requestId);
+  });
+});
+
+describe("audit log queries", () => {
+  it("coerces query-string filters and clamps the page size", () => {
+    const query = auditLogQuerySchema.parse({ modelObjectId: "10", action: "update", pageSize: "1000", from: "2026-05-01" });
+    expect(query).toMatchObject({ modelObjectId: 10, action: "update", page: 1, pageSize: 200 });
+    expect(query.from).toBeInstanceOf(Date);
+    expect(() => auditLogQuerySchema.parse({ entityType: "widget" })).toThrow();
+  });
+
+  it("pages entries and names their actors", async () => {
+    const getAuditLogEntries = vi.fn(async () => ({ entries: [entry(2, 1), entry(1, null), entry(0, 9)], total: 23 }));
+    const store = {
+      getAuditLogEntries,
+      getOrganizationMembers: async () => [{ userId: 1, email: "ada@example.com", name: "Ada Lovelace" }],
+    };
+    const service = new AuditLogService(store as any);
+
+    const page = await service.list({ modelObjectId: 10, page: 2, pageSize: 10 }, 1);
+    expect(getAuditLogEntries).toHaveBeenCalledWith({ modelObjectId: 10, limit: 10, offset: 10 });
+    expect(page.entries.map((item) => item.actorName)).toEqual(["Ada Lovelace", null, null]);
+    expect(page.meta).toEqual({ page: 2, pageSize: 10, hasMore: true });
+
+    const last = await service.list({ page: 3, pageSize: 10 }, 1);
+    expect(last.meta.hasMore).toBe(false);
+
+    await expect(
+      service.list({ from: new Date("2026-05-02"), to: new Date("2026-05-01"), page: 1, pageSize: 10 }, 1),
+    ).rejects.toThrow("from must be before to");
+  });
+});
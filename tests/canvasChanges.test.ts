@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AuditLogEntry, DataModelLayer } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { canvasChangesForLayer } from "../server/utils/canvas_utils";
+
+const layer = { id: 7, dataModelId: 1, layer: "logical" } as DataModelLayer;
+
+function createStore() {
+  const objects = [
+    { id: 10, modelId: 7, objectId: null, name: "Customer", isVisible: true, position: { x: 5, y: 6 } },
+    { id: 11, modelId: 7, objectId: null, name: "Order", isVisible: true, position: null },
+  ];
+  const attributes = [
+    { id: 40, modelObjectId: 10, modelId: 1, attributeId: null, name: "customer_id", isPrimaryKey: true },
+    { id: 41, modelObjectId: 11, modelId: 1, attributeId: null, name: "customer_id", isForeignKey: true },
+  ];
+  const relationships = [
+    {
+      id: 5,
+      modelId: 7,
+      layer: "logical",
+      type: "1:N",
+      relationshipLevel: "attribute",
+      sourceModelObjectId: 10,
+      targetModelObjectId: 11,
+      sourceAttributeId: 40,
+      targetAttributeId: 41,
+    },
+  ];
+
+  const store = {
+    getDataModelObjectsByModel: async (modelId: number) => objects.filter((object) => object.modelId === modelId),
+    getDataModelObjectAttributes: async () => attributes,
+    getDataModelObjectRelationship: async (id: number) => relationships.find((relationship) => relationship.id === id),
+    getDataObjectRelationships: async () => [],
+    getDataObject: async () => undefined,
+    getDataDomains: async () => [],
+    getDataAreas: async () => [],
+    getSystems: async () => [],
+    getLayerObjectLinksByLayer: async () => [{ dataModelObjectId: 10, positionX: 300, positionY: 120 }],
+  };
+  return { store: store as any, objects, attributes, relationships };
+}
+
+const entry = (
+  entityType: string,
+  entityId: number,
+  action: string,
+  before: Record<string, unknown> | null = null,
+  after: Record<string, unknown> | null = null,
+) => ({ entityType, entityId, action, before, after, dataModelId: 1 }) as AuditLogEntry;
+
+describe("canvas changes from audited writes", () => {
+  it("sends an updated attribute, or the whole node when its object changed too", async () => {
+    const { store, attributes } = createStore();
+    attributes[0].name = "id";
+
+    const attributeOnly = await canvasChangesForLayer(layer, [entry("data_model_object_attribute", 40, "update")], store);
+    expect(attributeOnly).toEqual([
+      { kind: "attribute.upsert", nodeId: "10", attribute: expect.objectContaining({ id: 40, name: "id", isPrimaryKey: true }) },
+    ]);
+
+    const withObject = await canvasChangesForLayer(
+      layer,
+      [entry("data_model_object", 10, "update"), entry("data_model_object_attribute", 40, "update")],
+      store,
+    );
+    expect(withObject).toHaveLength(1);
+    expect(withObject[0]).toMatchObject({
+      kind: "node.upsert",
+      node: { id: "10", position: { x: 300, y: 120 }, data: { name: "Customer", attributes: [{ id: 40, name: "id" }] } },
+    });
+  });
+
+  it("removes deleted rows of the layer and ignores rows of other layers", async () => {
+    const { store, objects, attributes, relationships } = createStore();
+    relationships.splice(0, 1);
+    attributes.splice(1, 1);
+    objects.push({ id: 12, modelId: 8, objectId: null, name: "Elsewhere", isVisible: false, position: null });
+
+    const changes = await canvasChangesForLayer(
+      layer,
+      [
+        entry("data_model_object_relationship", 5, "delete", { id: 5, modelId: 7 }),
+        entry("data_model_object_attribute", 41, "delete", { id: 41, modelObjectId: 11 }),
+        entry("data_model_object", 12, "update", { id: 12, modelId: 8 }, { id: 12, modelId: 8, isVisible: false }),
+        entry("data_model_object_relationship", 6, "delete", { id: 6, modelId: 8 }),
+      ],
+      store,
+    );
+
+    expect(changes).toEqual([
+      { kind: "attribute.remove", nodeId: "11", attributeId: 41 },
+      { kind: "edge.remove", edgeId: "5" },
+    ]);
+  });
+
+  it("sends a created relationship as an edge", async () => {
+    const { store } = createStore();
+
+    const changes = await canvasChangesForLayer(layer, [entry("data_model_object_relationship", 5, "create")], store);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: "edge.upsert",
+        edge: expect.objectContaining({ id: "5", source: "10", target: "11", label: "1:N" }),
+      }),
+    ]);
+  });
+
+  it("falls back to layer.changed for writes that are not nodes or edges", async () => {
+    const { store } = createStore();
+
+    const changes = await canvasChangesForLayer(
+      layer,
+      [entry("data_model_object_attribute", 40, "update"), entry("data_model_layer_object", 3, "update")],
+      store,
+    );
+
+    expect(changes).toEqual([{ kind: "layer.changed" }]);
+    expect(await canvasChangesForLayer(layer, [entry("data_model_object", 10, "restore")], store)).toEqual([
+      { kind: "layer.changed" },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+import type { BusinessCapability } from "../shared/schema";
+import type { CapabilityModelMappingDetail, CapabilityModelSystemMappingDetail } from "../server/storage";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { buildCapabilityHeatmap } from "../server/services/capabilityTraceability";
+
+const capability = (id: number, name: string) =>
+  ({ id, name, code: `CAP-${id}`, level: 1, parentId: null, criticality: "high" }) as BusinessCapability;
+
+const modelMapping = (overrides: Partial<CapabilityModelMappingDetail>) =>
+  ({
+    id: 1,
+    capabilityId: 1,
+    modelId: 10,
+    modelName: "Orders",
+    readinessScore: null,
+    businessValueScore: null,
+    riskLevel: "medium",
+    authoritativeSource: false,
+    ...overrides,
+  }) as CapabilityModelMappingDetail;
+
+const triple = (overrides: Partial<CapabilityModelSystemMappingDetail>) =>
+  ({
+    id: 1,
+    capabilityId: 1,
+    modelId: 10,
+    systemId: 100,
+    heatmapScore: null,
+    slaHours: null,
+    ...overrides,
+  }) as CapabilityModelSystemMappingDetail;
+
+describe("capability traceability heatmap", () => {
+  it("classifies capabilities by authoritative model coverage", () => {
+    const entries = buildCapabilityHeatmap(
+      [capability(1, "Procurement"), capability(2, "Workforce"), capability(3, "Quality")],
+      [
+        modelMapping({ capabilityId: 1, authoritativeSource: true }),
+        modelMapping({ id: 2, capabilityId: 2, modelId: 11 }),
+      ],
+      [],
+    );
+
+    expect(entries.map((entry) => entry.coverage)).toEqual(["covered", "no_authoritative_model", "no_model"]);
+    expect(entries[2]).toMatchObject({ modelCount: 0, averageReadiness: null, highestRisk: null });
+  });
+
+  it("aggregates readiness, risk and system metrics", () => {
+    const [entry] = buildCapabilityHeatmap(
+      [capability(1, "Procurement")],
+      [
+        modelMapping({ readinessScore: 2, businessValueScore: 5, riskLevel: "low" }),
+        modelMapping({ id: 2, modelId: 11, readinessScore: 5, riskLevel: "critical", authoritativeSource: true }),
+        modelMapping({ id: 3, modelId: 12, readinessScore: 4, riskLevel: "high" }),
+      ],
+      [
+        triple({ systemId: 100, heatmapScore: 4, slaHours: 24 }),
+        triple({ id: 2, modelId: 11, systemId: 100, heatmapScore: 2, slaHours: 8 }),
+        triple({ id: 3, modelId: 12, systemId: 101 }),
+      ],
+    );
+
+    expect(entry).toMatchObject({
+      modelCount: 3,
+      authoritativeModelCount: 1,
+      systemCount: 2,
+      averageReadiness: 3.7,
+      averageBusinessValue: 5,
+      highestRisk: "critical",
+      averageHeatmapScore: 3,
+      minimumSlaHours: 8,
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultCatalogSchema,
+  extractHanaCatalog,
+  extractOracleCatalog,
+  type CatalogQueryRunner,
+} from "../server/services/catalogExtractors";
+
+type Fixture = Array<{ match: string; rows: Record<string, unknown>[] }>;
+
+// Answers each catalog query with the fixture rows of the first entry whose marker it contains
+function fixtureRunner(fixture: Fixture) {
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+  const runner: CatalogQueryRunner = {
+    async query(sql, params) {
+      queries.push({ sql, params });
+      const entry = fixture.find(({ match }) => sql.includes(match));
+      if (!entry) {
+        throw new Error(`No fixture for query: ${sql}`);
+      }
+      return entry.rows;
+    },
+    async close() {},
+  };
+  return { runner, queries };
+}
+
+// Dictionary view rows in the shape oracledb returns them for schema SALES
+const oracleFixture: Fixture = [
+  { match: 'COUNT(*) AS CNT FROM "SALES"."CUSTOMERS"', rows: [{ CNT: 42 }] },
+  { match: 'COUNT(*) AS CNT FROM "SALES"."ORDERS"', rows: [{ CNT: 310 }] },
+  {
+    match: "FROM ALL_TABLES",
+    rows: [
+      { OWNER: "SALES", TABLE_NAME: "CUSTOMERS", NUM_ROWS: 40 },
+      { OWNER: "SALES", TABLE_NAME: "ORDERS", NUM_ROWS: null },
+    ],
+  },
+  {
+    match: "FROM ALL_TAB_COLUMNS",
+    rows: [
+      { TABLE_NAME: "CUSTOMERS", COLUMN_NAME: "CUSTOMER_ID", DATA_TYPE: "NUMBER", NULLABLE: "N", CHAR_LENGTH: 0, COLUMN_ID: 1 },
+      { TABLE_NAME: "CUSTOMERS", COLUMN_NAME: "NAME", DATA_TYPE: "VARCHAR2", NULLABLE: "Y", CHAR_LENGTH: 200, COLUMN_ID: 2 },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "ORDER_ID", DATA_TYPE: "NUMBER", NULLABLE: "N", CHAR_LENGTH: 0, COLUMN_ID: 1 },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "CUSTOMER_ID", DATA_TYPE: "NUMBER", NULLABLE: "N", CHAR_LENGTH: 0, COLUMN_ID: 2 },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "REGION_CODE", DATA_TYPE: "CHAR", NULLABLE: "Y", CHAR_LENGTH: 2, COLUMN_ID: 3 },
+    ],
+  },
+  {
+    match: "CONSTRAINT_TYPE = 'P'",
+    rows: [
+      { TABLE_NAME: "CUSTOMERS", COLUMN_NAME: "CUSTOMER_ID", CONSTRAINT_NAME: "SYS_C0012345" },
+      { TABLE_NAME: "ORDERS", COLUMN_NAME: "ORDER_ID", CONSTRAINT_NAME: "ORDERS_PK" },
+    ],
+  },
+  {
+    match: "CONSTRAINT_TYPE = 'R'",
+    rows: [
+      {
+        CONSTRAINT_NAME: "FK_ORDERS_CUSTOMER",
+        TABLE_NAME: "ORDERS",
+        COLUMN_NAME: "CUSTOMER_ID",
+        REFERENCED_OWNER: "SALES",
+        REFERENCED_TABLE_NAME: "CUSTOMERS",
+        REFERENCED_COLUMN_NAME: "CUSTOMER_ID",
+        DELETE_RULE: "CASCADE",
+      },
+      {
+        CONSTRAINT_NAME: "FK_ORDERS_REGION",
+        TABLE_NAME: "ORDERS",
+        COLUMN_NAME: "REGION_CODE",
+        REFERENCED_OWNER: "REF",
+        REFERENCED_TABLE_NAME: "REGIONS",
+        REFERENCED_COLUMN_NAME: "CODE",
+        DELETE_RULE: "NO ACTION",
+      },
+    ],
+  },
+];
+
+// Catalog view rows in the shape @sap/hana-client returns them for schema ERP
+const hanaFixture: Fixture = [
+  {
+    match: "FROM SYS.TABLES",
+    rows: [
+      { SCHEMA_NAME: "ERP", TABLE_NAME: "MATERIAL" },
+      { SCHEMA_NAME: "ERP", TABLE_NAME: "PLANT_STOCK" },
+    ],
+  },
+  {
+    match: "FROM SYS.M_TABLES",
+    rows: [
+      { TABLE_NAME: "MATERIAL", RECORD_COUNT: "1200" },
+      { TABLE_NAME: "PLANT_STOCK", RECORD_COUNT: "8800" },
+    ],
+  },
+  {
+    match: "FROM SYS.TABLE_COLUMNS",
+    rows: [
+      { TABLE_NAME: "MATERIAL", COLUMN_NAME: "MATNR", DATA_TYPE_NAME: "NVARCHAR", IS_NULLABLE: "FALSE", LENGTH: 40, POSITION: 1 },
+      { TABLE_NAME: "MATERIAL", COLUMN_NAME: "WEIGHT", DATA_TYPE_NAME: "DECIMAL", IS_NULLABLE: "TRUE", LENGTH: 13, POSITION: 2 },
+      { TABLE_NAME: "PLANT_STOCK", COLUMN_NAME: "WERKS", DATA_TYPE_NAME: "NVARCHAR", IS_NULLABLE: "FALSE", LENGTH: 4, POSITION: 1 },
+      { TABLE_NAME: "PLANT_STOCK", COLUMN_NAME: "MATNR", DATA_TYPE_NAME: "NVARCHAR", IS_NULLABLE: "FALSE", LENGTH: 40, POSITION: 2 },
+    ],
+  },
+  {
+    match: "FROM SYS.CONSTRAINTS",
+    rows: [
+      { TABLE_NAME: "MATERIAL", COLUMN_NAME: "MATNR" },
+      { TABLE_NAME: "PLANT_STOCK", COLUMN_NAME: "WERKS" },
+      { TABLE_NAME: "PLANT_STOCK", COLUMN_NAME: "MATNR" },
+    ],
+  },
+  {
+    match: "FROM SYS.REFERENTIAL_CONSTRAINTS",
+    rows: [
+      {
+        CONSTRAINT_NAME: "FK_STOCK_MATERIAL",
+        TABLE_NAME: "PLANT_STOCK",
+        COLUMN_NAME: "MATNR",
+        REFERENCED_SCHEMA_NAME: "ERP",
+        REFERENCED_TABLE_NAME: "MATERIAL",
+        REFERENCED_COLUMN_NAME: "MATNR",
+        UPDATE_RULE: "RESTRICT",
+        DELETE_RULE: "CASCADE",
+      },
+    ],
+  },
+];
+
+describe("Oracle catalog extraction", () => {
+  it("builds tables with columns, keys and exact row counts", async () => {
+    const { runner, queries } = fixtureRunner(oracleFixture);
+    const tables = await extractOracleCatalog(runner, "SALES");
+
+    expect(queries.filter(({ sql }) => sql.includes("ALL_")).every(({ params }) => params[0] === "SALES")).toBe(true);
+    expect(tables.map((table) => [table.name, table.rowCount])).toEqual([
+      ["CUSTOMERS", 42],
+      ["ORDERS", 310],
+    ]);
+
+    const [customers, orders] = tables;
+    expect(customers.columns).toEqual([
+      { name: "CUSTOMER_ID", type: "NUMBER", nullable: false, isPrimaryKey: true, length: undefined },
+      { name: "NAME", type: "VARCHAR2", nullable: true, isPrimaryKey: false, length: 200 },
+    ]);
+    // System-generated names have to be used verbatim when the key is dropped
+    expect(tables.map((table) => table.primaryKeyName)).toEqual(["SYS_C0012345", "ORDERS_PK"]);
+    expect(orders.foreignKeys).toEqual([
+      expect.objectContaining({
+        constraintName: "FK_ORDERS_CUSTOMER",
+        columns: ["CUSTOMER_ID"],
+        referencedTable: "CUSTOMERS",
+        referencedColumns: ["CUSTOMER_ID"],
+        deleteRule: "CASCADE",
+        relationshipType: "N:1",
+      }),
+      expect.objectContaining({ referencedSchema: "REF", referencedTable: "REF.REGIONS" }),
+    ]);
+  });
+
+  it("falls back to optimizer statistics when a table cannot be counted", async () => {
+    const { runner } = fixtureRunner(oracleFixture.filter(({ match }) => !match.includes("CUSTOMERS")));
+    const [customers] = await extractOracleCatalog(runner, "SALES");
+    expect(customers.rowCount).toBe(40);
+  });
+});
+
+describe("SAP HANA catalog extraction", () => {
+  it("reads record counts, composite keys and referential constraints", async () => {
+    const { runner } = fixtureRunner(hanaFixture);
+    const tables = await extractHanaCatalog(runner, "ERP");
+
+    expect(tables.map((table) => [table.name, table.rowCount])).toEqual([
+      ["MATERIAL", 1200],
+      ["PLANT_STOCK", 8800],
+    ]);
+    expect(tables[0].columns[1]).toEqual({ name: "WEIGHT", type: "DECIMAL", nullable: true, isPrimaryKey: false, length: undefined });
+    expect(tables[1].columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual(["WERKS", "MATNR"]);
+    expect(tables[1].foreignKeys).toEqual([
+      {
+        constraintName: "FK_STOCK_MATERIAL",
+        columns: ["MATNR"],
+        referencedSchema: "ERP",
+        referencedTable: "MATERIAL",
+        referencedColumns: ["MATNR"],
+        updateRule: "RESTRICT",
+        deleteRule: "CASCADE",
+        relationshipType: "N:1",
+      },
+    ]);
+  });
+
+  it("defaults the schema to the upper-cased user name", () => {
+    const config = { type: "sap_hana", host: "hana", port: 39041, database: "HXE", username: "erp_reader", password: "" } as const;
+    expect(defaultCatalogSchema(config)).toBe("ERP_READER");
+    expect(defaultCatalogSchema({ ...config, schema: "ERP" })).toBe("ERP");
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { CollaborationHub, type CollaborationIdentity } from "../server/services/collaborationHub";
+import { mergeCollaborationChange, type CollaborationServerMessage } from "../shared/collaboration";
+
+const modeler = (userId: number, name: string, organizationId = 1): CollaborationIdentity => ({
+  userId,
+  organizationId,
+  roles: ["modeler"],
+  isSuperAdmin: false,
+  sessionId: userId * 10,
+  name,
+});
+
+function connect(hub: CollaborationHub, identity: CollaborationIdentity) {
+  const inbox: CollaborationServerMessage[] = [];
+  const socket = { closed: false };
+  const clientId = hub.connect(
+    { send: (data) => inbox.push(JSON.parse(data)), close: () => (socket.closed = true) },
+    identity,
+  );
+  return { clientId, inbox, socket, send: (message: unknown) => hub.receive(clientId, JSON.stringify(message)) };
+}
+
+const node = (id: string, x: number, attributes: Array<{ id: number; name: string }> = []) => ({
+  id,
+  type: "dataObject",
+  position: { x, y: 0 },
+  data: { name: `Object ${id}`, attributes },
+});
+
+describe("collaboration hub", () => {
+  it("tracks presence per layer and relays cursors to the other sessions", async () => {
+    const hub = new CollaborationHub();
+    const ada = connect(hub, modeler(1, "Ada"));
+    const bo = connect(hub, modeler(2, "Bo"));
+    const elsewhere = connect(hub, modeler(3, "Cy"));
+
+    await ada.send({ type: "join", layerId: 7 });
+    await bo.send({ type: "join", layerId: 7 });
+    await elsewhere.send({ type: "join", layerId: 8 });
+
+    expect(ada.inbox[0]).toMatchObject({ type: "welcome", layerId: 7, peers: [] });
+    expect(bo.inbox[0]).toMatchObject({ type: "welcome", peers: [{ clientId: ada.clientId, name: "Ada" }] });
+    expect(ada.inbox[1]).toMatchObject({ type: "peer.joined", peer: { clientId: bo.clientId, name: "Bo" } });
+
+    await bo.send({ type: "cursor", cursor: { x: 10, y: 20 } });
+
+    expect(ada.inbox.slice(2)).toEqual([{ type: "cursor", clientId: bo.clientId, cursor: { x: 10, y: 20 } }]);
+    expect(bo.inbox).toHaveLength(1);
+    expect(elsewhere.inbox).toHaveLength(1);
+    expect(hub.peersOf(1, 7).map((peer) => peer.cursor)).toEqual([null, { x: 10, y: 20 }]);
+
+    hub.disconnect(bo.clientId);
+    expect(ada.inbox[ada.inbox.length - 1]).toEqual({ type: "peer.left", clientId: bo.clientId });
+    expect(hub.peersOf(1, 7).map((peer) => peer.name)).toEqual(["Ada"]);
+  });
+
+  it("keeps organizations apart and rejects changes sent by clients and invalid messages", async () => {
+    const hub = new CollaborationHub({ canAccessLayer: async (_identity, layerId) => layerId !== 99 });
+    const editor = connect(hub, modeler(1, "Ada"));
+    const otherOrg = connect(hub, modeler(2, "Bo", 2));
+    const viewer = connect(hub, { ...modeler(3, "Cy"), roles: ["viewer"] });
+
+    await editor.send({ type: "join", layerId: 7 });
+    await otherOrg.send({ type: "join", layerId: 7 });
+    await viewer.send({ type: "join", layerId: 99 });
+    expect(viewer.inbox).toEqual([{ type: "error", message: "Model layer 99 not found" }]);
+
+    await viewer.send({ type: "join", layerId: 7 });
+    await editor.send({ type: "change", change: { kind: "node.remove", nodeId: "1" } });
+    await viewer.send({ type: "cursor", cursor: { x: "left" } });
+
+    expect(viewer.inbox.slice(1).map((message) => message.type)).toEqual(["welcome", "error"]);
+    expect(editor.inbox.map((message) => message.type)).toEqual(["welcome", "peer.joined", "error"]);
+    expect(editor.inbox[2]).toEqual({ type: "error", message: "Invalid collaboration message" });
+    expect(otherOrg.inbox.map((message) => message.type)).toEqual(["welcome"]);
+  });
+
+  it("announces persisted changes to the layer except to the client that made them", async () => {
+    const hub = new CollaborationHub();
+    const ada = connect(hub, modeler(1, "Ada"));
+    const adaOtherTab = connect(hub, modeler(1, "Ada"));
+    const bo = connect(hub, modeler(2, "Bo"));
+    const otherOrg = connect(hub, modeler(3, "Cy", 2));
+    await Promise.all([ada, adaOtherTab, bo, otherOrg].map((session) => session.send({ type: "join", layerId: 7 })));
+    [ada, adaOtherTab, bo, otherOrg].forEach((session) => session.inbox.splice(0));
+
+    expect(hub.hasRooms(1)).toBe(true);
+    expect(hub.hasRooms(3)).toBe(false);
+
+    hub.publish(1, 7, { kind: "layer.changed" }, { userId: 1, clientId: ada.clientId });
+    // A client id presented by someone else does not mute that client
+    hub.publish(1, 7, { kind: "node.remove", nodeId: "4" }, { userId: 2, clientId: ada.clientId });
+
+    expect(ada.inbox).toEqual([{ type: "change", userId: 2, change: { kind: "node.remove", nodeId: "4" } }]);
+    expect(adaOtherTab.inbox.map((message) => message.type)).toEqual(["change", "change"]);
+    expect(bo.inbox[0]).toEqual({ type: "change", userId: 1, change: { kind: "layer.changed" } });
+    expect(otherOrg.inbox).toEqual([]);
+  });
+
+  it("closes sockets whose session ended or whose identity no longer checks out", async () => {
+    const hub = new CollaborationHub();
+    const ada = connect(hub, modeler(1, "Ada"));
+    const bo = connect(hub, modeler(2, "Bo"));
+    const cy = connect(hub, modeler(3, "Cy"));
+    const otherOrg = connect(hub, modeler(2, "Bo", 2));
+    await Promise.all([ada, bo, cy].map((session) => session.send({ type: "join", layerId: 7 })));
+
+    expect(hub.closeSessions([10])).toBe(1);
+    expect(ada.socket.closed).toBe(true);
+    expect(hub.peersOf(1, 7).map((peer) => peer.name)).toEqual(["Bo", "Cy"]);
+
+    expect(hub.closeUser(1, 2)).toBe(1);
+    expect(bo.socket.closed).toBe(true);
+    expect(otherOrg.socket.closed).toBe(false);
+
+    const closed = await hub.revalidate(async (identity) => identity.userId !== 3);
+    expect(closed).toBe(1);
+    expect(cy.socket.closed).toBe(true);
+    expect(hub.peersOf(1, 7)).toEqual([]);
+    expect(hub.hasRooms(1)).toBe(false);
+  });
+});
+
+describe("canvas change merging", () => {
+  it("applies remote changes to nodes and edges", () => {
+    const nodes = [node("1", 0, [{ id: 10, name: "id" }]), node("2", 300)];
+    const edges = [{ id: "e1", source: "1", target: "2" }];
+
+    const moved = mergeCollaborationChange(nodes, edges, {
+      kind: "positions",
+      positions: [{ nodeId: "2", position: { x: 50, y: 60 } }],
+    });
+    expect(moved.nodes[1].position).toEqual({ x: 50, y: 60 });
+    expect(moved.nodes[0]).toBe(nodes[0]);
+
+    const renamed = mergeCollaborationChange(nodes, edges, {
+      kind: "attribute.upsert",
+      nodeId: "1",
+      attribute: { id: 10, name: "customer_id" },
+    });
+    expect(renamed.nodes[0].data.attributes).toEqual([{ id: 10, name: "customer_id" }]);
+
+    const removed = mergeCollaborationChange(nodes, edges, { kind: "node.remove", nodeId: "2" });
+    expect(removed.nodes.map((entry) => entry.id)).toEqual(["1"]);
+    expect(removed.edges).toEqual([]);
+
+    const unknown = mergeCollaborationChange(nodes, edges, { kind: "positions", positions: [{ nodeId: "9", position: { x: 1, y: 1 } }] });
+    expect(unknown.nodes).toBe(nodes);
+  });
+});
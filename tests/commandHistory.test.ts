@@ -0,0 +1,205 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelHistoryCommand } from "../shared/schema";
+import type { HistoryOperation } from "../shared/history";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { buildHistoryCommand, findChangeOutsideLayer } from "../shared/history";
+import { CommandHistoryService, HISTORY_LIMIT } from "../server/services/commandHistory";
+import { recordHistoryCommandRequestSchema } from "../server/utils/validation_schemas";
+
+const LAYER_ID = 7;
+const USER_ID = 3;
+
+describe("building history commands", () => {
+  it("replays writes forward and reverts them in reverse order", () => {
+    const { forward, inverse } = buildHistoryCommand(
+      [
+        { entityType: "data_object", entityId: 5, action: "create", before: null, after: { id: 5, name: "Order" } },
+        { entityType: "attribute", entityId: 9, action: "create", before: null, after: { id: 9, objectId: 5, name: "order_id" } },
+        {
+          entityType: "attribute",
+          entityId: 4,
+          action: "update",
+          before: { id: 4, name: "cust", nullable: true, updatedAt: "2026-01-01" },
+          after: { id: 4, name: "customer_id", nullable: true, updatedAt: "2026-02-01" },
+        },
+        { entityType: "data_object_relationship", entityId: 2, action: "delete", before: { id: 2, type: "1:N" }, after: null },
+        { entityType: "data_model", entityId: 1, action: "update", before: { name: "A" }, after: { name: "B" } },
+      ],
+      [
+        { modelObjectId: 11, from: { x: 0, y: 0 }, to: { x: 40, y: 10 } },
+        { modelObjectId: 12, from: { x: 5, y: 5 }, to: { x: 5, y: 5 } },
+      ],
+    );
+
+    expect(forward).toEqual([
+      { kind: "insert", entityType: "data_object", row: { id: 5, name: "Order" } },
+      { kind: "insert", entityType: "attribute", row: { id: 9, objectId: 5, name: "order_id" } },
+      { kind: "update", entityType: "attribute", id: 4, values: { name: "customer_id" }, expected: { name: "cust" } },
+      { kind: "delete", entityType: "data_object_relationship", id: 2, expected: { id: 2, type: "1:N" } },
+      { kind: "position", modelObjectId: 11, x: 40, y: 10 },
+    ]);
+    expect(inverse).toEqual([
+      { kind: "position", modelObjectId: 11, x: 0, y: 0 },
+      { kind: "insert", entityType: "data_object_relationship", row: { id: 2, type: "1:N" } },
+      { kind: "update", entityType: "attribute", id: 4, values: { name: "cust" }, expected: { name: "customer_id" } },
+      { kind: "delete", entityType: "attribute", id: 9, expected: { id: 9, objectId: 5, name: "order_id" } },
+      { kind: "delete", entityType: "data_object", id: 5, expected: { id: 5, name: "Order" } },
+    ]);
+  });
+
+  it("leaves canvas layout out of what a delete expects to find", () => {
+    const { inverse } = buildHistoryCommand([
+      {
+        entityType: "data_model_layer_object",
+        entityId: 30,
+        action: "create",
+        before: null,
+        after: { id: 30, dataModelLayerId: 7, dataModelObjectId: 11, positionX: 1, positionY: 2, updatedAt: "2026-01-01" },
+      },
+    ]);
+    expect(inverse).toEqual([
+      { kind: "delete", entityType: "data_model_layer_object", id: 30, expected: { id: 30, dataModelLayerId: 7, dataModelObjectId: 11 } },
+    ]);
+  });
+
+  it("finds changes that reach beyond the layer", () => {
+    const scope = { layerId: 7, modelObjectIds: [11], dataObjectIds: [5] };
+    const attribute = (objectId: number) => ({
+      entityType: "attribute",
+      entityId: 40,
+      action: "update",
+      before: { objectId, name: "a" },
+      after: { objectId, name: "b" },
+    });
+    expect(findChangeOutsideLayer([attribute(5)], scope)).toBeNull();
+    expect(findChangeOutsideLayer([attribute(6)], scope)).toEqual(attribute(6));
+
+    // Objects added to the layer by the same request bring their data object into scope
+    const added = [
+      { entityType: "data_model_object", entityId: 12, action: "create", before: null, after: { id: 12, modelId: 7, objectId: 6 } },
+      attribute(6),
+    ];
+    expect(findChangeOutsideLayer(added, scope)).toBeNull();
+
+    const otherLayer = { entityType: "data_model_object_relationship", entityId: 3, action: "delete", before: { id: 3, modelId: 8 }, after: null };
+    expect(findChangeOutsideLayer([otherLayer], scope)).toEqual(otherLayer);
+  });
+
+  it("accepts record requests without request ids and rejects empty labels", () => {
+    expect(recordHistoryCommandRequestSchema.parse({ action: "node_moved", label: "Moved 1 object(s)" })).toEqual({
+      action: "node_moved",
+      label: "Moved 1 object(s)",
+      requestIds: [],
+      positions: [],
+    });
+    expect(() => recordHistoryCommandRequestSchema.parse({ action: "node_moved", label: "" })).toThrow();
+  });
+});
+
+function createStore() {
+  let nextId = 1;
+  const commands: ModelHistoryCommand[] = [];
+  const applied: HistoryOperation[][] = [];
+  const store = {
+    commands,
+    applied,
+    getDataModelLayer: async (id: number) => (id === LAYER_ID ? { id } : undefined),
+    getLayerObjectLinksByLayer: async () => [{ dataModelObjectId: 11 }],
+    getDataModelObjectsByModel: async () => [{ id: 11, objectId: 5 }],
+    getAuditLogEntriesByRequests: async (requestIds: string[]) =>
+      requestIds.map((requestId, index) => ({
+        entityType: "attribute",
+        entityId: 100 + index,
+        action: "update",
+        before: { objectId: requestId === "foreign" ? 6 : 5, name: `${requestId}-before` },
+        after: { objectId: requestId === "foreign" ? 6 : 5, name: `${requestId}-after` },
+      })),
+    getHistoryCommands: async () => commands.map((command) => ({ ...command })),
+    createHistoryCommand: async (input: Omit<ModelHistoryCommand, "id" | "createdAt" | "updatedAt">) => {
+      const command = { ...input, id: nextId++, createdAt: new Date(), updatedAt: new Date() } as ModelHistoryCommand;
+      commands.push(command);
+      return command;
+    },
+    updateHistoryCommand: async (id: number, values: Partial<ModelHistoryCommand>) => {
+      const command = commands.find((entry) => entry.id === id)!;
+      Object.assign(command, values);
+      return command;
+    },
+    deleteHistoryCommands: async (ids: number[]) => {
+      for (let index = commands.length - 1; index >= 0; index--) {
+        if (ids.includes(commands[index].id)) {
+          commands.splice(index, 1);
+        }
+      }
+    },
+    applyHistoryOperations: async (_layerId: number, operations: HistoryOperation[]) => {
+      applied.push(operations);
+    },
+  };
+  return store;
+}
+
+describe("command history", () => {
+  it("undoes and redoes in order and drops the redo branch on a new action", async () => {
+    const store = createStore();
+    const service = new CommandHistoryService(store as any);
+
+    const first = await service.record(LAYER_ID, { action: "attribute_updated", label: "First", requestIds: ["a"] }, USER_ID);
+    await service.record(LAYER_ID, { action: "attribute_updated", label: "Second", requestIds: ["b"] }, USER_ID);
+    expect(first).not.toHaveProperty("forward");
+
+    const undone = await service.undo(LAYER_ID, USER_ID);
+    expect(undone).toMatchObject({ label: "Second", status: "undone" });
+    expect(store.applied[0]).toEqual([
+      { kind: "update", entityType: "attribute", id: 100, values: { name: "b-before" }, expected: { name: "b-after" } },
+    ]);
+
+    await service.undo(LAYER_ID, USER_ID);
+    const redone = await service.redo(LAYER_ID, USER_ID);
+    expect(redone).toMatchObject({ label: "First", status: "applied" });
+
+    await service.record(LAYER_ID, { action: "attribute_updated", label: "Third", requestIds: ["c"] }, USER_ID);
+    expect((await service.list(LAYER_ID, USER_ID)).map((command) => [command.label, command.status])).toEqual([
+      ["First", "applied"],
+      ["Third", "applied"],
+    ]);
+    await expect(service.redo(LAYER_ID, USER_ID)).rejects.toThrow(`Command to redo not found on model layer ${LAYER_ID}`);
+  });
+
+  it("skips actions with nothing to undo and checks moved objects are on the layer", async () => {
+    const store = createStore();
+    const service = new CommandHistoryService(store as any);
+
+    expect(await service.record(LAYER_ID, { action: "noop", label: "Nothing", requestIds: [] }, USER_ID)).toBeNull();
+    expect(store.commands).toHaveLength(0);
+
+    await expect(
+      service.record(
+        LAYER_ID,
+        { action: "node_moved", label: "Moved", requestIds: [], positions: [{ modelObjectId: 99, from: { x: 0, y: 0 }, to: { x: 1, y: 1 } }] },
+        USER_ID,
+      ),
+    ).rejects.toThrow(`Object 99 not found on model layer ${LAYER_ID}`);
+    await expect(
+      service.record(LAYER_ID, { action: "attribute_updated", label: "Elsewhere", requestIds: ["foreign"] }, USER_ID),
+    ).rejects.toThrow(`Undoable changes must be on model layer ${LAYER_ID}; System attribute 100 is not`);
+    await expect(service.list(404, USER_ID)).rejects.toThrow("Model layer 404 not found");
+    await expect(service.undo(LAYER_ID, USER_ID)).rejects.toThrow(`Command to undo not found on model layer ${LAYER_ID}`);
+  });
+
+  it("keeps only the most recent commands", async () => {
+    const store = createStore();
+    const service = new CommandHistoryService(store as any);
+
+    for (let index = 0; index < HISTORY_LIMIT + 2; index++) {
+      await service.record(LAYER_ID, { action: "attribute_updated", label: `Edit ${index}`, requestIds: [`r${index}`] }, USER_ID);
+    }
+
+    expect(store.commands).toHaveLength(HISTORY_LIMIT);
+    expect(store.commands[0].label).toBe("Edit 2");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Request } from "express";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { VersionConflictError, readExpectedVersion, rowVersion } from "../server/utils/concurrency";
+import { handleError } from "../server/utils/route_helpers";
+import { deleteRelationship, updateRelationship } from "../server/utils/relationship_handlers";
+
+const requestWith = (ifMatch?: string) => ({ get: (name: string) => (name === "if-match" ? ifMatch : undefined) }) as unknown as Request;
+
+describe("optimistic concurrency", () => {
+  const row = { id: 4, name: "Customer", updatedAt: new Date("2026-03-01T10:15:30.250Z") };
+
+  it("uses the ISO updatedAt of a row as its version and reads it back from If-Match", () => {
+    expect(rowVersion(row)).toBe("2026-03-01T10:15:30.250Z");
+    expect(rowVersion({ updatedAt: "2026-03-01T10:15:30.250Z" })).toBe("2026-03-01T10:15:30.250Z");
+
+    expect(readExpectedVersion(requestWith('"2026-03-01T10:15:30.250Z"'))).toBe("2026-03-01T10:15:30.250Z");
+    expect(readExpectedVersion(requestWith('W/"2026-03-01T10:15:30.250Z"'))).toBe("2026-03-01T10:15:30.250Z");
+    expect(readExpectedVersion(requestWith())).toBeNull();
+    expect(readExpectedVersion(requestWith("*"))).toBeNull();
+    expect(() => readExpectedVersion(requestWith('"abc"'))).toThrow("If-Match must be");
+  });
+
+  it("reports a lost update as a 409 carrying the stored row and its version", () => {
+    const conflict = new VersionConflictError("Object", row);
+    expect(conflict.currentVersion).toBe("2026-03-01T10:15:30.250Z");
+    expect(new VersionConflictError("Object", null).currentVersion).toBeNull();
+    expect(handleError(conflict)).toEqual({
+      status: 409,
+      body: {
+        message: "Object was changed by someone else after you loaded it",
+        current: row,
+        currentVersion: "2026-03-01T10:15:30.250Z",
+      },
+    });
+  });
+
+  it("claims the relationship version before family sync writes anything", async () => {
+    const stored = { id: 8, modelId: 3, type: "1:N", updatedAt: new Date("2026-03-01T10:15:30.250Z") };
+    const writes: string[] = [];
+    const store = {
+      transaction: async <T>(work: () => Promise<T>) => work(),
+      getDataModelObjectRelationship: async () => stored,
+      updateDataModelObjectRelationship: async (_id: number, _patch: unknown, expectedVersion?: string | null) => {
+        writes.push("relationship");
+        if (expectedVersion && expectedVersion !== rowVersion(stored)) {
+          throw new VersionConflictError("Relationship", stored);
+        }
+        return stored;
+      },
+      getDataModelObject: vi.fn(),
+    };
+
+    await expect(
+      updateRelationship(8, { type: "1:1" }, store as any, "2026-03-01T09:00:00.000Z")
+    ).rejects.toBeInstanceOf(VersionConflictError);
+    expect(writes).toEqual(["relationship"]);
+    expect(store.getDataModelObject).not.toHaveBeenCalled();
+  });
+
+  it("answers a stale delete with 412 and leaves the other layers alone", async () => {
+    const stored = {
+      id: 8,
+      modelId: 3,
+      type: "1:N",
+      relationshipLevel: "object",
+      sourceModelObjectId: 20,
+      targetModelObjectId: 21,
+      sourceAttributeId: null,
+      targetAttributeId: null,
+      updatedAt: new Date("2026-03-01T10:15:30.250Z"),
+    };
+    const transaction = vi.fn(async <T>(work: () => Promise<T>) => work());
+    const store = {
+      transaction,
+      getDataModelObjectRelationship: async () => stored,
+      getDataModelObject: async (id: number) => ({ id, objectId: id + 100 }),
+      getDataModel: async () => ({ id: 3 }),
+      deleteDataModelObjectRelationship: async (_id: number, expectedVersion?: string | null) => {
+        if (expectedVersion && expectedVersion !== rowVersion(stored)) {
+          throw new VersionConflictError("Relationship", stored, 412);
+        }
+      },
+      getDataModels: vi.fn(),
+    };
+
+    const stale = await deleteRelationship(8, store as any, "2026-03-01T09:00:00.000Z").catch((error) => error);
+
+    expect(stale).toBeInstanceOf(VersionConflictError);
+    expect(handleError(stale)).toMatchObject({ status: 412, body: { currentVersion: "2026-03-01T10:15:30.250Z" } });
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(store.getDataModels).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { detectDelimiter, detectEncoding, profileCsv } from "../server/services/csvProfiler";
+
+async function* chunked(text: string, size: number): AsyncIterable<Uint8Array> {
+  const bytes = Buffer.from(text, "utf-8");
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+describe("CSV profiling", () => {
+  it("handles quoted delimiters, doubled quotes and embedded newlines across chunks", async () => {
+    const csv = [
+      "order_ref,customer,note,amount,placed_on",
+      'A-1,"Smith, Jane","said ""hi""",12.50,2024-01-05',
+      'A-2,Ødegård,"line one\r\nline two",7,2024-02-11',
+      "A-3,Lee,,1234.125,2024-03-30",
+      "",
+    ].join("\r\n");
+
+    // 7-byte chunks split quotes, CRLF pairs and the multi-byte Ø
+    const table = await profileCsv(chunked(csv, 7), { fileName: "uploads/orders.csv" });
+
+    expect(table.name).toBe("orders");
+    expect(table.rowCount).toBe(3);
+    expect(table.columns.map(({ name, type }) => [name, type])).toEqual([
+      ["order_ref", "VARCHAR(3)"],
+      ["customer", "VARCHAR(11)"],
+      ["note", "VARCHAR(18)"],
+      ["amount", "DECIMAL(7,3)"],
+      ["placed_on", "DATE"],
+    ]);
+    expect(table.columns[2]).toMatchObject({ nullable: true, profile: { nullCount: 1, nullRatio: 0.3333, distinctCount: 2 } });
+    expect(table.columns[3]).toMatchObject({ precision: 7, scale: 3, nullable: false });
+    expect(table.profile).toMatchObject({ delimiter: ",", hasHeader: true, irregularRowCount: 0, sampled: false });
+  });
+
+  it("proposes unique, non-null columns as keys and prefers id-like names", async () => {
+    const csv = [
+      "email,customer_id,country,score",
+      "a@x.io,10,NO,1",
+      "b@x.io,11,NO,2",
+      "c@x.io,12,SE,2",
+      "d@x.io,13,SE,",
+    ].join("\n");
+
+    const table = await profileCsv(Buffer.from(csv), { fileName: "customers.csv" });
+
+    expect(table.profile?.candidateKeys).toEqual([["customer_id"], ["email"]]);
+    expect(table.columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual(["customer_id"]);
+    expect(table.columns[1].type).toBe("INTEGER");
+    expect(table.columns[2].profile?.distinctCount).toBe(2);
+    expect(table.columns[3]).toMatchObject({ type: "INTEGER", nullable: true });
+  });
+
+  it("detects semicolon-delimited Windows-1252 files without a header", async () => {
+    const text = "1;Müller;3,5\n2;Schön;4,0\n";
+    const latin1 = Buffer.from(text, "latin1");
+
+    expect(detectEncoding(latin1)).toBe("windows-1252");
+    const table = await profileCsv(latin1);
+
+    expect(table.name).toBe("CSV_DATA");
+    expect(table.profile).toMatchObject({ encoding: "windows-1252", delimiter: ";", hasHeader: false });
+    expect(table.columns.map((column) => column.name)).toEqual(["column_1", "column_2", "column_3"]);
+    expect(table.columns[1].profile?.maxLength).toBe(6);
+  });
+
+  it("recognises UTF-16 byte-order marks and tab delimiters", async () => {
+    const body = Buffer.from("id\tlabel\n1\tone\n2\ttwo\n", "utf16le");
+    const table = await profileCsv(Buffer.concat([Buffer.from([0xff, 0xfe]), body]));
+
+    expect(table.profile).toMatchObject({ encoding: "utf-16le", delimiter: "\t" });
+    expect(table.columns[0]).toMatchObject({ name: "id", type: "INTEGER", isPrimaryKey: true });
+  });
+
+  it("samples long files while still counting every row", async () => {
+    const rows = Array.from({ length: 500 }, (_, index) => `${index},${index % 7 === 0 ? "" : "x"}`);
+    const table = await profileCsv(Buffer.from(["n,flag", ...rows].join("\n")), { sampleRowLimit: 100 });
+
+    expect(table.rowCount).toBe(500);
+    expect(table.profile).toMatchObject({ profiledRowCount: 100, sampled: true });
+    expect(table.columns[1].profile).toMatchObject({ nullCount: 15, nullRatio: 0.15 });
+  });
+
+  it("keeps leading-zero codes as text and flags ragged rows", async () => {
+    const table = await profileCsv(Buffer.from("zip,city\n0150,Oslo\n5003,Bergen,extra\n"));
+
+    expect(table.columns[0].type).toBe("VARCHAR(4)");
+    expect(table.columns.map((column) => column.name)).toEqual(["zip", "city", "column_3"]);
+    expect(table.profile?.irregularRowCount).toBe(1);
+  });
+
+  it("rejects a quoted field that is never closed", async () => {
+    const csv = 'id,note\r\n1,"fine"\r\n2,"starts here\r\nand runs\r\nto the end\r\n';
+
+    await expect(profileCsv(chunked(csv, 5))).rejects.toThrow(
+      "Malformed CSV: the quoted field opened on line 3 is never closed",
+    );
+  });
+
+  it("only infers DATE when every value is a real calendar date", async () => {
+    const table = await profileCsv(
+      Buffer.from(
+        [
+          "due_on,paid_on,leap_day,local,logged_at",
+          "2024-02-28,2024-02-28,2024-02-29,31.01.2024,2024-01-31 10:00",
+          "2024-03-01,2024-02-30,2020-02-29,12/31/2024,2024-02-31 10:00",
+        ].join("\n"),
+      ),
+    );
+
+    expect(table.columns.map(({ name, type }) => [name, type])).toEqual([
+      ["due_on", "DATE"],
+      ["paid_on", "VARCHAR(10)"],
+      ["leap_day", "DATE"],
+      ["local", "DATE"],
+      ["logged_at", "VARCHAR(16)"],
+    ]);
+    expect((await profileCsv(Buffer.from("d\n2023-02-29\n2023-03-01\n"))).columns[0].type).toBe("VARCHAR(10)");
+  });
+
+  it("prefers the delimiter that splits lines consistently", () => {
+    expect(detectDelimiter('a;b;c\n"1,5";2;3\n4;5;6')).toBe(";");
+    expect(detectDelimiter("a|b\n1|2")).toBe("|");
+  });
+});
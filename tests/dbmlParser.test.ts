@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { findDbmlTable, parseDbml } from "../server/services/dbmlParser";
+
+const source = `
+Project shop {
+  database_type: 'PostgreSQL'
+  Note: 'Ignored'
+}
+
+Enum order_status { created shipped }
+
+// Customers and their orders
+Table public.customers as C [headercolor: #3498DB] {
+  id integer [primary key, increment]
+  email "varchar"(320) [unique, not null, note: 'Login e-mail']
+  score decimal(5, 2) [default: 0.5]
+  tags text[]
+  Note: '''
+    One row per
+    customer
+  '''
+}
+
+Table order_lines {
+  order_id int
+  line_no int
+  customer_id int [ref: > C.id]
+  status order_status [default: \`'created'\`]
+
+  indexes {
+    (order_id, line_no) [pk]
+    customer_id [name: 'ix_customer']
+  }
+}
+
+Ref fk_pair {
+  order_lines.(order_id, line_no) - shipments.(order_id, line_no)
+  order_lines.customer_id <> public.customers.id [delete: cascade]
+}
+
+Table shipments {
+  order_id int
+  line_no int
+}
+
+TableGroup sales { customers order_lines }
+`;
+
+describe("DBML parser", () => {
+  it("reads tables, column settings, composite keys and notes", () => {
+    const { tables, issues } = parseDbml(source);
+
+    expect(issues).toEqual([]);
+    expect(tables.map((table) => table.name)).toEqual(["customers", "order_lines", "shipments"]);
+
+    const [customers, orderLines] = tables;
+    expect(customers).toMatchObject({ schema: "public", alias: "C", note: "One row per\n    customer" });
+    expect(customers.columns).toEqual([
+      { name: "id", type: "integer", nullable: false, isPrimaryKey: true, isUnique: false },
+      { name: "email", type: "varchar(320)", nullable: false, isPrimaryKey: false, isUnique: true, length: 320, note: "Login e-mail" },
+      { name: "score", type: "decimal(5,2)", nullable: true, isPrimaryKey: false, isUnique: false, precision: 5, scale: 2, defaultValue: "0.5" },
+      { name: "tags", type: "text[]", nullable: true, isPrimaryKey: false, isUnique: false },
+    ]);
+    expect(orderLines.columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual(["order_id", "line_no"]);
+    expect(orderLines.columns[3].defaultValue).toBe("'created'");
+  });
+
+  it("reads inline, block and composite refs", () => {
+    const { tables, refs } = parseDbml(source);
+
+    expect(refs).toEqual([
+      { fromTable: "order_lines", fromColumns: ["customer_id"], toTable: "C", toColumns: ["id"], type: "N:1" },
+      {
+        name: "fk_pair",
+        fromTable: "order_lines",
+        fromColumns: ["order_id", "line_no"],
+        toTable: "shipments",
+        toColumns: ["order_id", "line_no"],
+        type: "1:1",
+      },
+      { name: "fk_pair", fromTable: "order_lines", fromColumns: ["customer_id"], toTable: "public.customers", toColumns: ["id"], type: "N:M" },
+    ]);
+    expect(findDbmlTable(tables, "C")?.name).toBe("customers");
+    expect(findDbmlTable(tables, "public.customers")?.name).toBe("customers");
+  });
+
+  it("reports broken blocks and keeps parsing the rest", () => {
+    const { tables, issues } = parseDbml(`
+Table broken {
+  id
+}
+
+Ref: a.b ? c.d
+
+Table ok {
+  id int [pk]
+}
+`);
+
+    expect(tables.map((table) => table.name)).toEqual(["ok"]);
+    expect(issues).toEqual([
+      { line: 4, reason: "Column id has no type" },
+      { line: 6, reason: "Unknown relationship operator '?'" },
+    ]);
+    expect(parseDbml("Table t { note '").issues[0].reason).toBe("Unterminated ' quote");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+vi.mock("../server/utils/model_handlers", () => ({
+  createModelWithLayers: async () => ({ model: { id: 1 } }),
+}));
+
+import { importDbtProject } from "../server/utils/dbt_import_handlers";
+
+const manifestWith = (columns: string[]) => ({
+  metadata: { project_name: "jaffle_shop", adapter_type: "postgres" },
+  nodes: {
+    "model.jaffle_shop.customers": {
+      resource_type: "model",
+      package_name: "jaffle_shop",
+      name: "customers",
+      schema: "analytics",
+      description: "",
+      fqn: ["jaffle_shop", "customers"],
+      config: { materialized: "table" },
+      columns: Object.fromEntries(columns.map((name) => [name, { name, description: "" }])),
+    },
+  },
+  sources: {},
+});
+
+function createStore() {
+  const objects: any[] = [];
+  const attributes: any[] = [];
+  // Attribute ids used by model layer attributes
+  const referenced = new Set<number>();
+  let committed = 0;
+
+  const store = {
+    transaction: async <T>(work: () => Promise<T>) => {
+      const result = await work();
+      committed += 1;
+      return result;
+    },
+    getAllDataObjects: async () => objects,
+    createDataObject: async (input: any) => {
+      const object = { ...input, id: objects.length + 1 };
+      objects.push(object);
+      return object;
+    },
+    updateDataObject: async (id: number, patch: any) => Object.assign(objects.find((object) => object.id === id), patch),
+    deleteDataObjectRelationshipsByObject: async () => {},
+    getAttributesByObject: async (objectId: number) => attributes.filter((attribute) => attribute.objectId === objectId),
+    createAttribute: async (input: any) => {
+      const attribute = { ...input, id: attributes.length + 100 };
+      attributes.push(attribute);
+      return attribute;
+    },
+    updateAttribute: async (id: number, patch: any) =>
+      Object.assign(attributes.find((attribute) => attribute.id === id), patch),
+    getReferencedAttributeIds: async (ids: number[]) => ids.filter((id) => referenced.has(id)),
+    deleteAttribute: async (id: number) => {
+      if (referenced.has(id)) {
+        throw new Error("violates foreign key constraint");
+      }
+      attributes.splice(attributes.findIndex((attribute) => attribute.id === id), 1);
+    },
+    createDataObjectRelationship: async () => ({}),
+  };
+
+  return { store: store as any, attributes, referenced, committed: () => committed };
+}
+
+describe("dbt project import", () => {
+  it("keeps attribute ids on re-import and only drops columns no model uses", async () => {
+    const { store, attributes, referenced, committed } = createStore();
+    await importDbtProject({ manifest: manifestWith(["customer_id", "email", "phone"]) }, store);
+    const [customerId, email, phone] = attributes.map((attribute) => attribute.id);
+    referenced.add(customerId);
+    referenced.add(email);
+
+    const result = await importDbtProject({ manifest: manifestWith(["customer_id", "full_name"]) }, store);
+
+    expect(committed()).toBe(2);
+    expect(result.objectsUpdated).toBe(1);
+    expect(result.attributesCreated).toBe(1);
+    expect(attributes.map((attribute) => attribute.id)).toEqual([customerId, email, 103]);
+    expect(attributes.find((attribute) => attribute.id === phone)).toBeUndefined();
+    expect(result.warnings).toContain("customers.email is no longer in dbt but is kept because model layers use it");
+  });
+});
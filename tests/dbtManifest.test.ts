@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { parseDbtProject } from "../server/services/dbtManifest";
+
+// Trimmed to the fields the importer reads; shaped after dbt 1.7 manifest and catalog output
+const manifest = {
+  metadata: { project_name: "jaffle_shop", adapter_type: "postgres" },
+  nodes: {
+    "model.jaffle_shop.customers": {
+      resource_type: "model",
+      package_name: "jaffle_shop",
+      name: "customers",
+      alias: "customers",
+      schema: "analytics",
+      database: "warehouse",
+      description: "One row per customer",
+      fqn: ["jaffle_shop", "marts", "sales", "customers"],
+      original_file_path: "models/marts/sales/customers.sql",
+      config: { materialized: "table", tags: ["daily"] },
+      tags: ["daily"],
+      columns: {
+        customer_id: { name: "customer_id", description: "Primary key", data_type: null, constraints: [] },
+        email: { name: "email", description: "", data_type: "varchar(320)", constraints: [{ type: "not_null" }] },
+      },
+    },
+    "model.jaffle_shop.orders": {
+      resource_type: "model",
+      package_name: "jaffle_shop",
+      name: "orders",
+      schema: "analytics",
+      description: "",
+      fqn: ["jaffle_shop", "marts", "sales", "billing", "orders"],
+      config: { materialized: "view", meta: { domain: "Finance" } },
+      columns: {
+        order_id: { name: "order_id", description: "", constraints: [{ type: "primary_key" }] },
+        customer_id: { name: "customer_id", description: "Who ordered" },
+        payment_ref: { name: "payment_ref", description: "" },
+      },
+    },
+    "model.dbt_utils.calendar": {
+      resource_type: "model",
+      package_name: "dbt_utils",
+      name: "calendar",
+      fqn: ["dbt_utils", "calendar"],
+      config: { materialized: "table" },
+      columns: {},
+    },
+    "test.jaffle_shop.unique_customers_customer_id.c5af1ff4b1": {
+      resource_type: "test",
+      name: "unique_customers_customer_id",
+      column_name: "customer_id",
+      attached_node: "model.jaffle_shop.customers",
+      test_metadata: { name: "unique", kwargs: { column_name: "customer_id" } },
+      depends_on: { nodes: ["model.jaffle_shop.customers"] },
+    },
+    "test.jaffle_shop.not_null_customers_customer_id.5c9bf9911d": {
+      resource_type: "test",
+      name: "not_null_customers_customer_id",
+      column_name: "customer_id",
+      attached_node: "model.jaffle_shop.customers",
+      test_metadata: { name: "not_null", kwargs: { column_name: "customer_id" } },
+      depends_on: { nodes: ["model.jaffle_shop.customers"] },
+    },
+    "test.jaffle_shop.relationships_orders_customer_id__customer_id__ref_customers_.c6ec7f58f2": {
+      resource_type: "test",
+      name: "relationships_orders_customer_id__customer_id__ref_customers_",
+      column_name: "customer_id",
+      attached_node: "model.jaffle_shop.orders",
+      test_metadata: {
+        name: "relationships",
+        kwargs: { column_name: "customer_id", to: "ref('customers')", field: "customer_id" },
+      },
+      depends_on: { nodes: ["model.jaffle_shop.customers", "model.jaffle_shop.orders"] },
+    },
+    "test.jaffle_shop.relationships_orders_payment_ref__id__source_stripe_payment_.0a1b2c3d4e": {
+      resource_type: "test",
+      name: "relationships_orders_payment_ref__id__source_stripe_payment_",
+      column_name: "payment_ref",
+      attached_node: "model.jaffle_shop.orders",
+      test_metadata: {
+        name: "relationships",
+        kwargs: { column_name: "payment_ref", to: "source('stripe', 'payment')", field: "id" },
+      },
+      depends_on: { nodes: ["source.jaffle_shop.stripe.payment", "model.jaffle_shop.orders"] },
+    },
+    "test.jaffle_shop.relationships_orders_customer_id__id__ref_legacy_.9f8e7d6c5b": {
+      resource_type: "test",
+      name: "relationships_orders_customer_id__id__ref_legacy_",
+      column_name: "customer_id",
+      attached_node: "model.jaffle_shop.orders",
+      test_metadata: { name: "relationships", kwargs: { to: "ref('legacy_customers')", field: "id" } },
+      depends_on: { nodes: ["model.jaffle_shop.orders"] },
+    },
+  },
+  sources: {
+    "source.jaffle_shop.stripe.payment": {
+      resource_type: "source",
+      package_name: "jaffle_shop",
+      source_name: "stripe",
+      name: "payment",
+      identifier: "payment",
+      schema: "stripe",
+      description: "Raw Stripe payments",
+      fqn: ["jaffle_shop", "staging", "stripe", "stripe", "payment"],
+      tags: ["stripe"],
+      columns: {},
+    },
+  },
+};
+
+const catalog = {
+  nodes: {
+    "model.jaffle_shop.customers": {
+      metadata: { type: "BASE TABLE", schema: "analytics", name: "customers" },
+      columns: {
+        EMAIL: { name: "EMAIL", type: "character varying(320)", index: 2 },
+        CUSTOMER_ID: { name: "CUSTOMER_ID", type: "integer", index: 1 },
+        FIRST_ORDER_AT: { name: "FIRST_ORDER_AT", type: "timestamp", index: 3 },
+      },
+    },
+    "model.jaffle_shop.orders": {
+      metadata: { type: "VIEW", schema: "analytics", name: "orders" },
+      columns: {
+        order_id: { name: "order_id", type: "integer", index: 1 },
+        customer_id: { name: "customer_id", type: "integer", index: 2 },
+        payment_ref: { name: "payment_ref", type: "integer", index: 3 },
+        amount: { name: "amount", type: "numeric(12,2)", index: 4 },
+      },
+    },
+  },
+  sources: {
+    "source.jaffle_shop.stripe.payment": {
+      metadata: { type: "BASE TABLE", schema: "stripe", name: "payment" },
+      columns: { id: { name: "id", type: "integer", index: 1 } },
+    },
+  },
+};
+
+describe("dbt manifest import", () => {
+  it("maps models and sources to objects with domains from meta, folders and tags", () => {
+    const plan = parseDbtProject(manifest, catalog);
+
+    expect(plan.projectName).toBe("jaffle_shop");
+    expect(plan.objects.map((object) => object.name)).toEqual(["customers", "orders", "stripe.payment"]);
+
+    const [customers, orders, payment] = plan.objects;
+    expect(customers).toMatchObject({
+      description: "One row per customer",
+      materialized: "table",
+      domain: "sales",
+      dataArea: null,
+      path: "models/marts/sales/customers.sql",
+    });
+    expect(orders).toMatchObject({ materialized: "view", domain: "Finance", description: null });
+    // The only folder under staging is the source name itself
+    expect(payment).toMatchObject({ resourceType: "source", domain: "stripe", relationName: "payment" });
+  });
+
+  it("merges catalog types with documented columns in warehouse order", () => {
+    const [customers, orders] = parseDbtProject(manifest, catalog).objects;
+
+    expect(customers.columns.map((column) => column.name)).toEqual(["customer_id", "email", "FIRST_ORDER_AT"]);
+    expect(customers.columns[0]).toMatchObject({ type: "INTEGER", description: "Primary key", isPrimaryKey: true, nullable: false });
+    expect(customers.columns[1]).toMatchObject({ type: "CHARACTER VARYING(320)", length: 320, nullable: false, isPrimaryKey: false });
+    expect(orders.columns.find((column) => column.name === "amount")).toMatchObject({ precision: 12, scale: 2 });
+    expect(orders.columns[0]).toMatchObject({ name: "order_id", isPrimaryKey: true });
+  });
+
+  it("creates relationships from relationships tests and reports the ones it cannot resolve", () => {
+    const plan = parseDbtProject(manifest, catalog);
+
+    expect(plan.relationships).toEqual([
+      expect.objectContaining({
+        childId: "model.jaffle_shop.orders",
+        childColumn: "customer_id",
+        parentId: "model.jaffle_shop.customers",
+        parentColumn: "customer_id",
+        type: "N:1",
+      }),
+      expect.objectContaining({ parentId: "source.jaffle_shop.stripe.payment", parentColumn: "id" }),
+    ]);
+    expect(plan.objects[1].columns.find((column) => column.name === "customer_id")?.isForeignKey).toBe(true);
+    expect(plan.warnings).toEqual([
+      "relationships_orders_customer_id__id__ref_legacy_: ref('legacy_customers') is not part of the import",
+    ]);
+  });
+
+  it("falls back to manifest data types without a catalog and skips package models unless asked", () => {
+    const plan = parseDbtProject(manifest);
+
+    expect(plan.objects[0].columns.map((column) => column.type)).toEqual([null, "VARCHAR(320)"]);
+    expect(plan.warnings).toContainEqual(expect.stringContaining("add catalog.json"));
+    expect(parseDbtProject(manifest, undefined, { includePackages: true }).objects.map((object) => object.name)).toContain(
+      "calendar",
+    );
+    expect(() => parseDbtProject({ metadata: {} })).toThrow("nodes section is required");
+  });
+});
@@ -0,0 +1,101 @@
+import { unzipSync, strFromU8 } from "fflate";
+import { describe, expect, it } from "vitest";
+import { buildDbtScaffold, packDbtScaffold, toSnakeCase, toYaml } from "../server/services/dbtScaffold";
+
+const input = {
+  projectName: "Sales Mart",
+  sourceName: "Sales DB",
+  objects: [
+    { id: 1, name: "Customer", description: "People who buy things" },
+    { id: 2, name: "OrderLine", description: null },
+  ],
+  attributes: [
+    { id: 10, objectId: 1, name: "CustomerId", physicalType: "INTEGER", isPrimaryKey: true, nullable: false, orderIndex: 0 },
+    { id: 11, objectId: 1, name: "email", physicalType: "VARCHAR(320)", nullable: false, orderIndex: 1, description: "Login: e-mail" },
+    { id: 20, objectId: 2, name: "order_id", physicalType: "INTEGER", isPrimaryKey: true, orderIndex: 0 },
+    { id: 21, objectId: 2, name: "line_no", physicalType: "INTEGER", isPrimaryKey: true, orderIndex: 1 },
+    { id: 22, objectId: 2, name: "Customer Ref", physicalType: "INTEGER", nullable: true, orderIndex: 2 },
+  ],
+  // Relationships use layer ids, distinct from the data object and attribute ids above
+  relationships: [
+    { sourceModelObjectId: 502, targetModelObjectId: 501, sourceAttributeId: 622, targetAttributeId: 610, type: "N:1" },
+    // Ends on a layer-only attribute get no test
+    { sourceModelObjectId: 502, targetModelObjectId: 501, sourceAttributeId: 699, targetAttributeId: 610, type: "N:1" },
+  ],
+  idMap: {
+    modelObjects: [
+      { id: 501, objectId: 1 },
+      { id: 502, objectId: 2 },
+    ],
+    modelAttributes: [
+      { id: 610, attributeId: 10 },
+      { id: 622, attributeId: 22 },
+      { id: 699, attributeId: null },
+    ],
+  },
+};
+
+describe("dbt scaffold export", () => {
+  it("derives tests from keys, nullability and relationships", () => {
+    const files = buildDbtScaffold(input);
+    expect(files.map((file) => file.path)).toEqual([
+      "dbt_project.yml",
+      "models/staging/sources.yml",
+      "models/staging/schema.yml",
+      "models/staging/stg_sales_db__customer.sql",
+      "models/staging/stg_sales_db__order_line.sql",
+    ]);
+
+    const schema = files.find((file) => file.path === "models/staging/schema.yml")!.content;
+    expect(schema).toContain(
+      [
+        "  - name: stg_sales_db__customer",
+        "    description: People who buy things",
+        "    columns:",
+        "      - name: customer_id",
+        "        data_tests:",
+        "          - not_null",
+        "          - unique",
+        "      - name: email",
+        '        description: "Login: e-mail"',
+        "        data_tests:",
+        "          - not_null",
+      ].join("\n"),
+    );
+    // Composite key columns are not unique on their own
+    expect(schema).toContain(["      - name: line_no", "        data_tests:", "          - not_null", "      - name: customer_ref"].join("\n"));
+    expect(schema).toContain(
+      [
+        "      - name: customer_ref",
+        "        data_tests:",
+        "          - relationships:",
+        "              to: \"ref('stg_sales_db__customer')\"",
+        "              field: customer_id",
+      ].join("\n"),
+    );
+  });
+
+  it("renames columns to snake_case in the staging SQL", () => {
+    const sql = buildDbtScaffold(input).find((file) => file.path.endsWith("stg_sales_db__order_line.sql"))!.content;
+
+    expect(sql).toContain('select * from {{ source("sales_db", "OrderLine") }}');
+    expect(sql).toContain(
+      ["        order_id,", "        line_no,", '        {{ adapter.quote("Customer Ref") }} as customer_ref'].join("\n"),
+    );
+  });
+
+  it("zips the files under a folder named after the project", () => {
+    const archive = unzipSync(packDbtScaffold(input.projectName, buildDbtScaffold(input)));
+
+    expect(Object.keys(archive)).toContain("sales_mart/models/staging/schema.yml");
+    expect(strFromU8(archive["sales_mart/dbt_project.yml"])).toContain("name: sales_mart\n");
+  });
+
+  it("quotes YAML scalars only when needed", () => {
+    expect(toYaml({ a: "plain text", b: "yes", c: "1.0", d: "multi\nline", e: [], f: null })).toBe(
+      'a: plain text\nb: "yes"\nc: "1.0"\nd: "multi\\nline"\ne: []\nf: null\n',
+    );
+    expect(toSnakeCase("HTTPRequestLog")).toBe("http_request_log");
+    expect(toSnakeCase("2024 Sales")).toBe("_2024_sales");
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+import { parseDDL } from "../server/services/ddlParser";
+
+const table = (result: ReturnType<typeof parseDDL>, name: string) => {
+  const found = result.tables.find((candidate) => candidate.name === name);
+  if (!found) throw new Error(`Table ${name} was not parsed`);
+  return found;
+};
+
+describe("DDL parser", () => {
+  it("parses PostgreSQL dumps with table-level keys and ALTER TABLE constraints", () => {
+    const result = parseDDL(`
+      -- pg_dump output
+      SET statement_timeout = 0;
+      SELECT pg_catalog.set_config('search_path', '', false);
+      CREATE TABLE public.customers (
+          id integer NOT NULL,
+          email character varying(255) NOT NULL,
+          credit_limit numeric(12,2) DEFAULT 0.00,
+          created_at timestamp(3) with time zone DEFAULT now() NOT NULL,
+          tags text[],
+          status character varying(20) DEFAULT 'active'::character varying
+      );
+      CREATE TABLE public.orders (
+          id bigint GENERATED ALWAYS AS IDENTITY,
+          customer_id integer,
+          /* a comment with ; inside */
+          total numeric(10, 2),
+          CONSTRAINT orders_pkey PRIMARY KEY (id),
+          CONSTRAINT orders_total_check CHECK ((total >= (0)::numeric))
+      );
+      ALTER TABLE ONLY public.customers ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+      ALTER TABLE ONLY public.customers ALTER COLUMN id SET DEFAULT nextval('public.customers_id_seq'::regclass);
+      ALTER TABLE ONLY public.orders
+          ADD CONSTRAINT orders_customer_fk FOREIGN KEY (customer_id) REFERENCES public.customers(id) ON DELETE SET NULL;
+      CREATE UNIQUE INDEX customers_email_key ON public.customers USING btree (email);
+    `);
+
+    expect(result.unparsedStatements).toEqual([]);
+    const customers = table(result, "customers");
+    expect(customers.schema).toBe("public");
+    expect(customers.columns).toEqual([
+      expect.objectContaining({
+        name: "id",
+        type: "INTEGER",
+        nullable: false,
+        isPrimaryKey: true,
+        defaultValue: "nextval('public.customers_id_seq'::regclass)",
+      }),
+      expect.objectContaining({ name: "email", type: "CHARACTER VARYING(255)", length: 255, nullable: false }),
+      expect.objectContaining({ name: "credit_limit", type: "NUMERIC(12,2)", precision: 12, scale: 2, defaultValue: "0.00" }),
+      expect.objectContaining({ name: "created_at", type: "TIMESTAMP(3) WITH TIME ZONE", precision: 3, defaultValue: "now()" }),
+      expect.objectContaining({ name: "tags", type: "TEXT[]" }),
+      expect.objectContaining({ name: "status", defaultValue: "'active'::character varying", length: 20 }),
+    ]);
+
+    const orders = table(result, "orders");
+    expect(orders.columns.find((column) => column.name === "id")).toMatchObject({ isPrimaryKey: true, nullable: false });
+    expect(orders.columns.find((column) => column.name === "total")).toMatchObject({ precision: 10, scale: 2 });
+    expect(orders.foreignKeys).toEqual([
+      {
+        constraintName: "orders_customer_fk",
+        columns: ["customer_id"],
+        referencedTable: "customers",
+        referencedSchema: "public",
+        referencedColumns: ["id"],
+        deleteRule: "SET NULL",
+        relationshipType: "N:1",
+      },
+    ]);
+  });
+
+  it("parses SQL Server scripts with bracketed names, GO batches and WITH CHECK constraints", () => {
+    const result = parseDDL(`
+SET ANSI_NULLS ON
+GO
+CREATE TABLE [dbo].[Order Lines](
+	[OrderId] [int] NOT NULL,
+	[LineNo] [smallint] NOT NULL,
+	[Amount] [decimal](18, 4) NULL CONSTRAINT [DF_Amount] DEFAULT ((0)),
+	[Note] [nvarchar](max) NULL,
+	[Total] AS ([Amount] * 2),
+ CONSTRAINT [PK_OrderLines] PRIMARY KEY CLUSTERED ([OrderId] ASC, [LineNo] ASC)
+ WITH (PAD_INDEX = OFF) ON [PRIMARY]
+) ON [PRIMARY] TEXTIMAGE_ON [PRIMARY]
+GO
+CREATE TABLE [dbo].[Orders]([Id] [int] IDENTITY(1,1) NOT NULL PRIMARY KEY, [PlacedAt] [datetime2](7) NOT NULL)
+GO
+ALTER TABLE [dbo].[Order Lines] WITH CHECK ADD CONSTRAINT [FK_Lines_Orders] FOREIGN KEY([OrderId])
+REFERENCES [dbo].[Orders] ([Id])
+GO
+ALTER TABLE [dbo].[Order Lines] CHECK CONSTRAINT [FK_Lines_Orders]
+GO
+ALTER TABLE [dbo].[Orders] ADD CONSTRAINT [DF_PlacedAt] DEFAULT (sysutcdatetime()) FOR [PlacedAt]
+GO
+EXEC sys.sp_addextendedproperty @name=N'MS_Description', @value=N'Order lines'
+GO
+`);
+
+    const lines = table(result, "Order Lines");
+    expect(lines.schema).toBe("dbo");
+    expect(lines.columns.map((column) => [column.name, column.type, column.isPrimaryKey])).toEqual([
+      ["OrderId", "INT", true],
+      ["LineNo", "SMALLINT", true],
+      ["Amount", "DECIMAL(18,4)", false],
+      ["Note", "NVARCHAR(max)", false],
+      ["Total", "COMPUTED", false],
+    ]);
+    expect(lines.columns[2]).toMatchObject({ precision: 18, scale: 4, defaultValue: "((0))", nullable: true });
+    expect(lines.columns[3].length).toBeUndefined();
+    expect(lines.foreignKeys?.[0]).toMatchObject({
+      constraintName: "FK_Lines_Orders",
+      referencedTable: "Orders",
+      referencedColumns: ["Id"],
+    });
+    expect(table(result, "Orders").columns[1]).toMatchObject({ type: "DATETIME2(7)", defaultValue: "(sysutcdatetime())" });
+
+    expect(result.unparsedStatements).toEqual([
+      expect.objectContaining({ line: 23, reason: "Procedural statements are not imported" }),
+    ]);
+  });
+
+  it("parses MySQL dumps with backticks, inline keys and table options", () => {
+    const result = parseDDL(`
+/*!40101 SET NAMES utf8mb4 */;
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` int(11) unsigned NOT NULL AUTO_INCREMENT,
+  \`role\` enum('admin','member') NOT NULL DEFAULT 'member',
+  \`updated_at\` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`uk_role\` (\`role\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+CREATE TABLE \`profiles\` (
+  \`user_id\` int(11) unsigned NOT NULL,
+  \`bio\` varchar(500) COMMENT 'free text',
+  KEY \`idx_user\` (\`user_id\`),
+  CONSTRAINT \`fk_profile_user\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE ON UPDATE CASCADE
+) ENGINE=InnoDB;
+DELIMITER ;;
+CREATE TRIGGER \`touch\` BEFORE UPDATE ON \`users\` FOR EACH ROW BEGIN SET NEW.updated_at = NOW(); END ;;
+DELIMITER ;
+ALTER TABLE \`profiles\` ADD PRIMARY KEY (\`user_id\`);
+`);
+
+    const users = table(result, "users");
+    expect(users.columns.map((column) => column.type)).toEqual([
+      "INT(11) UNSIGNED",
+      "ENUM('admin','member')",
+      "TIMESTAMP",
+    ]);
+    expect(users.columns[1].defaultValue).toBe("'member'");
+    expect(users.columns[2].defaultValue).toBe("CURRENT_TIMESTAMP");
+
+    const profiles = table(result, "profiles");
+    expect(profiles.columns[1]).toMatchObject({ length: 500, nullable: true });
+    // user_id became the primary key, so the profile is one-to-one with its user
+    expect(profiles.foreignKeys?.[0]).toMatchObject({
+      updateRule: "CASCADE",
+      deleteRule: "CASCADE",
+      relationshipType: "1:1",
+    });
+    expect(result.unparsedStatements).toEqual([
+      expect.objectContaining({ reason: "CREATE TRIGGER statements are not imported" }),
+    ]);
+  });
+
+  it("parses Oracle scripts with quoted names, MODIFY and slash separators", () => {
+    const result = parseDDL(`
+CREATE TABLE "HR"."DEPARTMENTS" (
+  "DEPARTMENT_ID" NUMBER(4,0) NOT NULL,
+  "NAME" VARCHAR2(30 CHAR),
+  CONSTRAINT "DEPT_ID_PK" PRIMARY KEY ("DEPARTMENT_ID") USING INDEX TABLESPACE users
+) TABLESPACE users;
+
+CREATE TABLE hr.employees (
+  employee_id NUMBER(6) PRIMARY KEY,
+  department_id NUMBER(4) REFERENCES hr.departments,
+  hired TIMESTAMP WITH LOCAL TIME ZONE DEFAULT SYSTIMESTAMP,
+  salary NUMBER(*,2)
+);
+
+ALTER TABLE hr.employees MODIFY (salary NOT NULL, hired TIMESTAMP(6));
+ALTER TABLE hr.employees ADD (email VARCHAR2(80));
+
+CREATE OR REPLACE PROCEDURE raise_salary(p_id NUMBER) AS
+BEGIN
+  UPDATE hr.employees SET salary = salary * 1.1 WHERE employee_id = p_id;
+  IF SQL%ROWCOUNT = 0 THEN
+    NULL;
+  END IF;
+END;
+/
+CREATE VIEW hr.emp_v AS SELECT * FROM hr.employees;
+`);
+
+    const employees = table(result, "employees");
+    expect(employees.columns.map((column) => column.name)).toEqual([
+      "employee_id",
+      "department_id",
+      "hired",
+      "salary",
+      "email",
+    ]);
+    expect(employees.columns[2]).toMatchObject({ type: "TIMESTAMP(6)", precision: 6, defaultValue: "SYSTIMESTAMP" });
+    expect(employees.columns[3]).toMatchObject({ nullable: false, precision: undefined, scale: 2 });
+    expect(employees.foreignKeys?.[0]).toMatchObject({
+      constraintName: "fk_employees_department_id",
+      referencedSchema: "hr",
+      referencedTable: "departments",
+      referencedColumns: ["DEPARTMENT_ID"],
+    });
+    expect(table(result, "DEPARTMENTS").columns[1]).toMatchObject({ type: "VARCHAR2(30 CHAR)", length: 30 });
+    expect(result.unparsedStatements.map((issue) => issue.reason)).toEqual([
+      "CREATE PROCEDURE statements are not imported",
+      "CREATE VIEW statements are not imported",
+    ]);
+  });
+
+  it("reports statements it cannot understand and keeps the rest", () => {
+    const result = parseDDL(`
+      CREATE TABLE a (id INT PRIMARY KEY);
+      ALTER TABLE missing ADD COLUMN x INT;
+      CREATE TABLE b AS SELECT * FROM a;
+      CREATE TABLE c (id INT, CONSTRAINT fk FOREIGN KEY (nope) REFERENCES a (id));
+      FROBNICATE everything;
+    `);
+
+    expect(result.tables.map((candidate) => candidate.name)).toEqual(["a"]);
+    expect(result.unparsedStatements).toEqual([
+      { line: 3, statement: "ALTER TABLE missing ADD COLUMN x INT", reason: "Table missing is not defined earlier in the script" },
+      { line: 4, statement: "CREATE TABLE b AS SELECT * FROM a", reason: "CREATE TABLE b does not list its columns" },
+      expect.objectContaining({ line: 5, reason: "Foreign key column nope does not exist on c" }),
+      expect.objectContaining({ line: 6, reason: "Unrecognized statement" }),
+    ]);
+  });
+
+  it("resolves REFERENCES without columns to the parent's primary key, defined before or after", () => {
+    const result = parseDDL(`
+      CREATE TABLE emp (id INT PRIMARY KEY, dept_id INT REFERENCES dept, region_code INT REFERENCES region);
+      CREATE TABLE dept (id INT PRIMARY KEY, name VARCHAR(40));
+      CREATE TABLE region (code INT, name VARCHAR(40));
+      CREATE TABLE shift (emp_id INT, day DATE, PRIMARY KEY (emp_id, day));
+      CREATE TABLE rota (shift_emp_id INT REFERENCES shift, manager_id INT REFERENCES manager);
+    `);
+
+    const emp = result.tables.find((candidate) => candidate.name === "emp");
+    expect(emp?.foreignKeys).toEqual([
+      expect.objectContaining({ columns: ["dept_id"], referencedTable: "dept", referencedColumns: ["id"] }),
+    ]);
+    expect(result.tables.find((candidate) => candidate.name === "rota")?.foreignKeys).toEqual([]);
+    expect(result.unparsedStatements).toEqual([
+      expect.objectContaining({
+        line: 2,
+        reason: "Foreign key fk_emp_region_code does not list the columns it references and region has no primary key",
+      }),
+      expect.objectContaining({
+        line: 6,
+        reason: "Foreign key fk_rota_shift_emp_id does not list the columns it references and the primary key of shift has 2 columns",
+      }),
+      expect.objectContaining({
+        line: 6,
+        reason: "Foreign key fk_rota_manager_id does not list the columns it references and manager is not defined in the script",
+      }),
+    ]);
+  });
+});
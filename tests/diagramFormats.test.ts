@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { renderDbml, renderMermaidErDiagram, renderPlantUml, type DiagramInput } from "../server/services/diagramFormats";
+import { parseDbml } from "../server/services/dbmlParser";
+
+const input: DiagramInput = {
+  title: "Sales",
+  layer: "physical",
+  objects: [
+    { id: 1, name: "Customer", description: "People who buy things" },
+    { id: 2, name: "Order Line", description: null },
+  ],
+  attributes: [
+    { id: 10, objectId: 1, name: "id", physicalType: "INTEGER", logicalType: "Identifier", isPrimaryKey: true, nullable: false, orderIndex: 0 },
+    { id: 11, objectId: 1, name: "email", physicalType: "VARCHAR(320)", nullable: false, orderIndex: 1, description: "Login" },
+    { id: 20, objectId: 2, name: "order_id", physicalType: "INTEGER", isPrimaryKey: true, orderIndex: 0 },
+    { id: 21, objectId: 2, name: "line_no", physicalType: "INTEGER", isPrimaryKey: true, orderIndex: 1 },
+    { id: 22, objectId: 2, name: "customer_id", physicalType: "INTEGER", isForeignKey: true, nullable: true, orderIndex: 2 },
+  ],
+  relationships: [{ sourceModelObjectId: 2, targetModelObjectId: 1, sourceAttributeId: 22, targetAttributeId: 10, type: "N:1" }],
+};
+
+describe("diagram exports", () => {
+  it("renders DBML with single and composite keys and refs", () => {
+    const dbml = renderDbml(input);
+
+    expect(dbml).toContain(
+      ["Table Customer {", "  id INTEGER [pk]", "  email VARCHAR(320) [not null, note: 'Login']", "", "  Note: 'People who buy things'", "}"].join(
+        "\n",
+      ),
+    );
+    expect(dbml).toContain(["  indexes {", "    (order_id, line_no) [pk]", "  }"].join("\n"));
+    expect(dbml).toContain('Ref: "Order Line".customer_id > Customer.id');
+    expect(renderDbml({ ...input, layer: "logical" })).toContain("  id Identifier [pk]");
+  });
+
+  it("round-trips through the DBML parser", () => {
+    const parsed = parseDbml(renderDbml(input));
+
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.tables.map((table) => table.name)).toEqual(["Customer", "Order Line"]);
+    expect(parsed.tables[1].columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual([
+      "order_id",
+      "line_no",
+    ]);
+    expect(parsed.tables[0].columns[1]).toMatchObject({ type: "VARCHAR(320)", length: 320, nullable: false, note: "Login" });
+    expect(parsed.refs).toEqual([
+      { fromTable: "Order Line", fromColumns: ["customer_id"], toTable: "Customer", toColumns: ["id"], type: "N:1" },
+    ]);
+  });
+
+  it("renders a Mermaid erDiagram with key markers and crow's foot cardinality", () => {
+    const mermaid = renderMermaidErDiagram(input);
+
+    expect(mermaid.startsWith("---\ntitle: Sales\n---\nerDiagram\n")).toBe(true);
+    expect(mermaid).toContain('    Order_Line["Order Line"] {');
+    expect(mermaid).toContain("        INTEGER id PK");
+    expect(mermaid).toContain('        VARCHAR(320) email "Login"');
+    expect(mermaid).toContain("        INTEGER customer_id FK");
+    // The nullable foreign key makes the customer optional
+    expect(mermaid).toContain('    Order_Line }o--o| Customer : "customer_id"');
+  });
+
+  it("renders PlantUML entities with mandatory markers and stereotypes", () => {
+    const plantUml = renderPlantUml({ ...input, includeForeignKeys: false });
+
+    expect(plantUml).toContain(
+      ['entity "Customer" as Customer {', "  * id : INTEGER <<PK>>", "  --", "  * email : VARCHAR(320)", "}"].join("\n"),
+    );
+    expect(plantUml).toContain("  customer_id : INTEGER\n");
+    expect(plantUml).not.toContain("}o--");
+    expect(plantUml.trim().endsWith("@enduml")).toBe(true);
+  });
+});
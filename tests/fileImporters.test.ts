@@ -0,0 +1,154 @@
+import Database from "better-sqlite3";
+import { parquetWriteBuffer } from "hyparquet-writer";
+import writeXlsxFile from "write-excel-file/node";
+import { describe, expect, it } from "vitest";
+import { DataConnectors } from "../server/services/dataConnectors";
+
+const connectors = new DataConnectors();
+
+describe("Excel import", () => {
+  it("returns one table per populated worksheet with inferred types", async () => {
+    const buffer = await writeXlsxFile([
+      {
+        sheet: "Customers",
+        data: [
+          ["customer_id", "name", "active", "signed_up"],
+          [1, "Acme", true, { value: new Date(Date.UTC(2024, 0, 15)), format: "yyyy-mm-dd" }],
+          [2, "Globex", false, null],
+        ],
+      },
+      {
+        sheet: "Prices",
+        data: [
+          ["sku", "amount"],
+          ["A-1", 9.5],
+        ],
+      },
+    ]).toBuffer();
+
+    const tables = await connectors.parseExcelFile(buffer);
+
+    expect(tables.map((table) => [table.name, table.rowCount])).toEqual([
+      ["Customers", 2],
+      ["Prices", 1],
+    ]);
+    expect(tables[0].columns).toEqual([
+      { name: "customer_id", type: "INTEGER", nullable: false, isPrimaryKey: false, length: undefined },
+      { name: "name", type: "VARCHAR", nullable: false, isPrimaryKey: false, length: 6 },
+      { name: "active", type: "BOOLEAN", nullable: false, isPrimaryKey: false, length: undefined },
+      { name: "signed_up", type: "DATE", nullable: true, isPrimaryKey: false, length: undefined },
+    ]);
+    expect(tables[1].columns[1].type).toBe("DECIMAL");
+  });
+
+  it("rejects buffers that are not workbooks", async () => {
+    await expect(connectors.parseExcelFile(Buffer.from("not a workbook"))).rejects.toThrow(
+      /^Failed to parse Excel file: /,
+    );
+  });
+});
+
+describe("Parquet import", () => {
+  it("reads logical types, nullability and the footer row count", async () => {
+    const arrayBuffer = parquetWriteBuffer({
+      columnData: [
+        { name: "order_id", data: new BigInt64Array([1n, 2n, 3n]), type: "INT64", nullable: false },
+        { name: "customer", data: ["a", "b", null], type: "STRING" },
+        { name: "placed_at", data: [new Date(), new Date(), new Date()], type: "TIMESTAMP" },
+        { name: "paid", data: [true, false, true], type: "BOOLEAN" },
+      ],
+    });
+
+    const table = await connectors.parseParquetFile(Buffer.from(arrayBuffer), "orders");
+
+    expect(table.name).toBe("orders");
+    expect(table.rowCount).toBe(3);
+    expect(table.columns.map(({ name, type, nullable }) => [name, type, nullable])).toEqual([
+      ["order_id", "BIGINT", false],
+      ["customer", "STRING", true],
+      ["placed_at", expect.stringMatching(/^TIMESTAMP/), true],
+      ["paid", "BOOLEAN", true],
+    ]);
+    expect(table.columns[0].profile).toBeUndefined();
+  });
+
+  it("profiles the leading rows when asked", async () => {
+    const arrayBuffer = parquetWriteBuffer({
+      columnData: [
+        { name: "order_id", data: new BigInt64Array([1n, 2n, 3n, 4n]), type: "INT64", nullable: false },
+        { name: "status", data: ["open", "open", null, "shipped"], type: "STRING" },
+      ],
+    });
+
+    const table = await connectors.parseParquetFile(Buffer.from(arrayBuffer), "orders", {
+      profile: true,
+      sampleRowLimit: 3,
+    });
+
+    expect(table.rowCount).toBe(4);
+    expect(table.columns[0].profile).toMatchObject({ sampleSize: 3, distinctCount: 3, min: 1, max: 3 });
+    expect(table.columns[1].profile).toMatchObject({ nullCount: 1, topValues: [{ value: "open", count: 2 }] });
+  });
+});
+
+describe("SQLite import", () => {
+  it("extracts tables, keys and row counts from the database file", async () => {
+    const source = new Database(":memory:");
+    source.exec(`
+      CREATE TABLE region (code TEXT, country TEXT, name VARCHAR(80) NOT NULL, PRIMARY KEY (code, country));
+      CREATE TABLE customer (id INTEGER PRIMARY KEY, name VARCHAR(120) NOT NULL, notes);
+      CREATE TABLE store (
+        id INTEGER PRIMARY KEY,
+        owner_id INTEGER REFERENCES customer ON DELETE CASCADE,
+        region_code TEXT,
+        region_country TEXT,
+        FOREIGN KEY (region_code, region_country) REFERENCES region (code, country)
+      );
+      INSERT INTO customer (name) VALUES ('Acme'), ('Globex');
+      INSERT INTO store (owner_id) VALUES (1);
+    `);
+    const buffer = source.serialize();
+    source.close();
+
+    const tables = await connectors.parseSQLiteFile(buffer);
+
+    expect(tables.map((table) => [table.name, table.rowCount])).toEqual([
+      ["customer", 2],
+      ["region", 0],
+      ["store", 1],
+    ]);
+    expect(tables[0].columns).toEqual([
+      { name: "id", type: "INTEGER", nullable: false, isPrimaryKey: true, length: undefined },
+      { name: "name", type: "VARCHAR(120)", nullable: false, isPrimaryKey: false, length: 120 },
+      { name: "notes", type: "BLOB", nullable: true, isPrimaryKey: false, length: undefined },
+    ]);
+    expect(tables[1].columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual([
+      "code",
+      "country",
+    ]);
+
+    const storeKeys = tables[2].foreignKeys ?? [];
+    expect(storeKeys).toHaveLength(2);
+    expect(storeKeys).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          columns: ["owner_id"],
+          referencedTable: "customer",
+          referencedColumns: ["id"],
+          deleteRule: "CASCADE",
+        }),
+        expect.objectContaining({
+          columns: ["region_code", "region_country"],
+          referencedTable: "region",
+          referencedColumns: ["code", "country"],
+        }),
+      ]),
+    );
+  });
+
+  it("rejects buffers that are not SQLite databases", async () => {
+    await expect(connectors.parseSQLiteFile(Buffer.from("definitely not sqlite"))).rejects.toThrow(
+      /^Failed to parse SQLite file: /,
+    );
+  });
+});
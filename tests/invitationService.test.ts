@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Invitation, Membership } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { InvitationService } from "../server/services/invitationService";
+import type { EmailMessage } from "../server/services/emailSender";
+
+const now = new Date("2024-01-01T00:00:00Z");
+
+function createStore() {
+  const invitations: Invitation[] = [];
+  const memberships: Membership[] = [
+    { id: 1, userId: 1, organizationId: 7, role: "admin", invitedByUserId: null, createdAt: now, updatedAt: now },
+  ];
+  const users = [
+    { id: 1, email: "owner@example.com", name: "Owner", isActive: true },
+    { id: 2, email: "casey@example.com", name: "Casey", isActive: true },
+  ];
+  const activeOrganization = new Map<number, number>();
+  const sent: EmailMessage[] = [];
+
+  const store = {
+    getOrganization: async (id: number) => ({ id, name: "Acme", slug: "acme", createdAt: now, updatedAt: now }),
+    getUserByEmail: async (email: string) => users.find((user) => user.email === email),
+    setUserActiveOrganization: async (userId: number, organizationId: number) => {
+      activeOrganization.set(userId, organizationId);
+    },
+    getOrganizationMembers: async (organizationId: number) =>
+      memberships
+        .filter((membership) => membership.organizationId === organizationId)
+        .map((membership) => ({
+          membershipId: membership.id,
+          userId: membership.userId,
+          email: users.find((user) => user.id === membership.userId)!.email,
+          name: null,
+          role: membership.role,
+          isActive: true,
+          joinedAt: membership.createdAt,
+        })),
+    getMembership: async (organizationId: number, userId: number) =>
+      memberships.find((membership) => membership.organizationId === organizationId && membership.userId === userId),
+    createMembership: async (input: any) => {
+      const membership = { ...input, id: memberships.length + 1, createdAt: now, updatedAt: now } as Membership;
+      memberships.push(membership);
+      return membership;
+    },
+    updateMembershipRole: async (organizationId: number, userId: number, role: string) => {
+      const membership = memberships.find(
+        (item) => item.organizationId === organizationId && item.userId === userId,
+      );
+      if (membership) {
+        membership.role = role;
+      }
+      return membership;
+    },
+    deleteMembership: async (organizationId: number, userId: number) => {
+      const index = memberships.findIndex(
+        (item) => item.organizationId === organizationId && item.userId === userId,
+      );
+      memberships.splice(index, 1);
+    },
+    getPendingInvitations: async (organizationId: number) =>
+      invitations.filter((invitation) => invitation.organizationId === organizationId && !invitation.accepted),
+    getInvitation: async (organizationId: number, id: number) =>
+      invitations.find((invitation) => invitation.id === id && invitation.organizationId === organizationId),
+    getInvitationByToken: async (token: string) => invitations.find((invitation) => invitation.token === token),
+    createInvitation: async (input: any) => {
+      const invitation = { ...input, id: invitations.length + 1, createdAt: now, updatedAt: now } as Invitation;
+      invitations.push(invitation);
+      return invitation;
+    },
+    updateInvitation: async (id: number, patch: Partial<Invitation>) => {
+      const invitation = invitations.find((item) => item.id === id)!;
+      Object.assign(invitation, patch);
+      return invitation;
+    },
+    deleteInvitation: async () => undefined,
+  };
+
+  const sender = { send: async (message: EmailMessage) => void sent.push(message) };
+  const service = new InvitationService(store as any, () => sender);
+  return { service, invitations, memberships, activeOrganization, sent };
+}
+
+describe("invitation service", () => {
+  it("emails an accept link and hides the token from the response", async () => {
+    const { service, invitations, sent } = createStore();
+
+    const result = await service.inviteMember(7, { email: " Casey@Example.com ", role: "modeler" }, 1, "https://app.test/");
+
+    expect(invitations[0].email).toBe("casey@example.com");
+    expect(result.invitation).not.toHaveProperty("token");
+    expect(result).not.toHaveProperty("acceptUrl");
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("casey@example.com");
+    expect(sent[0].text).toContain(`https://app.test/auth/register?invite=${invitations[0].token}`);
+
+    await expect(service.inviteMember(7, { email: "casey@example.com", role: "modeler" }, 1, "https://app.test")).rejects.toThrow(
+      "already exists",
+    );
+    await expect(service.inviteMember(7, { email: "owner@example.com", role: "admin" }, 1, "https://app.test")).rejects.toThrow(
+      "already exists",
+    );
+  });
+
+  it("accepts an invitation for the invited account only", async () => {
+    const { service, invitations, memberships, activeOrganization } = createStore();
+    await service.inviteMember(7, { email: "casey@example.com", role: "admin" }, 1, "https://app.test");
+    const token = invitations[0].token;
+
+    await expect(service.acceptInvitation(token, { id: 1, email: "owner@example.com" })).rejects.toThrow(
+      "must be accepted by the invited email",
+    );
+
+    const membership = await service.acceptInvitation(token, { id: 2, email: "casey@example.com" });
+
+    expect(membership).toMatchObject({ organizationId: 7, userId: 2, role: "admin", invitedByUserId: 1 });
+    expect(memberships).toHaveLength(2);
+    expect(invitations[0].accepted).toBe(true);
+    expect(activeOrganization.get(2)).toBe(7);
+    await expect(service.acceptInvitation(token, { id: 2, email: "casey@example.com" })).rejects.toThrow(
+      "invalid or has expired",
+    );
+  });
+
+  it("rejects expired invitations", async () => {
+    const { service, invitations } = createStore();
+    await service.inviteMember(7, { email: "casey@example.com", role: "modeler" }, 1, "https://app.test");
+    invitations[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.resolveInvitation(invitations[0].token)).rejects.toThrow("invalid or has expired");
+  });
+
+  it("keeps at least one admin in the organization", async () => {
+    const { service, memberships } = createStore();
+
+    await expect(service.changeMemberRole(7, 1, "modeler")).rejects.toThrow("At least one admin is required");
+    await expect(service.removeMember(7, 1)).rejects.toThrow("At least one admin is required");
+    await expect(service.changeMemberRole(7, 1, "owner")).rejects.toThrow("Role must be one of");
+
+    memberships.push({ id: 2, userId: 2, organizationId: 7, role: "admin", invitedByUserId: 1, createdAt: now, updatedAt: now });
+    await service.changeMemberRole(7, 1, "modeler");
+    expect(memberships[0].role).toBe("modeler");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  contractFieldName,
+  contractNamespace,
+  renderAvroSchema,
+  renderJsonSchema,
+  renderProtobuf,
+  type ContractInput,
+} from "../server/services/messageContracts";
+
+const input: ContractInput = {
+  namespace: "com.acme.Sales Orders",
+  objects: [
+    { id: 1, name: "customer", description: "People who buy things" },
+    { id: 2, name: "Order Line", description: null },
+    { id: 3, name: "Product", description: null },
+  ],
+  attributes: [
+    { id: 10, objectId: 1, name: "CustomerId", logicalType: "BIGINT", isPrimaryKey: true, nullable: false, orderIndex: 0 },
+    { id: 11, objectId: 1, name: "email", conceptualType: "Email", logicalType: "VARCHAR(320)", nullable: true, orderIndex: 1, description: "Login" },
+    { id: 12, objectId: 1, name: "signed_up", logicalType: "TIMESTAMP", nullable: false, orderIndex: 2 },
+    { id: 20, objectId: 2, name: "line_no", logicalType: "INTEGER", isPrimaryKey: true, orderIndex: 0 },
+    { id: 21, objectId: 2, name: "customer_id", logicalType: "BIGINT", nullable: true, orderIndex: 1 },
+    { id: 22, objectId: 2, name: "amount", conceptualType: "Currency", logicalType: "DECIMAL(12,2)", nullable: false, orderIndex: 2 },
+    { id: 23, objectId: 2, name: "ship date", conceptualType: "Date", nullable: true, orderIndex: 3 },
+    { id: 30, objectId: 3, name: "sku", logicalType: "VARCHAR(20)", isPrimaryKey: true, orderIndex: 0 },
+  ],
+  relationships: [
+    { sourceModelObjectId: 2, targetModelObjectId: 1, sourceAttributeId: 21, targetAttributeId: 10, type: "N:1" },
+    { sourceModelObjectId: 2, targetModelObjectId: 3, type: "N:M" },
+  ],
+};
+
+describe("message contract exports", () => {
+  it("renders JSON Schema definitions with formats, nullability and nested references", () => {
+    const schema = JSON.parse(renderJsonSchema({ ...input, fieldCase: "camel" }));
+
+    expect(schema.$id).toBe("urn:com.acme.sales_orders");
+    expect(schema.$defs.Customer).toEqual({
+      type: "object",
+      title: "Customer",
+      description: "People who buy things",
+      properties: {
+        customerId: { type: "integer" },
+        email: { type: ["string", "null"], format: "email", maxLength: 320, description: "Login" },
+        signedUp: { type: "string", format: "date-time" },
+      },
+      required: ["customerId", "signedUp"],
+      additionalProperties: false,
+    });
+    expect(schema.$defs.OrderLine.properties).toMatchObject({
+      amount: { type: "number" },
+      shipDate: { type: ["string", "null"], format: "date" },
+      customer: { anyOf: [{ $ref: "#/$defs/Customer" }, { type: "null" }] },
+      products: { type: "array", items: { $ref: "#/$defs/Product" } },
+    });
+  });
+
+  it("renders Avro records with logical types, referenced records defined first", () => {
+    const [customer, product, orderLine] = JSON.parse(renderAvroSchema(input));
+
+    expect(customer).toMatchObject({ type: "record", name: "Customer", namespace: "com.acme.sales_orders", doc: "People who buy things" });
+    expect(customer.fields).toEqual([
+      { name: "CustomerId", type: "long" },
+      { name: "email", type: ["null", "string"], default: null, doc: "Login" },
+      { name: "signed_up", type: { type: "long", logicalType: "timestamp-millis" } },
+    ]);
+    expect(product.name).toBe("Product");
+    expect(orderLine.fields).toEqual([
+      { name: "line_no", type: "int" },
+      { name: "customer_id", type: ["null", "long"], default: null },
+      { name: "amount", type: { type: "bytes", logicalType: "decimal", precision: 12, scale: 2 } },
+      { name: "ship_date", type: ["null", { type: "int", logicalType: "date" }], default: null },
+      { name: "customer", type: ["null", "com.acme.sales_orders.Customer"], default: null },
+      { name: "Products", type: { type: "array", items: "com.acme.sales_orders.Product" }, default: [] },
+    ]);
+  });
+
+  it("inlines a record at first use when references form a cycle", () => {
+    const schemas = JSON.parse(
+      renderAvroSchema({
+        namespace: "hr",
+        objects: [
+          { id: 1, name: "Employee" },
+          { id: 2, name: "Department" },
+        ],
+        attributes: [
+          { id: 10, objectId: 1, name: "department_id", logicalType: "INTEGER", nullable: true },
+          { id: 20, objectId: 2, name: "manager_id", logicalType: "INTEGER", nullable: true },
+        ],
+        relationships: [
+          { sourceModelObjectId: 1, targetModelObjectId: 2, sourceAttributeId: 10, type: "N:1" },
+          { sourceModelObjectId: 2, targetModelObjectId: 1, sourceAttributeId: 20, type: "N:1" },
+        ],
+      }),
+    );
+
+    expect(schemas).toHaveLength(1);
+    expect(schemas[0].name).toBe("Department");
+    const employee = schemas[0].fields.find((field: { name: string }) => field.name === "manager").type[1];
+    expect(employee).toMatchObject({ type: "record", name: "Employee" });
+    expect(employee.fields[1]).toEqual({ name: "department", type: ["null", "hr.Department"], default: null });
+  });
+
+  it("renders proto3 messages with optional scalars and well-known types", () => {
+    const proto = renderProtobuf({ ...input, fieldCase: "snake" });
+
+    expect(proto).toContain('syntax = "proto3";\n\npackage com.acme.sales_orders;\n\nimport "google/protobuf/timestamp.proto";');
+    expect(proto).toContain(
+      [
+        "// People who buy things",
+        "message Customer {",
+        "  int64 customer_id = 1;",
+        "  // Login",
+        "  optional string email = 2;",
+        "  google.protobuf.Timestamp signed_up = 3;",
+        "}",
+      ].join("\n"),
+    );
+    expect(proto).toContain("  string amount = 3; // decimal(12,2)\n");
+    expect(proto).toContain("  optional string ship_date = 4; // ISO-8601 date\n");
+    expect(proto).toContain("  Customer customer = 5;\n  repeated Product products = 6;\n");
+  });
+
+  it("names fields and namespaces consistently", () => {
+    expect(contractFieldName("Ship Date", "camel")).toBe("shipDate");
+    expect(contractFieldName("Ship Date", "snake")).toBe("ship_date");
+    expect(contractFieldName("2nd line")).toBe("_2nd_line");
+    expect(contractNamespace("")).toBe("model");
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelComment, ModelCommentThread } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { extractMentionHandles, preferredMentionHandle, resolveMentions } from "../shared/comments";
+import { ModelCommentService } from "../server/services/modelComments";
+
+const members = [
+  { userId: 1, email: "ada@example.com", name: "Ada Lovelace" },
+  { userId: 2, email: "grace.hopper@example.com", name: "Grace Hopper" },
+  { userId: 3, email: "ada@other.org", name: null },
+];
+
+function createStore() {
+  const threads: ModelCommentThread[] = [];
+  const comments: ModelComment[] = [];
+  let clock = Date.parse("2026-05-01T09:00:00.000Z");
+  const tick = () => new Date((clock += 1000));
+
+  const store = {
+    getDataModelLayer: async (id: number) => (id === 7 || id === 8 ? { id } : undefined),
+    getDataModelObject: async (id: number) => ({ 10: { id: 10, modelId: 7 }, 11: { id: 11, modelId: 8 } } as any)[id],
+    getDataModelObjectAttribute: async (id: number) => (id === 40 ? { id, modelObjectId: 10 } : undefined),
+    getDataModelObjectRelationship: async (id: number) => (id === 5 ? { id, modelId: 7 } : undefined),
+    getOrganizationMembers: async () => members,
+    getCommentThreadsByLayer: async (layerId: number, status?: string) =>
+      threads
+        .filter((thread) => thread.modelId === layerId && (!status || thread.status === status))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+    getCommentThread: async (id: number) => threads.find((thread) => thread.id === id),
+    createCommentThread: async (input: any) => {
+      const now = tick();
+      const thread = { resolvedByUserId: null, resolvedAt: null, ...input, id: threads.length + 1, createdAt: now, updatedAt: now };
+      threads.push(thread);
+      return thread;
+    },
+    updateCommentThread: async (id: number, patch: Partial<ModelCommentThread>) => {
+      const thread = threads.find((item) => item.id === id)!;
+      Object.assign(thread, patch, { updatedAt: tick() });
+      return thread;
+    },
+    getCommentsByThreads: async (ids: number[]) => comments.filter((comment) => ids.includes(comment.threadId)),
+    createComment: async (input: any) => {
+      const now = tick();
+      const comment = { ...input, id: comments.length + 1, createdAt: now, updatedAt: now };
+      comments.push(comment);
+      return comment;
+    },
+  };
+
+  return { service: new ModelCommentService(store as any), threads };
+}
+
+describe("comment mentions", () => {
+  it("resolves @handles to organization members by email, local part or name", () => {
+    expect(extractMentionHandles("@Grace.Hopper please check, cc @ada@example.com. Mail bob@example.com")).toEqual([
+      "grace.hopper",
+      "ada@example.com",
+    ]);
+
+    const body = "@adalovelace and @grace.hopper: is this the right key? @ada is ambiguous, @nobody is unknown";
+    expect(resolveMentions(body, members).map((member) => member.userId)).toEqual([1, 2]);
+    expect(resolveMentions("@ada@other.org", members).map((member) => member.userId)).toEqual([3]);
+
+    expect(preferredMentionHandle(members[1], members)).toBe("grace.hopper");
+    expect(preferredMentionHandle(members[0], members)).toBe("ada@example.com");
+  });
+});
+
+describe("model comment service", () => {
+  const actor = { userId: 2, organizationId: 1 };
+
+  it("opens threads on items of the layer, records replies and mentions, and resolves them", async () => {
+    const { service } = createStore();
+
+    const thread = await service.createThread(7, { targetType: "attribute", targetId: 40, body: " Should this be a key, @adalovelace? " }, actor);
+    expect(thread).toMatchObject({ targetKey: "attribute:40", status: "open", createdByName: "Grace Hopper" });
+    expect(thread.comments).toEqual([
+      expect.objectContaining({ body: "Should this be a key, @adalovelace?", authorName: "Grace Hopper", mentions: [{ userId: 1, name: "Ada Lovelace" }] }),
+    ]);
+
+    const layerThread = await service.createThread(7, { targetType: "layer", targetId: 99, body: "Naming looks good overall" }, actor);
+    expect(layerThread).toMatchObject({ targetId: null, targetKey: "layer" });
+
+    const replied = await service.reply(thread.id, "Yes, it is the natural key", { userId: 1, organizationId: 1 });
+    expect(replied.comments.map((comment) => comment.authorName)).toEqual(["Grace Hopper", "Ada Lovelace"]);
+
+    const resolved = await service.setStatus(thread.id, "resolved", { userId: 1, organizationId: 1 });
+    expect(resolved).toMatchObject({ status: "resolved", resolvedByUserId: 1, resolvedByName: "Ada Lovelace" });
+    expect((await service.listThreads(7, 1, "open")).map((entry) => entry.id)).toEqual([layerThread.id]);
+
+    const reopened = await service.setStatus(thread.id, "open", actor);
+    expect(reopened).toMatchObject({ status: "open", resolvedByUserId: null, resolvedAt: null });
+    expect((await service.listThreads(7, 1)).map((entry) => entry.id)).toEqual([thread.id, layerThread.id]);
+  });
+
+  it("rejects anchors on other layers, missing targets and empty comments", async () => {
+    const { service, threads } = createStore();
+
+    await expect(service.createThread(7, { targetType: "object", targetId: 11, body: "Hi" }, actor)).rejects.toThrow(
+      "Object 11 not found on model layer 7",
+    );
+    await expect(service.createThread(7, { targetType: "relationship", body: "Hi" }, actor)).rejects.toThrow(
+      "targetId is required",
+    );
+    await expect(service.createThread(7, { targetType: "object", targetId: 10, body: "   " }, actor)).rejects.toThrow(
+      "Comment body is required",
+    );
+    await expect(service.createThread(9, { targetType: "layer", body: "Hi" }, actor)).rejects.toThrow("Model layer 9 not found");
+    await expect(service.reply(3, "Hi", actor)).rejects.toThrow("Comment thread 3 not found");
+    expect(threads).toHaveLength(0);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelLifecycleAssignment, ModelLifecyclePhase } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { DEFAULT_LIFECYCLE_PHASES, ModelLifecycleService } from "../server/services/modelLifecycle";
+
+function createStore() {
+  const phases: ModelLifecyclePhase[] = [];
+  const assignments: ModelLifecycleAssignment[] = [];
+  const now = new Date();
+
+  const store = {
+    getDataModel: async (id: number) => (id === 1 ? { id } : undefined),
+    getUser: async (id: number) => ({ id, name: id === 9 ? "Steward Sam" : "Modeler Mo", email: `user${id}@example.com` }),
+    getLifecyclePhases: async () => [...phases].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0)),
+    createLifecyclePhases: async (input: any[]) => {
+      input.forEach((phase) => {
+        phases.push({ ...phase, id: phases.length + 1, isActive: true, createdAt: now, updatedAt: now });
+      });
+    },
+    getModelLifecycleAssignments: async (modelId?: number) =>
+      assignments.filter((assignment) => modelId === undefined || assignment.modelId === modelId),
+    createModelLifecycleAssignment: async (input: any) => {
+      const assignment = {
+        completedAt: null,
+        approvedBy: null,
+        ...input,
+        id: assignments.length + 1,
+        createdAt: now,
+        updatedAt: now,
+      } as ModelLifecycleAssignment;
+      assignments.push(assignment);
+      return assignment;
+    },
+    updateModelLifecycleAssignment: async (id: number, patch: Partial<ModelLifecycleAssignment>) => {
+      const assignment = assignments.find((item) => item.id === id)!;
+      Object.assign(assignment, patch);
+      return assignment;
+    },
+  };
+
+  return { service: new ModelLifecycleService(store as any), assignments };
+}
+
+describe("model lifecycle service", () => {
+  it("seeds the default phases and starts models in the first one", async () => {
+    const { service } = createStore();
+
+    const phases = await service.listPhases();
+    expect(phases.map((phase) => phase.key)).toEqual(DEFAULT_LIFECYCLE_PHASES.map((phase) => phase.key));
+
+    const state = await service.transition(1, {}, 2);
+    expect(state.current?.phase?.key).toBe("ideate");
+    expect(state.current?.approvalStatus).toBe("not_required");
+    expect(state.nextPhase?.key).toBe("design");
+    expect(state.blockedReason).toBeNull();
+  });
+
+  it("blocks advancing out of a phase until its approval is recorded", async () => {
+    const { service } = createStore();
+    await service.transition(1, {}, 2);
+    const inDesign = await service.transition(1, {}, 2);
+
+    expect(inDesign.current?.approvalStatus).toBe("pending");
+    expect(inDesign.blockedReason).toContain("Design");
+    await expect(service.transition(1, {}, 2)).rejects.toThrow("Approval is required before leaving the Design phase");
+    await expect(service.recordDecision(1, "approved", null, 9)).rejects.toThrow("Approval must be requested");
+
+    await service.requestApproval(1, "Ready for review", 2);
+    const approved = await service.recordDecision(1, "approved", null, 9);
+    expect(approved.current?.approvedBy).toBe("Steward Sam");
+    expect(approved.blockedReason).toBeNull();
+
+    const inBuild = await service.transition(1, {}, 2);
+    expect(inBuild.current?.phase?.key).toBe("build");
+    expect(inBuild.history.map((assignment) => assignment.status)).toEqual(["completed", "completed", "in_progress"]);
+  });
+
+  it("allows returning to an earlier phase and flags overdue reviews", async () => {
+    const { service, assignments } = createStore();
+    await service.transition(1, {}, 2);
+    await service.transition(1, {}, 2);
+
+    const ideate = (await service.listPhases())[0];
+    const returned = await service.transition(1, { phaseId: ideate.id, notes: "Scope changed" }, 2);
+    expect(returned.current?.phase?.key).toBe("ideate");
+    expect(returned.history[1].status).toBe("returned");
+    expect(returned.current?.notes).toContain("Modeler Mo: Scope changed");
+
+    assignments[assignments.length - 1].nextReviewAt = new Date(Date.now() - 60_000);
+    const [summary] = await service.listModelLifecycles();
+    expect(summary.modelId).toBe(1);
+    expect(summary.current?.isOverdue).toBe(true);
+  });
+
+  it("does not let a model skip phases or start past the first one", async () => {
+    const { service } = createStore();
+    const [ideate, design, , , deploy] = await service.listPhases();
+
+    await expect(service.transition(1, { phaseId: design.id }, 2)).rejects.toThrow(
+      "Target phase must be Ideation; phases cannot be skipped",
+    );
+    await service.transition(1, { phaseId: ideate.id }, 2);
+    await expect(service.transition(1, { phaseId: deploy.id }, 2)).rejects.toThrow(
+      "Target phase must be Design; phases cannot be skipped",
+    );
+
+    const inDesign = await service.transition(1, { phaseId: design.id }, 2);
+    expect(inDesign.current?.phase?.key).toBe("design");
+  });
+
+  it("does not let the requester decide their own approval", async () => {
+    const { service } = createStore();
+    await service.transition(1, {}, 2);
+    await service.transition(1, {}, 2);
+    await service.requestApproval(1, null, 2);
+
+    await expect(service.recordDecision(1, "approved", null, 2)).rejects.toThrow(
+      "Approval must be decided by someone other than the requester",
+    );
+    const approved = await service.recordDecision(1, "approved", null, 9);
+    expect(approved.current?.approvalStatus).toBe("approved");
+  });
+
+  it("rejects unknown models", async () => {
+    const { service } = createStore();
+    await expect(service.getModelLifecycle(2)).rejects.toThrow("Data model 2 not found");
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DataModelVersion, DataModelVersionTag, ModelVersionSnapshot } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { ModelVersioningService, diffModelSnapshots } from "../server/services/modelVersioning";
+
+const now = new Date("2024-01-01T00:00:00Z");
+
+function snapshot(overrides: Partial<ModelVersionSnapshot> = {}): ModelVersionSnapshot {
+  return {
+    model: { id: 1, name: "Sales", description: null, targetSystemId: null, domainId: null, dataAreaId: null, createdAt: now, updatedAt: now },
+    layers: [
+      { id: 10, dataModelId: 1, name: "Sales", layer: "physical", parentModelId: null, targetSystemId: null, domainId: null, dataAreaId: null, createdAt: now, updatedAt: now },
+    ],
+    objects: [],
+    layerObjects: [],
+    attributes: [],
+    relationships: [],
+    properties: [],
+    ...overrides,
+  };
+}
+
+const customer = {
+  id: 100,
+  objectId: null,
+  modelId: 10,
+  name: "Customer",
+  description: null,
+  objectType: "table",
+  domainId: null,
+  dataAreaId: null,
+  sourceSystemId: null,
+  targetSystemId: null,
+  position: { x: 0, y: 0 },
+  metadata: null,
+  isVisible: true,
+  layerSpecificConfig: {},
+  createdAt: now,
+  updatedAt: now,
+};
+
+const customerId = {
+  id: 1000,
+  attributeId: null,
+  modelObjectId: 100,
+  modelId: 1,
+  name: "id",
+  description: null,
+  dataType: null,
+  length: null,
+  precision: null,
+  scale: null,
+  conceptualType: null,
+  logicalType: null,
+  physicalType: "INTEGER",
+  nullable: false,
+  isPrimaryKey: true,
+  isForeignKey: false,
+  orderIndex: 0,
+  layerSpecificConfig: {},
+  createdAt: now,
+  updatedAt: now,
+};
+
+function createStore(live: () => ModelVersionSnapshot) {
+  const versions: DataModelVersion[] = [];
+  const tags: DataModelVersionTag[] = [];
+  const restore = vi.fn();
+
+  const store = {
+    getModelVersionsByModel: async (dataModelId: number) =>
+      versions
+        .filter((version) => version.dataModelId === dataModelId)
+        .sort((a, b) => b.versionNumber - a.versionNumber)
+        .map(({ snapshot, ...version }) => ({
+          ...version,
+          counts: {
+            layers: snapshot.layers.length,
+            objects: snapshot.objects.length,
+            attributes: snapshot.attributes.length,
+            relationships: snapshot.relationships.length,
+          },
+        })),
+    getModelVersion: async (id: number) => versions.find((version) => version.id === id),
+    createModelVersion: async (input: any) => {
+      const version = { ...input, id: versions.length + 1, createdAt: now } as DataModelVersion;
+      versions.push(version);
+      return version;
+    },
+    getModelVersionTagsByModel: async (dataModelId: number) => tags.filter((tag) => tag.dataModelId === dataModelId),
+    getModelVersionTag: async (id: number) => tags.find((tag) => tag.id === id),
+    createModelVersionTag: async (input: any) => {
+      const tag = { ...input, id: tags.length + 1, createdAt: now } as DataModelVersionTag;
+      tags.push(tag);
+      return tag;
+    },
+    deleteModelVersionTag: async () => undefined,
+    captureModelFamilySnapshot: async () => structuredClone(live()),
+    restoreModelFamilySnapshot: restore,
+  };
+
+  return { service: new ModelVersioningService(store as any), versions, restore };
+}
+
+describe("model snapshot diff", () => {
+  it("reports added, removed and changed entities and ignores layout", () => {
+    const before = snapshot({ objects: [customer], attributes: [customerId] });
+    const after = snapshot({
+      objects: [{ ...customer, description: "People who buy", position: { x: 200, y: 40 } }],
+      attributes: [],
+      relationships: [],
+    });
+
+    const diff = diffModelSnapshots(before, after);
+
+    expect(diff.objects.changed).toEqual([
+      {
+        id: 100,
+        label: "Sales / Customer",
+        changes: [{ field: "description", from: null, to: "People who buy" }],
+      },
+    ]);
+    expect(diff.attributes.removed).toEqual([{ id: 1000, label: "Customer.id" }]);
+    expect(diff.summary).toEqual({ added: 0, removed: 1, changed: 1 });
+  });
+
+  it("treats timestamps serialized by JSONB like the original dates", () => {
+    const stored = JSON.parse(JSON.stringify(snapshot({ objects: [customer] })));
+    const diff = diffModelSnapshots(stored, snapshot({ objects: [customer] }));
+    expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0 });
+  });
+});
+
+describe("model versioning service", () => {
+  it("numbers versions per model and rejects duplicate tags", async () => {
+    const { service } = createStore(() => snapshot());
+
+    const first = await service.createVersion(1, { tag: "v1.0 approved" });
+    const second = await service.createVersion(1, { name: "  " });
+
+    expect(first.versionNumber).toBe(1);
+    expect(second.versionNumber).toBe(2);
+    expect(second.name).toBe("Version 2");
+
+    await expect(service.tagVersion(second.id, "V1.0 APPROVED")).rejects.toThrow("already exists");
+
+    const listed = await service.listVersions(1);
+    expect(listed.map((version) => version.versionNumber)).toEqual([2, 1]);
+    expect(listed[1].tags.map((tag) => tag.name)).toEqual(["v1.0 approved"]);
+    expect(listed[1]).not.toHaveProperty("snapshot");
+    expect(listed[1].counts).toEqual({ layers: 1, objects: 0, attributes: 0, relationships: 0 });
+  });
+
+  it("backs up the live model before restoring a version", async () => {
+    let live = snapshot({ objects: [customer] });
+    const { service, restore } = createStore(() => live);
+
+    const original = await service.createVersion(1, {});
+    live = snapshot();
+
+    const { restored, backup } = await service.restoreVersion(original.id);
+
+    expect(restored.id).toBe(original.id);
+    expect(backup.versionNumber).toBe(2);
+    expect(backup.snapshot.objects).toHaveLength(0);
+    expect(restore).toHaveBeenCalledWith(1, original.snapshot);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Any query reaching the database means a cross-tenant write got past the checks
+vi.mock("../server/db", () => ({
+  db: new Proxy({}, { get: () => () => { throw new Error("unexpected database access"); } }),
+  pool: null,
+}));
+
+import { Storage } from "../server/storage";
+
+// Rows visible to the requesting organization; the scoped getters return nothing for the others
+function createStorage() {
+  const storage = new Storage();
+  vi.spyOn(storage, "getDataModelLayer").mockImplementation(async (id) => (id === 7 ? ({ id: 7 } as any) : undefined));
+  vi.spyOn(storage, "getDataObject").mockImplementation(async (id) => (id === 30 ? ({ id: 30 } as any) : undefined));
+  return storage;
+}
+
+describe("organization scoping of model objects", () => {
+  it("rejects creating a model object on another organization's layer or data object", async () => {
+    const storage = createStorage();
+
+    await expect(storage.createDataModelObject({ modelId: 8, name: "Orders" })).rejects.toThrow(
+      "Data model layer 8 not found",
+    );
+    await expect(storage.createDataModelObject({ modelId: 7, objectId: 31 })).rejects.toThrow("Data object 31 not found");
+    await expect(
+      storage.createDataModelObjectsBatch([
+        { modelId: 7, objectId: 30 },
+        { modelId: 7, objectId: 31 },
+      ]),
+    ).rejects.toThrow("Data object 31 not found");
+  });
+
+  it("rejects moving a model object to another organization's layer or data object", async () => {
+    const storage = createStorage();
+
+    await expect(storage.updateDataModelObject(10, { modelId: 8 })).rejects.toThrow("Data model layer 8 not found");
+    await expect(storage.updateDataModelObject(10, { objectId: 31 })).rejects.toThrow("Data object 31 not found");
+  });
+});
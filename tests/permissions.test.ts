@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import type { NextFunction, Request, Response } from "express";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { hasPermission, permissions, permissionsForRoles } from "../shared/permissions";
+import { requirePermission } from "../server/middleware/auth";
+
+function runGuard(auth: Request["auth"]) {
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+  const next = vi.fn() as unknown as NextFunction;
+  requirePermission("config:edit")({ auth } as Request, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe("role permissions", () => {
+  it("grants each role the permissions of the roles below it", () => {
+    expect(permissionsForRoles(["viewer"])).toEqual(["models:comment"]);
+    expect(permissionsForRoles(["modeler"])).toEqual(["models:comment", "models:edit", "audit:view"]);
+    expect(permissionsForRoles(["steward"])).toEqual([
+      "models:comment",
+      "models:edit",
+      "models:delete",
+      "models:approve",
+      "audit:view",
+      "catalog:edit",
+      "systems:sync",
+    ]);
+    expect(permissionsForRoles(["admin"])).toEqual([...permissions]);
+  });
+
+  it("ignores unknown roles and lets super admins do everything", () => {
+    expect(permissionsForRoles(["member", "owner"])).toEqual([]);
+    expect(hasPermission([], "members:manage", true)).toBe(true);
+    expect(hasPermission(["modeler", "steward"], "systems:sync")).toBe(true);
+  });
+
+  it("rejects requests without the permission", () => {
+    const denied = runGuard({ userId: 1, organizationId: 1, roles: ["steward"], isSuperAdmin: false, sessionId: 1 });
+    expect(denied.next).not.toHaveBeenCalled();
+    expect(denied.res.status).toHaveBeenCalledWith(403);
+    expect(denied.res.json).toHaveBeenCalledWith(expect.objectContaining({ permission: "config:edit" }));
+
+    const allowed = runGuard({ userId: 1, organizationId: 1, roles: ["admin"], isSuperAdmin: false, sessionId: 1 });
+    expect(allowed.next).toHaveBeenCalled();
+    expect(allowed.res.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSnapshotFromMetadata,
+  buildSnapshotFromModel,
+  diffSchemas,
+  generateMigrationScript,
+} from "../server/services/schemaDiff";
+import { getSqlDialect } from "../server/services/sqlDialects";
+
+const baseline = buildSnapshotFromMetadata([
+  {
+    name: "customers",
+    columns: [
+      { name: "id", type: "integer", nullable: false, isPrimaryKey: true },
+      { name: "full_name", type: "varchar", length: 80, nullable: true, isPrimaryKey: false },
+      { name: "fax", type: "varchar", length: 20, nullable: true, isPrimaryKey: false },
+    ],
+  },
+  {
+    name: "legacy_notes",
+    columns: [{ name: "id", type: "integer", nullable: false, isPrimaryKey: true }],
+  },
+]);
+
+const target = buildSnapshotFromModel(
+  [
+    { id: 1, name: "Customers" },
+    { id: 2, name: "orders" },
+  ],
+  [
+    { id: 10, objectId: 1, name: "id", physicalType: "INTEGER", isPrimaryKey: true, nullable: false },
+    { id: 11, objectId: 1, name: "full_name", physicalType: "VARCHAR(120)", nullable: false, orderIndex: 1 },
+    { id: 12, objectId: 1, name: "email", physicalType: "VARCHAR(255)", nullable: true, orderIndex: 2 },
+    { id: 20, objectId: 2, name: "id", physicalType: "BIGINT", isPrimaryKey: true, nullable: false },
+    { id: 21, objectId: 2, name: "customer_id", physicalType: "INTEGER", nullable: false, orderIndex: 1 },
+  ],
+  [
+    {
+      type: "1:N",
+      name: null,
+      sourceModelObjectId: 1,
+      targetModelObjectId: 2,
+      sourceAttributeId: 10,
+      targetAttributeId: 21,
+    },
+  ],
+);
+
+describe("schema diff", () => {
+  it("detects table, column and foreign key changes case-insensitively", () => {
+    const diff = diffSchemas(baseline, target);
+
+    expect(diff.addedTables.map((table) => table.name)).toEqual(["orders"]);
+    expect(diff.addedTables[0].foreignKeys).toEqual([
+      {
+        name: "fk_orders_Customers_customer_id",
+        columns: ["customer_id"],
+        referencedTable: "Customers",
+        referencedColumns: ["id"],
+      },
+    ]);
+    expect(diff.droppedTables.map((table) => table.name)).toEqual(["legacy_notes"]);
+
+    expect(diff.changedTables).toHaveLength(1);
+    const customers = diff.changedTables[0];
+    expect(customers.addedColumns.map((column) => column.name)).toEqual(["email"]);
+    expect(customers.droppedColumns.map((column) => column.name)).toEqual(["fax"]);
+    expect(customers.changedColumns).toMatchObject([
+      { column: "full_name", typeChanged: true, nullabilityChanged: true },
+    ]);
+    expect(customers.primaryKeyChange).toBeUndefined();
+  });
+
+  it("reports no changes for identical snapshots", () => {
+    const diff = diffSchemas(target, target);
+    expect(diff).toEqual({ addedTables: [], droppedTables: [], changedTables: [] });
+  });
+});
+
+describe("migration scripts", () => {
+  it("orders postgres statements and renders a rollback", () => {
+    const script = generateMigrationScript(diffSchemas(baseline, target), getSqlDialect("postgres"), {
+      allowDrop: true,
+    });
+
+    const up = script.up;
+    const createOrders = up.indexOf('CREATE TABLE orders');
+    const addEmail = up.indexOf('ALTER TABLE Customers ADD COLUMN email VARCHAR(255);');
+    const dropTable = up.indexOf("DROP TABLE legacy_notes;");
+    const addForeignKey = up.indexOf("FOREIGN KEY (customer_id) REFERENCES");
+
+    expect(createOrders).toBeGreaterThan(-1);
+    expect(addEmail).toBeGreaterThan(createOrders);
+    expect(up).toContain('ALTER TABLE Customers ALTER COLUMN full_name TYPE VARCHAR(120);');
+    expect(up).toContain('ALTER TABLE Customers ALTER COLUMN full_name SET NOT NULL;');
+    expect(up).toContain('ALTER TABLE Customers DROP COLUMN fax;');
+    expect(dropTable).toBeGreaterThan(addEmail);
+    expect(addForeignKey).toBeGreaterThan(dropTable);
+    expect(script.warnings).toEqual([]);
+
+    const down = script.down;
+    expect(down.indexOf("DROP CONSTRAINT fk_orders_Customers_customer_id")).toBeLessThan(
+      down.indexOf("DROP TABLE orders;"),
+    );
+    expect(down).toContain("CREATE TABLE legacy_notes");
+    expect(down).toContain('ALTER TABLE Customers ADD COLUMN fax VARCHAR(20);');
+    expect(down).toContain('ALTER TABLE Customers ALTER COLUMN full_name TYPE VARCHAR(80);');
+    expect(down).toContain('ALTER TABLE Customers DROP COLUMN email;');
+  });
+
+  it("replaces a primary key under its introspected name and sets referencing foreign keys aside", () => {
+    const live = buildSnapshotFromMetadata([
+      {
+        name: "customers",
+        primaryKeyName: "customers_pkey",
+        columns: [
+          { name: "id", type: "integer", nullable: false, isPrimaryKey: true },
+          { name: "region", type: "integer", nullable: false, isPrimaryKey: false },
+        ],
+      },
+      {
+        name: "orders",
+        primaryKeyName: "orders_pkey",
+        columns: [
+          { name: "id", type: "integer", nullable: false, isPrimaryKey: true },
+          { name: "customer_id", type: "integer", nullable: false, isPrimaryKey: false },
+        ],
+        foreignKeys: [
+          {
+            constraintName: "orders_customer_id_fkey",
+            columns: ["customer_id"],
+            referencedTable: "customers",
+            referencedColumns: ["id"],
+          },
+        ],
+      },
+    ]);
+    const model = buildSnapshotFromModel(
+      [
+        { id: 1, name: "customers" },
+        { id: 2, name: "orders" },
+      ],
+      [
+        { id: 10, objectId: 1, name: "id", physicalType: "INTEGER", isPrimaryKey: true, nullable: false },
+        { id: 11, objectId: 1, name: "region", physicalType: "INTEGER", isPrimaryKey: true, nullable: false, orderIndex: 1 },
+        { id: 20, objectId: 2, name: "id", physicalType: "INTEGER", isPrimaryKey: true, nullable: false },
+        { id: 21, objectId: 2, name: "customer_id", physicalType: "INTEGER", nullable: false, orderIndex: 1 },
+      ],
+      [
+        {
+          type: "1:N",
+          name: "orders_customer_id_fkey",
+          sourceModelObjectId: 1,
+          targetModelObjectId: 2,
+          sourceAttributeId: 10,
+          targetAttributeId: 21,
+        },
+      ],
+    );
+
+    const script = generateMigrationScript(diffSchemas(live, model), getSqlDialect("postgres"));
+    const up = script.up;
+    const dropForeignKey = up.indexOf("ALTER TABLE orders DROP CONSTRAINT orders_customer_id_fkey;");
+    const dropPrimaryKey = up.indexOf("ALTER TABLE customers DROP CONSTRAINT customers_pkey;");
+    const addPrimaryKey = up.indexOf("ALTER TABLE customers ADD CONSTRAINT pk_customers PRIMARY KEY (id, region);");
+    const addForeignKey = up.indexOf("ALTER TABLE orders\n  ADD CONSTRAINT orders_customer_id_fkey\n");
+
+    expect(dropForeignKey).toBeGreaterThan(-1);
+    expect(dropPrimaryKey).toBeGreaterThan(dropForeignKey);
+    expect(addPrimaryKey).toBeGreaterThan(dropPrimaryKey);
+    expect(addForeignKey).toBeGreaterThan(addPrimaryKey);
+
+    // The rollback restores the original constraint name
+    const down = script.down;
+    expect(down.indexOf("ALTER TABLE orders DROP CONSTRAINT orders_customer_id_fkey;")).toBeLessThan(
+      down.indexOf("ALTER TABLE customers DROP CONSTRAINT pk_customers;"),
+    );
+    expect(down).toContain("ALTER TABLE customers ADD CONSTRAINT customers_pkey PRIMARY KEY (id);");
+    expect(down).toContain("ALTER TABLE orders\n  ADD CONSTRAINT orders_customer_id_fkey\n");
+  });
+
+  it("skips drops with warnings unless allowed", () => {
+    const script = generateMigrationScript(diffSchemas(baseline, target), getSqlDialect("mysql"));
+
+    expect(script.up).not.toContain("DROP TABLE legacy_notes;");
+    expect(script.up).not.toContain("DROP COLUMN fax;");
+    expect(script.up).toContain("ALTER TABLE Customers MODIFY COLUMN full_name VARCHAR(120) NOT NULL;");
+    expect(script.warnings).toHaveLength(2);
+    expect(script.down).not.toContain("CREATE TABLE legacy_notes");
+    expect(script.down).not.toContain("ADD COLUMN fax");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AuthSession } from "../shared/schema";
+
+vi.mock("../server/storage", () => ({
+  storage: {},
+}));
+
+import { SessionService } from "../server/services/sessionService";
+
+function createStore() {
+  const sessions: AuthSession[] = [];
+  const now = new Date();
+
+  const store = {
+    createAuthSession: async (input: any) => {
+      const session = {
+        ...input,
+        id: sessions.length + 1,
+        revokedAt: null,
+        lastUsedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      } as AuthSession;
+      sessions.push(session);
+      return session;
+    },
+    getAuthSession: async (id: number) => {
+      const session = sessions.find((item) => item.id === id);
+      return session ? { ...session } : undefined;
+    },
+    updateAuthSession: async (id: number, patch: Partial<AuthSession>) => {
+      const session = sessions.find((item) => item.id === id);
+      if (session) {
+        Object.assign(session, patch);
+      }
+      return session;
+    },
+    rotateAuthSession: async (id: number, expectedHash: string, patch: Partial<AuthSession>) => {
+      const session = sessions.find((item) => item.id === id);
+      if (!session || session.revokedAt || session.refreshTokenHash !== expectedHash) {
+        return undefined;
+      }
+      return Object.assign(session, patch);
+    },
+    revokeUserAuthSessions: async (userId: number) => {
+      const active = sessions.filter((session) => session.userId === userId && !session.revokedAt);
+      active.forEach((session) => {
+        session.revokedAt = new Date();
+      });
+      return active.length;
+    },
+  };
+
+  return { service: new SessionService(store as any), sessions };
+}
+
+describe("session service", () => {
+  it("stores only a hash of the refresh token and rotates it", async () => {
+    const { service, sessions } = createStore();
+    const { session, refreshToken } = await service.startSession(5, "vitest");
+
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    expect(sessions[0].refreshTokenHash).not.toContain(refreshToken.split(".")[1]);
+
+    const rotated = await service.rotate(refreshToken);
+    expect(rotated.session.id).toBe(session.id);
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(await service.isActive(session.id)).toBe(true);
+  });
+
+  it("revokes the session when a rotated token is replayed", async () => {
+    const { service } = createStore();
+    const { session, refreshToken } = await service.startSession(5);
+    const rotated = await service.rotate(refreshToken);
+
+    await expect(service.rotate(refreshToken)).rejects.toThrow("Refresh token is invalid or has expired");
+    expect(await service.isActive(session.id)).toBe(false);
+    await expect(service.rotate(rotated.refreshToken)).rejects.toThrow("Refresh token is invalid or has expired");
+  });
+
+  it("lets only one of two concurrent refreshes rotate the token", async () => {
+    const { service } = createStore();
+    const { session, refreshToken } = await service.startSession(5);
+
+    const results = await Promise.allSettled([service.rotate(refreshToken), service.rotate(refreshToken)]);
+    const fulfilled = results.filter((result) => result.status === "fulfilled");
+    const rejected = results.filter((result) => result.status === "rejected");
+
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect((rejected[0] as PromiseRejectedResult).reason.message).toBe("Refresh token is invalid or has expired");
+    expect(await service.isActive(session.id)).toBe(true);
+    const winner = (fulfilled[0] as PromiseFulfilledResult<{ refreshToken: string }>).value;
+    await expect(service.rotate(winner.refreshToken)).resolves.toBeTruthy();
+  });
+
+  it("rejects malformed, expired and revoked tokens", async () => {
+    const { service, sessions } = createStore();
+    await expect(service.rotate("not-a-token")).rejects.toThrow("invalid or has expired");
+
+    const expired = await service.startSession(5);
+    sessions[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.rotate(expired.refreshToken)).rejects.toThrow("invalid or has expired");
+
+    const loggedOut = await service.startSession(5);
+    await service.revoke(loggedOut.session.id);
+    await expect(service.rotate(loggedOut.refreshToken)).rejects.toThrow("invalid or has expired");
+  });
+
+  it("logs out every device of a user", async () => {
+    const { service } = createStore();
+    const first = await service.startSession(5);
+    const second = await service.startSession(5);
+    const other = await service.startSession(6);
+
+    expect(await service.revokeAll(5)).toBe(2);
+    expect(await service.isActive(first.session.id)).toBe(false);
+    expect(await service.isActive(second.session.id)).toBe(false);
+    expect(await service.isActive(other.session.id)).toBe(true);
+  });
+});
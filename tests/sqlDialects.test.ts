@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import type { Attribute, DataModel, DataModelObjectRelationship, DataObject } from "../shared/schema";
+import { ExportService, type ExportOptions } from "../server/services/exportService";
+import { getSqlDialect, resolveColumnType, resolveDialectName } from "../server/services/sqlDialects";
+
+const now = new Date("2024-01-01T00:00:00Z");
+
+const model = { id: 1, name: "Sales" } as DataModel;
+
+const objects = [
+  { id: 10, name: "customers", description: "Customer master" },
+  { id: 11, name: "orders", description: null },
+] as DataObject[];
+
+function attribute(overrides: Partial<Attribute>): Attribute {
+  return {
+    id: 0,
+    name: "",
+    objectId: 10,
+    conceptualType: null,
+    logicalType: null,
+    physicalType: null,
+    length: null,
+    precision: null,
+    scale: null,
+    nullable: true,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    orderIndex: 0,
+    isNew: false,
+    commonProperties: null,
+    description: null,
+    dataType: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const attributes: Attribute[] = [
+  attribute({ id: 100, objectId: 10, name: "id", physicalType: "SERIAL", nullable: false, isPrimaryKey: true }),
+  attribute({ id: 101, objectId: 10, name: "full_name", physicalType: "VARCHAR(120)", description: "Customer's name", orderIndex: 1 }),
+  attribute({ id: 102, objectId: 10, name: "balance", logicalType: "DECIMAL(12,4)", orderIndex: 2 }),
+  attribute({ id: 110, objectId: 11, name: "id", physicalType: "BIGINT", nullable: false, isPrimaryKey: true }),
+  attribute({ id: 111, objectId: 11, name: "customer_id", physicalType: "INTEGER", isForeignKey: true, orderIndex: 1 }),
+  attribute({ id: 112, objectId: 11, name: "order", physicalType: "TIMESTAMP WITH TIME ZONE", orderIndex: 2 }),
+];
+
+const relationships = [
+  {
+    id: 1,
+    sourceModelObjectId: 10,
+    targetModelObjectId: 11,
+    type: "1:N",
+    relationshipLevel: "attribute",
+    sourceAttributeId: 100,
+    targetAttributeId: 111,
+    modelId: 1,
+    layer: "physical",
+    name: null,
+  },
+] as DataModelObjectRelationship[];
+
+const baseOptions: ExportOptions = {
+  format: "sql_ddl",
+  layer: "physical",
+  includePrimaryKeys: true,
+  includeForeignKeys: true,
+  includeConstraints: true,
+  includeMetadata: false,
+  includeDescriptions: true,
+  includeLegend: false,
+  includeTitle: false,
+  includeTimestamp: false,
+};
+
+const exportDdl = (sqlDialect: ExportOptions["sqlDialect"]) =>
+  new ExportService().exportModel(model, objects, attributes, relationships, { ...baseOptions, sqlDialect });
+
+describe("resolveColumnType", () => {
+  it("parses length, precision and identity hints from type literals", () => {
+    expect(resolveColumnType(attributes[1])).toMatchObject({ canonical: "string", length: 120 });
+    expect(resolveColumnType(attributes[2])).toMatchObject({ canonical: "decimal", precision: 12, scale: 4 });
+    expect(resolveColumnType(attributes[0])).toMatchObject({ canonical: "integer", identity: true });
+    expect(resolveColumnType(attribute({ physicalType: "NUMBER(10,0)" }))).toMatchObject({ canonical: "bigint" });
+    expect(resolveColumnType(attribute({ conceptualType: "Currency" }), "conceptual")).toMatchObject({ precision: 15 });
+  });
+
+  it("keeps unbounded and unparameterized physical types unbounded", () => {
+    const render = (dialect: string, physicalType: string) =>
+      getSqlDialect(dialect).renderType(resolveColumnType(attribute({ physicalType })));
+
+    expect(resolveColumnType(attribute({ conceptualType: "Text" }), "conceptual")).toMatchObject({ canonical: "string" });
+    expect(resolveColumnType(attribute({ conceptualType: "Number" }), "conceptual")).toMatchObject({ canonical: "integer" });
+    expect(["postgres", "sqlserver", "oracle"].map((dialect) => render(dialect, "TEXT"))).toEqual([
+      "TEXT",
+      "NVARCHAR(MAX)",
+      "CLOB",
+    ]);
+    expect(["postgres", "sqlserver", "mysql", "oracle"].map((dialect) => render(dialect, "VARCHAR(MAX)"))).toEqual([
+      "TEXT",
+      "NVARCHAR(MAX)",
+      "LONGTEXT",
+      "CLOB",
+    ]);
+    expect(render("sqlserver", "NVARCHAR(max)")).toBe("NVARCHAR(MAX)");
+    expect(resolveColumnType(attribute({ physicalType: "NUMBER" }))).toMatchObject({ canonical: "decimal", precision: null });
+    expect(render("oracle", "NUMBER(5,2)")).toBe("NUMBER(5,2)");
+    expect(["postgres", "oracle"].map((dialect) => render(dialect, "time with time zone"))).toEqual([
+      "TIMETZ",
+      "TIMESTAMP WITH TIME ZONE",
+    ]);
+    expect(render("oracle", "TIME")).toBe("INTERVAL DAY(0) TO SECOND");
+  });
+
+  it("maps platform aliases to dialects", () => {
+    expect(resolveDialectName("PostgreSQL")).toBe("postgres");
+    expect(resolveDialectName("sql_server")).toBe("sqlserver");
+    expect(resolveDialectName("Delta Lake")).toBe("databricks");
+    expect(resolveDialectName("db2")).toBeUndefined();
+    expect(getSqlDialect("db2").name).toBe("generic");
+  });
+});
+
+describe("ExportService SQL dialects", () => {
+  it("emits PostgreSQL identity columns, comments and child-side foreign keys", async () => {
+    const ddl = await exportDdl("postgres");
+
+    expect(ddl).toContain("id INTEGER GENERATED BY DEFAULT AS IDENTITY NOT NULL");
+    expect(ddl).toContain("balance NUMERIC(12,4)");
+    expect(ddl).toContain('"order" TIMESTAMPTZ');
+    expect(ddl).toContain("CONSTRAINT pk_customers PRIMARY KEY (id)");
+    expect(ddl).toContain("COMMENT ON TABLE customers IS 'Customer master';");
+    expect(ddl).toContain("COMMENT ON COLUMN customers.full_name IS 'Customer''s name';");
+    expect(ddl).toContain("ALTER TABLE orders\n  ADD CONSTRAINT fk_orders_customers_customer_id\n  FOREIGN KEY (customer_id) REFERENCES customers (id);");
+  });
+
+  it("emits SQL Server types, bracket quoting and extended properties", async () => {
+    const ddl = await exportDdl("sqlserver");
+
+    expect(ddl).toContain("id INT IDENTITY(1,1) NOT NULL");
+    expect(ddl).toContain("full_name NVARCHAR(120)");
+    expect(ddl).toContain("[order] DATETIMEOFFSET");
+    expect(ddl).toContain("EXEC sp_addextendedproperty @name = N'MS_Description', @value = N'Customer master'");
+  });
+
+  it("renders inline comments for MySQL, Snowflake and Databricks", async () => {
+    const mysql = await exportDdl("mysql");
+    expect(mysql).toContain("id INT AUTO_INCREMENT NOT NULL");
+    expect(mysql).toContain("full_name VARCHAR(120) COMMENT 'Customer''s name'");
+    expect(mysql).toContain("ENGINE=InnoDB COMMENT='Customer master';");
+    expect(mysql).toContain("`order` TIMESTAMP");
+
+    const snowflake = await exportDdl("snowflake");
+    expect(snowflake).toContain("id INTEGER AUTOINCREMENT START 1 INCREMENT 1 NOT NULL");
+    expect(snowflake).toContain("balance NUMBER(12,4)");
+    expect(snowflake).toContain("COMMENT = 'Customer master';");
+
+    const databricks = await exportDdl("databricks");
+    expect(databricks).toContain("id BIGINT GENERATED BY DEFAULT AS IDENTITY NOT NULL");
+    expect(databricks).toContain("full_name STRING COMMENT 'Customer''s name'");
+    expect(databricks).toContain("USING DELTA\nCOMMENT 'Customer master';");
+    expect(databricks).toContain("REFERENCES customers (id) NOT ENFORCED;");
+  });
+
+  it("emits Oracle identity and character semantics", async () => {
+    const ddl = await exportDdl("oracle");
+
+    expect(ddl).toContain("id NUMBER(10) GENERATED BY DEFAULT ON NULL AS IDENTITY NOT NULL");
+    expect(ddl).toContain("full_name VARCHAR2(120 CHAR)");
+    expect(ddl).toContain('"order" TIMESTAMP WITH TIME ZONE');
+  });
+
+  it("keeps the modeller's physical types verbatim for generic DDL", async () => {
+    const ddl = await exportDdl(undefined);
+
+    expect(ddl).toContain("-- Dialect: Generic SQL");
+    expect(ddl).toContain("id SERIAL NOT NULL");
+    expect(ddl).toContain("full_name VARCHAR(120)");
+    expect(ddl).not.toContain("COMMENT ON");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { proposeStarSchema, type StarSchemaInput } from "../server/services/starSchemaDesigner";
+
+const input: StarSchemaInput = {
+  objects: [
+    { id: 1, name: "Customer" },
+    { id: 2, name: "Product" },
+    { id: 3, name: "Order Line" },
+    { id: 4, name: "Warehouse" },
+  ],
+  attributes: [
+    { id: 10, objectId: 1, name: "customer_id", logicalType: "INTEGER", isPrimaryKey: true, nullable: false, orderIndex: 0 },
+    { id: 11, objectId: 1, name: "name", logicalType: "VARCHAR(100)", nullable: false, orderIndex: 1 },
+    { id: 12, objectId: 1, name: "credit_limit", logicalType: "DECIMAL(12,2)", orderIndex: 2 },
+    { id: 20, objectId: 2, name: "sku", logicalType: "VARCHAR(20)", isPrimaryKey: true, orderIndex: 0 },
+    { id: 30, objectId: 3, name: "line_id", logicalType: "BIGINT", isPrimaryKey: true, orderIndex: 0 },
+    { id: 31, objectId: 3, name: "customer_id", logicalType: "INTEGER", isForeignKey: true, nullable: false, orderIndex: 1 },
+    { id: 32, objectId: 3, name: "billing_customer_id", logicalType: "INTEGER", isForeignKey: true, orderIndex: 2 },
+    { id: 33, objectId: 3, name: "sku", logicalType: "VARCHAR(20)", isForeignKey: true, nullable: false, orderIndex: 3 },
+    { id: 34, objectId: 3, name: "quantity", logicalType: "INTEGER", nullable: false, orderIndex: 4 },
+    { id: 35, objectId: 3, name: "amount", logicalType: "DECIMAL(12,2)", orderIndex: 5 },
+    { id: 36, objectId: 3, name: "channel", logicalType: "VARCHAR(10)", orderIndex: 6 },
+    { id: 40, objectId: 4, name: "code", logicalType: "CHAR(3)", isPrimaryKey: true, orderIndex: 0 },
+  ],
+  relationships: [
+    { sourceModelObjectId: 3, targetModelObjectId: 1, sourceAttributeId: 31, targetAttributeId: 10, type: "N:1" },
+    { sourceModelObjectId: 1, targetModelObjectId: 3, sourceAttributeId: 10, targetAttributeId: 32, type: "1:N" },
+    { sourceModelObjectId: 3, targetModelObjectId: 2, sourceAttributeId: 33, targetAttributeId: 20, type: "N:1" },
+    { sourceModelObjectId: 2, targetModelObjectId: 4, type: "N:M" },
+  ],
+};
+
+describe("star schema designer", () => {
+  it("classifies facts and dimensions from cardinalities and numeric attributes", () => {
+    const proposal = proposeStarSchema(input);
+
+    expect(proposal.tables.map((table) => [table.name, table.role])).toEqual([
+      ["fact_order_line", "fact"],
+      ["dim_customer", "dimension"],
+      ["dim_product", "dimension"],
+      ["dim_warehouse", "dimension"],
+    ]);
+    expect(proposal.tables[0].reason).toBe("References 2 objects and has 2 numeric measures");
+    expect(proposal.tables[1].reason).toBe("Referenced by Order Line");
+    expect(proposal.warnings).toContain(
+      "Product and Warehouse are many-to-many; model a bridge table to carry it into the star schema",
+    );
+  });
+
+  it("adds surrogate keys and SCD type 2 columns to dimensions", () => {
+    const customer = proposeStarSchema(input).tables.find((table) => table.name === "dim_customer")!;
+
+    expect(customer.columns.map((column) => [column.name, column.physicalType, column.role, column.nullable])).toEqual([
+      ["customer_sk", "BIGINT", "surrogate_key", false],
+      ["customer_id", "INTEGER", "business_key", false],
+      ["name", "VARCHAR(100)", "attribute", false],
+      ["credit_limit", "DECIMAL(12,2)", "attribute", true],
+      ["valid_from", "TIMESTAMP", "scd", false],
+      ["valid_to", "TIMESTAMP", "scd", true],
+      ["is_current", "BOOLEAN", "scd", false],
+    ]);
+    expect(customer.columns.filter((column) => column.isPrimaryKey).map((column) => column.name)).toEqual(["customer_sk"]);
+
+    const withoutHistory = proposeStarSchema({ ...input, scdType2: false }).tables.find((table) => table.name === "dim_customer")!;
+    expect(withoutHistory.columns.some((column) => column.role === "scd")).toBe(false);
+  });
+
+  it("replaces fact foreign keys with dimension surrogate keys, naming role-playing references", () => {
+    const proposal = proposeStarSchema(input);
+    const fact = proposal.tables[0];
+
+    expect(fact.columns.map((column) => [column.name, column.role, column.nullable])).toEqual([
+      ["order_line_sk", "surrogate_key", false],
+      ["customer_sk", "dimension_key", false],
+      ["billing_customer_sk", "dimension_key", true],
+      ["product_sk", "dimension_key", false],
+      ["line_id", "degenerate", false],
+      ["quantity", "measure", false],
+      ["amount", "measure", true],
+      ["channel", "attribute", true],
+    ]);
+    expect(proposal.relationships).toEqual([
+      { factTable: "fact_order_line", column: "customer_sk", dimensionTable: "dim_customer", dimensionColumn: "customer_sk" },
+      { factTable: "fact_order_line", column: "billing_customer_sk", dimensionTable: "dim_customer", dimensionColumn: "customer_sk" },
+      { factTable: "fact_order_line", column: "product_sk", dimensionTable: "dim_product", dimensionColumn: "product_sk" },
+    ]);
+  });
+
+  it("honours role overrides from the preview", () => {
+    const proposal = proposeStarSchema({ ...input, roles: { 3: "exclude", 4: "exclude" } });
+
+    expect(proposal.tables.map((table) => table.name)).toEqual(["dim_customer", "dim_product"]);
+    expect(proposal.relationships).toEqual([]);
+    expect(proposal.warnings).toContain("No fact tables were found; mark an object as a fact in the preview");
+  });
+});